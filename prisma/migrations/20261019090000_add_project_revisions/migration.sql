@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "project" ADD COLUMN "headRevisionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "project_revision" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "projectId" TEXT NOT NULL,
+    "manifest" TEXT NOT NULL,
+    "parentId" TEXT,
+    "author" TEXT NOT NULL DEFAULT 'user',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "project_revision_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "project" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "project_revision_projectId_idx" ON "project_revision"("projectId");
+
+-- CreateIndex
+CREATE INDEX "project_revision_parentId_idx" ON "project_revision"("parentId");
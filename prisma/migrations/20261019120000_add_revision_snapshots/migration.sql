@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "project_revision" ADD COLUMN "diffSummary" TEXT;
+ALTER TABLE "project_revision" ADD COLUMN "name" TEXT;
+ALTER TABLE "project_revision" ADD COLUMN "toolCallId" TEXT;
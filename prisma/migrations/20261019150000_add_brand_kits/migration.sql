@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "brand_kit" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "colors" TEXT NOT NULL DEFAULT '{}',
+    "fonts" TEXT NOT NULL DEFAULT '[]',
+    "headingFont" TEXT,
+    "bodyFont" TEXT,
+    "logoAssetId" TEXT,
+    "logoUrl" TEXT,
+    "watermarkPosition" TEXT,
+    "watermarkOpacity" REAL,
+    "lowerThird" TEXT,
+    "bigTitle" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "brand_kit_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- AlterTable
+ALTER TABLE "project" ADD COLUMN "brandKitId" TEXT REFERENCES "brand_kit" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- CreateIndex
+CREATE INDEX "brand_kit_userId_idx" ON "brand_kit"("userId");
+
+-- CreateIndex
+CREATE INDEX "project_brandKitId_idx" ON "project"("brandKitId");
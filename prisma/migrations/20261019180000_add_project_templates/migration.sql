@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "project_template" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "width" INTEGER NOT NULL DEFAULT 1080,
+    "height" INTEGER NOT NULL DEFAULT 1920,
+    "fps" INTEGER NOT NULL DEFAULT 30,
+    "manifest" TEXT NOT NULL,
+    "slots" TEXT NOT NULL DEFAULT '[]',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "project_template_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- AlterTable
+ALTER TABLE "project" ADD COLUMN "templateId" TEXT REFERENCES "project_template" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- CreateIndex
+CREATE INDEX "project_template_userId_idx" ON "project_template"("userId");
+
+-- CreateIndex
+CREATE INDEX "project_templateId_idx" ON "project"("templateId");
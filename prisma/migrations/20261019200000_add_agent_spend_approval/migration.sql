@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "user" ADD COLUMN "confirmAgentSpend" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "chat_message" ADD COLUMN "approval" TEXT;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "project" ADD COLUMN "manifestVersion" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,572 @@
+/**
+ * Brand Kit Dialog Component
+ *
+ * Create and edit brand kits (colours, uploaded fonts, logo watermark, default
+ * title styling) and choose which kit the project uses.
+ */
+
+import { useEffect, useRef, useState } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { Check, Plus, Trash2, Upload, X } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  SYSTEM_FONTS,
+  getFontContentType,
+  getFontFamilyFromFilename,
+  toFontFamily,
+} from '../../remotion/fonts'
+import { Button } from '../ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../ui/select'
+import type {
+  BrandColors,
+  BrandFont,
+  BrandStyle,
+  WatermarkPosition,
+} from '../../remotion/types'
+import { cn } from '@/lib/utils'
+
+interface BrandKitDialogProps {
+  projectId: string
+  /** Brand kit the project currently uses */
+  brandKitId: string | null
+  /** Project assets; image assets can be picked as the logo */
+  assets: Array<{ id: string; type: string; url: string }>
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+interface BrandKitForm {
+  name: string
+  colors: BrandColors
+  fonts: Array<BrandFont>
+  headingFont: string
+  bodyFont: string
+  logoAssetId: string | null
+  watermarkPosition: WatermarkPosition | 'none'
+}
+
+const COLOR_FIELDS: Array<{ key: keyof BrandColors; label: string }> = [
+  { key: 'primary', label: 'Primary' },
+  { key: 'secondary', label: 'Secondary' },
+  { key: 'accent', label: 'Accent' },
+  { key: 'text', label: 'Text' },
+  { key: 'background', label: 'Background' },
+]
+
+const WATERMARK_OPTIONS: Array<{
+  value: WatermarkPosition | 'none'
+  label: string
+}> = [
+  { value: 'none', label: 'No watermark' },
+  { value: 'top-left', label: 'Top left' },
+  { value: 'top-right', label: 'Top right' },
+  { value: 'bottom-left', label: 'Bottom left' },
+  { value: 'bottom-right', label: 'Bottom right' },
+]
+
+const NEW_KIT_FORM: BrandKitForm = {
+  name: 'My Brand',
+  colors: {
+    primary: '#7c3aed',
+    secondary: '#1e1b4b',
+    accent: '#facc15',
+    text: '#ffffff',
+    background: '#000000',
+  },
+  fonts: [],
+  headingFont: '',
+  bodyFont: '',
+  logoAssetId: null,
+  watermarkPosition: 'none',
+}
+
+// Select value for "use the component's default font"
+const DEFAULT_FONT = 'default'
+
+export function BrandKitDialog({
+  projectId,
+  brandKitId,
+  assets,
+  open,
+  onOpenChange,
+}: BrandKitDialogProps) {
+  const queryClient = useQueryClient()
+  // null = creating a new kit
+  const [selectedId, setSelectedId] = useState<string | null>(brandKitId)
+  const [form, setForm] = useState<BrandKitForm>(NEW_KIT_FORM)
+  const [isSaving, setIsSaving] = useState(false)
+  const [isUploadingFont, setIsUploadingFont] = useState(false)
+  const fontInputRef = useRef<HTMLInputElement>(null)
+
+  const { data: kits = [], isLoading } = useQuery({
+    queryKey: ['brandKits'],
+    queryFn: async () => {
+      const { listBrandKitsFn } = await import('../../server/brand-kit.server')
+      return listBrandKitsFn()
+    },
+    enabled: open,
+  })
+
+  const selectedKit = kits.find((kit) => kit.id === selectedId)
+  const imageAssets = assets.filter((asset) => asset.type === 'image')
+
+  // Load the selected kit into the form
+  useEffect(() => {
+    setForm(selectedKit ? toForm(selectedKit) : NEW_KIT_FORM)
+  }, [selectedKit])
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['brandKits'] })
+    queryClient.invalidateQueries({ queryKey: ['project', projectId] })
+  }
+
+  const handleSave = async () => {
+    if (!form.name.trim()) return
+    setIsSaving(true)
+    try {
+      const fields = {
+        name: form.name.trim(),
+        colors: form.colors,
+        fonts: form.fonts,
+        headingFont: form.headingFont.trim() || null,
+        bodyFont: form.bodyFont.trim() || null,
+        logoAssetId: form.logoAssetId,
+        watermarkPosition:
+          form.watermarkPosition === 'none' ? null : form.watermarkPosition,
+      }
+      const { createBrandKitFn, updateBrandKitFn } =
+        await import('../../server/brand-kit.server')
+      const kit = selectedId
+        ? await updateBrandKitFn({
+            data: { brandKitId: selectedId, ...fields },
+          })
+        : await createBrandKitFn({ data: fields })
+      setSelectedId(kit.id)
+      refresh()
+      toast.success(`Brand kit "${kit.name}" saved`)
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to save brand kit',
+      )
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!selectedKit) return
+    try {
+      const { deleteBrandKitFn } = await import('../../server/brand-kit.server')
+      await deleteBrandKitFn({ data: { brandKitId: selectedKit.id } })
+      setSelectedId(null)
+      refresh()
+      toast.success(`Brand kit "${selectedKit.name}" deleted`)
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to delete brand kit',
+      )
+    }
+  }
+
+  const handleUseForProject = async (kitId: string | null) => {
+    try {
+      const { setProjectBrandKitFn } =
+        await import('../../server/brand-kit.server')
+      await setProjectBrandKitFn({ data: { projectId, brandKitId: kitId } })
+      refresh()
+      toast.success(kitId ? 'Brand kit applied' : 'Brand kit removed')
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to apply brand kit',
+      )
+    }
+  }
+
+  const handleUploadFont = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    const contentType = getFontContentType(file.name)
+    if (!contentType) {
+      toast.error('Unsupported font. Please upload a TTF, OTF or WOFF2 file.')
+      return
+    }
+
+    setIsUploadingFont(true)
+    try {
+      const fontData = await readAsBase64(file)
+      const { uploadFontFn } = await import('../../server/font.server')
+      const font = await uploadFontFn({
+        data: {
+          fontData,
+          filename: file.name,
+          contentType,
+          family: getFontFamilyFromFilename(file.name),
+        },
+      })
+      // Added to the kit on save
+      setForm((prev) => ({
+        ...prev,
+        fonts: [...prev.fonts.filter((f) => f.family !== font.family), font],
+      }))
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to upload font',
+      )
+    } finally {
+      setIsUploadingFont(false)
+    }
+  }
+
+  const handleRemoveFont = (url: string) => {
+    setForm((prev) => {
+      const removed = prev.fonts.find((font) => font.url === url)
+      const family = removed && toFontFamily(removed)
+      return {
+        ...prev,
+        fonts: prev.fonts.filter((font) => font.url !== url),
+        headingFont: prev.headingFont === family ? '' : prev.headingFont,
+        bodyFont: prev.bodyFont === family ? '' : prev.bodyFont,
+      }
+    })
+  }
+
+  const setColor = (key: keyof BrandColors, value: string) => {
+    setForm((prev) => ({ ...prev, colors: { ...prev.colors, [key]: value } }))
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Brand Kit</DialogTitle>
+          <DialogDescription>
+            Colours, fonts and a logo watermark applied to this project's
+            titles, lower thirds and captions. Styling set on an individual
+            overlay still takes precedence.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex h-[440px] gap-4">
+          {/* Kit list */}
+          <div className="flex w-56 shrink-0 flex-col gap-1 overflow-y-auto">
+            {isLoading ? (
+              <p className="p-2 text-sm text-muted-foreground">Loading...</p>
+            ) : (
+              kits.map((kit) => (
+                <button
+                  key={kit.id}
+                  onClick={() => setSelectedId(kit.id)}
+                  className={cn(
+                    'flex w-full items-center gap-2 rounded-md border p-2 text-left text-sm transition-colors hover:bg-muted',
+                    selectedId === kit.id
+                      ? 'border-primary bg-muted'
+                      : 'border-transparent',
+                  )}
+                >
+                  <span className="flex shrink-0 -space-x-1">
+                    {COLOR_FIELDS.slice(0, 3).map(({ key }) => (
+                      <span
+                        key={key}
+                        className="h-3.5 w-3.5 rounded-full border border-background"
+                        style={{ backgroundColor: kit.colors[key] }}
+                      />
+                    ))}
+                  </span>
+                  <span className="truncate font-medium">{kit.name}</span>
+                  {kit.id === brandKitId && (
+                    <Check className="ml-auto h-3.5 w-3.5 shrink-0 text-primary" />
+                  )}
+                </button>
+              ))
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              className="justify-start"
+              onClick={() => setSelectedId(null)}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              New brand kit
+            </Button>
+          </div>
+
+          {/* Editor */}
+          <div className="flex min-w-0 flex-1 flex-col gap-4 overflow-y-auto pr-1">
+            <div className="space-y-1.5">
+              <Label htmlFor="brand-kit-name">Name</Label>
+              <Input
+                id="brand-kit-name"
+                value={form.name}
+                onChange={(e) =>
+                  setForm((prev) => ({ ...prev, name: e.target.value }))
+                }
+              />
+            </div>
+
+            <div className="space-y-1.5">
+              <Label>Colours</Label>
+              <div className="grid grid-cols-5 gap-2">
+                {COLOR_FIELDS.map(({ key, label }) => (
+                  <label key={key} className="space-y-1 text-center">
+                    <input
+                      type="color"
+                      value={form.colors[key] ?? '#000000'}
+                      onChange={(e) => setColor(key, e.target.value)}
+                      className="h-9 w-full cursor-pointer rounded border bg-transparent"
+                    />
+                    <span className="block text-xs text-muted-foreground">
+                      {label}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-1.5">
+              <div className="flex items-center justify-between">
+                <Label>Fonts</Label>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 text-xs"
+                  disabled={isUploadingFont}
+                  onClick={() => fontInputRef.current?.click()}
+                >
+                  <Upload className="mr-1.5 h-3.5 w-3.5" />
+                  {isUploadingFont ? 'Uploading...' : 'Upload font'}
+                </Button>
+              </div>
+              {form.fonts.length > 0 && (
+                <div className="flex flex-wrap gap-1.5">
+                  {form.fonts.map((font) => (
+                    <span
+                      key={font.url}
+                      className="flex items-center gap-1 rounded-md border px-2 py-0.5 text-xs"
+                    >
+                      {font.family}
+                      <button
+                        className="text-muted-foreground hover:text-foreground"
+                        onClick={() => handleRemoveFont(font.url)}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-3">
+                <FontSelect
+                  label="Heading font"
+                  value={form.headingFont}
+                  fonts={form.fonts}
+                  onChange={(headingFont) =>
+                    setForm((prev) => ({ ...prev, headingFont }))
+                  }
+                />
+                <FontSelect
+                  label="Body font"
+                  value={form.bodyFont}
+                  fonts={form.fonts}
+                  onChange={(bodyFont) =>
+                    setForm((prev) => ({ ...prev, bodyFont }))
+                  }
+                />
+              </div>
+              <input
+                ref={fontInputRef}
+                type="file"
+                accept=".ttf,.otf,.woff2"
+                className="hidden"
+                onChange={handleUploadFont}
+              />
+            </div>
+
+            <div className="space-y-1.5">
+              <Label>Logo</Label>
+              {imageAssets.length === 0 ? (
+                <p className="text-xs text-muted-foreground">
+                  Add an image to the project to use it as the logo.
+                </p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {imageAssets.map((asset) => (
+                    <button
+                      key={asset.id}
+                      onClick={() =>
+                        setForm((prev) => ({
+                          ...prev,
+                          logoAssetId:
+                            prev.logoAssetId === asset.id ? null : asset.id,
+                        }))
+                      }
+                      className={cn(
+                        'h-14 w-14 overflow-hidden rounded-md border-2 bg-muted',
+                        form.logoAssetId === asset.id
+                          ? 'border-primary'
+                          : 'border-transparent',
+                      )}
+                    >
+                      <img
+                        src={asset.url}
+                        alt=""
+                        className="h-full w-full object-contain"
+                      />
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-1.5">
+              <Label>Watermark</Label>
+              <Select
+                value={form.watermarkPosition}
+                onValueChange={(value) =>
+                  setForm((prev) => ({
+                    ...prev,
+                    watermarkPosition:
+                      value as BrandKitForm['watermarkPosition'],
+                  }))
+                }
+              >
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WATERMARK_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="mt-auto flex items-center gap-2 pt-2">
+              <Button
+                onClick={handleSave}
+                disabled={isSaving || !form.name.trim()}
+              >
+                {isSaving
+                  ? 'Saving...'
+                  : selectedId
+                    ? 'Save changes'
+                    : 'Create brand kit'}
+              </Button>
+              {selectedKit &&
+                (selectedKit.id === brandKitId ? (
+                  <Button
+                    variant="secondary"
+                    onClick={() => handleUseForProject(null)}
+                  >
+                    Remove from project
+                  </Button>
+                ) : (
+                  <Button
+                    variant="secondary"
+                    onClick={() => handleUseForProject(selectedKit.id)}
+                  >
+                    Use for this project
+                  </Button>
+                ))}
+              {selectedKit && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="ml-auto text-destructive"
+                  onClick={handleDelete}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function toForm(
+  kit: BrandStyle & { name: string; logoAssetId: string | null },
+): BrandKitForm {
+  return {
+    name: kit.name,
+    colors: { ...NEW_KIT_FORM.colors, ...kit.colors },
+    fonts: kit.fonts,
+    headingFont: kit.headingFont ?? '',
+    bodyFont: kit.bodyFont ?? '',
+    logoAssetId: kit.logoAssetId,
+    watermarkPosition: kit.watermarkPosition ?? 'none',
+  }
+}
+
+interface FontSelectProps {
+  label: string
+  /** CSS font-family, empty for the component default */
+  value: string
+  fonts: Array<BrandFont>
+  onChange: (value: string) => void
+}
+
+function FontSelect({ label, value, fonts, onChange }: FontSelectProps) {
+  return (
+    <div className="space-y-1">
+      <span className="text-xs text-muted-foreground">{label}</span>
+      <Select
+        value={value || DEFAULT_FONT}
+        onValueChange={(v) => onChange(v === DEFAULT_FONT ? '' : v)}
+      >
+        <SelectTrigger className="w-full">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={DEFAULT_FONT}>Default</SelectItem>
+          {fonts.map((font) => (
+            <SelectItem key={font.url} value={toFontFamily(font)}>
+              {font.family}
+            </SelectItem>
+          ))}
+          {SYSTEM_FONTS.map((font) => (
+            <SelectItem key={font} value={font}>
+              {font.split(',')[0]}
+            </SelectItem>
+          ))}
+          {/* Keep a value that isn't in the lists selectable */}
+          {value &&
+            !SYSTEM_FONTS.includes(value) &&
+            !fonts.some((font) => toFontFamily(font) === value) && (
+              <SelectItem value={value}>{value}</SelectItem>
+            )}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
+
+function readAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    // Remove the data URL prefix (e.g., "data:font/ttf;base64,")
+    reader.onload = () => resolve((reader.result as string).split(',')[1])
+    reader.onerror = () => reject(new Error('Failed to read file'))
+    reader.readAsDataURL(file)
+  })
+}
@@ -0,0 +1,159 @@
+/**
+ * Captions Menu Component
+ *
+ * Caption tools for a project: auto-generate captions, pick the project's
+ * caption style preset, export captions as SRT/WebVTT and import an SRT.
+ */
+
+import { useRef } from 'react'
+import { Captions } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  CAPTION_STYLE_PRESETS,
+  DEFAULT_CAPTION_STYLE,
+  createOverlaysFromCues,
+  formatSrt,
+  formatVtt,
+  getCaptionCues,
+  parseSrt,
+} from '../../remotion/captions'
+import { Button } from '../ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '../ui/dropdown-menu'
+import type { CaptionStyle, ProjectManifest } from '../../remotion/types'
+
+interface CaptionsMenuProps {
+  projectName: string
+  manifest: ProjectManifest
+  fps: number
+  onManifestChange: (manifest: ProjectManifest) => void
+  onGenerateCaptions: () => void
+  isCaptioning: boolean
+  /** Icon-only trigger (mobile header) */
+  compact?: boolean
+}
+
+export function CaptionsMenu({
+  projectName,
+  manifest,
+  fps,
+  onManifestChange,
+  onGenerateCaptions,
+  isCaptioning,
+  compact = false,
+}: CaptionsMenuProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const currentStyle =
+    manifest.globalSettings.captionStyle ?? DEFAULT_CAPTION_STYLE
+
+  const handleStyleChange = (captionStyle: CaptionStyle) => {
+    onManifestChange({
+      ...manifest,
+      globalSettings: { ...manifest.globalSettings, captionStyle },
+    })
+  }
+
+  const handleExport = (format: 'srt' | 'vtt') => {
+    const cues = getCaptionCues(manifest, fps)
+    if (cues.length === 0) {
+      toast.error('This project has no captions to export')
+      return
+    }
+
+    const content = format === 'srt' ? formatSrt(cues) : formatVtt(cues)
+    const blob = new Blob([content], {
+      type: format === 'srt' ? 'application/x-subrip' : 'text/vtt',
+    })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `${projectName || 'captions'}.${format}`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    try {
+      const overlays = createOverlaysFromCues(parseSrt(await file.text()), fps)
+      onManifestChange({
+        ...manifest,
+        tracks: {
+          ...manifest.tracks,
+          components: [...manifest.tracks.components, ...overlays],
+        },
+      })
+      toast.success(`Imported ${overlays.length} captions`)
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to import captions',
+      )
+    }
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          {compact ? (
+            <Button variant="ghost" size="icon" className="h-8 w-8">
+              <Captions className="h-4 w-4" />
+            </Button>
+          ) : (
+            <button className="text-sm text-muted-foreground hover:text-foreground">
+              {isCaptioning ? 'Captioning...' : 'Captions'}
+            </button>
+          )}
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-52">
+          <DropdownMenuItem
+            disabled={isCaptioning}
+            onClick={onGenerateCaptions}
+          >
+            {isCaptioning ? 'Captioning...' : 'Auto-generate captions'}
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel>Style</DropdownMenuLabel>
+          {(Object.keys(CAPTION_STYLE_PRESETS) as Array<CaptionStyle>).map(
+            (style) => (
+              <DropdownMenuItem
+                key={style}
+                onClick={() => handleStyleChange(style)}
+                className={currentStyle === style ? 'bg-accent' : ''}
+              >
+                {CAPTION_STYLE_PRESETS[style].label}
+              </DropdownMenuItem>
+            ),
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => handleExport('srt')}>
+            Export SRT
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => handleExport('vtt')}>
+            Export WebVTT
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => fileInputRef.current?.click()}>
+            Import SRT...
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".srt,application/x-subrip"
+        className="hidden"
+        onChange={handleImport}
+      />
+    </>
+  )
+}
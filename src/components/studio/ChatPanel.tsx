@@ -2,22 +2,34 @@
  * Chat Panel Component
  *
  * AI Director chat interface for controlling video generation.
- * Connects to the /api/chat endpoint for streaming responses.
+ * Connects to the /api/chat endpoint for streaming responses: the reply
+ * is shown as it is typed, and tool calls appear as soon as the director
+ * starts writing them. With confirm-before-spend on, tool calls that spend
+ * credits wait under the message for the user to approve them.
  */
 
 import { useCallback, useEffect, useRef, useState } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
 import {
   Check,
   ChevronLeft,
   ChevronRight,
   Loader2,
   Send,
+  ShieldCheck,
+  ShieldOff,
   Sparkles,
   Trash2,
   Wrench,
   X,
 } from 'lucide-react'
 import { Button } from '../ui/button'
+import {
+  ToolApprovalCard,
+  formatToolName,
+  withEditedArguments,
+} from './ToolApprovalCard'
+import type { ToolApproval } from './ToolApprovalCard'
 import type { ProjectManifest } from '../../remotion/types'
 
 // =============================================================================
@@ -30,17 +42,29 @@ interface ChatMessage {
   content: string
   timestamp: Date
   toolCalls?: Array<ToolCallDisplay>
+  approval?: ToolApproval
 }
 
 interface ToolCallDisplay {
   id: string
   name: string
-  status: 'pending' | 'completed' | 'failed'
+  // preparing: the director is still writing the call's arguments
+  status: 'preparing' | 'pending' | 'completed' | 'failed'
+  // How a long-running call is getting on, e.g. "2 of 4 jobs finished"
+  progress?: string
   result?: unknown
 }
 
 interface AgentEvent {
-  type: 'text' | 'tool_call' | 'tool_result' | 'error' | 'done'
+  type:
+    | 'text'
+    | 'tool_call_delta'
+    | 'tool_call'
+    | 'tool_progress'
+    | 'tool_result'
+    | 'approval_required'
+    | 'error'
+    | 'done'
   data: unknown
 }
 
@@ -48,12 +72,31 @@ interface ChatPanelProps {
   projectId: string
   manifest: ProjectManifest
   onManifestChange: (manifest: ProjectManifest) => void
+  /** Called after the AI Director changed the timeline on the server */
+  onTimelineUpdated?: () => void
   collapsed: boolean
   onToggleCollapse: () => void
   /** Display mode: 'panel' for sidebar, 'fullscreen' for mobile */
   mode?: 'panel' | 'fullscreen'
 }
 
+// Tools that change the timeline on the server
+const TIMELINE_TOOLS = new Set([
+  'updateTimeline',
+  'trimClip',
+  'splitClip',
+  'setTransition',
+  'setEffects',
+  'setKeyframes',
+  'setVolume',
+  'updateOverlayProps',
+  'reorderClips',
+  'fillTemplateSlot',
+])
+
+// Tools that finish generation jobs, adding assets to the project
+const ASSET_TOOLS = new Set(['waitForJobs'])
+
 // =============================================================================
 // Component
 // =============================================================================
@@ -64,10 +107,12 @@ export function ChatPanel({
   manifest: _manifest,
 
   onManifestChange: _onManifestChange,
+  onTimelineUpdated,
   collapsed,
   onToggleCollapse,
   mode = 'panel',
 }: ChatPanelProps) {
+  const queryClient = useQueryClient()
   const [messages, setMessages] = useState<Array<ChatMessage>>([
     {
       id: 'welcome',
@@ -83,6 +128,7 @@ export function ChatPanel({
   const [currentToolCalls, setCurrentToolCalls] = useState<
     Array<ToolCallDisplay>
   >([])
+  const [confirmSpend, setConfirmSpend] = useState(false)
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const abortControllerRef = useRef<AbortController | null>(null)
 
@@ -102,6 +148,7 @@ export function ChatPanel({
       const response = await fetch(`/api/chat?projectId=${projectId}`)
       if (response.ok) {
         const data = await response.json()
+        setConfirmSpend(data.confirmAgentSpend === true)
         if (data.messages && data.messages.length > 0) {
           setMessages([
             messages[0], // Keep welcome message
@@ -110,12 +157,17 @@ export function ChatPanel({
                 id: string
                 role: string
                 content: string
+                approval?: Omit<ToolApproval, 'messageId'>
                 createdAt: string
               }) => ({
                 id: msg.id,
                 role: msg.role as 'user' | 'assistant',
                 content: msg.content,
                 timestamp: new Date(msg.createdAt),
+                approval: msg.approval && {
+                  ...msg.approval,
+                  messageId: msg.id,
+                },
               }),
             ),
           ])
@@ -135,20 +187,24 @@ export function ChatPanel({
     }
   }
 
-  const handleSubmit = useCallback(
-    async (e: React.FormEvent) => {
-      e.preventDefault()
-      if (!input.trim() || isLoading) return
-
-      const userMessage: ChatMessage = {
-        id: Date.now().toString(),
-        role: 'user',
-        content: input.trim(),
-        timestamp: new Date(),
-      }
+  const toggleConfirmSpend = async () => {
+    const next = !confirmSpend
+    setConfirmSpend(next)
+    try {
+      const { updateAgentPreferencesFn } =
+        await import('../../server/auth.server')
+      await updateAgentPreferencesFn({ data: { confirmAgentSpend: next } })
+    } catch (error) {
+      console.error('Failed to update approval setting:', error)
+      setConfirmSpend(!next)
+    }
+  }
 
-      setMessages((prev) => [...prev, userMessage])
-      setInput('')
+  /**
+   * Send a request to the agent and stream its reply into the chat
+   */
+  const streamReply = useCallback(
+    async (body: Record<string, unknown>) => {
       setIsLoading(true)
       setStreamingContent('')
       setCurrentToolCalls([])
@@ -160,10 +216,7 @@ export function ChatPanel({
         const response = await fetch('/api/chat', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            message: userMessage.content,
-            projectId,
-          }),
+          body: JSON.stringify({ ...body, projectId }),
           signal: abortControllerRef.current.signal,
         })
 
@@ -177,6 +230,20 @@ export function ChatPanel({
         const decoder = new TextDecoder()
         let buffer = ''
         let accumulatedContent = ''
+        // Kept locally as well as in state, for the final message
+        let toolCalls: Array<ToolCallDisplay> = []
+        let afterToolCall = false
+        let approval: ToolApproval | undefined
+
+        const upsertToolCall = (
+          id: string,
+          update: Omit<ToolCallDisplay, 'id'>,
+        ) => {
+          toolCalls = toolCalls.some((tc) => tc.id === id)
+            ? toolCalls.map((tc) => (tc.id === id ? { ...tc, ...update } : tc))
+            : [...toolCalls, { id, ...update }]
+          setCurrentToolCalls(toolCalls)
+        }
 
         while (true) {
           const { done, value } = await reader.read()
@@ -199,25 +266,54 @@ export function ChatPanel({
                 switch (event.type) {
                   case 'text': {
                     const textData = event.data as { content: string }
+                    // A new paragraph for text written after tool calls
+                    if (afterToolCall && accumulatedContent) {
+                      accumulatedContent += '\n\n'
+                    }
+                    afterToolCall = false
                     accumulatedContent += textData.content
                     setStreamingContent(accumulatedContent)
                     break
                   }
 
+                  case 'tool_call_delta': {
+                    const deltaData = event.data as {
+                      id: string
+                      name: string
+                    }
+                    afterToolCall = true
+                    upsertToolCall(deltaData.id, {
+                      name: deltaData.name,
+                      status: 'preparing',
+                    })
+                    break
+                  }
+
                   case 'tool_call': {
                     const toolData = event.data as {
                       id: string
                       name: string
                       arguments: unknown
                     }
-                    setCurrentToolCalls((prev) => [
-                      ...prev,
-                      {
-                        id: toolData.id,
-                        name: toolData.name,
-                        status: 'pending',
-                      },
-                    ])
+                    afterToolCall = true
+                    upsertToolCall(toolData.id, {
+                      name: toolData.name,
+                      status: 'pending',
+                    })
+                    break
+                  }
+
+                  case 'tool_progress': {
+                    const progressData = event.data as {
+                      id: string
+                      name: string
+                      message?: string
+                    }
+                    upsertToolCall(progressData.id, {
+                      name: progressData.name,
+                      status: 'pending',
+                      progress: progressData.message,
+                    })
                     break
                   }
 
@@ -231,31 +327,54 @@ export function ChatPanel({
                         error?: string
                       }
                     }
-                    setCurrentToolCalls((prev) =>
-                      prev.map((tc) =>
-                        tc.id === resultData.id
-                          ? {
-                              ...tc,
-                              status: resultData.result.success
-                                ? 'completed'
-                                : 'failed',
-                              result: resultData.result,
-                            }
-                          : tc,
-                      ),
-                    )
+                    upsertToolCall(resultData.id, {
+                      name: resultData.name,
+                      status: resultData.result.success
+                        ? 'completed'
+                        : 'failed',
+                      result: resultData.result,
+                    })
 
                     // If timeline was updated, trigger manifest refresh
                     if (
-                      resultData.name === 'updateTimeline' &&
+                      TIMELINE_TOOLS.has(resultData.name) &&
+                      resultData.result.success
+                    ) {
+                      onTimelineUpdated?.()
+                    }
+
+                    // If jobs finished, show their assets in the library
+                    if (
+                      ASSET_TOOLS.has(resultData.name) &&
                       resultData.result.success
                     ) {
-                      // The Workspace component will poll for manifest updates
-                      // but we can also trigger an immediate update here
+                      queryClient.invalidateQueries({
+                        queryKey: ['project', projectId],
+                      })
+                      queryClient.invalidateQueries({
+                        queryKey: ['jobs', projectId],
+                      })
                     }
                     break
                   }
 
+                  case 'approval_required': {
+                    const approvalData = event.data as {
+                      messageId: string
+                      approval: Omit<ToolApproval, 'messageId'>
+                    }
+                    approval = {
+                      ...approvalData.approval,
+                      messageId: approvalData.messageId,
+                    }
+                    // Shown in the approval card instead
+                    toolCalls = toolCalls.filter(
+                      (tc) => !approval?.calls.some((c) => c.id === tc.id),
+                    )
+                    setCurrentToolCalls(toolCalls)
+                    break
+                  }
+
                   case 'error': {
                     const errorData = event.data as { message: string }
                     accumulatedContent += `\n\n**Error:** ${errorData.message}`
@@ -275,14 +394,18 @@ export function ChatPanel({
         }
 
         // Add final assistant message
-        if (accumulatedContent || currentToolCalls.length > 0) {
+        if (accumulatedContent || toolCalls.length > 0 || approval) {
           const assistantMessage: ChatMessage = {
-            id: (Date.now() + 1).toString(),
+            id: approval?.messageId ?? (Date.now() + 1).toString(),
             role: 'assistant',
-            content: accumulatedContent || 'I completed the requested actions.',
+            content:
+              accumulatedContent ||
+              (approval
+                ? 'Here is what I would like to run:'
+                : 'I completed the requested actions.'),
             timestamp: new Date(),
-            toolCalls:
-              currentToolCalls.length > 0 ? [...currentToolCalls] : undefined,
+            toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+            approval,
           }
           setMessages((prev) => [...prev, assistantMessage])
         }
@@ -305,15 +428,60 @@ export function ChatPanel({
         abortControllerRef.current = null
       }
     },
-    [input, isLoading, projectId, currentToolCalls],
+    [projectId, onTimelineUpdated, queryClient],
   )
 
-  const formatToolName = (name: string): string => {
-    // Convert camelCase to Title Case with spaces
-    return name
-      .replace(/([A-Z])/g, ' $1')
-      .replace(/^./, (str) => str.toUpperCase())
-      .trim()
+  const handleSubmit = useCallback(
+    async (e: React.FormEvent) => {
+      e.preventDefault()
+      if (!input.trim() || isLoading) return
+
+      const userMessage: ChatMessage = {
+        id: Date.now().toString(),
+        role: 'user',
+        content: input.trim(),
+        timestamp: new Date(),
+      }
+
+      // Sending a message rejects tool calls still waiting for approval
+      setMessages((prev) => [
+        ...prev.map((msg) =>
+          msg.approval?.status === 'pending'
+            ? {
+                ...msg,
+                approval: { ...msg.approval, status: 'rejected' as const },
+              }
+            : msg,
+        ),
+        userMessage,
+      ])
+      setInput('')
+      await streamReply({ message: userMessage.content })
+    },
+    [input, isLoading, streamReply],
+  )
+
+  const handleApproval = async (
+    approval: ToolApproval,
+    decision: 'approve' | 'reject',
+    args?: Record<string, unknown>,
+  ) => {
+    setMessages((prev) =>
+      prev.map((msg) =>
+        msg.approval?.messageId === approval.messageId
+          ? {
+              ...msg,
+              approval: {
+                ...(args ? withEditedArguments(approval, args) : approval),
+                status: decision === 'approve' ? 'approved' : 'rejected',
+              },
+            }
+          : msg,
+      ),
+    )
+    await streamReply({
+      approval: { messageId: approval.messageId, decision, arguments: args },
+    })
   }
 
   // Collapsed state (only for panel mode)
@@ -343,6 +511,21 @@ export function ChatPanel({
           <span className="font-medium">AI Director</span>
         </div>
         <div className="flex items-center gap-1">
+          <button
+            onClick={toggleConfirmSpend}
+            className="rounded-full p-1 hover:bg-muted"
+            title={
+              confirmSpend
+                ? 'Asking before spending credits (click to turn off)'
+                : 'Ask before spending credits'
+            }
+          >
+            {confirmSpend ? (
+              <ShieldCheck className="h-4 w-4 text-primary" />
+            ) : (
+              <ShieldOff className="h-4 w-4 text-muted-foreground" />
+            )}
+          </button>
           <button
             onClick={clearHistory}
             className="rounded-full p-1 hover:bg-muted"
@@ -401,6 +584,16 @@ export function ChatPanel({
                     ))}
                   </div>
                 )}
+
+                {message.approval && (
+                  <ToolApprovalCard
+                    approval={message.approval}
+                    disabled={isLoading}
+                    onRespond={(decision, args) =>
+                      handleApproval(message.approval!, decision, args)
+                    }
+                  />
+                )}
               </div>
             </div>
           ))}
@@ -409,31 +602,51 @@ export function ChatPanel({
           {(isLoading || streamingContent) && (
             <div className="flex justify-start">
               <div className="max-w-[85%] rounded-lg bg-muted px-3 py-2">
-                {streamingContent ? (
-                  <p className="text-sm whitespace-pre-wrap">
-                    {streamingContent}
-                  </p>
-                ) : currentToolCalls.length > 0 ? (
-                  <div className="space-y-1">
-                    {currentToolCalls.map((tool) => (
+                {streamingContent || currentToolCalls.length > 0 ? (
+                  <>
+                    {streamingContent && (
+                      <p className="text-sm whitespace-pre-wrap">
+                        {streamingContent}
+                      </p>
+                    )}
+                    {currentToolCalls.length > 0 && (
                       <div
-                        key={tool.id}
-                        className="flex items-center gap-2 text-xs"
+                        className={`space-y-1 ${streamingContent ? 'mt-2 border-t border-border/50 pt-2' : ''}`}
                       >
-                        {tool.status === 'pending' && (
-                          <Loader2 className="h-3 w-3 animate-spin text-yellow-500" />
-                        )}
-                        {tool.status === 'completed' && (
-                          <Check className="h-3 w-3 text-green-500" />
-                        )}
-                        {tool.status === 'failed' && (
-                          <X className="h-3 w-3 text-red-500" />
-                        )}
-                        <Wrench className="h-3 w-3 text-muted-foreground" />
-                        <span>{formatToolName(tool.name)}</span>
+                        {currentToolCalls.map((tool) => (
+                          <div
+                            key={tool.id}
+                            className="flex items-center gap-2 text-xs"
+                          >
+                            {tool.status === 'preparing' && (
+                              <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />
+                            )}
+                            {tool.status === 'pending' && (
+                              <Loader2 className="h-3 w-3 animate-spin text-yellow-500" />
+                            )}
+                            {tool.status === 'completed' && (
+                              <Check className="h-3 w-3 text-green-500" />
+                            )}
+                            {tool.status === 'failed' && (
+                              <X className="h-3 w-3 text-red-500" />
+                            )}
+                            <Wrench className="h-3 w-3 text-muted-foreground" />
+                            <span>{formatToolName(tool.name)}</span>
+                            {tool.status === 'preparing' && (
+                              <span className="text-muted-foreground">
+                                preparing...
+                              </span>
+                            )}
+                            {tool.status === 'pending' && tool.progress && (
+                              <span className="text-muted-foreground">
+                                {tool.progress}
+                              </span>
+                            )}
+                          </div>
+                        ))}
                       </div>
-                    ))}
-                  </div>
+                    )}
+                  </>
                 ) : (
                   <div className="flex items-center gap-1">
                     <div
@@ -0,0 +1,962 @@
+/**
+ * Clip Inspector Component
+ *
+ * Form for the clip selected in the Timeline: timing, layer, audio
+ * settings, video fit/motion and effects, keyframes at the playhead, and
+ * a typed form for overlay props. Every change goes straight to the
+ * manifest, so the preview updates while editing.
+ */
+
+import { Diamond, ScanFace, X } from 'lucide-react'
+import { getAudioRole } from '../../remotion/audio-mix'
+import { SYSTEM_FONTS, toFontFamily } from '../../remotion/fonts'
+import {
+  getTransformValue,
+  interpolateKeyframes,
+} from '../../remotion/keyframes'
+import { isRequiredOverlayProp } from '../../remotion/overlays'
+import { DEFAULT_FOCUS_POINT } from '../../remotion/reframe'
+import {
+  EFFECT_RANGES,
+  MAX_CLIP_VOLUME,
+  TRANSFORM_RANGES,
+  findClip,
+  removeKeyframe,
+  setClipEffect,
+  setKeyframe,
+  updateClipSettings,
+  updateOverlayProps,
+} from '../../remotion/timeline-edits'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../ui/select'
+import { Slider } from '../ui/slider'
+import { Textarea } from '../ui/textarea'
+import type {
+  ClipSettings,
+  EffectType,
+  KeyframeProperty,
+  TransformProperty,
+} from '../../remotion/timeline-edits'
+import type {
+  AudioClipProps,
+  BrandFont,
+  ComponentOverlayProps,
+  ComponentType,
+  Keyframe,
+  KeyframeEasing,
+  OverlayPropsByComponent,
+  ProjectManifest,
+  TransformKeyframes,
+  VideoClipProps,
+} from '../../remotion/types'
+import { cn } from '@/lib/utils'
+
+interface ClipInspectorProps {
+  manifest: ProjectManifest
+  fps: number
+  clipId: string
+  /** Playhead position, where keyframes are added */
+  currentFrame: number
+  /** Uploaded fonts of the project's brand kit */
+  fonts?: Array<BrandFont>
+  onManifestChange: (manifest: ProjectManifest) => void
+  /** Track the subject of a video clip (smart crop) */
+  onDetectFocus?: (clipId: string) => void
+  isDetectingFocus?: boolean
+  onClose: () => void
+}
+
+// =============================================================================
+// Overlay Prop Fields
+// =============================================================================
+
+interface PropField<TProps> {
+  key: keyof TProps & string
+  label: string
+  kind: 'text' | 'textarea' | 'number' | 'color' | 'font' | 'select'
+  options?: ReadonlyArray<string>
+  min?: number
+  max?: number
+  step?: number
+}
+
+const POSITIONS = ['top', 'center', 'bottom'] as const
+
+// Editable props of each overlay component, in form order
+const PROP_FIELDS: {
+  [K in ComponentType]: Array<PropField<OverlayPropsByComponent[K]>>
+} = {
+  BigTitle: [
+    { key: 'text', label: 'Text', kind: 'textarea' },
+    { key: 'fontSize', label: 'Font size', kind: 'number', min: 8, max: 400 },
+    { key: 'fontFamily', label: 'Font', kind: 'font' },
+    { key: 'color', label: 'Colour', kind: 'color' },
+    {
+      key: 'animation',
+      label: 'Animation',
+      kind: 'select',
+      options: ['fade', 'slide-up', 'scale', 'typewriter'],
+    },
+    { key: 'position', label: 'Position', kind: 'select', options: POSITIONS },
+  ],
+  LowerThird: [
+    { key: 'title', label: 'Title', kind: 'text' },
+    { key: 'subtitle', label: 'Subtitle', kind: 'text' },
+    { key: 'backgroundColor', label: 'Background', kind: 'color' },
+    { key: 'textColor', label: 'Text colour', kind: 'color' },
+    { key: 'fontFamily', label: 'Font', kind: 'font' },
+    {
+      key: 'position',
+      label: 'Position',
+      kind: 'select',
+      options: ['left', 'center', 'right'],
+    },
+  ],
+  KaraokeText: [
+    { key: 'fontSize', label: 'Font size', kind: 'number', min: 8, max: 400 },
+    { key: 'fontFamily', label: 'Font', kind: 'font' },
+    { key: 'color', label: 'Colour', kind: 'color' },
+    { key: 'highlightColor', label: 'Highlight', kind: 'color' },
+    { key: 'backgroundColor', label: 'Background', kind: 'color' },
+    { key: 'position', label: 'Position', kind: 'select', options: POSITIONS },
+    {
+      key: 'variant',
+      label: 'Style',
+      kind: 'select',
+      options: ['highlight', 'pop', 'bounce', 'boxed'],
+    },
+  ],
+  ImageOverlay: [
+    { key: 'src', label: 'Image URL', kind: 'text' },
+    { key: 'width', label: 'Width (px)', kind: 'number', min: 1 },
+    { key: 'height', label: 'Height (px)', kind: 'number', min: 1 },
+    { key: 'x', label: 'X (%)', kind: 'number', min: 0, max: 100 },
+    { key: 'y', label: 'Y (%)', kind: 'number', min: 0, max: 100 },
+    { key: 'rotation', label: 'Rotation (°)', kind: 'number' },
+    {
+      key: 'opacity',
+      label: 'Opacity',
+      kind: 'number',
+      min: 0,
+      max: 1,
+      step: 0.05,
+    },
+  ],
+  ProgressBar: [
+    { key: 'color', label: 'Colour', kind: 'color' },
+    { key: 'trackColor', label: 'Track colour', kind: 'color' },
+    { key: 'height', label: 'Height (px)', kind: 'number', min: 1, max: 100 },
+    {
+      key: 'position',
+      label: 'Position',
+      kind: 'select',
+      options: ['top', 'bottom'],
+    },
+  ],
+  Countdown: [
+    { key: 'from', label: 'From (seconds)', kind: 'number', min: 0 },
+    { key: 'label', label: 'Label', kind: 'text' },
+    {
+      key: 'format',
+      label: 'Format',
+      kind: 'select',
+      options: ['seconds', 'mm:ss'],
+    },
+    { key: 'fontSize', label: 'Font size', kind: 'number', min: 8, max: 400 },
+    { key: 'fontFamily', label: 'Font', kind: 'font' },
+    { key: 'color', label: 'Colour', kind: 'color' },
+    { key: 'position', label: 'Position', kind: 'select', options: POSITIONS },
+  ],
+  CallToAction: [
+    { key: 'title', label: 'Title', kind: 'text' },
+    { key: 'subtitle', label: 'Subtitle', kind: 'text' },
+    { key: 'buttonText', label: 'Button text', kind: 'text' },
+    { key: 'backgroundColor', label: 'Background', kind: 'color' },
+    { key: 'textColor', label: 'Text colour', kind: 'color' },
+    { key: 'buttonColor', label: 'Button colour', kind: 'color' },
+    { key: 'fontFamily', label: 'Font', kind: 'font' },
+    {
+      key: 'animation',
+      label: 'Animation',
+      kind: 'select',
+      options: ['slide-up', 'pop', 'fade'],
+    },
+    {
+      key: 'position',
+      label: 'Position',
+      kind: 'select',
+      options: ['center', 'bottom'],
+    },
+  ],
+  Sticker: [
+    { key: 'emoji', label: 'Emoji', kind: 'text' },
+    { key: 'src', label: 'Image URL', kind: 'text' },
+    { key: 'size', label: 'Size (px)', kind: 'number', min: 8, max: 1000 },
+    { key: 'x', label: 'X (%)', kind: 'number', min: 0, max: 100 },
+    { key: 'y', label: 'Y (%)', kind: 'number', min: 0, max: 100 },
+    { key: 'rotation', label: 'Rotation (°)', kind: 'number' },
+    {
+      key: 'animation',
+      label: 'Animation',
+      kind: 'select',
+      options: ['pop', 'wiggle', 'float', 'none'],
+    },
+  ],
+  Shape: [
+    {
+      key: 'shape',
+      label: 'Shape',
+      kind: 'select',
+      options: ['rectangle', 'circle', 'arrow'],
+    },
+    { key: 'color', label: 'Fill', kind: 'color' },
+    { key: 'strokeColor', label: 'Stroke', kind: 'color' },
+    { key: 'strokeWidth', label: 'Stroke width', kind: 'number', min: 0 },
+    { key: 'width', label: 'Width (%)', kind: 'number', min: 1, max: 100 },
+    { key: 'height', label: 'Height (%)', kind: 'number', min: 1, max: 100 },
+    { key: 'x', label: 'X (%)', kind: 'number', min: 0, max: 100 },
+    { key: 'y', label: 'Y (%)', kind: 'number', min: 0, max: 100 },
+    { key: 'rotation', label: 'Rotation (°)', kind: 'number' },
+    {
+      key: 'opacity',
+      label: 'Opacity',
+      kind: 'number',
+      min: 0,
+      max: 1,
+      step: 0.05,
+    },
+    { key: 'cornerRadius', label: 'Corner radius', kind: 'number', min: 0 },
+  ],
+}
+
+const EFFECT_LABELS: Record<EffectType, string> = {
+  brightness: 'Brightness',
+  contrast: 'Contrast',
+  saturation: 'Saturation',
+  blur: 'Blur',
+  grayscale: 'Grayscale',
+}
+
+const TRANSFORM_LABELS: Record<TransformProperty, string> = {
+  x: 'X offset (%)',
+  y: 'Y offset (%)',
+  scale: 'Scale',
+  rotation: 'Rotation (°)',
+  opacity: 'Opacity',
+}
+
+const EASINGS: ReadonlyArray<KeyframeEasing> = [
+  'linear',
+  'ease-in',
+  'ease-out',
+  'ease-in-out',
+]
+
+/**
+ * Keyframe editing at the playhead, passed to sections with keyframable
+ * properties
+ */
+interface KeyframeControls {
+  /** Playhead frame relative to the clip start, or null outside the clip */
+  frame: number | null
+  onSet: (property: KeyframeProperty, keyframe: Keyframe) => void
+  onRemove: (property: KeyframeProperty, frame: number) => void
+}
+
+// Select value for "no value set" (Radix Select can't use an empty string)
+const DEFAULT_OPTION = 'default'
+
+// =============================================================================
+// Inspector
+// =============================================================================
+
+export function ClipInspector({
+  manifest,
+  fps,
+  clipId,
+  currentFrame,
+  fonts = [],
+  onManifestChange,
+  onDetectFocus,
+  isDetectingFocus = false,
+  onClose,
+}: ClipInspectorProps) {
+  const found = findClip(manifest, clipId)
+  if (!found) return null
+
+  const { track, clip } = found
+
+  const updateSettings = (settings: ClipSettings) => {
+    onManifestChange(updateClipSettings(manifest, clipId, settings))
+  }
+
+  const clipFrame = currentFrame - clip.startFrame
+  const keyframeControls: KeyframeControls = {
+    frame:
+      clipFrame >= 0 && clipFrame <= clip.durationFrames ? clipFrame : null,
+    onSet: (property, keyframe) =>
+      onManifestChange(setKeyframe(manifest, clipId, property, keyframe)),
+    onRemove: (property, frame) =>
+      onManifestChange(removeKeyframe(manifest, clipId, property, frame)),
+  }
+
+  const title =
+    track === 'components'
+      ? (clip as ComponentOverlayProps).component
+      : track === 'audio'
+        ? 'Audio clip'
+        : (clip as VideoClipProps).mediaType === 'image'
+          ? 'Image clip'
+          : 'Video clip'
+
+  return (
+    <div className="flex h-full flex-col">
+      {/* Header */}
+      <div className="flex items-center justify-between border-b px-4 py-3">
+        <span className="truncate font-medium">{title}</span>
+        <button
+          onClick={onClose}
+          className="rounded-full p-1 hover:bg-muted"
+          title="Close inspector"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      <div className="flex-1 space-y-5 overflow-y-auto p-4">
+        <Section title="Timing">
+          <div className="grid grid-cols-2 gap-2">
+            <NumberField
+              label="Start (s)"
+              value={toSeconds(clip.startFrame, fps)}
+              min={0}
+              step={0.1}
+              onChange={(seconds) =>
+                seconds !== undefined &&
+                updateSettings({ startFrame: seconds * fps })
+              }
+            />
+            <NumberField
+              label="Duration (s)"
+              value={toSeconds(clip.durationFrames, fps)}
+              min={1 / fps}
+              step={0.1}
+              onChange={(seconds) =>
+                seconds !== undefined &&
+                updateSettings({ durationFrames: seconds * fps })
+              }
+            />
+          </div>
+          {track !== 'audio' && (
+            <NumberField
+              label="Layer"
+              value={(clip as VideoClipProps | ComponentOverlayProps).layer}
+              step={1}
+              onChange={(layer) =>
+                layer !== undefined && updateSettings({ layer })
+              }
+            />
+          )}
+        </Section>
+
+        {track === 'audio' && (
+          <AudioSection
+            clip={clip as AudioClipProps}
+            fps={fps}
+            onChange={updateSettings}
+          />
+        )}
+
+        {track === 'video' && (
+          <VideoSection
+            clip={clip as VideoClipProps}
+            onChange={updateSettings}
+            onEffectChange={(type, value) =>
+              onManifestChange(setClipEffect(manifest, clipId, type, value))
+            }
+            onDetectFocus={onDetectFocus && (() => onDetectFocus(clipId))}
+            isDetectingFocus={isDetectingFocus}
+            keyframeControls={keyframeControls}
+          />
+        )}
+
+        {track !== 'audio' && (
+          <AnimationSection
+            keyframes={
+              (clip as VideoClipProps | ComponentOverlayProps).keyframes
+            }
+            controls={keyframeControls}
+          />
+        )}
+
+        {track === 'components' && (
+          <OverlaySection
+            overlay={clip as ComponentOverlayProps}
+            fonts={fonts}
+            onChange={(props) =>
+              onManifestChange(updateOverlayProps(manifest, clipId, props))
+            }
+          />
+        )}
+      </div>
+    </div>
+  )
+}
+
+// =============================================================================
+// Sections
+// =============================================================================
+
+function AudioSection({
+  clip,
+  fps,
+  onChange,
+}: {
+  clip: AudioClipProps
+  fps: number
+  onChange: (settings: ClipSettings) => void
+}) {
+  return (
+    <Section title="Audio">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label className="text-xs">Volume</Label>
+          <span className="text-xs text-muted-foreground">
+            {Math.round(clip.volume * 100)}%
+          </span>
+        </div>
+        <Slider
+          value={[clip.volume]}
+          min={0}
+          max={MAX_CLIP_VOLUME}
+          step={0.05}
+          onValueChange={([volume]) => onChange({ volume })}
+        />
+      </div>
+      <SelectField
+        label="Role"
+        value={getAudioRole(clip)}
+        options={['voiceover', 'music', 'sfx']}
+        required
+        onChange={(role) => onChange({ role: role as AudioClipProps['role'] })}
+      />
+      <div className="grid grid-cols-2 gap-2">
+        <NumberField
+          label="Fade in (s)"
+          value={toSeconds(clip.fadeInFrames ?? 0, fps)}
+          min={0}
+          step={0.1}
+          onChange={(seconds) =>
+            onChange({ fadeInFrames: (seconds ?? 0) * fps })
+          }
+        />
+        <NumberField
+          label="Fade out (s)"
+          value={toSeconds(clip.fadeOutFrames ?? 0, fps)}
+          min={0}
+          step={0.1}
+          onChange={(seconds) =>
+            onChange({ fadeOutFrames: (seconds ?? 0) * fps })
+          }
+        />
+      </div>
+    </Section>
+  )
+}
+
+function VideoSection({
+  clip,
+  onChange,
+  onEffectChange,
+  onDetectFocus,
+  isDetectingFocus,
+  keyframeControls,
+}: {
+  clip: VideoClipProps
+  onChange: (settings: ClipSettings) => void
+  onEffectChange: (type: EffectType, value: number) => void
+  onDetectFocus?: () => void
+  isDetectingFocus: boolean
+  keyframeControls: KeyframeControls
+}) {
+  const { frame } = keyframeControls
+
+  const effectTypes = Object.keys(EFFECT_RANGES) as Array<EffectType>
+  const focus = clip.focus ?? DEFAULT_FOCUS_POINT
+
+  return (
+    <>
+      <Section title="Framing">
+        <SelectField
+          label="Fit"
+          value={clip.fit ?? 'cover'}
+          options={['cover', 'contain', 'blur-fill']}
+          required
+          onChange={(fit) => onChange({ fit: fit as VideoClipProps['fit'] })}
+        />
+        {(clip.fit ?? 'cover') === 'cover' && (
+          <div className="grid grid-cols-2 gap-2">
+            <NumberField
+              label="Focus X (%)"
+              value={Math.round(focus.x * 100)}
+              min={0}
+              max={100}
+              onChange={(x) =>
+                x !== undefined && onChange({ focus: { ...focus, x: x / 100 } })
+              }
+            />
+            <NumberField
+              label="Focus Y (%)"
+              value={Math.round(focus.y * 100)}
+              min={0}
+              max={100}
+              onChange={(y) =>
+                y !== undefined && onChange({ focus: { ...focus, y: y / 100 } })
+              }
+            />
+          </div>
+        )}
+        {(clip.fit ?? 'cover') === 'cover' && onDetectFocus && (
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-xs text-muted-foreground">
+              {clip.focusTrack ? 'Following subject' : 'Fixed focus'}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={isDetectingFocus}
+              onClick={onDetectFocus}
+            >
+              <ScanFace className="mr-1 h-3.5 w-3.5" />
+              {isDetectingFocus ? 'Detecting...' : 'Smart crop'}
+            </Button>
+          </div>
+        )}
+        {clip.mediaType === 'image' && (
+          <SelectField
+            label="Motion"
+            value={clip.motion ?? 'none'}
+            options={[
+              'none',
+              'zoom-in',
+              'zoom-out',
+              'pan-left',
+              'pan-right',
+              'pan-up',
+              'pan-down',
+            ]}
+            required
+            onChange={(motion) =>
+              onChange({ motion: motion as VideoClipProps['motion'] })
+            }
+          />
+        )}
+      </Section>
+
+      <Section title="Effects">
+        {effectTypes.map((type) => {
+          const { min, max, step, neutral } = EFFECT_RANGES[type]
+          const effect = clip.effects?.find((e) => e.type === type)
+          const keyframes = effect?.keyframes ?? []
+          // An animated effect is edited by keying its value at the playhead
+          const isAnimated = keyframes.length > 0
+          const value =
+            isAnimated && frame !== null
+              ? interpolateKeyframes(keyframes, frame, neutral)
+              : (effect?.value ?? neutral)
+          const setValue = (v: number) =>
+            isAnimated
+              ? frame !== null &&
+                keyframeControls.onSet(type, { frame, value: v })
+              : onEffectChange(type, v)
+
+          return (
+            <div key={type} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-1">
+                  <Label className="text-xs">{EFFECT_LABELS[type]}</Label>
+                  <KeyframeButton
+                    property={type}
+                    keyframes={keyframes}
+                    value={value}
+                    controls={keyframeControls}
+                  />
+                </div>
+                <button
+                  className="text-xs text-muted-foreground hover:text-foreground disabled:opacity-50"
+                  disabled={isAnimated || value === neutral}
+                  onClick={() => onEffectChange(type, neutral)}
+                  title="Reset"
+                >
+                  {value.toFixed(2)}
+                </button>
+              </div>
+              <Slider
+                value={[value]}
+                min={min}
+                max={max}
+                step={step}
+                disabled={isAnimated && frame === null}
+                onValueChange={([v]) => setValue(v)}
+              />
+            </div>
+          )
+        })}
+      </Section>
+    </>
+  )
+}
+
+function AnimationSection({
+  keyframes,
+  controls,
+}: {
+  keyframes: TransformKeyframes | undefined
+  controls: KeyframeControls
+}) {
+  const { frame } = controls
+  const properties = Object.keys(TRANSFORM_RANGES) as Array<TransformProperty>
+
+  return (
+    <Section title="Animation">
+      {frame === null && (
+        <p className="text-xs text-muted-foreground">
+          Move the playhead over the clip to add keyframes.
+        </p>
+      )}
+      {properties.map((property) => {
+        const { min, max, step } = TRANSFORM_RANGES[property]
+        const track = keyframes?.[property] ?? []
+        const value = getTransformValue(keyframes, property, frame ?? 0)
+        const current =
+          frame !== null ? track.find((k) => k.frame === frame) : undefined
+
+        return (
+          <div key={property} className="space-y-1">
+            <div className="flex items-center gap-1">
+              <Label className="text-xs">{TRANSFORM_LABELS[property]}</Label>
+              <KeyframeButton
+                property={property}
+                keyframes={track}
+                value={value}
+                controls={controls}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <Input
+                type="number"
+                value={Math.round(value * 100) / 100}
+                min={min}
+                max={max}
+                step={step}
+                disabled={frame === null}
+                onChange={(e) => {
+                  const next = e.target.valueAsNumber
+                  if (frame !== null && !Number.isNaN(next)) {
+                    controls.onSet(property, { frame, value: next })
+                  }
+                }}
+              />
+              {current && (
+                <Select
+                  value={current.easing ?? 'linear'}
+                  onValueChange={(easing) =>
+                    controls.onSet(property, {
+                      ...current,
+                      easing: easing as KeyframeEasing,
+                    })
+                  }
+                >
+                  <SelectTrigger
+                    className="w-full"
+                    title="Easing to the next keyframe"
+                  >
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EASINGS.map((easing) => (
+                      <SelectItem key={easing} value={easing}>
+                        {easing}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          </div>
+        )
+      })}
+    </Section>
+  )
+}
+
+function OverlaySection({
+  overlay,
+  fonts,
+  onChange,
+}: {
+  overlay: ComponentOverlayProps
+  fonts: Array<BrandFont>
+  onChange: (props: ComponentOverlayProps['props']) => void
+}) {
+  const fields = PROP_FIELDS[overlay.component] as Array<
+    PropField<Record<string, unknown>>
+  >
+
+  return (
+    <Section title="Properties">
+      {fields.map((field) => {
+        const value = overlay.props[field.key] as unknown
+        const required = isRequiredOverlayProp(overlay.component, field.key)
+        // Empty values unset the prop so the component/brand default
+        // applies, except for props the component needs
+        const setValue = (next: unknown) =>
+          onChange({
+            [field.key]: next === '' && !required ? undefined : next,
+          })
+
+        switch (field.kind) {
+          case 'textarea':
+            return (
+              <div key={field.key} className="space-y-1">
+                <Label className="text-xs">{field.label}</Label>
+                <Textarea
+                  value={typeof value === 'string' ? value : ''}
+                  onChange={(e) => setValue(e.target.value)}
+                  rows={2}
+                />
+              </div>
+            )
+          case 'number':
+            return (
+              <NumberField
+                key={field.key}
+                label={field.label}
+                value={typeof value === 'number' ? value : undefined}
+                min={field.min}
+                max={field.max}
+                step={field.step}
+                onChange={setValue}
+              />
+            )
+          case 'color':
+            return (
+              <ColorField
+                key={field.key}
+                label={field.label}
+                value={typeof value === 'string' ? value : undefined}
+                onChange={setValue}
+              />
+            )
+          case 'font':
+            return (
+              <SelectField
+                key={field.key}
+                label={field.label}
+                value={typeof value === 'string' ? value : undefined}
+                options={[...fonts.map(toFontFamily), ...SYSTEM_FONTS]}
+                formatOption={(font) => font.split(',')[0].replace(/"/g, '')}
+                onChange={setValue}
+              />
+            )
+          case 'select':
+            return (
+              <SelectField
+                key={field.key}
+                label={field.label}
+                value={typeof value === 'string' ? value : undefined}
+                options={field.options ?? []}
+                required={required}
+                onChange={setValue}
+              />
+            )
+          default:
+            return (
+              <div key={field.key} className="space-y-1">
+                <Label className="text-xs">{field.label}</Label>
+                <Input
+                  value={typeof value === 'string' ? value : ''}
+                  onChange={(e) => setValue(e.target.value)}
+                />
+              </div>
+            )
+        }
+      })}
+    </Section>
+  )
+}
+
+// =============================================================================
+// Fields
+// =============================================================================
+
+function Section({
+  title,
+  children,
+}: {
+  title: string
+  children: React.ReactNode
+}) {
+  return (
+    <div className="space-y-3">
+      <h4 className="text-xs font-medium uppercase text-muted-foreground">
+        {title}
+      </h4>
+      {children}
+    </div>
+  )
+}
+
+function NumberField({
+  label,
+  value,
+  min,
+  max,
+  step,
+  onChange,
+}: {
+  label: string
+  value: number | undefined
+  min?: number
+  max?: number
+  step?: number
+  onChange: (value: number | undefined) => void
+}) {
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs">{label}</Label>
+      <Input
+        type="number"
+        value={value ?? ''}
+        min={min}
+        max={max}
+        step={step}
+        placeholder="Default"
+        onChange={(e) => {
+          const next = e.target.valueAsNumber
+          onChange(Number.isNaN(next) ? undefined : next)
+        }}
+      />
+    </div>
+  )
+}
+
+/**
+ * Toggles a keyframe at the playhead, holding the property's current value
+ */
+function KeyframeButton({
+  property,
+  keyframes,
+  value,
+  controls,
+}: {
+  property: KeyframeProperty
+  keyframes: Array<Keyframe>
+  value: number
+  controls: KeyframeControls
+}) {
+  const { frame } = controls
+  const isKeyed = frame !== null && keyframes.some((k) => k.frame === frame)
+
+  return (
+    <button
+      className="rounded p-0.5 text-muted-foreground hover:text-foreground disabled:opacity-50"
+      disabled={frame === null}
+      onClick={() =>
+        frame !== null &&
+        (isKeyed
+          ? controls.onRemove(property, frame)
+          : controls.onSet(property, { frame, value }))
+      }
+      title={isKeyed ? 'Remove keyframe' : 'Add keyframe at playhead'}
+    >
+      <Diamond
+        className={cn('h-3 w-3', isKeyed && 'fill-current text-primary')}
+      />
+    </button>
+  )
+}
+
+function ColorField({
+  label,
+  value,
+  onChange,
+}: {
+  label: string
+  value: string | undefined
+  onChange: (value: string) => void
+}) {
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs">{label}</Label>
+      <div className="flex items-center gap-2">
+        <input
+          type="color"
+          value={/^#[0-9a-f]{6}$/i.test(value ?? '') ? value : '#000000'}
+          onChange={(e) => onChange(e.target.value)}
+          className="h-9 w-10 shrink-0 cursor-pointer rounded border bg-transparent"
+        />
+        <Input
+          value={value ?? ''}
+          placeholder="Default"
+          onChange={(e) => onChange(e.target.value)}
+        />
+      </div>
+    </div>
+  )
+}
+
+function SelectField({
+  label,
+  value,
+  options,
+  formatOption = (option) => option,
+  required = false,
+  onChange,
+}: {
+  label: string
+  value: string | undefined
+  options: ReadonlyArray<string>
+  formatOption?: (option: string) => string
+  /** Hide the "Default" option for settings that always have a value */
+  required?: boolean
+  onChange: (value: string) => void
+}) {
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs">{label}</Label>
+      <Select
+        value={value || DEFAULT_OPTION}
+        onValueChange={(v) => onChange(v === DEFAULT_OPTION ? '' : v)}
+      >
+        <SelectTrigger className="w-full">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {!required && <SelectItem value={DEFAULT_OPTION}>Default</SelectItem>}
+          {options.map((option) => (
+            <SelectItem key={option} value={option}>
+              {formatOption(option)}
+            </SelectItem>
+          ))}
+          {/* Keep a value that isn't in the list selectable */}
+          {value && !options.includes(value) && (
+            <SelectItem value={value}>{formatOption(value)}</SelectItem>
+          )}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
+
+function toSeconds(frames: number, fps: number): number {
+  return Math.round((frames / fps) * 100) / 100
+}
@@ -0,0 +1,378 @@
+/**
+ * Overlay Handles Component
+ *
+ * Drawn over the Remotion player in VideoPreview. Positioned overlays
+ * (images, stickers, shapes) visible at the current frame can be clicked
+ * to select them, then dragged, resized from the corners and rotated.
+ * Moves snap to the frame centre and, on 9:16 formats, the safe-area
+ * edges. Changes are written to the overlay's props in the manifest.
+ */
+
+import { useEffect, useRef, useState } from 'react'
+import {
+  MIN_OVERLAY_SIZE,
+  getOverlayBox,
+  getOverlayBoxProps,
+  getSafeArea,
+  getSnapGuides,
+  isAspectLocked,
+  isTransformableOverlay,
+  snapBox,
+} from '../../remotion/overlay-geometry'
+import { updateOverlayProps } from '../../remotion/timeline-edits'
+import type { FrameSize, OverlayBox } from '../../remotion/overlay-geometry'
+import type {
+  ComponentOverlayProps,
+  ProjectManifest,
+} from '../../remotion/types'
+
+interface OverlayHandlesProps {
+  manifest: ProjectManifest
+  width: number
+  height: number
+  currentFrame: number
+  selectedClipId: string | null
+  onSelectClip: (clipId: string | null) => void
+  onManifestChange: (manifest: ProjectManifest) => void
+}
+
+type DragMode =
+  | { kind: 'move' }
+  | { kind: 'resize'; corner: [number, number] }
+  | { kind: 'rotate' }
+
+interface DragState {
+  mode: DragMode
+  overlayId: string
+  startBox: OverlayBox
+  startPointer: { x: number; y: number }
+}
+
+// Snap distance in screen pixels
+const SNAP_THRESHOLD = 8
+// Rotation snaps to multiples of this many degrees
+const ROTATION_SNAP = 15
+const ROTATION_SNAP_THRESHOLD = 4
+
+const CORNERS: Array<[number, number]> = [
+  [-1, -1],
+  [1, -1],
+  [1, 1],
+  [-1, 1],
+]
+
+export function OverlayHandles({
+  manifest,
+  width,
+  height,
+  currentFrame,
+  selectedClipId,
+  onSelectClip,
+  onManifestChange,
+}: OverlayHandlesProps) {
+  const rootRef = useRef<HTMLDivElement>(null)
+  const dragRef = useRef<DragState | null>(null)
+  const [guides, setGuides] = useState<{
+    vertical: number | null
+    horizontal: number | null
+  } | null>(null)
+  const imageAspects = useImageAspects(manifest, currentFrame)
+
+  const frame: FrameSize = { width, height }
+  const safeArea = getSafeArea(frame)
+
+  // Later overlays in the list draw on top within a layer
+  const overlays = manifest.tracks.components
+    .map((overlay, index) => ({ overlay, index }))
+    .filter(
+      ({ overlay }) =>
+        isTransformableOverlay(overlay) &&
+        currentFrame >= overlay.startFrame &&
+        currentFrame < overlay.startFrame + overlay.durationFrames,
+    )
+    .sort((a, b) => a.overlay.layer - b.overlay.layer || a.index - b.index)
+    .map(({ overlay }) => ({
+      overlay,
+      box: getOverlayBox(overlay, frame, imageAspects[overlay.props.src]),
+    }))
+
+  const selected = overlays.find(({ overlay }) => overlay.id === selectedClipId)
+
+  // Pointer position in composition pixels
+  const toFramePoint = (event: React.PointerEvent) => {
+    const rect = rootRef.current!.getBoundingClientRect()
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * width,
+      y: ((event.clientY - rect.top) / rect.height) * height,
+      scale: width / rect.width,
+    }
+  }
+
+  const startDrag = (
+    event: React.PointerEvent,
+    overlay: ComponentOverlayProps,
+    box: OverlayBox,
+    mode: DragMode,
+  ) => {
+    event.stopPropagation()
+    event.currentTarget.setPointerCapture(event.pointerId)
+    if (overlay.id !== selectedClipId) onSelectClip(overlay.id)
+
+    const point = toFramePoint(event)
+    dragRef.current = {
+      mode,
+      overlayId: overlay.id,
+      startBox: box,
+      startPointer: { x: point.x, y: point.y },
+    }
+  }
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const drag = dragRef.current
+    if (!drag) return
+
+    const overlay = manifest.tracks.components.find(
+      (o) => o.id === drag.overlayId,
+    )
+    if (!overlay) return
+
+    const point = toFramePoint(event)
+    const dx = point.x - drag.startPointer.x
+    const dy = point.y - drag.startPointer.y
+    const start = drag.startBox
+    let box: OverlayBox
+
+    switch (drag.mode.kind) {
+      case 'move': {
+        const snapped = snapBox(
+          { ...start, x: start.x + dx, y: start.y + dy },
+          getSnapGuides(frame),
+          SNAP_THRESHOLD * point.scale,
+        )
+        box = snapped.box
+        setGuides({
+          vertical: snapped.vertical,
+          horizontal: snapped.horizontal,
+        })
+        break
+      }
+      case 'resize':
+        box = resizeBox(
+          start,
+          dx,
+          dy,
+          drag.mode.corner,
+          isAspectLocked(overlay),
+        )
+        break
+      case 'rotate':
+        box = {
+          ...start,
+          rotation: snapRotation(
+            (Math.atan2(point.y - start.y, point.x - start.x) * 180) / Math.PI +
+              90,
+          ),
+        }
+        break
+    }
+
+    onManifestChange(
+      updateOverlayProps(
+        manifest,
+        overlay.id,
+        getOverlayBoxProps(overlay, box, frame),
+      ),
+    )
+  }
+
+  const handlePointerUp = () => {
+    dragRef.current = null
+    setGuides(null)
+  }
+
+  const pointerHandlers = {
+    onPointerMove: handlePointerMove,
+    onPointerUp: handlePointerUp,
+    onPointerCancel: handlePointerUp,
+  }
+
+  return (
+    <div ref={rootRef} className="pointer-events-none absolute inset-0">
+      {/* Safe area of 9:16 formats while an overlay is selected */}
+      {safeArea && selected && (
+        <div
+          className="absolute border border-dashed border-sky-400/60"
+          style={{
+            left: `${(safeArea.left / width) * 100}%`,
+            top: `${(safeArea.top / height) * 100}%`,
+            width: `${((safeArea.right - safeArea.left) / width) * 100}%`,
+            height: `${((safeArea.bottom - safeArea.top) / height) * 100}%`,
+          }}
+        />
+      )}
+
+      {/* Guides the dragged overlay snapped to */}
+      {guides?.vertical != null && (
+        <div
+          className="absolute inset-y-0 w-px bg-pink-500"
+          style={{ left: `${(guides.vertical / width) * 100}%` }}
+        />
+      )}
+      {guides?.horizontal != null && (
+        <div
+          className="absolute inset-x-0 h-px bg-pink-500"
+          style={{ top: `${(guides.horizontal / height) * 100}%` }}
+        />
+      )}
+
+      {overlays.map(({ overlay, box }) => {
+        if (!box) return null
+        const isSelected = overlay.id === selectedClipId
+
+        return (
+          <div
+            key={overlay.id}
+            className={`pointer-events-auto absolute cursor-move ${
+              isSelected
+                ? 'outline outline-2 outline-primary'
+                : 'hover:outline hover:outline-1 hover:outline-primary/60'
+            }`}
+            style={{
+              left: `${((box.x - box.width / 2) / width) * 100}%`,
+              top: `${((box.y - box.height / 2) / height) * 100}%`,
+              width: `${(box.width / width) * 100}%`,
+              height: `${(box.height / height) * 100}%`,
+              transform: `rotate(${box.rotation}deg)`,
+              touchAction: 'none',
+            }}
+            onPointerDown={(e) => startDrag(e, overlay, box, { kind: 'move' })}
+            {...pointerHandlers}
+          >
+            {isSelected && (
+              <>
+                {CORNERS.map((corner) => (
+                  <div
+                    key={corner.join()}
+                    className="absolute h-2.5 w-2.5 -translate-x-1/2 -translate-y-1/2 rounded-sm border border-primary bg-background"
+                    style={{
+                      left: corner[0] < 0 ? 0 : '100%',
+                      top: corner[1] < 0 ? 0 : '100%',
+                      cursor:
+                        corner[0] === corner[1] ? 'nwse-resize' : 'nesw-resize',
+                    }}
+                    onPointerDown={(e) =>
+                      startDrag(e, overlay, box, { kind: 'resize', corner })
+                    }
+                    {...pointerHandlers}
+                  />
+                ))}
+                {/* Rotation handle */}
+                <div
+                  className="absolute left-1/2 -top-6 h-3 w-3 -translate-x-1/2 cursor-grab rounded-full border border-primary bg-background"
+                  onPointerDown={(e) =>
+                    startDrag(e, overlay, box, { kind: 'rotate' })
+                  }
+                  {...pointerHandlers}
+                />
+              </>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Resize a box by dragging one corner, keeping the opposite corner in
+ * place. dx/dy are in frame pixels and rotated into the box's axes.
+ */
+function resizeBox(
+  box: OverlayBox,
+  dx: number,
+  dy: number,
+  [sx, sy]: [number, number],
+  lockAspect: boolean,
+): OverlayBox {
+  const angle = (box.rotation * Math.PI) / 180
+  const cos = Math.cos(angle)
+  const sin = Math.sin(angle)
+  const localX = dx * cos + dy * sin
+  const localY = -dx * sin + dy * cos
+
+  let width = Math.max(MIN_OVERLAY_SIZE, box.width + sx * localX)
+  let height = Math.max(MIN_OVERLAY_SIZE, box.height + sy * localY)
+
+  if (lockAspect) {
+    const factor = Math.max(width / box.width, height / box.height)
+    width = Math.max(MIN_OVERLAY_SIZE, box.width * factor)
+    height = Math.max(MIN_OVERLAY_SIZE, box.height * factor)
+  }
+
+  // Shift the centre by half the growth, back in frame axes
+  const shiftX = ((width - box.width) / 2) * sx
+  const shiftY = ((height - box.height) / 2) * sy
+
+  return {
+    ...box,
+    x: box.x + shiftX * cos - shiftY * sin,
+    y: box.y + shiftX * sin + shiftY * cos,
+    width,
+    height,
+  }
+}
+
+// Angle in -180..180, snapped to the nearest ROTATION_SNAP when close
+function snapRotation(degrees: number): number {
+  const normalized = ((((degrees + 180) % 360) + 360) % 360) - 180
+  const nearest = Math.round(normalized / ROTATION_SNAP) * ROTATION_SNAP
+  return Math.abs(nearest - normalized) <= ROTATION_SNAP_THRESHOLD
+    ? nearest
+    : normalized
+}
+
+/**
+ * Aspect ratio of image overlays without a height, which the component
+ * sizes from the image itself
+ */
+function useImageAspects(
+  manifest: ProjectManifest,
+  currentFrame: number,
+): Record<string, number> {
+  const [aspects, setAspects] = useState<Record<string, number>>({})
+
+  const sources = manifest.tracks.components
+    .filter(
+      (overlay) =>
+        overlay.component === 'ImageOverlay' &&
+        !overlay.props.height &&
+        typeof overlay.props.src === 'string' &&
+        currentFrame >= overlay.startFrame &&
+        currentFrame < overlay.startFrame + overlay.durationFrames,
+    )
+    .map((overlay) => overlay.props.src as string)
+  const missing = sources.filter((src) => !(src in aspects)).join('\n')
+
+  useEffect(() => {
+    if (!missing) return
+
+    for (const src of missing.split('\n')) {
+      const image = new Image()
+      image.onload = () => {
+        if (image.naturalWidth && image.naturalHeight) {
+          setAspects((prev) => ({
+            ...prev,
+            [src]: image.naturalWidth / image.naturalHeight,
+          }))
+        }
+      }
+      image.src = src
+    }
+  }, [missing])
+
+  return aspects
+}
@@ -0,0 +1,115 @@
+/**
+ * Reframe Menu Component
+ *
+ * Duplicates the project at another aspect ratio (16:9, 1:1, 4:5, 9:16)
+ * and opens the copy, so one edit can be published to several platforms.
+ * Smart crop tracks the subject of each clip so it stays in frame.
+ */
+
+import { useState } from 'react'
+import { useNavigate } from '@tanstack/react-router'
+import { useQueryClient } from '@tanstack/react-query'
+import { Crop } from 'lucide-react'
+import { toast } from 'sonner'
+import { REFRAME_FORMATS, getReframeFormat } from '../../remotion/reframe'
+import { Button } from '../ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '../ui/dropdown-menu'
+import type { ReframeFormat } from '../../remotion/reframe'
+
+interface ReframeMenuProps {
+  projectId: string
+  width: number
+  height: number
+  /** Icon-only trigger (mobile header) */
+  compact?: boolean
+}
+
+export function ReframeMenu({
+  projectId,
+  width,
+  height,
+  compact = false,
+}: ReframeMenuProps) {
+  const navigate = useNavigate()
+  const queryClient = useQueryClient()
+  const [isReframing, setIsReframing] = useState(false)
+  const [smartCrop, setSmartCrop] = useState(true)
+  const currentFormat = getReframeFormat({ width, height })
+
+  const handleReframe = async (format: ReframeFormat) => {
+    setIsReframing(true)
+    try {
+      const { reframeProjectFn } = await import('../../server/project.server')
+      const project = await reframeProjectFn({
+        data: { projectId, format, smartCrop },
+      })
+      queryClient.invalidateQueries({ queryKey: ['projects'] })
+      toast.success(`Created ${project.name}`)
+      navigate({
+        to: '/projects/$projectId',
+        params: { projectId: project.id },
+      })
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to reframe project',
+      )
+    } finally {
+      setIsReframing(false)
+    }
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        {compact ? (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            disabled={isReframing}
+          >
+            <Crop className="h-4 w-4" />
+          </Button>
+        ) : (
+          <button
+            className="text-sm text-muted-foreground hover:text-foreground disabled:opacity-50"
+            disabled={isReframing}
+          >
+            {isReframing ? 'Reframing...' : 'Reframe'}
+          </button>
+        )}
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-52">
+        <DropdownMenuLabel>Duplicate as</DropdownMenuLabel>
+        {(Object.keys(REFRAME_FORMATS) as Array<ReframeFormat>)
+          .filter((format) => format !== currentFormat)
+          .map((format) => (
+            <DropdownMenuItem
+              key={format}
+              disabled={isReframing}
+              onClick={() => handleReframe(format)}
+            >
+              {REFRAME_FORMATS[format].label}
+            </DropdownMenuItem>
+          ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuCheckboxItem
+          checked={smartCrop}
+          onCheckedChange={(checked) => setSmartCrop(checked === true)}
+          // Keep the menu open to pick a format next
+          onSelect={(e) => e.preventDefault()}
+        >
+          Smart crop subjects
+        </DropdownMenuCheckboxItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
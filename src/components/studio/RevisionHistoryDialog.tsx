@@ -0,0 +1,275 @@
+/**
+ * Revision History Dialog Component
+ *
+ * Lists saved versions of the project manifest (user edits, AI Director
+ * edits, named snapshots), previews a selected version in the player,
+ * and restores it.
+ */
+
+import { useState } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { Bookmark, Bot, RotateCcw, User } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '../ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog'
+import { Input } from '../ui/input'
+import { VideoPreview } from './VideoPreview'
+import type { BrandStyle } from '../../remotion/types'
+import { cn } from '@/lib/utils'
+
+interface RevisionHistoryDialogProps {
+  projectId: string
+  width: number
+  height: number
+  fps: number
+  /** Project brand kit, shown in the preview */
+  brand?: BrandStyle
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Restore a revision (saves pending edits first). Resolves to success. */
+  onRestore: (revisionId: string) => Promise<boolean>
+}
+
+export function RevisionHistoryDialog({
+  projectId,
+  width,
+  height,
+  fps,
+  brand,
+  open,
+  onOpenChange,
+  onRestore,
+}: RevisionHistoryDialogProps) {
+  const queryClient = useQueryClient()
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [snapshotsOnly, setSnapshotsOnly] = useState(false)
+  const [snapshotName, setSnapshotName] = useState('')
+  const [isRestoring, setIsRestoring] = useState(false)
+
+  // Preview player state
+  const [currentFrame, setCurrentFrame] = useState(0)
+  const [isPlaying, setIsPlaying] = useState(false)
+
+  const { data: revisionsData, isLoading } = useQuery({
+    queryKey: ['revisions', projectId, snapshotsOnly],
+    queryFn: async () => {
+      const { listRevisionsFn } = await import('../../server/revision.server')
+      return listRevisionsFn({ data: { projectId, snapshotsOnly } })
+    },
+    enabled: open,
+  })
+
+  const { data: selectedRevision } = useQuery({
+    queryKey: ['revision', projectId, selectedId],
+    queryFn: async () => {
+      const { getRevisionFn } = await import('../../server/revision.server')
+      return getRevisionFn({
+        data: { projectId, revisionId: selectedId as string },
+      })
+    },
+    enabled: open && !!selectedId,
+  })
+
+  const revisions = revisionsData?.revisions ?? []
+
+  const handleSelect = (revisionId: string) => {
+    setSelectedId(revisionId)
+    setCurrentFrame(0)
+    setIsPlaying(false)
+  }
+
+  const handleRestore = async () => {
+    if (!selectedId) return
+    setIsRestoring(true)
+    try {
+      const restored = await onRestore(selectedId)
+      if (restored) {
+        toast.success('Version restored')
+        queryClient.invalidateQueries({ queryKey: ['revisions', projectId] })
+        onOpenChange(false)
+      } else {
+        toast.error('Failed to restore version')
+      }
+    } finally {
+      setIsRestoring(false)
+    }
+  }
+
+  const handleCreateSnapshot = async () => {
+    const name = snapshotName.trim()
+    if (!name) return
+    try {
+      const { createSnapshotFn } = await import('../../server/revision.server')
+      await createSnapshotFn({ data: { projectId, name } })
+      setSnapshotName('')
+      queryClient.invalidateQueries({ queryKey: ['revisions', projectId] })
+      toast.success(`Snapshot "${name}" saved`)
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to save snapshot',
+      )
+    }
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        if (!isOpen) {
+          setSelectedId(null)
+          setIsPlaying(false)
+        }
+        onOpenChange(isOpen)
+      }}
+    >
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Version History</DialogTitle>
+          <DialogDescription>
+            Preview and restore earlier versions of this timeline. Restoring can
+            be undone.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Input
+            placeholder="Name the current version..."
+            value={snapshotName}
+            onChange={(e) => setSnapshotName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleCreateSnapshot()
+            }}
+          />
+          <Button
+            variant="secondary"
+            onClick={handleCreateSnapshot}
+            disabled={!snapshotName.trim()}
+          >
+            <Bookmark className="mr-2 h-4 w-4" />
+            Save Snapshot
+          </Button>
+        </div>
+
+        <div className="flex h-[420px] gap-4">
+          {/* Revision list */}
+          <div className="flex w-72 shrink-0 flex-col">
+            <div className="mb-2 flex gap-1">
+              <Button
+                variant={snapshotsOnly ? 'ghost' : 'secondary'}
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => setSnapshotsOnly(false)}
+              >
+                All
+              </Button>
+              <Button
+                variant={snapshotsOnly ? 'secondary' : 'ghost'}
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => setSnapshotsOnly(true)}
+              >
+                Snapshots
+              </Button>
+            </div>
+
+            <div className="flex-1 space-y-1 overflow-y-auto">
+              {isLoading ? (
+                <p className="p-2 text-sm text-muted-foreground">Loading...</p>
+              ) : revisions.length === 0 ? (
+                <p className="p-2 text-sm text-muted-foreground">
+                  {snapshotsOnly
+                    ? 'No snapshots yet'
+                    : 'No saved versions yet. Versions are recorded as you edit.'}
+                </p>
+              ) : (
+                revisions.map((revision) => (
+                  <button
+                    key={revision.id}
+                    onClick={() => handleSelect(revision.id)}
+                    className={cn(
+                      'w-full rounded-md border p-2 text-left text-sm transition-colors hover:bg-muted',
+                      selectedId === revision.id
+                        ? 'border-primary bg-muted'
+                        : 'border-transparent',
+                    )}
+                  >
+                    <div className="flex items-center gap-2">
+                      {revision.author === 'agent' ? (
+                        <Bot className="h-3.5 w-3.5 shrink-0 text-primary" />
+                      ) : (
+                        <User className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                      )}
+                      <span className="truncate font-medium">
+                        {revision.name ||
+                          (revision.author === 'agent'
+                            ? 'AI Director'
+                            : 'Edit')}
+                      </span>
+                      {revision.isHead && (
+                        <span className="ml-auto shrink-0 rounded bg-primary/10 px-1.5 text-[10px] text-primary">
+                          Current
+                        </span>
+                      )}
+                    </div>
+                    {revision.diffSummary && (
+                      <p className="mt-0.5 truncate text-xs text-muted-foreground">
+                        {revision.diffSummary}
+                      </p>
+                    )}
+                    <p className="mt-0.5 text-[10px] text-muted-foreground">
+                      {new Date(revision.createdAt).toLocaleString()}
+                    </p>
+                  </button>
+                ))
+              )}
+            </div>
+          </div>
+
+          {/* Preview */}
+          <div className="flex min-w-0 flex-1 flex-col gap-2">
+            {selectedRevision ? (
+              <>
+                <div className="min-h-0 flex-1">
+                  <VideoPreview
+                    key={selectedRevision.id}
+                    manifest={selectedRevision.manifest}
+                    brand={brand}
+                    width={width}
+                    height={height}
+                    fps={fps}
+                    currentFrame={currentFrame}
+                    isPlaying={isPlaying}
+                    onFrameChange={setCurrentFrame}
+                    onPlayingChange={setIsPlaying}
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-xs text-muted-foreground">
+                    {Math.round(selectedRevision.duration / fps)}s
+                  </span>
+                  <Button
+                    onClick={handleRestore}
+                    disabled={selectedRevision.isHead || isRestoring}
+                  >
+                    <RotateCcw className="mr-2 h-4 w-4" />
+                    {isRestoring ? 'Restoring...' : 'Restore this version'}
+                  </Button>
+                </div>
+              </>
+            ) : (
+              <div className="flex flex-1 items-center justify-center rounded-md border border-dashed text-sm text-muted-foreground">
+                Select a version to preview
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
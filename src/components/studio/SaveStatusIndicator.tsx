@@ -0,0 +1,98 @@
+/**
+ * Save Status Indicator Component
+ *
+ * Shows whether timeline edits have reached the server:
+ * saved, saving, unsaved changes, a failed save (with retry),
+ * or a conflict with a newer version (keep mine / load theirs).
+ */
+
+import { AlertTriangle, Check, CloudOff, Loader2 } from 'lucide-react'
+import { Button } from '../ui/button'
+import type { ManifestSaveStatus } from '../../hooks'
+import { cn } from '@/lib/utils'
+
+interface SaveStatusIndicatorProps {
+  status: ManifestSaveStatus
+  /** Why the last save failed (shown as a tooltip) */
+  error?: string | null
+  onResolveConflict: (keep: 'mine' | 'theirs') => void
+  onRetry: () => void
+  className?: string
+}
+
+export function SaveStatusIndicator({
+  status,
+  error,
+  onResolveConflict,
+  onRetry,
+  className,
+}: SaveStatusIndicatorProps) {
+  if (status === 'conflict') {
+    return (
+      <div
+        className={cn(
+          'flex items-center gap-2 rounded-full bg-destructive/10 px-3 py-1 text-xs text-destructive',
+          className,
+        )}
+      >
+        <AlertTriangle className="h-3 w-3" />
+        <span>Edited elsewhere</span>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-5 px-2 text-xs"
+          onClick={() => onResolveConflict('mine')}
+        >
+          Keep mine
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-5 px-2 text-xs"
+          onClick={() => onResolveConflict('theirs')}
+        >
+          Load latest
+        </Button>
+      </div>
+    )
+  }
+
+  if (status === 'error') {
+    return (
+      <button
+        className={cn(
+          'flex items-center gap-1 text-xs text-destructive hover:underline',
+          className,
+        )}
+        onClick={onRetry}
+        title={error ?? undefined}
+      >
+        <CloudOff className="h-3 w-3" />
+        Save failed - retry
+      </button>
+    )
+  }
+
+  return (
+    <span
+      className={cn(
+        'flex items-center gap-1 text-xs text-muted-foreground',
+        className,
+      )}
+    >
+      {status === 'saving' ? (
+        <>
+          <Loader2 className="h-3 w-3 animate-spin" />
+          Saving...
+        </>
+      ) : status === 'pending' ? (
+        'Unsaved changes'
+      ) : (
+        <>
+          <Check className="h-3 w-3" />
+          Saved
+        </>
+      )}
+    </span>
+  )
+}
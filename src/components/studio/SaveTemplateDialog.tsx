@@ -0,0 +1,118 @@
+/**
+ * Save Template Dialog Component
+ *
+ * Saves the project as a reusable template. Its clips become empty slots
+ * and the copy of its titles and CTAs becomes text slots, which are
+ * filled when a new project is created from the template.
+ */
+
+import { useEffect, useState } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { Button } from '../ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { Textarea } from '../ui/textarea'
+
+interface SaveTemplateDialogProps {
+  projectId: string
+  projectName: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function SaveTemplateDialog({
+  projectId,
+  projectName,
+  open,
+  onOpenChange,
+}: SaveTemplateDialogProps) {
+  const queryClient = useQueryClient()
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (open) {
+      setName(projectName)
+      setDescription('')
+    }
+  }, [open, projectName])
+
+  const handleSave = async () => {
+    if (!name.trim()) return
+    setIsSaving(true)
+    try {
+      const { saveProjectAsTemplateFn } =
+        await import('../../server/template.server')
+      const template = await saveProjectAsTemplateFn({
+        data: {
+          projectId,
+          name: name.trim(),
+          description: description.trim() || undefined,
+        },
+      })
+      queryClient.invalidateQueries({ queryKey: ['templates'] })
+      toast.success(
+        `Saved template "${template.name}" with ${template.slots.length} slot${template.slots.length === 1 ? '' : 's'}`,
+      )
+      onOpenChange(false)
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to save template',
+      )
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Save as Template</DialogTitle>
+          <DialogDescription>
+            Clips become empty slots and titles become editable text, ready to
+            fill in a new project or from a brief to the AI Director.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="template-name">Name</Label>
+            <Input
+              id="template-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={100}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="template-description">Description</Label>
+            <Textarea
+              id="template-description"
+              placeholder="e.g. 15s product teaser: hook, 3 features, CTA"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              maxLength={500}
+              rows={3}
+            />
+          </div>
+          <Button
+            className="w-full"
+            onClick={handleSave}
+            disabled={!name.trim() || isSaving}
+          >
+            {isSaving ? 'Saving...' : 'Save Template'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -2,7 +2,9 @@
  * Timeline Component
  *
  * Multi-track timeline with drag-and-drop clip reordering.
- * Features: Zoom controls, keyboard shortcuts, snap-to-grid.
+ * Features: Zoom controls, keyboard shortcuts, snap-to-grid,
+ * trim handles, split at playhead, ripple delete and adding overlays.
+ * Edits are reported through onManifestChange.
  */
 
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
@@ -16,21 +18,58 @@ import { CSS } from '@dnd-kit/utilities'
 import {
   Film,
   GripVertical,
+  Layers,
   Magnet,
   Minus,
   Music,
   Plus,
+  Scissors,
+  SlidersHorizontal,
   Type,
 } from 'lucide-react'
+import {
+  DEFAULT_TRANSITION_FRAMES,
+  TRACK_KEYS,
+  deleteClip,
+  findClip,
+  findNextVideoClip,
+  getClipTransition,
+  setAudioMix,
+  setTrackMix,
+  setTransition,
+  splitClip,
+  trimClip,
+} from '../../remotion/timeline-edits'
+import { DEFAULT_DUCKING, getAudioRole } from '../../remotion/audio-mix'
+import {
+  OVERLAY_PRESETS,
+  PRESET_OVERLAY_TYPES,
+  createOverlay,
+} from '../../remotion/overlays'
+import { Button } from '../ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '../ui/dropdown-menu'
+import { Slider } from '../ui/slider'
 import type { DragEndEvent } from '@dnd-kit/core'
+import type { PresetOverlayType } from '../../remotion/overlays'
+import type { TimelineItem } from '../../remotion/timeline-edits'
 import type {
   AudioClipProps,
+  AudioRole,
+  AudioTrackKey,
   ComponentOverlayProps,
   ProjectManifest,
+  TrackMix,
+  TransitionType,
   VideoClipProps,
 } from '../../remotion/types'
-import { Button } from '../ui/button'
-import { Slider } from '../ui/slider'
 
 interface TimelineProps {
   manifest: ProjectManifest
@@ -44,6 +83,10 @@ interface TimelineProps {
   onTogglePlay?: () => void
   /** Optional: Is the video currently playing */
   isPlaying?: boolean
+  /** Optional: Called on Ctrl+Z */
+  onUndo?: () => void
+  /** Optional: Called on Ctrl+Shift+Z / Ctrl+Y */
+  onRedo?: () => void
 }
 
 // Zoom levels: pixels per frame
@@ -51,6 +94,35 @@ const MIN_ZOOM = 0.5
 const MAX_ZOOM = 8
 const DEFAULT_ZOOM = 2
 
+// Snap trims to whole seconds when the edge is within this many pixels
+const SNAP_THRESHOLD_PX = 8
+
+const TRANSITION_OPTIONS: Array<{ value: TransitionType; label: string }> = [
+  { value: 'cut', label: 'Cut' },
+  { value: 'fade', label: 'Fade' },
+  { value: 'slide-left', label: 'Slide Left' },
+  { value: 'slide-right', label: 'Slide Right' },
+  { value: 'zoom', label: 'Zoom' },
+  { value: 'glitch', label: 'Glitch' },
+]
+
+// Transition lengths offered in the picker, in seconds
+const TRANSITION_DURATIONS = [0.25, 0.5, 1, 2]
+
+const AUDIO_LANES: Array<{ role: AudioRole; name: string }> = [
+  { role: 'voiceover', name: 'Voiceover' },
+  { role: 'music', name: 'Music' },
+  { role: 'sfx', name: 'SFX' },
+]
+
+// Loudness targets offered for renders, in LUFS
+const LOUDNESS_TARGETS = [-14, -16, -23]
+
+interface ClipBoundary {
+  from: VideoClipProps
+  to: VideoClipProps
+}
+
 export function Timeline({
   manifest,
   fps,
@@ -58,9 +130,11 @@ export function Timeline({
   selectedClipId,
   onSeek,
   onSelectClip,
-  onManifestChange: _onManifestChange,
+  onManifestChange,
   onTogglePlay,
   isPlaying,
+  onUndo,
+  onRedo,
 }: TimelineProps) {
   const timelineRef = useRef<HTMLDivElement>(null)
 
@@ -101,6 +175,139 @@ export function Timeline({
     setZoomLevel(Math.max(MIN_ZOOM, Math.min(newZoom, MAX_ZOOM)))
   }, [totalFrames])
 
+  // Swap the positions of two clips on the same track
+  const handleDragEnd = useCallback(
+    (event: DragEndEvent) => {
+      const { active, over } = event
+      if (!over || active.id === over.id) return
+
+      const trackKey = TRACK_KEYS.find((key) => {
+        const ids = manifest.tracks[key].map((c) => c.id)
+        return ids.includes(String(active.id)) && ids.includes(String(over.id))
+      })
+      if (!trackKey) return
+
+      const clips = manifest.tracks[trackKey]
+      const activeClip = clips.find((c) => c.id === active.id)
+      const overClip = clips.find((c) => c.id === over.id)
+      if (!activeClip || !overClip) return
+
+      onManifestChange({
+        ...manifest,
+        tracks: {
+          ...manifest.tracks,
+          [trackKey]: clips.map((c) =>
+            c.id === activeClip.id
+              ? { ...c, startFrame: overClip.startFrame }
+              : c.id === overClip.id
+                ? { ...c, startFrame: activeClip.startFrame }
+                : c,
+          ),
+        },
+      })
+    },
+    [manifest, onManifestChange],
+  )
+
+  // Remove the selected clip; ripple closes the gap on its track
+  const deleteSelectedClip = useCallback(
+    (ripple: boolean) => {
+      if (!selectedClipId || !findClip(manifest, selectedClipId)) return
+
+      onManifestChange(deleteClip(manifest, selectedClipId, { ripple }))
+      onSelectClip(null)
+    },
+    [manifest, selectedClipId, onManifestChange, onSelectClip],
+  )
+
+  // Split the selected clip (or the video clip under the playhead)
+  const splitAtPlayhead = useCallback(() => {
+    const isUnderPlayhead = (clip: TimelineItem) =>
+      currentFrame > clip.startFrame &&
+      currentFrame < clip.startFrame + clip.durationFrames
+
+    const selected = selectedClipId ? findClip(manifest, selectedClipId) : null
+    const target = selected
+      ? selected.clip
+      : manifest.tracks.video.find(isUnderPlayhead)
+
+    if (!target || !isUnderPlayhead(target)) return
+
+    onManifestChange(splitClip(manifest, target.id, currentFrame))
+  }, [manifest, selectedClipId, currentFrame, onManifestChange])
+
+  // Commit a trim from a clip edge handle
+  const handleTrim = useCallback(
+    (clipId: string, edge: 'start' | 'end', deltaFrames: number) => {
+      const found = findClip(manifest, clipId)
+      if (!found || deltaFrames === 0) return
+
+      let delta = deltaFrames
+      if (snapEnabled) {
+        const edgeFrame =
+          found.clip.startFrame +
+          (edge === 'end' ? found.clip.durationFrames : 0) +
+          delta
+        const snapped = Math.round(edgeFrame / fps) * fps
+        if (
+          Math.abs(snapped - edgeFrame) * pixelsPerFrame <=
+          SNAP_THRESHOLD_PX
+        ) {
+          delta += snapped - edgeFrame
+        }
+      }
+
+      onManifestChange(trimClip(manifest, clipId, edge, delta))
+    },
+    [manifest, snapEnabled, fps, pixelsPerFrame, onManifestChange],
+  )
+
+  // Adjacent video clip pairs that can have a transition between them
+  const boundaries = useMemo<Array<ClipBoundary>>(
+    () =>
+      manifest.tracks.video.flatMap((from) => {
+        const to = findNextVideoClip(manifest, from)
+        return to ? [{ from, to }] : []
+      }),
+    [manifest],
+  )
+
+  const handleSetTransition = useCallback(
+    (clipId: string, type: TransitionType, durationFrames?: number) => {
+      onManifestChange(setTransition(manifest, clipId, type, durationFrames))
+    },
+    [manifest, onManifestChange],
+  )
+
+  const handleTrackMixChange = useCallback(
+    (track: AudioTrackKey, changes: TrackMix) => {
+      onManifestChange(setTrackMix(manifest, track, changes))
+    },
+    [manifest, onManifestChange],
+  )
+
+  // Add an overlay at the playhead and select it
+  const handleAddOverlay = useCallback(
+    (component: PresetOverlayType) => {
+      const overlay = createOverlay(component, {
+        startFrame: currentFrame,
+        fps,
+      })
+      onManifestChange({
+        ...manifest,
+        tracks: {
+          ...manifest.tracks,
+          components: [...manifest.tracks.components, overlay],
+        },
+      })
+      onSelectClip(overlay.id)
+    },
+    [manifest, currentFrame, fps, onManifestChange, onSelectClip],
+  )
+
+  const ducking = manifest.audioMix?.ducking
+  const loudnessTarget = manifest.audioMix?.loudnessTarget
+
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -174,12 +381,52 @@ export function Timeline({
             zoomOut()
           }
           break
+        case 'Delete':
+        case 'Backspace':
+          // Shift+Delete: ripple delete
+          e.preventDefault()
+          deleteSelectedClip(e.shiftKey)
+          break
+        case 'KeyS':
+          if (!e.ctrlKey && !e.metaKey) {
+            e.preventDefault()
+            splitAtPlayhead()
+          }
+          break
+        case 'KeyZ':
+          if (e.ctrlKey || e.metaKey) {
+            e.preventDefault()
+            if (e.shiftKey) {
+              onRedo?.()
+            } else {
+              onUndo?.()
+            }
+          }
+          break
+        case 'KeyY':
+          if (e.ctrlKey || e.metaKey) {
+            e.preventDefault()
+            onRedo?.()
+          }
+          break
       }
     }
 
     window.addEventListener('keydown', handleKeyDown)
     return () => window.removeEventListener('keydown', handleKeyDown)
-  }, [currentFrame, fps, totalFrames, onSeek, onTogglePlay, zoomIn, zoomOut])
+  }, [
+    currentFrame,
+    fps,
+    totalFrames,
+    onSeek,
+    onTogglePlay,
+    zoomIn,
+    zoomOut,
+    deleteSelectedClip,
+    splitAtPlayhead,
+    onUndo,
+    onRedo,
+  ])
 
   const handleTimelineClick = useCallback(
     (e: React.MouseEvent<HTMLDivElement>) => {
@@ -194,14 +441,6 @@ export function Timeline({
     [onSeek, onSelectClip, totalFrames, pixelsPerFrame],
   )
 
-  const handleDragEnd = useCallback((event: DragEndEvent) => {
-    const { active, over } = event
-    if (!over || active.id === over.id) return
-
-    // TODO: Implement clip reordering
-    console.log('Drag end:', active.id, 'over', over.id)
-  }, [])
-
   const playheadPosition = currentFrame * pixelsPerFrame
 
   return (
@@ -221,6 +460,112 @@ export function Timeline({
           )}
         </div>
         <div className="flex items-center gap-1 md:gap-2">
+          {/* Edit actions */}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 md:h-7 md:w-7"
+            onClick={splitAtPlayhead}
+            title="Split at playhead (S)"
+          >
+            <Scissors className="h-3 w-3 md:h-3.5 md:w-3.5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="hidden h-7 text-xs md:flex"
+            onClick={() => deleteSelectedClip(true)}
+            disabled={!selectedClipId}
+            title="Ripple delete (Shift+Delete)"
+          >
+            Ripple Delete
+          </Button>
+
+          {/* Add overlay at the playhead */}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 md:h-7 md:w-7"
+                title="Add overlay"
+              >
+                <Layers className="h-3 w-3 md:h-3.5 md:w-3.5" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-44">
+              <DropdownMenuLabel>Add Overlay</DropdownMenuLabel>
+              {PRESET_OVERLAY_TYPES.map((component) => (
+                <DropdownMenuItem
+                  key={component}
+                  onClick={() => handleAddOverlay(component)}
+                >
+                  {OVERLAY_PRESETS[component].label}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          {/* Audio mix settings */}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant={
+                  ducking?.enabled || loudnessTarget ? 'secondary' : 'ghost'
+                }
+                size="icon"
+                className="h-6 w-6 md:h-7 md:w-7"
+                title="Audio mix"
+              >
+                <SlidersHorizontal className="h-3 w-3 md:h-3.5 md:w-3.5" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-52">
+              <DropdownMenuLabel>Audio Mix</DropdownMenuLabel>
+              <DropdownMenuCheckboxItem
+                checked={!!ducking?.enabled}
+                onCheckedChange={(checked) =>
+                  onManifestChange(
+                    setAudioMix(manifest, {
+                      ducking: {
+                        ...DEFAULT_DUCKING,
+                        ...ducking,
+                        enabled: checked,
+                      },
+                    }),
+                  )
+                }
+              >
+                Duck music under voiceover
+              </DropdownMenuCheckboxItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>Render Loudness</DropdownMenuLabel>
+              <DropdownMenuItem
+                onClick={() =>
+                  onManifestChange(
+                    setAudioMix(manifest, { loudnessTarget: undefined }),
+                  )
+                }
+                className={loudnessTarget === undefined ? 'bg-accent' : ''}
+              >
+                No normalisation
+              </DropdownMenuItem>
+              {LOUDNESS_TARGETS.map((target) => (
+                <DropdownMenuItem
+                  key={target}
+                  onClick={() =>
+                    onManifestChange(
+                      setAudioMix(manifest, { loudnessTarget: target }),
+                    )
+                  }
+                  className={loudnessTarget === target ? 'bg-accent' : ''}
+                >
+                  {target} LUFS
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+
           {/* Snap toggle */}
           <Button
             variant={snapEnabled ? 'secondary' : 'ghost'}
@@ -337,18 +682,43 @@ export function Timeline({
               pixelsPerFrame={pixelsPerFrame}
               selectedClipId={selectedClipId}
               onSelectClip={onSelectClip}
-            />
+              onTrim={handleTrim}
+              mix={manifest.audioMix?.tracks?.video}
+              onMixChange={(changes) => handleTrackMixChange('video', changes)}
+            >
+              {boundaries.map((boundary) => (
+                <TransitionPicker
+                  key={`${boundary.from.id}-${boundary.to.id}`}
+                  boundary={boundary}
+                  fps={fps}
+                  pixelsPerFrame={pixelsPerFrame}
+                  onChange={(type, durationFrames) =>
+                    handleSetTransition(boundary.from.id, type, durationFrames)
+                  }
+                />
+              ))}
+            </Track>
 
-            {/* Audio Track */}
-            <Track
-              name="Audio"
-              icon={<Music className="h-3 w-3" />}
-              clips={manifest.tracks.audio}
-              type="audio"
-              pixelsPerFrame={pixelsPerFrame}
-              selectedClipId={selectedClipId}
-              onSelectClip={onSelectClip}
-            />
+            {/* Audio Tracks (one per role) */}
+            {AUDIO_LANES.map((lane) => (
+              <Track
+                key={lane.role}
+                name={lane.name}
+                icon={<Music className="h-3 w-3" />}
+                clips={manifest.tracks.audio.filter(
+                  (c) => getAudioRole(c) === lane.role,
+                )}
+                type="audio"
+                pixelsPerFrame={pixelsPerFrame}
+                selectedClipId={selectedClipId}
+                onSelectClip={onSelectClip}
+                onTrim={handleTrim}
+                mix={manifest.audioMix?.tracks?.[lane.role]}
+                onMixChange={(changes) =>
+                  handleTrackMixChange(lane.role, changes)
+                }
+              />
+            ))}
 
             {/* Components Track */}
             <Track
@@ -359,6 +729,7 @@ export function Timeline({
               pixelsPerFrame={pixelsPerFrame}
               selectedClipId={selectedClipId}
               onSelectClip={onSelectClip}
+              onTrim={handleTrim}
             />
           </DndContext>
         </div>
@@ -408,6 +779,12 @@ interface TrackProps {
   pixelsPerFrame: number
   selectedClipId: string | null
   onSelectClip: (clipId: string | null) => void
+  onTrim: (clipId: string, edge: 'start' | 'end', deltaFrames: number) => void
+  /** Mixer state; tracks with sound show mute/solo toggles */
+  mix?: TrackMix
+  onMixChange?: (changes: TrackMix) => void
+  /** Extra elements positioned over the clips (e.g. transition pickers) */
+  children?: React.ReactNode
 }
 
 function Track({
@@ -418,6 +795,10 @@ function Track({
   pixelsPerFrame,
   selectedClipId,
   onSelectClip,
+  onTrim,
+  mix,
+  onMixChange,
+  children,
 }: TrackProps) {
   const clipIds = clips.map((c) => c.id)
 
@@ -426,7 +807,39 @@ function Track({
       {/* Track label */}
       <div className="sticky left-0 z-10 flex w-24 shrink-0 items-center gap-2 border-r bg-muted/50 px-2">
         {icon}
-        <span className="text-xs font-medium">{name}</span>
+        <span className="truncate text-xs font-medium">{name}</span>
+        {onMixChange && (
+          <div className="ml-auto flex gap-0.5">
+            <button
+              className={`rounded px-1 text-[9px] font-bold ${
+                mix?.muted
+                  ? 'bg-destructive text-white'
+                  : 'text-muted-foreground hover:bg-muted'
+              }`}
+              onClick={(e) => {
+                e.stopPropagation()
+                onMixChange({ muted: !mix?.muted })
+              }}
+              title={mix?.muted ? 'Unmute' : 'Mute'}
+            >
+              M
+            </button>
+            <button
+              className={`rounded px-1 text-[9px] font-bold ${
+                mix?.solo
+                  ? 'bg-yellow-500 text-black'
+                  : 'text-muted-foreground hover:bg-muted'
+              }`}
+              onClick={(e) => {
+                e.stopPropagation()
+                onMixChange({ solo: !mix?.solo })
+              }}
+              title={mix?.solo ? 'Unsolo' : 'Solo'}
+            >
+              S
+            </button>
+          </div>
+        )}
       </div>
 
       {/* Clips */}
@@ -443,9 +856,11 @@ function Track({
               pixelsPerFrame={pixelsPerFrame}
               isSelected={selectedClipId === clip.id}
               onSelect={() => onSelectClip(clip.id)}
+              onTrim={(edge, deltaFrames) => onTrim(clip.id, edge, deltaFrames)}
             />
           ))}
         </SortableContext>
+        {children}
       </div>
     </div>
   )
@@ -457,6 +872,7 @@ interface TimelineClipProps {
   pixelsPerFrame: number
   isSelected: boolean
   onSelect: () => void
+  onTrim: (edge: 'start' | 'end', deltaFrames: number) => void
 }
 
 function TimelineClip({
@@ -465,17 +881,58 @@ function TimelineClip({
   pixelsPerFrame,
   isSelected,
   onSelect,
+  onTrim,
 }: TimelineClipProps) {
   const { attributes, listeners, setNodeRef, transform, transition } =
     useSortable({
       id: clip.id,
     })
 
+  // Live preview while an edge handle is being dragged
+  const [trimPreview, setTrimPreview] = useState<{
+    edge: 'start' | 'end'
+    delta: number
+  } | null>(null)
+
+  const startTrim = (
+    e: React.PointerEvent<HTMLDivElement>,
+    edge: 'start' | 'end',
+  ) => {
+    // Keep dnd-kit from starting a reorder drag
+    e.stopPropagation()
+    e.preventDefault()
+
+    const startX = e.clientX
+    const toFrames = (clientX: number) =>
+      Math.round((clientX - startX) / pixelsPerFrame)
+
+    const handleMove = (moveEvent: PointerEvent) => {
+      setTrimPreview({ edge, delta: toFrames(moveEvent.clientX) })
+    }
+    const handleUp = (upEvent: PointerEvent) => {
+      window.removeEventListener('pointermove', handleMove)
+      window.removeEventListener('pointerup', handleUp)
+      setTrimPreview(null)
+      onTrim(edge, toFrames(upEvent.clientX))
+    }
+
+    window.addEventListener('pointermove', handleMove)
+    window.addEventListener('pointerup', handleUp)
+  }
+
+  const previewStart =
+    trimPreview?.edge === 'start'
+      ? Math.min(trimPreview.delta, clip.durationFrames - 1)
+      : 0
+  const previewEnd = trimPreview?.edge === 'end' ? trimPreview.delta : 0
+
   const style = {
     transform: CSS.Transform.toString(transform),
     transition,
-    left: clip.startFrame * pixelsPerFrame,
-    width: clip.durationFrames * pixelsPerFrame,
+    left: (clip.startFrame + previewStart) * pixelsPerFrame,
+    width:
+      Math.max(1, clip.durationFrames - previewStart + previewEnd) *
+      pixelsPerFrame,
   }
 
   const colorClass =
@@ -499,6 +956,20 @@ function TimelineClip({
       {...attributes}
       {...listeners}
     >
+      {/* Trim handles */}
+      <div
+        className="absolute inset-y-0 left-0 w-1.5 cursor-ew-resize rounded-l bg-white/30 opacity-0 hover:opacity-100"
+        onPointerDown={(e) => startTrim(e, 'start')}
+        onClick={(e) => e.stopPropagation()}
+        title="Trim start"
+      />
+      <div
+        className="absolute inset-y-0 right-0 w-1.5 cursor-ew-resize rounded-r bg-white/30 opacity-0 hover:opacity-100"
+        onPointerDown={(e) => startTrim(e, 'end')}
+        onClick={(e) => e.stopPropagation()}
+        title="Trim end"
+      />
+
       <GripVertical className="h-3 w-3 opacity-50" />
       <span className="truncate">
         {type === 'component'
@@ -508,3 +979,91 @@ function TimelineClip({
     </div>
   )
 }
+
+interface TransitionPickerProps {
+  boundary: ClipBoundary
+  fps: number
+  pixelsPerFrame: number
+  onChange: (type: TransitionType, durationFrames?: number) => void
+}
+
+function TransitionPicker({
+  boundary,
+  fps,
+  pixelsPerFrame,
+  onChange,
+}: TransitionPickerProps) {
+  const { from, to } = boundary
+  const transition = getClipTransition(from, to)
+  const boundaryX = to.startFrame * pixelsPerFrame
+  const currentDuration = from.transitionDuration ?? DEFAULT_TRANSITION_FRAMES
+
+  return (
+    <>
+      {/* Overlap region: the outgoing clip plays on over the incoming one */}
+      {transition && (
+        <div
+          className="pointer-events-none absolute top-1 bottom-1 z-10 rounded-r bg-gradient-to-r from-white/40 to-transparent"
+          style={{
+            left: boundaryX,
+            width: transition.durationFrames * pixelsPerFrame,
+          }}
+        />
+      )}
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button
+            className={`absolute top-1/2 z-10 flex h-5 w-5 -translate-x-1/2 -translate-y-1/2 items-center justify-center rounded-full border text-[9px] font-bold shadow ${
+              transition
+                ? 'border-primary bg-primary text-primary-foreground'
+                : 'border-border bg-background text-muted-foreground hover:text-foreground'
+            }`}
+            style={{ left: boundaryX }}
+            onClick={(e) => e.stopPropagation()}
+            onPointerDown={(e) => e.stopPropagation()}
+            title={
+              transition
+                ? `${transition.type} (${(transition.durationFrames / fps).toFixed(2)}s)`
+                : 'Add transition'
+            }
+          >
+            {transition ? 'T' : '+'}
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="center" className="w-44">
+          <DropdownMenuLabel>Transition</DropdownMenuLabel>
+          {TRANSITION_OPTIONS.map((option) => (
+            <DropdownMenuItem
+              key={option.value}
+              onClick={() => onChange(option.value)}
+              className={
+                (transition?.type ?? 'cut') === option.value ? 'bg-accent' : ''
+              }
+            >
+              {option.label}
+            </DropdownMenuItem>
+          ))}
+          {transition && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>Duration</DropdownMenuLabel>
+              {TRANSITION_DURATIONS.map((seconds) => {
+                const frames = Math.round(seconds * fps)
+                return (
+                  <DropdownMenuItem
+                    key={seconds}
+                    onClick={() => onChange(transition.type, frames)}
+                    className={currentDuration === frames ? 'bg-accent' : ''}
+                  >
+                    {seconds}s
+                  </DropdownMenuItem>
+                )
+              })}
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </>
+  )
+}
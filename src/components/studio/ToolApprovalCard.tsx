@@ -0,0 +1,227 @@
+/**
+ * Tool Approval Card Component
+ *
+ * Shown under an AI Director message when confirm-before-spend is on and
+ * the director wants to run tools that spend credits. Lists each call with
+ * its estimated cost; the user approves, rejects, or edits the arguments
+ * (as JSON) before approving. Edited calls are estimated again as they
+ * change.
+ */
+
+import { useState } from 'react'
+import { Check, Coins, Pencil, X } from 'lucide-react'
+import { estimateToolCost, sumToolCosts } from '../../server/agent/tool-costs'
+import { Button } from '../ui/button'
+import { Textarea } from '../ui/textarea'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ToolApproval {
+  /** ID of the assistant message holding the tool calls */
+  messageId: string
+  status: 'pending' | 'approved' | 'rejected'
+  calls: Array<{
+    id: string
+    name: string
+    arguments: unknown
+    estimatedCost: number | null
+  }>
+  totalCost: number
+}
+
+interface ToolApprovalCardProps {
+  approval: ToolApproval
+  /** Disables the buttons while the director is busy */
+  disabled?: boolean
+  onRespond: (
+    decision: 'approve' | 'reject',
+    args?: Record<string, unknown>,
+  ) => void
+}
+
+// Arguments worth showing in the summary of a call, in order of preference
+const SUMMARY_ARGS = ['prompt', 'motionPrompt', 'text']
+
+// =============================================================================
+// Component
+// =============================================================================
+
+export function ToolApprovalCard({
+  approval,
+  disabled = false,
+  onRespond,
+}: ToolApprovalCardProps) {
+  const [isEditing, setIsEditing] = useState(false)
+  const [drafts, setDrafts] = useState<Record<string, string>>({})
+
+  const isPending = approval.status === 'pending'
+
+  const startEditing = () => {
+    setDrafts(
+      Object.fromEntries(
+        approval.calls.map((call) => [
+          call.id,
+          JSON.stringify(call.arguments, null, 2),
+        ]),
+      ),
+    )
+    setIsEditing(true)
+  }
+
+  // Parsed drafts, or null while any of them is invalid JSON
+  const parseDrafts = (): Record<string, unknown> | null => {
+    const parsed: Record<string, unknown> = {}
+    for (const [id, draft] of Object.entries(drafts)) {
+      try {
+        parsed[id] = JSON.parse(draft)
+      } catch {
+        return null
+      }
+    }
+    return parsed
+  }
+
+  const editedArgs = isEditing ? parseDrafts() : null
+  const hasInvalidDraft = isEditing && editedArgs === null
+  const shown = editedArgs
+    ? withEditedArguments(approval, editedArgs)
+    : approval
+
+  const handleApprove = () => {
+    onRespond('approve', editedArgs ?? undefined)
+    setIsEditing(false)
+  }
+
+  return (
+    <div className="mt-2 space-y-2 rounded-md border border-border/50 bg-background/60 p-2">
+      <div className="flex items-center justify-between gap-2 text-xs font-medium">
+        <span className="flex items-center gap-1">
+          <Coins className="h-3 w-3 text-yellow-500" />
+          {isPending
+            ? 'Approve before spending credits'
+            : approval.status === 'approved'
+              ? 'Approved'
+              : 'Rejected'}
+        </span>
+        <span className="text-muted-foreground">
+          ~{formatCost(shown.totalCost)}
+        </span>
+      </div>
+
+      <div className="space-y-2">
+        {shown.calls.map((call) => (
+          <div key={call.id} className="space-y-1 text-xs">
+            <div className="flex items-center justify-between gap-2">
+              <span>{formatToolName(call.name)}</span>
+              <span className="text-muted-foreground">
+                {call.estimatedCost === null
+                  ? 'free'
+                  : `~${formatCost(call.estimatedCost)}`}
+              </span>
+            </div>
+            {isEditing ? (
+              <Textarea
+                value={drafts[call.id] ?? ''}
+                onChange={(e) =>
+                  setDrafts((prev) => ({ ...prev, [call.id]: e.target.value }))
+                }
+                rows={4}
+                className="font-mono text-xs"
+              />
+            ) : (
+              summarizeArguments(call.arguments) && (
+                <p className="line-clamp-2 text-muted-foreground">
+                  {summarizeArguments(call.arguments)}
+                </p>
+              )
+            )}
+          </div>
+        ))}
+      </div>
+
+      {isPending && (
+        <div className="flex flex-wrap items-center gap-1">
+          <Button
+            size="sm"
+            className="h-7"
+            onClick={handleApprove}
+            disabled={disabled || hasInvalidDraft}
+          >
+            <Check className="mr-1 h-3 w-3" />
+            Approve
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-7"
+            onClick={() => (isEditing ? setIsEditing(false) : startEditing())}
+            disabled={disabled}
+          >
+            <Pencil className="mr-1 h-3 w-3" />
+            {isEditing ? 'Cancel edit' : 'Edit'}
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-7"
+            onClick={() => onRespond('reject')}
+            disabled={disabled}
+          >
+            <X className="mr-1 h-3 w-3" />
+            Reject
+          </Button>
+          {hasInvalidDraft && (
+            <span className="text-xs text-red-500">Invalid JSON</span>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * The approval with edited arguments (by tool call ID) swapped in and
+ * their cost estimated again
+ */
+export function withEditedArguments(
+  approval: ToolApproval,
+  args: Record<string, unknown>,
+): ToolApproval {
+  const calls = approval.calls.map((call) =>
+    call.id in args
+      ? {
+          ...call,
+          arguments: args[call.id],
+          estimatedCost: estimateToolCost(call.name, args[call.id]),
+        }
+      : call,
+  )
+  return { ...approval, calls, totalCost: sumToolCosts(calls) }
+}
+
+/**
+ * Convert a tool's camelCase name to Title Case with spaces
+ */
+export function formatToolName(name: string): string {
+  return name
+    .replace(/([A-Z])/g, ' $1')
+    .replace(/^./, (str) => str.toUpperCase())
+    .trim()
+}
+
+function formatCost(cost: number): string {
+  return `$${cost.toFixed(2)}`
+}
+
+function summarizeArguments(args: unknown): string | null {
+  if (!args || typeof args !== 'object') return null
+  const record = args as Record<string, unknown>
+  const key = SUMMARY_ARGS.find((k) => typeof record[k] === 'string')
+  return key ? `"${record[key] as string}"` : null
+}
@@ -1,7 +1,9 @@
 /**
  * Video Preview Component
  *
- * Renders the Remotion player for video preview.
+ * Renders the Remotion player for video preview. When editing is enabled,
+ * positioned overlays can be selected and transformed on the canvas
+ * (see OverlayHandles).
  */
 
 import { useCallback, useRef } from 'react'
@@ -9,11 +11,13 @@ import { Player } from '@remotion/player'
 import { Maximize, Pause, Play, SkipBack, SkipForward } from 'lucide-react'
 import { VideoComposition } from '../../remotion/Composition'
 import { Button } from '../ui/button'
+import { OverlayHandles } from './OverlayHandles'
 import type { PlayerRef } from '@remotion/player'
-import type { ProjectManifest } from '../../remotion/types'
+import type { BrandStyle, ProjectManifest } from '../../remotion/types'
 
 interface VideoPreviewProps {
   manifest: ProjectManifest
+  brand?: BrandStyle
   width: number
   height: number
   fps: number
@@ -21,10 +25,15 @@ interface VideoPreviewProps {
   isPlaying: boolean
   onFrameChange: (frame: number) => void
   onPlayingChange: (playing: boolean) => void
+  selectedClipId?: string | null
+  onSelectClip?: (clipId: string | null) => void
+  /** Enables canvas editing of overlays */
+  onManifestChange?: (manifest: ProjectManifest) => void
 }
 
 export function VideoPreview({
   manifest,
+  brand,
   width,
   height,
   fps,
@@ -32,6 +41,9 @@ export function VideoPreview({
   isPlaying,
   onFrameChange,
   onPlayingChange,
+  selectedClipId = null,
+  onSelectClip,
+  onManifestChange,
 }: VideoPreviewProps) {
   const playerRef = useRef<PlayerRef>(null)
 
@@ -107,7 +119,7 @@ export function VideoPreview({
           <Player
             ref={playerRef}
             component={VideoComposition}
-            inputProps={{ manifest }}
+            inputProps={{ manifest, brand }}
             durationInFrames={durationFrames}
             fps={fps}
             compositionWidth={width}
@@ -120,6 +132,17 @@ export function VideoPreview({
             loop={false}
             clickToPlay={false}
           />
+          {onManifestChange && onSelectClip && !isPlaying && (
+            <OverlayHandles
+              manifest={manifest}
+              width={width}
+              height={height}
+              currentFrame={currentFrame}
+              selectedClipId={selectedClipId}
+              onSelectClip={onSelectClip}
+              onManifestChange={onManifestChange}
+            />
+          )}
         </div>
       </div>
 
@@ -4,15 +4,20 @@
  * The main 3-column layout for video editing:
  * - Left: Chat/AI Director panel (equal width)
  * - Center: Video preview + Timeline
- * - Right: Asset Library + Generate panel (equal width)
+ * - Right: Asset Library + Generate panel (equal width), or the clip
+ *   inspector while a clip is selected
  *
  * Includes polling for:
  * - Active generation jobs
  * - Manifest updates (when AI modifies timeline)
+ *
+ * Timeline edits are autosaved (see useManifestAutosave).
  */
 
 import { useCallback, useEffect, useRef, useState } from 'react'
 import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { findClip } from '../../remotion/timeline-edits'
 import { ChatPanel } from './ChatPanel'
 
 // NOTE: Server functions are dynamically imported in queryFn/callbacks
@@ -21,10 +26,17 @@ import { ChatPanel } from './ChatPanel'
 import { VideoPreview } from './VideoPreview'
 import { Timeline } from './Timeline'
 import { AssetPanel } from './AssetPanel'
+import { ClipInspector } from './ClipInspector'
+import { CaptionsMenu } from './CaptionsMenu'
+import { ReframeMenu } from './ReframeMenu'
 import { QuickActionsToolbar } from './QuickActionsToolbar'
+import { RevisionHistoryDialog } from './RevisionHistoryDialog'
+import { BrandKitDialog } from './BrandKitDialog'
+import { SaveTemplateDialog } from './SaveTemplateDialog'
+import { SaveStatusIndicator } from './SaveStatusIndicator'
 import { MobileWorkspace } from './mobile'
-import { useIsMobile } from '../../hooks'
-import type { ProjectManifest } from '../../remotion/types'
+import { useIsMobile, useManifestAutosave } from '../../hooks'
+import type { BrandStyle, ProjectManifest } from '../../remotion/types'
 
 // Project type from getProjectFn
 interface Project {
@@ -38,6 +50,8 @@ interface Project {
   outputUrl: string | null
   thumbnailUrl: string | null
   manifest: ProjectManifest
+  brandKitId: string | null
+  brand: BrandStyle | null
   assets: Array<{
     id: string
     type: string
@@ -48,6 +62,9 @@ interface Project {
     durationSeconds: number | null
     createdAt: Date
   }>
+  manifestVersion: number
+  /** Set when the stored manifest was invalid and a fallback was loaded */
+  manifestError: string | null
   createdAt: Date
   updatedAt: Date
 }
@@ -59,24 +76,57 @@ interface WorkspaceProps {
 // Polling intervals
 const JOB_POLL_INTERVAL = 3000 // 3 seconds
 const MANIFEST_POLL_INTERVAL = 5000 // 5 seconds
+const RENDER_POLL_INTERVAL = 2000 // 2 seconds
 
 export function Workspace({ project }: WorkspaceProps) {
   const queryClient = useQueryClient()
   const isMobile = useIsMobile()
 
-  // Local state for the manifest (optimistic updates)
-  const [manifest, setManifest] = useState<ProjectManifest>(project.manifest)
-  const [manifestVersion, setManifestVersion] = useState(0)
+  // Local manifest with debounced autosave (optimistic updates)
+  const {
+    manifest,
+    saveStatus,
+    saveError,
+    updateManifest: handleManifestChange,
+    refreshManifest,
+    resolveConflict,
+    retrySave,
+    flushSave,
+    undo,
+    redo,
+    restoreRevision,
+    applyServerEdit,
+    isApplyingServerEdit,
+    canUndo,
+    canRedo,
+  } = useManifestAutosave({
+    projectId: project.id,
+    initialManifest: project.manifest,
+    initialManifestVersion: project.manifestVersion,
+  })
 
-  // Track the last known manifest update time for change detection
-  const lastManifestUpdate = useRef<Date>(project.updatedAt)
+  useEffect(() => {
+    if (project.manifestError) {
+      toast.error(project.manifestError)
+    }
+  }, [project.manifestError])
 
   // Player state
   const [currentFrame, setCurrentFrame] = useState(0)
   const [isPlaying, setIsPlaying] = useState(false)
 
+  // Version history dialog
+  const [historyOpen, setHistoryOpen] = useState(false)
+  const [brandKitOpen, setBrandKitOpen] = useState(false)
+  const [templateOpen, setTemplateOpen] = useState(false)
+  const [isCaptioning, setIsCaptioning] = useState(false)
+  const [isDetectingFocus, setIsDetectingFocus] = useState(false)
+
   // Selection state
   const [selectedClipId, setSelectedClipId] = useState<string | null>(null)
+  const selectedClip = selectedClipId
+    ? findClip(manifest, selectedClipId)
+    : null
 
   // Panel collapse state
   const [leftPanelCollapsed, setLeftPanelCollapsed] = useState(false)
@@ -92,11 +142,11 @@ export function Workspace({ project }: WorkspaceProps) {
   // =============================================================================
 
   const { data: jobsData } = useQuery({
-    queryKey: ['jobs', project.id, 'processing'],
+    queryKey: ['jobs', project.id, 'active'],
     queryFn: async () => {
       const { listJobsFn } = await import('../../server/generation.server')
       const result = await listJobsFn({
-        data: { projectId: project.id, status: 'processing', limit: 10 },
+        data: { projectId: project.id, active: true, limit: 10 },
       })
       return result
     },
@@ -141,9 +191,7 @@ export function Workspace({ project }: WorkspaceProps) {
 
     // Poll each job
     jobsData.forEach((job) => {
-      if (job.status === 'processing') {
-        pollJob(job.id)
-      }
+      pollJob(job.id)
     })
   }, [jobsData, project.id, queryClient])
 
@@ -151,23 +199,6 @@ export function Workspace({ project }: WorkspaceProps) {
   // Manifest Polling - Check for AI-driven manifest updates
   // =============================================================================
 
-  const refreshManifest = useCallback(async () => {
-    try {
-      const { getManifestFn } = await import('../../server/project.server')
-      const result = await getManifestFn({ data: { projectId: project.id } })
-
-      // Check if manifest was updated
-      const updatedAt = new Date(result.updatedAt)
-      if (updatedAt > lastManifestUpdate.current) {
-        lastManifestUpdate.current = updatedAt
-        setManifest(result.manifest)
-        setManifestVersion((v) => v + 1)
-      }
-    } catch (error) {
-      console.error('Failed to refresh manifest:', error)
-    }
-  }, [project.id])
-
   // Poll for manifest changes when there are active jobs or chat is being used
   useEffect(() => {
     // Only poll if there are active jobs (AI might be modifying timeline)
@@ -177,17 +208,105 @@ export function Workspace({ project }: WorkspaceProps) {
     return () => clearInterval(interval)
   }, [activeJobs.length, refreshManifest])
 
+  // =============================================================================
+  // Render Status - Poll while an export is in progress
+  // =============================================================================
+
+  const { data: renderStatus } = useQuery({
+    queryKey: ['render', project.id],
+    queryFn: async () => {
+      const { getRenderStatusFn } = await import('../../server/render.server')
+      return getRenderStatusFn({ data: { projectId: project.id } })
+    },
+    refetchInterval: (query) =>
+      query.state.data?.projectStatus === 'rendering'
+        ? RENDER_POLL_INTERVAL
+        : false,
+  })
+
+  const isRendering = renderStatus?.projectStatus === 'rendering'
+  const renderProgress = renderStatus?.job?.progress ?? 0
+
+  // Notify when a render finishes
+  const previousRenderStatus = useRef(renderStatus?.projectStatus)
+  useEffect(() => {
+    const status = renderStatus?.projectStatus
+    if (previousRenderStatus.current === 'rendering') {
+      if (status === 'completed') {
+        toast.success('Export complete')
+      } else if (status === 'failed') {
+        toast.error(renderStatus?.job?.error || 'Export failed')
+      }
+    }
+    previousRenderStatus.current = status
+  }, [renderStatus])
+
   // =============================================================================
   // Handlers
   // =============================================================================
 
-  // Handle manifest updates (from user actions or AI)
-  const handleManifestChange = useCallback((newManifest: ProjectManifest) => {
-    setManifest(newManifest)
-    setManifestVersion((v) => v + 1)
-    lastManifestUpdate.current = new Date()
-    // TODO: Debounce and save to server
-  }, [])
+  // Transcribe voiceover/video clips and add caption overlays
+  const handleGenerateCaptions = useCallback(async () => {
+    setIsCaptioning(true)
+    try {
+      const captioned = await applyServerEdit('generate captions', async () => {
+        const { generateCaptionsFn } =
+          await import('../../server/caption.server')
+        return generateCaptionsFn({ data: { projectId: project.id } })
+      })
+      if (captioned) {
+        toast.success('Captions added')
+      } else {
+        toast.error('Failed to generate captions')
+      }
+    } finally {
+      setIsCaptioning(false)
+    }
+  }, [applyServerEdit, project.id])
+
+  // Track the subject of a clip so cover-fit crops keep it in frame
+  const handleDetectFocus = useCallback(
+    async (clipId: string) => {
+      setIsDetectingFocus(true)
+      try {
+        const tracked = await applyServerEdit('smart crop', async () => {
+          const { detectClipFocusFn } =
+            await import('../../server/focus.server')
+          return detectClipFocusFn({
+            data: { projectId: project.id, clipIds: [clipId] },
+          })
+        })
+        if (tracked) {
+          toast.success('Smart crop applied')
+        } else {
+          toast.error('Failed to detect the subject')
+        }
+      } finally {
+        setIsDetectingFocus(false)
+      }
+    },
+    [applyServerEdit, project.id],
+  )
+
+  // Start rendering the project to MP4, from the latest edits
+  const handleExport = useCallback(async () => {
+    if (!(await flushSave())) {
+      toast.error('Save your changes before exporting')
+      return
+    }
+
+    try {
+      const { startRenderFn } = await import('../../server/render.server')
+      await startRenderFn({ data: { projectId: project.id } })
+      queryClient.invalidateQueries({ queryKey: ['render', project.id] })
+      queryClient.invalidateQueries({ queryKey: ['jobs', project.id] })
+      toast.success('Export started')
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to start export',
+      )
+    }
+  }, [flushSave, project.id, queryClient])
 
   // Handle frame change from timeline
   const handleSeek = useCallback((frame: number) => {
@@ -214,6 +333,12 @@ export function Workspace({ project }: WorkspaceProps) {
           <span className="text-xs text-muted-foreground">
             {project.width}x{project.height} @ {project.fps}fps
           </span>
+          <SaveStatusIndicator
+            status={saveStatus}
+            error={saveError}
+            onResolveConflict={resolveConflict}
+            onRetry={retrySave}
+          />
         </div>
         <div className="flex items-center gap-2">
           {/* Active jobs indicator */}
@@ -226,8 +351,54 @@ export function Workspace({ project }: WorkspaceProps) {
           <span className="text-sm text-muted-foreground">
             {Math.floor(project.duration / project.fps)}s
           </span>
-          <button className="rounded bg-primary px-3 py-1 text-sm text-primary-foreground hover:bg-primary/90">
-            Export
+          <CaptionsMenu
+            projectName={project.name}
+            manifest={manifest}
+            fps={project.fps}
+            onManifestChange={handleManifestChange}
+            onGenerateCaptions={handleGenerateCaptions}
+            isCaptioning={isCaptioning}
+          />
+          <ReframeMenu
+            projectId={project.id}
+            width={project.width}
+            height={project.height}
+          />
+          <button
+            className="text-sm text-muted-foreground hover:text-foreground"
+            onClick={() => setBrandKitOpen(true)}
+          >
+            Brand
+          </button>
+          <button
+            className="text-sm text-muted-foreground hover:text-foreground"
+            onClick={() => setTemplateOpen(true)}
+          >
+            Save as template
+          </button>
+          <button
+            className="text-sm text-muted-foreground hover:text-foreground"
+            onClick={() => setHistoryOpen(true)}
+          >
+            History
+          </button>
+          {renderStatus?.projectStatus === 'completed' &&
+            renderStatus.outputUrl && (
+              <a
+                href={renderStatus.outputUrl}
+                target="_blank"
+                rel="noreferrer"
+                className="text-sm text-primary hover:underline"
+              >
+                Download
+              </a>
+            )}
+          <button
+            className="rounded bg-primary px-3 py-1 text-sm text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+            onClick={handleExport}
+            disabled={isRendering || saveStatus === 'saving'}
+          >
+            {isRendering ? `Rendering ${renderProgress}%` : 'Export'}
           </button>
         </div>
       </header>
@@ -244,6 +415,7 @@ export function Workspace({ project }: WorkspaceProps) {
             projectId={project.id}
             manifest={manifest}
             onManifestChange={handleManifestChange}
+            onTimelineUpdated={refreshManifest}
             collapsed={leftPanelCollapsed}
             onToggleCollapse={() => setLeftPanelCollapsed(!leftPanelCollapsed)}
           />
@@ -254,8 +426,8 @@ export function Workspace({ project }: WorkspaceProps) {
           {/* Video Preview */}
           <div className="flex-1 overflow-hidden p-4">
             <VideoPreview
-              key={manifestVersion} // Force re-render when manifest changes
               manifest={manifest}
+              brand={project.brand ?? undefined}
               width={project.width}
               height={project.height}
               fps={project.fps}
@@ -263,6 +435,9 @@ export function Workspace({ project }: WorkspaceProps) {
               isPlaying={isPlaying}
               onFrameChange={setCurrentFrame}
               onPlayingChange={setIsPlaying}
+              selectedClipId={selectedClipId}
+              onSelectClip={setSelectedClipId}
+              onManifestChange={handleManifestChange}
             />
           </div>
 
@@ -282,11 +457,21 @@ export function Workspace({ project }: WorkspaceProps) {
                   ),
                 )
               }
+              onUndo={undo}
+              onRedo={redo}
+              canUndo={canUndo}
+              canRedo={canRedo}
+              onExport={isRendering ? undefined : handleExport}
             />
           </div>
 
-          {/* Timeline */}
-          <div className="h-48 border-t bg-muted/20">
+          {/* Timeline - locked while a server edit replaces the manifest */}
+          <div
+            className={`h-48 border-t bg-muted/20 ${
+              isApplyingServerEdit ? 'opacity-60' : ''
+            }`}
+            inert={isApplyingServerEdit}
+          >
             <Timeline
               manifest={manifest}
               fps={project.fps}
@@ -297,28 +482,79 @@ export function Workspace({ project }: WorkspaceProps) {
               onManifestChange={handleManifestChange}
               isPlaying={isPlaying}
               onTogglePlay={() => setIsPlaying(!isPlaying)}
+              onUndo={undo}
+              onRedo={redo}
             />
           </div>
         </main>
 
-        {/* Right Panel - Assets */}
-        <aside
-          className={`border-l bg-muted/30 transition-all overflow-hidden ${
-            rightPanelCollapsed ? 'w-12 shrink-0' : 'flex-[0_1_280px] min-w-48'
-          }`}
-        >
-          <AssetPanel
-            projectId={project.id}
-            assets={project.assets}
-            manifest={manifest}
-            onManifestChange={handleManifestChange}
-            collapsed={rightPanelCollapsed}
-            onToggleCollapse={() =>
-              setRightPanelCollapsed(!rightPanelCollapsed)
-            }
-          />
-        </aside>
+        {/* Right Panel - Clip Inspector or Assets */}
+        {selectedClip ? (
+          <aside
+            className={`flex-[0_1_280px] min-w-48 border-l bg-muted/30 overflow-hidden ${
+              isApplyingServerEdit ? 'opacity-60' : ''
+            }`}
+            inert={isApplyingServerEdit}
+          >
+            <ClipInspector
+              manifest={manifest}
+              fps={project.fps}
+              clipId={selectedClip.clip.id}
+              currentFrame={currentFrame}
+              fonts={project.brand?.fonts}
+              onManifestChange={handleManifestChange}
+              onDetectFocus={handleDetectFocus}
+              isDetectingFocus={isDetectingFocus}
+              onClose={() => setSelectedClipId(null)}
+            />
+          </aside>
+        ) : (
+          <aside
+            className={`border-l bg-muted/30 transition-all overflow-hidden ${
+              rightPanelCollapsed
+                ? 'w-12 shrink-0'
+                : 'flex-[0_1_280px] min-w-48'
+            }`}
+          >
+            <AssetPanel
+              projectId={project.id}
+              assets={project.assets}
+              manifest={manifest}
+              onManifestChange={handleManifestChange}
+              collapsed={rightPanelCollapsed}
+              onToggleCollapse={() =>
+                setRightPanelCollapsed(!rightPanelCollapsed)
+              }
+            />
+          </aside>
+        )}
       </div>
+
+      <RevisionHistoryDialog
+        projectId={project.id}
+        width={project.width}
+        height={project.height}
+        fps={project.fps}
+        brand={project.brand ?? undefined}
+        open={historyOpen}
+        onOpenChange={setHistoryOpen}
+        onRestore={restoreRevision}
+      />
+
+      <BrandKitDialog
+        projectId={project.id}
+        brandKitId={project.brandKitId}
+        assets={project.assets}
+        open={brandKitOpen}
+        onOpenChange={setBrandKitOpen}
+      />
+
+      <SaveTemplateDialog
+        projectId={project.id}
+        projectName={project.name}
+        open={templateOpen}
+        onOpenChange={setTemplateOpen}
+      />
     </div>
   )
 }
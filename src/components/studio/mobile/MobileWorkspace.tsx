@@ -5,15 +5,32 @@
  * Uses bottom navigation tabs and sheets for panels.
  */
 
-import { useCallback, useEffect, useRef, useState } from 'react'
+import { useCallback, useEffect, useState } from 'react'
 import { useQuery, useQueryClient } from '@tanstack/react-query'
-import { ArrowLeft, Download, MoreVertical } from 'lucide-react'
+import {
+  ArrowLeft,
+  Download,
+  HistoryIcon,
+  LayoutTemplate,
+  MoreVertical,
+  Palette,
+  Redo2,
+  Undo2,
+} from 'lucide-react'
 import { Link } from '@tanstack/react-router'
+import { toast } from 'sonner'
 import { MobileNavTabs, type MobileTab } from './MobileNavTabs'
 import { ChatPanel } from '../ChatPanel'
 import { VideoPreview } from '../VideoPreview'
 import { Timeline } from '../Timeline'
 import { AssetPanel } from '../AssetPanel'
+import { ClipInspector } from '../ClipInspector'
+import { CaptionsMenu } from '../CaptionsMenu'
+import { ReframeMenu } from '../ReframeMenu'
+import { RevisionHistoryDialog } from '../RevisionHistoryDialog'
+import { BrandKitDialog } from '../BrandKitDialog'
+import { SaveTemplateDialog } from '../SaveTemplateDialog'
+import { SaveStatusIndicator } from '../SaveStatusIndicator'
 import { Button } from '../../ui/button'
 import {
   DropdownMenu,
@@ -21,7 +38,9 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from '../../ui/dropdown-menu'
-import type { ProjectManifest } from '../../../remotion/types'
+import { useManifestAutosave } from '../../../hooks'
+import { findClip } from '../../../remotion/timeline-edits'
+import type { BrandStyle, ProjectManifest } from '../../../remotion/types'
 
 // Project type matching desktop Workspace
 interface Project {
@@ -35,6 +54,8 @@ interface Project {
   outputUrl: string | null
   thumbnailUrl: string | null
   manifest: ProjectManifest
+  brandKitId: string | null
+  brand: BrandStyle | null
   assets: Array<{
     id: string
     type: string
@@ -45,6 +66,9 @@ interface Project {
     durationSeconds: number | null
     createdAt: Date
   }>
+  manifestVersion: number
+  /** Set when the stored manifest was invalid and a fallback was loaded */
+  manifestError: string | null
   createdAt: Date
   updatedAt: Date
 }
@@ -63,17 +87,51 @@ export function MobileWorkspace({ project }: MobileWorkspaceProps) {
   // Active tab
   const [activeTab, setActiveTab] = useState<MobileTab>('preview')
 
-  // Local state for the manifest
-  const [manifest, setManifest] = useState<ProjectManifest>(project.manifest)
-  const [manifestVersion, setManifestVersion] = useState(0)
-  const lastManifestUpdate = useRef<Date>(project.updatedAt)
+  // Local manifest with debounced autosave
+  const {
+    manifest,
+    manifestVersion,
+    saveStatus,
+    saveError,
+    updateManifest: handleManifestChange,
+    refreshManifest,
+    resolveConflict,
+    retrySave,
+    undo,
+    redo,
+    restoreRevision,
+    applyServerEdit,
+    isApplyingServerEdit,
+    canUndo,
+    canRedo,
+  } = useManifestAutosave({
+    projectId: project.id,
+    initialManifest: project.manifest,
+    initialManifestVersion: project.manifestVersion,
+  })
+
+  useEffect(() => {
+    if (project.manifestError) {
+      toast.error(project.manifestError)
+    }
+  }, [project.manifestError])
 
   // Player state
   const [currentFrame, setCurrentFrame] = useState(0)
   const [isPlaying, setIsPlaying] = useState(false)
 
+  // Version history dialog
+  const [historyOpen, setHistoryOpen] = useState(false)
+  const [brandKitOpen, setBrandKitOpen] = useState(false)
+  const [templateOpen, setTemplateOpen] = useState(false)
+  const [isCaptioning, setIsCaptioning] = useState(false)
+  const [isDetectingFocus, setIsDetectingFocus] = useState(false)
+
   // Selection state
   const [selectedClipId, setSelectedClipId] = useState<string | null>(null)
+  const selectedClip = selectedClipId
+    ? findClip(manifest, selectedClipId)
+    : null
 
   // Active jobs tracking
   const [activeJobs, setActiveJobs] = useState<
@@ -85,11 +143,11 @@ export function MobileWorkspace({ project }: MobileWorkspaceProps) {
   // =============================================================================
 
   const { data: jobsData } = useQuery({
-    queryKey: ['jobs', project.id, 'processing'],
+    queryKey: ['jobs', project.id, 'active'],
     queryFn: async () => {
       const { listJobsFn } = await import('../../../server/generation.server')
       return listJobsFn({
-        data: { projectId: project.id, status: 'processing', limit: 10 },
+        data: { projectId: project.id, active: true, limit: 10 },
       })
     },
     refetchInterval: JOB_POLL_INTERVAL,
@@ -127,9 +185,7 @@ export function MobileWorkspace({ project }: MobileWorkspaceProps) {
     }
 
     jobsData.forEach((job) => {
-      if (job.status === 'processing') {
-        pollJob(job.id)
-      }
+      pollJob(job.id)
     })
   }, [jobsData, project.id, queryClient])
 
@@ -137,22 +193,6 @@ export function MobileWorkspace({ project }: MobileWorkspaceProps) {
   // Manifest Polling
   // =============================================================================
 
-  const refreshManifest = useCallback(async () => {
-    try {
-      const { getManifestFn } = await import('../../../server/project.server')
-      const result = await getManifestFn({ data: { projectId: project.id } })
-
-      const updatedAt = new Date(result.updatedAt)
-      if (updatedAt > lastManifestUpdate.current) {
-        lastManifestUpdate.current = updatedAt
-        setManifest(result.manifest)
-        setManifestVersion((v) => v + 1)
-      }
-    } catch (error) {
-      console.error('Failed to refresh manifest:', error)
-    }
-  }, [project.id])
-
   useEffect(() => {
     if (activeJobs.length === 0) return
     const interval = setInterval(refreshManifest, MANIFEST_POLL_INTERVAL)
@@ -163,16 +203,53 @@ export function MobileWorkspace({ project }: MobileWorkspaceProps) {
   // Handlers
   // =============================================================================
 
-  const handleManifestChange = useCallback((newManifest: ProjectManifest) => {
-    setManifest(newManifest)
-    setManifestVersion((v) => v + 1)
-    lastManifestUpdate.current = new Date()
-  }, [])
-
   const handleSeek = useCallback((frame: number) => {
     setCurrentFrame(frame)
   }, [])
 
+  // Transcribe voiceover/video clips and add caption overlays
+  const handleGenerateCaptions = useCallback(async () => {
+    setIsCaptioning(true)
+    try {
+      const captioned = await applyServerEdit('generate captions', async () => {
+        const { generateCaptionsFn } =
+          await import('../../../server/caption.server')
+        return generateCaptionsFn({ data: { projectId: project.id } })
+      })
+      if (captioned) {
+        toast.success('Captions added')
+      } else {
+        toast.error('Failed to generate captions')
+      }
+    } finally {
+      setIsCaptioning(false)
+    }
+  }, [applyServerEdit, project.id])
+
+  // Track the subject of a clip so cover-fit crops keep it in frame
+  const handleDetectFocus = useCallback(
+    async (clipId: string) => {
+      setIsDetectingFocus(true)
+      try {
+        const tracked = await applyServerEdit('smart crop', async () => {
+          const { detectClipFocusFn } =
+            await import('../../../server/focus.server')
+          return detectClipFocusFn({
+            data: { projectId: project.id, clipIds: [clipId] },
+          })
+        })
+        if (tracked) {
+          toast.success('Smart crop applied')
+        } else {
+          toast.error('Failed to detect the subject')
+        }
+      } finally {
+        setIsDetectingFocus(false)
+      }
+    },
+    [applyServerEdit, project.id],
+  )
+
   // =============================================================================
   // Render
   // =============================================================================
@@ -189,9 +266,17 @@ export function MobileWorkspace({ project }: MobileWorkspaceProps) {
           </Link>
           <div className="min-w-0">
             <h1 className="truncate text-sm font-semibold">{project.name}</h1>
-            <p className="text-[10px] text-muted-foreground">
-              {project.width}x{project.height}
-            </p>
+            <div className="flex items-center gap-2">
+              <p className="text-[10px] text-muted-foreground">
+                {project.width}x{project.height}
+              </p>
+              <SaveStatusIndicator
+                status={saveStatus}
+                error={saveError}
+                onResolveConflict={resolveConflict}
+                onRetry={retrySave}
+              />
+            </div>
           </div>
         </div>
 
@@ -208,6 +293,21 @@ export function MobileWorkspace({ project }: MobileWorkspaceProps) {
             <Download className="h-4 w-4" />
           </Button>
 
+          <CaptionsMenu
+            projectName={project.name}
+            manifest={manifest}
+            fps={project.fps}
+            onManifestChange={handleManifestChange}
+            onGenerateCaptions={handleGenerateCaptions}
+            isCaptioning={isCaptioning}
+            compact
+          />
+          <ReframeMenu
+            projectId={project.id}
+            width={project.width}
+            height={project.height}
+            compact
+          />
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <Button variant="ghost" size="icon" className="h-8 w-8">
@@ -215,6 +315,26 @@ export function MobileWorkspace({ project }: MobileWorkspaceProps) {
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end">
+              <DropdownMenuItem disabled={!canUndo} onClick={undo}>
+                <Undo2 className="mr-2 h-4 w-4" />
+                Undo
+              </DropdownMenuItem>
+              <DropdownMenuItem disabled={!canRedo} onClick={redo}>
+                <Redo2 className="mr-2 h-4 w-4" />
+                Redo
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setHistoryOpen(true)}>
+                <HistoryIcon className="mr-2 h-4 w-4" />
+                Version History
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setBrandKitOpen(true)}>
+                <Palette className="mr-2 h-4 w-4" />
+                Brand Kit
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setTemplateOpen(true)}>
+                <LayoutTemplate className="mr-2 h-4 w-4" />
+                Save as Template
+              </DropdownMenuItem>
               <DropdownMenuItem>Project Settings</DropdownMenuItem>
               <DropdownMenuItem>Duplicate</DropdownMenuItem>
               <DropdownMenuItem className="text-destructive">
@@ -233,6 +353,7 @@ export function MobileWorkspace({ project }: MobileWorkspaceProps) {
               <VideoPreview
                 key={manifestVersion}
                 manifest={manifest}
+                brand={project.brand ?? undefined}
                 width={project.width}
                 height={project.height}
                 fps={project.fps}
@@ -240,6 +361,9 @@ export function MobileWorkspace({ project }: MobileWorkspaceProps) {
                 isPlaying={isPlaying}
                 onFrameChange={setCurrentFrame}
                 onPlayingChange={setIsPlaying}
+                selectedClipId={selectedClipId}
+                onSelectClip={setSelectedClipId}
+                onManifestChange={handleManifestChange}
               />
             </div>
             {/* Mini timeline for quick scrubbing */}
@@ -264,6 +388,7 @@ export function MobileWorkspace({ project }: MobileWorkspaceProps) {
               projectId={project.id}
               manifest={manifest}
               onManifestChange={handleManifestChange}
+              onTimelineUpdated={refreshManifest}
               collapsed={false}
               onToggleCollapse={() => {}}
               mode="fullscreen"
@@ -285,17 +410,42 @@ export function MobileWorkspace({ project }: MobileWorkspaceProps) {
           </div>
         )}
 
+        {/* Locked while a server edit replaces the manifest */}
         {activeTab === 'timeline' && (
-          <div className="h-full">
-            <Timeline
-              manifest={manifest}
-              fps={project.fps}
-              currentFrame={currentFrame}
-              selectedClipId={selectedClipId}
-              onSeek={handleSeek}
-              onSelectClip={setSelectedClipId}
-              onManifestChange={handleManifestChange}
-            />
+          <div
+            className={`flex h-full flex-col ${
+              isApplyingServerEdit ? 'opacity-60' : ''
+            }`}
+            inert={isApplyingServerEdit}
+          >
+            <div className={selectedClip ? 'h-1/2 shrink-0' : 'h-full'}>
+              <Timeline
+                manifest={manifest}
+                fps={project.fps}
+                currentFrame={currentFrame}
+                selectedClipId={selectedClipId}
+                onSeek={handleSeek}
+                onSelectClip={setSelectedClipId}
+                onManifestChange={handleManifestChange}
+                onUndo={undo}
+                onRedo={redo}
+              />
+            </div>
+            {selectedClip && (
+              <div className="min-h-0 flex-1 border-t">
+                <ClipInspector
+                  manifest={manifest}
+                  fps={project.fps}
+                  clipId={selectedClip.clip.id}
+                  currentFrame={currentFrame}
+                  fonts={project.brand?.fonts}
+                  onManifestChange={handleManifestChange}
+                  onDetectFocus={handleDetectFocus}
+                  isDetectingFocus={isDetectingFocus}
+                  onClose={() => setSelectedClipId(null)}
+                />
+              </div>
+            )}
           </div>
         )}
       </main>
@@ -306,6 +456,32 @@ export function MobileWorkspace({ project }: MobileWorkspaceProps) {
         onTabChange={setActiveTab}
         hasActiveJobs={activeJobs.length > 0}
       />
+
+      <RevisionHistoryDialog
+        projectId={project.id}
+        width={project.width}
+        height={project.height}
+        fps={project.fps}
+        brand={project.brand ?? undefined}
+        open={historyOpen}
+        onOpenChange={setHistoryOpen}
+        onRestore={restoreRevision}
+      />
+
+      <BrandKitDialog
+        projectId={project.id}
+        brandKitId={project.brandKitId}
+        assets={project.assets}
+        open={brandKitOpen}
+        onOpenChange={setBrandKitOpen}
+      />
+
+      <SaveTemplateDialog
+        projectId={project.id}
+        projectName={project.name}
+        open={templateOpen}
+        onOpenChange={setTemplateOpen}
+      />
     </div>
   )
 }
@@ -47,6 +47,21 @@ export type ProjectFolder = Prisma.ProjectFolderModel
  * 
  */
 export type Project = Prisma.ProjectModel
+/**
+ * Model BrandKit
+ * 
+ */
+export type BrandKit = Prisma.BrandKitModel
+/**
+ * Model ProjectTemplate
+ * 
+ */
+export type ProjectTemplate = Prisma.ProjectTemplateModel
+/**
+ * Model ProjectRevision
+ * 
+ */
+export type ProjectRevision = Prisma.ProjectRevisionModel
 /**
  * Model Asset
  * 
@@ -20,7 +20,7 @@ const config: runtime.GetPrismaClientConfig = {
   "clientVersion": "7.2.0",
   "engineVersion": "0c8ef2ce45c83248ab3df073180d5eda9e8be7a3",
   "activeProvider": "sqlite",
-  "inlineSchema": "// schema.prisma\n\ngenerator client {\n  provider = \"prisma-client\"\n  output   = \"../src/generated/prisma\"\n}\n\ndatasource db {\n  provider = \"sqlite\"\n}\n\nmodel User {\n  id            String  @id @default(cuid())\n  email         String  @unique\n  name          String?\n  image         String?\n  emailVerified Boolean @default(false)\n\n  // RBAC\n  role String @default(\"user\") // \"admin\", \"user\"\n\n  // Auth\n  accounts Account[]\n  sessions Session[]\n\n  // Billing\n  stripeCustomerId      String?\n  subscriptionStatus    String? // \"active\", \"canceled\", \"past_due\", \"none\"\n  subscriptionTier      String? // \"free\", \"starter\", \"pro\"\n  subscriptionPeriodEnd DateTime? // When the current billing period ends\n  cancelAtPeriodEnd     Boolean   @default(false) // Whether subscription is set to cancel at period end\n\n  // Subscription audit log\n  subscriptionEvents SubscriptionEvent[]\n\n  // Onboarding (optional - for multi-step onboarding flows)\n  onboardingComplete Boolean @default(false)\n\n  // Platform Access (one-time $149 payment for lifetime access)\n  hasPlatformAccess       Boolean   @default(false) // Set true after $149 one-time payment\n  platformPurchaseDate    DateTime? // When they purchased platform access\n  platformStripePaymentId String? // Stripe payment_intent ID for reference\n\n  // User's fal.ai API key (encrypted with AES-256-GCM) - BYOK\n  falApiKey         String? // Encrypted API key\n  falApiKeyLastFour String? // Last 4 chars for display (e.g., \"...xxxx\")\n  falApiKeyAddedAt  DateTime? // When the key was added/updated\n\n  // User's Bunny.net storage config (encrypted API key) - BYOK Storage\n  bunnyStorageZone    String? // Storage zone name (e.g., \"my-zone\")\n  bunnyApiKey         String? // Encrypted API key (AES-256-GCM)\n  bunnyApiKeyLastFour String? // Last 4 chars for display (e.g., \"...xxxx\")\n  bunnyCdnUrl         String? // CDN pull zone URL (e.g., \"https://my-zone.b-cdn.net\")\n  bunnyStorageAddedAt DateTime? // When the storage config was added/updated\n\n  // Cinevido: User preferences\n  preferredLlmModel   String? // e.g., \"anthropic/claude-3.5-sonnet\"\n  preferredImageModel String? // e.g., \"flux-pro\"\n  preferredVideoModel String? // e.g., \"kling-1.5\"\n  preferredVoiceId    String? // ElevenLabs voice ID\n\n  // Cinevido: Relations\n  projects       Project[]\n  projectFolders ProjectFolder[]\n  assets         Asset[]\n  generationJobs GenerationJob[]\n  model3DAssets  Model3DAsset[]\n\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  @@map(\"user\")\n}\n\nmodel Session {\n  id        String   @id\n  userId    String\n  expiresAt DateTime\n  token     String   @unique\n  ipAddress String?\n  userAgent String?\n\n  user User @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  @@map(\"session\")\n}\n\nmodel Account {\n  id                    String    @id @default(cuid())\n  userId                String\n  accountId             String\n  providerId            String\n  accessToken           String?\n  refreshToken          String?\n  accessTokenExpiresAt  DateTime?\n  refreshTokenExpiresAt DateTime?\n  scope                 String?\n  password              String?\n\n  user User @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  @@map(\"account\")\n}\n\n// For Magic Links / Email Verification\nmodel Verification {\n  id         String   @id @default(cuid())\n  identifier String\n  value      String\n  expiresAt  DateTime\n  createdAt  DateTime @default(now())\n  updatedAt  DateTime @updatedAt\n\n  @@map(\"verification\")\n}\n\n// ====================================================================================\n// Cinevido: Project Folders (for organizing projects)\n// ====================================================================================\n\nmodel ProjectFolder {\n  id       String    @id @default(cuid())\n  name     String\n  color    String? // Optional color for visual distinction (e.g., \"#3b82f6\")\n  userId   String\n  user     User      @relation(fields: [userId], references: [id], onDelete: Cascade)\n  projects Project[]\n\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  @@index([userId])\n  @@map(\"project_folder\")\n}\n\n// ====================================================================================\n// Cinevido: Video Projects\n// ====================================================================================\n\nmodel Project {\n  id     String @id @default(cuid())\n  name   String\n  userId String\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  // Optional folder for organization\n  folderId String?\n  folder   ProjectFolder? @relation(fields: [folderId], references: [id], onDelete: SetNull)\n\n  // The DNA of the video - stores the JSON timeline (ProjectManifest)\n  manifest String @default(\"{}\")\n\n  // Video dimensions and settings\n  width    Int @default(1080)\n  height   Int @default(1920)\n  fps      Int @default(30)\n  duration Int @default(0) // Total duration in frames\n\n  // Project status\n  status    String  @default(\"draft\") // \"draft\", \"rendering\", \"completed\", \"failed\"\n  outputUrl String? // Final rendered video URL (Bunny.net)\n\n  // Thumbnail for project list\n  thumbnailUrl String?\n\n  // Related assets and jobs\n  assets         Asset[]\n  generationJobs GenerationJob[]\n  chatMessages   ChatMessage[]\n\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  @@index([userId])\n  @@index([folderId])\n  @@index([status])\n  @@map(\"project\")\n}\n\n// ====================================================================================\n// Cinevido: Generated Assets (Images, Videos, Audio)\n// ====================================================================================\n\nmodel Asset {\n  id     String @id @default(cuid())\n  userId String\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  // Optional project association (assets can be standalone or project-specific)\n  projectId String?\n  project   Project? @relation(fields: [projectId], references: [id], onDelete: SetNull)\n\n  // Asset type and storage\n  type       String // \"image\", \"video\", \"audio\"\n  storageUrl String // Bunny.net CDN URL\n  filename   String // Original or generated filename\n\n  // Generation info\n  prompt   String? // The prompt used to generate this asset\n  provider String? // \"fal\", \"elevenlabs\", \"upload\"\n  model    String? // \"flux-pro\", \"kling-1.5\", \"eleven_multilingual_v2\"\n\n  // Metadata (JSON string for flexibility)\n  // For images: { width, height }\n  // For videos: { width, height, duration, fps }\n  // For audio: { duration, wordTimestamps: [{word, start, end}] }\n  metadata String?\n\n  // Duration in seconds (for video/audio)\n  durationSeconds Float?\n\n  createdAt DateTime @default(now())\n\n  @@index([userId])\n  @@index([projectId])\n  @@index([type])\n  @@map(\"asset\")\n}\n\n// ====================================================================================\n// Cinevido: Generation Job Queue (for async processing)\n// ====================================================================================\n\nmodel GenerationJob {\n  id     String @id @default(cuid())\n  userId String\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  // Optional project association\n  projectId String?\n  project   Project? @relation(fields: [projectId], references: [id], onDelete: SetNull)\n\n  // Job type and status\n  type   String // \"image\", \"video\", \"audio\", \"render\"\n  status String @default(\"pending\") // \"pending\", \"processing\", \"completed\", \"failed\"\n\n  // Provider info\n  provider String // \"fal\", \"elevenlabs\", \"remotion\"\n  model    String // \"flux-pro\", \"kling-1.5\", etc.\n\n  // Input parameters (JSON)\n  input String // { prompt, imageUrl, voiceId, etc. }\n\n  // Output data (JSON) - populated on completion\n  // { url, assetId, metadata, etc. }\n  output String?\n\n  // Error message if failed\n  error String?\n\n  // External provider job ID (for polling status)\n  externalId String?\n\n  // Fal.ai Queue URLs (returned when job is submitted)\n  // Using these directly instead of constructing them ensures compatibility with all models\n  statusUrl   String? // URL to poll for job status\n  responseUrl String? // URL to fetch result when completed\n  cancelUrl   String? // URL to cancel the job\n\n  // Progress percentage (0-100)\n  progress Int @default(0)\n\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  @@index([userId])\n  @@index([projectId])\n  @@index([status])\n  @@index([externalId])\n  @@map(\"generation_job\")\n}\n\n// ====================================================================================\n// Subscription Event Audit Log\n// ====================================================================================\n\nmodel SubscriptionEvent {\n  id     String @id @default(cuid())\n  userId String\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  // Event type: subscribed, upgraded, downgraded, canceled, reactivated, payment_failed, payment_succeeded\n  event String\n\n  // Tier changes (for upgrades/downgrades)\n  fromTier String? // \"free\", \"starter\", \"pro\"\n  toTier   String? // \"free\", \"starter\", \"pro\"\n\n  // Additional metadata (JSON string)\n  metadata String?\n\n  // Stripe-related IDs for reference\n  stripeEventId        String?\n  stripeSubscriptionId String?\n\n  createdAt DateTime @default(now())\n\n  @@index([userId])\n  @@index([event])\n  @@index([createdAt])\n  @@map(\"subscription_event\")\n}\n\n// ====================================================================================\n// Cinevido: Chat History (for AI Director conversations)\n// ====================================================================================\n\nmodel ChatMessage {\n  id        String  @id @default(cuid())\n  projectId String\n  project   Project @relation(fields: [projectId], references: [id], onDelete: Cascade)\n\n  // Message role: \"user\", \"assistant\", \"system\", \"tool\"\n  role    String\n  content String // Message text or tool result JSON\n\n  // For tool calls (when role is \"assistant\" with tool_calls)\n  toolCalls String? // JSON array of tool calls [{id, name, arguments}]\n\n  // For tool results (when role is \"tool\")\n  toolCallId String? // The ID of the tool call this result is for\n  toolName   String? // Name of the tool that was called\n\n  createdAt DateTime @default(now())\n\n  @@index([projectId])\n  @@index([createdAt])\n  @@map(\"chat_message\")\n}\n\n// ====================================================================================\n// Cinevido: 3D Model Assets\n// ====================================================================================\n\nmodel Model3DAsset {\n  id     String @id @default(cuid())\n  userId String\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  // Generation inputs\n  modelId         String // e.g., 'hunyuan3d-v3-text'\n  endpoint        String // e.g., 'fal-ai/hunyuan3d-v3/text-to-3d'\n  mode            String // 'text-to-3d' | 'image-to-3d' | 'image-to-world'\n  prompt          String?\n  sourceImageUrls String? // JSON array of Bunny CDN URLs\n  settings        String? // JSON - Model-specific settings used\n\n  // Generation outputs (stored on Bunny CDN after download from fal.ai)\n  modelGlbUrl      String?\n  thumbnailUrl     String?\n  modelUrls        String? // JSON - { glb?, obj?, fbx?, usdz?, stl?, blend? }\n  textureUrls      String? // JSON - For models with separate textures\n  worldFileUrl     String? // For Hunyuan World\n  gaussianSplatUrl String? // For SAM 3D Objects\n\n  // Job tracking (fal.ai queue)\n  status      String  @default(\"pending\") // pending, processing, completed, failed\n  requestId   String?\n  statusUrl   String?\n  responseUrl String?\n  cancelUrl   String?\n  error       String?\n  progress    Int? // 0-100 percentage if available\n\n  // Metadata\n  seed Int?\n\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  @@index([userId])\n  @@index([status])\n  @@index([createdAt])\n  @@map(\"model_3d_asset\")\n}\n",
+  "inlineSchema": "// schema.prisma\n\ngenerator client {\n  provider = \"prisma-client\"\n  output   = \"../src/generated/prisma\"\n}\n\ndatasource db {\n  provider = \"sqlite\"\n}\n\nmodel User {\n  id            String  @id @default(cuid())\n  email         String  @unique\n  name          String?\n  image         String?\n  emailVerified Boolean @default(false)\n\n  // RBAC\n  role String @default(\"user\") // \"admin\", \"user\"\n\n  // Auth\n  accounts Account[]\n  sessions Session[]\n\n  // Billing\n  stripeCustomerId      String?\n  subscriptionStatus    String? // \"active\", \"canceled\", \"past_due\", \"none\"\n  subscriptionTier      String? // \"free\", \"starter\", \"pro\"\n  subscriptionPeriodEnd DateTime? // When the current billing period ends\n  cancelAtPeriodEnd     Boolean   @default(false) // Whether subscription is set to cancel at period end\n\n  // Subscription audit log\n  subscriptionEvents SubscriptionEvent[]\n\n  // Onboarding (optional - for multi-step onboarding flows)\n  onboardingComplete Boolean @default(false)\n\n  // Platform Access (one-time $149 payment for lifetime access)\n  hasPlatformAccess       Boolean   @default(false) // Set true after $149 one-time payment\n  platformPurchaseDate    DateTime? // When they purchased platform access\n  platformStripePaymentId String? // Stripe payment_intent ID for reference\n\n  // User's fal.ai API key (encrypted with AES-256-GCM) - BYOK\n  falApiKey         String? // Encrypted API key\n  falApiKeyLastFour String? // Last 4 chars for display (e.g., \"...xxxx\")\n  falApiKeyAddedAt  DateTime? // When the key was added/updated\n\n  // User's Bunny.net storage config (encrypted API key) - BYOK Storage\n  bunnyStorageZone    String? // Storage zone name (e.g., \"my-zone\")\n  bunnyApiKey         String? // Encrypted API key (AES-256-GCM)\n  bunnyApiKeyLastFour String? // Last 4 chars for display (e.g., \"...xxxx\")\n  bunnyCdnUrl         String? // CDN pull zone URL (e.g., \"https://my-zone.b-cdn.net\")\n  bunnyStorageAddedAt DateTime? // When the storage config was added/updated\n\n  // Cinevido: User preferences\n  preferredLlmModel   String? // e.g., \"anthropic/claude-3.5-sonnet\"\n  preferredImageModel String? // e.g., \"flux-pro\"\n  preferredVideoModel String? // e.g., \"kling-1.5\"\n  preferredVoiceId    String? // ElevenLabs voice ID\n  confirmAgentSpend   Boolean @default(false) // AI Director asks before tool calls that spend credits\n\n  // Cinevido: Relations\n  projects       Project[]\n  projectFolders ProjectFolder[]\n  assets         Asset[]\n  generationJobs GenerationJob[]\n  model3DAssets  Model3DAsset[]\n  brandKits      BrandKit[]\n  templates      ProjectTemplate[]\n\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  @@map(\"user\")\n}\n\nmodel Session {\n  id        String   @id\n  userId    String\n  expiresAt DateTime\n  token     String   @unique\n  ipAddress String?\n  userAgent String?\n\n  user User @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  @@map(\"session\")\n}\n\nmodel Account {\n  id                    String    @id @default(cuid())\n  userId                String\n  accountId             String\n  providerId            String\n  accessToken           String?\n  refreshToken          String?\n  accessTokenExpiresAt  DateTime?\n  refreshTokenExpiresAt DateTime?\n  scope                 String?\n  password              String?\n\n  user User @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  @@map(\"account\")\n}\n\n// For Magic Links / Email Verification\nmodel Verification {\n  id         String   @id @default(cuid())\n  identifier String\n  value      String\n  expiresAt  DateTime\n  createdAt  DateTime @default(now())\n  updatedAt  DateTime @updatedAt\n\n  @@map(\"verification\")\n}\n\n// ====================================================================================\n// Cinevido: Project Folders (for organizing projects)\n// ====================================================================================\n\nmodel ProjectFolder {\n  id       String    @id @default(cuid())\n  name     String\n  color    String? // Optional color for visual distinction (e.g., \"#3b82f6\")\n  userId   String\n  user     User      @relation(fields: [userId], references: [id], onDelete: Cascade)\n  projects Project[]\n\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  @@index([userId])\n  @@map(\"project_folder\")\n}\n\n// ====================================================================================\n// Cinevido: Video Projects\n// ====================================================================================\n\nmodel Project {\n  id     String @id @default(cuid())\n  name   String\n  userId String\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  // Optional folder for organization\n  folderId String?\n  folder   ProjectFolder? @relation(fields: [folderId], references: [id], onDelete: SetNull)\n\n  // The DNA of the video - stores the JSON timeline (ProjectManifest)\n  manifest String @default(\"{}\")\n\n  // Bumped on every manifest write; editors save against it to detect\n  // concurrent edits (updatedAt also changes on renames, renders, etc.)\n  manifestVersion Int @default(0)\n\n  // Video dimensions and settings\n  width    Int @default(1080)\n  height   Int @default(1920)\n  fps      Int @default(30)\n  duration Int @default(0) // Total duration in frames\n\n  // Project status\n  status    String  @default(\"draft\") // \"draft\", \"rendering\", \"completed\", \"failed\"\n  outputUrl String? // Final rendered video URL (Bunny.net)\n\n  // Thumbnail for project list\n  thumbnailUrl String?\n\n  // Revision the current manifest corresponds to (position in undo/redo history)\n  headRevisionId String?\n\n  // Brand kit applied to overlays and the watermark by default\n  brandKitId String?\n  brandKit   BrandKit? @relation(fields: [brandKitId], references: [id], onDelete: SetNull)\n\n  // Template the project was created from; its slots can still be filled\n  templateId String?\n  template   ProjectTemplate? @relation(fields: [templateId], references: [id], onDelete: SetNull)\n\n  // Related assets and jobs\n  assets         Asset[]\n  generationJobs GenerationJob[]\n  chatMessages   ChatMessage[]\n  revisions      ProjectRevision[]\n\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  @@index([userId])\n  @@index([folderId])\n  @@index([status])\n  @@index([brandKitId])\n  @@index([templateId])\n  @@map(\"project\")\n}\n\n// ====================================================================================\n// Cinevido: Brand Kits (colours, fonts, logo, default overlay styling)\n// ====================================================================================\n\nmodel BrandKit {\n  id     String @id @default(cuid())\n  userId String\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  name String\n\n  // JSON - { primary, secondary, accent, text, background } hex colours\n  colors String @default(\"{}\")\n\n  // JSON - uploaded fonts: [{ family, url }]\n  fonts       String  @default(\"[]\")\n  headingFont String? // Font family for titles\n  bodyFont    String? // Font family for body text and captions\n\n  // Logo (an image asset) shown as a watermark\n  logoAssetId       String?\n  logoUrl           String?\n  watermarkPosition String? // \"top-left\" | \"top-right\" | \"bottom-left\" | \"bottom-right\"\n  watermarkOpacity  Float?\n\n  // JSON - default props for LowerThird and BigTitle overlays\n  lowerThird String?\n  bigTitle   String?\n\n  projects Project[]\n\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  @@index([userId])\n  @@map(\"brand_kit\")\n}\n\n// ====================================================================================\n// Cinevido: Project Templates (reusable manifests with placeholder slots)\n// ====================================================================================\n\nmodel ProjectTemplate {\n  id     String @id @default(cuid())\n  userId String\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  name        String\n  description String?\n\n  // Default video settings for projects created from the template\n  width  Int @default(1080)\n  height Int @default(1920)\n  fps    Int @default(30)\n\n  // JSON ProjectManifest with the slots left empty\n  manifest String\n\n  // JSON - [{ id, label, kind: \"video\" | \"audio\" | \"text\", ... }] (see TemplateSlot)\n  slots String @default(\"[]\")\n\n  projects Project[]\n\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  @@index([userId])\n  @@map(\"project_template\")\n}\n\n// ====================================================================================\n// Cinevido: Manifest Revisions (undo/redo history, snapshots)\n// ====================================================================================\n\nmodel ProjectRevision {\n  id        String  @id @default(cuid())\n  projectId String\n  project   Project @relation(fields: [projectId], references: [id], onDelete: Cascade)\n\n  // Full manifest snapshot (JSON ProjectManifest)\n  manifest String\n\n  // Revision this one was edited from (null for the first revision)\n  // Undo moves to the parent, redo to the most recent child\n  parentId String?\n\n  // Who made the edit: \"user\" or \"agent\"\n  author     String  @default(\"user\")\n  toolCallId String? // Agent tool call that made the edit\n\n  // Optional snapshot name (e.g. \"Before AI recut\")\n  name String?\n\n  // Human-readable summary of what changed from the parent\n  // e.g. \"Added 1 video clip, removed 2 overlays\"\n  diffSummary String?\n\n  createdAt DateTime @default(now())\n\n  @@index([projectId])\n  @@index([parentId])\n  @@map(\"project_revision\")\n}\n\n// ====================================================================================\n// Cinevido: Generated Assets (Images, Videos, Audio)\n// ====================================================================================\n\nmodel Asset {\n  id     String @id @default(cuid())\n  userId String\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  // Optional project association (assets can be standalone or project-specific)\n  projectId String?\n  project   Project? @relation(fields: [projectId], references: [id], onDelete: SetNull)\n\n  // Asset type and storage\n  type       String // \"image\", \"video\", \"audio\"\n  storageUrl String // Bunny.net CDN URL\n  filename   String // Original or generated filename\n\n  // Generation info\n  prompt   String? // The prompt used to generate this asset\n  provider String? // \"fal\", \"elevenlabs\", \"upload\"\n  model    String? // \"flux-pro\", \"kling-1.5\", \"eleven_multilingual_v2\"\n\n  // Metadata (JSON string for flexibility)\n  // For images: { width, height }\n  // For videos: { width, height, duration, fps }\n  // For audio: { duration, wordTimestamps: [{word, start, end}] }\n  metadata String?\n\n  // Duration in seconds (for video/audio)\n  durationSeconds Float?\n\n  createdAt DateTime @default(now())\n\n  @@index([userId])\n  @@index([projectId])\n  @@index([type])\n  @@map(\"asset\")\n}\n\n// ====================================================================================\n// Cinevido: Generation Job Queue (for async processing)\n// ====================================================================================\n\nmodel GenerationJob {\n  id     String @id @default(cuid())\n  userId String\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  // Optional project association\n  projectId String?\n  project   Project? @relation(fields: [projectId], references: [id], onDelete: SetNull)\n\n  // Job type and status\n  type   String // \"image\", \"video\", \"audio\", \"render\"\n  status String @default(\"pending\") // \"pending\", \"processing\", \"completed\", \"failed\"\n\n  // Provider info\n  provider String // \"fal\", \"elevenlabs\", \"remotion\"\n  model    String // \"flux-pro\", \"kling-1.5\", etc.\n\n  // Input parameters (JSON)\n  input String // { prompt, imageUrl, voiceId, etc. }\n\n  // Output data (JSON) - populated on completion\n  // { url, assetId, metadata, etc. }\n  output String?\n\n  // Error message if failed\n  error String?\n\n  // External provider job ID (for polling status)\n  externalId String?\n\n  // Fal.ai Queue URLs (returned when job is submitted)\n  // Using these directly instead of constructing them ensures compatibility with all models\n  statusUrl   String? // URL to poll for job status\n  responseUrl String? // URL to fetch result when completed\n  cancelUrl   String? // URL to cancel the job\n\n  // Progress percentage (0-100)\n  progress Int @default(0)\n\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  @@index([userId])\n  @@index([projectId])\n  @@index([status])\n  @@index([externalId])\n  @@map(\"generation_job\")\n}\n\n// ====================================================================================\n// Subscription Event Audit Log\n// ====================================================================================\n\nmodel SubscriptionEvent {\n  id     String @id @default(cuid())\n  userId String\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  // Event type: subscribed, upgraded, downgraded, canceled, reactivated, payment_failed, payment_succeeded\n  event String\n\n  // Tier changes (for upgrades/downgrades)\n  fromTier String? // \"free\", \"starter\", \"pro\"\n  toTier   String? // \"free\", \"starter\", \"pro\"\n\n  // Additional metadata (JSON string)\n  metadata String?\n\n  // Stripe-related IDs for reference\n  stripeEventId        String?\n  stripeSubscriptionId String?\n\n  createdAt DateTime @default(now())\n\n  @@index([userId])\n  @@index([event])\n  @@index([createdAt])\n  @@map(\"subscription_event\")\n}\n\n// ====================================================================================\n// Cinevido: Chat History (for AI Director conversations)\n// ====================================================================================\n\nmodel ChatMessage {\n  id        String  @id @default(cuid())\n  projectId String\n  project   Project @relation(fields: [projectId], references: [id], onDelete: Cascade)\n\n  // Message role: \"user\", \"assistant\", \"system\", \"tool\"\n  role    String\n  content String // Message text or tool result JSON\n\n  // For tool calls (when role is \"assistant\" with tool_calls)\n  toolCalls String? // JSON array of tool calls [{id, name, arguments}]\n\n  // For tool results (when role is \"tool\")\n  toolCallId String? // The ID of the tool call this result is for\n  toolName   String? // Name of the tool that was called\n\n  // Tool calls waiting for the user to approve them (confirm-before-spend)\n  // JSON: { status: \"pending\" | \"approved\" | \"rejected\", calls, totalCost }\n  approval String?\n\n  createdAt DateTime @default(now())\n\n  @@index([projectId])\n  @@index([createdAt])\n  @@map(\"chat_message\")\n}\n\n// ====================================================================================\n// Cinevido: 3D Model Assets\n// ====================================================================================\n\nmodel Model3DAsset {\n  id     String @id @default(cuid())\n  userId String\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  // Generation inputs\n  modelId         String // e.g., 'hunyuan3d-v3-text'\n  endpoint        String // e.g., 'fal-ai/hunyuan3d-v3/text-to-3d'\n  mode            String // 'text-to-3d' | 'image-to-3d' | 'image-to-world'\n  prompt          String?\n  sourceImageUrls String? // JSON array of Bunny CDN URLs\n  settings        String? // JSON - Model-specific settings used\n\n  // Generation outputs (stored on Bunny CDN after download from fal.ai)\n  modelGlbUrl      String?\n  thumbnailUrl     String?\n  modelUrls        String? // JSON - { glb?, obj?, fbx?, usdz?, stl?, blend? }\n  textureUrls      String? // JSON - For models with separate textures\n  worldFileUrl     String? // For Hunyuan World\n  gaussianSplatUrl String? // For SAM 3D Objects\n\n  // Job tracking (fal.ai queue)\n  status      String  @default(\"pending\") // pending, processing, completed, failed\n  requestId   String?\n  statusUrl   String?\n  responseUrl String?\n  cancelUrl   String?\n  error       String?\n  progress    Int? // 0-100 percentage if available\n\n  // Metadata\n  seed Int?\n\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  @@index([userId])\n  @@index([status])\n  @@index([createdAt])\n  @@map(\"model_3d_asset\")\n}\n",
   "runtimeDataModel": {
     "models": {},
     "enums": {},
@@ -28,7 +28,7 @@ const config: runtime.GetPrismaClientConfig = {
   }
 }
 
-config.runtimeDataModel = JSON.parse("{\"models\":{\"User\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"image\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"emailVerified\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"role\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"accounts\",\"kind\":\"object\",\"type\":\"Account\",\"relationName\":\"AccountToUser\"},{\"name\":\"sessions\",\"kind\":\"object\",\"type\":\"Session\",\"relationName\":\"SessionToUser\"},{\"name\":\"stripeCustomerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"subscriptionStatus\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"subscriptionTier\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"subscriptionPeriodEnd\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"cancelAtPeriodEnd\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"subscriptionEvents\",\"kind\":\"object\",\"type\":\"SubscriptionEvent\",\"relationName\":\"SubscriptionEventToUser\"},{\"name\":\"onboardingComplete\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"hasPlatformAccess\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"platformPurchaseDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"platformStripePaymentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"falApiKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"falApiKeyLastFour\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"falApiKeyAddedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"bunnyStorageZone\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"bunnyApiKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"bunnyApiKeyLastFour\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"bunnyCdnUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"bunnyStorageAddedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"preferredLlmModel\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"preferredImageModel\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"preferredVideoModel\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"preferredVoiceId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"projects\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"ProjectToUser\"},{\"name\":\"projectFolders\",\"kind\":\"object\",\"type\":\"ProjectFolder\",\"relationName\":\"ProjectFolderToUser\"},{\"name\":\"assets\",\"kind\":\"object\",\"type\":\"Asset\",\"relationName\":\"AssetToUser\"},{\"name\":\"generationJobs\",\"kind\":\"object\",\"type\":\"GenerationJob\",\"relationName\":\"GenerationJobToUser\"},{\"name\":\"model3DAssets\",\"kind\":\"object\",\"type\":\"Model3DAsset\",\"relationName\":\"Model3DAssetToUser\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"user\"},\"Session\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"token\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ipAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userAgent\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SessionToUser\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"session\"},\"Account\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"accountId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"providerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"accessToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"refreshToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"accessTokenExpiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"refreshTokenExpiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"scope\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"password\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"AccountToUser\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"account\"},\"Verification\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"identifier\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"value\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"verification\"},\"ProjectFolder\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"color\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ProjectFolderToUser\"},{\"name\":\"projects\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"ProjectToProjectFolder\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"project_folder\"},\"Project\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ProjectToUser\"},{\"name\":\"folderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"folder\",\"kind\":\"object\",\"type\":\"ProjectFolder\",\"relationName\":\"ProjectToProjectFolder\"},{\"name\":\"manifest\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"width\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"height\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"fps\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"duration\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"outputUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"thumbnailUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"assets\",\"kind\":\"object\",\"type\":\"Asset\",\"relationName\":\"AssetToProject\"},{\"name\":\"generationJobs\",\"kind\":\"object\",\"type\":\"GenerationJob\",\"relationName\":\"GenerationJobToProject\"},{\"name\":\"chatMessages\",\"kind\":\"object\",\"type\":\"ChatMessage\",\"relationName\":\"ChatMessageToProject\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"project\"},\"Asset\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"AssetToUser\"},{\"name\":\"projectId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"project\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"AssetToProject\"},{\"name\":\"type\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"storageUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"filename\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"prompt\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"provider\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"model\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"durationSeconds\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"asset\"},\"GenerationJob\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"GenerationJobToUser\"},{\"name\":\"projectId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"project\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"GenerationJobToProject\"},{\"name\":\"type\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"provider\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"model\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"input\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"output\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"error\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"externalId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"statusUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"responseUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"cancelUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"progress\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"generation_job\"},\"SubscriptionEvent\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SubscriptionEventToUser\"},{\"name\":\"event\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"fromTier\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"toTier\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"stripeEventId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"stripeSubscriptionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"subscription_event\"},\"ChatMessage\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"projectId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"project\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"ChatMessageToProject\"},{\"name\":\"role\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"content\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"toolCalls\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"toolCallId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"toolName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"chat_message\"},\"Model3DAsset\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"Model3DAssetToUser\"},{\"name\":\"modelId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"endpoint\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"mode\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"prompt\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sourceImageUrls\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"settings\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"modelGlbUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"thumbnailUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"modelUrls\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"textureUrls\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"worldFileUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"gaussianSplatUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"requestId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"statusUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"responseUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"cancelUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"error\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"progress\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"seed\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"model_3d_asset\"}},\"enums\":{},\"types\":{}}")
+config.runtimeDataModel = JSON.parse("{\"models\":{\"User\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"image\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"emailVerified\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"role\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"accounts\",\"kind\":\"object\",\"type\":\"Account\",\"relationName\":\"AccountToUser\"},{\"name\":\"sessions\",\"kind\":\"object\",\"type\":\"Session\",\"relationName\":\"SessionToUser\"},{\"name\":\"stripeCustomerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"subscriptionStatus\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"subscriptionTier\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"subscriptionPeriodEnd\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"cancelAtPeriodEnd\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"subscriptionEvents\",\"kind\":\"object\",\"type\":\"SubscriptionEvent\",\"relationName\":\"SubscriptionEventToUser\"},{\"name\":\"onboardingComplete\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"hasPlatformAccess\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"platformPurchaseDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"platformStripePaymentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"falApiKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"falApiKeyLastFour\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"falApiKeyAddedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"bunnyStorageZone\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"bunnyApiKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"bunnyApiKeyLastFour\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"bunnyCdnUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"bunnyStorageAddedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"preferredLlmModel\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"preferredImageModel\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"preferredVideoModel\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"preferredVoiceId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"confirmAgentSpend\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"projects\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"ProjectToUser\"},{\"name\":\"projectFolders\",\"kind\":\"object\",\"type\":\"ProjectFolder\",\"relationName\":\"ProjectFolderToUser\"},{\"name\":\"assets\",\"kind\":\"object\",\"type\":\"Asset\",\"relationName\":\"AssetToUser\"},{\"name\":\"generationJobs\",\"kind\":\"object\",\"type\":\"GenerationJob\",\"relationName\":\"GenerationJobToUser\"},{\"name\":\"model3DAssets\",\"kind\":\"object\",\"type\":\"Model3DAsset\",\"relationName\":\"Model3DAssetToUser\"},{\"name\":\"brandKits\",\"kind\":\"object\",\"type\":\"BrandKit\",\"relationName\":\"BrandKitToUser\"},{\"name\":\"templates\",\"kind\":\"object\",\"type\":\"ProjectTemplate\",\"relationName\":\"ProjectTemplateToUser\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"user\"},\"Session\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"token\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ipAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userAgent\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SessionToUser\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"session\"},\"Account\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"accountId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"providerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"accessToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"refreshToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"accessTokenExpiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"refreshTokenExpiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"scope\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"password\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"AccountToUser\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"account\"},\"Verification\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"identifier\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"value\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"verification\"},\"ProjectFolder\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"color\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ProjectFolderToUser\"},{\"name\":\"projects\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"ProjectToProjectFolder\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"project_folder\"},\"Project\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ProjectToUser\"},{\"name\":\"folderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"folder\",\"kind\":\"object\",\"type\":\"ProjectFolder\",\"relationName\":\"ProjectToProjectFolder\"},{\"name\":\"manifest\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"manifestVersion\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"width\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"height\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"fps\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"duration\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"outputUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"thumbnailUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"headRevisionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"brandKitId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"brandKit\",\"kind\":\"object\",\"type\":\"BrandKit\",\"relationName\":\"BrandKitToProject\"},{\"name\":\"templateId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"template\",\"kind\":\"object\",\"type\":\"ProjectTemplate\",\"relationName\":\"ProjectToProjectTemplate\"},{\"name\":\"assets\",\"kind\":\"object\",\"type\":\"Asset\",\"relationName\":\"AssetToProject\"},{\"name\":\"generationJobs\",\"kind\":\"object\",\"type\":\"GenerationJob\",\"relationName\":\"GenerationJobToProject\"},{\"name\":\"chatMessages\",\"kind\":\"object\",\"type\":\"ChatMessage\",\"relationName\":\"ChatMessageToProject\"},{\"name\":\"revisions\",\"kind\":\"object\",\"type\":\"ProjectRevision\",\"relationName\":\"ProjectToProjectRevision\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"project\"},\"BrandKit\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"BrandKitToUser\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"colors\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"fonts\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"headingFont\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"bodyFont\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"logoAssetId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"logoUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"watermarkPosition\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"watermarkOpacity\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"lowerThird\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"bigTitle\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"projects\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"BrandKitToProject\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"brand_kit\"},\"ProjectTemplate\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ProjectTemplateToUser\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"width\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"height\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"fps\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"manifest\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"slots\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"projects\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"ProjectToProjectTemplate\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"project_template\"},\"ProjectRevision\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"projectId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"project\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"ProjectToProjectRevision\"},{\"name\":\"manifest\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"parentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"author\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"toolCallId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"diffSummary\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"project_revision\"},\"Asset\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"AssetToUser\"},{\"name\":\"projectId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"project\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"AssetToProject\"},{\"name\":\"type\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"storageUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"filename\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"prompt\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"provider\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"model\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"durationSeconds\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"asset\"},\"GenerationJob\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"GenerationJobToUser\"},{\"name\":\"projectId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"project\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"GenerationJobToProject\"},{\"name\":\"type\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"provider\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"model\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"input\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"output\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"error\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"externalId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"statusUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"responseUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"cancelUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"progress\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"generation_job\"},\"SubscriptionEvent\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SubscriptionEventToUser\"},{\"name\":\"event\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"fromTier\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"toTier\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"stripeEventId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"stripeSubscriptionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"subscription_event\"},\"ChatMessage\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"projectId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"project\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"ChatMessageToProject\"},{\"name\":\"role\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"content\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"toolCalls\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"toolCallId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"toolName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"approval\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"chat_message\"},\"Model3DAsset\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"Model3DAssetToUser\"},{\"name\":\"modelId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"endpoint\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"mode\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"prompt\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sourceImageUrls\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"settings\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"modelGlbUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"thumbnailUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"modelUrls\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"textureUrls\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"worldFileUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"gaussianSplatUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"requestId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"statusUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"responseUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"cancelUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"error\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"progress\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"seed\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"model_3d_asset\"}},\"enums\":{},\"types\":{}}")
 
 async function decodeBase64AsWasm(wasmBase64: string): Promise<WebAssembly.Module> {
   const { Buffer } = await import('node:buffer')
@@ -234,6 +234,36 @@ export interface PrismaClient<
     */
   get project(): Prisma.ProjectDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.brandKit`: Exposes CRUD operations for the **BrandKit** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more BrandKits
+    * const brandKits = await prisma.brandKit.findMany()
+    * ```
+    */
+  get brandKit(): Prisma.BrandKitDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.projectTemplate`: Exposes CRUD operations for the **ProjectTemplate** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ProjectTemplates
+    * const projectTemplates = await prisma.projectTemplate.findMany()
+    * ```
+    */
+  get projectTemplate(): Prisma.ProjectTemplateDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.projectRevision`: Exposes CRUD operations for the **ProjectRevision** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ProjectRevisions
+    * const projectRevisions = await prisma.projectRevision.findMany()
+    * ```
+    */
+  get projectRevision(): Prisma.ProjectRevisionDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.asset`: Exposes CRUD operations for the **Asset** model.
     * Example usage:
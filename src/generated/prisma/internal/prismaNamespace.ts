@@ -390,6 +390,9 @@ export const ModelName = {
   Verification: 'Verification',
   ProjectFolder: 'ProjectFolder',
   Project: 'Project',
+  BrandKit: 'BrandKit',
+  ProjectTemplate: 'ProjectTemplate',
+  ProjectRevision: 'ProjectRevision',
   Asset: 'Asset',
   GenerationJob: 'GenerationJob',
   SubscriptionEvent: 'SubscriptionEvent',
@@ -410,7 +413,7 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
     omit: GlobalOmitOptions
   }
   meta: {
-    modelProps: "user" | "session" | "account" | "verification" | "projectFolder" | "project" | "asset" | "generationJob" | "subscriptionEvent" | "chatMessage" | "model3DAsset"
+    modelProps: "user" | "session" | "account" | "verification" | "projectFolder" | "project" | "brandKit" | "projectTemplate" | "projectRevision" | "asset" | "generationJob" | "subscriptionEvent" | "chatMessage" | "model3DAsset"
     txIsolationLevel: TransactionIsolationLevel
   }
   model: {
@@ -858,6 +861,228 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
         }
       }
     }
+    BrandKit: {
+      payload: Prisma.$BrandKitPayload<ExtArgs>
+      fields: Prisma.BrandKitFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.BrandKitFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BrandKitPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.BrandKitFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BrandKitPayload>
+        }
+        findFirst: {
+          args: Prisma.BrandKitFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BrandKitPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.BrandKitFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BrandKitPayload>
+        }
+        findMany: {
+          args: Prisma.BrandKitFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BrandKitPayload>[]
+        }
+        create: {
+          args: Prisma.BrandKitCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BrandKitPayload>
+        }
+        createMany: {
+          args: Prisma.BrandKitCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.BrandKitCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BrandKitPayload>[]
+        }
+        delete: {
+          args: Prisma.BrandKitDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BrandKitPayload>
+        }
+        update: {
+          args: Prisma.BrandKitUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BrandKitPayload>
+        }
+        deleteMany: {
+          args: Prisma.BrandKitDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.BrandKitUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.BrandKitUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BrandKitPayload>[]
+        }
+        upsert: {
+          args: Prisma.BrandKitUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BrandKitPayload>
+        }
+        aggregate: {
+          args: Prisma.BrandKitAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateBrandKit>
+        }
+        groupBy: {
+          args: Prisma.BrandKitGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.BrandKitGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.BrandKitCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.BrandKitCountAggregateOutputType> | number
+        }
+      }
+    }
+    ProjectTemplate: {
+      payload: Prisma.$ProjectTemplatePayload<ExtArgs>
+      fields: Prisma.ProjectTemplateFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ProjectTemplateFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProjectTemplatePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ProjectTemplateFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProjectTemplatePayload>
+        }
+        findFirst: {
+          args: Prisma.ProjectTemplateFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProjectTemplatePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ProjectTemplateFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProjectTemplatePayload>
+        }
+        findMany: {
+          args: Prisma.ProjectTemplateFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProjectTemplatePayload>[]
+        }
+        create: {
+          args: Prisma.ProjectTemplateCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProjectTemplatePayload>
+        }
+        createMany: {
+          args: Prisma.ProjectTemplateCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ProjectTemplateCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProjectTemplatePayload>[]
+        }
+        delete: {
+          args: Prisma.ProjectTemplateDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProjectTemplatePayload>
+        }
+        update: {
+          args: Prisma.ProjectTemplateUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProjectTemplatePayload>
+        }
+        deleteMany: {
+          args: Prisma.ProjectTemplateDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ProjectTemplateUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ProjectTemplateUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProjectTemplatePayload>[]
+        }
+        upsert: {
+          args: Prisma.ProjectTemplateUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProjectTemplatePayload>
+        }
+        aggregate: {
+          args: Prisma.ProjectTemplateAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateProjectTemplate>
+        }
+        groupBy: {
+          args: Prisma.ProjectTemplateGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ProjectTemplateGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ProjectTemplateCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ProjectTemplateCountAggregateOutputType> | number
+        }
+      }
+    }
+    ProjectRevision: {
+      payload: Prisma.$ProjectRevisionPayload<ExtArgs>
+      fields: Prisma.ProjectRevisionFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ProjectRevisionFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProjectRevisionPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ProjectRevisionFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProjectRevisionPayload>
+        }
+        findFirst: {
+          args: Prisma.ProjectRevisionFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProjectRevisionPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ProjectRevisionFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProjectRevisionPayload>
+        }
+        findMany: {
+          args: Prisma.ProjectRevisionFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProjectRevisionPayload>[]
+        }
+        create: {
+          args: Prisma.ProjectRevisionCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProjectRevisionPayload>
+        }
+        createMany: {
+          args: Prisma.ProjectRevisionCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ProjectRevisionCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProjectRevisionPayload>[]
+        }
+        delete: {
+          args: Prisma.ProjectRevisionDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProjectRevisionPayload>
+        }
+        update: {
+          args: Prisma.ProjectRevisionUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProjectRevisionPayload>
+        }
+        deleteMany: {
+          args: Prisma.ProjectRevisionDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ProjectRevisionUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ProjectRevisionUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProjectRevisionPayload>[]
+        }
+        upsert: {
+          args: Prisma.ProjectRevisionUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProjectRevisionPayload>
+        }
+        aggregate: {
+          args: Prisma.ProjectRevisionAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateProjectRevision>
+        }
+        groupBy: {
+          args: Prisma.ProjectRevisionGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ProjectRevisionGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ProjectRevisionCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ProjectRevisionCountAggregateOutputType> | number
+        }
+      }
+    }
     Asset: {
       payload: Prisma.$AssetPayload<ExtArgs>
       fields: Prisma.AssetFieldRefs
@@ -1292,6 +1517,7 @@ export const UserScalarFieldEnum = {
   preferredImageModel: 'preferredImageModel',
   preferredVideoModel: 'preferredVideoModel',
   preferredVoiceId: 'preferredVoiceId',
+  confirmAgentSpend: 'confirmAgentSpend',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -1361,6 +1587,7 @@ export const ProjectScalarFieldEnum = {
   userId: 'userId',
   folderId: 'folderId',
   manifest: 'manifest',
+  manifestVersion: 'manifestVersion',
   width: 'width',
   height: 'height',
   fps: 'fps',
@@ -1368,6 +1595,9 @@ export const ProjectScalarFieldEnum = {
   status: 'status',
   outputUrl: 'outputUrl',
   thumbnailUrl: 'thumbnailUrl',
+  headRevisionId: 'headRevisionId',
+  brandKitId: 'brandKitId',
+  templateId: 'templateId',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -1375,6 +1605,59 @@ export const ProjectScalarFieldEnum = {
 export type ProjectScalarFieldEnum = (typeof ProjectScalarFieldEnum)[keyof typeof ProjectScalarFieldEnum]
 
 
+export const BrandKitScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  name: 'name',
+  colors: 'colors',
+  fonts: 'fonts',
+  headingFont: 'headingFont',
+  bodyFont: 'bodyFont',
+  logoAssetId: 'logoAssetId',
+  logoUrl: 'logoUrl',
+  watermarkPosition: 'watermarkPosition',
+  watermarkOpacity: 'watermarkOpacity',
+  lowerThird: 'lowerThird',
+  bigTitle: 'bigTitle',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type BrandKitScalarFieldEnum = (typeof BrandKitScalarFieldEnum)[keyof typeof BrandKitScalarFieldEnum]
+
+
+export const ProjectTemplateScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  name: 'name',
+  description: 'description',
+  width: 'width',
+  height: 'height',
+  fps: 'fps',
+  manifest: 'manifest',
+  slots: 'slots',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ProjectTemplateScalarFieldEnum = (typeof ProjectTemplateScalarFieldEnum)[keyof typeof ProjectTemplateScalarFieldEnum]
+
+
+export const ProjectRevisionScalarFieldEnum = {
+  id: 'id',
+  projectId: 'projectId',
+  manifest: 'manifest',
+  parentId: 'parentId',
+  author: 'author',
+  toolCallId: 'toolCallId',
+  name: 'name',
+  diffSummary: 'diffSummary',
+  createdAt: 'createdAt'
+} as const
+
+export type ProjectRevisionScalarFieldEnum = (typeof ProjectRevisionScalarFieldEnum)[keyof typeof ProjectRevisionScalarFieldEnum]
+
+
 export const AssetScalarFieldEnum = {
   id: 'id',
   userId: 'userId',
@@ -1439,6 +1722,7 @@ export const ChatMessageScalarFieldEnum = {
   toolCalls: 'toolCalls',
   toolCallId: 'toolCallId',
   toolName: 'toolName',
+  approval: 'approval',
   createdAt: 'createdAt'
 } as const
 
@@ -1632,6 +1916,9 @@ export type GlobalOmitConfig = {
   verification?: Prisma.VerificationOmit
   projectFolder?: Prisma.ProjectFolderOmit
   project?: Prisma.ProjectOmit
+  brandKit?: Prisma.BrandKitOmit
+  projectTemplate?: Prisma.ProjectTemplateOmit
+  projectRevision?: Prisma.ProjectRevisionOmit
   asset?: Prisma.AssetOmit
   generationJob?: Prisma.GenerationJobOmit
   subscriptionEvent?: Prisma.SubscriptionEventOmit
@@ -57,6 +57,9 @@ export const ModelName = {
   Verification: 'Verification',
   ProjectFolder: 'ProjectFolder',
   Project: 'Project',
+  BrandKit: 'BrandKit',
+  ProjectTemplate: 'ProjectTemplate',
+  ProjectRevision: 'ProjectRevision',
   Asset: 'Asset',
   GenerationJob: 'GenerationJob',
   SubscriptionEvent: 'SubscriptionEvent',
@@ -105,6 +108,7 @@ export const UserScalarFieldEnum = {
   preferredImageModel: 'preferredImageModel',
   preferredVideoModel: 'preferredVideoModel',
   preferredVoiceId: 'preferredVoiceId',
+  confirmAgentSpend: 'confirmAgentSpend',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -174,6 +178,7 @@ export const ProjectScalarFieldEnum = {
   userId: 'userId',
   folderId: 'folderId',
   manifest: 'manifest',
+  manifestVersion: 'manifestVersion',
   width: 'width',
   height: 'height',
   fps: 'fps',
@@ -181,6 +186,9 @@ export const ProjectScalarFieldEnum = {
   status: 'status',
   outputUrl: 'outputUrl',
   thumbnailUrl: 'thumbnailUrl',
+  headRevisionId: 'headRevisionId',
+  brandKitId: 'brandKitId',
+  templateId: 'templateId',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -188,6 +196,59 @@ export const ProjectScalarFieldEnum = {
 export type ProjectScalarFieldEnum = (typeof ProjectScalarFieldEnum)[keyof typeof ProjectScalarFieldEnum]
 
 
+export const BrandKitScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  name: 'name',
+  colors: 'colors',
+  fonts: 'fonts',
+  headingFont: 'headingFont',
+  bodyFont: 'bodyFont',
+  logoAssetId: 'logoAssetId',
+  logoUrl: 'logoUrl',
+  watermarkPosition: 'watermarkPosition',
+  watermarkOpacity: 'watermarkOpacity',
+  lowerThird: 'lowerThird',
+  bigTitle: 'bigTitle',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type BrandKitScalarFieldEnum = (typeof BrandKitScalarFieldEnum)[keyof typeof BrandKitScalarFieldEnum]
+
+
+export const ProjectTemplateScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  name: 'name',
+  description: 'description',
+  width: 'width',
+  height: 'height',
+  fps: 'fps',
+  manifest: 'manifest',
+  slots: 'slots',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ProjectTemplateScalarFieldEnum = (typeof ProjectTemplateScalarFieldEnum)[keyof typeof ProjectTemplateScalarFieldEnum]
+
+
+export const ProjectRevisionScalarFieldEnum = {
+  id: 'id',
+  projectId: 'projectId',
+  manifest: 'manifest',
+  parentId: 'parentId',
+  author: 'author',
+  toolCallId: 'toolCallId',
+  name: 'name',
+  diffSummary: 'diffSummary',
+  createdAt: 'createdAt'
+} as const
+
+export type ProjectRevisionScalarFieldEnum = (typeof ProjectRevisionScalarFieldEnum)[keyof typeof ProjectRevisionScalarFieldEnum]
+
+
 export const AssetScalarFieldEnum = {
   id: 'id',
   userId: 'userId',
@@ -252,6 +313,7 @@ export const ChatMessageScalarFieldEnum = {
   toolCalls: 'toolCalls',
   toolCallId: 'toolCallId',
   toolName: 'toolName',
+  approval: 'approval',
   createdAt: 'createdAt'
 } as const
 
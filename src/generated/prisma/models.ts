@@ -14,6 +14,9 @@ export type * from './models/Account.ts'
 export type * from './models/Verification.ts'
 export type * from './models/ProjectFolder.ts'
 export type * from './models/Project.ts'
+export type * from './models/BrandKit.ts'
+export type * from './models/ProjectTemplate.ts'
+export type * from './models/ProjectRevision.ts'
 export type * from './models/Asset.ts'
 export type * from './models/GenerationJob.ts'
 export type * from './models/SubscriptionEvent.ts'
@@ -0,0 +1,1918 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `BrandKit` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.ts"
+import type * as Prisma from "../internal/prismaNamespace.ts"
+
+/**
+ * Model BrandKit
+ * 
+ */
+export type BrandKitModel = runtime.Types.Result.DefaultSelection<Prisma.$BrandKitPayload>
+
+export type AggregateBrandKit = {
+  _count: BrandKitCountAggregateOutputType | null
+  _avg: BrandKitAvgAggregateOutputType | null
+  _sum: BrandKitSumAggregateOutputType | null
+  _min: BrandKitMinAggregateOutputType | null
+  _max: BrandKitMaxAggregateOutputType | null
+}
+
+export type BrandKitAvgAggregateOutputType = {
+  watermarkOpacity: number | null
+}
+
+export type BrandKitSumAggregateOutputType = {
+  watermarkOpacity: number | null
+}
+
+export type BrandKitMinAggregateOutputType = {
+  id: string | null
+  userId: string | null
+  name: string | null
+  colors: string | null
+  fonts: string | null
+  headingFont: string | null
+  bodyFont: string | null
+  logoAssetId: string | null
+  logoUrl: string | null
+  watermarkPosition: string | null
+  watermarkOpacity: number | null
+  lowerThird: string | null
+  bigTitle: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type BrandKitMaxAggregateOutputType = {
+  id: string | null
+  userId: string | null
+  name: string | null
+  colors: string | null
+  fonts: string | null
+  headingFont: string | null
+  bodyFont: string | null
+  logoAssetId: string | null
+  logoUrl: string | null
+  watermarkPosition: string | null
+  watermarkOpacity: number | null
+  lowerThird: string | null
+  bigTitle: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type BrandKitCountAggregateOutputType = {
+  id: number
+  userId: number
+  name: number
+  colors: number
+  fonts: number
+  headingFont: number
+  bodyFont: number
+  logoAssetId: number
+  logoUrl: number
+  watermarkPosition: number
+  watermarkOpacity: number
+  lowerThird: number
+  bigTitle: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type BrandKitAvgAggregateInputType = {
+  watermarkOpacity?: true
+}
+
+export type BrandKitSumAggregateInputType = {
+  watermarkOpacity?: true
+}
+
+export type BrandKitMinAggregateInputType = {
+  id?: true
+  userId?: true
+  name?: true
+  colors?: true
+  fonts?: true
+  headingFont?: true
+  bodyFont?: true
+  logoAssetId?: true
+  logoUrl?: true
+  watermarkPosition?: true
+  watermarkOpacity?: true
+  lowerThird?: true
+  bigTitle?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type BrandKitMaxAggregateInputType = {
+  id?: true
+  userId?: true
+  name?: true
+  colors?: true
+  fonts?: true
+  headingFont?: true
+  bodyFont?: true
+  logoAssetId?: true
+  logoUrl?: true
+  watermarkPosition?: true
+  watermarkOpacity?: true
+  lowerThird?: true
+  bigTitle?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type BrandKitCountAggregateInputType = {
+  id?: true
+  userId?: true
+  name?: true
+  colors?: true
+  fonts?: true
+  headingFont?: true
+  bodyFont?: true
+  logoAssetId?: true
+  logoUrl?: true
+  watermarkPosition?: true
+  watermarkOpacity?: true
+  lowerThird?: true
+  bigTitle?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type BrandKitAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which BrandKit to aggregate.
+   */
+  where?: Prisma.BrandKitWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of BrandKits to fetch.
+   */
+  orderBy?: Prisma.BrandKitOrderByWithRelationInput | Prisma.BrandKitOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.BrandKitWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` BrandKits from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` BrandKits.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned BrandKits
+  **/
+  _count?: true | BrandKitCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: BrandKitAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: BrandKitSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: BrandKitMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: BrandKitMaxAggregateInputType
+}
+
+export type GetBrandKitAggregateType<T extends BrandKitAggregateArgs> = {
+      [P in keyof T & keyof AggregateBrandKit]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateBrandKit[P]>
+    : Prisma.GetScalarType<T[P], AggregateBrandKit[P]>
+}
+
+
+
+
+export type BrandKitGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.BrandKitWhereInput
+  orderBy?: Prisma.BrandKitOrderByWithAggregationInput | Prisma.BrandKitOrderByWithAggregationInput[]
+  by: Prisma.BrandKitScalarFieldEnum[] | Prisma.BrandKitScalarFieldEnum
+  having?: Prisma.BrandKitScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: BrandKitCountAggregateInputType | true
+  _avg?: BrandKitAvgAggregateInputType
+  _sum?: BrandKitSumAggregateInputType
+  _min?: BrandKitMinAggregateInputType
+  _max?: BrandKitMaxAggregateInputType
+}
+
+export type BrandKitGroupByOutputType = {
+  id: string
+  userId: string
+  name: string
+  colors: string
+  fonts: string
+  headingFont: string | null
+  bodyFont: string | null
+  logoAssetId: string | null
+  logoUrl: string | null
+  watermarkPosition: string | null
+  watermarkOpacity: number | null
+  lowerThird: string | null
+  bigTitle: string | null
+  createdAt: Date
+  updatedAt: Date
+  _count: BrandKitCountAggregateOutputType | null
+  _avg: BrandKitAvgAggregateOutputType | null
+  _sum: BrandKitSumAggregateOutputType | null
+  _min: BrandKitMinAggregateOutputType | null
+  _max: BrandKitMaxAggregateOutputType | null
+}
+
+type GetBrandKitGroupByPayload<T extends BrandKitGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<BrandKitGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof BrandKitGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], BrandKitGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], BrandKitGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type BrandKitWhereInput = {
+  AND?: Prisma.BrandKitWhereInput | Prisma.BrandKitWhereInput[]
+  OR?: Prisma.BrandKitWhereInput[]
+  NOT?: Prisma.BrandKitWhereInput | Prisma.BrandKitWhereInput[]
+  id?: Prisma.StringFilter<"BrandKit"> | string
+  userId?: Prisma.StringFilter<"BrandKit"> | string
+  name?: Prisma.StringFilter<"BrandKit"> | string
+  colors?: Prisma.StringFilter<"BrandKit"> | string
+  fonts?: Prisma.StringFilter<"BrandKit"> | string
+  headingFont?: Prisma.StringNullableFilter<"BrandKit"> | string | null
+  bodyFont?: Prisma.StringNullableFilter<"BrandKit"> | string | null
+  logoAssetId?: Prisma.StringNullableFilter<"BrandKit"> | string | null
+  logoUrl?: Prisma.StringNullableFilter<"BrandKit"> | string | null
+  watermarkPosition?: Prisma.StringNullableFilter<"BrandKit"> | string | null
+  watermarkOpacity?: Prisma.FloatNullableFilter<"BrandKit"> | number | null
+  lowerThird?: Prisma.StringNullableFilter<"BrandKit"> | string | null
+  bigTitle?: Prisma.StringNullableFilter<"BrandKit"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"BrandKit"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"BrandKit"> | Date | string
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  projects?: Prisma.ProjectListRelationFilter
+}
+
+export type BrandKitOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  colors?: Prisma.SortOrder
+  fonts?: Prisma.SortOrder
+  headingFont?: Prisma.SortOrderInput | Prisma.SortOrder
+  bodyFont?: Prisma.SortOrderInput | Prisma.SortOrder
+  logoAssetId?: Prisma.SortOrderInput | Prisma.SortOrder
+  logoUrl?: Prisma.SortOrderInput | Prisma.SortOrder
+  watermarkPosition?: Prisma.SortOrderInput | Prisma.SortOrder
+  watermarkOpacity?: Prisma.SortOrderInput | Prisma.SortOrder
+  lowerThird?: Prisma.SortOrderInput | Prisma.SortOrder
+  bigTitle?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  user?: Prisma.UserOrderByWithRelationInput
+  projects?: Prisma.ProjectOrderByRelationAggregateInput
+}
+
+export type BrandKitWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.BrandKitWhereInput | Prisma.BrandKitWhereInput[]
+  OR?: Prisma.BrandKitWhereInput[]
+  NOT?: Prisma.BrandKitWhereInput | Prisma.BrandKitWhereInput[]
+  userId?: Prisma.StringFilter<"BrandKit"> | string
+  name?: Prisma.StringFilter<"BrandKit"> | string
+  colors?: Prisma.StringFilter<"BrandKit"> | string
+  fonts?: Prisma.StringFilter<"BrandKit"> | string
+  headingFont?: Prisma.StringNullableFilter<"BrandKit"> | string | null
+  bodyFont?: Prisma.StringNullableFilter<"BrandKit"> | string | null
+  logoAssetId?: Prisma.StringNullableFilter<"BrandKit"> | string | null
+  logoUrl?: Prisma.StringNullableFilter<"BrandKit"> | string | null
+  watermarkPosition?: Prisma.StringNullableFilter<"BrandKit"> | string | null
+  watermarkOpacity?: Prisma.FloatNullableFilter<"BrandKit"> | number | null
+  lowerThird?: Prisma.StringNullableFilter<"BrandKit"> | string | null
+  bigTitle?: Prisma.StringNullableFilter<"BrandKit"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"BrandKit"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"BrandKit"> | Date | string
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  projects?: Prisma.ProjectListRelationFilter
+}, "id">
+
+export type BrandKitOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  colors?: Prisma.SortOrder
+  fonts?: Prisma.SortOrder
+  headingFont?: Prisma.SortOrderInput | Prisma.SortOrder
+  bodyFont?: Prisma.SortOrderInput | Prisma.SortOrder
+  logoAssetId?: Prisma.SortOrderInput | Prisma.SortOrder
+  logoUrl?: Prisma.SortOrderInput | Prisma.SortOrder
+  watermarkPosition?: Prisma.SortOrderInput | Prisma.SortOrder
+  watermarkOpacity?: Prisma.SortOrderInput | Prisma.SortOrder
+  lowerThird?: Prisma.SortOrderInput | Prisma.SortOrder
+  bigTitle?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.BrandKitCountOrderByAggregateInput
+  _avg?: Prisma.BrandKitAvgOrderByAggregateInput
+  _max?: Prisma.BrandKitMaxOrderByAggregateInput
+  _min?: Prisma.BrandKitMinOrderByAggregateInput
+  _sum?: Prisma.BrandKitSumOrderByAggregateInput
+}
+
+export type BrandKitScalarWhereWithAggregatesInput = {
+  AND?: Prisma.BrandKitScalarWhereWithAggregatesInput | Prisma.BrandKitScalarWhereWithAggregatesInput[]
+  OR?: Prisma.BrandKitScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.BrandKitScalarWhereWithAggregatesInput | Prisma.BrandKitScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"BrandKit"> | string
+  userId?: Prisma.StringWithAggregatesFilter<"BrandKit"> | string
+  name?: Prisma.StringWithAggregatesFilter<"BrandKit"> | string
+  colors?: Prisma.StringWithAggregatesFilter<"BrandKit"> | string
+  fonts?: Prisma.StringWithAggregatesFilter<"BrandKit"> | string
+  headingFont?: Prisma.StringNullableWithAggregatesFilter<"BrandKit"> | string | null
+  bodyFont?: Prisma.StringNullableWithAggregatesFilter<"BrandKit"> | string | null
+  logoAssetId?: Prisma.StringNullableWithAggregatesFilter<"BrandKit"> | string | null
+  logoUrl?: Prisma.StringNullableWithAggregatesFilter<"BrandKit"> | string | null
+  watermarkPosition?: Prisma.StringNullableWithAggregatesFilter<"BrandKit"> | string | null
+  watermarkOpacity?: Prisma.FloatNullableWithAggregatesFilter<"BrandKit"> | number | null
+  lowerThird?: Prisma.StringNullableWithAggregatesFilter<"BrandKit"> | string | null
+  bigTitle?: Prisma.StringNullableWithAggregatesFilter<"BrandKit"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"BrandKit"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"BrandKit"> | Date | string
+}
+
+export type BrandKitCreateInput = {
+  id?: string
+  name: string
+  colors?: string
+  fonts?: string
+  headingFont?: string | null
+  bodyFont?: string | null
+  logoAssetId?: string | null
+  logoUrl?: string | null
+  watermarkPosition?: string | null
+  watermarkOpacity?: number | null
+  lowerThird?: string | null
+  bigTitle?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutBrandKitsInput
+  projects?: Prisma.ProjectCreateNestedManyWithoutBrandKitInput
+}
+
+export type BrandKitUncheckedCreateInput = {
+  id?: string
+  userId: string
+  name: string
+  colors?: string
+  fonts?: string
+  headingFont?: string | null
+  bodyFont?: string | null
+  logoAssetId?: string | null
+  logoUrl?: string | null
+  watermarkPosition?: string | null
+  watermarkOpacity?: number | null
+  lowerThird?: string | null
+  bigTitle?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  projects?: Prisma.ProjectUncheckedCreateNestedManyWithoutBrandKitInput
+}
+
+export type BrandKitUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  colors?: Prisma.StringFieldUpdateOperationsInput | string
+  fonts?: Prisma.StringFieldUpdateOperationsInput | string
+  headingFont?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bodyFont?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  logoAssetId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  logoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  watermarkPosition?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  watermarkOpacity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  lowerThird?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bigTitle?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutBrandKitsNestedInput
+  projects?: Prisma.ProjectUpdateManyWithoutBrandKitNestedInput
+}
+
+export type BrandKitUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  colors?: Prisma.StringFieldUpdateOperationsInput | string
+  fonts?: Prisma.StringFieldUpdateOperationsInput | string
+  headingFont?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bodyFont?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  logoAssetId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  logoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  watermarkPosition?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  watermarkOpacity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  lowerThird?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bigTitle?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  projects?: Prisma.ProjectUncheckedUpdateManyWithoutBrandKitNestedInput
+}
+
+export type BrandKitCreateManyInput = {
+  id?: string
+  userId: string
+  name: string
+  colors?: string
+  fonts?: string
+  headingFont?: string | null
+  bodyFont?: string | null
+  logoAssetId?: string | null
+  logoUrl?: string | null
+  watermarkPosition?: string | null
+  watermarkOpacity?: number | null
+  lowerThird?: string | null
+  bigTitle?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BrandKitUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  colors?: Prisma.StringFieldUpdateOperationsInput | string
+  fonts?: Prisma.StringFieldUpdateOperationsInput | string
+  headingFont?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bodyFont?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  logoAssetId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  logoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  watermarkPosition?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  watermarkOpacity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  lowerThird?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bigTitle?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BrandKitUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  colors?: Prisma.StringFieldUpdateOperationsInput | string
+  fonts?: Prisma.StringFieldUpdateOperationsInput | string
+  headingFont?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bodyFont?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  logoAssetId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  logoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  watermarkPosition?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  watermarkOpacity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  lowerThird?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bigTitle?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BrandKitListRelationFilter = {
+  every?: Prisma.BrandKitWhereInput
+  some?: Prisma.BrandKitWhereInput
+  none?: Prisma.BrandKitWhereInput
+}
+
+export type BrandKitOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type BrandKitNullableScalarRelationFilter = {
+  is?: Prisma.BrandKitWhereInput | null
+  isNot?: Prisma.BrandKitWhereInput | null
+}
+
+export type BrandKitCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  colors?: Prisma.SortOrder
+  fonts?: Prisma.SortOrder
+  headingFont?: Prisma.SortOrder
+  bodyFont?: Prisma.SortOrder
+  logoAssetId?: Prisma.SortOrder
+  logoUrl?: Prisma.SortOrder
+  watermarkPosition?: Prisma.SortOrder
+  watermarkOpacity?: Prisma.SortOrder
+  lowerThird?: Prisma.SortOrder
+  bigTitle?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type BrandKitAvgOrderByAggregateInput = {
+  watermarkOpacity?: Prisma.SortOrder
+}
+
+export type BrandKitMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  colors?: Prisma.SortOrder
+  fonts?: Prisma.SortOrder
+  headingFont?: Prisma.SortOrder
+  bodyFont?: Prisma.SortOrder
+  logoAssetId?: Prisma.SortOrder
+  logoUrl?: Prisma.SortOrder
+  watermarkPosition?: Prisma.SortOrder
+  watermarkOpacity?: Prisma.SortOrder
+  lowerThird?: Prisma.SortOrder
+  bigTitle?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type BrandKitMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  colors?: Prisma.SortOrder
+  fonts?: Prisma.SortOrder
+  headingFont?: Prisma.SortOrder
+  bodyFont?: Prisma.SortOrder
+  logoAssetId?: Prisma.SortOrder
+  logoUrl?: Prisma.SortOrder
+  watermarkPosition?: Prisma.SortOrder
+  watermarkOpacity?: Prisma.SortOrder
+  lowerThird?: Prisma.SortOrder
+  bigTitle?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type BrandKitSumOrderByAggregateInput = {
+  watermarkOpacity?: Prisma.SortOrder
+}
+
+export type BrandKitCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.BrandKitCreateWithoutUserInput, Prisma.BrandKitUncheckedCreateWithoutUserInput> | Prisma.BrandKitCreateWithoutUserInput[] | Prisma.BrandKitUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.BrandKitCreateOrConnectWithoutUserInput | Prisma.BrandKitCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.BrandKitCreateManyUserInputEnvelope
+  connect?: Prisma.BrandKitWhereUniqueInput | Prisma.BrandKitWhereUniqueInput[]
+}
+
+export type BrandKitUncheckedCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.BrandKitCreateWithoutUserInput, Prisma.BrandKitUncheckedCreateWithoutUserInput> | Prisma.BrandKitCreateWithoutUserInput[] | Prisma.BrandKitUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.BrandKitCreateOrConnectWithoutUserInput | Prisma.BrandKitCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.BrandKitCreateManyUserInputEnvelope
+  connect?: Prisma.BrandKitWhereUniqueInput | Prisma.BrandKitWhereUniqueInput[]
+}
+
+export type BrandKitUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.BrandKitCreateWithoutUserInput, Prisma.BrandKitUncheckedCreateWithoutUserInput> | Prisma.BrandKitCreateWithoutUserInput[] | Prisma.BrandKitUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.BrandKitCreateOrConnectWithoutUserInput | Prisma.BrandKitCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.BrandKitUpsertWithWhereUniqueWithoutUserInput | Prisma.BrandKitUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.BrandKitCreateManyUserInputEnvelope
+  set?: Prisma.BrandKitWhereUniqueInput | Prisma.BrandKitWhereUniqueInput[]
+  disconnect?: Prisma.BrandKitWhereUniqueInput | Prisma.BrandKitWhereUniqueInput[]
+  delete?: Prisma.BrandKitWhereUniqueInput | Prisma.BrandKitWhereUniqueInput[]
+  connect?: Prisma.BrandKitWhereUniqueInput | Prisma.BrandKitWhereUniqueInput[]
+  update?: Prisma.BrandKitUpdateWithWhereUniqueWithoutUserInput | Prisma.BrandKitUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.BrandKitUpdateManyWithWhereWithoutUserInput | Prisma.BrandKitUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.BrandKitScalarWhereInput | Prisma.BrandKitScalarWhereInput[]
+}
+
+export type BrandKitUncheckedUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.BrandKitCreateWithoutUserInput, Prisma.BrandKitUncheckedCreateWithoutUserInput> | Prisma.BrandKitCreateWithoutUserInput[] | Prisma.BrandKitUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.BrandKitCreateOrConnectWithoutUserInput | Prisma.BrandKitCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.BrandKitUpsertWithWhereUniqueWithoutUserInput | Prisma.BrandKitUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.BrandKitCreateManyUserInputEnvelope
+  set?: Prisma.BrandKitWhereUniqueInput | Prisma.BrandKitWhereUniqueInput[]
+  disconnect?: Prisma.BrandKitWhereUniqueInput | Prisma.BrandKitWhereUniqueInput[]
+  delete?: Prisma.BrandKitWhereUniqueInput | Prisma.BrandKitWhereUniqueInput[]
+  connect?: Prisma.BrandKitWhereUniqueInput | Prisma.BrandKitWhereUniqueInput[]
+  update?: Prisma.BrandKitUpdateWithWhereUniqueWithoutUserInput | Prisma.BrandKitUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.BrandKitUpdateManyWithWhereWithoutUserInput | Prisma.BrandKitUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.BrandKitScalarWhereInput | Prisma.BrandKitScalarWhereInput[]
+}
+
+export type BrandKitCreateNestedOneWithoutProjectsInput = {
+  create?: Prisma.XOR<Prisma.BrandKitCreateWithoutProjectsInput, Prisma.BrandKitUncheckedCreateWithoutProjectsInput>
+  connectOrCreate?: Prisma.BrandKitCreateOrConnectWithoutProjectsInput
+  connect?: Prisma.BrandKitWhereUniqueInput
+}
+
+export type BrandKitUpdateOneWithoutProjectsNestedInput = {
+  create?: Prisma.XOR<Prisma.BrandKitCreateWithoutProjectsInput, Prisma.BrandKitUncheckedCreateWithoutProjectsInput>
+  connectOrCreate?: Prisma.BrandKitCreateOrConnectWithoutProjectsInput
+  upsert?: Prisma.BrandKitUpsertWithoutProjectsInput
+  disconnect?: Prisma.BrandKitWhereInput | boolean
+  delete?: Prisma.BrandKitWhereInput | boolean
+  connect?: Prisma.BrandKitWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.BrandKitUpdateToOneWithWhereWithoutProjectsInput, Prisma.BrandKitUpdateWithoutProjectsInput>, Prisma.BrandKitUncheckedUpdateWithoutProjectsInput>
+}
+
+export type NullableFloatFieldUpdateOperationsInput = {
+  set?: number | null
+  increment?: number
+  decrement?: number
+  multiply?: number
+  divide?: number
+}
+
+export type BrandKitCreateWithoutUserInput = {
+  id?: string
+  name: string
+  colors?: string
+  fonts?: string
+  headingFont?: string | null
+  bodyFont?: string | null
+  logoAssetId?: string | null
+  logoUrl?: string | null
+  watermarkPosition?: string | null
+  watermarkOpacity?: number | null
+  lowerThird?: string | null
+  bigTitle?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  projects?: Prisma.ProjectCreateNestedManyWithoutBrandKitInput
+}
+
+export type BrandKitUncheckedCreateWithoutUserInput = {
+  id?: string
+  name: string
+  colors?: string
+  fonts?: string
+  headingFont?: string | null
+  bodyFont?: string | null
+  logoAssetId?: string | null
+  logoUrl?: string | null
+  watermarkPosition?: string | null
+  watermarkOpacity?: number | null
+  lowerThird?: string | null
+  bigTitle?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  projects?: Prisma.ProjectUncheckedCreateNestedManyWithoutBrandKitInput
+}
+
+export type BrandKitCreateOrConnectWithoutUserInput = {
+  where: Prisma.BrandKitWhereUniqueInput
+  create: Prisma.XOR<Prisma.BrandKitCreateWithoutUserInput, Prisma.BrandKitUncheckedCreateWithoutUserInput>
+}
+
+export type BrandKitCreateManyUserInputEnvelope = {
+  data: Prisma.BrandKitCreateManyUserInput | Prisma.BrandKitCreateManyUserInput[]
+}
+
+export type BrandKitUpsertWithWhereUniqueWithoutUserInput = {
+  where: Prisma.BrandKitWhereUniqueInput
+  update: Prisma.XOR<Prisma.BrandKitUpdateWithoutUserInput, Prisma.BrandKitUncheckedUpdateWithoutUserInput>
+  create: Prisma.XOR<Prisma.BrandKitCreateWithoutUserInput, Prisma.BrandKitUncheckedCreateWithoutUserInput>
+}
+
+export type BrandKitUpdateWithWhereUniqueWithoutUserInput = {
+  where: Prisma.BrandKitWhereUniqueInput
+  data: Prisma.XOR<Prisma.BrandKitUpdateWithoutUserInput, Prisma.BrandKitUncheckedUpdateWithoutUserInput>
+}
+
+export type BrandKitUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.BrandKitScalarWhereInput
+  data: Prisma.XOR<Prisma.BrandKitUpdateManyMutationInput, Prisma.BrandKitUncheckedUpdateManyWithoutUserInput>
+}
+
+export type BrandKitScalarWhereInput = {
+  AND?: Prisma.BrandKitScalarWhereInput | Prisma.BrandKitScalarWhereInput[]
+  OR?: Prisma.BrandKitScalarWhereInput[]
+  NOT?: Prisma.BrandKitScalarWhereInput | Prisma.BrandKitScalarWhereInput[]
+  id?: Prisma.StringFilter<"BrandKit"> | string
+  userId?: Prisma.StringFilter<"BrandKit"> | string
+  name?: Prisma.StringFilter<"BrandKit"> | string
+  colors?: Prisma.StringFilter<"BrandKit"> | string
+  fonts?: Prisma.StringFilter<"BrandKit"> | string
+  headingFont?: Prisma.StringNullableFilter<"BrandKit"> | string | null
+  bodyFont?: Prisma.StringNullableFilter<"BrandKit"> | string | null
+  logoAssetId?: Prisma.StringNullableFilter<"BrandKit"> | string | null
+  logoUrl?: Prisma.StringNullableFilter<"BrandKit"> | string | null
+  watermarkPosition?: Prisma.StringNullableFilter<"BrandKit"> | string | null
+  watermarkOpacity?: Prisma.FloatNullableFilter<"BrandKit"> | number | null
+  lowerThird?: Prisma.StringNullableFilter<"BrandKit"> | string | null
+  bigTitle?: Prisma.StringNullableFilter<"BrandKit"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"BrandKit"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"BrandKit"> | Date | string
+}
+
+export type BrandKitCreateWithoutProjectsInput = {
+  id?: string
+  name: string
+  colors?: string
+  fonts?: string
+  headingFont?: string | null
+  bodyFont?: string | null
+  logoAssetId?: string | null
+  logoUrl?: string | null
+  watermarkPosition?: string | null
+  watermarkOpacity?: number | null
+  lowerThird?: string | null
+  bigTitle?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutBrandKitsInput
+}
+
+export type BrandKitUncheckedCreateWithoutProjectsInput = {
+  id?: string
+  userId: string
+  name: string
+  colors?: string
+  fonts?: string
+  headingFont?: string | null
+  bodyFont?: string | null
+  logoAssetId?: string | null
+  logoUrl?: string | null
+  watermarkPosition?: string | null
+  watermarkOpacity?: number | null
+  lowerThird?: string | null
+  bigTitle?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BrandKitCreateOrConnectWithoutProjectsInput = {
+  where: Prisma.BrandKitWhereUniqueInput
+  create: Prisma.XOR<Prisma.BrandKitCreateWithoutProjectsInput, Prisma.BrandKitUncheckedCreateWithoutProjectsInput>
+}
+
+export type BrandKitUpsertWithoutProjectsInput = {
+  update: Prisma.XOR<Prisma.BrandKitUpdateWithoutProjectsInput, Prisma.BrandKitUncheckedUpdateWithoutProjectsInput>
+  create: Prisma.XOR<Prisma.BrandKitCreateWithoutProjectsInput, Prisma.BrandKitUncheckedCreateWithoutProjectsInput>
+  where?: Prisma.BrandKitWhereInput
+}
+
+export type BrandKitUpdateToOneWithWhereWithoutProjectsInput = {
+  where?: Prisma.BrandKitWhereInput
+  data: Prisma.XOR<Prisma.BrandKitUpdateWithoutProjectsInput, Prisma.BrandKitUncheckedUpdateWithoutProjectsInput>
+}
+
+export type BrandKitUpdateWithoutProjectsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  colors?: Prisma.StringFieldUpdateOperationsInput | string
+  fonts?: Prisma.StringFieldUpdateOperationsInput | string
+  headingFont?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bodyFont?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  logoAssetId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  logoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  watermarkPosition?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  watermarkOpacity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  lowerThird?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bigTitle?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutBrandKitsNestedInput
+}
+
+export type BrandKitUncheckedUpdateWithoutProjectsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  colors?: Prisma.StringFieldUpdateOperationsInput | string
+  fonts?: Prisma.StringFieldUpdateOperationsInput | string
+  headingFont?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bodyFont?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  logoAssetId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  logoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  watermarkPosition?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  watermarkOpacity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  lowerThird?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bigTitle?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BrandKitCreateManyUserInput = {
+  id?: string
+  name: string
+  colors?: string
+  fonts?: string
+  headingFont?: string | null
+  bodyFont?: string | null
+  logoAssetId?: string | null
+  logoUrl?: string | null
+  watermarkPosition?: string | null
+  watermarkOpacity?: number | null
+  lowerThird?: string | null
+  bigTitle?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BrandKitUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  colors?: Prisma.StringFieldUpdateOperationsInput | string
+  fonts?: Prisma.StringFieldUpdateOperationsInput | string
+  headingFont?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bodyFont?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  logoAssetId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  logoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  watermarkPosition?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  watermarkOpacity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  lowerThird?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bigTitle?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  projects?: Prisma.ProjectUpdateManyWithoutBrandKitNestedInput
+}
+
+export type BrandKitUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  colors?: Prisma.StringFieldUpdateOperationsInput | string
+  fonts?: Prisma.StringFieldUpdateOperationsInput | string
+  headingFont?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bodyFont?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  logoAssetId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  logoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  watermarkPosition?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  watermarkOpacity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  lowerThird?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bigTitle?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  projects?: Prisma.ProjectUncheckedUpdateManyWithoutBrandKitNestedInput
+}
+
+export type BrandKitUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  colors?: Prisma.StringFieldUpdateOperationsInput | string
+  fonts?: Prisma.StringFieldUpdateOperationsInput | string
+  headingFont?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bodyFont?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  logoAssetId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  logoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  watermarkPosition?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  watermarkOpacity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  lowerThird?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bigTitle?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type BrandKitCountOutputType
+ */
+
+export type BrandKitCountOutputType = {
+  projects: number
+}
+
+export type BrandKitCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  projects?: boolean | BrandKitCountOutputTypeCountProjectsArgs
+}
+
+/**
+ * BrandKitCountOutputType without action
+ */
+export type BrandKitCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BrandKitCountOutputType
+   */
+  select?: Prisma.BrandKitCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * BrandKitCountOutputType without action
+ */
+export type BrandKitCountOutputTypeCountProjectsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ProjectWhereInput
+}
+
+
+export type BrandKitSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  name?: boolean
+  colors?: boolean
+  fonts?: boolean
+  headingFont?: boolean
+  bodyFont?: boolean
+  logoAssetId?: boolean
+  logoUrl?: boolean
+  watermarkPosition?: boolean
+  watermarkOpacity?: boolean
+  lowerThird?: boolean
+  bigTitle?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  projects?: boolean | Prisma.BrandKit$projectsArgs<ExtArgs>
+  _count?: boolean | Prisma.BrandKitCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["brandKit"]>
+
+export type BrandKitSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  name?: boolean
+  colors?: boolean
+  fonts?: boolean
+  headingFont?: boolean
+  bodyFont?: boolean
+  logoAssetId?: boolean
+  logoUrl?: boolean
+  watermarkPosition?: boolean
+  watermarkOpacity?: boolean
+  lowerThird?: boolean
+  bigTitle?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["brandKit"]>
+
+export type BrandKitSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  name?: boolean
+  colors?: boolean
+  fonts?: boolean
+  headingFont?: boolean
+  bodyFont?: boolean
+  logoAssetId?: boolean
+  logoUrl?: boolean
+  watermarkPosition?: boolean
+  watermarkOpacity?: boolean
+  lowerThird?: boolean
+  bigTitle?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["brandKit"]>
+
+export type BrandKitSelectScalar = {
+  id?: boolean
+  userId?: boolean
+  name?: boolean
+  colors?: boolean
+  fonts?: boolean
+  headingFont?: boolean
+  bodyFont?: boolean
+  logoAssetId?: boolean
+  logoUrl?: boolean
+  watermarkPosition?: boolean
+  watermarkOpacity?: boolean
+  lowerThird?: boolean
+  bigTitle?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type BrandKitOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "userId" | "name" | "colors" | "fonts" | "headingFont" | "bodyFont" | "logoAssetId" | "logoUrl" | "watermarkPosition" | "watermarkOpacity" | "lowerThird" | "bigTitle" | "createdAt" | "updatedAt", ExtArgs["result"]["brandKit"]>
+export type BrandKitInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  projects?: boolean | Prisma.BrandKit$projectsArgs<ExtArgs>
+  _count?: boolean | Prisma.BrandKitCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type BrandKitIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type BrandKitIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+
+export type $BrandKitPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "BrandKit"
+  objects: {
+    user: Prisma.$UserPayload<ExtArgs>
+    projects: Prisma.$ProjectPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    userId: string
+    name: string
+    colors: string
+    fonts: string
+    headingFont: string | null
+    bodyFont: string | null
+    logoAssetId: string | null
+    logoUrl: string | null
+    watermarkPosition: string | null
+    watermarkOpacity: number | null
+    lowerThird: string | null
+    bigTitle: string | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["brandKit"]>
+  composites: {}
+}
+
+export type BrandKitGetPayload<S extends boolean | null | undefined | BrandKitDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$BrandKitPayload, S>
+
+export type BrandKitCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<BrandKitFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: BrandKitCountAggregateInputType | true
+  }
+
+export interface BrandKitDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['BrandKit'], meta: { name: 'BrandKit' } }
+  /**
+   * Find zero or one BrandKit that matches the filter.
+   * @param {BrandKitFindUniqueArgs} args - Arguments to find a BrandKit
+   * @example
+   * // Get one BrandKit
+   * const brandKit = await prisma.brandKit.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends BrandKitFindUniqueArgs>(args: Prisma.SelectSubset<T, BrandKitFindUniqueArgs<ExtArgs>>): Prisma.Prisma__BrandKitClient<runtime.Types.Result.GetResult<Prisma.$BrandKitPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one BrandKit that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {BrandKitFindUniqueOrThrowArgs} args - Arguments to find a BrandKit
+   * @example
+   * // Get one BrandKit
+   * const brandKit = await prisma.brandKit.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends BrandKitFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, BrandKitFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__BrandKitClient<runtime.Types.Result.GetResult<Prisma.$BrandKitPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first BrandKit that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BrandKitFindFirstArgs} args - Arguments to find a BrandKit
+   * @example
+   * // Get one BrandKit
+   * const brandKit = await prisma.brandKit.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends BrandKitFindFirstArgs>(args?: Prisma.SelectSubset<T, BrandKitFindFirstArgs<ExtArgs>>): Prisma.Prisma__BrandKitClient<runtime.Types.Result.GetResult<Prisma.$BrandKitPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first BrandKit that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BrandKitFindFirstOrThrowArgs} args - Arguments to find a BrandKit
+   * @example
+   * // Get one BrandKit
+   * const brandKit = await prisma.brandKit.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends BrandKitFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, BrandKitFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__BrandKitClient<runtime.Types.Result.GetResult<Prisma.$BrandKitPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more BrandKits that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BrandKitFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all BrandKits
+   * const brandKits = await prisma.brandKit.findMany()
+   * 
+   * // Get first 10 BrandKits
+   * const brandKits = await prisma.brandKit.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const brandKitWithIdOnly = await prisma.brandKit.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends BrandKitFindManyArgs>(args?: Prisma.SelectSubset<T, BrandKitFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BrandKitPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a BrandKit.
+   * @param {BrandKitCreateArgs} args - Arguments to create a BrandKit.
+   * @example
+   * // Create one BrandKit
+   * const BrandKit = await prisma.brandKit.create({
+   *   data: {
+   *     // ... data to create a BrandKit
+   *   }
+   * })
+   * 
+   */
+  create<T extends BrandKitCreateArgs>(args: Prisma.SelectSubset<T, BrandKitCreateArgs<ExtArgs>>): Prisma.Prisma__BrandKitClient<runtime.Types.Result.GetResult<Prisma.$BrandKitPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many BrandKits.
+   * @param {BrandKitCreateManyArgs} args - Arguments to create many BrandKits.
+   * @example
+   * // Create many BrandKits
+   * const brandKit = await prisma.brandKit.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends BrandKitCreateManyArgs>(args?: Prisma.SelectSubset<T, BrandKitCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many BrandKits and returns the data saved in the database.
+   * @param {BrandKitCreateManyAndReturnArgs} args - Arguments to create many BrandKits.
+   * @example
+   * // Create many BrandKits
+   * const brandKit = await prisma.brandKit.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many BrandKits and only return the `id`
+   * const brandKitWithIdOnly = await prisma.brandKit.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends BrandKitCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, BrandKitCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BrandKitPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a BrandKit.
+   * @param {BrandKitDeleteArgs} args - Arguments to delete one BrandKit.
+   * @example
+   * // Delete one BrandKit
+   * const BrandKit = await prisma.brandKit.delete({
+   *   where: {
+   *     // ... filter to delete one BrandKit
+   *   }
+   * })
+   * 
+   */
+  delete<T extends BrandKitDeleteArgs>(args: Prisma.SelectSubset<T, BrandKitDeleteArgs<ExtArgs>>): Prisma.Prisma__BrandKitClient<runtime.Types.Result.GetResult<Prisma.$BrandKitPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one BrandKit.
+   * @param {BrandKitUpdateArgs} args - Arguments to update one BrandKit.
+   * @example
+   * // Update one BrandKit
+   * const brandKit = await prisma.brandKit.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends BrandKitUpdateArgs>(args: Prisma.SelectSubset<T, BrandKitUpdateArgs<ExtArgs>>): Prisma.Prisma__BrandKitClient<runtime.Types.Result.GetResult<Prisma.$BrandKitPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more BrandKits.
+   * @param {BrandKitDeleteManyArgs} args - Arguments to filter BrandKits to delete.
+   * @example
+   * // Delete a few BrandKits
+   * const { count } = await prisma.brandKit.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends BrandKitDeleteManyArgs>(args?: Prisma.SelectSubset<T, BrandKitDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more BrandKits.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BrandKitUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many BrandKits
+   * const brandKit = await prisma.brandKit.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends BrandKitUpdateManyArgs>(args: Prisma.SelectSubset<T, BrandKitUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more BrandKits and returns the data updated in the database.
+   * @param {BrandKitUpdateManyAndReturnArgs} args - Arguments to update many BrandKits.
+   * @example
+   * // Update many BrandKits
+   * const brandKit = await prisma.brandKit.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more BrandKits and only return the `id`
+   * const brandKitWithIdOnly = await prisma.brandKit.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends BrandKitUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, BrandKitUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BrandKitPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one BrandKit.
+   * @param {BrandKitUpsertArgs} args - Arguments to update or create a BrandKit.
+   * @example
+   * // Update or create a BrandKit
+   * const brandKit = await prisma.brandKit.upsert({
+   *   create: {
+   *     // ... data to create a BrandKit
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the BrandKit we want to update
+   *   }
+   * })
+   */
+  upsert<T extends BrandKitUpsertArgs>(args: Prisma.SelectSubset<T, BrandKitUpsertArgs<ExtArgs>>): Prisma.Prisma__BrandKitClient<runtime.Types.Result.GetResult<Prisma.$BrandKitPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of BrandKits.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BrandKitCountArgs} args - Arguments to filter BrandKits to count.
+   * @example
+   * // Count the number of BrandKits
+   * const count = await prisma.brandKit.count({
+   *   where: {
+   *     // ... the filter for the BrandKits we want to count
+   *   }
+   * })
+  **/
+  count<T extends BrandKitCountArgs>(
+    args?: Prisma.Subset<T, BrandKitCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], BrandKitCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a BrandKit.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BrandKitAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends BrandKitAggregateArgs>(args: Prisma.Subset<T, BrandKitAggregateArgs>): Prisma.PrismaPromise<GetBrandKitAggregateType<T>>
+
+  /**
+   * Group by BrandKit.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BrandKitGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends BrandKitGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: BrandKitGroupByArgs['orderBy'] }
+      : { orderBy?: BrandKitGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, BrandKitGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetBrandKitGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the BrandKit model
+ */
+readonly fields: BrandKitFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for BrandKit.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__BrandKitClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  projects<T extends Prisma.BrandKit$projectsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.BrandKit$projectsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProjectPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the BrandKit model
+ */
+export interface BrandKitFieldRefs {
+  readonly id: Prisma.FieldRef<"BrandKit", 'String'>
+  readonly userId: Prisma.FieldRef<"BrandKit", 'String'>
+  readonly name: Prisma.FieldRef<"BrandKit", 'String'>
+  readonly colors: Prisma.FieldRef<"BrandKit", 'String'>
+  readonly fonts: Prisma.FieldRef<"BrandKit", 'String'>
+  readonly headingFont: Prisma.FieldRef<"BrandKit", 'String'>
+  readonly bodyFont: Prisma.FieldRef<"BrandKit", 'String'>
+  readonly logoAssetId: Prisma.FieldRef<"BrandKit", 'String'>
+  readonly logoUrl: Prisma.FieldRef<"BrandKit", 'String'>
+  readonly watermarkPosition: Prisma.FieldRef<"BrandKit", 'String'>
+  readonly watermarkOpacity: Prisma.FieldRef<"BrandKit", 'Float'>
+  readonly lowerThird: Prisma.FieldRef<"BrandKit", 'String'>
+  readonly bigTitle: Prisma.FieldRef<"BrandKit", 'String'>
+  readonly createdAt: Prisma.FieldRef<"BrandKit", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"BrandKit", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * BrandKit findUnique
+ */
+export type BrandKitFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BrandKit
+   */
+  select?: Prisma.BrandKitSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BrandKit
+   */
+  omit?: Prisma.BrandKitOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BrandKitInclude<ExtArgs> | null
+  /**
+   * Filter, which BrandKit to fetch.
+   */
+  where: Prisma.BrandKitWhereUniqueInput
+}
+
+/**
+ * BrandKit findUniqueOrThrow
+ */
+export type BrandKitFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BrandKit
+   */
+  select?: Prisma.BrandKitSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BrandKit
+   */
+  omit?: Prisma.BrandKitOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BrandKitInclude<ExtArgs> | null
+  /**
+   * Filter, which BrandKit to fetch.
+   */
+  where: Prisma.BrandKitWhereUniqueInput
+}
+
+/**
+ * BrandKit findFirst
+ */
+export type BrandKitFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BrandKit
+   */
+  select?: Prisma.BrandKitSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BrandKit
+   */
+  omit?: Prisma.BrandKitOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BrandKitInclude<ExtArgs> | null
+  /**
+   * Filter, which BrandKit to fetch.
+   */
+  where?: Prisma.BrandKitWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of BrandKits to fetch.
+   */
+  orderBy?: Prisma.BrandKitOrderByWithRelationInput | Prisma.BrandKitOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for BrandKits.
+   */
+  cursor?: Prisma.BrandKitWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` BrandKits from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` BrandKits.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of BrandKits.
+   */
+  distinct?: Prisma.BrandKitScalarFieldEnum | Prisma.BrandKitScalarFieldEnum[]
+}
+
+/**
+ * BrandKit findFirstOrThrow
+ */
+export type BrandKitFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BrandKit
+   */
+  select?: Prisma.BrandKitSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BrandKit
+   */
+  omit?: Prisma.BrandKitOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BrandKitInclude<ExtArgs> | null
+  /**
+   * Filter, which BrandKit to fetch.
+   */
+  where?: Prisma.BrandKitWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of BrandKits to fetch.
+   */
+  orderBy?: Prisma.BrandKitOrderByWithRelationInput | Prisma.BrandKitOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for BrandKits.
+   */
+  cursor?: Prisma.BrandKitWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` BrandKits from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` BrandKits.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of BrandKits.
+   */
+  distinct?: Prisma.BrandKitScalarFieldEnum | Prisma.BrandKitScalarFieldEnum[]
+}
+
+/**
+ * BrandKit findMany
+ */
+export type BrandKitFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BrandKit
+   */
+  select?: Prisma.BrandKitSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BrandKit
+   */
+  omit?: Prisma.BrandKitOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BrandKitInclude<ExtArgs> | null
+  /**
+   * Filter, which BrandKits to fetch.
+   */
+  where?: Prisma.BrandKitWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of BrandKits to fetch.
+   */
+  orderBy?: Prisma.BrandKitOrderByWithRelationInput | Prisma.BrandKitOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing BrandKits.
+   */
+  cursor?: Prisma.BrandKitWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` BrandKits from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` BrandKits.
+   */
+  skip?: number
+  distinct?: Prisma.BrandKitScalarFieldEnum | Prisma.BrandKitScalarFieldEnum[]
+}
+
+/**
+ * BrandKit create
+ */
+export type BrandKitCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BrandKit
+   */
+  select?: Prisma.BrandKitSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BrandKit
+   */
+  omit?: Prisma.BrandKitOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BrandKitInclude<ExtArgs> | null
+  /**
+   * The data needed to create a BrandKit.
+   */
+  data: Prisma.XOR<Prisma.BrandKitCreateInput, Prisma.BrandKitUncheckedCreateInput>
+}
+
+/**
+ * BrandKit createMany
+ */
+export type BrandKitCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many BrandKits.
+   */
+  data: Prisma.BrandKitCreateManyInput | Prisma.BrandKitCreateManyInput[]
+}
+
+/**
+ * BrandKit createManyAndReturn
+ */
+export type BrandKitCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BrandKit
+   */
+  select?: Prisma.BrandKitSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the BrandKit
+   */
+  omit?: Prisma.BrandKitOmit<ExtArgs> | null
+  /**
+   * The data used to create many BrandKits.
+   */
+  data: Prisma.BrandKitCreateManyInput | Prisma.BrandKitCreateManyInput[]
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BrandKitIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * BrandKit update
+ */
+export type BrandKitUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BrandKit
+   */
+  select?: Prisma.BrandKitSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BrandKit
+   */
+  omit?: Prisma.BrandKitOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BrandKitInclude<ExtArgs> | null
+  /**
+   * The data needed to update a BrandKit.
+   */
+  data: Prisma.XOR<Prisma.BrandKitUpdateInput, Prisma.BrandKitUncheckedUpdateInput>
+  /**
+   * Choose, which BrandKit to update.
+   */
+  where: Prisma.BrandKitWhereUniqueInput
+}
+
+/**
+ * BrandKit updateMany
+ */
+export type BrandKitUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update BrandKits.
+   */
+  data: Prisma.XOR<Prisma.BrandKitUpdateManyMutationInput, Prisma.BrandKitUncheckedUpdateManyInput>
+  /**
+   * Filter which BrandKits to update
+   */
+  where?: Prisma.BrandKitWhereInput
+  /**
+   * Limit how many BrandKits to update.
+   */
+  limit?: number
+}
+
+/**
+ * BrandKit updateManyAndReturn
+ */
+export type BrandKitUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BrandKit
+   */
+  select?: Prisma.BrandKitSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the BrandKit
+   */
+  omit?: Prisma.BrandKitOmit<ExtArgs> | null
+  /**
+   * The data used to update BrandKits.
+   */
+  data: Prisma.XOR<Prisma.BrandKitUpdateManyMutationInput, Prisma.BrandKitUncheckedUpdateManyInput>
+  /**
+   * Filter which BrandKits to update
+   */
+  where?: Prisma.BrandKitWhereInput
+  /**
+   * Limit how many BrandKits to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BrandKitIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * BrandKit upsert
+ */
+export type BrandKitUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BrandKit
+   */
+  select?: Prisma.BrandKitSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BrandKit
+   */
+  omit?: Prisma.BrandKitOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BrandKitInclude<ExtArgs> | null
+  /**
+   * The filter to search for the BrandKit to update in case it exists.
+   */
+  where: Prisma.BrandKitWhereUniqueInput
+  /**
+   * In case the BrandKit found by the `where` argument doesn't exist, create a new BrandKit with this data.
+   */
+  create: Prisma.XOR<Prisma.BrandKitCreateInput, Prisma.BrandKitUncheckedCreateInput>
+  /**
+   * In case the BrandKit was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.BrandKitUpdateInput, Prisma.BrandKitUncheckedUpdateInput>
+}
+
+/**
+ * BrandKit delete
+ */
+export type BrandKitDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BrandKit
+   */
+  select?: Prisma.BrandKitSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BrandKit
+   */
+  omit?: Prisma.BrandKitOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BrandKitInclude<ExtArgs> | null
+  /**
+   * Filter which BrandKit to delete.
+   */
+  where: Prisma.BrandKitWhereUniqueInput
+}
+
+/**
+ * BrandKit deleteMany
+ */
+export type BrandKitDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which BrandKits to delete
+   */
+  where?: Prisma.BrandKitWhereInput
+  /**
+   * Limit how many BrandKits to delete.
+   */
+  limit?: number
+}
+
+/**
+ * BrandKit.projects
+ */
+export type BrandKit$projectsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Project
+   */
+  select?: Prisma.ProjectSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Project
+   */
+  omit?: Prisma.ProjectOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectInclude<ExtArgs> | null
+  where?: Prisma.ProjectWhereInput
+  orderBy?: Prisma.ProjectOrderByWithRelationInput | Prisma.ProjectOrderByWithRelationInput[]
+  cursor?: Prisma.ProjectWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ProjectScalarFieldEnum | Prisma.ProjectScalarFieldEnum[]
+}
+
+/**
+ * BrandKit without action
+ */
+export type BrandKitDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BrandKit
+   */
+  select?: Prisma.BrandKitSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BrandKit
+   */
+  omit?: Prisma.BrandKitOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BrandKitInclude<ExtArgs> | null
+}
@@ -32,6 +32,7 @@ export type ChatMessageMinAggregateOutputType = {
   toolCalls: string | null
   toolCallId: string | null
   toolName: string | null
+  approval: string | null
   createdAt: Date | null
 }
 
@@ -43,6 +44,7 @@ export type ChatMessageMaxAggregateOutputType = {
   toolCalls: string | null
   toolCallId: string | null
   toolName: string | null
+  approval: string | null
   createdAt: Date | null
 }
 
@@ -54,6 +56,7 @@ export type ChatMessageCountAggregateOutputType = {
   toolCalls: number
   toolCallId: number
   toolName: number
+  approval: number
   createdAt: number
   _all: number
 }
@@ -67,6 +70,7 @@ export type ChatMessageMinAggregateInputType = {
   toolCalls?: true
   toolCallId?: true
   toolName?: true
+  approval?: true
   createdAt?: true
 }
 
@@ -78,6 +82,7 @@ export type ChatMessageMaxAggregateInputType = {
   toolCalls?: true
   toolCallId?: true
   toolName?: true
+  approval?: true
   createdAt?: true
 }
 
@@ -89,6 +94,7 @@ export type ChatMessageCountAggregateInputType = {
   toolCalls?: true
   toolCallId?: true
   toolName?: true
+  approval?: true
   createdAt?: true
   _all?: true
 }
@@ -173,6 +179,7 @@ export type ChatMessageGroupByOutputType = {
   toolCalls: string | null
   toolCallId: string | null
   toolName: string | null
+  approval: string | null
   createdAt: Date
   _count: ChatMessageCountAggregateOutputType | null
   _min: ChatMessageMinAggregateOutputType | null
@@ -205,6 +212,7 @@ export type ChatMessageWhereInput = {
   toolCalls?: Prisma.StringNullableFilter<"ChatMessage"> | string | null
   toolCallId?: Prisma.StringNullableFilter<"ChatMessage"> | string | null
   toolName?: Prisma.StringNullableFilter<"ChatMessage"> | string | null
+  approval?: Prisma.StringNullableFilter<"ChatMessage"> | string | null
   createdAt?: Prisma.DateTimeFilter<"ChatMessage"> | Date | string
   project?: Prisma.XOR<Prisma.ProjectScalarRelationFilter, Prisma.ProjectWhereInput>
 }
@@ -217,6 +225,7 @@ export type ChatMessageOrderByWithRelationInput = {
   toolCalls?: Prisma.SortOrderInput | Prisma.SortOrder
   toolCallId?: Prisma.SortOrderInput | Prisma.SortOrder
   toolName?: Prisma.SortOrderInput | Prisma.SortOrder
+  approval?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   project?: Prisma.ProjectOrderByWithRelationInput
 }
@@ -232,6 +241,7 @@ export type ChatMessageWhereUniqueInput = Prisma.AtLeast<{
   toolCalls?: Prisma.StringNullableFilter<"ChatMessage"> | string | null
   toolCallId?: Prisma.StringNullableFilter<"ChatMessage"> | string | null
   toolName?: Prisma.StringNullableFilter<"ChatMessage"> | string | null
+  approval?: Prisma.StringNullableFilter<"ChatMessage"> | string | null
   createdAt?: Prisma.DateTimeFilter<"ChatMessage"> | Date | string
   project?: Prisma.XOR<Prisma.ProjectScalarRelationFilter, Prisma.ProjectWhereInput>
 }, "id">
@@ -244,6 +254,7 @@ export type ChatMessageOrderByWithAggregationInput = {
   toolCalls?: Prisma.SortOrderInput | Prisma.SortOrder
   toolCallId?: Prisma.SortOrderInput | Prisma.SortOrder
   toolName?: Prisma.SortOrderInput | Prisma.SortOrder
+  approval?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   _count?: Prisma.ChatMessageCountOrderByAggregateInput
   _max?: Prisma.ChatMessageMaxOrderByAggregateInput
@@ -261,6 +272,7 @@ export type ChatMessageScalarWhereWithAggregatesInput = {
   toolCalls?: Prisma.StringNullableWithAggregatesFilter<"ChatMessage"> | string | null
   toolCallId?: Prisma.StringNullableWithAggregatesFilter<"ChatMessage"> | string | null
   toolName?: Prisma.StringNullableWithAggregatesFilter<"ChatMessage"> | string | null
+  approval?: Prisma.StringNullableWithAggregatesFilter<"ChatMessage"> | string | null
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"ChatMessage"> | Date | string
 }
 
@@ -271,6 +283,7 @@ export type ChatMessageCreateInput = {
   toolCalls?: string | null
   toolCallId?: string | null
   toolName?: string | null
+  approval?: string | null
   createdAt?: Date | string
   project: Prisma.ProjectCreateNestedOneWithoutChatMessagesInput
 }
@@ -283,6 +296,7 @@ export type ChatMessageUncheckedCreateInput = {
   toolCalls?: string | null
   toolCallId?: string | null
   toolName?: string | null
+  approval?: string | null
   createdAt?: Date | string
 }
 
@@ -293,6 +307,7 @@ export type ChatMessageUpdateInput = {
   toolCalls?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   toolCallId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   toolName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  approval?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   project?: Prisma.ProjectUpdateOneRequiredWithoutChatMessagesNestedInput
 }
@@ -305,6 +320,7 @@ export type ChatMessageUncheckedUpdateInput = {
   toolCalls?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   toolCallId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   toolName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  approval?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
@@ -316,6 +332,7 @@ export type ChatMessageCreateManyInput = {
   toolCalls?: string | null
   toolCallId?: string | null
   toolName?: string | null
+  approval?: string | null
   createdAt?: Date | string
 }
 
@@ -326,6 +343,7 @@ export type ChatMessageUpdateManyMutationInput = {
   toolCalls?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   toolCallId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   toolName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  approval?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
@@ -337,6 +355,7 @@ export type ChatMessageUncheckedUpdateManyInput = {
   toolCalls?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   toolCallId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   toolName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  approval?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
@@ -358,6 +377,7 @@ export type ChatMessageCountOrderByAggregateInput = {
   toolCalls?: Prisma.SortOrder
   toolCallId?: Prisma.SortOrder
   toolName?: Prisma.SortOrder
+  approval?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
 }
 
@@ -369,6 +389,7 @@ export type ChatMessageMaxOrderByAggregateInput = {
   toolCalls?: Prisma.SortOrder
   toolCallId?: Prisma.SortOrder
   toolName?: Prisma.SortOrder
+  approval?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
 }
 
@@ -380,6 +401,7 @@ export type ChatMessageMinOrderByAggregateInput = {
   toolCalls?: Prisma.SortOrder
   toolCallId?: Prisma.SortOrder
   toolName?: Prisma.SortOrder
+  approval?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
 }
 
@@ -432,6 +454,7 @@ export type ChatMessageCreateWithoutProjectInput = {
   toolCalls?: string | null
   toolCallId?: string | null
   toolName?: string | null
+  approval?: string | null
   createdAt?: Date | string
 }
 
@@ -442,6 +465,7 @@ export type ChatMessageUncheckedCreateWithoutProjectInput = {
   toolCalls?: string | null
   toolCallId?: string | null
   toolName?: string | null
+  approval?: string | null
   createdAt?: Date | string
 }
 
@@ -481,6 +505,7 @@ export type ChatMessageScalarWhereInput = {
   toolCalls?: Prisma.StringNullableFilter<"ChatMessage"> | string | null
   toolCallId?: Prisma.StringNullableFilter<"ChatMessage"> | string | null
   toolName?: Prisma.StringNullableFilter<"ChatMessage"> | string | null
+  approval?: Prisma.StringNullableFilter<"ChatMessage"> | string | null
   createdAt?: Prisma.DateTimeFilter<"ChatMessage"> | Date | string
 }
 
@@ -491,6 +516,7 @@ export type ChatMessageCreateManyProjectInput = {
   toolCalls?: string | null
   toolCallId?: string | null
   toolName?: string | null
+  approval?: string | null
   createdAt?: Date | string
 }
 
@@ -501,6 +527,7 @@ export type ChatMessageUpdateWithoutProjectInput = {
   toolCalls?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   toolCallId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   toolName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  approval?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
@@ -511,6 +538,7 @@ export type ChatMessageUncheckedUpdateWithoutProjectInput = {
   toolCalls?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   toolCallId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   toolName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  approval?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
@@ -521,6 +549,7 @@ export type ChatMessageUncheckedUpdateManyWithoutProjectInput = {
   toolCalls?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   toolCallId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   toolName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  approval?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
@@ -534,6 +563,7 @@ export type ChatMessageSelect<ExtArgs extends runtime.Types.Extensions.InternalA
   toolCalls?: boolean
   toolCallId?: boolean
   toolName?: boolean
+  approval?: boolean
   createdAt?: boolean
   project?: boolean | Prisma.ProjectDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["chatMessage"]>
@@ -546,6 +576,7 @@ export type ChatMessageSelectCreateManyAndReturn<ExtArgs extends runtime.Types.E
   toolCalls?: boolean
   toolCallId?: boolean
   toolName?: boolean
+  approval?: boolean
   createdAt?: boolean
   project?: boolean | Prisma.ProjectDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["chatMessage"]>
@@ -558,6 +589,7 @@ export type ChatMessageSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.E
   toolCalls?: boolean
   toolCallId?: boolean
   toolName?: boolean
+  approval?: boolean
   createdAt?: boolean
   project?: boolean | Prisma.ProjectDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["chatMessage"]>
@@ -570,10 +602,11 @@ export type ChatMessageSelectScalar = {
   toolCalls?: boolean
   toolCallId?: boolean
   toolName?: boolean
+  approval?: boolean
   createdAt?: boolean
 }
 
-export type ChatMessageOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "projectId" | "role" | "content" | "toolCalls" | "toolCallId" | "toolName" | "createdAt", ExtArgs["result"]["chatMessage"]>
+export type ChatMessageOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "projectId" | "role" | "content" | "toolCalls" | "toolCallId" | "toolName" | "approval" | "createdAt", ExtArgs["result"]["chatMessage"]>
 export type ChatMessageInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   project?: boolean | Prisma.ProjectDefaultArgs<ExtArgs>
 }
@@ -597,6 +630,7 @@ export type $ChatMessagePayload<ExtArgs extends runtime.Types.Extensions.Interna
     toolCalls: string | null
     toolCallId: string | null
     toolName: string | null
+    approval: string | null
     createdAt: Date
   }, ExtArgs["result"]["chatMessage"]>
   composites: {}
@@ -1029,6 +1063,7 @@ export interface ChatMessageFieldRefs {
   readonly toolCalls: Prisma.FieldRef<"ChatMessage", 'String'>
   readonly toolCallId: Prisma.FieldRef<"ChatMessage", 'String'>
   readonly toolName: Prisma.FieldRef<"ChatMessage", 'String'>
+  readonly approval: Prisma.FieldRef<"ChatMessage", 'String'>
   readonly createdAt: Prisma.FieldRef<"ChatMessage", 'DateTime'>
 }
     
@@ -27,6 +27,7 @@ export type AggregateProject = {
 }
 
 export type ProjectAvgAggregateOutputType = {
+  manifestVersion: number | null
   width: number | null
   height: number | null
   fps: number | null
@@ -34,6 +35,7 @@ export type ProjectAvgAggregateOutputType = {
 }
 
 export type ProjectSumAggregateOutputType = {
+  manifestVersion: number | null
   width: number | null
   height: number | null
   fps: number | null
@@ -46,6 +48,7 @@ export type ProjectMinAggregateOutputType = {
   userId: string | null
   folderId: string | null
   manifest: string | null
+  manifestVersion: number | null
   width: number | null
   height: number | null
   fps: number | null
@@ -53,6 +56,9 @@ export type ProjectMinAggregateOutputType = {
   status: string | null
   outputUrl: string | null
   thumbnailUrl: string | null
+  headRevisionId: string | null
+  brandKitId: string | null
+  templateId: string | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -63,6 +69,7 @@ export type ProjectMaxAggregateOutputType = {
   userId: string | null
   folderId: string | null
   manifest: string | null
+  manifestVersion: number | null
   width: number | null
   height: number | null
   fps: number | null
@@ -70,6 +77,9 @@ export type ProjectMaxAggregateOutputType = {
   status: string | null
   outputUrl: string | null
   thumbnailUrl: string | null
+  headRevisionId: string | null
+  brandKitId: string | null
+  templateId: string | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -80,6 +90,7 @@ export type ProjectCountAggregateOutputType = {
   userId: number
   folderId: number
   manifest: number
+  manifestVersion: number
   width: number
   height: number
   fps: number
@@ -87,6 +98,9 @@ export type ProjectCountAggregateOutputType = {
   status: number
   outputUrl: number
   thumbnailUrl: number
+  headRevisionId: number
+  brandKitId: number
+  templateId: number
   createdAt: number
   updatedAt: number
   _all: number
@@ -94,6 +108,7 @@ export type ProjectCountAggregateOutputType = {
 
 
 export type ProjectAvgAggregateInputType = {
+  manifestVersion?: true
   width?: true
   height?: true
   fps?: true
@@ -101,6 +116,7 @@ export type ProjectAvgAggregateInputType = {
 }
 
 export type ProjectSumAggregateInputType = {
+  manifestVersion?: true
   width?: true
   height?: true
   fps?: true
@@ -113,6 +129,7 @@ export type ProjectMinAggregateInputType = {
   userId?: true
   folderId?: true
   manifest?: true
+  manifestVersion?: true
   width?: true
   height?: true
   fps?: true
@@ -120,6 +137,9 @@ export type ProjectMinAggregateInputType = {
   status?: true
   outputUrl?: true
   thumbnailUrl?: true
+  headRevisionId?: true
+  brandKitId?: true
+  templateId?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -130,6 +150,7 @@ export type ProjectMaxAggregateInputType = {
   userId?: true
   folderId?: true
   manifest?: true
+  manifestVersion?: true
   width?: true
   height?: true
   fps?: true
@@ -137,6 +158,9 @@ export type ProjectMaxAggregateInputType = {
   status?: true
   outputUrl?: true
   thumbnailUrl?: true
+  headRevisionId?: true
+  brandKitId?: true
+  templateId?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -147,6 +171,7 @@ export type ProjectCountAggregateInputType = {
   userId?: true
   folderId?: true
   manifest?: true
+  manifestVersion?: true
   width?: true
   height?: true
   fps?: true
@@ -154,6 +179,9 @@ export type ProjectCountAggregateInputType = {
   status?: true
   outputUrl?: true
   thumbnailUrl?: true
+  headRevisionId?: true
+  brandKitId?: true
+  templateId?: true
   createdAt?: true
   updatedAt?: true
   _all?: true
@@ -251,6 +279,7 @@ export type ProjectGroupByOutputType = {
   userId: string
   folderId: string | null
   manifest: string
+  manifestVersion: number
   width: number
   height: number
   fps: number
@@ -258,6 +287,9 @@ export type ProjectGroupByOutputType = {
   status: string
   outputUrl: string | null
   thumbnailUrl: string | null
+  headRevisionId: string | null
+  brandKitId: string | null
+  templateId: string | null
   createdAt: Date
   updatedAt: Date
   _count: ProjectCountAggregateOutputType | null
@@ -291,6 +323,7 @@ export type ProjectWhereInput = {
   userId?: Prisma.StringFilter<"Project"> | string
   folderId?: Prisma.StringNullableFilter<"Project"> | string | null
   manifest?: Prisma.StringFilter<"Project"> | string
+  manifestVersion?: Prisma.IntFilter<"Project"> | number
   width?: Prisma.IntFilter<"Project"> | number
   height?: Prisma.IntFilter<"Project"> | number
   fps?: Prisma.IntFilter<"Project"> | number
@@ -298,13 +331,19 @@ export type ProjectWhereInput = {
   status?: Prisma.StringFilter<"Project"> | string
   outputUrl?: Prisma.StringNullableFilter<"Project"> | string | null
   thumbnailUrl?: Prisma.StringNullableFilter<"Project"> | string | null
+  headRevisionId?: Prisma.StringNullableFilter<"Project"> | string | null
+  brandKitId?: Prisma.StringNullableFilter<"Project"> | string | null
+  templateId?: Prisma.StringNullableFilter<"Project"> | string | null
   createdAt?: Prisma.DateTimeFilter<"Project"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Project"> | Date | string
   user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
   folder?: Prisma.XOR<Prisma.ProjectFolderNullableScalarRelationFilter, Prisma.ProjectFolderWhereInput> | null
+  brandKit?: Prisma.XOR<Prisma.BrandKitNullableScalarRelationFilter, Prisma.BrandKitWhereInput> | null
+  template?: Prisma.XOR<Prisma.ProjectTemplateNullableScalarRelationFilter, Prisma.ProjectTemplateWhereInput> | null
   assets?: Prisma.AssetListRelationFilter
   generationJobs?: Prisma.GenerationJobListRelationFilter
   chatMessages?: Prisma.ChatMessageListRelationFilter
+  revisions?: Prisma.ProjectRevisionListRelationFilter
 }
 
 export type ProjectOrderByWithRelationInput = {
@@ -313,6 +352,7 @@ export type ProjectOrderByWithRelationInput = {
   userId?: Prisma.SortOrder
   folderId?: Prisma.SortOrderInput | Prisma.SortOrder
   manifest?: Prisma.SortOrder
+  manifestVersion?: Prisma.SortOrder
   width?: Prisma.SortOrder
   height?: Prisma.SortOrder
   fps?: Prisma.SortOrder
@@ -320,13 +360,19 @@ export type ProjectOrderByWithRelationInput = {
   status?: Prisma.SortOrder
   outputUrl?: Prisma.SortOrderInput | Prisma.SortOrder
   thumbnailUrl?: Prisma.SortOrderInput | Prisma.SortOrder
+  headRevisionId?: Prisma.SortOrderInput | Prisma.SortOrder
+  brandKitId?: Prisma.SortOrderInput | Prisma.SortOrder
+  templateId?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   user?: Prisma.UserOrderByWithRelationInput
   folder?: Prisma.ProjectFolderOrderByWithRelationInput
+  brandKit?: Prisma.BrandKitOrderByWithRelationInput
+  template?: Prisma.ProjectTemplateOrderByWithRelationInput
   assets?: Prisma.AssetOrderByRelationAggregateInput
   generationJobs?: Prisma.GenerationJobOrderByRelationAggregateInput
   chatMessages?: Prisma.ChatMessageOrderByRelationAggregateInput
+  revisions?: Prisma.ProjectRevisionOrderByRelationAggregateInput
 }
 
 export type ProjectWhereUniqueInput = Prisma.AtLeast<{
@@ -338,6 +384,7 @@ export type ProjectWhereUniqueInput = Prisma.AtLeast<{
   userId?: Prisma.StringFilter<"Project"> | string
   folderId?: Prisma.StringNullableFilter<"Project"> | string | null
   manifest?: Prisma.StringFilter<"Project"> | string
+  manifestVersion?: Prisma.IntFilter<"Project"> | number
   width?: Prisma.IntFilter<"Project"> | number
   height?: Prisma.IntFilter<"Project"> | number
   fps?: Prisma.IntFilter<"Project"> | number
@@ -345,13 +392,19 @@ export type ProjectWhereUniqueInput = Prisma.AtLeast<{
   status?: Prisma.StringFilter<"Project"> | string
   outputUrl?: Prisma.StringNullableFilter<"Project"> | string | null
   thumbnailUrl?: Prisma.StringNullableFilter<"Project"> | string | null
+  headRevisionId?: Prisma.StringNullableFilter<"Project"> | string | null
+  brandKitId?: Prisma.StringNullableFilter<"Project"> | string | null
+  templateId?: Prisma.StringNullableFilter<"Project"> | string | null
   createdAt?: Prisma.DateTimeFilter<"Project"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Project"> | Date | string
   user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
   folder?: Prisma.XOR<Prisma.ProjectFolderNullableScalarRelationFilter, Prisma.ProjectFolderWhereInput> | null
+  brandKit?: Prisma.XOR<Prisma.BrandKitNullableScalarRelationFilter, Prisma.BrandKitWhereInput> | null
+  template?: Prisma.XOR<Prisma.ProjectTemplateNullableScalarRelationFilter, Prisma.ProjectTemplateWhereInput> | null
   assets?: Prisma.AssetListRelationFilter
   generationJobs?: Prisma.GenerationJobListRelationFilter
   chatMessages?: Prisma.ChatMessageListRelationFilter
+  revisions?: Prisma.ProjectRevisionListRelationFilter
 }, "id">
 
 export type ProjectOrderByWithAggregationInput = {
@@ -360,6 +413,7 @@ export type ProjectOrderByWithAggregationInput = {
   userId?: Prisma.SortOrder
   folderId?: Prisma.SortOrderInput | Prisma.SortOrder
   manifest?: Prisma.SortOrder
+  manifestVersion?: Prisma.SortOrder
   width?: Prisma.SortOrder
   height?: Prisma.SortOrder
   fps?: Prisma.SortOrder
@@ -367,6 +421,9 @@ export type ProjectOrderByWithAggregationInput = {
   status?: Prisma.SortOrder
   outputUrl?: Prisma.SortOrderInput | Prisma.SortOrder
   thumbnailUrl?: Prisma.SortOrderInput | Prisma.SortOrder
+  headRevisionId?: Prisma.SortOrderInput | Prisma.SortOrder
+  brandKitId?: Prisma.SortOrderInput | Prisma.SortOrder
+  templateId?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   _count?: Prisma.ProjectCountOrderByAggregateInput
@@ -385,6 +442,7 @@ export type ProjectScalarWhereWithAggregatesInput = {
   userId?: Prisma.StringWithAggregatesFilter<"Project"> | string
   folderId?: Prisma.StringNullableWithAggregatesFilter<"Project"> | string | null
   manifest?: Prisma.StringWithAggregatesFilter<"Project"> | string
+  manifestVersion?: Prisma.IntWithAggregatesFilter<"Project"> | number
   width?: Prisma.IntWithAggregatesFilter<"Project"> | number
   height?: Prisma.IntWithAggregatesFilter<"Project"> | number
   fps?: Prisma.IntWithAggregatesFilter<"Project"> | number
@@ -392,6 +450,9 @@ export type ProjectScalarWhereWithAggregatesInput = {
   status?: Prisma.StringWithAggregatesFilter<"Project"> | string
   outputUrl?: Prisma.StringNullableWithAggregatesFilter<"Project"> | string | null
   thumbnailUrl?: Prisma.StringNullableWithAggregatesFilter<"Project"> | string | null
+  headRevisionId?: Prisma.StringNullableWithAggregatesFilter<"Project"> | string | null
+  brandKitId?: Prisma.StringNullableWithAggregatesFilter<"Project"> | string | null
+  templateId?: Prisma.StringNullableWithAggregatesFilter<"Project"> | string | null
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"Project"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Project"> | Date | string
 }
@@ -400,6 +461,7 @@ export type ProjectCreateInput = {
   id?: string
   name: string
   manifest?: string
+  manifestVersion?: number
   width?: number
   height?: number
   fps?: number
@@ -407,13 +469,17 @@ export type ProjectCreateInput = {
   status?: string
   outputUrl?: string | null
   thumbnailUrl?: string | null
+  headRevisionId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   user: Prisma.UserCreateNestedOneWithoutProjectsInput
   folder?: Prisma.ProjectFolderCreateNestedOneWithoutProjectsInput
+  brandKit?: Prisma.BrandKitCreateNestedOneWithoutProjectsInput
+  template?: Prisma.ProjectTemplateCreateNestedOneWithoutProjectsInput
   assets?: Prisma.AssetCreateNestedManyWithoutProjectInput
   generationJobs?: Prisma.GenerationJobCreateNestedManyWithoutProjectInput
   chatMessages?: Prisma.ChatMessageCreateNestedManyWithoutProjectInput
+  revisions?: Prisma.ProjectRevisionCreateNestedManyWithoutProjectInput
 }
 
 export type ProjectUncheckedCreateInput = {
@@ -422,6 +488,7 @@ export type ProjectUncheckedCreateInput = {
   userId: string
   folderId?: string | null
   manifest?: string
+  manifestVersion?: number
   width?: number
   height?: number
   fps?: number
@@ -429,17 +496,22 @@ export type ProjectUncheckedCreateInput = {
   status?: string
   outputUrl?: string | null
   thumbnailUrl?: string | null
+  headRevisionId?: string | null
+  brandKitId?: string | null
+  templateId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   assets?: Prisma.AssetUncheckedCreateNestedManyWithoutProjectInput
   generationJobs?: Prisma.GenerationJobUncheckedCreateNestedManyWithoutProjectInput
   chatMessages?: Prisma.ChatMessageUncheckedCreateNestedManyWithoutProjectInput
+  revisions?: Prisma.ProjectRevisionUncheckedCreateNestedManyWithoutProjectInput
 }
 
 export type ProjectUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   manifest?: Prisma.StringFieldUpdateOperationsInput | string
+  manifestVersion?: Prisma.IntFieldUpdateOperationsInput | number
   width?: Prisma.IntFieldUpdateOperationsInput | number
   height?: Prisma.IntFieldUpdateOperationsInput | number
   fps?: Prisma.IntFieldUpdateOperationsInput | number
@@ -447,13 +519,17 @@ export type ProjectUpdateInput = {
   status?: Prisma.StringFieldUpdateOperationsInput | string
   outputUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   thumbnailUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  headRevisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   user?: Prisma.UserUpdateOneRequiredWithoutProjectsNestedInput
   folder?: Prisma.ProjectFolderUpdateOneWithoutProjectsNestedInput
+  brandKit?: Prisma.BrandKitUpdateOneWithoutProjectsNestedInput
+  template?: Prisma.ProjectTemplateUpdateOneWithoutProjectsNestedInput
   assets?: Prisma.AssetUpdateManyWithoutProjectNestedInput
   generationJobs?: Prisma.GenerationJobUpdateManyWithoutProjectNestedInput
   chatMessages?: Prisma.ChatMessageUpdateManyWithoutProjectNestedInput
+  revisions?: Prisma.ProjectRevisionUpdateManyWithoutProjectNestedInput
 }
 
 export type ProjectUncheckedUpdateInput = {
@@ -462,6 +538,7 @@ export type ProjectUncheckedUpdateInput = {
   userId?: Prisma.StringFieldUpdateOperationsInput | string
   folderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   manifest?: Prisma.StringFieldUpdateOperationsInput | string
+  manifestVersion?: Prisma.IntFieldUpdateOperationsInput | number
   width?: Prisma.IntFieldUpdateOperationsInput | number
   height?: Prisma.IntFieldUpdateOperationsInput | number
   fps?: Prisma.IntFieldUpdateOperationsInput | number
@@ -469,11 +546,15 @@ export type ProjectUncheckedUpdateInput = {
   status?: Prisma.StringFieldUpdateOperationsInput | string
   outputUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   thumbnailUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  headRevisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  brandKitId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  templateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   assets?: Prisma.AssetUncheckedUpdateManyWithoutProjectNestedInput
   generationJobs?: Prisma.GenerationJobUncheckedUpdateManyWithoutProjectNestedInput
   chatMessages?: Prisma.ChatMessageUncheckedUpdateManyWithoutProjectNestedInput
+  revisions?: Prisma.ProjectRevisionUncheckedUpdateManyWithoutProjectNestedInput
 }
 
 export type ProjectCreateManyInput = {
@@ -482,6 +563,7 @@ export type ProjectCreateManyInput = {
   userId: string
   folderId?: string | null
   manifest?: string
+  manifestVersion?: number
   width?: number
   height?: number
   fps?: number
@@ -489,6 +571,9 @@ export type ProjectCreateManyInput = {
   status?: string
   outputUrl?: string | null
   thumbnailUrl?: string | null
+  headRevisionId?: string | null
+  brandKitId?: string | null
+  templateId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -497,6 +582,7 @@ export type ProjectUpdateManyMutationInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   manifest?: Prisma.StringFieldUpdateOperationsInput | string
+  manifestVersion?: Prisma.IntFieldUpdateOperationsInput | number
   width?: Prisma.IntFieldUpdateOperationsInput | number
   height?: Prisma.IntFieldUpdateOperationsInput | number
   fps?: Prisma.IntFieldUpdateOperationsInput | number
@@ -504,6 +590,7 @@ export type ProjectUpdateManyMutationInput = {
   status?: Prisma.StringFieldUpdateOperationsInput | string
   outputUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   thumbnailUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  headRevisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -514,6 +601,7 @@ export type ProjectUncheckedUpdateManyInput = {
   userId?: Prisma.StringFieldUpdateOperationsInput | string
   folderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   manifest?: Prisma.StringFieldUpdateOperationsInput | string
+  manifestVersion?: Prisma.IntFieldUpdateOperationsInput | number
   width?: Prisma.IntFieldUpdateOperationsInput | number
   height?: Prisma.IntFieldUpdateOperationsInput | number
   fps?: Prisma.IntFieldUpdateOperationsInput | number
@@ -521,6 +609,9 @@ export type ProjectUncheckedUpdateManyInput = {
   status?: Prisma.StringFieldUpdateOperationsInput | string
   outputUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   thumbnailUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  headRevisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  brandKitId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  templateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -541,6 +632,7 @@ export type ProjectCountOrderByAggregateInput = {
   userId?: Prisma.SortOrder
   folderId?: Prisma.SortOrder
   manifest?: Prisma.SortOrder
+  manifestVersion?: Prisma.SortOrder
   width?: Prisma.SortOrder
   height?: Prisma.SortOrder
   fps?: Prisma.SortOrder
@@ -548,11 +640,15 @@ export type ProjectCountOrderByAggregateInput = {
   status?: Prisma.SortOrder
   outputUrl?: Prisma.SortOrder
   thumbnailUrl?: Prisma.SortOrder
+  headRevisionId?: Prisma.SortOrder
+  brandKitId?: Prisma.SortOrder
+  templateId?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
 
 export type ProjectAvgOrderByAggregateInput = {
+  manifestVersion?: Prisma.SortOrder
   width?: Prisma.SortOrder
   height?: Prisma.SortOrder
   fps?: Prisma.SortOrder
@@ -565,6 +661,7 @@ export type ProjectMaxOrderByAggregateInput = {
   userId?: Prisma.SortOrder
   folderId?: Prisma.SortOrder
   manifest?: Prisma.SortOrder
+  manifestVersion?: Prisma.SortOrder
   width?: Prisma.SortOrder
   height?: Prisma.SortOrder
   fps?: Prisma.SortOrder
@@ -572,6 +669,9 @@ export type ProjectMaxOrderByAggregateInput = {
   status?: Prisma.SortOrder
   outputUrl?: Prisma.SortOrder
   thumbnailUrl?: Prisma.SortOrder
+  headRevisionId?: Prisma.SortOrder
+  brandKitId?: Prisma.SortOrder
+  templateId?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -582,6 +682,7 @@ export type ProjectMinOrderByAggregateInput = {
   userId?: Prisma.SortOrder
   folderId?: Prisma.SortOrder
   manifest?: Prisma.SortOrder
+  manifestVersion?: Prisma.SortOrder
   width?: Prisma.SortOrder
   height?: Prisma.SortOrder
   fps?: Prisma.SortOrder
@@ -589,27 +690,31 @@ export type ProjectMinOrderByAggregateInput = {
   status?: Prisma.SortOrder
   outputUrl?: Prisma.SortOrder
   thumbnailUrl?: Prisma.SortOrder
+  headRevisionId?: Prisma.SortOrder
+  brandKitId?: Prisma.SortOrder
+  templateId?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
 
 export type ProjectSumOrderByAggregateInput = {
+  manifestVersion?: Prisma.SortOrder
   width?: Prisma.SortOrder
   height?: Prisma.SortOrder
   fps?: Prisma.SortOrder
   duration?: Prisma.SortOrder
 }
 
-export type ProjectNullableScalarRelationFilter = {
-  is?: Prisma.ProjectWhereInput | null
-  isNot?: Prisma.ProjectWhereInput | null
-}
-
 export type ProjectScalarRelationFilter = {
   is?: Prisma.ProjectWhereInput
   isNot?: Prisma.ProjectWhereInput
 }
 
+export type ProjectNullableScalarRelationFilter = {
+  is?: Prisma.ProjectWhereInput | null
+  isNot?: Prisma.ProjectWhereInput | null
+}
+
 export type ProjectCreateNestedManyWithoutUserInput = {
   create?: Prisma.XOR<Prisma.ProjectCreateWithoutUserInput, Prisma.ProjectUncheckedCreateWithoutUserInput> | Prisma.ProjectCreateWithoutUserInput[] | Prisma.ProjectUncheckedCreateWithoutUserInput[]
   connectOrCreate?: Prisma.ProjectCreateOrConnectWithoutUserInput | Prisma.ProjectCreateOrConnectWithoutUserInput[]
@@ -702,6 +807,104 @@ export type IntFieldUpdateOperationsInput = {
   divide?: number
 }
 
+export type ProjectCreateNestedManyWithoutBrandKitInput = {
+  create?: Prisma.XOR<Prisma.ProjectCreateWithoutBrandKitInput, Prisma.ProjectUncheckedCreateWithoutBrandKitInput> | Prisma.ProjectCreateWithoutBrandKitInput[] | Prisma.ProjectUncheckedCreateWithoutBrandKitInput[]
+  connectOrCreate?: Prisma.ProjectCreateOrConnectWithoutBrandKitInput | Prisma.ProjectCreateOrConnectWithoutBrandKitInput[]
+  createMany?: Prisma.ProjectCreateManyBrandKitInputEnvelope
+  connect?: Prisma.ProjectWhereUniqueInput | Prisma.ProjectWhereUniqueInput[]
+}
+
+export type ProjectUncheckedCreateNestedManyWithoutBrandKitInput = {
+  create?: Prisma.XOR<Prisma.ProjectCreateWithoutBrandKitInput, Prisma.ProjectUncheckedCreateWithoutBrandKitInput> | Prisma.ProjectCreateWithoutBrandKitInput[] | Prisma.ProjectUncheckedCreateWithoutBrandKitInput[]
+  connectOrCreate?: Prisma.ProjectCreateOrConnectWithoutBrandKitInput | Prisma.ProjectCreateOrConnectWithoutBrandKitInput[]
+  createMany?: Prisma.ProjectCreateManyBrandKitInputEnvelope
+  connect?: Prisma.ProjectWhereUniqueInput | Prisma.ProjectWhereUniqueInput[]
+}
+
+export type ProjectUpdateManyWithoutBrandKitNestedInput = {
+  create?: Prisma.XOR<Prisma.ProjectCreateWithoutBrandKitInput, Prisma.ProjectUncheckedCreateWithoutBrandKitInput> | Prisma.ProjectCreateWithoutBrandKitInput[] | Prisma.ProjectUncheckedCreateWithoutBrandKitInput[]
+  connectOrCreate?: Prisma.ProjectCreateOrConnectWithoutBrandKitInput | Prisma.ProjectCreateOrConnectWithoutBrandKitInput[]
+  upsert?: Prisma.ProjectUpsertWithWhereUniqueWithoutBrandKitInput | Prisma.ProjectUpsertWithWhereUniqueWithoutBrandKitInput[]
+  createMany?: Prisma.ProjectCreateManyBrandKitInputEnvelope
+  set?: Prisma.ProjectWhereUniqueInput | Prisma.ProjectWhereUniqueInput[]
+  disconnect?: Prisma.ProjectWhereUniqueInput | Prisma.ProjectWhereUniqueInput[]
+  delete?: Prisma.ProjectWhereUniqueInput | Prisma.ProjectWhereUniqueInput[]
+  connect?: Prisma.ProjectWhereUniqueInput | Prisma.ProjectWhereUniqueInput[]
+  update?: Prisma.ProjectUpdateWithWhereUniqueWithoutBrandKitInput | Prisma.ProjectUpdateWithWhereUniqueWithoutBrandKitInput[]
+  updateMany?: Prisma.ProjectUpdateManyWithWhereWithoutBrandKitInput | Prisma.ProjectUpdateManyWithWhereWithoutBrandKitInput[]
+  deleteMany?: Prisma.ProjectScalarWhereInput | Prisma.ProjectScalarWhereInput[]
+}
+
+export type ProjectUncheckedUpdateManyWithoutBrandKitNestedInput = {
+  create?: Prisma.XOR<Prisma.ProjectCreateWithoutBrandKitInput, Prisma.ProjectUncheckedCreateWithoutBrandKitInput> | Prisma.ProjectCreateWithoutBrandKitInput[] | Prisma.ProjectUncheckedCreateWithoutBrandKitInput[]
+  connectOrCreate?: Prisma.ProjectCreateOrConnectWithoutBrandKitInput | Prisma.ProjectCreateOrConnectWithoutBrandKitInput[]
+  upsert?: Prisma.ProjectUpsertWithWhereUniqueWithoutBrandKitInput | Prisma.ProjectUpsertWithWhereUniqueWithoutBrandKitInput[]
+  createMany?: Prisma.ProjectCreateManyBrandKitInputEnvelope
+  set?: Prisma.ProjectWhereUniqueInput | Prisma.ProjectWhereUniqueInput[]
+  disconnect?: Prisma.ProjectWhereUniqueInput | Prisma.ProjectWhereUniqueInput[]
+  delete?: Prisma.ProjectWhereUniqueInput | Prisma.ProjectWhereUniqueInput[]
+  connect?: Prisma.ProjectWhereUniqueInput | Prisma.ProjectWhereUniqueInput[]
+  update?: Prisma.ProjectUpdateWithWhereUniqueWithoutBrandKitInput | Prisma.ProjectUpdateWithWhereUniqueWithoutBrandKitInput[]
+  updateMany?: Prisma.ProjectUpdateManyWithWhereWithoutBrandKitInput | Prisma.ProjectUpdateManyWithWhereWithoutBrandKitInput[]
+  deleteMany?: Prisma.ProjectScalarWhereInput | Prisma.ProjectScalarWhereInput[]
+}
+
+export type ProjectCreateNestedManyWithoutTemplateInput = {
+  create?: Prisma.XOR<Prisma.ProjectCreateWithoutTemplateInput, Prisma.ProjectUncheckedCreateWithoutTemplateInput> | Prisma.ProjectCreateWithoutTemplateInput[] | Prisma.ProjectUncheckedCreateWithoutTemplateInput[]
+  connectOrCreate?: Prisma.ProjectCreateOrConnectWithoutTemplateInput | Prisma.ProjectCreateOrConnectWithoutTemplateInput[]
+  createMany?: Prisma.ProjectCreateManyTemplateInputEnvelope
+  connect?: Prisma.ProjectWhereUniqueInput | Prisma.ProjectWhereUniqueInput[]
+}
+
+export type ProjectUncheckedCreateNestedManyWithoutTemplateInput = {
+  create?: Prisma.XOR<Prisma.ProjectCreateWithoutTemplateInput, Prisma.ProjectUncheckedCreateWithoutTemplateInput> | Prisma.ProjectCreateWithoutTemplateInput[] | Prisma.ProjectUncheckedCreateWithoutTemplateInput[]
+  connectOrCreate?: Prisma.ProjectCreateOrConnectWithoutTemplateInput | Prisma.ProjectCreateOrConnectWithoutTemplateInput[]
+  createMany?: Prisma.ProjectCreateManyTemplateInputEnvelope
+  connect?: Prisma.ProjectWhereUniqueInput | Prisma.ProjectWhereUniqueInput[]
+}
+
+export type ProjectUpdateManyWithoutTemplateNestedInput = {
+  create?: Prisma.XOR<Prisma.ProjectCreateWithoutTemplateInput, Prisma.ProjectUncheckedCreateWithoutTemplateInput> | Prisma.ProjectCreateWithoutTemplateInput[] | Prisma.ProjectUncheckedCreateWithoutTemplateInput[]
+  connectOrCreate?: Prisma.ProjectCreateOrConnectWithoutTemplateInput | Prisma.ProjectCreateOrConnectWithoutTemplateInput[]
+  upsert?: Prisma.ProjectUpsertWithWhereUniqueWithoutTemplateInput | Prisma.ProjectUpsertWithWhereUniqueWithoutTemplateInput[]
+  createMany?: Prisma.ProjectCreateManyTemplateInputEnvelope
+  set?: Prisma.ProjectWhereUniqueInput | Prisma.ProjectWhereUniqueInput[]
+  disconnect?: Prisma.ProjectWhereUniqueInput | Prisma.ProjectWhereUniqueInput[]
+  delete?: Prisma.ProjectWhereUniqueInput | Prisma.ProjectWhereUniqueInput[]
+  connect?: Prisma.ProjectWhereUniqueInput | Prisma.ProjectWhereUniqueInput[]
+  update?: Prisma.ProjectUpdateWithWhereUniqueWithoutTemplateInput | Prisma.ProjectUpdateWithWhereUniqueWithoutTemplateInput[]
+  updateMany?: Prisma.ProjectUpdateManyWithWhereWithoutTemplateInput | Prisma.ProjectUpdateManyWithWhereWithoutTemplateInput[]
+  deleteMany?: Prisma.ProjectScalarWhereInput | Prisma.ProjectScalarWhereInput[]
+}
+
+export type ProjectUncheckedUpdateManyWithoutTemplateNestedInput = {
+  create?: Prisma.XOR<Prisma.ProjectCreateWithoutTemplateInput, Prisma.ProjectUncheckedCreateWithoutTemplateInput> | Prisma.ProjectCreateWithoutTemplateInput[] | Prisma.ProjectUncheckedCreateWithoutTemplateInput[]
+  connectOrCreate?: Prisma.ProjectCreateOrConnectWithoutTemplateInput | Prisma.ProjectCreateOrConnectWithoutTemplateInput[]
+  upsert?: Prisma.ProjectUpsertWithWhereUniqueWithoutTemplateInput | Prisma.ProjectUpsertWithWhereUniqueWithoutTemplateInput[]
+  createMany?: Prisma.ProjectCreateManyTemplateInputEnvelope
+  set?: Prisma.ProjectWhereUniqueInput | Prisma.ProjectWhereUniqueInput[]
+  disconnect?: Prisma.ProjectWhereUniqueInput | Prisma.ProjectWhereUniqueInput[]
+  delete?: Prisma.ProjectWhereUniqueInput | Prisma.ProjectWhereUniqueInput[]
+  connect?: Prisma.ProjectWhereUniqueInput | Prisma.ProjectWhereUniqueInput[]
+  update?: Prisma.ProjectUpdateWithWhereUniqueWithoutTemplateInput | Prisma.ProjectUpdateWithWhereUniqueWithoutTemplateInput[]
+  updateMany?: Prisma.ProjectUpdateManyWithWhereWithoutTemplateInput | Prisma.ProjectUpdateManyWithWhereWithoutTemplateInput[]
+  deleteMany?: Prisma.ProjectScalarWhereInput | Prisma.ProjectScalarWhereInput[]
+}
+
+export type ProjectCreateNestedOneWithoutRevisionsInput = {
+  create?: Prisma.XOR<Prisma.ProjectCreateWithoutRevisionsInput, Prisma.ProjectUncheckedCreateWithoutRevisionsInput>
+  connectOrCreate?: Prisma.ProjectCreateOrConnectWithoutRevisionsInput
+  connect?: Prisma.ProjectWhereUniqueInput
+}
+
+export type ProjectUpdateOneRequiredWithoutRevisionsNestedInput = {
+  create?: Prisma.XOR<Prisma.ProjectCreateWithoutRevisionsInput, Prisma.ProjectUncheckedCreateWithoutRevisionsInput>
+  connectOrCreate?: Prisma.ProjectCreateOrConnectWithoutRevisionsInput
+  upsert?: Prisma.ProjectUpsertWithoutRevisionsInput
+  connect?: Prisma.ProjectWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ProjectUpdateToOneWithWhereWithoutRevisionsInput, Prisma.ProjectUpdateWithoutRevisionsInput>, Prisma.ProjectUncheckedUpdateWithoutRevisionsInput>
+}
+
 export type ProjectCreateNestedOneWithoutAssetsInput = {
   create?: Prisma.XOR<Prisma.ProjectCreateWithoutAssetsInput, Prisma.ProjectUncheckedCreateWithoutAssetsInput>
   connectOrCreate?: Prisma.ProjectCreateOrConnectWithoutAssetsInput
@@ -752,6 +955,7 @@ export type ProjectCreateWithoutUserInput = {
   id?: string
   name: string
   manifest?: string
+  manifestVersion?: number
   width?: number
   height?: number
   fps?: number
@@ -759,12 +963,16 @@ export type ProjectCreateWithoutUserInput = {
   status?: string
   outputUrl?: string | null
   thumbnailUrl?: string | null
+  headRevisionId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   folder?: Prisma.ProjectFolderCreateNestedOneWithoutProjectsInput
+  brandKit?: Prisma.BrandKitCreateNestedOneWithoutProjectsInput
+  template?: Prisma.ProjectTemplateCreateNestedOneWithoutProjectsInput
   assets?: Prisma.AssetCreateNestedManyWithoutProjectInput
   generationJobs?: Prisma.GenerationJobCreateNestedManyWithoutProjectInput
   chatMessages?: Prisma.ChatMessageCreateNestedManyWithoutProjectInput
+  revisions?: Prisma.ProjectRevisionCreateNestedManyWithoutProjectInput
 }
 
 export type ProjectUncheckedCreateWithoutUserInput = {
@@ -772,6 +980,7 @@ export type ProjectUncheckedCreateWithoutUserInput = {
   name: string
   folderId?: string | null
   manifest?: string
+  manifestVersion?: number
   width?: number
   height?: number
   fps?: number
@@ -779,11 +988,15 @@ export type ProjectUncheckedCreateWithoutUserInput = {
   status?: string
   outputUrl?: string | null
   thumbnailUrl?: string | null
+  headRevisionId?: string | null
+  brandKitId?: string | null
+  templateId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   assets?: Prisma.AssetUncheckedCreateNestedManyWithoutProjectInput
   generationJobs?: Prisma.GenerationJobUncheckedCreateNestedManyWithoutProjectInput
   chatMessages?: Prisma.ChatMessageUncheckedCreateNestedManyWithoutProjectInput
+  revisions?: Prisma.ProjectRevisionUncheckedCreateNestedManyWithoutProjectInput
 }
 
 export type ProjectCreateOrConnectWithoutUserInput = {
@@ -820,6 +1033,7 @@ export type ProjectScalarWhereInput = {
   userId?: Prisma.StringFilter<"Project"> | string
   folderId?: Prisma.StringNullableFilter<"Project"> | string | null
   manifest?: Prisma.StringFilter<"Project"> | string
+  manifestVersion?: Prisma.IntFilter<"Project"> | number
   width?: Prisma.IntFilter<"Project"> | number
   height?: Prisma.IntFilter<"Project"> | number
   fps?: Prisma.IntFilter<"Project"> | number
@@ -827,6 +1041,9 @@ export type ProjectScalarWhereInput = {
   status?: Prisma.StringFilter<"Project"> | string
   outputUrl?: Prisma.StringNullableFilter<"Project"> | string | null
   thumbnailUrl?: Prisma.StringNullableFilter<"Project"> | string | null
+  headRevisionId?: Prisma.StringNullableFilter<"Project"> | string | null
+  brandKitId?: Prisma.StringNullableFilter<"Project"> | string | null
+  templateId?: Prisma.StringNullableFilter<"Project"> | string | null
   createdAt?: Prisma.DateTimeFilter<"Project"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Project"> | Date | string
 }
@@ -835,6 +1052,7 @@ export type ProjectCreateWithoutFolderInput = {
   id?: string
   name: string
   manifest?: string
+  manifestVersion?: number
   width?: number
   height?: number
   fps?: number
@@ -842,12 +1060,16 @@ export type ProjectCreateWithoutFolderInput = {
   status?: string
   outputUrl?: string | null
   thumbnailUrl?: string | null
+  headRevisionId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   user: Prisma.UserCreateNestedOneWithoutProjectsInput
+  brandKit?: Prisma.BrandKitCreateNestedOneWithoutProjectsInput
+  template?: Prisma.ProjectTemplateCreateNestedOneWithoutProjectsInput
   assets?: Prisma.AssetCreateNestedManyWithoutProjectInput
   generationJobs?: Prisma.GenerationJobCreateNestedManyWithoutProjectInput
   chatMessages?: Prisma.ChatMessageCreateNestedManyWithoutProjectInput
+  revisions?: Prisma.ProjectRevisionCreateNestedManyWithoutProjectInput
 }
 
 export type ProjectUncheckedCreateWithoutFolderInput = {
@@ -855,6 +1077,7 @@ export type ProjectUncheckedCreateWithoutFolderInput = {
   name: string
   userId: string
   manifest?: string
+  manifestVersion?: number
   width?: number
   height?: number
   fps?: number
@@ -862,11 +1085,15 @@ export type ProjectUncheckedCreateWithoutFolderInput = {
   status?: string
   outputUrl?: string | null
   thumbnailUrl?: string | null
+  headRevisionId?: string | null
+  brandKitId?: string | null
+  templateId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   assets?: Prisma.AssetUncheckedCreateNestedManyWithoutProjectInput
   generationJobs?: Prisma.GenerationJobUncheckedCreateNestedManyWithoutProjectInput
   chatMessages?: Prisma.ChatMessageUncheckedCreateNestedManyWithoutProjectInput
+  revisions?: Prisma.ProjectRevisionUncheckedCreateNestedManyWithoutProjectInput
 }
 
 export type ProjectCreateOrConnectWithoutFolderInput = {
@@ -894,10 +1121,269 @@ export type ProjectUpdateManyWithWhereWithoutFolderInput = {
   data: Prisma.XOR<Prisma.ProjectUpdateManyMutationInput, Prisma.ProjectUncheckedUpdateManyWithoutFolderInput>
 }
 
+export type ProjectCreateWithoutBrandKitInput = {
+  id?: string
+  name: string
+  manifest?: string
+  manifestVersion?: number
+  width?: number
+  height?: number
+  fps?: number
+  duration?: number
+  status?: string
+  outputUrl?: string | null
+  thumbnailUrl?: string | null
+  headRevisionId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutProjectsInput
+  folder?: Prisma.ProjectFolderCreateNestedOneWithoutProjectsInput
+  template?: Prisma.ProjectTemplateCreateNestedOneWithoutProjectsInput
+  assets?: Prisma.AssetCreateNestedManyWithoutProjectInput
+  generationJobs?: Prisma.GenerationJobCreateNestedManyWithoutProjectInput
+  chatMessages?: Prisma.ChatMessageCreateNestedManyWithoutProjectInput
+  revisions?: Prisma.ProjectRevisionCreateNestedManyWithoutProjectInput
+}
+
+export type ProjectUncheckedCreateWithoutBrandKitInput = {
+  id?: string
+  name: string
+  userId: string
+  folderId?: string | null
+  manifest?: string
+  manifestVersion?: number
+  width?: number
+  height?: number
+  fps?: number
+  duration?: number
+  status?: string
+  outputUrl?: string | null
+  thumbnailUrl?: string | null
+  headRevisionId?: string | null
+  templateId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  assets?: Prisma.AssetUncheckedCreateNestedManyWithoutProjectInput
+  generationJobs?: Prisma.GenerationJobUncheckedCreateNestedManyWithoutProjectInput
+  chatMessages?: Prisma.ChatMessageUncheckedCreateNestedManyWithoutProjectInput
+  revisions?: Prisma.ProjectRevisionUncheckedCreateNestedManyWithoutProjectInput
+}
+
+export type ProjectCreateOrConnectWithoutBrandKitInput = {
+  where: Prisma.ProjectWhereUniqueInput
+  create: Prisma.XOR<Prisma.ProjectCreateWithoutBrandKitInput, Prisma.ProjectUncheckedCreateWithoutBrandKitInput>
+}
+
+export type ProjectCreateManyBrandKitInputEnvelope = {
+  data: Prisma.ProjectCreateManyBrandKitInput | Prisma.ProjectCreateManyBrandKitInput[]
+}
+
+export type ProjectUpsertWithWhereUniqueWithoutBrandKitInput = {
+  where: Prisma.ProjectWhereUniqueInput
+  update: Prisma.XOR<Prisma.ProjectUpdateWithoutBrandKitInput, Prisma.ProjectUncheckedUpdateWithoutBrandKitInput>
+  create: Prisma.XOR<Prisma.ProjectCreateWithoutBrandKitInput, Prisma.ProjectUncheckedCreateWithoutBrandKitInput>
+}
+
+export type ProjectUpdateWithWhereUniqueWithoutBrandKitInput = {
+  where: Prisma.ProjectWhereUniqueInput
+  data: Prisma.XOR<Prisma.ProjectUpdateWithoutBrandKitInput, Prisma.ProjectUncheckedUpdateWithoutBrandKitInput>
+}
+
+export type ProjectUpdateManyWithWhereWithoutBrandKitInput = {
+  where: Prisma.ProjectScalarWhereInput
+  data: Prisma.XOR<Prisma.ProjectUpdateManyMutationInput, Prisma.ProjectUncheckedUpdateManyWithoutBrandKitInput>
+}
+
+export type ProjectCreateWithoutTemplateInput = {
+  id?: string
+  name: string
+  manifest?: string
+  manifestVersion?: number
+  width?: number
+  height?: number
+  fps?: number
+  duration?: number
+  status?: string
+  outputUrl?: string | null
+  thumbnailUrl?: string | null
+  headRevisionId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutProjectsInput
+  folder?: Prisma.ProjectFolderCreateNestedOneWithoutProjectsInput
+  brandKit?: Prisma.BrandKitCreateNestedOneWithoutProjectsInput
+  assets?: Prisma.AssetCreateNestedManyWithoutProjectInput
+  generationJobs?: Prisma.GenerationJobCreateNestedManyWithoutProjectInput
+  chatMessages?: Prisma.ChatMessageCreateNestedManyWithoutProjectInput
+  revisions?: Prisma.ProjectRevisionCreateNestedManyWithoutProjectInput
+}
+
+export type ProjectUncheckedCreateWithoutTemplateInput = {
+  id?: string
+  name: string
+  userId: string
+  folderId?: string | null
+  manifest?: string
+  manifestVersion?: number
+  width?: number
+  height?: number
+  fps?: number
+  duration?: number
+  status?: string
+  outputUrl?: string | null
+  thumbnailUrl?: string | null
+  headRevisionId?: string | null
+  brandKitId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  assets?: Prisma.AssetUncheckedCreateNestedManyWithoutProjectInput
+  generationJobs?: Prisma.GenerationJobUncheckedCreateNestedManyWithoutProjectInput
+  chatMessages?: Prisma.ChatMessageUncheckedCreateNestedManyWithoutProjectInput
+  revisions?: Prisma.ProjectRevisionUncheckedCreateNestedManyWithoutProjectInput
+}
+
+export type ProjectCreateOrConnectWithoutTemplateInput = {
+  where: Prisma.ProjectWhereUniqueInput
+  create: Prisma.XOR<Prisma.ProjectCreateWithoutTemplateInput, Prisma.ProjectUncheckedCreateWithoutTemplateInput>
+}
+
+export type ProjectCreateManyTemplateInputEnvelope = {
+  data: Prisma.ProjectCreateManyTemplateInput | Prisma.ProjectCreateManyTemplateInput[]
+}
+
+export type ProjectUpsertWithWhereUniqueWithoutTemplateInput = {
+  where: Prisma.ProjectWhereUniqueInput
+  update: Prisma.XOR<Prisma.ProjectUpdateWithoutTemplateInput, Prisma.ProjectUncheckedUpdateWithoutTemplateInput>
+  create: Prisma.XOR<Prisma.ProjectCreateWithoutTemplateInput, Prisma.ProjectUncheckedCreateWithoutTemplateInput>
+}
+
+export type ProjectUpdateWithWhereUniqueWithoutTemplateInput = {
+  where: Prisma.ProjectWhereUniqueInput
+  data: Prisma.XOR<Prisma.ProjectUpdateWithoutTemplateInput, Prisma.ProjectUncheckedUpdateWithoutTemplateInput>
+}
+
+export type ProjectUpdateManyWithWhereWithoutTemplateInput = {
+  where: Prisma.ProjectScalarWhereInput
+  data: Prisma.XOR<Prisma.ProjectUpdateManyMutationInput, Prisma.ProjectUncheckedUpdateManyWithoutTemplateInput>
+}
+
+export type ProjectCreateWithoutRevisionsInput = {
+  id?: string
+  name: string
+  manifest?: string
+  manifestVersion?: number
+  width?: number
+  height?: number
+  fps?: number
+  duration?: number
+  status?: string
+  outputUrl?: string | null
+  thumbnailUrl?: string | null
+  headRevisionId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutProjectsInput
+  folder?: Prisma.ProjectFolderCreateNestedOneWithoutProjectsInput
+  brandKit?: Prisma.BrandKitCreateNestedOneWithoutProjectsInput
+  template?: Prisma.ProjectTemplateCreateNestedOneWithoutProjectsInput
+  assets?: Prisma.AssetCreateNestedManyWithoutProjectInput
+  generationJobs?: Prisma.GenerationJobCreateNestedManyWithoutProjectInput
+  chatMessages?: Prisma.ChatMessageCreateNestedManyWithoutProjectInput
+}
+
+export type ProjectUncheckedCreateWithoutRevisionsInput = {
+  id?: string
+  name: string
+  userId: string
+  folderId?: string | null
+  manifest?: string
+  manifestVersion?: number
+  width?: number
+  height?: number
+  fps?: number
+  duration?: number
+  status?: string
+  outputUrl?: string | null
+  thumbnailUrl?: string | null
+  headRevisionId?: string | null
+  brandKitId?: string | null
+  templateId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  assets?: Prisma.AssetUncheckedCreateNestedManyWithoutProjectInput
+  generationJobs?: Prisma.GenerationJobUncheckedCreateNestedManyWithoutProjectInput
+  chatMessages?: Prisma.ChatMessageUncheckedCreateNestedManyWithoutProjectInput
+}
+
+export type ProjectCreateOrConnectWithoutRevisionsInput = {
+  where: Prisma.ProjectWhereUniqueInput
+  create: Prisma.XOR<Prisma.ProjectCreateWithoutRevisionsInput, Prisma.ProjectUncheckedCreateWithoutRevisionsInput>
+}
+
+export type ProjectUpsertWithoutRevisionsInput = {
+  update: Prisma.XOR<Prisma.ProjectUpdateWithoutRevisionsInput, Prisma.ProjectUncheckedUpdateWithoutRevisionsInput>
+  create: Prisma.XOR<Prisma.ProjectCreateWithoutRevisionsInput, Prisma.ProjectUncheckedCreateWithoutRevisionsInput>
+  where?: Prisma.ProjectWhereInput
+}
+
+export type ProjectUpdateToOneWithWhereWithoutRevisionsInput = {
+  where?: Prisma.ProjectWhereInput
+  data: Prisma.XOR<Prisma.ProjectUpdateWithoutRevisionsInput, Prisma.ProjectUncheckedUpdateWithoutRevisionsInput>
+}
+
+export type ProjectUpdateWithoutRevisionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  manifest?: Prisma.StringFieldUpdateOperationsInput | string
+  manifestVersion?: Prisma.IntFieldUpdateOperationsInput | number
+  width?: Prisma.IntFieldUpdateOperationsInput | number
+  height?: Prisma.IntFieldUpdateOperationsInput | number
+  fps?: Prisma.IntFieldUpdateOperationsInput | number
+  duration?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  outputUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  thumbnailUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  headRevisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutProjectsNestedInput
+  folder?: Prisma.ProjectFolderUpdateOneWithoutProjectsNestedInput
+  brandKit?: Prisma.BrandKitUpdateOneWithoutProjectsNestedInput
+  template?: Prisma.ProjectTemplateUpdateOneWithoutProjectsNestedInput
+  assets?: Prisma.AssetUpdateManyWithoutProjectNestedInput
+  generationJobs?: Prisma.GenerationJobUpdateManyWithoutProjectNestedInput
+  chatMessages?: Prisma.ChatMessageUpdateManyWithoutProjectNestedInput
+}
+
+export type ProjectUncheckedUpdateWithoutRevisionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  folderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  manifest?: Prisma.StringFieldUpdateOperationsInput | string
+  manifestVersion?: Prisma.IntFieldUpdateOperationsInput | number
+  width?: Prisma.IntFieldUpdateOperationsInput | number
+  height?: Prisma.IntFieldUpdateOperationsInput | number
+  fps?: Prisma.IntFieldUpdateOperationsInput | number
+  duration?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  outputUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  thumbnailUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  headRevisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  brandKitId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  templateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  assets?: Prisma.AssetUncheckedUpdateManyWithoutProjectNestedInput
+  generationJobs?: Prisma.GenerationJobUncheckedUpdateManyWithoutProjectNestedInput
+  chatMessages?: Prisma.ChatMessageUncheckedUpdateManyWithoutProjectNestedInput
+}
+
 export type ProjectCreateWithoutAssetsInput = {
   id?: string
   name: string
   manifest?: string
+  manifestVersion?: number
   width?: number
   height?: number
   fps?: number
@@ -905,12 +1391,16 @@ export type ProjectCreateWithoutAssetsInput = {
   status?: string
   outputUrl?: string | null
   thumbnailUrl?: string | null
+  headRevisionId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   user: Prisma.UserCreateNestedOneWithoutProjectsInput
   folder?: Prisma.ProjectFolderCreateNestedOneWithoutProjectsInput
+  brandKit?: Prisma.BrandKitCreateNestedOneWithoutProjectsInput
+  template?: Prisma.ProjectTemplateCreateNestedOneWithoutProjectsInput
   generationJobs?: Prisma.GenerationJobCreateNestedManyWithoutProjectInput
   chatMessages?: Prisma.ChatMessageCreateNestedManyWithoutProjectInput
+  revisions?: Prisma.ProjectRevisionCreateNestedManyWithoutProjectInput
 }
 
 export type ProjectUncheckedCreateWithoutAssetsInput = {
@@ -919,6 +1409,7 @@ export type ProjectUncheckedCreateWithoutAssetsInput = {
   userId: string
   folderId?: string | null
   manifest?: string
+  manifestVersion?: number
   width?: number
   height?: number
   fps?: number
@@ -926,10 +1417,14 @@ export type ProjectUncheckedCreateWithoutAssetsInput = {
   status?: string
   outputUrl?: string | null
   thumbnailUrl?: string | null
+  headRevisionId?: string | null
+  brandKitId?: string | null
+  templateId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   generationJobs?: Prisma.GenerationJobUncheckedCreateNestedManyWithoutProjectInput
   chatMessages?: Prisma.ChatMessageUncheckedCreateNestedManyWithoutProjectInput
+  revisions?: Prisma.ProjectRevisionUncheckedCreateNestedManyWithoutProjectInput
 }
 
 export type ProjectCreateOrConnectWithoutAssetsInput = {
@@ -952,6 +1447,7 @@ export type ProjectUpdateWithoutAssetsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   manifest?: Prisma.StringFieldUpdateOperationsInput | string
+  manifestVersion?: Prisma.IntFieldUpdateOperationsInput | number
   width?: Prisma.IntFieldUpdateOperationsInput | number
   height?: Prisma.IntFieldUpdateOperationsInput | number
   fps?: Prisma.IntFieldUpdateOperationsInput | number
@@ -959,12 +1455,16 @@ export type ProjectUpdateWithoutAssetsInput = {
   status?: Prisma.StringFieldUpdateOperationsInput | string
   outputUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   thumbnailUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  headRevisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   user?: Prisma.UserUpdateOneRequiredWithoutProjectsNestedInput
   folder?: Prisma.ProjectFolderUpdateOneWithoutProjectsNestedInput
+  brandKit?: Prisma.BrandKitUpdateOneWithoutProjectsNestedInput
+  template?: Prisma.ProjectTemplateUpdateOneWithoutProjectsNestedInput
   generationJobs?: Prisma.GenerationJobUpdateManyWithoutProjectNestedInput
   chatMessages?: Prisma.ChatMessageUpdateManyWithoutProjectNestedInput
+  revisions?: Prisma.ProjectRevisionUpdateManyWithoutProjectNestedInput
 }
 
 export type ProjectUncheckedUpdateWithoutAssetsInput = {
@@ -973,6 +1473,7 @@ export type ProjectUncheckedUpdateWithoutAssetsInput = {
   userId?: Prisma.StringFieldUpdateOperationsInput | string
   folderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   manifest?: Prisma.StringFieldUpdateOperationsInput | string
+  manifestVersion?: Prisma.IntFieldUpdateOperationsInput | number
   width?: Prisma.IntFieldUpdateOperationsInput | number
   height?: Prisma.IntFieldUpdateOperationsInput | number
   fps?: Prisma.IntFieldUpdateOperationsInput | number
@@ -980,16 +1481,21 @@ export type ProjectUncheckedUpdateWithoutAssetsInput = {
   status?: Prisma.StringFieldUpdateOperationsInput | string
   outputUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   thumbnailUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  headRevisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  brandKitId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  templateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   generationJobs?: Prisma.GenerationJobUncheckedUpdateManyWithoutProjectNestedInput
   chatMessages?: Prisma.ChatMessageUncheckedUpdateManyWithoutProjectNestedInput
+  revisions?: Prisma.ProjectRevisionUncheckedUpdateManyWithoutProjectNestedInput
 }
 
 export type ProjectCreateWithoutGenerationJobsInput = {
   id?: string
   name: string
   manifest?: string
+  manifestVersion?: number
   width?: number
   height?: number
   fps?: number
@@ -997,12 +1503,16 @@ export type ProjectCreateWithoutGenerationJobsInput = {
   status?: string
   outputUrl?: string | null
   thumbnailUrl?: string | null
+  headRevisionId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   user: Prisma.UserCreateNestedOneWithoutProjectsInput
   folder?: Prisma.ProjectFolderCreateNestedOneWithoutProjectsInput
+  brandKit?: Prisma.BrandKitCreateNestedOneWithoutProjectsInput
+  template?: Prisma.ProjectTemplateCreateNestedOneWithoutProjectsInput
   assets?: Prisma.AssetCreateNestedManyWithoutProjectInput
   chatMessages?: Prisma.ChatMessageCreateNestedManyWithoutProjectInput
+  revisions?: Prisma.ProjectRevisionCreateNestedManyWithoutProjectInput
 }
 
 export type ProjectUncheckedCreateWithoutGenerationJobsInput = {
@@ -1011,6 +1521,7 @@ export type ProjectUncheckedCreateWithoutGenerationJobsInput = {
   userId: string
   folderId?: string | null
   manifest?: string
+  manifestVersion?: number
   width?: number
   height?: number
   fps?: number
@@ -1018,10 +1529,14 @@ export type ProjectUncheckedCreateWithoutGenerationJobsInput = {
   status?: string
   outputUrl?: string | null
   thumbnailUrl?: string | null
+  headRevisionId?: string | null
+  brandKitId?: string | null
+  templateId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   assets?: Prisma.AssetUncheckedCreateNestedManyWithoutProjectInput
   chatMessages?: Prisma.ChatMessageUncheckedCreateNestedManyWithoutProjectInput
+  revisions?: Prisma.ProjectRevisionUncheckedCreateNestedManyWithoutProjectInput
 }
 
 export type ProjectCreateOrConnectWithoutGenerationJobsInput = {
@@ -1044,6 +1559,7 @@ export type ProjectUpdateWithoutGenerationJobsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   manifest?: Prisma.StringFieldUpdateOperationsInput | string
+  manifestVersion?: Prisma.IntFieldUpdateOperationsInput | number
   width?: Prisma.IntFieldUpdateOperationsInput | number
   height?: Prisma.IntFieldUpdateOperationsInput | number
   fps?: Prisma.IntFieldUpdateOperationsInput | number
@@ -1051,12 +1567,16 @@ export type ProjectUpdateWithoutGenerationJobsInput = {
   status?: Prisma.StringFieldUpdateOperationsInput | string
   outputUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   thumbnailUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  headRevisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   user?: Prisma.UserUpdateOneRequiredWithoutProjectsNestedInput
   folder?: Prisma.ProjectFolderUpdateOneWithoutProjectsNestedInput
+  brandKit?: Prisma.BrandKitUpdateOneWithoutProjectsNestedInput
+  template?: Prisma.ProjectTemplateUpdateOneWithoutProjectsNestedInput
   assets?: Prisma.AssetUpdateManyWithoutProjectNestedInput
   chatMessages?: Prisma.ChatMessageUpdateManyWithoutProjectNestedInput
+  revisions?: Prisma.ProjectRevisionUpdateManyWithoutProjectNestedInput
 }
 
 export type ProjectUncheckedUpdateWithoutGenerationJobsInput = {
@@ -1065,6 +1585,7 @@ export type ProjectUncheckedUpdateWithoutGenerationJobsInput = {
   userId?: Prisma.StringFieldUpdateOperationsInput | string
   folderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   manifest?: Prisma.StringFieldUpdateOperationsInput | string
+  manifestVersion?: Prisma.IntFieldUpdateOperationsInput | number
   width?: Prisma.IntFieldUpdateOperationsInput | number
   height?: Prisma.IntFieldUpdateOperationsInput | number
   fps?: Prisma.IntFieldUpdateOperationsInput | number
@@ -1072,16 +1593,21 @@ export type ProjectUncheckedUpdateWithoutGenerationJobsInput = {
   status?: Prisma.StringFieldUpdateOperationsInput | string
   outputUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   thumbnailUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  headRevisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  brandKitId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  templateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   assets?: Prisma.AssetUncheckedUpdateManyWithoutProjectNestedInput
   chatMessages?: Prisma.ChatMessageUncheckedUpdateManyWithoutProjectNestedInput
+  revisions?: Prisma.ProjectRevisionUncheckedUpdateManyWithoutProjectNestedInput
 }
 
 export type ProjectCreateWithoutChatMessagesInput = {
   id?: string
   name: string
   manifest?: string
+  manifestVersion?: number
   width?: number
   height?: number
   fps?: number
@@ -1089,12 +1615,16 @@ export type ProjectCreateWithoutChatMessagesInput = {
   status?: string
   outputUrl?: string | null
   thumbnailUrl?: string | null
+  headRevisionId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   user: Prisma.UserCreateNestedOneWithoutProjectsInput
   folder?: Prisma.ProjectFolderCreateNestedOneWithoutProjectsInput
+  brandKit?: Prisma.BrandKitCreateNestedOneWithoutProjectsInput
+  template?: Prisma.ProjectTemplateCreateNestedOneWithoutProjectsInput
   assets?: Prisma.AssetCreateNestedManyWithoutProjectInput
   generationJobs?: Prisma.GenerationJobCreateNestedManyWithoutProjectInput
+  revisions?: Prisma.ProjectRevisionCreateNestedManyWithoutProjectInput
 }
 
 export type ProjectUncheckedCreateWithoutChatMessagesInput = {
@@ -1103,6 +1633,7 @@ export type ProjectUncheckedCreateWithoutChatMessagesInput = {
   userId: string
   folderId?: string | null
   manifest?: string
+  manifestVersion?: number
   width?: number
   height?: number
   fps?: number
@@ -1110,10 +1641,14 @@ export type ProjectUncheckedCreateWithoutChatMessagesInput = {
   status?: string
   outputUrl?: string | null
   thumbnailUrl?: string | null
+  headRevisionId?: string | null
+  brandKitId?: string | null
+  templateId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   assets?: Prisma.AssetUncheckedCreateNestedManyWithoutProjectInput
   generationJobs?: Prisma.GenerationJobUncheckedCreateNestedManyWithoutProjectInput
+  revisions?: Prisma.ProjectRevisionUncheckedCreateNestedManyWithoutProjectInput
 }
 
 export type ProjectCreateOrConnectWithoutChatMessagesInput = {
@@ -1136,6 +1671,7 @@ export type ProjectUpdateWithoutChatMessagesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   manifest?: Prisma.StringFieldUpdateOperationsInput | string
+  manifestVersion?: Prisma.IntFieldUpdateOperationsInput | number
   width?: Prisma.IntFieldUpdateOperationsInput | number
   height?: Prisma.IntFieldUpdateOperationsInput | number
   fps?: Prisma.IntFieldUpdateOperationsInput | number
@@ -1143,12 +1679,16 @@ export type ProjectUpdateWithoutChatMessagesInput = {
   status?: Prisma.StringFieldUpdateOperationsInput | string
   outputUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   thumbnailUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  headRevisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   user?: Prisma.UserUpdateOneRequiredWithoutProjectsNestedInput
   folder?: Prisma.ProjectFolderUpdateOneWithoutProjectsNestedInput
+  brandKit?: Prisma.BrandKitUpdateOneWithoutProjectsNestedInput
+  template?: Prisma.ProjectTemplateUpdateOneWithoutProjectsNestedInput
   assets?: Prisma.AssetUpdateManyWithoutProjectNestedInput
   generationJobs?: Prisma.GenerationJobUpdateManyWithoutProjectNestedInput
+  revisions?: Prisma.ProjectRevisionUpdateManyWithoutProjectNestedInput
 }
 
 export type ProjectUncheckedUpdateWithoutChatMessagesInput = {
@@ -1157,6 +1697,7 @@ export type ProjectUncheckedUpdateWithoutChatMessagesInput = {
   userId?: Prisma.StringFieldUpdateOperationsInput | string
   folderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   manifest?: Prisma.StringFieldUpdateOperationsInput | string
+  manifestVersion?: Prisma.IntFieldUpdateOperationsInput | number
   width?: Prisma.IntFieldUpdateOperationsInput | number
   height?: Prisma.IntFieldUpdateOperationsInput | number
   fps?: Prisma.IntFieldUpdateOperationsInput | number
@@ -1164,10 +1705,14 @@ export type ProjectUncheckedUpdateWithoutChatMessagesInput = {
   status?: Prisma.StringFieldUpdateOperationsInput | string
   outputUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   thumbnailUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  headRevisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  brandKitId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  templateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   assets?: Prisma.AssetUncheckedUpdateManyWithoutProjectNestedInput
   generationJobs?: Prisma.GenerationJobUncheckedUpdateManyWithoutProjectNestedInput
+  revisions?: Prisma.ProjectRevisionUncheckedUpdateManyWithoutProjectNestedInput
 }
 
 export type ProjectCreateManyUserInput = {
@@ -1175,6 +1720,7 @@ export type ProjectCreateManyUserInput = {
   name: string
   folderId?: string | null
   manifest?: string
+  manifestVersion?: number
   width?: number
   height?: number
   fps?: number
@@ -1182,6 +1728,9 @@ export type ProjectCreateManyUserInput = {
   status?: string
   outputUrl?: string | null
   thumbnailUrl?: string | null
+  headRevisionId?: string | null
+  brandKitId?: string | null
+  templateId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -1190,6 +1739,7 @@ export type ProjectUpdateWithoutUserInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   manifest?: Prisma.StringFieldUpdateOperationsInput | string
+  manifestVersion?: Prisma.IntFieldUpdateOperationsInput | number
   width?: Prisma.IntFieldUpdateOperationsInput | number
   height?: Prisma.IntFieldUpdateOperationsInput | number
   fps?: Prisma.IntFieldUpdateOperationsInput | number
@@ -1197,12 +1747,16 @@ export type ProjectUpdateWithoutUserInput = {
   status?: Prisma.StringFieldUpdateOperationsInput | string
   outputUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   thumbnailUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  headRevisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   folder?: Prisma.ProjectFolderUpdateOneWithoutProjectsNestedInput
+  brandKit?: Prisma.BrandKitUpdateOneWithoutProjectsNestedInput
+  template?: Prisma.ProjectTemplateUpdateOneWithoutProjectsNestedInput
   assets?: Prisma.AssetUpdateManyWithoutProjectNestedInput
   generationJobs?: Prisma.GenerationJobUpdateManyWithoutProjectNestedInput
   chatMessages?: Prisma.ChatMessageUpdateManyWithoutProjectNestedInput
+  revisions?: Prisma.ProjectRevisionUpdateManyWithoutProjectNestedInput
 }
 
 export type ProjectUncheckedUpdateWithoutUserInput = {
@@ -1210,6 +1764,7 @@ export type ProjectUncheckedUpdateWithoutUserInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   folderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   manifest?: Prisma.StringFieldUpdateOperationsInput | string
+  manifestVersion?: Prisma.IntFieldUpdateOperationsInput | number
   width?: Prisma.IntFieldUpdateOperationsInput | number
   height?: Prisma.IntFieldUpdateOperationsInput | number
   fps?: Prisma.IntFieldUpdateOperationsInput | number
@@ -1217,11 +1772,15 @@ export type ProjectUncheckedUpdateWithoutUserInput = {
   status?: Prisma.StringFieldUpdateOperationsInput | string
   outputUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   thumbnailUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  headRevisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  brandKitId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  templateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   assets?: Prisma.AssetUncheckedUpdateManyWithoutProjectNestedInput
   generationJobs?: Prisma.GenerationJobUncheckedUpdateManyWithoutProjectNestedInput
   chatMessages?: Prisma.ChatMessageUncheckedUpdateManyWithoutProjectNestedInput
+  revisions?: Prisma.ProjectRevisionUncheckedUpdateManyWithoutProjectNestedInput
 }
 
 export type ProjectUncheckedUpdateManyWithoutUserInput = {
@@ -1229,6 +1788,7 @@ export type ProjectUncheckedUpdateManyWithoutUserInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   folderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   manifest?: Prisma.StringFieldUpdateOperationsInput | string
+  manifestVersion?: Prisma.IntFieldUpdateOperationsInput | number
   width?: Prisma.IntFieldUpdateOperationsInput | number
   height?: Prisma.IntFieldUpdateOperationsInput | number
   fps?: Prisma.IntFieldUpdateOperationsInput | number
@@ -1236,6 +1796,9 @@ export type ProjectUncheckedUpdateManyWithoutUserInput = {
   status?: Prisma.StringFieldUpdateOperationsInput | string
   outputUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   thumbnailUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  headRevisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  brandKitId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  templateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -1245,6 +1808,7 @@ export type ProjectCreateManyFolderInput = {
   name: string
   userId: string
   manifest?: string
+  manifestVersion?: number
   width?: number
   height?: number
   fps?: number
@@ -1252,6 +1816,9 @@ export type ProjectCreateManyFolderInput = {
   status?: string
   outputUrl?: string | null
   thumbnailUrl?: string | null
+  headRevisionId?: string | null
+  brandKitId?: string | null
+  templateId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -1260,6 +1827,7 @@ export type ProjectUpdateWithoutFolderInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   manifest?: Prisma.StringFieldUpdateOperationsInput | string
+  manifestVersion?: Prisma.IntFieldUpdateOperationsInput | number
   width?: Prisma.IntFieldUpdateOperationsInput | number
   height?: Prisma.IntFieldUpdateOperationsInput | number
   fps?: Prisma.IntFieldUpdateOperationsInput | number
@@ -1267,12 +1835,16 @@ export type ProjectUpdateWithoutFolderInput = {
   status?: Prisma.StringFieldUpdateOperationsInput | string
   outputUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   thumbnailUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  headRevisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   user?: Prisma.UserUpdateOneRequiredWithoutProjectsNestedInput
+  brandKit?: Prisma.BrandKitUpdateOneWithoutProjectsNestedInput
+  template?: Prisma.ProjectTemplateUpdateOneWithoutProjectsNestedInput
   assets?: Prisma.AssetUpdateManyWithoutProjectNestedInput
   generationJobs?: Prisma.GenerationJobUpdateManyWithoutProjectNestedInput
   chatMessages?: Prisma.ChatMessageUpdateManyWithoutProjectNestedInput
+  revisions?: Prisma.ProjectRevisionUpdateManyWithoutProjectNestedInput
 }
 
 export type ProjectUncheckedUpdateWithoutFolderInput = {
@@ -1280,6 +1852,7 @@ export type ProjectUncheckedUpdateWithoutFolderInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   userId?: Prisma.StringFieldUpdateOperationsInput | string
   manifest?: Prisma.StringFieldUpdateOperationsInput | string
+  manifestVersion?: Prisma.IntFieldUpdateOperationsInput | number
   width?: Prisma.IntFieldUpdateOperationsInput | number
   height?: Prisma.IntFieldUpdateOperationsInput | number
   fps?: Prisma.IntFieldUpdateOperationsInput | number
@@ -1287,11 +1860,15 @@ export type ProjectUncheckedUpdateWithoutFolderInput = {
   status?: Prisma.StringFieldUpdateOperationsInput | string
   outputUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   thumbnailUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  headRevisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  brandKitId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  templateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   assets?: Prisma.AssetUncheckedUpdateManyWithoutProjectNestedInput
   generationJobs?: Prisma.GenerationJobUncheckedUpdateManyWithoutProjectNestedInput
   chatMessages?: Prisma.ChatMessageUncheckedUpdateManyWithoutProjectNestedInput
+  revisions?: Prisma.ProjectRevisionUncheckedUpdateManyWithoutProjectNestedInput
 }
 
 export type ProjectUncheckedUpdateManyWithoutFolderInput = {
@@ -1299,6 +1876,184 @@ export type ProjectUncheckedUpdateManyWithoutFolderInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   userId?: Prisma.StringFieldUpdateOperationsInput | string
   manifest?: Prisma.StringFieldUpdateOperationsInput | string
+  manifestVersion?: Prisma.IntFieldUpdateOperationsInput | number
+  width?: Prisma.IntFieldUpdateOperationsInput | number
+  height?: Prisma.IntFieldUpdateOperationsInput | number
+  fps?: Prisma.IntFieldUpdateOperationsInput | number
+  duration?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  outputUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  thumbnailUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  headRevisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  brandKitId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  templateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProjectCreateManyBrandKitInput = {
+  id?: string
+  name: string
+  userId: string
+  folderId?: string | null
+  manifest?: string
+  manifestVersion?: number
+  width?: number
+  height?: number
+  fps?: number
+  duration?: number
+  status?: string
+  outputUrl?: string | null
+  thumbnailUrl?: string | null
+  headRevisionId?: string | null
+  templateId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ProjectUpdateWithoutBrandKitInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  manifest?: Prisma.StringFieldUpdateOperationsInput | string
+  manifestVersion?: Prisma.IntFieldUpdateOperationsInput | number
+  width?: Prisma.IntFieldUpdateOperationsInput | number
+  height?: Prisma.IntFieldUpdateOperationsInput | number
+  fps?: Prisma.IntFieldUpdateOperationsInput | number
+  duration?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  outputUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  thumbnailUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  headRevisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutProjectsNestedInput
+  folder?: Prisma.ProjectFolderUpdateOneWithoutProjectsNestedInput
+  template?: Prisma.ProjectTemplateUpdateOneWithoutProjectsNestedInput
+  assets?: Prisma.AssetUpdateManyWithoutProjectNestedInput
+  generationJobs?: Prisma.GenerationJobUpdateManyWithoutProjectNestedInput
+  chatMessages?: Prisma.ChatMessageUpdateManyWithoutProjectNestedInput
+  revisions?: Prisma.ProjectRevisionUpdateManyWithoutProjectNestedInput
+}
+
+export type ProjectUncheckedUpdateWithoutBrandKitInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  folderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  manifest?: Prisma.StringFieldUpdateOperationsInput | string
+  manifestVersion?: Prisma.IntFieldUpdateOperationsInput | number
+  width?: Prisma.IntFieldUpdateOperationsInput | number
+  height?: Prisma.IntFieldUpdateOperationsInput | number
+  fps?: Prisma.IntFieldUpdateOperationsInput | number
+  duration?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  outputUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  thumbnailUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  headRevisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  templateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  assets?: Prisma.AssetUncheckedUpdateManyWithoutProjectNestedInput
+  generationJobs?: Prisma.GenerationJobUncheckedUpdateManyWithoutProjectNestedInput
+  chatMessages?: Prisma.ChatMessageUncheckedUpdateManyWithoutProjectNestedInput
+  revisions?: Prisma.ProjectRevisionUncheckedUpdateManyWithoutProjectNestedInput
+}
+
+export type ProjectUncheckedUpdateManyWithoutBrandKitInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  folderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  manifest?: Prisma.StringFieldUpdateOperationsInput | string
+  manifestVersion?: Prisma.IntFieldUpdateOperationsInput | number
+  width?: Prisma.IntFieldUpdateOperationsInput | number
+  height?: Prisma.IntFieldUpdateOperationsInput | number
+  fps?: Prisma.IntFieldUpdateOperationsInput | number
+  duration?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  outputUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  thumbnailUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  headRevisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  templateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProjectCreateManyTemplateInput = {
+  id?: string
+  name: string
+  userId: string
+  folderId?: string | null
+  manifest?: string
+  manifestVersion?: number
+  width?: number
+  height?: number
+  fps?: number
+  duration?: number
+  status?: string
+  outputUrl?: string | null
+  thumbnailUrl?: string | null
+  headRevisionId?: string | null
+  brandKitId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ProjectUpdateWithoutTemplateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  manifest?: Prisma.StringFieldUpdateOperationsInput | string
+  manifestVersion?: Prisma.IntFieldUpdateOperationsInput | number
+  width?: Prisma.IntFieldUpdateOperationsInput | number
+  height?: Prisma.IntFieldUpdateOperationsInput | number
+  fps?: Prisma.IntFieldUpdateOperationsInput | number
+  duration?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  outputUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  thumbnailUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  headRevisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutProjectsNestedInput
+  folder?: Prisma.ProjectFolderUpdateOneWithoutProjectsNestedInput
+  brandKit?: Prisma.BrandKitUpdateOneWithoutProjectsNestedInput
+  assets?: Prisma.AssetUpdateManyWithoutProjectNestedInput
+  generationJobs?: Prisma.GenerationJobUpdateManyWithoutProjectNestedInput
+  chatMessages?: Prisma.ChatMessageUpdateManyWithoutProjectNestedInput
+  revisions?: Prisma.ProjectRevisionUpdateManyWithoutProjectNestedInput
+}
+
+export type ProjectUncheckedUpdateWithoutTemplateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  folderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  manifest?: Prisma.StringFieldUpdateOperationsInput | string
+  manifestVersion?: Prisma.IntFieldUpdateOperationsInput | number
+  width?: Prisma.IntFieldUpdateOperationsInput | number
+  height?: Prisma.IntFieldUpdateOperationsInput | number
+  fps?: Prisma.IntFieldUpdateOperationsInput | number
+  duration?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  outputUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  thumbnailUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  headRevisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  brandKitId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  assets?: Prisma.AssetUncheckedUpdateManyWithoutProjectNestedInput
+  generationJobs?: Prisma.GenerationJobUncheckedUpdateManyWithoutProjectNestedInput
+  chatMessages?: Prisma.ChatMessageUncheckedUpdateManyWithoutProjectNestedInput
+  revisions?: Prisma.ProjectRevisionUncheckedUpdateManyWithoutProjectNestedInput
+}
+
+export type ProjectUncheckedUpdateManyWithoutTemplateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  folderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  manifest?: Prisma.StringFieldUpdateOperationsInput | string
+  manifestVersion?: Prisma.IntFieldUpdateOperationsInput | number
   width?: Prisma.IntFieldUpdateOperationsInput | number
   height?: Prisma.IntFieldUpdateOperationsInput | number
   fps?: Prisma.IntFieldUpdateOperationsInput | number
@@ -1306,6 +2061,8 @@ export type ProjectUncheckedUpdateManyWithoutFolderInput = {
   status?: Prisma.StringFieldUpdateOperationsInput | string
   outputUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   thumbnailUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  headRevisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  brandKitId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -1319,12 +2076,14 @@ export type ProjectCountOutputType = {
   assets: number
   generationJobs: number
   chatMessages: number
+  revisions: number
 }
 
 export type ProjectCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   assets?: boolean | ProjectCountOutputTypeCountAssetsArgs
   generationJobs?: boolean | ProjectCountOutputTypeCountGenerationJobsArgs
   chatMessages?: boolean | ProjectCountOutputTypeCountChatMessagesArgs
+  revisions?: boolean | ProjectCountOutputTypeCountRevisionsArgs
 }
 
 /**
@@ -1358,6 +2117,13 @@ export type ProjectCountOutputTypeCountChatMessagesArgs<ExtArgs extends runtime.
   where?: Prisma.ChatMessageWhereInput
 }
 
+/**
+ * ProjectCountOutputType without action
+ */
+export type ProjectCountOutputTypeCountRevisionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ProjectRevisionWhereInput
+}
+
 
 export type ProjectSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -1365,6 +2131,7 @@ export type ProjectSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs
   userId?: boolean
   folderId?: boolean
   manifest?: boolean
+  manifestVersion?: boolean
   width?: boolean
   height?: boolean
   fps?: boolean
@@ -1372,13 +2139,19 @@ export type ProjectSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs
   status?: boolean
   outputUrl?: boolean
   thumbnailUrl?: boolean
+  headRevisionId?: boolean
+  brandKitId?: boolean
+  templateId?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
   folder?: boolean | Prisma.Project$folderArgs<ExtArgs>
+  brandKit?: boolean | Prisma.Project$brandKitArgs<ExtArgs>
+  template?: boolean | Prisma.Project$templateArgs<ExtArgs>
   assets?: boolean | Prisma.Project$assetsArgs<ExtArgs>
   generationJobs?: boolean | Prisma.Project$generationJobsArgs<ExtArgs>
   chatMessages?: boolean | Prisma.Project$chatMessagesArgs<ExtArgs>
+  revisions?: boolean | Prisma.Project$revisionsArgs<ExtArgs>
   _count?: boolean | Prisma.ProjectCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["project"]>
 
@@ -1388,6 +2161,7 @@ export type ProjectSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Exten
   userId?: boolean
   folderId?: boolean
   manifest?: boolean
+  manifestVersion?: boolean
   width?: boolean
   height?: boolean
   fps?: boolean
@@ -1395,10 +2169,15 @@ export type ProjectSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Exten
   status?: boolean
   outputUrl?: boolean
   thumbnailUrl?: boolean
+  headRevisionId?: boolean
+  brandKitId?: boolean
+  templateId?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
   folder?: boolean | Prisma.Project$folderArgs<ExtArgs>
+  brandKit?: boolean | Prisma.Project$brandKitArgs<ExtArgs>
+  template?: boolean | Prisma.Project$templateArgs<ExtArgs>
 }, ExtArgs["result"]["project"]>
 
 export type ProjectSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -1407,6 +2186,7 @@ export type ProjectSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Exten
   userId?: boolean
   folderId?: boolean
   manifest?: boolean
+  manifestVersion?: boolean
   width?: boolean
   height?: boolean
   fps?: boolean
@@ -1414,10 +2194,15 @@ export type ProjectSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Exten
   status?: boolean
   outputUrl?: boolean
   thumbnailUrl?: boolean
+  headRevisionId?: boolean
+  brandKitId?: boolean
+  templateId?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
   folder?: boolean | Prisma.Project$folderArgs<ExtArgs>
+  brandKit?: boolean | Prisma.Project$brandKitArgs<ExtArgs>
+  template?: boolean | Prisma.Project$templateArgs<ExtArgs>
 }, ExtArgs["result"]["project"]>
 
 export type ProjectSelectScalar = {
@@ -1426,6 +2211,7 @@ export type ProjectSelectScalar = {
   userId?: boolean
   folderId?: boolean
   manifest?: boolean
+  manifestVersion?: boolean
   width?: boolean
   height?: boolean
   fps?: boolean
@@ -1433,26 +2219,36 @@ export type ProjectSelectScalar = {
   status?: boolean
   outputUrl?: boolean
   thumbnailUrl?: boolean
+  headRevisionId?: boolean
+  brandKitId?: boolean
+  templateId?: boolean
   createdAt?: boolean
   updatedAt?: boolean
 }
 
-export type ProjectOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "name" | "userId" | "folderId" | "manifest" | "width" | "height" | "fps" | "duration" | "status" | "outputUrl" | "thumbnailUrl" | "createdAt" | "updatedAt", ExtArgs["result"]["project"]>
+export type ProjectOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "name" | "userId" | "folderId" | "manifest" | "manifestVersion" | "width" | "height" | "fps" | "duration" | "status" | "outputUrl" | "thumbnailUrl" | "headRevisionId" | "brandKitId" | "templateId" | "createdAt" | "updatedAt", ExtArgs["result"]["project"]>
 export type ProjectInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
   folder?: boolean | Prisma.Project$folderArgs<ExtArgs>
+  brandKit?: boolean | Prisma.Project$brandKitArgs<ExtArgs>
+  template?: boolean | Prisma.Project$templateArgs<ExtArgs>
   assets?: boolean | Prisma.Project$assetsArgs<ExtArgs>
   generationJobs?: boolean | Prisma.Project$generationJobsArgs<ExtArgs>
   chatMessages?: boolean | Prisma.Project$chatMessagesArgs<ExtArgs>
+  revisions?: boolean | Prisma.Project$revisionsArgs<ExtArgs>
   _count?: boolean | Prisma.ProjectCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type ProjectIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
   folder?: boolean | Prisma.Project$folderArgs<ExtArgs>
+  brandKit?: boolean | Prisma.Project$brandKitArgs<ExtArgs>
+  template?: boolean | Prisma.Project$templateArgs<ExtArgs>
 }
 export type ProjectIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
   folder?: boolean | Prisma.Project$folderArgs<ExtArgs>
+  brandKit?: boolean | Prisma.Project$brandKitArgs<ExtArgs>
+  template?: boolean | Prisma.Project$templateArgs<ExtArgs>
 }
 
 export type $ProjectPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -1460,9 +2256,12 @@ export type $ProjectPayload<ExtArgs extends runtime.Types.Extensions.InternalArg
   objects: {
     user: Prisma.$UserPayload<ExtArgs>
     folder: Prisma.$ProjectFolderPayload<ExtArgs> | null
+    brandKit: Prisma.$BrandKitPayload<ExtArgs> | null
+    template: Prisma.$ProjectTemplatePayload<ExtArgs> | null
     assets: Prisma.$AssetPayload<ExtArgs>[]
     generationJobs: Prisma.$GenerationJobPayload<ExtArgs>[]
     chatMessages: Prisma.$ChatMessagePayload<ExtArgs>[]
+    revisions: Prisma.$ProjectRevisionPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -1470,6 +2269,7 @@ export type $ProjectPayload<ExtArgs extends runtime.Types.Extensions.InternalArg
     userId: string
     folderId: string | null
     manifest: string
+    manifestVersion: number
     width: number
     height: number
     fps: number
@@ -1477,6 +2277,9 @@ export type $ProjectPayload<ExtArgs extends runtime.Types.Extensions.InternalArg
     status: string
     outputUrl: string | null
     thumbnailUrl: string | null
+    headRevisionId: string | null
+    brandKitId: string | null
+    templateId: string | null
     createdAt: Date
     updatedAt: Date
   }, ExtArgs["result"]["project"]>
@@ -1875,9 +2678,12 @@ export interface Prisma__ProjectClient<T, Null = never, ExtArgs extends runtime.
   readonly [Symbol.toStringTag]: "PrismaPromise"
   user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
   folder<T extends Prisma.Project$folderArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Project$folderArgs<ExtArgs>>): Prisma.Prisma__ProjectFolderClient<runtime.Types.Result.GetResult<Prisma.$ProjectFolderPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  brandKit<T extends Prisma.Project$brandKitArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Project$brandKitArgs<ExtArgs>>): Prisma.Prisma__BrandKitClient<runtime.Types.Result.GetResult<Prisma.$BrandKitPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  template<T extends Prisma.Project$templateArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Project$templateArgs<ExtArgs>>): Prisma.Prisma__ProjectTemplateClient<runtime.Types.Result.GetResult<Prisma.$ProjectTemplatePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   assets<T extends Prisma.Project$assetsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Project$assetsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AssetPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   generationJobs<T extends Prisma.Project$generationJobsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Project$generationJobsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$GenerationJobPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   chatMessages<T extends Prisma.Project$chatMessagesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Project$chatMessagesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ChatMessagePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  revisions<T extends Prisma.Project$revisionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Project$revisionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProjectRevisionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1912,6 +2718,7 @@ export interface ProjectFieldRefs {
   readonly userId: Prisma.FieldRef<"Project", 'String'>
   readonly folderId: Prisma.FieldRef<"Project", 'String'>
   readonly manifest: Prisma.FieldRef<"Project", 'String'>
+  readonly manifestVersion: Prisma.FieldRef<"Project", 'Int'>
   readonly width: Prisma.FieldRef<"Project", 'Int'>
   readonly height: Prisma.FieldRef<"Project", 'Int'>
   readonly fps: Prisma.FieldRef<"Project", 'Int'>
@@ -1919,6 +2726,9 @@ export interface ProjectFieldRefs {
   readonly status: Prisma.FieldRef<"Project", 'String'>
   readonly outputUrl: Prisma.FieldRef<"Project", 'String'>
   readonly thumbnailUrl: Prisma.FieldRef<"Project", 'String'>
+  readonly headRevisionId: Prisma.FieldRef<"Project", 'String'>
+  readonly brandKitId: Prisma.FieldRef<"Project", 'String'>
+  readonly templateId: Prisma.FieldRef<"Project", 'String'>
   readonly createdAt: Prisma.FieldRef<"Project", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"Project", 'DateTime'>
 }
@@ -2333,6 +3143,44 @@ export type Project$folderArgs<ExtArgs extends runtime.Types.Extensions.Internal
   where?: Prisma.ProjectFolderWhereInput
 }
 
+/**
+ * Project.brandKit
+ */
+export type Project$brandKitArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BrandKit
+   */
+  select?: Prisma.BrandKitSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BrandKit
+   */
+  omit?: Prisma.BrandKitOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BrandKitInclude<ExtArgs> | null
+  where?: Prisma.BrandKitWhereInput
+}
+
+/**
+ * Project.template
+ */
+export type Project$templateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectTemplate
+   */
+  select?: Prisma.ProjectTemplateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectTemplate
+   */
+  omit?: Prisma.ProjectTemplateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectTemplateInclude<ExtArgs> | null
+  where?: Prisma.ProjectTemplateWhereInput
+}
+
 /**
  * Project.assets
  */
@@ -2405,6 +3253,30 @@ export type Project$chatMessagesArgs<ExtArgs extends runtime.Types.Extensions.In
   distinct?: Prisma.ChatMessageScalarFieldEnum | Prisma.ChatMessageScalarFieldEnum[]
 }
 
+/**
+ * Project.revisions
+ */
+export type Project$revisionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectRevision
+   */
+  select?: Prisma.ProjectRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectRevision
+   */
+  omit?: Prisma.ProjectRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectRevisionInclude<ExtArgs> | null
+  where?: Prisma.ProjectRevisionWhereInput
+  orderBy?: Prisma.ProjectRevisionOrderByWithRelationInput | Prisma.ProjectRevisionOrderByWithRelationInput[]
+  cursor?: Prisma.ProjectRevisionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ProjectRevisionScalarFieldEnum | Prisma.ProjectRevisionScalarFieldEnum[]
+}
+
 /**
  * Project without action
  */
@@ -0,0 +1,1477 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `ProjectRevision` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.ts"
+import type * as Prisma from "../internal/prismaNamespace.ts"
+
+/**
+ * Model ProjectRevision
+ * 
+ */
+export type ProjectRevisionModel = runtime.Types.Result.DefaultSelection<Prisma.$ProjectRevisionPayload>
+
+export type AggregateProjectRevision = {
+  _count: ProjectRevisionCountAggregateOutputType | null
+  _min: ProjectRevisionMinAggregateOutputType | null
+  _max: ProjectRevisionMaxAggregateOutputType | null
+}
+
+export type ProjectRevisionMinAggregateOutputType = {
+  id: string | null
+  projectId: string | null
+  manifest: string | null
+  parentId: string | null
+  author: string | null
+  toolCallId: string | null
+  name: string | null
+  diffSummary: string | null
+  createdAt: Date | null
+}
+
+export type ProjectRevisionMaxAggregateOutputType = {
+  id: string | null
+  projectId: string | null
+  manifest: string | null
+  parentId: string | null
+  author: string | null
+  toolCallId: string | null
+  name: string | null
+  diffSummary: string | null
+  createdAt: Date | null
+}
+
+export type ProjectRevisionCountAggregateOutputType = {
+  id: number
+  projectId: number
+  manifest: number
+  parentId: number
+  author: number
+  toolCallId: number
+  name: number
+  diffSummary: number
+  createdAt: number
+  _all: number
+}
+
+
+export type ProjectRevisionMinAggregateInputType = {
+  id?: true
+  projectId?: true
+  manifest?: true
+  parentId?: true
+  author?: true
+  toolCallId?: true
+  name?: true
+  diffSummary?: true
+  createdAt?: true
+}
+
+export type ProjectRevisionMaxAggregateInputType = {
+  id?: true
+  projectId?: true
+  manifest?: true
+  parentId?: true
+  author?: true
+  toolCallId?: true
+  name?: true
+  diffSummary?: true
+  createdAt?: true
+}
+
+export type ProjectRevisionCountAggregateInputType = {
+  id?: true
+  projectId?: true
+  manifest?: true
+  parentId?: true
+  author?: true
+  toolCallId?: true
+  name?: true
+  diffSummary?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type ProjectRevisionAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ProjectRevision to aggregate.
+   */
+  where?: Prisma.ProjectRevisionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ProjectRevisions to fetch.
+   */
+  orderBy?: Prisma.ProjectRevisionOrderByWithRelationInput | Prisma.ProjectRevisionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ProjectRevisionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ProjectRevisions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ProjectRevisions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ProjectRevisions
+  **/
+  _count?: true | ProjectRevisionCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ProjectRevisionMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ProjectRevisionMaxAggregateInputType
+}
+
+export type GetProjectRevisionAggregateType<T extends ProjectRevisionAggregateArgs> = {
+      [P in keyof T & keyof AggregateProjectRevision]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateProjectRevision[P]>
+    : Prisma.GetScalarType<T[P], AggregateProjectRevision[P]>
+}
+
+
+
+
+export type ProjectRevisionGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ProjectRevisionWhereInput
+  orderBy?: Prisma.ProjectRevisionOrderByWithAggregationInput | Prisma.ProjectRevisionOrderByWithAggregationInput[]
+  by: Prisma.ProjectRevisionScalarFieldEnum[] | Prisma.ProjectRevisionScalarFieldEnum
+  having?: Prisma.ProjectRevisionScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ProjectRevisionCountAggregateInputType | true
+  _min?: ProjectRevisionMinAggregateInputType
+  _max?: ProjectRevisionMaxAggregateInputType
+}
+
+export type ProjectRevisionGroupByOutputType = {
+  id: string
+  projectId: string
+  manifest: string
+  parentId: string | null
+  author: string
+  toolCallId: string | null
+  name: string | null
+  diffSummary: string | null
+  createdAt: Date
+  _count: ProjectRevisionCountAggregateOutputType | null
+  _min: ProjectRevisionMinAggregateOutputType | null
+  _max: ProjectRevisionMaxAggregateOutputType | null
+}
+
+type GetProjectRevisionGroupByPayload<T extends ProjectRevisionGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ProjectRevisionGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ProjectRevisionGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ProjectRevisionGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ProjectRevisionGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ProjectRevisionWhereInput = {
+  AND?: Prisma.ProjectRevisionWhereInput | Prisma.ProjectRevisionWhereInput[]
+  OR?: Prisma.ProjectRevisionWhereInput[]
+  NOT?: Prisma.ProjectRevisionWhereInput | Prisma.ProjectRevisionWhereInput[]
+  id?: Prisma.StringFilter<"ProjectRevision"> | string
+  projectId?: Prisma.StringFilter<"ProjectRevision"> | string
+  manifest?: Prisma.StringFilter<"ProjectRevision"> | string
+  parentId?: Prisma.StringNullableFilter<"ProjectRevision"> | string | null
+  author?: Prisma.StringFilter<"ProjectRevision"> | string
+  toolCallId?: Prisma.StringNullableFilter<"ProjectRevision"> | string | null
+  name?: Prisma.StringNullableFilter<"ProjectRevision"> | string | null
+  diffSummary?: Prisma.StringNullableFilter<"ProjectRevision"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"ProjectRevision"> | Date | string
+  project?: Prisma.XOR<Prisma.ProjectScalarRelationFilter, Prisma.ProjectWhereInput>
+}
+
+export type ProjectRevisionOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  projectId?: Prisma.SortOrder
+  manifest?: Prisma.SortOrder
+  parentId?: Prisma.SortOrderInput | Prisma.SortOrder
+  author?: Prisma.SortOrder
+  toolCallId?: Prisma.SortOrderInput | Prisma.SortOrder
+  name?: Prisma.SortOrderInput | Prisma.SortOrder
+  diffSummary?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  project?: Prisma.ProjectOrderByWithRelationInput
+}
+
+export type ProjectRevisionWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.ProjectRevisionWhereInput | Prisma.ProjectRevisionWhereInput[]
+  OR?: Prisma.ProjectRevisionWhereInput[]
+  NOT?: Prisma.ProjectRevisionWhereInput | Prisma.ProjectRevisionWhereInput[]
+  projectId?: Prisma.StringFilter<"ProjectRevision"> | string
+  manifest?: Prisma.StringFilter<"ProjectRevision"> | string
+  parentId?: Prisma.StringNullableFilter<"ProjectRevision"> | string | null
+  author?: Prisma.StringFilter<"ProjectRevision"> | string
+  toolCallId?: Prisma.StringNullableFilter<"ProjectRevision"> | string | null
+  name?: Prisma.StringNullableFilter<"ProjectRevision"> | string | null
+  diffSummary?: Prisma.StringNullableFilter<"ProjectRevision"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"ProjectRevision"> | Date | string
+  project?: Prisma.XOR<Prisma.ProjectScalarRelationFilter, Prisma.ProjectWhereInput>
+}, "id">
+
+export type ProjectRevisionOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  projectId?: Prisma.SortOrder
+  manifest?: Prisma.SortOrder
+  parentId?: Prisma.SortOrderInput | Prisma.SortOrder
+  author?: Prisma.SortOrder
+  toolCallId?: Prisma.SortOrderInput | Prisma.SortOrder
+  name?: Prisma.SortOrderInput | Prisma.SortOrder
+  diffSummary?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.ProjectRevisionCountOrderByAggregateInput
+  _max?: Prisma.ProjectRevisionMaxOrderByAggregateInput
+  _min?: Prisma.ProjectRevisionMinOrderByAggregateInput
+}
+
+export type ProjectRevisionScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ProjectRevisionScalarWhereWithAggregatesInput | Prisma.ProjectRevisionScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ProjectRevisionScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ProjectRevisionScalarWhereWithAggregatesInput | Prisma.ProjectRevisionScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"ProjectRevision"> | string
+  projectId?: Prisma.StringWithAggregatesFilter<"ProjectRevision"> | string
+  manifest?: Prisma.StringWithAggregatesFilter<"ProjectRevision"> | string
+  parentId?: Prisma.StringNullableWithAggregatesFilter<"ProjectRevision"> | string | null
+  author?: Prisma.StringWithAggregatesFilter<"ProjectRevision"> | string
+  toolCallId?: Prisma.StringNullableWithAggregatesFilter<"ProjectRevision"> | string | null
+  name?: Prisma.StringNullableWithAggregatesFilter<"ProjectRevision"> | string | null
+  diffSummary?: Prisma.StringNullableWithAggregatesFilter<"ProjectRevision"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ProjectRevision"> | Date | string
+}
+
+export type ProjectRevisionCreateInput = {
+  id?: string
+  manifest: string
+  parentId?: string | null
+  author?: string
+  toolCallId?: string | null
+  name?: string | null
+  diffSummary?: string | null
+  createdAt?: Date | string
+  project: Prisma.ProjectCreateNestedOneWithoutRevisionsInput
+}
+
+export type ProjectRevisionUncheckedCreateInput = {
+  id?: string
+  projectId: string
+  manifest: string
+  parentId?: string | null
+  author?: string
+  toolCallId?: string | null
+  name?: string | null
+  diffSummary?: string | null
+  createdAt?: Date | string
+}
+
+export type ProjectRevisionUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  manifest?: Prisma.StringFieldUpdateOperationsInput | string
+  parentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  author?: Prisma.StringFieldUpdateOperationsInput | string
+  toolCallId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  diffSummary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  project?: Prisma.ProjectUpdateOneRequiredWithoutRevisionsNestedInput
+}
+
+export type ProjectRevisionUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  projectId?: Prisma.StringFieldUpdateOperationsInput | string
+  manifest?: Prisma.StringFieldUpdateOperationsInput | string
+  parentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  author?: Prisma.StringFieldUpdateOperationsInput | string
+  toolCallId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  diffSummary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProjectRevisionCreateManyInput = {
+  id?: string
+  projectId: string
+  manifest: string
+  parentId?: string | null
+  author?: string
+  toolCallId?: string | null
+  name?: string | null
+  diffSummary?: string | null
+  createdAt?: Date | string
+}
+
+export type ProjectRevisionUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  manifest?: Prisma.StringFieldUpdateOperationsInput | string
+  parentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  author?: Prisma.StringFieldUpdateOperationsInput | string
+  toolCallId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  diffSummary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProjectRevisionUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  projectId?: Prisma.StringFieldUpdateOperationsInput | string
+  manifest?: Prisma.StringFieldUpdateOperationsInput | string
+  parentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  author?: Prisma.StringFieldUpdateOperationsInput | string
+  toolCallId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  diffSummary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProjectRevisionListRelationFilter = {
+  every?: Prisma.ProjectRevisionWhereInput
+  some?: Prisma.ProjectRevisionWhereInput
+  none?: Prisma.ProjectRevisionWhereInput
+}
+
+export type ProjectRevisionOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type ProjectRevisionCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  projectId?: Prisma.SortOrder
+  manifest?: Prisma.SortOrder
+  parentId?: Prisma.SortOrder
+  author?: Prisma.SortOrder
+  toolCallId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  diffSummary?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ProjectRevisionMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  projectId?: Prisma.SortOrder
+  manifest?: Prisma.SortOrder
+  parentId?: Prisma.SortOrder
+  author?: Prisma.SortOrder
+  toolCallId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  diffSummary?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ProjectRevisionMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  projectId?: Prisma.SortOrder
+  manifest?: Prisma.SortOrder
+  parentId?: Prisma.SortOrder
+  author?: Prisma.SortOrder
+  toolCallId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  diffSummary?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ProjectRevisionCreateNestedManyWithoutProjectInput = {
+  create?: Prisma.XOR<Prisma.ProjectRevisionCreateWithoutProjectInput, Prisma.ProjectRevisionUncheckedCreateWithoutProjectInput> | Prisma.ProjectRevisionCreateWithoutProjectInput[] | Prisma.ProjectRevisionUncheckedCreateWithoutProjectInput[]
+  connectOrCreate?: Prisma.ProjectRevisionCreateOrConnectWithoutProjectInput | Prisma.ProjectRevisionCreateOrConnectWithoutProjectInput[]
+  createMany?: Prisma.ProjectRevisionCreateManyProjectInputEnvelope
+  connect?: Prisma.ProjectRevisionWhereUniqueInput | Prisma.ProjectRevisionWhereUniqueInput[]
+}
+
+export type ProjectRevisionUncheckedCreateNestedManyWithoutProjectInput = {
+  create?: Prisma.XOR<Prisma.ProjectRevisionCreateWithoutProjectInput, Prisma.ProjectRevisionUncheckedCreateWithoutProjectInput> | Prisma.ProjectRevisionCreateWithoutProjectInput[] | Prisma.ProjectRevisionUncheckedCreateWithoutProjectInput[]
+  connectOrCreate?: Prisma.ProjectRevisionCreateOrConnectWithoutProjectInput | Prisma.ProjectRevisionCreateOrConnectWithoutProjectInput[]
+  createMany?: Prisma.ProjectRevisionCreateManyProjectInputEnvelope
+  connect?: Prisma.ProjectRevisionWhereUniqueInput | Prisma.ProjectRevisionWhereUniqueInput[]
+}
+
+export type ProjectRevisionUpdateManyWithoutProjectNestedInput = {
+  create?: Prisma.XOR<Prisma.ProjectRevisionCreateWithoutProjectInput, Prisma.ProjectRevisionUncheckedCreateWithoutProjectInput> | Prisma.ProjectRevisionCreateWithoutProjectInput[] | Prisma.ProjectRevisionUncheckedCreateWithoutProjectInput[]
+  connectOrCreate?: Prisma.ProjectRevisionCreateOrConnectWithoutProjectInput | Prisma.ProjectRevisionCreateOrConnectWithoutProjectInput[]
+  upsert?: Prisma.ProjectRevisionUpsertWithWhereUniqueWithoutProjectInput | Prisma.ProjectRevisionUpsertWithWhereUniqueWithoutProjectInput[]
+  createMany?: Prisma.ProjectRevisionCreateManyProjectInputEnvelope
+  set?: Prisma.ProjectRevisionWhereUniqueInput | Prisma.ProjectRevisionWhereUniqueInput[]
+  disconnect?: Prisma.ProjectRevisionWhereUniqueInput | Prisma.ProjectRevisionWhereUniqueInput[]
+  delete?: Prisma.ProjectRevisionWhereUniqueInput | Prisma.ProjectRevisionWhereUniqueInput[]
+  connect?: Prisma.ProjectRevisionWhereUniqueInput | Prisma.ProjectRevisionWhereUniqueInput[]
+  update?: Prisma.ProjectRevisionUpdateWithWhereUniqueWithoutProjectInput | Prisma.ProjectRevisionUpdateWithWhereUniqueWithoutProjectInput[]
+  updateMany?: Prisma.ProjectRevisionUpdateManyWithWhereWithoutProjectInput | Prisma.ProjectRevisionUpdateManyWithWhereWithoutProjectInput[]
+  deleteMany?: Prisma.ProjectRevisionScalarWhereInput | Prisma.ProjectRevisionScalarWhereInput[]
+}
+
+export type ProjectRevisionUncheckedUpdateManyWithoutProjectNestedInput = {
+  create?: Prisma.XOR<Prisma.ProjectRevisionCreateWithoutProjectInput, Prisma.ProjectRevisionUncheckedCreateWithoutProjectInput> | Prisma.ProjectRevisionCreateWithoutProjectInput[] | Prisma.ProjectRevisionUncheckedCreateWithoutProjectInput[]
+  connectOrCreate?: Prisma.ProjectRevisionCreateOrConnectWithoutProjectInput | Prisma.ProjectRevisionCreateOrConnectWithoutProjectInput[]
+  upsert?: Prisma.ProjectRevisionUpsertWithWhereUniqueWithoutProjectInput | Prisma.ProjectRevisionUpsertWithWhereUniqueWithoutProjectInput[]
+  createMany?: Prisma.ProjectRevisionCreateManyProjectInputEnvelope
+  set?: Prisma.ProjectRevisionWhereUniqueInput | Prisma.ProjectRevisionWhereUniqueInput[]
+  disconnect?: Prisma.ProjectRevisionWhereUniqueInput | Prisma.ProjectRevisionWhereUniqueInput[]
+  delete?: Prisma.ProjectRevisionWhereUniqueInput | Prisma.ProjectRevisionWhereUniqueInput[]
+  connect?: Prisma.ProjectRevisionWhereUniqueInput | Prisma.ProjectRevisionWhereUniqueInput[]
+  update?: Prisma.ProjectRevisionUpdateWithWhereUniqueWithoutProjectInput | Prisma.ProjectRevisionUpdateWithWhereUniqueWithoutProjectInput[]
+  updateMany?: Prisma.ProjectRevisionUpdateManyWithWhereWithoutProjectInput | Prisma.ProjectRevisionUpdateManyWithWhereWithoutProjectInput[]
+  deleteMany?: Prisma.ProjectRevisionScalarWhereInput | Prisma.ProjectRevisionScalarWhereInput[]
+}
+
+export type ProjectRevisionCreateWithoutProjectInput = {
+  id?: string
+  manifest: string
+  parentId?: string | null
+  author?: string
+  toolCallId?: string | null
+  name?: string | null
+  diffSummary?: string | null
+  createdAt?: Date | string
+}
+
+export type ProjectRevisionUncheckedCreateWithoutProjectInput = {
+  id?: string
+  manifest: string
+  parentId?: string | null
+  author?: string
+  toolCallId?: string | null
+  name?: string | null
+  diffSummary?: string | null
+  createdAt?: Date | string
+}
+
+export type ProjectRevisionCreateOrConnectWithoutProjectInput = {
+  where: Prisma.ProjectRevisionWhereUniqueInput
+  create: Prisma.XOR<Prisma.ProjectRevisionCreateWithoutProjectInput, Prisma.ProjectRevisionUncheckedCreateWithoutProjectInput>
+}
+
+export type ProjectRevisionCreateManyProjectInputEnvelope = {
+  data: Prisma.ProjectRevisionCreateManyProjectInput | Prisma.ProjectRevisionCreateManyProjectInput[]
+}
+
+export type ProjectRevisionUpsertWithWhereUniqueWithoutProjectInput = {
+  where: Prisma.ProjectRevisionWhereUniqueInput
+  update: Prisma.XOR<Prisma.ProjectRevisionUpdateWithoutProjectInput, Prisma.ProjectRevisionUncheckedUpdateWithoutProjectInput>
+  create: Prisma.XOR<Prisma.ProjectRevisionCreateWithoutProjectInput, Prisma.ProjectRevisionUncheckedCreateWithoutProjectInput>
+}
+
+export type ProjectRevisionUpdateWithWhereUniqueWithoutProjectInput = {
+  where: Prisma.ProjectRevisionWhereUniqueInput
+  data: Prisma.XOR<Prisma.ProjectRevisionUpdateWithoutProjectInput, Prisma.ProjectRevisionUncheckedUpdateWithoutProjectInput>
+}
+
+export type ProjectRevisionUpdateManyWithWhereWithoutProjectInput = {
+  where: Prisma.ProjectRevisionScalarWhereInput
+  data: Prisma.XOR<Prisma.ProjectRevisionUpdateManyMutationInput, Prisma.ProjectRevisionUncheckedUpdateManyWithoutProjectInput>
+}
+
+export type ProjectRevisionScalarWhereInput = {
+  AND?: Prisma.ProjectRevisionScalarWhereInput | Prisma.ProjectRevisionScalarWhereInput[]
+  OR?: Prisma.ProjectRevisionScalarWhereInput[]
+  NOT?: Prisma.ProjectRevisionScalarWhereInput | Prisma.ProjectRevisionScalarWhereInput[]
+  id?: Prisma.StringFilter<"ProjectRevision"> | string
+  projectId?: Prisma.StringFilter<"ProjectRevision"> | string
+  manifest?: Prisma.StringFilter<"ProjectRevision"> | string
+  parentId?: Prisma.StringNullableFilter<"ProjectRevision"> | string | null
+  author?: Prisma.StringFilter<"ProjectRevision"> | string
+  toolCallId?: Prisma.StringNullableFilter<"ProjectRevision"> | string | null
+  name?: Prisma.StringNullableFilter<"ProjectRevision"> | string | null
+  diffSummary?: Prisma.StringNullableFilter<"ProjectRevision"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"ProjectRevision"> | Date | string
+}
+
+export type ProjectRevisionCreateManyProjectInput = {
+  id?: string
+  manifest: string
+  parentId?: string | null
+  author?: string
+  toolCallId?: string | null
+  name?: string | null
+  diffSummary?: string | null
+  createdAt?: Date | string
+}
+
+export type ProjectRevisionUpdateWithoutProjectInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  manifest?: Prisma.StringFieldUpdateOperationsInput | string
+  parentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  author?: Prisma.StringFieldUpdateOperationsInput | string
+  toolCallId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  diffSummary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProjectRevisionUncheckedUpdateWithoutProjectInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  manifest?: Prisma.StringFieldUpdateOperationsInput | string
+  parentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  author?: Prisma.StringFieldUpdateOperationsInput | string
+  toolCallId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  diffSummary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProjectRevisionUncheckedUpdateManyWithoutProjectInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  manifest?: Prisma.StringFieldUpdateOperationsInput | string
+  parentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  author?: Prisma.StringFieldUpdateOperationsInput | string
+  toolCallId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  diffSummary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type ProjectRevisionSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  projectId?: boolean
+  manifest?: boolean
+  parentId?: boolean
+  author?: boolean
+  toolCallId?: boolean
+  name?: boolean
+  diffSummary?: boolean
+  createdAt?: boolean
+  project?: boolean | Prisma.ProjectDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["projectRevision"]>
+
+export type ProjectRevisionSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  projectId?: boolean
+  manifest?: boolean
+  parentId?: boolean
+  author?: boolean
+  toolCallId?: boolean
+  name?: boolean
+  diffSummary?: boolean
+  createdAt?: boolean
+  project?: boolean | Prisma.ProjectDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["projectRevision"]>
+
+export type ProjectRevisionSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  projectId?: boolean
+  manifest?: boolean
+  parentId?: boolean
+  author?: boolean
+  toolCallId?: boolean
+  name?: boolean
+  diffSummary?: boolean
+  createdAt?: boolean
+  project?: boolean | Prisma.ProjectDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["projectRevision"]>
+
+export type ProjectRevisionSelectScalar = {
+  id?: boolean
+  projectId?: boolean
+  manifest?: boolean
+  parentId?: boolean
+  author?: boolean
+  toolCallId?: boolean
+  name?: boolean
+  diffSummary?: boolean
+  createdAt?: boolean
+}
+
+export type ProjectRevisionOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "projectId" | "manifest" | "parentId" | "author" | "toolCallId" | "name" | "diffSummary" | "createdAt", ExtArgs["result"]["projectRevision"]>
+export type ProjectRevisionInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  project?: boolean | Prisma.ProjectDefaultArgs<ExtArgs>
+}
+export type ProjectRevisionIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  project?: boolean | Prisma.ProjectDefaultArgs<ExtArgs>
+}
+export type ProjectRevisionIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  project?: boolean | Prisma.ProjectDefaultArgs<ExtArgs>
+}
+
+export type $ProjectRevisionPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ProjectRevision"
+  objects: {
+    project: Prisma.$ProjectPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    projectId: string
+    manifest: string
+    parentId: string | null
+    author: string
+    toolCallId: string | null
+    name: string | null
+    diffSummary: string | null
+    createdAt: Date
+  }, ExtArgs["result"]["projectRevision"]>
+  composites: {}
+}
+
+export type ProjectRevisionGetPayload<S extends boolean | null | undefined | ProjectRevisionDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ProjectRevisionPayload, S>
+
+export type ProjectRevisionCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ProjectRevisionFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ProjectRevisionCountAggregateInputType | true
+  }
+
+export interface ProjectRevisionDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ProjectRevision'], meta: { name: 'ProjectRevision' } }
+  /**
+   * Find zero or one ProjectRevision that matches the filter.
+   * @param {ProjectRevisionFindUniqueArgs} args - Arguments to find a ProjectRevision
+   * @example
+   * // Get one ProjectRevision
+   * const projectRevision = await prisma.projectRevision.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ProjectRevisionFindUniqueArgs>(args: Prisma.SelectSubset<T, ProjectRevisionFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ProjectRevisionClient<runtime.Types.Result.GetResult<Prisma.$ProjectRevisionPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ProjectRevision that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ProjectRevisionFindUniqueOrThrowArgs} args - Arguments to find a ProjectRevision
+   * @example
+   * // Get one ProjectRevision
+   * const projectRevision = await prisma.projectRevision.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ProjectRevisionFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ProjectRevisionFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ProjectRevisionClient<runtime.Types.Result.GetResult<Prisma.$ProjectRevisionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ProjectRevision that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectRevisionFindFirstArgs} args - Arguments to find a ProjectRevision
+   * @example
+   * // Get one ProjectRevision
+   * const projectRevision = await prisma.projectRevision.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ProjectRevisionFindFirstArgs>(args?: Prisma.SelectSubset<T, ProjectRevisionFindFirstArgs<ExtArgs>>): Prisma.Prisma__ProjectRevisionClient<runtime.Types.Result.GetResult<Prisma.$ProjectRevisionPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ProjectRevision that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectRevisionFindFirstOrThrowArgs} args - Arguments to find a ProjectRevision
+   * @example
+   * // Get one ProjectRevision
+   * const projectRevision = await prisma.projectRevision.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ProjectRevisionFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ProjectRevisionFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ProjectRevisionClient<runtime.Types.Result.GetResult<Prisma.$ProjectRevisionPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ProjectRevisions that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectRevisionFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ProjectRevisions
+   * const projectRevisions = await prisma.projectRevision.findMany()
+   * 
+   * // Get first 10 ProjectRevisions
+   * const projectRevisions = await prisma.projectRevision.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const projectRevisionWithIdOnly = await prisma.projectRevision.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ProjectRevisionFindManyArgs>(args?: Prisma.SelectSubset<T, ProjectRevisionFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProjectRevisionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ProjectRevision.
+   * @param {ProjectRevisionCreateArgs} args - Arguments to create a ProjectRevision.
+   * @example
+   * // Create one ProjectRevision
+   * const ProjectRevision = await prisma.projectRevision.create({
+   *   data: {
+   *     // ... data to create a ProjectRevision
+   *   }
+   * })
+   * 
+   */
+  create<T extends ProjectRevisionCreateArgs>(args: Prisma.SelectSubset<T, ProjectRevisionCreateArgs<ExtArgs>>): Prisma.Prisma__ProjectRevisionClient<runtime.Types.Result.GetResult<Prisma.$ProjectRevisionPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ProjectRevisions.
+   * @param {ProjectRevisionCreateManyArgs} args - Arguments to create many ProjectRevisions.
+   * @example
+   * // Create many ProjectRevisions
+   * const projectRevision = await prisma.projectRevision.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ProjectRevisionCreateManyArgs>(args?: Prisma.SelectSubset<T, ProjectRevisionCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ProjectRevisions and returns the data saved in the database.
+   * @param {ProjectRevisionCreateManyAndReturnArgs} args - Arguments to create many ProjectRevisions.
+   * @example
+   * // Create many ProjectRevisions
+   * const projectRevision = await prisma.projectRevision.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ProjectRevisions and only return the `id`
+   * const projectRevisionWithIdOnly = await prisma.projectRevision.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ProjectRevisionCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ProjectRevisionCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProjectRevisionPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ProjectRevision.
+   * @param {ProjectRevisionDeleteArgs} args - Arguments to delete one ProjectRevision.
+   * @example
+   * // Delete one ProjectRevision
+   * const ProjectRevision = await prisma.projectRevision.delete({
+   *   where: {
+   *     // ... filter to delete one ProjectRevision
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ProjectRevisionDeleteArgs>(args: Prisma.SelectSubset<T, ProjectRevisionDeleteArgs<ExtArgs>>): Prisma.Prisma__ProjectRevisionClient<runtime.Types.Result.GetResult<Prisma.$ProjectRevisionPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ProjectRevision.
+   * @param {ProjectRevisionUpdateArgs} args - Arguments to update one ProjectRevision.
+   * @example
+   * // Update one ProjectRevision
+   * const projectRevision = await prisma.projectRevision.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ProjectRevisionUpdateArgs>(args: Prisma.SelectSubset<T, ProjectRevisionUpdateArgs<ExtArgs>>): Prisma.Prisma__ProjectRevisionClient<runtime.Types.Result.GetResult<Prisma.$ProjectRevisionPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ProjectRevisions.
+   * @param {ProjectRevisionDeleteManyArgs} args - Arguments to filter ProjectRevisions to delete.
+   * @example
+   * // Delete a few ProjectRevisions
+   * const { count } = await prisma.projectRevision.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ProjectRevisionDeleteManyArgs>(args?: Prisma.SelectSubset<T, ProjectRevisionDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ProjectRevisions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectRevisionUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ProjectRevisions
+   * const projectRevision = await prisma.projectRevision.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ProjectRevisionUpdateManyArgs>(args: Prisma.SelectSubset<T, ProjectRevisionUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ProjectRevisions and returns the data updated in the database.
+   * @param {ProjectRevisionUpdateManyAndReturnArgs} args - Arguments to update many ProjectRevisions.
+   * @example
+   * // Update many ProjectRevisions
+   * const projectRevision = await prisma.projectRevision.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ProjectRevisions and only return the `id`
+   * const projectRevisionWithIdOnly = await prisma.projectRevision.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ProjectRevisionUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ProjectRevisionUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProjectRevisionPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ProjectRevision.
+   * @param {ProjectRevisionUpsertArgs} args - Arguments to update or create a ProjectRevision.
+   * @example
+   * // Update or create a ProjectRevision
+   * const projectRevision = await prisma.projectRevision.upsert({
+   *   create: {
+   *     // ... data to create a ProjectRevision
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ProjectRevision we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ProjectRevisionUpsertArgs>(args: Prisma.SelectSubset<T, ProjectRevisionUpsertArgs<ExtArgs>>): Prisma.Prisma__ProjectRevisionClient<runtime.Types.Result.GetResult<Prisma.$ProjectRevisionPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ProjectRevisions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectRevisionCountArgs} args - Arguments to filter ProjectRevisions to count.
+   * @example
+   * // Count the number of ProjectRevisions
+   * const count = await prisma.projectRevision.count({
+   *   where: {
+   *     // ... the filter for the ProjectRevisions we want to count
+   *   }
+   * })
+  **/
+  count<T extends ProjectRevisionCountArgs>(
+    args?: Prisma.Subset<T, ProjectRevisionCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ProjectRevisionCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ProjectRevision.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectRevisionAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ProjectRevisionAggregateArgs>(args: Prisma.Subset<T, ProjectRevisionAggregateArgs>): Prisma.PrismaPromise<GetProjectRevisionAggregateType<T>>
+
+  /**
+   * Group by ProjectRevision.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectRevisionGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ProjectRevisionGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ProjectRevisionGroupByArgs['orderBy'] }
+      : { orderBy?: ProjectRevisionGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ProjectRevisionGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetProjectRevisionGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ProjectRevision model
+ */
+readonly fields: ProjectRevisionFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ProjectRevision.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ProjectRevisionClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  project<T extends Prisma.ProjectDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ProjectDefaultArgs<ExtArgs>>): Prisma.Prisma__ProjectClient<runtime.Types.Result.GetResult<Prisma.$ProjectPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ProjectRevision model
+ */
+export interface ProjectRevisionFieldRefs {
+  readonly id: Prisma.FieldRef<"ProjectRevision", 'String'>
+  readonly projectId: Prisma.FieldRef<"ProjectRevision", 'String'>
+  readonly manifest: Prisma.FieldRef<"ProjectRevision", 'String'>
+  readonly parentId: Prisma.FieldRef<"ProjectRevision", 'String'>
+  readonly author: Prisma.FieldRef<"ProjectRevision", 'String'>
+  readonly toolCallId: Prisma.FieldRef<"ProjectRevision", 'String'>
+  readonly name: Prisma.FieldRef<"ProjectRevision", 'String'>
+  readonly diffSummary: Prisma.FieldRef<"ProjectRevision", 'String'>
+  readonly createdAt: Prisma.FieldRef<"ProjectRevision", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ProjectRevision findUnique
+ */
+export type ProjectRevisionFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectRevision
+   */
+  select?: Prisma.ProjectRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectRevision
+   */
+  omit?: Prisma.ProjectRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectRevisionInclude<ExtArgs> | null
+  /**
+   * Filter, which ProjectRevision to fetch.
+   */
+  where: Prisma.ProjectRevisionWhereUniqueInput
+}
+
+/**
+ * ProjectRevision findUniqueOrThrow
+ */
+export type ProjectRevisionFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectRevision
+   */
+  select?: Prisma.ProjectRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectRevision
+   */
+  omit?: Prisma.ProjectRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectRevisionInclude<ExtArgs> | null
+  /**
+   * Filter, which ProjectRevision to fetch.
+   */
+  where: Prisma.ProjectRevisionWhereUniqueInput
+}
+
+/**
+ * ProjectRevision findFirst
+ */
+export type ProjectRevisionFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectRevision
+   */
+  select?: Prisma.ProjectRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectRevision
+   */
+  omit?: Prisma.ProjectRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectRevisionInclude<ExtArgs> | null
+  /**
+   * Filter, which ProjectRevision to fetch.
+   */
+  where?: Prisma.ProjectRevisionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ProjectRevisions to fetch.
+   */
+  orderBy?: Prisma.ProjectRevisionOrderByWithRelationInput | Prisma.ProjectRevisionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ProjectRevisions.
+   */
+  cursor?: Prisma.ProjectRevisionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ProjectRevisions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ProjectRevisions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ProjectRevisions.
+   */
+  distinct?: Prisma.ProjectRevisionScalarFieldEnum | Prisma.ProjectRevisionScalarFieldEnum[]
+}
+
+/**
+ * ProjectRevision findFirstOrThrow
+ */
+export type ProjectRevisionFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectRevision
+   */
+  select?: Prisma.ProjectRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectRevision
+   */
+  omit?: Prisma.ProjectRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectRevisionInclude<ExtArgs> | null
+  /**
+   * Filter, which ProjectRevision to fetch.
+   */
+  where?: Prisma.ProjectRevisionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ProjectRevisions to fetch.
+   */
+  orderBy?: Prisma.ProjectRevisionOrderByWithRelationInput | Prisma.ProjectRevisionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ProjectRevisions.
+   */
+  cursor?: Prisma.ProjectRevisionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ProjectRevisions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ProjectRevisions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ProjectRevisions.
+   */
+  distinct?: Prisma.ProjectRevisionScalarFieldEnum | Prisma.ProjectRevisionScalarFieldEnum[]
+}
+
+/**
+ * ProjectRevision findMany
+ */
+export type ProjectRevisionFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectRevision
+   */
+  select?: Prisma.ProjectRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectRevision
+   */
+  omit?: Prisma.ProjectRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectRevisionInclude<ExtArgs> | null
+  /**
+   * Filter, which ProjectRevisions to fetch.
+   */
+  where?: Prisma.ProjectRevisionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ProjectRevisions to fetch.
+   */
+  orderBy?: Prisma.ProjectRevisionOrderByWithRelationInput | Prisma.ProjectRevisionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ProjectRevisions.
+   */
+  cursor?: Prisma.ProjectRevisionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ProjectRevisions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ProjectRevisions.
+   */
+  skip?: number
+  distinct?: Prisma.ProjectRevisionScalarFieldEnum | Prisma.ProjectRevisionScalarFieldEnum[]
+}
+
+/**
+ * ProjectRevision create
+ */
+export type ProjectRevisionCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectRevision
+   */
+  select?: Prisma.ProjectRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectRevision
+   */
+  omit?: Prisma.ProjectRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectRevisionInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ProjectRevision.
+   */
+  data: Prisma.XOR<Prisma.ProjectRevisionCreateInput, Prisma.ProjectRevisionUncheckedCreateInput>
+}
+
+/**
+ * ProjectRevision createMany
+ */
+export type ProjectRevisionCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ProjectRevisions.
+   */
+  data: Prisma.ProjectRevisionCreateManyInput | Prisma.ProjectRevisionCreateManyInput[]
+}
+
+/**
+ * ProjectRevision createManyAndReturn
+ */
+export type ProjectRevisionCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectRevision
+   */
+  select?: Prisma.ProjectRevisionSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectRevision
+   */
+  omit?: Prisma.ProjectRevisionOmit<ExtArgs> | null
+  /**
+   * The data used to create many ProjectRevisions.
+   */
+  data: Prisma.ProjectRevisionCreateManyInput | Prisma.ProjectRevisionCreateManyInput[]
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectRevisionIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ProjectRevision update
+ */
+export type ProjectRevisionUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectRevision
+   */
+  select?: Prisma.ProjectRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectRevision
+   */
+  omit?: Prisma.ProjectRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectRevisionInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ProjectRevision.
+   */
+  data: Prisma.XOR<Prisma.ProjectRevisionUpdateInput, Prisma.ProjectRevisionUncheckedUpdateInput>
+  /**
+   * Choose, which ProjectRevision to update.
+   */
+  where: Prisma.ProjectRevisionWhereUniqueInput
+}
+
+/**
+ * ProjectRevision updateMany
+ */
+export type ProjectRevisionUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ProjectRevisions.
+   */
+  data: Prisma.XOR<Prisma.ProjectRevisionUpdateManyMutationInput, Prisma.ProjectRevisionUncheckedUpdateManyInput>
+  /**
+   * Filter which ProjectRevisions to update
+   */
+  where?: Prisma.ProjectRevisionWhereInput
+  /**
+   * Limit how many ProjectRevisions to update.
+   */
+  limit?: number
+}
+
+/**
+ * ProjectRevision updateManyAndReturn
+ */
+export type ProjectRevisionUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectRevision
+   */
+  select?: Prisma.ProjectRevisionSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectRevision
+   */
+  omit?: Prisma.ProjectRevisionOmit<ExtArgs> | null
+  /**
+   * The data used to update ProjectRevisions.
+   */
+  data: Prisma.XOR<Prisma.ProjectRevisionUpdateManyMutationInput, Prisma.ProjectRevisionUncheckedUpdateManyInput>
+  /**
+   * Filter which ProjectRevisions to update
+   */
+  where?: Prisma.ProjectRevisionWhereInput
+  /**
+   * Limit how many ProjectRevisions to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectRevisionIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ProjectRevision upsert
+ */
+export type ProjectRevisionUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectRevision
+   */
+  select?: Prisma.ProjectRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectRevision
+   */
+  omit?: Prisma.ProjectRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectRevisionInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ProjectRevision to update in case it exists.
+   */
+  where: Prisma.ProjectRevisionWhereUniqueInput
+  /**
+   * In case the ProjectRevision found by the `where` argument doesn't exist, create a new ProjectRevision with this data.
+   */
+  create: Prisma.XOR<Prisma.ProjectRevisionCreateInput, Prisma.ProjectRevisionUncheckedCreateInput>
+  /**
+   * In case the ProjectRevision was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ProjectRevisionUpdateInput, Prisma.ProjectRevisionUncheckedUpdateInput>
+}
+
+/**
+ * ProjectRevision delete
+ */
+export type ProjectRevisionDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectRevision
+   */
+  select?: Prisma.ProjectRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectRevision
+   */
+  omit?: Prisma.ProjectRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectRevisionInclude<ExtArgs> | null
+  /**
+   * Filter which ProjectRevision to delete.
+   */
+  where: Prisma.ProjectRevisionWhereUniqueInput
+}
+
+/**
+ * ProjectRevision deleteMany
+ */
+export type ProjectRevisionDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ProjectRevisions to delete
+   */
+  where?: Prisma.ProjectRevisionWhereInput
+  /**
+   * Limit how many ProjectRevisions to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ProjectRevision without action
+ */
+export type ProjectRevisionDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectRevision
+   */
+  select?: Prisma.ProjectRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectRevision
+   */
+  omit?: Prisma.ProjectRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectRevisionInclude<ExtArgs> | null
+}
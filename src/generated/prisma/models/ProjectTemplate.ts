@@ -0,0 +1,1766 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `ProjectTemplate` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.ts"
+import type * as Prisma from "../internal/prismaNamespace.ts"
+
+/**
+ * Model ProjectTemplate
+ * 
+ */
+export type ProjectTemplateModel = runtime.Types.Result.DefaultSelection<Prisma.$ProjectTemplatePayload>
+
+export type AggregateProjectTemplate = {
+  _count: ProjectTemplateCountAggregateOutputType | null
+  _avg: ProjectTemplateAvgAggregateOutputType | null
+  _sum: ProjectTemplateSumAggregateOutputType | null
+  _min: ProjectTemplateMinAggregateOutputType | null
+  _max: ProjectTemplateMaxAggregateOutputType | null
+}
+
+export type ProjectTemplateAvgAggregateOutputType = {
+  width: number | null
+  height: number | null
+  fps: number | null
+}
+
+export type ProjectTemplateSumAggregateOutputType = {
+  width: number | null
+  height: number | null
+  fps: number | null
+}
+
+export type ProjectTemplateMinAggregateOutputType = {
+  id: string | null
+  userId: string | null
+  name: string | null
+  description: string | null
+  width: number | null
+  height: number | null
+  fps: number | null
+  manifest: string | null
+  slots: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ProjectTemplateMaxAggregateOutputType = {
+  id: string | null
+  userId: string | null
+  name: string | null
+  description: string | null
+  width: number | null
+  height: number | null
+  fps: number | null
+  manifest: string | null
+  slots: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ProjectTemplateCountAggregateOutputType = {
+  id: number
+  userId: number
+  name: number
+  description: number
+  width: number
+  height: number
+  fps: number
+  manifest: number
+  slots: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type ProjectTemplateAvgAggregateInputType = {
+  width?: true
+  height?: true
+  fps?: true
+}
+
+export type ProjectTemplateSumAggregateInputType = {
+  width?: true
+  height?: true
+  fps?: true
+}
+
+export type ProjectTemplateMinAggregateInputType = {
+  id?: true
+  userId?: true
+  name?: true
+  description?: true
+  width?: true
+  height?: true
+  fps?: true
+  manifest?: true
+  slots?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ProjectTemplateMaxAggregateInputType = {
+  id?: true
+  userId?: true
+  name?: true
+  description?: true
+  width?: true
+  height?: true
+  fps?: true
+  manifest?: true
+  slots?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ProjectTemplateCountAggregateInputType = {
+  id?: true
+  userId?: true
+  name?: true
+  description?: true
+  width?: true
+  height?: true
+  fps?: true
+  manifest?: true
+  slots?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type ProjectTemplateAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ProjectTemplate to aggregate.
+   */
+  where?: Prisma.ProjectTemplateWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ProjectTemplates to fetch.
+   */
+  orderBy?: Prisma.ProjectTemplateOrderByWithRelationInput | Prisma.ProjectTemplateOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ProjectTemplateWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ProjectTemplates from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ProjectTemplates.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ProjectTemplates
+  **/
+  _count?: true | ProjectTemplateCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: ProjectTemplateAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: ProjectTemplateSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ProjectTemplateMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ProjectTemplateMaxAggregateInputType
+}
+
+export type GetProjectTemplateAggregateType<T extends ProjectTemplateAggregateArgs> = {
+      [P in keyof T & keyof AggregateProjectTemplate]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateProjectTemplate[P]>
+    : Prisma.GetScalarType<T[P], AggregateProjectTemplate[P]>
+}
+
+
+
+
+export type ProjectTemplateGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ProjectTemplateWhereInput
+  orderBy?: Prisma.ProjectTemplateOrderByWithAggregationInput | Prisma.ProjectTemplateOrderByWithAggregationInput[]
+  by: Prisma.ProjectTemplateScalarFieldEnum[] | Prisma.ProjectTemplateScalarFieldEnum
+  having?: Prisma.ProjectTemplateScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ProjectTemplateCountAggregateInputType | true
+  _avg?: ProjectTemplateAvgAggregateInputType
+  _sum?: ProjectTemplateSumAggregateInputType
+  _min?: ProjectTemplateMinAggregateInputType
+  _max?: ProjectTemplateMaxAggregateInputType
+}
+
+export type ProjectTemplateGroupByOutputType = {
+  id: string
+  userId: string
+  name: string
+  description: string | null
+  width: number
+  height: number
+  fps: number
+  manifest: string
+  slots: string
+  createdAt: Date
+  updatedAt: Date
+  _count: ProjectTemplateCountAggregateOutputType | null
+  _avg: ProjectTemplateAvgAggregateOutputType | null
+  _sum: ProjectTemplateSumAggregateOutputType | null
+  _min: ProjectTemplateMinAggregateOutputType | null
+  _max: ProjectTemplateMaxAggregateOutputType | null
+}
+
+type GetProjectTemplateGroupByPayload<T extends ProjectTemplateGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ProjectTemplateGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ProjectTemplateGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ProjectTemplateGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ProjectTemplateGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ProjectTemplateWhereInput = {
+  AND?: Prisma.ProjectTemplateWhereInput | Prisma.ProjectTemplateWhereInput[]
+  OR?: Prisma.ProjectTemplateWhereInput[]
+  NOT?: Prisma.ProjectTemplateWhereInput | Prisma.ProjectTemplateWhereInput[]
+  id?: Prisma.StringFilter<"ProjectTemplate"> | string
+  userId?: Prisma.StringFilter<"ProjectTemplate"> | string
+  name?: Prisma.StringFilter<"ProjectTemplate"> | string
+  description?: Prisma.StringNullableFilter<"ProjectTemplate"> | string | null
+  width?: Prisma.IntFilter<"ProjectTemplate"> | number
+  height?: Prisma.IntFilter<"ProjectTemplate"> | number
+  fps?: Prisma.IntFilter<"ProjectTemplate"> | number
+  manifest?: Prisma.StringFilter<"ProjectTemplate"> | string
+  slots?: Prisma.StringFilter<"ProjectTemplate"> | string
+  createdAt?: Prisma.DateTimeFilter<"ProjectTemplate"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ProjectTemplate"> | Date | string
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  projects?: Prisma.ProjectListRelationFilter
+}
+
+export type ProjectTemplateOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  description?: Prisma.SortOrderInput | Prisma.SortOrder
+  width?: Prisma.SortOrder
+  height?: Prisma.SortOrder
+  fps?: Prisma.SortOrder
+  manifest?: Prisma.SortOrder
+  slots?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  user?: Prisma.UserOrderByWithRelationInput
+  projects?: Prisma.ProjectOrderByRelationAggregateInput
+}
+
+export type ProjectTemplateWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.ProjectTemplateWhereInput | Prisma.ProjectTemplateWhereInput[]
+  OR?: Prisma.ProjectTemplateWhereInput[]
+  NOT?: Prisma.ProjectTemplateWhereInput | Prisma.ProjectTemplateWhereInput[]
+  userId?: Prisma.StringFilter<"ProjectTemplate"> | string
+  name?: Prisma.StringFilter<"ProjectTemplate"> | string
+  description?: Prisma.StringNullableFilter<"ProjectTemplate"> | string | null
+  width?: Prisma.IntFilter<"ProjectTemplate"> | number
+  height?: Prisma.IntFilter<"ProjectTemplate"> | number
+  fps?: Prisma.IntFilter<"ProjectTemplate"> | number
+  manifest?: Prisma.StringFilter<"ProjectTemplate"> | string
+  slots?: Prisma.StringFilter<"ProjectTemplate"> | string
+  createdAt?: Prisma.DateTimeFilter<"ProjectTemplate"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ProjectTemplate"> | Date | string
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  projects?: Prisma.ProjectListRelationFilter
+}, "id">
+
+export type ProjectTemplateOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  description?: Prisma.SortOrderInput | Prisma.SortOrder
+  width?: Prisma.SortOrder
+  height?: Prisma.SortOrder
+  fps?: Prisma.SortOrder
+  manifest?: Prisma.SortOrder
+  slots?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.ProjectTemplateCountOrderByAggregateInput
+  _avg?: Prisma.ProjectTemplateAvgOrderByAggregateInput
+  _max?: Prisma.ProjectTemplateMaxOrderByAggregateInput
+  _min?: Prisma.ProjectTemplateMinOrderByAggregateInput
+  _sum?: Prisma.ProjectTemplateSumOrderByAggregateInput
+}
+
+export type ProjectTemplateScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ProjectTemplateScalarWhereWithAggregatesInput | Prisma.ProjectTemplateScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ProjectTemplateScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ProjectTemplateScalarWhereWithAggregatesInput | Prisma.ProjectTemplateScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"ProjectTemplate"> | string
+  userId?: Prisma.StringWithAggregatesFilter<"ProjectTemplate"> | string
+  name?: Prisma.StringWithAggregatesFilter<"ProjectTemplate"> | string
+  description?: Prisma.StringNullableWithAggregatesFilter<"ProjectTemplate"> | string | null
+  width?: Prisma.IntWithAggregatesFilter<"ProjectTemplate"> | number
+  height?: Prisma.IntWithAggregatesFilter<"ProjectTemplate"> | number
+  fps?: Prisma.IntWithAggregatesFilter<"ProjectTemplate"> | number
+  manifest?: Prisma.StringWithAggregatesFilter<"ProjectTemplate"> | string
+  slots?: Prisma.StringWithAggregatesFilter<"ProjectTemplate"> | string
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ProjectTemplate"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"ProjectTemplate"> | Date | string
+}
+
+export type ProjectTemplateCreateInput = {
+  id?: string
+  name: string
+  description?: string | null
+  width?: number
+  height?: number
+  fps?: number
+  manifest: string
+  slots?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutTemplatesInput
+  projects?: Prisma.ProjectCreateNestedManyWithoutTemplateInput
+}
+
+export type ProjectTemplateUncheckedCreateInput = {
+  id?: string
+  userId: string
+  name: string
+  description?: string | null
+  width?: number
+  height?: number
+  fps?: number
+  manifest: string
+  slots?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  projects?: Prisma.ProjectUncheckedCreateNestedManyWithoutTemplateInput
+}
+
+export type ProjectTemplateUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  width?: Prisma.IntFieldUpdateOperationsInput | number
+  height?: Prisma.IntFieldUpdateOperationsInput | number
+  fps?: Prisma.IntFieldUpdateOperationsInput | number
+  manifest?: Prisma.StringFieldUpdateOperationsInput | string
+  slots?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutTemplatesNestedInput
+  projects?: Prisma.ProjectUpdateManyWithoutTemplateNestedInput
+}
+
+export type ProjectTemplateUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  width?: Prisma.IntFieldUpdateOperationsInput | number
+  height?: Prisma.IntFieldUpdateOperationsInput | number
+  fps?: Prisma.IntFieldUpdateOperationsInput | number
+  manifest?: Prisma.StringFieldUpdateOperationsInput | string
+  slots?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  projects?: Prisma.ProjectUncheckedUpdateManyWithoutTemplateNestedInput
+}
+
+export type ProjectTemplateCreateManyInput = {
+  id?: string
+  userId: string
+  name: string
+  description?: string | null
+  width?: number
+  height?: number
+  fps?: number
+  manifest: string
+  slots?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ProjectTemplateUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  width?: Prisma.IntFieldUpdateOperationsInput | number
+  height?: Prisma.IntFieldUpdateOperationsInput | number
+  fps?: Prisma.IntFieldUpdateOperationsInput | number
+  manifest?: Prisma.StringFieldUpdateOperationsInput | string
+  slots?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProjectTemplateUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  width?: Prisma.IntFieldUpdateOperationsInput | number
+  height?: Prisma.IntFieldUpdateOperationsInput | number
+  fps?: Prisma.IntFieldUpdateOperationsInput | number
+  manifest?: Prisma.StringFieldUpdateOperationsInput | string
+  slots?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProjectTemplateListRelationFilter = {
+  every?: Prisma.ProjectTemplateWhereInput
+  some?: Prisma.ProjectTemplateWhereInput
+  none?: Prisma.ProjectTemplateWhereInput
+}
+
+export type ProjectTemplateOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type ProjectTemplateNullableScalarRelationFilter = {
+  is?: Prisma.ProjectTemplateWhereInput | null
+  isNot?: Prisma.ProjectTemplateWhereInput | null
+}
+
+export type ProjectTemplateCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  width?: Prisma.SortOrder
+  height?: Prisma.SortOrder
+  fps?: Prisma.SortOrder
+  manifest?: Prisma.SortOrder
+  slots?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ProjectTemplateAvgOrderByAggregateInput = {
+  width?: Prisma.SortOrder
+  height?: Prisma.SortOrder
+  fps?: Prisma.SortOrder
+}
+
+export type ProjectTemplateMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  width?: Prisma.SortOrder
+  height?: Prisma.SortOrder
+  fps?: Prisma.SortOrder
+  manifest?: Prisma.SortOrder
+  slots?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ProjectTemplateMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  width?: Prisma.SortOrder
+  height?: Prisma.SortOrder
+  fps?: Prisma.SortOrder
+  manifest?: Prisma.SortOrder
+  slots?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ProjectTemplateSumOrderByAggregateInput = {
+  width?: Prisma.SortOrder
+  height?: Prisma.SortOrder
+  fps?: Prisma.SortOrder
+}
+
+export type ProjectTemplateCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.ProjectTemplateCreateWithoutUserInput, Prisma.ProjectTemplateUncheckedCreateWithoutUserInput> | Prisma.ProjectTemplateCreateWithoutUserInput[] | Prisma.ProjectTemplateUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ProjectTemplateCreateOrConnectWithoutUserInput | Prisma.ProjectTemplateCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.ProjectTemplateCreateManyUserInputEnvelope
+  connect?: Prisma.ProjectTemplateWhereUniqueInput | Prisma.ProjectTemplateWhereUniqueInput[]
+}
+
+export type ProjectTemplateUncheckedCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.ProjectTemplateCreateWithoutUserInput, Prisma.ProjectTemplateUncheckedCreateWithoutUserInput> | Prisma.ProjectTemplateCreateWithoutUserInput[] | Prisma.ProjectTemplateUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ProjectTemplateCreateOrConnectWithoutUserInput | Prisma.ProjectTemplateCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.ProjectTemplateCreateManyUserInputEnvelope
+  connect?: Prisma.ProjectTemplateWhereUniqueInput | Prisma.ProjectTemplateWhereUniqueInput[]
+}
+
+export type ProjectTemplateUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.ProjectTemplateCreateWithoutUserInput, Prisma.ProjectTemplateUncheckedCreateWithoutUserInput> | Prisma.ProjectTemplateCreateWithoutUserInput[] | Prisma.ProjectTemplateUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ProjectTemplateCreateOrConnectWithoutUserInput | Prisma.ProjectTemplateCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.ProjectTemplateUpsertWithWhereUniqueWithoutUserInput | Prisma.ProjectTemplateUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.ProjectTemplateCreateManyUserInputEnvelope
+  set?: Prisma.ProjectTemplateWhereUniqueInput | Prisma.ProjectTemplateWhereUniqueInput[]
+  disconnect?: Prisma.ProjectTemplateWhereUniqueInput | Prisma.ProjectTemplateWhereUniqueInput[]
+  delete?: Prisma.ProjectTemplateWhereUniqueInput | Prisma.ProjectTemplateWhereUniqueInput[]
+  connect?: Prisma.ProjectTemplateWhereUniqueInput | Prisma.ProjectTemplateWhereUniqueInput[]
+  update?: Prisma.ProjectTemplateUpdateWithWhereUniqueWithoutUserInput | Prisma.ProjectTemplateUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.ProjectTemplateUpdateManyWithWhereWithoutUserInput | Prisma.ProjectTemplateUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.ProjectTemplateScalarWhereInput | Prisma.ProjectTemplateScalarWhereInput[]
+}
+
+export type ProjectTemplateUncheckedUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.ProjectTemplateCreateWithoutUserInput, Prisma.ProjectTemplateUncheckedCreateWithoutUserInput> | Prisma.ProjectTemplateCreateWithoutUserInput[] | Prisma.ProjectTemplateUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ProjectTemplateCreateOrConnectWithoutUserInput | Prisma.ProjectTemplateCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.ProjectTemplateUpsertWithWhereUniqueWithoutUserInput | Prisma.ProjectTemplateUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.ProjectTemplateCreateManyUserInputEnvelope
+  set?: Prisma.ProjectTemplateWhereUniqueInput | Prisma.ProjectTemplateWhereUniqueInput[]
+  disconnect?: Prisma.ProjectTemplateWhereUniqueInput | Prisma.ProjectTemplateWhereUniqueInput[]
+  delete?: Prisma.ProjectTemplateWhereUniqueInput | Prisma.ProjectTemplateWhereUniqueInput[]
+  connect?: Prisma.ProjectTemplateWhereUniqueInput | Prisma.ProjectTemplateWhereUniqueInput[]
+  update?: Prisma.ProjectTemplateUpdateWithWhereUniqueWithoutUserInput | Prisma.ProjectTemplateUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.ProjectTemplateUpdateManyWithWhereWithoutUserInput | Prisma.ProjectTemplateUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.ProjectTemplateScalarWhereInput | Prisma.ProjectTemplateScalarWhereInput[]
+}
+
+export type ProjectTemplateCreateNestedOneWithoutProjectsInput = {
+  create?: Prisma.XOR<Prisma.ProjectTemplateCreateWithoutProjectsInput, Prisma.ProjectTemplateUncheckedCreateWithoutProjectsInput>
+  connectOrCreate?: Prisma.ProjectTemplateCreateOrConnectWithoutProjectsInput
+  connect?: Prisma.ProjectTemplateWhereUniqueInput
+}
+
+export type ProjectTemplateUpdateOneWithoutProjectsNestedInput = {
+  create?: Prisma.XOR<Prisma.ProjectTemplateCreateWithoutProjectsInput, Prisma.ProjectTemplateUncheckedCreateWithoutProjectsInput>
+  connectOrCreate?: Prisma.ProjectTemplateCreateOrConnectWithoutProjectsInput
+  upsert?: Prisma.ProjectTemplateUpsertWithoutProjectsInput
+  disconnect?: Prisma.ProjectTemplateWhereInput | boolean
+  delete?: Prisma.ProjectTemplateWhereInput | boolean
+  connect?: Prisma.ProjectTemplateWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ProjectTemplateUpdateToOneWithWhereWithoutProjectsInput, Prisma.ProjectTemplateUpdateWithoutProjectsInput>, Prisma.ProjectTemplateUncheckedUpdateWithoutProjectsInput>
+}
+
+export type ProjectTemplateCreateWithoutUserInput = {
+  id?: string
+  name: string
+  description?: string | null
+  width?: number
+  height?: number
+  fps?: number
+  manifest: string
+  slots?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  projects?: Prisma.ProjectCreateNestedManyWithoutTemplateInput
+}
+
+export type ProjectTemplateUncheckedCreateWithoutUserInput = {
+  id?: string
+  name: string
+  description?: string | null
+  width?: number
+  height?: number
+  fps?: number
+  manifest: string
+  slots?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  projects?: Prisma.ProjectUncheckedCreateNestedManyWithoutTemplateInput
+}
+
+export type ProjectTemplateCreateOrConnectWithoutUserInput = {
+  where: Prisma.ProjectTemplateWhereUniqueInput
+  create: Prisma.XOR<Prisma.ProjectTemplateCreateWithoutUserInput, Prisma.ProjectTemplateUncheckedCreateWithoutUserInput>
+}
+
+export type ProjectTemplateCreateManyUserInputEnvelope = {
+  data: Prisma.ProjectTemplateCreateManyUserInput | Prisma.ProjectTemplateCreateManyUserInput[]
+}
+
+export type ProjectTemplateUpsertWithWhereUniqueWithoutUserInput = {
+  where: Prisma.ProjectTemplateWhereUniqueInput
+  update: Prisma.XOR<Prisma.ProjectTemplateUpdateWithoutUserInput, Prisma.ProjectTemplateUncheckedUpdateWithoutUserInput>
+  create: Prisma.XOR<Prisma.ProjectTemplateCreateWithoutUserInput, Prisma.ProjectTemplateUncheckedCreateWithoutUserInput>
+}
+
+export type ProjectTemplateUpdateWithWhereUniqueWithoutUserInput = {
+  where: Prisma.ProjectTemplateWhereUniqueInput
+  data: Prisma.XOR<Prisma.ProjectTemplateUpdateWithoutUserInput, Prisma.ProjectTemplateUncheckedUpdateWithoutUserInput>
+}
+
+export type ProjectTemplateUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.ProjectTemplateScalarWhereInput
+  data: Prisma.XOR<Prisma.ProjectTemplateUpdateManyMutationInput, Prisma.ProjectTemplateUncheckedUpdateManyWithoutUserInput>
+}
+
+export type ProjectTemplateScalarWhereInput = {
+  AND?: Prisma.ProjectTemplateScalarWhereInput | Prisma.ProjectTemplateScalarWhereInput[]
+  OR?: Prisma.ProjectTemplateScalarWhereInput[]
+  NOT?: Prisma.ProjectTemplateScalarWhereInput | Prisma.ProjectTemplateScalarWhereInput[]
+  id?: Prisma.StringFilter<"ProjectTemplate"> | string
+  userId?: Prisma.StringFilter<"ProjectTemplate"> | string
+  name?: Prisma.StringFilter<"ProjectTemplate"> | string
+  description?: Prisma.StringNullableFilter<"ProjectTemplate"> | string | null
+  width?: Prisma.IntFilter<"ProjectTemplate"> | number
+  height?: Prisma.IntFilter<"ProjectTemplate"> | number
+  fps?: Prisma.IntFilter<"ProjectTemplate"> | number
+  manifest?: Prisma.StringFilter<"ProjectTemplate"> | string
+  slots?: Prisma.StringFilter<"ProjectTemplate"> | string
+  createdAt?: Prisma.DateTimeFilter<"ProjectTemplate"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ProjectTemplate"> | Date | string
+}
+
+export type ProjectTemplateCreateWithoutProjectsInput = {
+  id?: string
+  name: string
+  description?: string | null
+  width?: number
+  height?: number
+  fps?: number
+  manifest: string
+  slots?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutTemplatesInput
+}
+
+export type ProjectTemplateUncheckedCreateWithoutProjectsInput = {
+  id?: string
+  userId: string
+  name: string
+  description?: string | null
+  width?: number
+  height?: number
+  fps?: number
+  manifest: string
+  slots?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ProjectTemplateCreateOrConnectWithoutProjectsInput = {
+  where: Prisma.ProjectTemplateWhereUniqueInput
+  create: Prisma.XOR<Prisma.ProjectTemplateCreateWithoutProjectsInput, Prisma.ProjectTemplateUncheckedCreateWithoutProjectsInput>
+}
+
+export type ProjectTemplateUpsertWithoutProjectsInput = {
+  update: Prisma.XOR<Prisma.ProjectTemplateUpdateWithoutProjectsInput, Prisma.ProjectTemplateUncheckedUpdateWithoutProjectsInput>
+  create: Prisma.XOR<Prisma.ProjectTemplateCreateWithoutProjectsInput, Prisma.ProjectTemplateUncheckedCreateWithoutProjectsInput>
+  where?: Prisma.ProjectTemplateWhereInput
+}
+
+export type ProjectTemplateUpdateToOneWithWhereWithoutProjectsInput = {
+  where?: Prisma.ProjectTemplateWhereInput
+  data: Prisma.XOR<Prisma.ProjectTemplateUpdateWithoutProjectsInput, Prisma.ProjectTemplateUncheckedUpdateWithoutProjectsInput>
+}
+
+export type ProjectTemplateUpdateWithoutProjectsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  width?: Prisma.IntFieldUpdateOperationsInput | number
+  height?: Prisma.IntFieldUpdateOperationsInput | number
+  fps?: Prisma.IntFieldUpdateOperationsInput | number
+  manifest?: Prisma.StringFieldUpdateOperationsInput | string
+  slots?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutTemplatesNestedInput
+}
+
+export type ProjectTemplateUncheckedUpdateWithoutProjectsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  width?: Prisma.IntFieldUpdateOperationsInput | number
+  height?: Prisma.IntFieldUpdateOperationsInput | number
+  fps?: Prisma.IntFieldUpdateOperationsInput | number
+  manifest?: Prisma.StringFieldUpdateOperationsInput | string
+  slots?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProjectTemplateCreateManyUserInput = {
+  id?: string
+  name: string
+  description?: string | null
+  width?: number
+  height?: number
+  fps?: number
+  manifest: string
+  slots?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ProjectTemplateUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  width?: Prisma.IntFieldUpdateOperationsInput | number
+  height?: Prisma.IntFieldUpdateOperationsInput | number
+  fps?: Prisma.IntFieldUpdateOperationsInput | number
+  manifest?: Prisma.StringFieldUpdateOperationsInput | string
+  slots?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  projects?: Prisma.ProjectUpdateManyWithoutTemplateNestedInput
+}
+
+export type ProjectTemplateUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  width?: Prisma.IntFieldUpdateOperationsInput | number
+  height?: Prisma.IntFieldUpdateOperationsInput | number
+  fps?: Prisma.IntFieldUpdateOperationsInput | number
+  manifest?: Prisma.StringFieldUpdateOperationsInput | string
+  slots?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  projects?: Prisma.ProjectUncheckedUpdateManyWithoutTemplateNestedInput
+}
+
+export type ProjectTemplateUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  width?: Prisma.IntFieldUpdateOperationsInput | number
+  height?: Prisma.IntFieldUpdateOperationsInput | number
+  fps?: Prisma.IntFieldUpdateOperationsInput | number
+  manifest?: Prisma.StringFieldUpdateOperationsInput | string
+  slots?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type ProjectTemplateCountOutputType
+ */
+
+export type ProjectTemplateCountOutputType = {
+  projects: number
+}
+
+export type ProjectTemplateCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  projects?: boolean | ProjectTemplateCountOutputTypeCountProjectsArgs
+}
+
+/**
+ * ProjectTemplateCountOutputType without action
+ */
+export type ProjectTemplateCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectTemplateCountOutputType
+   */
+  select?: Prisma.ProjectTemplateCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * ProjectTemplateCountOutputType without action
+ */
+export type ProjectTemplateCountOutputTypeCountProjectsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ProjectWhereInput
+}
+
+
+export type ProjectTemplateSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  name?: boolean
+  description?: boolean
+  width?: boolean
+  height?: boolean
+  fps?: boolean
+  manifest?: boolean
+  slots?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  projects?: boolean | Prisma.ProjectTemplate$projectsArgs<ExtArgs>
+  _count?: boolean | Prisma.ProjectTemplateCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["projectTemplate"]>
+
+export type ProjectTemplateSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  name?: boolean
+  description?: boolean
+  width?: boolean
+  height?: boolean
+  fps?: boolean
+  manifest?: boolean
+  slots?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["projectTemplate"]>
+
+export type ProjectTemplateSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  name?: boolean
+  description?: boolean
+  width?: boolean
+  height?: boolean
+  fps?: boolean
+  manifest?: boolean
+  slots?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["projectTemplate"]>
+
+export type ProjectTemplateSelectScalar = {
+  id?: boolean
+  userId?: boolean
+  name?: boolean
+  description?: boolean
+  width?: boolean
+  height?: boolean
+  fps?: boolean
+  manifest?: boolean
+  slots?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type ProjectTemplateOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "userId" | "name" | "description" | "width" | "height" | "fps" | "manifest" | "slots" | "createdAt" | "updatedAt", ExtArgs["result"]["projectTemplate"]>
+export type ProjectTemplateInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  projects?: boolean | Prisma.ProjectTemplate$projectsArgs<ExtArgs>
+  _count?: boolean | Prisma.ProjectTemplateCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type ProjectTemplateIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type ProjectTemplateIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+
+export type $ProjectTemplatePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ProjectTemplate"
+  objects: {
+    user: Prisma.$UserPayload<ExtArgs>
+    projects: Prisma.$ProjectPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    userId: string
+    name: string
+    description: string | null
+    width: number
+    height: number
+    fps: number
+    manifest: string
+    slots: string
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["projectTemplate"]>
+  composites: {}
+}
+
+export type ProjectTemplateGetPayload<S extends boolean | null | undefined | ProjectTemplateDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ProjectTemplatePayload, S>
+
+export type ProjectTemplateCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ProjectTemplateFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ProjectTemplateCountAggregateInputType | true
+  }
+
+export interface ProjectTemplateDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ProjectTemplate'], meta: { name: 'ProjectTemplate' } }
+  /**
+   * Find zero or one ProjectTemplate that matches the filter.
+   * @param {ProjectTemplateFindUniqueArgs} args - Arguments to find a ProjectTemplate
+   * @example
+   * // Get one ProjectTemplate
+   * const projectTemplate = await prisma.projectTemplate.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ProjectTemplateFindUniqueArgs>(args: Prisma.SelectSubset<T, ProjectTemplateFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ProjectTemplateClient<runtime.Types.Result.GetResult<Prisma.$ProjectTemplatePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ProjectTemplate that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ProjectTemplateFindUniqueOrThrowArgs} args - Arguments to find a ProjectTemplate
+   * @example
+   * // Get one ProjectTemplate
+   * const projectTemplate = await prisma.projectTemplate.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ProjectTemplateFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ProjectTemplateFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ProjectTemplateClient<runtime.Types.Result.GetResult<Prisma.$ProjectTemplatePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ProjectTemplate that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectTemplateFindFirstArgs} args - Arguments to find a ProjectTemplate
+   * @example
+   * // Get one ProjectTemplate
+   * const projectTemplate = await prisma.projectTemplate.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ProjectTemplateFindFirstArgs>(args?: Prisma.SelectSubset<T, ProjectTemplateFindFirstArgs<ExtArgs>>): Prisma.Prisma__ProjectTemplateClient<runtime.Types.Result.GetResult<Prisma.$ProjectTemplatePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ProjectTemplate that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectTemplateFindFirstOrThrowArgs} args - Arguments to find a ProjectTemplate
+   * @example
+   * // Get one ProjectTemplate
+   * const projectTemplate = await prisma.projectTemplate.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ProjectTemplateFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ProjectTemplateFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ProjectTemplateClient<runtime.Types.Result.GetResult<Prisma.$ProjectTemplatePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ProjectTemplates that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectTemplateFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ProjectTemplates
+   * const projectTemplates = await prisma.projectTemplate.findMany()
+   * 
+   * // Get first 10 ProjectTemplates
+   * const projectTemplates = await prisma.projectTemplate.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const projectTemplateWithIdOnly = await prisma.projectTemplate.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ProjectTemplateFindManyArgs>(args?: Prisma.SelectSubset<T, ProjectTemplateFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProjectTemplatePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ProjectTemplate.
+   * @param {ProjectTemplateCreateArgs} args - Arguments to create a ProjectTemplate.
+   * @example
+   * // Create one ProjectTemplate
+   * const ProjectTemplate = await prisma.projectTemplate.create({
+   *   data: {
+   *     // ... data to create a ProjectTemplate
+   *   }
+   * })
+   * 
+   */
+  create<T extends ProjectTemplateCreateArgs>(args: Prisma.SelectSubset<T, ProjectTemplateCreateArgs<ExtArgs>>): Prisma.Prisma__ProjectTemplateClient<runtime.Types.Result.GetResult<Prisma.$ProjectTemplatePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ProjectTemplates.
+   * @param {ProjectTemplateCreateManyArgs} args - Arguments to create many ProjectTemplates.
+   * @example
+   * // Create many ProjectTemplates
+   * const projectTemplate = await prisma.projectTemplate.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ProjectTemplateCreateManyArgs>(args?: Prisma.SelectSubset<T, ProjectTemplateCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ProjectTemplates and returns the data saved in the database.
+   * @param {ProjectTemplateCreateManyAndReturnArgs} args - Arguments to create many ProjectTemplates.
+   * @example
+   * // Create many ProjectTemplates
+   * const projectTemplate = await prisma.projectTemplate.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ProjectTemplates and only return the `id`
+   * const projectTemplateWithIdOnly = await prisma.projectTemplate.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ProjectTemplateCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ProjectTemplateCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProjectTemplatePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ProjectTemplate.
+   * @param {ProjectTemplateDeleteArgs} args - Arguments to delete one ProjectTemplate.
+   * @example
+   * // Delete one ProjectTemplate
+   * const ProjectTemplate = await prisma.projectTemplate.delete({
+   *   where: {
+   *     // ... filter to delete one ProjectTemplate
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ProjectTemplateDeleteArgs>(args: Prisma.SelectSubset<T, ProjectTemplateDeleteArgs<ExtArgs>>): Prisma.Prisma__ProjectTemplateClient<runtime.Types.Result.GetResult<Prisma.$ProjectTemplatePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ProjectTemplate.
+   * @param {ProjectTemplateUpdateArgs} args - Arguments to update one ProjectTemplate.
+   * @example
+   * // Update one ProjectTemplate
+   * const projectTemplate = await prisma.projectTemplate.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ProjectTemplateUpdateArgs>(args: Prisma.SelectSubset<T, ProjectTemplateUpdateArgs<ExtArgs>>): Prisma.Prisma__ProjectTemplateClient<runtime.Types.Result.GetResult<Prisma.$ProjectTemplatePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ProjectTemplates.
+   * @param {ProjectTemplateDeleteManyArgs} args - Arguments to filter ProjectTemplates to delete.
+   * @example
+   * // Delete a few ProjectTemplates
+   * const { count } = await prisma.projectTemplate.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ProjectTemplateDeleteManyArgs>(args?: Prisma.SelectSubset<T, ProjectTemplateDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ProjectTemplates.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectTemplateUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ProjectTemplates
+   * const projectTemplate = await prisma.projectTemplate.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ProjectTemplateUpdateManyArgs>(args: Prisma.SelectSubset<T, ProjectTemplateUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ProjectTemplates and returns the data updated in the database.
+   * @param {ProjectTemplateUpdateManyAndReturnArgs} args - Arguments to update many ProjectTemplates.
+   * @example
+   * // Update many ProjectTemplates
+   * const projectTemplate = await prisma.projectTemplate.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ProjectTemplates and only return the `id`
+   * const projectTemplateWithIdOnly = await prisma.projectTemplate.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ProjectTemplateUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ProjectTemplateUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProjectTemplatePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ProjectTemplate.
+   * @param {ProjectTemplateUpsertArgs} args - Arguments to update or create a ProjectTemplate.
+   * @example
+   * // Update or create a ProjectTemplate
+   * const projectTemplate = await prisma.projectTemplate.upsert({
+   *   create: {
+   *     // ... data to create a ProjectTemplate
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ProjectTemplate we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ProjectTemplateUpsertArgs>(args: Prisma.SelectSubset<T, ProjectTemplateUpsertArgs<ExtArgs>>): Prisma.Prisma__ProjectTemplateClient<runtime.Types.Result.GetResult<Prisma.$ProjectTemplatePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ProjectTemplates.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectTemplateCountArgs} args - Arguments to filter ProjectTemplates to count.
+   * @example
+   * // Count the number of ProjectTemplates
+   * const count = await prisma.projectTemplate.count({
+   *   where: {
+   *     // ... the filter for the ProjectTemplates we want to count
+   *   }
+   * })
+  **/
+  count<T extends ProjectTemplateCountArgs>(
+    args?: Prisma.Subset<T, ProjectTemplateCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ProjectTemplateCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ProjectTemplate.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectTemplateAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ProjectTemplateAggregateArgs>(args: Prisma.Subset<T, ProjectTemplateAggregateArgs>): Prisma.PrismaPromise<GetProjectTemplateAggregateType<T>>
+
+  /**
+   * Group by ProjectTemplate.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectTemplateGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ProjectTemplateGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ProjectTemplateGroupByArgs['orderBy'] }
+      : { orderBy?: ProjectTemplateGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ProjectTemplateGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetProjectTemplateGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ProjectTemplate model
+ */
+readonly fields: ProjectTemplateFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ProjectTemplate.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ProjectTemplateClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  projects<T extends Prisma.ProjectTemplate$projectsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ProjectTemplate$projectsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProjectPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ProjectTemplate model
+ */
+export interface ProjectTemplateFieldRefs {
+  readonly id: Prisma.FieldRef<"ProjectTemplate", 'String'>
+  readonly userId: Prisma.FieldRef<"ProjectTemplate", 'String'>
+  readonly name: Prisma.FieldRef<"ProjectTemplate", 'String'>
+  readonly description: Prisma.FieldRef<"ProjectTemplate", 'String'>
+  readonly width: Prisma.FieldRef<"ProjectTemplate", 'Int'>
+  readonly height: Prisma.FieldRef<"ProjectTemplate", 'Int'>
+  readonly fps: Prisma.FieldRef<"ProjectTemplate", 'Int'>
+  readonly manifest: Prisma.FieldRef<"ProjectTemplate", 'String'>
+  readonly slots: Prisma.FieldRef<"ProjectTemplate", 'String'>
+  readonly createdAt: Prisma.FieldRef<"ProjectTemplate", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"ProjectTemplate", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ProjectTemplate findUnique
+ */
+export type ProjectTemplateFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectTemplate
+   */
+  select?: Prisma.ProjectTemplateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectTemplate
+   */
+  omit?: Prisma.ProjectTemplateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectTemplateInclude<ExtArgs> | null
+  /**
+   * Filter, which ProjectTemplate to fetch.
+   */
+  where: Prisma.ProjectTemplateWhereUniqueInput
+}
+
+/**
+ * ProjectTemplate findUniqueOrThrow
+ */
+export type ProjectTemplateFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectTemplate
+   */
+  select?: Prisma.ProjectTemplateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectTemplate
+   */
+  omit?: Prisma.ProjectTemplateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectTemplateInclude<ExtArgs> | null
+  /**
+   * Filter, which ProjectTemplate to fetch.
+   */
+  where: Prisma.ProjectTemplateWhereUniqueInput
+}
+
+/**
+ * ProjectTemplate findFirst
+ */
+export type ProjectTemplateFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectTemplate
+   */
+  select?: Prisma.ProjectTemplateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectTemplate
+   */
+  omit?: Prisma.ProjectTemplateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectTemplateInclude<ExtArgs> | null
+  /**
+   * Filter, which ProjectTemplate to fetch.
+   */
+  where?: Prisma.ProjectTemplateWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ProjectTemplates to fetch.
+   */
+  orderBy?: Prisma.ProjectTemplateOrderByWithRelationInput | Prisma.ProjectTemplateOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ProjectTemplates.
+   */
+  cursor?: Prisma.ProjectTemplateWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ProjectTemplates from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ProjectTemplates.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ProjectTemplates.
+   */
+  distinct?: Prisma.ProjectTemplateScalarFieldEnum | Prisma.ProjectTemplateScalarFieldEnum[]
+}
+
+/**
+ * ProjectTemplate findFirstOrThrow
+ */
+export type ProjectTemplateFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectTemplate
+   */
+  select?: Prisma.ProjectTemplateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectTemplate
+   */
+  omit?: Prisma.ProjectTemplateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectTemplateInclude<ExtArgs> | null
+  /**
+   * Filter, which ProjectTemplate to fetch.
+   */
+  where?: Prisma.ProjectTemplateWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ProjectTemplates to fetch.
+   */
+  orderBy?: Prisma.ProjectTemplateOrderByWithRelationInput | Prisma.ProjectTemplateOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ProjectTemplates.
+   */
+  cursor?: Prisma.ProjectTemplateWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ProjectTemplates from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ProjectTemplates.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ProjectTemplates.
+   */
+  distinct?: Prisma.ProjectTemplateScalarFieldEnum | Prisma.ProjectTemplateScalarFieldEnum[]
+}
+
+/**
+ * ProjectTemplate findMany
+ */
+export type ProjectTemplateFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectTemplate
+   */
+  select?: Prisma.ProjectTemplateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectTemplate
+   */
+  omit?: Prisma.ProjectTemplateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectTemplateInclude<ExtArgs> | null
+  /**
+   * Filter, which ProjectTemplates to fetch.
+   */
+  where?: Prisma.ProjectTemplateWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ProjectTemplates to fetch.
+   */
+  orderBy?: Prisma.ProjectTemplateOrderByWithRelationInput | Prisma.ProjectTemplateOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ProjectTemplates.
+   */
+  cursor?: Prisma.ProjectTemplateWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ProjectTemplates from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ProjectTemplates.
+   */
+  skip?: number
+  distinct?: Prisma.ProjectTemplateScalarFieldEnum | Prisma.ProjectTemplateScalarFieldEnum[]
+}
+
+/**
+ * ProjectTemplate create
+ */
+export type ProjectTemplateCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectTemplate
+   */
+  select?: Prisma.ProjectTemplateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectTemplate
+   */
+  omit?: Prisma.ProjectTemplateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectTemplateInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ProjectTemplate.
+   */
+  data: Prisma.XOR<Prisma.ProjectTemplateCreateInput, Prisma.ProjectTemplateUncheckedCreateInput>
+}
+
+/**
+ * ProjectTemplate createMany
+ */
+export type ProjectTemplateCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ProjectTemplates.
+   */
+  data: Prisma.ProjectTemplateCreateManyInput | Prisma.ProjectTemplateCreateManyInput[]
+}
+
+/**
+ * ProjectTemplate createManyAndReturn
+ */
+export type ProjectTemplateCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectTemplate
+   */
+  select?: Prisma.ProjectTemplateSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectTemplate
+   */
+  omit?: Prisma.ProjectTemplateOmit<ExtArgs> | null
+  /**
+   * The data used to create many ProjectTemplates.
+   */
+  data: Prisma.ProjectTemplateCreateManyInput | Prisma.ProjectTemplateCreateManyInput[]
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectTemplateIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ProjectTemplate update
+ */
+export type ProjectTemplateUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectTemplate
+   */
+  select?: Prisma.ProjectTemplateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectTemplate
+   */
+  omit?: Prisma.ProjectTemplateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectTemplateInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ProjectTemplate.
+   */
+  data: Prisma.XOR<Prisma.ProjectTemplateUpdateInput, Prisma.ProjectTemplateUncheckedUpdateInput>
+  /**
+   * Choose, which ProjectTemplate to update.
+   */
+  where: Prisma.ProjectTemplateWhereUniqueInput
+}
+
+/**
+ * ProjectTemplate updateMany
+ */
+export type ProjectTemplateUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ProjectTemplates.
+   */
+  data: Prisma.XOR<Prisma.ProjectTemplateUpdateManyMutationInput, Prisma.ProjectTemplateUncheckedUpdateManyInput>
+  /**
+   * Filter which ProjectTemplates to update
+   */
+  where?: Prisma.ProjectTemplateWhereInput
+  /**
+   * Limit how many ProjectTemplates to update.
+   */
+  limit?: number
+}
+
+/**
+ * ProjectTemplate updateManyAndReturn
+ */
+export type ProjectTemplateUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectTemplate
+   */
+  select?: Prisma.ProjectTemplateSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectTemplate
+   */
+  omit?: Prisma.ProjectTemplateOmit<ExtArgs> | null
+  /**
+   * The data used to update ProjectTemplates.
+   */
+  data: Prisma.XOR<Prisma.ProjectTemplateUpdateManyMutationInput, Prisma.ProjectTemplateUncheckedUpdateManyInput>
+  /**
+   * Filter which ProjectTemplates to update
+   */
+  where?: Prisma.ProjectTemplateWhereInput
+  /**
+   * Limit how many ProjectTemplates to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectTemplateIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ProjectTemplate upsert
+ */
+export type ProjectTemplateUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectTemplate
+   */
+  select?: Prisma.ProjectTemplateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectTemplate
+   */
+  omit?: Prisma.ProjectTemplateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectTemplateInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ProjectTemplate to update in case it exists.
+   */
+  where: Prisma.ProjectTemplateWhereUniqueInput
+  /**
+   * In case the ProjectTemplate found by the `where` argument doesn't exist, create a new ProjectTemplate with this data.
+   */
+  create: Prisma.XOR<Prisma.ProjectTemplateCreateInput, Prisma.ProjectTemplateUncheckedCreateInput>
+  /**
+   * In case the ProjectTemplate was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ProjectTemplateUpdateInput, Prisma.ProjectTemplateUncheckedUpdateInput>
+}
+
+/**
+ * ProjectTemplate delete
+ */
+export type ProjectTemplateDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectTemplate
+   */
+  select?: Prisma.ProjectTemplateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectTemplate
+   */
+  omit?: Prisma.ProjectTemplateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectTemplateInclude<ExtArgs> | null
+  /**
+   * Filter which ProjectTemplate to delete.
+   */
+  where: Prisma.ProjectTemplateWhereUniqueInput
+}
+
+/**
+ * ProjectTemplate deleteMany
+ */
+export type ProjectTemplateDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ProjectTemplates to delete
+   */
+  where?: Prisma.ProjectTemplateWhereInput
+  /**
+   * Limit how many ProjectTemplates to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ProjectTemplate.projects
+ */
+export type ProjectTemplate$projectsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Project
+   */
+  select?: Prisma.ProjectSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Project
+   */
+  omit?: Prisma.ProjectOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectInclude<ExtArgs> | null
+  where?: Prisma.ProjectWhereInput
+  orderBy?: Prisma.ProjectOrderByWithRelationInput | Prisma.ProjectOrderByWithRelationInput[]
+  cursor?: Prisma.ProjectWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ProjectScalarFieldEnum | Prisma.ProjectScalarFieldEnum[]
+}
+
+/**
+ * ProjectTemplate without action
+ */
+export type ProjectTemplateDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectTemplate
+   */
+  select?: Prisma.ProjectTemplateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectTemplate
+   */
+  omit?: Prisma.ProjectTemplateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectTemplateInclude<ExtArgs> | null
+}
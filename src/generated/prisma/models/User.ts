@@ -52,6 +52,7 @@ export type UserMinAggregateOutputType = {
   preferredImageModel: string | null
   preferredVideoModel: string | null
   preferredVoiceId: string | null
+  confirmAgentSpend: boolean | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -84,6 +85,7 @@ export type UserMaxAggregateOutputType = {
   preferredImageModel: string | null
   preferredVideoModel: string | null
   preferredVoiceId: string | null
+  confirmAgentSpend: boolean | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -116,6 +118,7 @@ export type UserCountAggregateOutputType = {
   preferredImageModel: number
   preferredVideoModel: number
   preferredVoiceId: number
+  confirmAgentSpend: number
   createdAt: number
   updatedAt: number
   _all: number
@@ -150,6 +153,7 @@ export type UserMinAggregateInputType = {
   preferredImageModel?: true
   preferredVideoModel?: true
   preferredVoiceId?: true
+  confirmAgentSpend?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -182,6 +186,7 @@ export type UserMaxAggregateInputType = {
   preferredImageModel?: true
   preferredVideoModel?: true
   preferredVoiceId?: true
+  confirmAgentSpend?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -214,6 +219,7 @@ export type UserCountAggregateInputType = {
   preferredImageModel?: true
   preferredVideoModel?: true
   preferredVoiceId?: true
+  confirmAgentSpend?: true
   createdAt?: true
   updatedAt?: true
   _all?: true
@@ -319,6 +325,7 @@ export type UserGroupByOutputType = {
   preferredImageModel: string | null
   preferredVideoModel: string | null
   preferredVoiceId: string | null
+  confirmAgentSpend: boolean
   createdAt: Date
   updatedAt: Date
   _count: UserCountAggregateOutputType | null
@@ -372,6 +379,7 @@ export type UserWhereInput = {
   preferredImageModel?: Prisma.StringNullableFilter<"User"> | string | null
   preferredVideoModel?: Prisma.StringNullableFilter<"User"> | string | null
   preferredVoiceId?: Prisma.StringNullableFilter<"User"> | string | null
+  confirmAgentSpend?: Prisma.BoolFilter<"User"> | boolean
   createdAt?: Prisma.DateTimeFilter<"User"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"User"> | Date | string
   accounts?: Prisma.AccountListRelationFilter
@@ -382,6 +390,8 @@ export type UserWhereInput = {
   assets?: Prisma.AssetListRelationFilter
   generationJobs?: Prisma.GenerationJobListRelationFilter
   model3DAssets?: Prisma.Model3DAssetListRelationFilter
+  brandKits?: Prisma.BrandKitListRelationFilter
+  templates?: Prisma.ProjectTemplateListRelationFilter
 }
 
 export type UserOrderByWithRelationInput = {
@@ -412,6 +422,7 @@ export type UserOrderByWithRelationInput = {
   preferredImageModel?: Prisma.SortOrderInput | Prisma.SortOrder
   preferredVideoModel?: Prisma.SortOrderInput | Prisma.SortOrder
   preferredVoiceId?: Prisma.SortOrderInput | Prisma.SortOrder
+  confirmAgentSpend?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   accounts?: Prisma.AccountOrderByRelationAggregateInput
@@ -422,6 +433,8 @@ export type UserOrderByWithRelationInput = {
   assets?: Prisma.AssetOrderByRelationAggregateInput
   generationJobs?: Prisma.GenerationJobOrderByRelationAggregateInput
   model3DAssets?: Prisma.Model3DAssetOrderByRelationAggregateInput
+  brandKits?: Prisma.BrandKitOrderByRelationAggregateInput
+  templates?: Prisma.ProjectTemplateOrderByRelationAggregateInput
 }
 
 export type UserWhereUniqueInput = Prisma.AtLeast<{
@@ -455,6 +468,7 @@ export type UserWhereUniqueInput = Prisma.AtLeast<{
   preferredImageModel?: Prisma.StringNullableFilter<"User"> | string | null
   preferredVideoModel?: Prisma.StringNullableFilter<"User"> | string | null
   preferredVoiceId?: Prisma.StringNullableFilter<"User"> | string | null
+  confirmAgentSpend?: Prisma.BoolFilter<"User"> | boolean
   createdAt?: Prisma.DateTimeFilter<"User"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"User"> | Date | string
   accounts?: Prisma.AccountListRelationFilter
@@ -465,6 +479,8 @@ export type UserWhereUniqueInput = Prisma.AtLeast<{
   assets?: Prisma.AssetListRelationFilter
   generationJobs?: Prisma.GenerationJobListRelationFilter
   model3DAssets?: Prisma.Model3DAssetListRelationFilter
+  brandKits?: Prisma.BrandKitListRelationFilter
+  templates?: Prisma.ProjectTemplateListRelationFilter
 }, "id" | "email">
 
 export type UserOrderByWithAggregationInput = {
@@ -495,6 +511,7 @@ export type UserOrderByWithAggregationInput = {
   preferredImageModel?: Prisma.SortOrderInput | Prisma.SortOrder
   preferredVideoModel?: Prisma.SortOrderInput | Prisma.SortOrder
   preferredVoiceId?: Prisma.SortOrderInput | Prisma.SortOrder
+  confirmAgentSpend?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   _count?: Prisma.UserCountOrderByAggregateInput
@@ -533,6 +550,7 @@ export type UserScalarWhereWithAggregatesInput = {
   preferredImageModel?: Prisma.StringNullableWithAggregatesFilter<"User"> | string | null
   preferredVideoModel?: Prisma.StringNullableWithAggregatesFilter<"User"> | string | null
   preferredVoiceId?: Prisma.StringNullableWithAggregatesFilter<"User"> | string | null
+  confirmAgentSpend?: Prisma.BoolWithAggregatesFilter<"User"> | boolean
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"User"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"User"> | Date | string
 }
@@ -565,6 +583,7 @@ export type UserCreateInput = {
   preferredImageModel?: string | null
   preferredVideoModel?: string | null
   preferredVoiceId?: string | null
+  confirmAgentSpend?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
   accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
@@ -575,6 +594,8 @@ export type UserCreateInput = {
   assets?: Prisma.AssetCreateNestedManyWithoutUserInput
   generationJobs?: Prisma.GenerationJobCreateNestedManyWithoutUserInput
   model3DAssets?: Prisma.Model3DAssetCreateNestedManyWithoutUserInput
+  brandKits?: Prisma.BrandKitCreateNestedManyWithoutUserInput
+  templates?: Prisma.ProjectTemplateCreateNestedManyWithoutUserInput
 }
 
 export type UserUncheckedCreateInput = {
@@ -605,6 +626,7 @@ export type UserUncheckedCreateInput = {
   preferredImageModel?: string | null
   preferredVideoModel?: string | null
   preferredVoiceId?: string | null
+  confirmAgentSpend?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
   accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
@@ -615,6 +637,8 @@ export type UserUncheckedCreateInput = {
   assets?: Prisma.AssetUncheckedCreateNestedManyWithoutUserInput
   generationJobs?: Prisma.GenerationJobUncheckedCreateNestedManyWithoutUserInput
   model3DAssets?: Prisma.Model3DAssetUncheckedCreateNestedManyWithoutUserInput
+  brandKits?: Prisma.BrandKitUncheckedCreateNestedManyWithoutUserInput
+  templates?: Prisma.ProjectTemplateUncheckedCreateNestedManyWithoutUserInput
 }
 
 export type UserUpdateInput = {
@@ -645,6 +669,7 @@ export type UserUpdateInput = {
   preferredImageModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   preferredVideoModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   preferredVoiceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  confirmAgentSpend?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
@@ -655,6 +680,8 @@ export type UserUpdateInput = {
   assets?: Prisma.AssetUpdateManyWithoutUserNestedInput
   generationJobs?: Prisma.GenerationJobUpdateManyWithoutUserNestedInput
   model3DAssets?: Prisma.Model3DAssetUpdateManyWithoutUserNestedInput
+  brandKits?: Prisma.BrandKitUpdateManyWithoutUserNestedInput
+  templates?: Prisma.ProjectTemplateUpdateManyWithoutUserNestedInput
 }
 
 export type UserUncheckedUpdateInput = {
@@ -685,6 +712,7 @@ export type UserUncheckedUpdateInput = {
   preferredImageModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   preferredVideoModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   preferredVoiceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  confirmAgentSpend?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
@@ -695,6 +723,8 @@ export type UserUncheckedUpdateInput = {
   assets?: Prisma.AssetUncheckedUpdateManyWithoutUserNestedInput
   generationJobs?: Prisma.GenerationJobUncheckedUpdateManyWithoutUserNestedInput
   model3DAssets?: Prisma.Model3DAssetUncheckedUpdateManyWithoutUserNestedInput
+  brandKits?: Prisma.BrandKitUncheckedUpdateManyWithoutUserNestedInput
+  templates?: Prisma.ProjectTemplateUncheckedUpdateManyWithoutUserNestedInput
 }
 
 export type UserCreateManyInput = {
@@ -725,6 +755,7 @@ export type UserCreateManyInput = {
   preferredImageModel?: string | null
   preferredVideoModel?: string | null
   preferredVoiceId?: string | null
+  confirmAgentSpend?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -757,6 +788,7 @@ export type UserUpdateManyMutationInput = {
   preferredImageModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   preferredVideoModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   preferredVoiceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  confirmAgentSpend?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -789,6 +821,7 @@ export type UserUncheckedUpdateManyInput = {
   preferredImageModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   preferredVideoModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   preferredVoiceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  confirmAgentSpend?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -821,6 +854,7 @@ export type UserCountOrderByAggregateInput = {
   preferredImageModel?: Prisma.SortOrder
   preferredVideoModel?: Prisma.SortOrder
   preferredVoiceId?: Prisma.SortOrder
+  confirmAgentSpend?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -853,6 +887,7 @@ export type UserMaxOrderByAggregateInput = {
   preferredImageModel?: Prisma.SortOrder
   preferredVideoModel?: Prisma.SortOrder
   preferredVoiceId?: Prisma.SortOrder
+  confirmAgentSpend?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -885,6 +920,7 @@ export type UserMinOrderByAggregateInput = {
   preferredImageModel?: Prisma.SortOrder
   preferredVideoModel?: Prisma.SortOrder
   preferredVoiceId?: Prisma.SortOrder
+  confirmAgentSpend?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -970,6 +1006,34 @@ export type UserUpdateOneRequiredWithoutProjectsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutProjectsInput, Prisma.UserUpdateWithoutProjectsInput>, Prisma.UserUncheckedUpdateWithoutProjectsInput>
 }
 
+export type UserCreateNestedOneWithoutBrandKitsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutBrandKitsInput, Prisma.UserUncheckedCreateWithoutBrandKitsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutBrandKitsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutBrandKitsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutBrandKitsInput, Prisma.UserUncheckedCreateWithoutBrandKitsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutBrandKitsInput
+  upsert?: Prisma.UserUpsertWithoutBrandKitsInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutBrandKitsInput, Prisma.UserUpdateWithoutBrandKitsInput>, Prisma.UserUncheckedUpdateWithoutBrandKitsInput>
+}
+
+export type UserCreateNestedOneWithoutTemplatesInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutTemplatesInput, Prisma.UserUncheckedCreateWithoutTemplatesInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutTemplatesInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutTemplatesNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutTemplatesInput, Prisma.UserUncheckedCreateWithoutTemplatesInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutTemplatesInput
+  upsert?: Prisma.UserUpsertWithoutTemplatesInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutTemplatesInput, Prisma.UserUpdateWithoutTemplatesInput>, Prisma.UserUncheckedUpdateWithoutTemplatesInput>
+}
+
 export type UserCreateNestedOneWithoutAssetsInput = {
   create?: Prisma.XOR<Prisma.UserCreateWithoutAssetsInput, Prisma.UserUncheckedCreateWithoutAssetsInput>
   connectOrCreate?: Prisma.UserCreateOrConnectWithoutAssetsInput
@@ -1054,6 +1118,7 @@ export type UserCreateWithoutSessionsInput = {
   preferredImageModel?: string | null
   preferredVideoModel?: string | null
   preferredVoiceId?: string | null
+  confirmAgentSpend?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
   accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
@@ -1063,6 +1128,8 @@ export type UserCreateWithoutSessionsInput = {
   assets?: Prisma.AssetCreateNestedManyWithoutUserInput
   generationJobs?: Prisma.GenerationJobCreateNestedManyWithoutUserInput
   model3DAssets?: Prisma.Model3DAssetCreateNestedManyWithoutUserInput
+  brandKits?: Prisma.BrandKitCreateNestedManyWithoutUserInput
+  templates?: Prisma.ProjectTemplateCreateNestedManyWithoutUserInput
 }
 
 export type UserUncheckedCreateWithoutSessionsInput = {
@@ -1093,6 +1160,7 @@ export type UserUncheckedCreateWithoutSessionsInput = {
   preferredImageModel?: string | null
   preferredVideoModel?: string | null
   preferredVoiceId?: string | null
+  confirmAgentSpend?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
   accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
@@ -1102,6 +1170,8 @@ export type UserUncheckedCreateWithoutSessionsInput = {
   assets?: Prisma.AssetUncheckedCreateNestedManyWithoutUserInput
   generationJobs?: Prisma.GenerationJobUncheckedCreateNestedManyWithoutUserInput
   model3DAssets?: Prisma.Model3DAssetUncheckedCreateNestedManyWithoutUserInput
+  brandKits?: Prisma.BrandKitUncheckedCreateNestedManyWithoutUserInput
+  templates?: Prisma.ProjectTemplateUncheckedCreateNestedManyWithoutUserInput
 }
 
 export type UserCreateOrConnectWithoutSessionsInput = {
@@ -1148,6 +1218,7 @@ export type UserUpdateWithoutSessionsInput = {
   preferredImageModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   preferredVideoModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   preferredVoiceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  confirmAgentSpend?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
@@ -1157,6 +1228,8 @@ export type UserUpdateWithoutSessionsInput = {
   assets?: Prisma.AssetUpdateManyWithoutUserNestedInput
   generationJobs?: Prisma.GenerationJobUpdateManyWithoutUserNestedInput
   model3DAssets?: Prisma.Model3DAssetUpdateManyWithoutUserNestedInput
+  brandKits?: Prisma.BrandKitUpdateManyWithoutUserNestedInput
+  templates?: Prisma.ProjectTemplateUpdateManyWithoutUserNestedInput
 }
 
 export type UserUncheckedUpdateWithoutSessionsInput = {
@@ -1187,6 +1260,7 @@ export type UserUncheckedUpdateWithoutSessionsInput = {
   preferredImageModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   preferredVideoModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   preferredVoiceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  confirmAgentSpend?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
@@ -1196,6 +1270,8 @@ export type UserUncheckedUpdateWithoutSessionsInput = {
   assets?: Prisma.AssetUncheckedUpdateManyWithoutUserNestedInput
   generationJobs?: Prisma.GenerationJobUncheckedUpdateManyWithoutUserNestedInput
   model3DAssets?: Prisma.Model3DAssetUncheckedUpdateManyWithoutUserNestedInput
+  brandKits?: Prisma.BrandKitUncheckedUpdateManyWithoutUserNestedInput
+  templates?: Prisma.ProjectTemplateUncheckedUpdateManyWithoutUserNestedInput
 }
 
 export type UserCreateWithoutAccountsInput = {
@@ -1226,6 +1302,7 @@ export type UserCreateWithoutAccountsInput = {
   preferredImageModel?: string | null
   preferredVideoModel?: string | null
   preferredVoiceId?: string | null
+  confirmAgentSpend?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
   sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
@@ -1235,6 +1312,8 @@ export type UserCreateWithoutAccountsInput = {
   assets?: Prisma.AssetCreateNestedManyWithoutUserInput
   generationJobs?: Prisma.GenerationJobCreateNestedManyWithoutUserInput
   model3DAssets?: Prisma.Model3DAssetCreateNestedManyWithoutUserInput
+  brandKits?: Prisma.BrandKitCreateNestedManyWithoutUserInput
+  templates?: Prisma.ProjectTemplateCreateNestedManyWithoutUserInput
 }
 
 export type UserUncheckedCreateWithoutAccountsInput = {
@@ -1265,6 +1344,7 @@ export type UserUncheckedCreateWithoutAccountsInput = {
   preferredImageModel?: string | null
   preferredVideoModel?: string | null
   preferredVoiceId?: string | null
+  confirmAgentSpend?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
   sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
@@ -1274,6 +1354,8 @@ export type UserUncheckedCreateWithoutAccountsInput = {
   assets?: Prisma.AssetUncheckedCreateNestedManyWithoutUserInput
   generationJobs?: Prisma.GenerationJobUncheckedCreateNestedManyWithoutUserInput
   model3DAssets?: Prisma.Model3DAssetUncheckedCreateNestedManyWithoutUserInput
+  brandKits?: Prisma.BrandKitUncheckedCreateNestedManyWithoutUserInput
+  templates?: Prisma.ProjectTemplateUncheckedCreateNestedManyWithoutUserInput
 }
 
 export type UserCreateOrConnectWithoutAccountsInput = {
@@ -1320,6 +1402,7 @@ export type UserUpdateWithoutAccountsInput = {
   preferredImageModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   preferredVideoModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   preferredVoiceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  confirmAgentSpend?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
@@ -1329,6 +1412,8 @@ export type UserUpdateWithoutAccountsInput = {
   assets?: Prisma.AssetUpdateManyWithoutUserNestedInput
   generationJobs?: Prisma.GenerationJobUpdateManyWithoutUserNestedInput
   model3DAssets?: Prisma.Model3DAssetUpdateManyWithoutUserNestedInput
+  brandKits?: Prisma.BrandKitUpdateManyWithoutUserNestedInput
+  templates?: Prisma.ProjectTemplateUpdateManyWithoutUserNestedInput
 }
 
 export type UserUncheckedUpdateWithoutAccountsInput = {
@@ -1359,6 +1444,7 @@ export type UserUncheckedUpdateWithoutAccountsInput = {
   preferredImageModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   preferredVideoModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   preferredVoiceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  confirmAgentSpend?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
@@ -1368,6 +1454,8 @@ export type UserUncheckedUpdateWithoutAccountsInput = {
   assets?: Prisma.AssetUncheckedUpdateManyWithoutUserNestedInput
   generationJobs?: Prisma.GenerationJobUncheckedUpdateManyWithoutUserNestedInput
   model3DAssets?: Prisma.Model3DAssetUncheckedUpdateManyWithoutUserNestedInput
+  brandKits?: Prisma.BrandKitUncheckedUpdateManyWithoutUserNestedInput
+  templates?: Prisma.ProjectTemplateUncheckedUpdateManyWithoutUserNestedInput
 }
 
 export type UserCreateWithoutProjectFoldersInput = {
@@ -1398,6 +1486,7 @@ export type UserCreateWithoutProjectFoldersInput = {
   preferredImageModel?: string | null
   preferredVideoModel?: string | null
   preferredVoiceId?: string | null
+  confirmAgentSpend?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
   accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
@@ -1407,6 +1496,8 @@ export type UserCreateWithoutProjectFoldersInput = {
   assets?: Prisma.AssetCreateNestedManyWithoutUserInput
   generationJobs?: Prisma.GenerationJobCreateNestedManyWithoutUserInput
   model3DAssets?: Prisma.Model3DAssetCreateNestedManyWithoutUserInput
+  brandKits?: Prisma.BrandKitCreateNestedManyWithoutUserInput
+  templates?: Prisma.ProjectTemplateCreateNestedManyWithoutUserInput
 }
 
 export type UserUncheckedCreateWithoutProjectFoldersInput = {
@@ -1437,6 +1528,7 @@ export type UserUncheckedCreateWithoutProjectFoldersInput = {
   preferredImageModel?: string | null
   preferredVideoModel?: string | null
   preferredVoiceId?: string | null
+  confirmAgentSpend?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
   accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
@@ -1446,6 +1538,8 @@ export type UserUncheckedCreateWithoutProjectFoldersInput = {
   assets?: Prisma.AssetUncheckedCreateNestedManyWithoutUserInput
   generationJobs?: Prisma.GenerationJobUncheckedCreateNestedManyWithoutUserInput
   model3DAssets?: Prisma.Model3DAssetUncheckedCreateNestedManyWithoutUserInput
+  brandKits?: Prisma.BrandKitUncheckedCreateNestedManyWithoutUserInput
+  templates?: Prisma.ProjectTemplateUncheckedCreateNestedManyWithoutUserInput
 }
 
 export type UserCreateOrConnectWithoutProjectFoldersInput = {
@@ -1492,6 +1586,7 @@ export type UserUpdateWithoutProjectFoldersInput = {
   preferredImageModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   preferredVideoModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   preferredVoiceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  confirmAgentSpend?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
@@ -1501,6 +1596,8 @@ export type UserUpdateWithoutProjectFoldersInput = {
   assets?: Prisma.AssetUpdateManyWithoutUserNestedInput
   generationJobs?: Prisma.GenerationJobUpdateManyWithoutUserNestedInput
   model3DAssets?: Prisma.Model3DAssetUpdateManyWithoutUserNestedInput
+  brandKits?: Prisma.BrandKitUpdateManyWithoutUserNestedInput
+  templates?: Prisma.ProjectTemplateUpdateManyWithoutUserNestedInput
 }
 
 export type UserUncheckedUpdateWithoutProjectFoldersInput = {
@@ -1531,6 +1628,7 @@ export type UserUncheckedUpdateWithoutProjectFoldersInput = {
   preferredImageModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   preferredVideoModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   preferredVoiceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  confirmAgentSpend?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
@@ -1540,6 +1638,8 @@ export type UserUncheckedUpdateWithoutProjectFoldersInput = {
   assets?: Prisma.AssetUncheckedUpdateManyWithoutUserNestedInput
   generationJobs?: Prisma.GenerationJobUncheckedUpdateManyWithoutUserNestedInput
   model3DAssets?: Prisma.Model3DAssetUncheckedUpdateManyWithoutUserNestedInput
+  brandKits?: Prisma.BrandKitUncheckedUpdateManyWithoutUserNestedInput
+  templates?: Prisma.ProjectTemplateUncheckedUpdateManyWithoutUserNestedInput
 }
 
 export type UserCreateWithoutProjectsInput = {
@@ -1570,6 +1670,7 @@ export type UserCreateWithoutProjectsInput = {
   preferredImageModel?: string | null
   preferredVideoModel?: string | null
   preferredVoiceId?: string | null
+  confirmAgentSpend?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
   accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
@@ -1579,6 +1680,8 @@ export type UserCreateWithoutProjectsInput = {
   assets?: Prisma.AssetCreateNestedManyWithoutUserInput
   generationJobs?: Prisma.GenerationJobCreateNestedManyWithoutUserInput
   model3DAssets?: Prisma.Model3DAssetCreateNestedManyWithoutUserInput
+  brandKits?: Prisma.BrandKitCreateNestedManyWithoutUserInput
+  templates?: Prisma.ProjectTemplateCreateNestedManyWithoutUserInput
 }
 
 export type UserUncheckedCreateWithoutProjectsInput = {
@@ -1609,6 +1712,7 @@ export type UserUncheckedCreateWithoutProjectsInput = {
   preferredImageModel?: string | null
   preferredVideoModel?: string | null
   preferredVoiceId?: string | null
+  confirmAgentSpend?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
   accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
@@ -1618,6 +1722,8 @@ export type UserUncheckedCreateWithoutProjectsInput = {
   assets?: Prisma.AssetUncheckedCreateNestedManyWithoutUserInput
   generationJobs?: Prisma.GenerationJobUncheckedCreateNestedManyWithoutUserInput
   model3DAssets?: Prisma.Model3DAssetUncheckedCreateNestedManyWithoutUserInput
+  brandKits?: Prisma.BrandKitUncheckedCreateNestedManyWithoutUserInput
+  templates?: Prisma.ProjectTemplateUncheckedCreateNestedManyWithoutUserInput
 }
 
 export type UserCreateOrConnectWithoutProjectsInput = {
@@ -1664,6 +1770,7 @@ export type UserUpdateWithoutProjectsInput = {
   preferredImageModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   preferredVideoModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   preferredVoiceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  confirmAgentSpend?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
@@ -1673,6 +1780,8 @@ export type UserUpdateWithoutProjectsInput = {
   assets?: Prisma.AssetUpdateManyWithoutUserNestedInput
   generationJobs?: Prisma.GenerationJobUpdateManyWithoutUserNestedInput
   model3DAssets?: Prisma.Model3DAssetUpdateManyWithoutUserNestedInput
+  brandKits?: Prisma.BrandKitUpdateManyWithoutUserNestedInput
+  templates?: Prisma.ProjectTemplateUpdateManyWithoutUserNestedInput
 }
 
 export type UserUncheckedUpdateWithoutProjectsInput = {
@@ -1703,15 +1812,386 @@ export type UserUncheckedUpdateWithoutProjectsInput = {
   preferredImageModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   preferredVideoModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   preferredVoiceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  confirmAgentSpend?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  subscriptionEvents?: Prisma.SubscriptionEventUncheckedUpdateManyWithoutUserNestedInput
+  projectFolders?: Prisma.ProjectFolderUncheckedUpdateManyWithoutUserNestedInput
+  assets?: Prisma.AssetUncheckedUpdateManyWithoutUserNestedInput
+  generationJobs?: Prisma.GenerationJobUncheckedUpdateManyWithoutUserNestedInput
+  model3DAssets?: Prisma.Model3DAssetUncheckedUpdateManyWithoutUserNestedInput
+  brandKits?: Prisma.BrandKitUncheckedUpdateManyWithoutUserNestedInput
+  templates?: Prisma.ProjectTemplateUncheckedUpdateManyWithoutUserNestedInput
+}
+
+export type UserCreateWithoutBrandKitsInput = {
+  id?: string
+  email: string
+  name?: string | null
+  image?: string | null
+  emailVerified?: boolean
+  role?: string
+  stripeCustomerId?: string | null
+  subscriptionStatus?: string | null
+  subscriptionTier?: string | null
+  subscriptionPeriodEnd?: Date | string | null
+  cancelAtPeriodEnd?: boolean
+  onboardingComplete?: boolean
+  hasPlatformAccess?: boolean
+  platformPurchaseDate?: Date | string | null
+  platformStripePaymentId?: string | null
+  falApiKey?: string | null
+  falApiKeyLastFour?: string | null
+  falApiKeyAddedAt?: Date | string | null
+  bunnyStorageZone?: string | null
+  bunnyApiKey?: string | null
+  bunnyApiKeyLastFour?: string | null
+  bunnyCdnUrl?: string | null
+  bunnyStorageAddedAt?: Date | string | null
+  preferredLlmModel?: string | null
+  preferredImageModel?: string | null
+  preferredVideoModel?: string | null
+  preferredVoiceId?: string | null
+  confirmAgentSpend?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  subscriptionEvents?: Prisma.SubscriptionEventCreateNestedManyWithoutUserInput
+  projects?: Prisma.ProjectCreateNestedManyWithoutUserInput
+  projectFolders?: Prisma.ProjectFolderCreateNestedManyWithoutUserInput
+  assets?: Prisma.AssetCreateNestedManyWithoutUserInput
+  generationJobs?: Prisma.GenerationJobCreateNestedManyWithoutUserInput
+  model3DAssets?: Prisma.Model3DAssetCreateNestedManyWithoutUserInput
+  templates?: Prisma.ProjectTemplateCreateNestedManyWithoutUserInput
+}
+
+export type UserUncheckedCreateWithoutBrandKitsInput = {
+  id?: string
+  email: string
+  name?: string | null
+  image?: string | null
+  emailVerified?: boolean
+  role?: string
+  stripeCustomerId?: string | null
+  subscriptionStatus?: string | null
+  subscriptionTier?: string | null
+  subscriptionPeriodEnd?: Date | string | null
+  cancelAtPeriodEnd?: boolean
+  onboardingComplete?: boolean
+  hasPlatformAccess?: boolean
+  platformPurchaseDate?: Date | string | null
+  platformStripePaymentId?: string | null
+  falApiKey?: string | null
+  falApiKeyLastFour?: string | null
+  falApiKeyAddedAt?: Date | string | null
+  bunnyStorageZone?: string | null
+  bunnyApiKey?: string | null
+  bunnyApiKeyLastFour?: string | null
+  bunnyCdnUrl?: string | null
+  bunnyStorageAddedAt?: Date | string | null
+  preferredLlmModel?: string | null
+  preferredImageModel?: string | null
+  preferredVideoModel?: string | null
+  preferredVoiceId?: string | null
+  confirmAgentSpend?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  subscriptionEvents?: Prisma.SubscriptionEventUncheckedCreateNestedManyWithoutUserInput
+  projects?: Prisma.ProjectUncheckedCreateNestedManyWithoutUserInput
+  projectFolders?: Prisma.ProjectFolderUncheckedCreateNestedManyWithoutUserInput
+  assets?: Prisma.AssetUncheckedCreateNestedManyWithoutUserInput
+  generationJobs?: Prisma.GenerationJobUncheckedCreateNestedManyWithoutUserInput
+  model3DAssets?: Prisma.Model3DAssetUncheckedCreateNestedManyWithoutUserInput
+  templates?: Prisma.ProjectTemplateUncheckedCreateNestedManyWithoutUserInput
+}
+
+export type UserCreateOrConnectWithoutBrandKitsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutBrandKitsInput, Prisma.UserUncheckedCreateWithoutBrandKitsInput>
+}
+
+export type UserUpsertWithoutBrandKitsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutBrandKitsInput, Prisma.UserUncheckedUpdateWithoutBrandKitsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutBrandKitsInput, Prisma.UserUncheckedCreateWithoutBrandKitsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutBrandKitsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutBrandKitsInput, Prisma.UserUncheckedUpdateWithoutBrandKitsInput>
+}
+
+export type UserUpdateWithoutBrandKitsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  role?: Prisma.StringFieldUpdateOperationsInput | string
+  stripeCustomerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  subscriptionStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  subscriptionTier?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  subscriptionPeriodEnd?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cancelAtPeriodEnd?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  onboardingComplete?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  hasPlatformAccess?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  platformPurchaseDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  platformStripePaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  falApiKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  falApiKeyLastFour?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  falApiKeyAddedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  bunnyStorageZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bunnyApiKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bunnyApiKeyLastFour?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bunnyCdnUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bunnyStorageAddedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  preferredLlmModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredImageModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredVideoModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredVoiceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  confirmAgentSpend?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  subscriptionEvents?: Prisma.SubscriptionEventUpdateManyWithoutUserNestedInput
+  projects?: Prisma.ProjectUpdateManyWithoutUserNestedInput
+  projectFolders?: Prisma.ProjectFolderUpdateManyWithoutUserNestedInput
+  assets?: Prisma.AssetUpdateManyWithoutUserNestedInput
+  generationJobs?: Prisma.GenerationJobUpdateManyWithoutUserNestedInput
+  model3DAssets?: Prisma.Model3DAssetUpdateManyWithoutUserNestedInput
+  templates?: Prisma.ProjectTemplateUpdateManyWithoutUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutBrandKitsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  role?: Prisma.StringFieldUpdateOperationsInput | string
+  stripeCustomerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  subscriptionStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  subscriptionTier?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  subscriptionPeriodEnd?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cancelAtPeriodEnd?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  onboardingComplete?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  hasPlatformAccess?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  platformPurchaseDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  platformStripePaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  falApiKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  falApiKeyLastFour?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  falApiKeyAddedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  bunnyStorageZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bunnyApiKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bunnyApiKeyLastFour?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bunnyCdnUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bunnyStorageAddedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  preferredLlmModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredImageModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredVideoModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredVoiceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  confirmAgentSpend?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  subscriptionEvents?: Prisma.SubscriptionEventUncheckedUpdateManyWithoutUserNestedInput
+  projects?: Prisma.ProjectUncheckedUpdateManyWithoutUserNestedInput
+  projectFolders?: Prisma.ProjectFolderUncheckedUpdateManyWithoutUserNestedInput
+  assets?: Prisma.AssetUncheckedUpdateManyWithoutUserNestedInput
+  generationJobs?: Prisma.GenerationJobUncheckedUpdateManyWithoutUserNestedInput
+  model3DAssets?: Prisma.Model3DAssetUncheckedUpdateManyWithoutUserNestedInput
+  templates?: Prisma.ProjectTemplateUncheckedUpdateManyWithoutUserNestedInput
+}
+
+export type UserCreateWithoutTemplatesInput = {
+  id?: string
+  email: string
+  name?: string | null
+  image?: string | null
+  emailVerified?: boolean
+  role?: string
+  stripeCustomerId?: string | null
+  subscriptionStatus?: string | null
+  subscriptionTier?: string | null
+  subscriptionPeriodEnd?: Date | string | null
+  cancelAtPeriodEnd?: boolean
+  onboardingComplete?: boolean
+  hasPlatformAccess?: boolean
+  platformPurchaseDate?: Date | string | null
+  platformStripePaymentId?: string | null
+  falApiKey?: string | null
+  falApiKeyLastFour?: string | null
+  falApiKeyAddedAt?: Date | string | null
+  bunnyStorageZone?: string | null
+  bunnyApiKey?: string | null
+  bunnyApiKeyLastFour?: string | null
+  bunnyCdnUrl?: string | null
+  bunnyStorageAddedAt?: Date | string | null
+  preferredLlmModel?: string | null
+  preferredImageModel?: string | null
+  preferredVideoModel?: string | null
+  preferredVoiceId?: string | null
+  confirmAgentSpend?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  subscriptionEvents?: Prisma.SubscriptionEventCreateNestedManyWithoutUserInput
+  projects?: Prisma.ProjectCreateNestedManyWithoutUserInput
+  projectFolders?: Prisma.ProjectFolderCreateNestedManyWithoutUserInput
+  assets?: Prisma.AssetCreateNestedManyWithoutUserInput
+  generationJobs?: Prisma.GenerationJobCreateNestedManyWithoutUserInput
+  model3DAssets?: Prisma.Model3DAssetCreateNestedManyWithoutUserInput
+  brandKits?: Prisma.BrandKitCreateNestedManyWithoutUserInput
+}
+
+export type UserUncheckedCreateWithoutTemplatesInput = {
+  id?: string
+  email: string
+  name?: string | null
+  image?: string | null
+  emailVerified?: boolean
+  role?: string
+  stripeCustomerId?: string | null
+  subscriptionStatus?: string | null
+  subscriptionTier?: string | null
+  subscriptionPeriodEnd?: Date | string | null
+  cancelAtPeriodEnd?: boolean
+  onboardingComplete?: boolean
+  hasPlatformAccess?: boolean
+  platformPurchaseDate?: Date | string | null
+  platformStripePaymentId?: string | null
+  falApiKey?: string | null
+  falApiKeyLastFour?: string | null
+  falApiKeyAddedAt?: Date | string | null
+  bunnyStorageZone?: string | null
+  bunnyApiKey?: string | null
+  bunnyApiKeyLastFour?: string | null
+  bunnyCdnUrl?: string | null
+  bunnyStorageAddedAt?: Date | string | null
+  preferredLlmModel?: string | null
+  preferredImageModel?: string | null
+  preferredVideoModel?: string | null
+  preferredVoiceId?: string | null
+  confirmAgentSpend?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  subscriptionEvents?: Prisma.SubscriptionEventUncheckedCreateNestedManyWithoutUserInput
+  projects?: Prisma.ProjectUncheckedCreateNestedManyWithoutUserInput
+  projectFolders?: Prisma.ProjectFolderUncheckedCreateNestedManyWithoutUserInput
+  assets?: Prisma.AssetUncheckedCreateNestedManyWithoutUserInput
+  generationJobs?: Prisma.GenerationJobUncheckedCreateNestedManyWithoutUserInput
+  model3DAssets?: Prisma.Model3DAssetUncheckedCreateNestedManyWithoutUserInput
+  brandKits?: Prisma.BrandKitUncheckedCreateNestedManyWithoutUserInput
+}
+
+export type UserCreateOrConnectWithoutTemplatesInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutTemplatesInput, Prisma.UserUncheckedCreateWithoutTemplatesInput>
+}
+
+export type UserUpsertWithoutTemplatesInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutTemplatesInput, Prisma.UserUncheckedUpdateWithoutTemplatesInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutTemplatesInput, Prisma.UserUncheckedCreateWithoutTemplatesInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutTemplatesInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutTemplatesInput, Prisma.UserUncheckedUpdateWithoutTemplatesInput>
+}
+
+export type UserUpdateWithoutTemplatesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  role?: Prisma.StringFieldUpdateOperationsInput | string
+  stripeCustomerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  subscriptionStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  subscriptionTier?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  subscriptionPeriodEnd?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cancelAtPeriodEnd?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  onboardingComplete?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  hasPlatformAccess?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  platformPurchaseDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  platformStripePaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  falApiKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  falApiKeyLastFour?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  falApiKeyAddedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  bunnyStorageZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bunnyApiKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bunnyApiKeyLastFour?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bunnyCdnUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bunnyStorageAddedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  preferredLlmModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredImageModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredVideoModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredVoiceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  confirmAgentSpend?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  subscriptionEvents?: Prisma.SubscriptionEventUpdateManyWithoutUserNestedInput
+  projects?: Prisma.ProjectUpdateManyWithoutUserNestedInput
+  projectFolders?: Prisma.ProjectFolderUpdateManyWithoutUserNestedInput
+  assets?: Prisma.AssetUpdateManyWithoutUserNestedInput
+  generationJobs?: Prisma.GenerationJobUpdateManyWithoutUserNestedInput
+  model3DAssets?: Prisma.Model3DAssetUpdateManyWithoutUserNestedInput
+  brandKits?: Prisma.BrandKitUpdateManyWithoutUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutTemplatesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  role?: Prisma.StringFieldUpdateOperationsInput | string
+  stripeCustomerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  subscriptionStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  subscriptionTier?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  subscriptionPeriodEnd?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cancelAtPeriodEnd?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  onboardingComplete?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  hasPlatformAccess?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  platformPurchaseDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  platformStripePaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  falApiKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  falApiKeyLastFour?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  falApiKeyAddedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  bunnyStorageZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bunnyApiKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bunnyApiKeyLastFour?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bunnyCdnUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bunnyStorageAddedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  preferredLlmModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredImageModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredVideoModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredVoiceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  confirmAgentSpend?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
   sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
   subscriptionEvents?: Prisma.SubscriptionEventUncheckedUpdateManyWithoutUserNestedInput
+  projects?: Prisma.ProjectUncheckedUpdateManyWithoutUserNestedInput
   projectFolders?: Prisma.ProjectFolderUncheckedUpdateManyWithoutUserNestedInput
   assets?: Prisma.AssetUncheckedUpdateManyWithoutUserNestedInput
   generationJobs?: Prisma.GenerationJobUncheckedUpdateManyWithoutUserNestedInput
   model3DAssets?: Prisma.Model3DAssetUncheckedUpdateManyWithoutUserNestedInput
+  brandKits?: Prisma.BrandKitUncheckedUpdateManyWithoutUserNestedInput
 }
 
 export type UserCreateWithoutAssetsInput = {
@@ -1742,6 +2222,7 @@ export type UserCreateWithoutAssetsInput = {
   preferredImageModel?: string | null
   preferredVideoModel?: string | null
   preferredVoiceId?: string | null
+  confirmAgentSpend?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
   accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
@@ -1751,6 +2232,8 @@ export type UserCreateWithoutAssetsInput = {
   projectFolders?: Prisma.ProjectFolderCreateNestedManyWithoutUserInput
   generationJobs?: Prisma.GenerationJobCreateNestedManyWithoutUserInput
   model3DAssets?: Prisma.Model3DAssetCreateNestedManyWithoutUserInput
+  brandKits?: Prisma.BrandKitCreateNestedManyWithoutUserInput
+  templates?: Prisma.ProjectTemplateCreateNestedManyWithoutUserInput
 }
 
 export type UserUncheckedCreateWithoutAssetsInput = {
@@ -1781,6 +2264,7 @@ export type UserUncheckedCreateWithoutAssetsInput = {
   preferredImageModel?: string | null
   preferredVideoModel?: string | null
   preferredVoiceId?: string | null
+  confirmAgentSpend?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
   accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
@@ -1790,6 +2274,8 @@ export type UserUncheckedCreateWithoutAssetsInput = {
   projectFolders?: Prisma.ProjectFolderUncheckedCreateNestedManyWithoutUserInput
   generationJobs?: Prisma.GenerationJobUncheckedCreateNestedManyWithoutUserInput
   model3DAssets?: Prisma.Model3DAssetUncheckedCreateNestedManyWithoutUserInput
+  brandKits?: Prisma.BrandKitUncheckedCreateNestedManyWithoutUserInput
+  templates?: Prisma.ProjectTemplateUncheckedCreateNestedManyWithoutUserInput
 }
 
 export type UserCreateOrConnectWithoutAssetsInput = {
@@ -1836,6 +2322,7 @@ export type UserUpdateWithoutAssetsInput = {
   preferredImageModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   preferredVideoModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   preferredVoiceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  confirmAgentSpend?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
@@ -1845,6 +2332,8 @@ export type UserUpdateWithoutAssetsInput = {
   projectFolders?: Prisma.ProjectFolderUpdateManyWithoutUserNestedInput
   generationJobs?: Prisma.GenerationJobUpdateManyWithoutUserNestedInput
   model3DAssets?: Prisma.Model3DAssetUpdateManyWithoutUserNestedInput
+  brandKits?: Prisma.BrandKitUpdateManyWithoutUserNestedInput
+  templates?: Prisma.ProjectTemplateUpdateManyWithoutUserNestedInput
 }
 
 export type UserUncheckedUpdateWithoutAssetsInput = {
@@ -1875,6 +2364,7 @@ export type UserUncheckedUpdateWithoutAssetsInput = {
   preferredImageModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   preferredVideoModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   preferredVoiceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  confirmAgentSpend?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
@@ -1884,6 +2374,8 @@ export type UserUncheckedUpdateWithoutAssetsInput = {
   projectFolders?: Prisma.ProjectFolderUncheckedUpdateManyWithoutUserNestedInput
   generationJobs?: Prisma.GenerationJobUncheckedUpdateManyWithoutUserNestedInput
   model3DAssets?: Prisma.Model3DAssetUncheckedUpdateManyWithoutUserNestedInput
+  brandKits?: Prisma.BrandKitUncheckedUpdateManyWithoutUserNestedInput
+  templates?: Prisma.ProjectTemplateUncheckedUpdateManyWithoutUserNestedInput
 }
 
 export type UserCreateWithoutGenerationJobsInput = {
@@ -1914,6 +2406,7 @@ export type UserCreateWithoutGenerationJobsInput = {
   preferredImageModel?: string | null
   preferredVideoModel?: string | null
   preferredVoiceId?: string | null
+  confirmAgentSpend?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
   accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
@@ -1923,6 +2416,8 @@ export type UserCreateWithoutGenerationJobsInput = {
   projectFolders?: Prisma.ProjectFolderCreateNestedManyWithoutUserInput
   assets?: Prisma.AssetCreateNestedManyWithoutUserInput
   model3DAssets?: Prisma.Model3DAssetCreateNestedManyWithoutUserInput
+  brandKits?: Prisma.BrandKitCreateNestedManyWithoutUserInput
+  templates?: Prisma.ProjectTemplateCreateNestedManyWithoutUserInput
 }
 
 export type UserUncheckedCreateWithoutGenerationJobsInput = {
@@ -1953,6 +2448,7 @@ export type UserUncheckedCreateWithoutGenerationJobsInput = {
   preferredImageModel?: string | null
   preferredVideoModel?: string | null
   preferredVoiceId?: string | null
+  confirmAgentSpend?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
   accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
@@ -1962,6 +2458,8 @@ export type UserUncheckedCreateWithoutGenerationJobsInput = {
   projectFolders?: Prisma.ProjectFolderUncheckedCreateNestedManyWithoutUserInput
   assets?: Prisma.AssetUncheckedCreateNestedManyWithoutUserInput
   model3DAssets?: Prisma.Model3DAssetUncheckedCreateNestedManyWithoutUserInput
+  brandKits?: Prisma.BrandKitUncheckedCreateNestedManyWithoutUserInput
+  templates?: Prisma.ProjectTemplateUncheckedCreateNestedManyWithoutUserInput
 }
 
 export type UserCreateOrConnectWithoutGenerationJobsInput = {
@@ -2008,6 +2506,7 @@ export type UserUpdateWithoutGenerationJobsInput = {
   preferredImageModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   preferredVideoModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   preferredVoiceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  confirmAgentSpend?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
@@ -2017,6 +2516,8 @@ export type UserUpdateWithoutGenerationJobsInput = {
   projectFolders?: Prisma.ProjectFolderUpdateManyWithoutUserNestedInput
   assets?: Prisma.AssetUpdateManyWithoutUserNestedInput
   model3DAssets?: Prisma.Model3DAssetUpdateManyWithoutUserNestedInput
+  brandKits?: Prisma.BrandKitUpdateManyWithoutUserNestedInput
+  templates?: Prisma.ProjectTemplateUpdateManyWithoutUserNestedInput
 }
 
 export type UserUncheckedUpdateWithoutGenerationJobsInput = {
@@ -2047,6 +2548,7 @@ export type UserUncheckedUpdateWithoutGenerationJobsInput = {
   preferredImageModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   preferredVideoModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   preferredVoiceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  confirmAgentSpend?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
@@ -2056,6 +2558,8 @@ export type UserUncheckedUpdateWithoutGenerationJobsInput = {
   projectFolders?: Prisma.ProjectFolderUncheckedUpdateManyWithoutUserNestedInput
   assets?: Prisma.AssetUncheckedUpdateManyWithoutUserNestedInput
   model3DAssets?: Prisma.Model3DAssetUncheckedUpdateManyWithoutUserNestedInput
+  brandKits?: Prisma.BrandKitUncheckedUpdateManyWithoutUserNestedInput
+  templates?: Prisma.ProjectTemplateUncheckedUpdateManyWithoutUserNestedInput
 }
 
 export type UserCreateWithoutSubscriptionEventsInput = {
@@ -2086,6 +2590,7 @@ export type UserCreateWithoutSubscriptionEventsInput = {
   preferredImageModel?: string | null
   preferredVideoModel?: string | null
   preferredVoiceId?: string | null
+  confirmAgentSpend?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
   accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
@@ -2095,6 +2600,8 @@ export type UserCreateWithoutSubscriptionEventsInput = {
   assets?: Prisma.AssetCreateNestedManyWithoutUserInput
   generationJobs?: Prisma.GenerationJobCreateNestedManyWithoutUserInput
   model3DAssets?: Prisma.Model3DAssetCreateNestedManyWithoutUserInput
+  brandKits?: Prisma.BrandKitCreateNestedManyWithoutUserInput
+  templates?: Prisma.ProjectTemplateCreateNestedManyWithoutUserInput
 }
 
 export type UserUncheckedCreateWithoutSubscriptionEventsInput = {
@@ -2125,6 +2632,7 @@ export type UserUncheckedCreateWithoutSubscriptionEventsInput = {
   preferredImageModel?: string | null
   preferredVideoModel?: string | null
   preferredVoiceId?: string | null
+  confirmAgentSpend?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
   accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
@@ -2134,6 +2642,8 @@ export type UserUncheckedCreateWithoutSubscriptionEventsInput = {
   assets?: Prisma.AssetUncheckedCreateNestedManyWithoutUserInput
   generationJobs?: Prisma.GenerationJobUncheckedCreateNestedManyWithoutUserInput
   model3DAssets?: Prisma.Model3DAssetUncheckedCreateNestedManyWithoutUserInput
+  brandKits?: Prisma.BrandKitUncheckedCreateNestedManyWithoutUserInput
+  templates?: Prisma.ProjectTemplateUncheckedCreateNestedManyWithoutUserInput
 }
 
 export type UserCreateOrConnectWithoutSubscriptionEventsInput = {
@@ -2180,6 +2690,7 @@ export type UserUpdateWithoutSubscriptionEventsInput = {
   preferredImageModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   preferredVideoModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   preferredVoiceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  confirmAgentSpend?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
@@ -2189,6 +2700,8 @@ export type UserUpdateWithoutSubscriptionEventsInput = {
   assets?: Prisma.AssetUpdateManyWithoutUserNestedInput
   generationJobs?: Prisma.GenerationJobUpdateManyWithoutUserNestedInput
   model3DAssets?: Prisma.Model3DAssetUpdateManyWithoutUserNestedInput
+  brandKits?: Prisma.BrandKitUpdateManyWithoutUserNestedInput
+  templates?: Prisma.ProjectTemplateUpdateManyWithoutUserNestedInput
 }
 
 export type UserUncheckedUpdateWithoutSubscriptionEventsInput = {
@@ -2219,6 +2732,7 @@ export type UserUncheckedUpdateWithoutSubscriptionEventsInput = {
   preferredImageModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   preferredVideoModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   preferredVoiceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  confirmAgentSpend?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
@@ -2228,6 +2742,8 @@ export type UserUncheckedUpdateWithoutSubscriptionEventsInput = {
   assets?: Prisma.AssetUncheckedUpdateManyWithoutUserNestedInput
   generationJobs?: Prisma.GenerationJobUncheckedUpdateManyWithoutUserNestedInput
   model3DAssets?: Prisma.Model3DAssetUncheckedUpdateManyWithoutUserNestedInput
+  brandKits?: Prisma.BrandKitUncheckedUpdateManyWithoutUserNestedInput
+  templates?: Prisma.ProjectTemplateUncheckedUpdateManyWithoutUserNestedInput
 }
 
 export type UserCreateWithoutModel3DAssetsInput = {
@@ -2258,6 +2774,7 @@ export type UserCreateWithoutModel3DAssetsInput = {
   preferredImageModel?: string | null
   preferredVideoModel?: string | null
   preferredVoiceId?: string | null
+  confirmAgentSpend?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
   accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
@@ -2267,6 +2784,8 @@ export type UserCreateWithoutModel3DAssetsInput = {
   projectFolders?: Prisma.ProjectFolderCreateNestedManyWithoutUserInput
   assets?: Prisma.AssetCreateNestedManyWithoutUserInput
   generationJobs?: Prisma.GenerationJobCreateNestedManyWithoutUserInput
+  brandKits?: Prisma.BrandKitCreateNestedManyWithoutUserInput
+  templates?: Prisma.ProjectTemplateCreateNestedManyWithoutUserInput
 }
 
 export type UserUncheckedCreateWithoutModel3DAssetsInput = {
@@ -2297,6 +2816,7 @@ export type UserUncheckedCreateWithoutModel3DAssetsInput = {
   preferredImageModel?: string | null
   preferredVideoModel?: string | null
   preferredVoiceId?: string | null
+  confirmAgentSpend?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
   accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
@@ -2306,6 +2826,8 @@ export type UserUncheckedCreateWithoutModel3DAssetsInput = {
   projectFolders?: Prisma.ProjectFolderUncheckedCreateNestedManyWithoutUserInput
   assets?: Prisma.AssetUncheckedCreateNestedManyWithoutUserInput
   generationJobs?: Prisma.GenerationJobUncheckedCreateNestedManyWithoutUserInput
+  brandKits?: Prisma.BrandKitUncheckedCreateNestedManyWithoutUserInput
+  templates?: Prisma.ProjectTemplateUncheckedCreateNestedManyWithoutUserInput
 }
 
 export type UserCreateOrConnectWithoutModel3DAssetsInput = {
@@ -2352,6 +2874,7 @@ export type UserUpdateWithoutModel3DAssetsInput = {
   preferredImageModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   preferredVideoModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   preferredVoiceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  confirmAgentSpend?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
@@ -2361,6 +2884,8 @@ export type UserUpdateWithoutModel3DAssetsInput = {
   projectFolders?: Prisma.ProjectFolderUpdateManyWithoutUserNestedInput
   assets?: Prisma.AssetUpdateManyWithoutUserNestedInput
   generationJobs?: Prisma.GenerationJobUpdateManyWithoutUserNestedInput
+  brandKits?: Prisma.BrandKitUpdateManyWithoutUserNestedInput
+  templates?: Prisma.ProjectTemplateUpdateManyWithoutUserNestedInput
 }
 
 export type UserUncheckedUpdateWithoutModel3DAssetsInput = {
@@ -2391,6 +2916,7 @@ export type UserUncheckedUpdateWithoutModel3DAssetsInput = {
   preferredImageModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   preferredVideoModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   preferredVoiceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  confirmAgentSpend?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
@@ -2400,6 +2926,8 @@ export type UserUncheckedUpdateWithoutModel3DAssetsInput = {
   projectFolders?: Prisma.ProjectFolderUncheckedUpdateManyWithoutUserNestedInput
   assets?: Prisma.AssetUncheckedUpdateManyWithoutUserNestedInput
   generationJobs?: Prisma.GenerationJobUncheckedUpdateManyWithoutUserNestedInput
+  brandKits?: Prisma.BrandKitUncheckedUpdateManyWithoutUserNestedInput
+  templates?: Prisma.ProjectTemplateUncheckedUpdateManyWithoutUserNestedInput
 }
 
 
@@ -2416,6 +2944,8 @@ export type UserCountOutputType = {
   assets: number
   generationJobs: number
   model3DAssets: number
+  brandKits: number
+  templates: number
 }
 
 export type UserCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -2427,6 +2957,8 @@ export type UserCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.I
   assets?: boolean | UserCountOutputTypeCountAssetsArgs
   generationJobs?: boolean | UserCountOutputTypeCountGenerationJobsArgs
   model3DAssets?: boolean | UserCountOutputTypeCountModel3DAssetsArgs
+  brandKits?: boolean | UserCountOutputTypeCountBrandKitsArgs
+  templates?: boolean | UserCountOutputTypeCountTemplatesArgs
 }
 
 /**
@@ -2495,6 +3027,20 @@ export type UserCountOutputTypeCountModel3DAssetsArgs<ExtArgs extends runtime.Ty
   where?: Prisma.Model3DAssetWhereInput
 }
 
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountBrandKitsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.BrandKitWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountTemplatesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ProjectTemplateWhereInput
+}
+
 
 export type UserSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -2524,6 +3070,7 @@ export type UserSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = r
   preferredImageModel?: boolean
   preferredVideoModel?: boolean
   preferredVoiceId?: boolean
+  confirmAgentSpend?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   accounts?: boolean | Prisma.User$accountsArgs<ExtArgs>
@@ -2534,6 +3081,8 @@ export type UserSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = r
   assets?: boolean | Prisma.User$assetsArgs<ExtArgs>
   generationJobs?: boolean | Prisma.User$generationJobsArgs<ExtArgs>
   model3DAssets?: boolean | Prisma.User$model3DAssetsArgs<ExtArgs>
+  brandKits?: boolean | Prisma.User$brandKitsArgs<ExtArgs>
+  templates?: boolean | Prisma.User$templatesArgs<ExtArgs>
   _count?: boolean | Prisma.UserCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["user"]>
 
@@ -2565,6 +3114,7 @@ export type UserSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensio
   preferredImageModel?: boolean
   preferredVideoModel?: boolean
   preferredVoiceId?: boolean
+  confirmAgentSpend?: boolean
   createdAt?: boolean
   updatedAt?: boolean
 }, ExtArgs["result"]["user"]>
@@ -2597,6 +3147,7 @@ export type UserSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensio
   preferredImageModel?: boolean
   preferredVideoModel?: boolean
   preferredVoiceId?: boolean
+  confirmAgentSpend?: boolean
   createdAt?: boolean
   updatedAt?: boolean
 }, ExtArgs["result"]["user"]>
@@ -2629,11 +3180,12 @@ export type UserSelectScalar = {
   preferredImageModel?: boolean
   preferredVideoModel?: boolean
   preferredVoiceId?: boolean
+  confirmAgentSpend?: boolean
   createdAt?: boolean
   updatedAt?: boolean
 }
 
-export type UserOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "email" | "name" | "image" | "emailVerified" | "role" | "stripeCustomerId" | "subscriptionStatus" | "subscriptionTier" | "subscriptionPeriodEnd" | "cancelAtPeriodEnd" | "onboardingComplete" | "hasPlatformAccess" | "platformPurchaseDate" | "platformStripePaymentId" | "falApiKey" | "falApiKeyLastFour" | "falApiKeyAddedAt" | "bunnyStorageZone" | "bunnyApiKey" | "bunnyApiKeyLastFour" | "bunnyCdnUrl" | "bunnyStorageAddedAt" | "preferredLlmModel" | "preferredImageModel" | "preferredVideoModel" | "preferredVoiceId" | "createdAt" | "updatedAt", ExtArgs["result"]["user"]>
+export type UserOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "email" | "name" | "image" | "emailVerified" | "role" | "stripeCustomerId" | "subscriptionStatus" | "subscriptionTier" | "subscriptionPeriodEnd" | "cancelAtPeriodEnd" | "onboardingComplete" | "hasPlatformAccess" | "platformPurchaseDate" | "platformStripePaymentId" | "falApiKey" | "falApiKeyLastFour" | "falApiKeyAddedAt" | "bunnyStorageZone" | "bunnyApiKey" | "bunnyApiKeyLastFour" | "bunnyCdnUrl" | "bunnyStorageAddedAt" | "preferredLlmModel" | "preferredImageModel" | "preferredVideoModel" | "preferredVoiceId" | "confirmAgentSpend" | "createdAt" | "updatedAt", ExtArgs["result"]["user"]>
 export type UserInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   accounts?: boolean | Prisma.User$accountsArgs<ExtArgs>
   sessions?: boolean | Prisma.User$sessionsArgs<ExtArgs>
@@ -2643,6 +3195,8 @@ export type UserInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs =
   assets?: boolean | Prisma.User$assetsArgs<ExtArgs>
   generationJobs?: boolean | Prisma.User$generationJobsArgs<ExtArgs>
   model3DAssets?: boolean | Prisma.User$model3DAssetsArgs<ExtArgs>
+  brandKits?: boolean | Prisma.User$brandKitsArgs<ExtArgs>
+  templates?: boolean | Prisma.User$templatesArgs<ExtArgs>
   _count?: boolean | Prisma.UserCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type UserIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
@@ -2659,6 +3213,8 @@ export type $UserPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs =
     assets: Prisma.$AssetPayload<ExtArgs>[]
     generationJobs: Prisma.$GenerationJobPayload<ExtArgs>[]
     model3DAssets: Prisma.$Model3DAssetPayload<ExtArgs>[]
+    brandKits: Prisma.$BrandKitPayload<ExtArgs>[]
+    templates: Prisma.$ProjectTemplatePayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -2688,6 +3244,7 @@ export type $UserPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs =
     preferredImageModel: string | null
     preferredVideoModel: string | null
     preferredVoiceId: string | null
+    confirmAgentSpend: boolean
     createdAt: Date
     updatedAt: Date
   }, ExtArgs["result"]["user"]>
@@ -3092,6 +3649,8 @@ export interface Prisma__UserClient<T, Null = never, ExtArgs extends runtime.Typ
   assets<T extends Prisma.User$assetsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$assetsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AssetPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   generationJobs<T extends Prisma.User$generationJobsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$generationJobsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$GenerationJobPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   model3DAssets<T extends Prisma.User$model3DAssetsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$model3DAssetsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$Model3DAssetPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  brandKits<T extends Prisma.User$brandKitsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$brandKitsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BrandKitPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  templates<T extends Prisma.User$templatesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$templatesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProjectTemplatePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -3148,6 +3707,7 @@ export interface UserFieldRefs {
   readonly preferredImageModel: Prisma.FieldRef<"User", 'String'>
   readonly preferredVideoModel: Prisma.FieldRef<"User", 'String'>
   readonly preferredVoiceId: Prisma.FieldRef<"User", 'String'>
+  readonly confirmAgentSpend: Prisma.FieldRef<"User", 'Boolean'>
   readonly createdAt: Prisma.FieldRef<"User", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"User", 'DateTime'>
 }
@@ -3727,6 +4287,54 @@ export type User$model3DAssetsArgs<ExtArgs extends runtime.Types.Extensions.Inte
   distinct?: Prisma.Model3DAssetScalarFieldEnum | Prisma.Model3DAssetScalarFieldEnum[]
 }
 
+/**
+ * User.brandKits
+ */
+export type User$brandKitsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BrandKit
+   */
+  select?: Prisma.BrandKitSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BrandKit
+   */
+  omit?: Prisma.BrandKitOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BrandKitInclude<ExtArgs> | null
+  where?: Prisma.BrandKitWhereInput
+  orderBy?: Prisma.BrandKitOrderByWithRelationInput | Prisma.BrandKitOrderByWithRelationInput[]
+  cursor?: Prisma.BrandKitWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.BrandKitScalarFieldEnum | Prisma.BrandKitScalarFieldEnum[]
+}
+
+/**
+ * User.templates
+ */
+export type User$templatesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectTemplate
+   */
+  select?: Prisma.ProjectTemplateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectTemplate
+   */
+  omit?: Prisma.ProjectTemplateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectTemplateInclude<ExtArgs> | null
+  where?: Prisma.ProjectTemplateWhereInput
+  orderBy?: Prisma.ProjectTemplateOrderByWithRelationInput | Prisma.ProjectTemplateOrderByWithRelationInput[]
+  cursor?: Prisma.ProjectTemplateWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ProjectTemplateScalarFieldEnum | Prisma.ProjectTemplateScalarFieldEnum[]
+}
+
 /**
  * User without action
  */
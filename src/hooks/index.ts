@@ -4,3 +4,5 @@ export {
   useIsTablet,
   useIsDesktop,
 } from './useMediaQuery'
+export { useManifestAutosave } from './useManifestAutosave'
+export type { ManifestSaveStatus } from './useManifestAutosave'
@@ -0,0 +1,382 @@
+/**
+ * useManifestAutosave hook
+ *
+ * Holds the studio's working copy of a project manifest and persists
+ * edits to the server with a debounce. Saves use optimistic concurrency
+ * against the project's manifestVersion: if someone else (another tab, the
+ * AI Director) saved in the meantime, the save is rejected and the hook
+ * enters the "conflict" state until the user picks a version.
+ *
+ * Undo/redo walk the server-side revision history, so they cover
+ * AI Director edits too and survive a page reload. While a server-side
+ * edit (undo, auto captions, smart crop...) is in flight, local edits are
+ * refused, as its result replaces the working copy.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { ProjectManifest } from '@/remotion/types'
+import type { RefObject } from 'react'
+
+interface HistoryState {
+  canUndo: boolean
+  canRedo: boolean
+}
+
+interface HistoryActionResult extends HistoryState {
+  status: 'saved' | 'conflict'
+  manifest: ProjectManifest
+  manifestVersion: number
+}
+
+export type ManifestSaveStatus =
+  | 'saved' // Server has the latest local edit
+  | 'pending' // Local edit waiting for the debounce
+  | 'saving' // Save request in flight
+  | 'conflict' // Server changed underneath a local edit
+  | 'error' // Last save failed
+
+interface ManifestConflict {
+  manifest: ProjectManifest
+  manifestVersion: number
+}
+
+interface UseManifestAutosaveOptions {
+  projectId: string
+  initialManifest: ProjectManifest
+  initialManifestVersion: number
+  /** Debounce before saving a local edit (ms) */
+  debounceMs?: number
+}
+
+const DEFAULT_DEBOUNCE_MS = 1000
+
+export function useManifestAutosave({
+  projectId,
+  initialManifest,
+  initialManifestVersion,
+  debounceMs = DEFAULT_DEBOUNCE_MS,
+}: UseManifestAutosaveOptions) {
+  const [manifest, setManifest] = useState<ProjectManifest>(initialManifest)
+  const [manifestVersion, setManifestVersion] = useState(0)
+  const [saveStatus, setSaveStatus] = useState<ManifestSaveStatus>('saved')
+  const [conflict, setConflict] = useState<ManifestConflict | null>(null)
+  const [saveError, setSaveError] = useState<string | null>(null)
+  const [isApplyingServerEdit, setIsApplyingServerEdit] = useState(false)
+  const [history, setHistory] = useState<HistoryState>({
+    canUndo: false,
+    canRedo: false,
+  })
+
+  // The server manifestVersion our working copy is based on
+  const serverVersion = useRef(initialManifestVersion)
+  // Local edit not yet acknowledged by the server
+  const pendingManifest = useRef<ProjectManifest | null>(null)
+  const saveTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const isSaving = useRef(false)
+  const hasConflict = useRef(false)
+  // Set while a server-side edit is in flight
+  const isLocked = useRef(false)
+
+  const save = useCallback(async () => {
+    const toSave = pendingManifest.current
+    if (!toSave || isSaving.current || hasConflict.current) return
+
+    isSaving.current = true
+    setSaveStatus('saving')
+
+    try {
+      const { updateManifestFn } = await import('../server/project.server')
+      const result = await updateManifestFn({
+        data: {
+          projectId,
+          manifest: JSON.stringify(toSave),
+          expectedVersion: serverVersion.current,
+        },
+      })
+
+      if (result.status === 'conflict') {
+        hasConflict.current = true
+        setConflict({
+          manifest: result.manifest,
+          manifestVersion: result.manifestVersion,
+        })
+        setSaveStatus('conflict')
+        return
+      }
+
+      serverVersion.current = result.manifestVersion
+      setHistory({ canUndo: result.canUndo, canRedo: result.canRedo })
+      setSaveError(null)
+
+      if (pendingManifest.current === toSave) {
+        pendingManifest.current = null
+        setSaveStatus('saved')
+      } else {
+        // More edits arrived while this save was in flight
+        setSaveStatus('pending')
+        saveTimer.current = setTimeout(() => void save(), debounceMs)
+      }
+    } catch (error) {
+      console.error('Failed to save manifest:', error)
+      // e.g. "Invalid manifest: tracks.video[0].url: URL is required"
+      setSaveError(error instanceof Error ? error.message : 'Save failed')
+      setSaveStatus('error')
+    } finally {
+      isSaving.current = false
+    }
+  }, [projectId, debounceMs])
+
+  const scheduleSave = useCallback(() => {
+    if (saveTimer.current) clearTimeout(saveTimer.current)
+    saveTimer.current = setTimeout(() => {
+      saveTimer.current = null
+      void save()
+    }, debounceMs)
+  }, [save, debounceMs])
+
+  /**
+   * Apply a local edit (from the timeline, asset panel, etc.)
+   */
+  const updateManifest = useCallback(
+    (newManifest: ProjectManifest) => {
+      // The server edit's result will replace the manifest
+      if (isLocked.current) return
+
+      setManifest(newManifest)
+      setManifestVersion((v) => v + 1)
+      pendingManifest.current = newManifest
+
+      // Keep editing locally while a conflict is unresolved
+      if (hasConflict.current) return
+
+      setSaveStatus('pending')
+      scheduleSave()
+    },
+    [scheduleSave],
+  )
+
+  /**
+   * Pull the server manifest (e.g. after the AI Director edited it).
+   * Local unsaved edits are never overwritten - they become a conflict.
+   */
+  const refreshManifest = useCallback(async () => {
+    // Our own in-flight save would look like a remote change
+    if (isSaving.current) return
+
+    try {
+      const { getManifestFn } = await import('../server/project.server')
+      const result = await getManifestFn({ data: { projectId } })
+
+      const version = result.manifestVersion
+      if (version < serverVersion.current) return
+
+      setHistory({ canUndo: result.canUndo, canRedo: result.canRedo })
+      if (version === serverVersion.current) return
+
+      if (pendingManifest.current) {
+        hasConflict.current = true
+        setConflict({ manifest: result.manifest, manifestVersion: version })
+        setSaveStatus('conflict')
+        return
+      }
+
+      serverVersion.current = version
+      setManifest(result.manifest)
+      setManifestVersion((v) => v + 1)
+    } catch (error) {
+      console.error('Failed to refresh manifest:', error)
+    }
+  }, [projectId])
+
+  /**
+   * Resolve a conflict by keeping the local edit ("mine") or
+   * discarding it in favour of the server version ("theirs")
+   */
+  const resolveConflict = useCallback(
+    (keep: 'mine' | 'theirs') => {
+      if (!conflict) return
+
+      hasConflict.current = false
+      serverVersion.current = conflict.manifestVersion
+      setConflict(null)
+
+      if (keep === 'theirs') {
+        if (saveTimer.current) clearTimeout(saveTimer.current)
+        pendingManifest.current = null
+        setManifest(conflict.manifest)
+        setManifestVersion((v) => v + 1)
+        setSaveStatus('saved')
+        return
+      }
+
+      void save()
+    },
+    [conflict, save],
+  )
+
+  /**
+   * Replace the manifest through a server-side history action
+   * (undo, redo, restore, or an edit made on the server such as
+   * auto captions). Pending local edits are saved first so they
+   * become part of the history too, and local editing is locked
+   * until the action finishes, as transcription or subject tracking
+   * can take minutes.
+   */
+  const runHistoryAction = useCallback(
+    async (
+      label: string,
+      request: (expectedVersion: number) => Promise<HistoryActionResult>,
+    ): Promise<boolean> => {
+      if (hasConflict.current || isSaving.current || isLocked.current) {
+        return false
+      }
+
+      isLocked.current = true
+      setIsApplyingServerEdit(true)
+
+      try {
+        if (pendingManifest.current) {
+          cancelTimer(saveTimer)
+          await save()
+          // Save failed or conflicted - leave the edit where it is
+          if (hasPendingEdit(pendingManifest)) return false
+        }
+
+        isSaving.current = true
+        setSaveStatus('saving')
+
+        try {
+          // A conflict means someone else saved - we have no local edits
+          // to lose, so either way the returned manifest is the latest
+          const result = await request(serverVersion.current)
+
+          serverVersion.current = result.manifestVersion
+          setManifest(result.manifest)
+          setManifestVersion((v) => v + 1)
+          setHistory({ canUndo: result.canUndo, canRedo: result.canRedo })
+          return result.status === 'saved'
+        } catch (error) {
+          console.error(`Failed to ${label}:`, error)
+          return false
+        } finally {
+          isSaving.current = false
+          setSaveStatus('saved')
+        }
+      } finally {
+        isLocked.current = false
+        setIsApplyingServerEdit(false)
+      }
+    },
+    [save],
+  )
+
+  const undo = useCallback(() => {
+    void runHistoryAction('undo', async (expectedVersion) => {
+      const { undoManifestFn } = await import('../server/revision.server')
+      return undoManifestFn({ data: { projectId, expectedVersion } })
+    })
+  }, [projectId, runHistoryAction])
+
+  const redo = useCallback(() => {
+    void runHistoryAction('redo', async (expectedVersion) => {
+      const { redoManifestFn } = await import('../server/revision.server')
+      return redoManifestFn({ data: { projectId, expectedVersion } })
+    })
+  }, [projectId, runHistoryAction])
+
+  /**
+   * Roll the project back to an earlier revision
+   */
+  const restoreRevision = useCallback(
+    (revisionId: string) =>
+      runHistoryAction('restore revision', async (expectedVersion) => {
+        const { restoreRevisionFn } = await import('../server/revision.server')
+        return restoreRevisionFn({
+          data: { projectId, revisionId, expectedVersion },
+        })
+      }),
+    [projectId, runHistoryAction],
+  )
+
+  /**
+   * Save a pending local edit now instead of after the debounce, e.g.
+   * before exporting. Resolves to whether the server has the latest edit.
+   */
+  const flushSave = useCallback(async (): Promise<boolean> => {
+    if (hasConflict.current || isSaving.current || isLocked.current) {
+      return false
+    }
+
+    if (pendingManifest.current) {
+      cancelTimer(saveTimer)
+      await save()
+    }
+    return !hasPendingEdit(pendingManifest)
+  }, [save])
+
+  /**
+   * Retry after a failed save
+   */
+  const retrySave = useCallback(() => {
+    void save()
+  }, [save])
+
+  // Load the undo/redo state on mount
+  useEffect(() => {
+    void refreshManifest()
+  }, [refreshManifest])
+
+  // Warn before leaving with unsaved edits
+  useEffect(() => {
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      if (pendingManifest.current) {
+        e.preventDefault()
+      }
+    }
+
+    window.addEventListener('beforeunload', handleBeforeUnload)
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload)
+  }, [])
+
+  // Flush a pending save when the workspace unmounts
+  useEffect(() => {
+    return () => {
+      if (saveTimer.current) {
+        clearTimeout(saveTimer.current)
+        void save()
+      }
+    }
+  }, [save])
+
+  return {
+    manifest,
+    manifestVersion,
+    saveStatus,
+    saveError,
+    conflict,
+    updateManifest,
+    refreshManifest,
+    resolveConflict,
+    retrySave,
+    flushSave,
+    undo,
+    redo,
+    restoreRevision,
+    applyServerEdit: runHistoryAction,
+    /** Local edits are refused until the server edit lands */
+    isApplyingServerEdit,
+    // Unsaved local edits can always be undone (they are saved first)
+    canUndo: history.canUndo || saveStatus === 'pending',
+    canRedo: history.canRedo && saveStatus !== 'pending',
+  }
+}
+
+// Plain functions, so lint doesn't narrow refs that change across awaits
+function cancelTimer(timer: RefObject<ReturnType<typeof setTimeout> | null>) {
+  if (timer.current) clearTimeout(timer.current)
+  timer.current = null
+}
+
+function hasPendingEdit(pending: RefObject<ProjectManifest | null>): boolean {
+  return pending.current !== null
+}
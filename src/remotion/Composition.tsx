@@ -2,14 +2,24 @@
  * Main Video Composition
  *
  * This component reads the ProjectManifest and renders all tracks:
- * - Video clips with transitions
- * - Audio clips with volume control
- * - Component overlays (text, titles, images)
+ * - Video and still-image clips (fit modes, focus/smart crop, pan/zoom
+ *   presets)
+ * - A/B transitions (adjacent clips overlap while the
+ *   outgoing clip, held on its last frame, animates out over the incoming
+ *   one)
+ * - Audio clips with fades, music ducking and per-track mute/solo
+ * - Component overlays (text, titles, images, progress bar, countdown,
+ *   call-to-action card, stickers and shapes)
+ * - Keyframed transforms and effect values on clips and overlays
+ * - The project's brand kit: overlay defaults, uploaded fonts (registered
+ *   before frames render) and logo watermark
  */
 
 import {
   AbsoluteFill,
   Audio,
+  Freeze,
+  Img,
   Sequence,
   Video,
   interpolate,
@@ -19,14 +29,40 @@ import { KaraokeText } from './components/overlays/KaraokeText'
 import { BigTitle } from './components/overlays/BigTitle'
 import { ImageOverlay } from './components/overlays/ImageOverlay'
 import { LowerThird } from './components/overlays/LowerThird'
+import { ProgressBar } from './components/overlays/ProgressBar'
+import { Countdown } from './components/overlays/Countdown'
+import { CallToAction } from './components/overlays/CallToAction'
+import { Sticker } from './components/overlays/Sticker'
+import { Shape } from './components/overlays/Shape'
+import { createEmptyManifest } from './manifest'
+import { applyCaptionStyle } from './captions'
+import { DEFAULT_WATERMARK_OPACITY, applyBrandDefaults } from './brand'
+import { useFonts } from './fonts'
+import {
+  getAudioRole,
+  getDuckingGain,
+  getFadeGain,
+  isTrackAudible,
+} from './audio-mix'
+import { getKeyframedStyle, interpolateKeyframes } from './keyframes'
+import { getFocusPoint } from './reframe'
+import { findNextVideoClip, getClipTransition } from './timeline-edits'
+import type { ClipTransition } from './timeline-edits'
 import type {
   BigTitleProps,
+  BrandStyle,
+  CallToActionProps,
+  CaptionStyle,
   ComponentOverlayProps,
   CompositionProps,
+  CountdownProps,
   ImageOverlayProps,
   KaraokeTextProps,
   LowerThirdProps,
-  TransitionType,
+  MotionPreset,
+  ProgressBarProps,
+  ShapeProps,
+  StickerProps,
   VideoClipProps,
 } from './types'
 
@@ -34,17 +70,18 @@ import type {
 // Main Composition
 // =============================================================================
 
-export const VideoComposition: React.FC<CompositionProps> = ({ manifest }) => {
+export const VideoComposition: React.FC<CompositionProps> = ({
+  manifest,
+  brand,
+}) => {
   // Use empty manifest if not provided
-  const safeManifest = manifest || {
-    version: 1,
-    tracks: { video: [], audio: [], components: [] },
-    globalSettings: { backgroundColor: '#000000' },
-  }
+  const safeManifest = manifest || createEmptyManifest()
+  useFonts(brand?.fonts)
 
-  // Sort clips by layer for proper z-ordering
+  // Sort clips by layer for proper z-ordering. Within a layer, earlier
+  // clips render on top so an outgoing clip covers the incoming one.
   const sortedVideoClips = [...safeManifest.tracks.video].sort(
-    (a, b) => a.layer - b.layer,
+    (a, b) => a.layer - b.layer || b.startFrame - a.startFrame,
   )
   const sortedComponents = [...safeManifest.tracks.components].sort(
     (a, b) => a.layer - b.layer,
@@ -55,15 +92,33 @@ export const VideoComposition: React.FC<CompositionProps> = ({ manifest }) => {
       style={{ backgroundColor: safeManifest.globalSettings.backgroundColor }}
     >
       {/* Video Track */}
-      {sortedVideoClips.map((clip) => (
-        <Sequence
-          key={clip.id}
-          from={clip.startFrame}
-          durationInFrames={clip.durationFrames}
-        >
-          <VideoClipComponent clip={clip} />
-        </Sequence>
-      ))}
+      {sortedVideoClips.map((clip) => {
+        const next = findNextVideoClip(safeManifest, clip)
+        const previous = safeManifest.tracks.video.find(
+          (c) => findNextVideoClip(safeManifest, c)?.id === clip.id,
+        )
+        const outgoing = getClipTransition(clip, next)
+        const incoming = previous ? getClipTransition(previous, clip) : null
+
+        // The outgoing clip stays on screen over the next one for the overlap
+        const overlap = outgoing && next ? outgoing.durationFrames : 0
+
+        return (
+          <Sequence
+            key={clip.id}
+            from={clip.startFrame}
+            durationInFrames={clip.durationFrames + overlap}
+          >
+            <VideoClipComponent
+              clip={clip}
+              muted={!isTrackAudible(safeManifest, 'video')}
+              outgoing={outgoing}
+              overlap={overlap}
+              incoming={incoming}
+            />
+          </Sequence>
+        )
+      })}
 
       {/* Component Overlays */}
       {sortedComponents.map((comp) => (
@@ -72,20 +127,50 @@ export const VideoComposition: React.FC<CompositionProps> = ({ manifest }) => {
           from={comp.startFrame}
           durationInFrames={comp.durationFrames}
         >
-          <ComponentRenderer component={comp} />
+          <KeyframedLayer keyframes={comp.keyframes}>
+            <ComponentRenderer
+              component={comp}
+              captionStyle={safeManifest.globalSettings.captionStyle}
+              brand={brand}
+            />
+          </KeyframedLayer>
         </Sequence>
       ))}
 
+      {/* Brand Watermark */}
+      {brand?.logoUrl && brand.watermarkPosition && (
+        <Watermark
+          src={brand.logoUrl}
+          position={brand.watermarkPosition}
+          opacity={brand.watermarkOpacity ?? DEFAULT_WATERMARK_OPACITY}
+        />
+      )}
+
       {/* Audio Track */}
-      {safeManifest.tracks.audio.map((audio) => (
-        <Sequence
-          key={audio.id}
-          from={audio.startFrame}
-          durationInFrames={audio.durationFrames}
-        >
-          <Audio src={audio.url} volume={audio.volume} />
-        </Sequence>
-      ))}
+      {safeManifest.tracks.audio.map((audio) => {
+        const role = getAudioRole(audio)
+        if (!isTrackAudible(safeManifest, role)) return null
+
+        return (
+          <Sequence
+            key={audio.id}
+            from={audio.startFrame}
+            durationInFrames={audio.durationFrames}
+          >
+            <Audio
+              src={audio.url}
+              volume={(f) =>
+                audio.volume *
+                getFadeGain(audio, f) *
+                (role === 'music'
+                  ? getDuckingGain(safeManifest, audio.startFrame + f)
+                  : 1)
+              }
+              trimBefore={audio.trimStart}
+            />
+          </Sequence>
+        )
+      })}
     </AbsoluteFill>
   )
 }
@@ -96,135 +181,314 @@ export const VideoComposition: React.FC<CompositionProps> = ({ manifest }) => {
 
 interface VideoClipComponentProps {
   clip: VideoClipProps
+  /** Silence the clip's own sound (video track muted or not soloed) */
+  muted: boolean
+  /** Transition into the next clip */
+  outgoing: ClipTransition | null
+  /** Frames this clip plays past its end, under the next clip's start */
+  overlap: number
+  /** Transition from the previous clip into this one */
+  incoming: ClipTransition | null
 }
 
-const VideoClipComponent: React.FC<VideoClipComponentProps> = ({ clip }) => {
+const VideoClipComponent: React.FC<VideoClipComponentProps> = ({
+  clip,
+  muted,
+  outgoing,
+  overlap,
+  incoming,
+}) => {
   const frame = useCurrentFrame()
 
-  // Calculate transition
-  const transitionDuration = 15 // frames for transition
-  const transitionStart = clip.durationFrames - transitionDuration
+  // With a next clip the exit plays over the overlap; without one it
+  // plays over the clip's own tail (e.g. fade to background)
+  const exitEnd = clip.durationFrames + overlap
+  const exitStart = outgoing ? exitEnd - outgoing.durationFrames : exitEnd
+  const fit = clip.fit ?? 'cover'
 
   // Apply effects
   let filterStyle = ''
   if (clip.effects) {
     for (const effect of clip.effects) {
+      const value = interpolateKeyframes(effect.keyframes, frame, effect.value)
       switch (effect.type) {
         case 'brightness':
-          filterStyle += `brightness(${effect.value}) `
+          filterStyle += `brightness(${value}) `
           break
         case 'contrast':
-          filterStyle += `contrast(${effect.value}) `
+          filterStyle += `contrast(${value}) `
           break
         case 'saturation':
-          filterStyle += `saturate(${effect.value}) `
+          filterStyle += `saturate(${value}) `
           break
         case 'blur':
-          filterStyle += `blur(${effect.value}px) `
+          filterStyle += `blur(${value}px) `
           break
         case 'grayscale':
-          filterStyle += `grayscale(${effect.value}) `
+          filterStyle += `grayscale(${value}) `
           break
       }
     }
   }
 
   // Calculate transition opacity/transform
-  const transitionStyle = calculateTransition(
-    clip.transition || 'cut',
-    frame,
-    transitionStart,
-    clip.durationFrames,
-  )
+  const transitionStyle = {
+    ...(incoming &&
+      calculateTransition(
+        incoming.type,
+        'enter',
+        frame,
+        interpolate(frame, [0, incoming.durationFrames], [0, 1], {
+          extrapolateRight: 'clamp',
+        }),
+      )),
+    ...(outgoing &&
+      frame >= exitStart &&
+      calculateTransition(
+        outgoing.type,
+        'exit',
+        frame,
+        interpolate(frame, [exitStart, exitEnd], [0, 1], {
+          extrapolateRight: 'clamp',
+        }),
+      )),
+  }
 
   return (
     <AbsoluteFill
       style={{
         ...transitionStyle,
-        filter: filterStyle || undefined,
+        filter:
+          [filterStyle.trim(), transitionStyle.filter]
+            .filter(Boolean)
+            .join(' ') || undefined,
       }}
+    >
+      <AbsoluteFill style={getKeyframedStyle(clip.keyframes, frame)}>
+        {fit === 'blur-fill' && (
+          <AbsoluteFill
+            style={{ filter: 'blur(40px)', transform: 'scale(1.2)' }}
+          >
+            <ClipMedia clip={clip} objectFit="cover" muted />
+          </AbsoluteFill>
+        )}
+        <AbsoluteFill
+          style={getMotionStyle(clip.motion, frame, clip.durationFrames)}
+        >
+          <ClipMedia
+            clip={clip}
+            objectFit={fit === 'blur-fill' ? 'contain' : fit}
+            muted={muted}
+          />
+        </AbsoluteFill>
+      </AbsoluteFill>
+    </AbsoluteFill>
+  )
+}
+
+interface ClipMediaProps {
+  clip: VideoClipProps
+  objectFit: 'cover' | 'contain'
+  muted?: boolean
+}
+
+/**
+ * The clip's source: a still image or a video from its in-point. Past the
+ * clip's end (under the next clip, during a transition) the video holds
+ * its last frame: the source may end there, and frames after the
+ * out-point were trimmed away.
+ */
+const ClipMedia: React.FC<ClipMediaProps> = ({ clip, objectFit, muted }) => {
+  const frame = useCurrentFrame()
+  const focus = getFocusPoint(clip, frame)
+  const style: React.CSSProperties = {
+    width: '100%',
+    height: '100%',
+    objectFit,
+    objectPosition: focus ? `${focus.x * 100}% ${focus.y * 100}%` : undefined,
+  }
+
+  if (clip.mediaType === 'image') {
+    return <Img src={clip.url} style={style} />
+  }
+
+  return (
+    <Freeze
+      frame={clip.durationFrames - 1}
+      active={(f) => f >= clip.durationFrames}
     >
       <Video
         src={clip.url}
-        style={{
-          width: '100%',
-          height: '100%',
-          objectFit: 'cover',
-        }}
+        trimBefore={clip.trimStart}
+        muted={muted}
+        style={style}
       />
-    </AbsoluteFill>
+    </Freeze>
   )
 }
 
 // =============================================================================
-// Transition Calculator
+// Motion Presets
 // =============================================================================
 
-function calculateTransition(
-  transition: TransitionType,
+// Zoom used by the pan presets so the frame edges never show
+const MOTION_ZOOM = 1.15
+// How far the pan presets travel, in percent of the frame
+const MOTION_PAN = 5
+
+/**
+ * Pan/zoom style for a motion preset, spread over the clip's duration
+ */
+function getMotionStyle(
+  motion: MotionPreset | undefined,
   frame: number,
-  transitionStart: number,
-  totalFrames: number,
+  durationFrames: number,
 ): React.CSSProperties {
-  if (frame < transitionStart) {
-    return { opacity: 1 }
-  }
+  if (!motion || motion === 'none') return {}
 
-  const progress = interpolate(frame, [transitionStart, totalFrames], [0, 1], {
+  const progress = interpolate(frame, [0, durationFrames], [0, 1], {
+    extrapolateLeft: 'clamp',
     extrapolateRight: 'clamp',
   })
+  const pan = interpolate(progress, [0, 1], [MOTION_PAN, -MOTION_PAN])
 
-  switch (transition) {
-    case 'fade':
+  switch (motion) {
+    case 'zoom-in':
       return {
-        opacity: interpolate(progress, [0, 1], [1, 0]),
+        transform: `scale(${interpolate(progress, [0, 1], [1, MOTION_ZOOM])})`,
       }
+    case 'zoom-out':
+      return {
+        transform: `scale(${interpolate(progress, [0, 1], [MOTION_ZOOM, 1])})`,
+      }
+    case 'pan-left':
+      return { transform: `scale(${MOTION_ZOOM}) translateX(${pan}%)` }
+    case 'pan-right':
+      return { transform: `scale(${MOTION_ZOOM}) translateX(${-pan}%)` }
+    case 'pan-up':
+      return { transform: `scale(${MOTION_ZOOM}) translateY(${pan}%)` }
+    case 'pan-down':
+      return { transform: `scale(${MOTION_ZOOM}) translateY(${-pan}%)` }
+  }
+}
+
+// =============================================================================
+// Transition Calculator
+// =============================================================================
+
+/**
+ * Style for one side of a transition at the given progress (0-1).
+ * 'exit' animates the outgoing clip, 'enter' the incoming one underneath.
+ */
+function calculateTransition(
+  transition: ClipTransition['type'],
+  direction: 'enter' | 'exit',
+  frame: number,
+  progress: number,
+): React.CSSProperties {
+  const exiting = direction === 'exit'
+
+  switch (transition) {
+    case 'fade':
+      // The incoming clip is revealed as the outgoing one fades above it
+      return exiting ? { opacity: interpolate(progress, [0, 1], [1, 0]) } : {}
 
     case 'slide-left':
       return {
-        transform: `translateX(${interpolate(progress, [0, 1], [0, -100])}%)`,
+        transform: `translateX(${
+          exiting
+            ? interpolate(progress, [0, 1], [0, -100])
+            : interpolate(progress, [0, 1], [100, 0])
+        }%)`,
       }
 
     case 'slide-right':
       return {
-        transform: `translateX(${interpolate(progress, [0, 1], [0, 100])}%)`,
+        transform: `translateX(${
+          exiting
+            ? interpolate(progress, [0, 1], [0, 100])
+            : interpolate(progress, [0, 1], [-100, 0])
+        }%)`,
       }
 
     case 'zoom':
-      return {
-        transform: `scale(${interpolate(progress, [0, 1], [1, 1.5])})`,
-        opacity: interpolate(progress, [0, 1], [1, 0]),
-      }
+      return exiting
+        ? {
+            transform: `scale(${interpolate(progress, [0, 1], [1, 1.5])})`,
+            opacity: interpolate(progress, [0, 1], [1, 0]),
+          }
+        : { transform: `scale(${interpolate(progress, [0, 1], [0.8, 1])})` }
 
     case 'glitch': {
-      // Simple glitch effect using random offsets
+      // Jitter both clips around the midpoint, where the outgoing one drops out
+      const active = exiting ? progress > 0 : progress < 1
+      if (!active) return {}
       const glitchOffset = Math.sin(frame * 10) * 5
       return {
         transform: `translateX(${glitchOffset}px)`,
-        filter: progress > 0.5 ? 'hue-rotate(90deg)' : undefined,
+        filter: (exiting ? progress > 0.5 : progress < 0.5)
+          ? 'hue-rotate(90deg)'
+          : undefined,
+        ...(exiting && progress > 0.5 && { opacity: 0 }),
       }
     }
 
     case 'cut':
     default:
-      return { opacity: 1 }
+      return {}
   }
 }
 
+// =============================================================================
+// Keyframed Layer
+// =============================================================================
+
+interface KeyframedLayerProps {
+  keyframes: ComponentOverlayProps['keyframes']
+  children: React.ReactNode
+}
+
+const KeyframedLayer: React.FC<KeyframedLayerProps> = ({
+  keyframes,
+  children,
+}) => {
+  const frame = useCurrentFrame()
+
+  if (!keyframes) return <>{children}</>
+
+  return (
+    <AbsoluteFill style={getKeyframedStyle(keyframes, frame)}>
+      {children}
+    </AbsoluteFill>
+  )
+}
+
 // =============================================================================
 // Component Renderer
 // =============================================================================
 
 interface ComponentRendererProps {
   component: ComponentOverlayProps
+  /** Project caption preset, applied to KaraokeText overlays */
+  captionStyle: CaptionStyle | undefined
+  /** Project brand kit, applied under the overlay's own props */
+  brand: BrandStyle | undefined
 }
 
-const ComponentRenderer: React.FC<ComponentRendererProps> = ({ component }) => {
-  const props = component.props
+const ComponentRenderer: React.FC<ComponentRendererProps> = ({
+  component,
+  captionStyle,
+  brand,
+}) => {
+  const props = applyBrandDefaults(component.component, component.props, brand)
 
   switch (component.component) {
     case 'KaraokeText':
-      return <KaraokeText {...(props as KaraokeTextProps)} />
+      return (
+        <KaraokeText
+          {...(applyCaptionStyle(captionStyle, props) as KaraokeTextProps)}
+        />
+      )
 
     case 'BigTitle':
       return <BigTitle {...(props as BigTitleProps)} />
@@ -235,12 +499,64 @@ const ComponentRenderer: React.FC<ComponentRendererProps> = ({ component }) => {
     case 'LowerThird':
       return <LowerThird {...(props as LowerThirdProps)} />
 
+    case 'ProgressBar':
+      return <ProgressBar {...(props as ProgressBarProps)} />
+
+    case 'Countdown':
+      return <Countdown {...(props as CountdownProps)} />
+
+    case 'CallToAction':
+      return <CallToAction {...(props as CallToActionProps)} />
+
+    case 'Sticker':
+      return <Sticker {...(props as StickerProps)} />
+
+    case 'Shape':
+      return <Shape {...(props as ShapeProps)} />
+
     default:
       console.warn(`Unknown component type: ${component.component}`)
       return null
   }
 }
 
+// =============================================================================
+// Brand Kit
+// =============================================================================
+
+const WATERMARK_INSET = '4%'
+const WATERMARK_WIDTH = '18%'
+
+interface WatermarkProps {
+  src: string
+  position: NonNullable<BrandStyle['watermarkPosition']>
+  opacity: number
+}
+
+const Watermark: React.FC<WatermarkProps> = ({ src, position, opacity }) => {
+  const [vertical, horizontal] = position.split('-') as [
+    'top' | 'bottom',
+    'left' | 'right',
+  ]
+
+  return (
+    <AbsoluteFill style={{ pointerEvents: 'none' }}>
+      <Img
+        src={src}
+        style={{
+          position: 'absolute',
+          [vertical]: WATERMARK_INSET,
+          [horizontal]: WATERMARK_INSET,
+          width: WATERMARK_WIDTH,
+          height: 'auto',
+          objectFit: 'contain',
+          opacity,
+        }}
+      />
+    </AbsoluteFill>
+  )
+}
+
 // =============================================================================
 // Default Export
 // =============================================================================
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_DUCKING,
+  getAudioRole,
+  getDuckingGain,
+  getFadeGain,
+  isTrackAudible,
+} from './audio-mix'
+import { audioClip, withTracks } from './test-fixtures'
+
+// =============================================================================
+// Roles and Tracks
+// =============================================================================
+
+describe('getAudioRole', () => {
+  it('prefers the explicit role', () => {
+    expect(getAudioRole(audioClip({ role: 'sfx' }))).toBe('sfx')
+  })
+
+  it('treats clips with word timestamps as voiceover, others as music', () => {
+    const words = [{ word: 'Hi', start: 0, end: 0.5 }]
+
+    expect(getAudioRole(audioClip({ wordTimestamps: words }))).toBe('voiceover')
+    expect(getAudioRole(audioClip())).toBe('music')
+  })
+})
+
+describe('isTrackAudible', () => {
+  it('silences muted tracks', () => {
+    const manifest = withTracks(
+      {},
+      { audioMix: { tracks: { music: { muted: true } } } },
+    )
+
+    expect(isTrackAudible(manifest, 'music')).toBe(false)
+    expect(isTrackAudible(manifest, 'voiceover')).toBe(true)
+  })
+
+  it('only plays soloed tracks while any track is soloed', () => {
+    const manifest = withTracks(
+      {},
+      { audioMix: { tracks: { voiceover: { solo: true } } } },
+    )
+
+    expect(isTrackAudible(manifest, 'voiceover')).toBe(true)
+    expect(isTrackAudible(manifest, 'music')).toBe(false)
+  })
+
+  it('lets mute win over solo', () => {
+    const manifest = withTracks(
+      {},
+      { audioMix: { tracks: { voiceover: { solo: true, muted: true } } } },
+    )
+
+    expect(isTrackAudible(manifest, 'voiceover')).toBe(false)
+  })
+})
+
+// =============================================================================
+// Gains
+// =============================================================================
+
+describe('getFadeGain', () => {
+  it('ramps in and out over the fade lengths', () => {
+    const clip = audioClip({ fadeInFrames: 10, fadeOutFrames: 20 })
+
+    expect(getFadeGain(clip, 0)).toBe(0)
+    expect(getFadeGain(clip, 5)).toBe(0.5)
+    expect(getFadeGain(clip, 50)).toBe(1)
+    expect(getFadeGain(clip, 90)).toBe(0.5)
+    expect(getFadeGain(clip, 100)).toBe(0)
+  })
+
+  it('is 1 without fades', () => {
+    expect(getFadeGain(audioClip(), 0)).toBe(1)
+  })
+})
+
+describe('getDuckingGain', () => {
+  const voiceover = audioClip({ role: 'voiceover', startFrame: 100 })
+
+  it('lowers music while a voiceover plays', () => {
+    const manifest = withTracks(
+      { audio: [voiceover] },
+      { audioMix: { ducking: DEFAULT_DUCKING } },
+    )
+
+    expect(getDuckingGain(manifest, 50)).toBe(1)
+    expect(getDuckingGain(manifest, 95)).toBeCloseTo(0.625)
+    expect(getDuckingGain(manifest, 150)).toBe(DEFAULT_DUCKING.level)
+    expect(getDuckingGain(manifest, 250)).toBe(1)
+  })
+
+  it('does not duck for a muted voiceover or when disabled', () => {
+    const muted = withTracks(
+      { audio: [voiceover] },
+      {
+        audioMix: {
+          ducking: DEFAULT_DUCKING,
+          tracks: { voiceover: { muted: true } },
+        },
+      },
+    )
+    const disabled = withTracks(
+      { audio: [voiceover] },
+      { audioMix: { ducking: { ...DEFAULT_DUCKING, enabled: false } } },
+    )
+
+    expect(getDuckingGain(muted, 150)).toBe(1)
+    expect(getDuckingGain(disabled, 150)).toBe(1)
+  })
+})
@@ -0,0 +1,112 @@
+/**
+ * Audio Mix
+ *
+ * Volume rules shared by the composition and the studio: per-track
+ * mute/solo, clip fade curves and ducking of music under voiceover.
+ * Loudness normalisation to audioMix.loudnessTarget is applied at
+ * render time (see render.server.ts).
+ */
+
+import { interpolate } from 'remotion'
+import type {
+  AudioClip,
+  AudioRole,
+  AudioTrackKey,
+  ProjectManifest,
+} from './manifest'
+
+export const AUDIO_TRACK_KEYS: ReadonlyArray<AudioTrackKey> = [
+  'video',
+  'voiceover',
+  'music',
+  'sfx',
+]
+
+// Ducking used when a manifest enables it without settings
+export const DEFAULT_DUCKING = {
+  enabled: true,
+  level: 0.25,
+  fadeFrames: 10,
+}
+
+// Integrated loudness target for renders (common for social platforms)
+export const DEFAULT_LOUDNESS_TARGET = -14
+
+/**
+ * Which track an audio clip belongs to
+ */
+export function getAudioRole(clip: AudioClip): AudioRole {
+  return clip.role ?? (clip.wordTimestamps ? 'voiceover' : 'music')
+}
+
+/**
+ * Whether a track is heard, honouring mute and solo.
+ * When any track is soloed only soloed tracks play.
+ */
+export function isTrackAudible(
+  manifest: ProjectManifest,
+  track: AudioTrackKey,
+): boolean {
+  const tracks = manifest.audioMix?.tracks ?? {}
+  const state = tracks[track] ?? {}
+  if (state.muted) return false
+
+  const anySolo = AUDIO_TRACK_KEYS.some((key) => tracks[key]?.solo)
+  return !anySolo || !!state.solo
+}
+
+/**
+ * Fade-in/fade-out gain (0-1) at a frame relative to the clip start
+ */
+export function getFadeGain(clip: AudioClip, frame: number): number {
+  let gain = 1
+
+  if (clip.fadeInFrames) {
+    gain *= interpolate(frame, [0, clip.fadeInFrames], [0, 1], {
+      extrapolateLeft: 'clamp',
+      extrapolateRight: 'clamp',
+    })
+  }
+
+  if (clip.fadeOutFrames) {
+    gain *= interpolate(
+      frame,
+      [clip.durationFrames - clip.fadeOutFrames, clip.durationFrames],
+      [1, 0],
+      { extrapolateLeft: 'clamp', extrapolateRight: 'clamp' },
+    )
+  }
+
+  return gain
+}
+
+/**
+ * Music gain (level-1) at a timeline frame: ducked while an audible
+ * voiceover plays, ramping over fadeFrames on either side
+ */
+export function getDuckingGain(
+  manifest: ProjectManifest,
+  frame: number,
+): number {
+  const ducking = manifest.audioMix?.ducking
+  if (!ducking?.enabled || !isTrackAudible(manifest, 'voiceover')) return 1
+
+  let gain = 1
+  for (const clip of manifest.tracks.audio) {
+    if (getAudioRole(clip) !== 'voiceover') continue
+
+    const start = clip.startFrame
+    const end = clip.startFrame + clip.durationFrames
+    const fade = Math.max(1, ducking.fadeFrames)
+
+    const clipGain = interpolate(
+      frame,
+      [start - fade, start, end, end + fade],
+      [1, ducking.level, ducking.level, 1],
+      { extrapolateLeft: 'clamp', extrapolateRight: 'clamp' },
+    )
+    gain = Math.min(gain, clipGain)
+  }
+
+  return gain
+}
@@ -0,0 +1,177 @@
+/**
+ * Brand Kits
+ *
+ * A brand kit holds a user's colours, uploaded fonts, logo watermark and
+ * default LowerThird/BigTitle styling. Projects reference a kit; the
+ * composition applies it underneath each overlay's own props, so anything
+ * set on an overlay still wins.
+ */
+
+import { z } from 'zod'
+import type { ComponentOverlay, ComponentType } from './manifest'
+
+// =============================================================================
+// Schemas
+// =============================================================================
+
+const colorSchema = z.string().min(1, 'Colour is required')
+
+export const brandColorsSchema = z.object({
+  primary: colorSchema.optional(),
+  secondary: colorSchema.optional(),
+  accent: colorSchema.optional(),
+  text: colorSchema.optional(),
+  background: colorSchema.optional(),
+})
+
+// Fonts are fetched by the preview and the renderer's browser, so they
+// must come over https (e.g. the storage CDN) or from the app itself
+const fontUrlSchema = z
+  .string()
+  .min(1, 'Font URL is required')
+  .refine(
+    (url) =>
+      (url.startsWith('/') && !url.startsWith('//')) ||
+      url.startsWith('https://'),
+    'Font URL must be https',
+  )
+
+export const brandFontSchema = z.object({
+  family: z.string().min(1, 'Font family is required'),
+  url: fontUrlSchema,
+})
+
+export const watermarkPositionSchema = z.enum([
+  'top-left',
+  'top-right',
+  'bottom-left',
+  'bottom-right',
+])
+
+export const lowerThirdDefaultsSchema = z.object({
+  backgroundColor: colorSchema.optional(),
+  textColor: colorSchema.optional(),
+  fontFamily: z.string().optional(),
+  position: z.enum(['left', 'center', 'right']).optional(),
+})
+
+export const bigTitleDefaultsSchema = z.object({
+  color: colorSchema.optional(),
+  fontFamily: z.string().optional(),
+  fontSize: z.number().positive().optional(),
+  animation: z.enum(['fade', 'slide-up', 'scale', 'typewriter']).optional(),
+  position: z.enum(['top', 'center', 'bottom']).optional(),
+})
+
+/**
+ * The resolved brand passed to the composition alongside the manifest
+ */
+export const brandStyleSchema = z.object({
+  colors: brandColorsSchema,
+  fonts: z.array(brandFontSchema),
+  headingFont: z.string().optional(),
+  bodyFont: z.string().optional(),
+  logoUrl: z.string().optional(),
+  watermarkPosition: watermarkPositionSchema.optional(),
+  watermarkOpacity: z.number().min(0).max(1).optional(),
+  lowerThird: lowerThirdDefaultsSchema.optional(),
+  bigTitle: bigTitleDefaultsSchema.optional(),
+})
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type BrandColors = z.infer<typeof brandColorsSchema>
+export type BrandFont = z.infer<typeof brandFontSchema>
+export type WatermarkPosition = z.infer<typeof watermarkPositionSchema>
+export type LowerThirdDefaults = z.infer<typeof lowerThirdDefaultsSchema>
+export type BigTitleDefaults = z.infer<typeof bigTitleDefaultsSchema>
+export type BrandStyle = z.infer<typeof brandStyleSchema>
+
+export const DEFAULT_WATERMARK_OPACITY = 0.8
+
+// =============================================================================
+// Applying a Brand
+// =============================================================================
+
+/**
+ * Default props a brand gives an overlay component. Explicit LowerThird and
+ * BigTitle defaults take precedence over ones derived from the colours and
+ * fonts.
+ */
+export function getBrandDefaults(
+  component: ComponentType,
+  brand: BrandStyle | undefined,
+): ComponentOverlay['props'] {
+  if (!brand) return {}
+
+  const { colors } = brand
+
+  switch (component) {
+    case 'LowerThird':
+      return withoutUndefined({
+        backgroundColor: colors.primary,
+        textColor: colors.text,
+        fontFamily: brand.bodyFont,
+        ...brand.lowerThird,
+      })
+
+    case 'BigTitle':
+      return withoutUndefined({
+        color: colors.text,
+        fontFamily: brand.headingFont,
+        ...brand.bigTitle,
+      })
+
+    case 'KaraokeText':
+      return withoutUndefined({
+        color: colors.text,
+        highlightColor: colors.accent,
+        fontFamily: brand.bodyFont,
+      })
+
+    case 'ProgressBar':
+      return withoutUndefined({ color: colors.primary })
+
+    case 'Countdown':
+      return withoutUndefined({
+        color: colors.text,
+        fontFamily: brand.headingFont,
+      })
+
+    case 'CallToAction':
+      return withoutUndefined({
+        backgroundColor: colors.background,
+        textColor: colors.text,
+        buttonColor: colors.primary,
+        fontFamily: brand.bodyFont,
+      })
+
+    case 'Shape':
+      return withoutUndefined({ color: colors.accent })
+
+    default:
+      return {}
+  }
+}
+
+/**
+ * Props of an overlay with the brand defaults applied underneath
+ */
+export function applyBrandDefaults(
+  component: ComponentType,
+  props: ComponentOverlay['props'],
+  brand: BrandStyle | undefined,
+): ComponentOverlay['props'] {
+  return { ...getBrandDefaults(component, brand), ...props }
+}
+
+// Keeps unset brand fields from overriding component defaults
+function withoutUndefined(
+  props: Record<string, unknown>,
+): ComponentOverlay['props'] {
+  return Object.fromEntries(
+    Object.entries(props).filter(([, value]) => value !== undefined),
+  )
+}
@@ -0,0 +1,180 @@
+import { describe, expect, it } from 'vitest'
+import {
+  createCaptionOverlays,
+  createOverlaysFromCues,
+  formatSrt,
+  formatVtt,
+  getCaptionCues,
+  parseSrt,
+  splitIntoCaptionLines,
+} from './captions'
+import { overlay, withTracks } from './test-fixtures'
+
+const FPS = 30
+
+// =============================================================================
+// Line Splitting
+// =============================================================================
+
+describe('splitIntoCaptionLines', () => {
+  it('ends lines at sentence ends and long pauses', () => {
+    const lines = splitIntoCaptionLines([
+      { word: 'Hello', start: 0, end: 0.4 },
+      { word: 'there.', start: 0.4, end: 0.8 },
+      { word: 'Welcome', start: 1, end: 1.4 },
+      { word: 'back', start: 2.5, end: 2.8 },
+    ])
+
+    expect(lines.map((line) => line.text)).toEqual([
+      'Hello there.',
+      'Welcome',
+      'back',
+    ])
+    expect(lines[0]).toMatchObject({ start: 0, end: 0.8 })
+  })
+})
+
+describe('createCaptionOverlays', () => {
+  it('only captions the trimmed part of the clip, relative to each line', () => {
+    const overlays = createCaptionOverlays(
+      { id: 'voice', startFrame: 60, durationFrames: 60, trimStart: 30 },
+      [
+        { word: 'cut', start: 0.2, end: 0.5 },
+        { word: 'Kept', start: 1.5, end: 1.8 },
+        { word: 'words.', start: 1.8, end: 2.2 },
+      ],
+      FPS,
+    )
+
+    expect(overlays).toHaveLength(1)
+    expect(overlays[0]).toMatchObject({
+      startFrame: 75,
+      durationFrames: 21,
+      props: { text: 'Kept words.', captionSourceId: 'voice' },
+    })
+    expect(overlays[0].props.wordTimestamps[0]).toEqual({
+      word: 'Kept',
+      start: 0,
+      end: expect.closeTo(0.3),
+    })
+  })
+})
+
+// =============================================================================
+// SRT / WebVTT
+// =============================================================================
+
+describe('getCaptionCues', () => {
+  it('reads KaraokeText overlays in timeline order', () => {
+    const manifest = withTracks({
+      components: [
+        overlay(
+          'KaraokeText',
+          { text: 'Second line' },
+          { id: 'b', startFrame: 90, durationFrames: 30 },
+        ),
+        overlay(
+          'KaraokeText',
+          {
+            text: '',
+            wordTimestamps: [
+              { word: 'First', start: 0, end: 0.5 },
+              { word: 'line', start: 0.5, end: 1 },
+            ],
+          },
+          { id: 'a', durationFrames: 45 },
+        ),
+        overlay(
+          'KaraokeText',
+          { text: ' ' },
+          { id: 'empty', startFrame: 150, durationFrames: 30 },
+        ),
+      ],
+    })
+
+    expect(getCaptionCues(manifest, FPS)).toEqual([
+      { start: 0, end: 1.5, text: 'First line' },
+      { start: 3, end: 4, text: 'Second line' },
+    ])
+  })
+})
+
+describe('formatSrt / formatVtt', () => {
+  const cues = [
+    { start: 0, end: 1.5, text: 'First line' },
+    { start: 3661.25, end: 3662, text: 'Later' },
+  ]
+
+  it('writes numbered SRT cues with comma milliseconds', () => {
+    expect(formatSrt(cues)).toBe(
+      '1\n00:00:00,000 --> 00:00:01,500\nFirst line\n\n' +
+        '2\n01:01:01,250 --> 01:01:02,000\nLater\n',
+    )
+  })
+
+  it('writes a WEBVTT header and dot milliseconds', () => {
+    expect(formatVtt(cues)).toBe(
+      'WEBVTT\n\n' +
+        '00:00:00.000 --> 00:00:01.500\nFirst line\n\n' +
+        '01:01:01.250 --> 01:01:02.000\nLater\n',
+    )
+  })
+})
+
+describe('parseSrt', () => {
+  it('reads back what formatSrt writes', () => {
+    const cues = [
+      { start: 0.5, end: 2, text: 'Hello there' },
+      { start: 2.25, end: 4, text: 'General Kenobi' },
+    ]
+
+    expect(parseSrt(formatSrt(cues))).toEqual(cues)
+  })
+
+  it('handles CRLF, tags, multi-line text and short timestamps', () => {
+    const srt =
+      '1\r\n00:00:01,000 --> 00:00:02,5\r\n<i>Two</i>\r\nlines\r\n\r\n' +
+      '2\r\n00:03.000 --> 00:04.000\r\nShort\r\n'
+
+    expect(parseSrt(srt)).toEqual([
+      { start: 1, end: 2.5, text: 'Two lines' },
+      { start: 3, end: 4, text: 'Short' },
+    ])
+  })
+
+  it('skips cues with bad timings or no text', () => {
+    const srt =
+      '1\nnot a time --> 00:00:01,000\nBad\n\n' +
+      '2\n00:00:02,000 --> 00:00:01,000\nBackwards\n\n' +
+      '3\n00:00:03,000 --> 00:00:04,000\n\n\n' +
+      '4\n00:00:05,000 --> 00:00:06,000\nGood\n'
+
+    expect(parseSrt(srt)).toEqual([{ start: 5, end: 6, text: 'Good' }])
+  })
+
+  it('throws when there are no cues', () => {
+    expect(() => parseSrt('just some text')).toThrow(
+      'No captions found in SRT file',
+    )
+  })
+})
+
+describe('createOverlaysFromCues', () => {
+  it('spreads word timings over each cue by word length', () => {
+    const [caption] = createOverlaysFromCues(
+      [{ start: 1, end: 2, text: 'Hi there' }],
+      FPS,
+    )
+
+    expect(caption).toMatchObject({
+      component: 'KaraokeText',
+      startFrame: 30,
+      durationFrames: 30,
+      props: { text: 'Hi there' },
+    })
+    expect(caption.props.wordTimestamps).toEqual([
+      { word: 'Hi', start: 0, end: expect.closeTo(2 / 7) },
+      { word: 'there', start: expect.closeTo(2 / 7), end: expect.closeTo(1) },
+    ])
+  })
+})
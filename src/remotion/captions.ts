@@ -0,0 +1,373 @@
+/**
+ * Captions
+ *
+ * Turns word timestamps (from TTS or transcription) into KaraokeText
+ * caption overlays, one per readable line. Also holds the caption style
+ * presets and SRT/WebVTT import and export.
+ */
+
+import type {
+  CaptionStyle,
+  ComponentOverlay,
+  ProjectManifest,
+  WordTimestamp,
+} from './manifest'
+import type { KaraokeTextProps } from './types'
+
+// Line breaking rules for readable captions
+const MAX_LINE_CHARS = 32
+const MAX_LINE_SECONDS = 3
+const MAX_WORD_GAP_SECONDS = 0.8
+
+// Captions sit above other overlays
+export const CAPTION_LAYER = 10
+
+// =============================================================================
+// Style Presets
+// =============================================================================
+
+export const DEFAULT_CAPTION_STYLE: CaptionStyle = 'classic'
+
+/**
+ * Named caption looks, applied to every KaraokeText overlay in a project.
+ * Props set on an individual overlay still take precedence.
+ */
+export const CAPTION_STYLE_PRESETS: Record<
+  CaptionStyle,
+  { label: string; props: Partial<KaraokeTextProps> }
+> = {
+  classic: {
+    label: 'Classic',
+    props: {
+      variant: 'highlight',
+      fontSize: 48,
+      color: '#ffffff',
+      highlightColor: '#ffff00',
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      position: 'bottom',
+    },
+  },
+  'word-pop': {
+    label: 'Word Pop',
+    props: {
+      variant: 'pop',
+      fontSize: 64,
+      fontFamily: 'Arial Black, sans-serif',
+      color: '#ffffff',
+      highlightColor: '#22d3ee',
+      backgroundColor: 'transparent',
+      position: 'center',
+    },
+  },
+  bounce: {
+    label: 'Bouncing Highlight',
+    props: {
+      variant: 'bounce',
+      fontSize: 56,
+      fontFamily: 'Arial Black, sans-serif',
+      color: '#ffffff',
+      highlightColor: '#facc15',
+      backgroundColor: 'transparent',
+      position: 'bottom',
+    },
+  },
+  boxed: {
+    label: 'Boxed',
+    props: {
+      variant: 'boxed',
+      fontSize: 52,
+      color: '#ffffff',
+      highlightColor: '#7c3aed',
+      position: 'bottom',
+    },
+  },
+  minimal: {
+    label: 'Minimal',
+    props: {
+      variant: 'highlight',
+      fontSize: 40,
+      color: 'rgba(255, 255, 255, 0.7)',
+      highlightColor: '#ffffff',
+      backgroundColor: 'transparent',
+      position: 'bottom',
+    },
+  },
+}
+
+/**
+ * Props of a KaraokeText overlay with the project's caption style applied
+ */
+export function applyCaptionStyle(
+  style: CaptionStyle | undefined,
+  props: ComponentOverlay['props'],
+): ComponentOverlay['props'] {
+  return {
+    ...CAPTION_STYLE_PRESETS[style ?? DEFAULT_CAPTION_STYLE].props,
+    ...props,
+  }
+}
+
+// =============================================================================
+// Line Splitting
+// =============================================================================
+
+export interface CaptionLine {
+  text: string
+  start: number // seconds
+  end: number // seconds
+  words: Array<WordTimestamp>
+}
+
+/**
+ * The media clip a set of captions was generated from
+ */
+export interface CaptionSource {
+  id: string
+  startFrame: number
+  durationFrames: number
+  trimStart?: number
+}
+
+/**
+ * Group words into lines, breaking on length, duration and pauses
+ */
+export function splitIntoCaptionLines(
+  words: Array<WordTimestamp>,
+): Array<CaptionLine> {
+  const lines: Array<CaptionLine> = []
+  let current: Array<WordTimestamp> = []
+
+  const flush = () => {
+    if (current.length === 0) return
+    lines.push({
+      text: current.map((w) => w.word).join(' '),
+      start: current[0].start,
+      end: current[current.length - 1].end,
+      words: current,
+    })
+    current = []
+  }
+
+  for (const word of words) {
+    if (current.length > 0) {
+      const first = current[0]
+      const last = current[current.length - 1]
+      const chars =
+        current.reduce((sum, w) => sum + w.word.length + 1, 0) +
+        word.word.length
+
+      if (
+        chars > MAX_LINE_CHARS ||
+        word.end - first.start > MAX_LINE_SECONDS ||
+        word.start - last.end > MAX_WORD_GAP_SECONDS
+      ) {
+        flush()
+      }
+    }
+
+    current.push(word)
+
+    // End a line at the end of a sentence
+    if (/[.!?]$/.test(word.word)) flush()
+  }
+
+  flush()
+  return lines
+}
+
+/**
+ * Build caption overlays for the part of a clip's source media that is
+ * on the timeline. Word times in each overlay are relative to its start.
+ */
+export function createCaptionOverlays(
+  source: CaptionSource,
+  words: Array<WordTimestamp>,
+  fps: number,
+  props: Record<string, unknown> = {},
+): Array<ComponentOverlay> {
+  const inPoint = (source.trimStart ?? 0) / fps
+  const outPoint = inPoint + source.durationFrames / fps
+
+  const visibleWords = words.filter(
+    (w) => w.start >= inPoint && w.end <= outPoint,
+  )
+
+  return splitIntoCaptionLines(visibleWords).map((line, index) => {
+    const startFrame =
+      source.startFrame + Math.round((line.start - inPoint) * fps)
+    const endFrame = source.startFrame + Math.round((line.end - inPoint) * fps)
+
+    return {
+      id: `caption-${source.id}-${index}`,
+      component: 'KaraokeText',
+      startFrame,
+      durationFrames: Math.max(1, endFrame - startFrame),
+      layer: CAPTION_LAYER,
+      props: {
+        ...props,
+        text: line.text,
+        wordTimestamps: line.words.map((w) => ({
+          word: w.word,
+          start: w.start - line.start,
+          end: w.end - line.start,
+        })),
+        // Lets regenerating replace this clip's captions
+        captionSourceId: source.id,
+      },
+    }
+  })
+}
+
+/**
+ * Whether an overlay is an auto caption for the given clip
+ */
+export function isCaptionFor(overlay: ComponentOverlay, clipId: string) {
+  return overlay.props.captionSourceId === clipId
+}
+
+// =============================================================================
+// SRT / WebVTT
+// =============================================================================
+
+export interface CaptionCue {
+  start: number // seconds
+  end: number // seconds
+  text: string
+}
+
+/**
+ * Caption cues from a project's KaraokeText overlays, in timeline order
+ */
+export function getCaptionCues(
+  manifest: ProjectManifest,
+  fps: number,
+): Array<CaptionCue> {
+  return manifest.tracks.components
+    .filter((overlay) => overlay.component === 'KaraokeText')
+    .sort((a, b) => a.startFrame - b.startFrame)
+    .map((overlay) => {
+      const words = (overlay.props.wordTimestamps ?? []) as Array<WordTimestamp>
+      return {
+        start: overlay.startFrame / fps,
+        end: (overlay.startFrame + overlay.durationFrames) / fps,
+        text:
+          typeof overlay.props.text === 'string' && overlay.props.text
+            ? overlay.props.text
+            : words.map((w) => w.word).join(' '),
+      }
+    })
+    .filter((cue) => cue.text.trim().length > 0)
+}
+
+export function formatSrt(cues: Array<CaptionCue>): string {
+  return cues
+    .map(
+      (cue, index) =>
+        `${index + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}\n`,
+    )
+    .join('\n')
+}
+
+export function formatVtt(cues: Array<CaptionCue>): string {
+  const body = cues
+    .map(
+      (cue) =>
+        `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.text}\n`,
+    )
+    .join('\n')
+  return `WEBVTT\n\n${body}`
+}
+
+/**
+ * Parse an SRT file. Throws if no cues can be read.
+ */
+export function parseSrt(content: string): Array<CaptionCue> {
+  const cues: Array<CaptionCue> = []
+  const blocks = content
+    .replace(/\r\n?/g, '\n')
+    .trim()
+    .split(/\n\s*\n/)
+
+  for (const block of blocks) {
+    const lines = block.split('\n')
+    const timingIndex = lines.findIndex((line) => line.includes('-->'))
+    if (timingIndex === -1) continue
+
+    const [start, end] = lines[timingIndex]
+      .split('-->')
+      .map((part) => parseTimestamp(part.trim()))
+    const text = lines
+      .slice(timingIndex + 1)
+      .join(' ')
+      .replace(/<[^>]+>/g, '') // strip <i>, <b>, <font> tags
+      .trim()
+
+    if (start !== null && end !== null && end > start && text) {
+      cues.push({ start, end, text })
+    }
+  }
+
+  if (cues.length === 0) {
+    throw new Error('No captions found in SRT file')
+  }
+
+  return cues
+}
+
+/**
+ * KaraokeText overlays from caption cues. Word timings are spread over
+ * each cue in proportion to word length, since SRT only times lines.
+ */
+export function createOverlaysFromCues(
+  cues: Array<CaptionCue>,
+  fps: number,
+): Array<ComponentOverlay> {
+  const batch = Date.now()
+
+  return cues.map((cue, index) => {
+    const words = cue.text.split(/\s+/).filter(Boolean)
+    const duration = cue.end - cue.start
+    const totalChars = words.reduce((sum, w) => sum + w.length, 0)
+
+    let offset = 0
+    const wordTimestamps = words.map((word) => {
+      const length = (word.length / totalChars) * duration
+      const timestamp = { word, start: offset, end: offset + length }
+      offset += length
+      return timestamp
+    })
+
+    const startFrame = Math.round(cue.start * fps)
+    return {
+      id: `caption-srt-${batch}-${index}`,
+      component: 'KaraokeText',
+      startFrame,
+      durationFrames: Math.max(1, Math.round(cue.end * fps) - startFrame),
+      layer: CAPTION_LAYER,
+      props: { text: cue.text, wordTimestamps },
+    }
+  })
+}
+
+function formatTimestamp(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000))
+  const hours = Math.floor(totalMs / 3_600_000)
+  const minutes = Math.floor((totalMs % 3_600_000) / 60_000)
+  const secs = Math.floor((totalMs % 60_000) / 1000)
+  const ms = totalMs % 1000
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0')
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`
+}
+
+// Accepts "00:01:02,500", "00:01:02.500" and "01:02.500"
+function parseTimestamp(value: string): number | null {
+  const match = value.match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})[,.](\d{1,3})/)
+  if (!match) return null
+  const [, hours = '0', minutes, secs, ms] = match
+  return (
+    Number(hours) * 3600 +
+    Number(minutes) * 60 +
+    Number(secs) +
+    Number(ms.padEnd(3, '0')) / 1000
+  )
+}
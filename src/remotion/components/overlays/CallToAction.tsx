@@ -0,0 +1,113 @@
+/**
+ * Call To Action Component
+ *
+ * A subscribe/follow card with an animated entrance and a pulsing button.
+ */
+
+import {
+  AbsoluteFill,
+  interpolate,
+  spring,
+  useCurrentFrame,
+  useVideoConfig,
+} from 'remotion'
+import type { CallToActionProps } from '../../types'
+
+export const CallToAction: React.FC<CallToActionProps> = ({
+  title,
+  subtitle,
+  buttonText = 'Subscribe',
+  backgroundColor = 'rgba(255, 255, 255, 0.95)',
+  textColor = '#111111',
+  buttonColor = '#ff0000',
+  fontFamily = 'Arial, sans-serif',
+  animation = 'slide-up',
+  position = 'bottom',
+}) => {
+  const frame = useCurrentFrame()
+  const { fps } = useVideoConfig()
+
+  const progress = spring({
+    frame,
+    fps,
+    config: { damping: 14, stiffness: 120 },
+  })
+
+  const getEntranceStyle = (): React.CSSProperties => {
+    switch (animation) {
+      case 'pop':
+        return {
+          transform: `scale(${interpolate(progress, [0, 1], [0.3, 1])})`,
+        }
+      case 'fade':
+        return {
+          opacity: interpolate(frame, [0, 15], [0, 1], {
+            extrapolateRight: 'clamp',
+          }),
+        }
+      case 'slide-up':
+      default:
+        return {
+          transform: `translateY(${interpolate(progress, [0, 1], [300, 0])}px)`,
+        }
+    }
+  }
+
+  // Gentle pulse on the button once the card has landed
+  const buttonScale =
+    frame > 20 ? 1 + Math.max(0, Math.sin((frame - 20) / 6)) * 0.05 : 1
+
+  return (
+    <AbsoluteFill
+      style={{
+        justifyContent: position === 'center' ? 'center' : 'flex-end',
+        alignItems: 'center',
+        paddingBottom: position === 'bottom' ? '15%' : 0,
+      }}
+    >
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: 24,
+          padding: '24px 32px',
+          borderRadius: 24,
+          backgroundColor,
+          boxShadow: '0 12px 40px rgba(0, 0, 0, 0.35)',
+          maxWidth: '85%',
+          fontFamily,
+          ...getEntranceStyle(),
+        }}
+      >
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+          <span style={{ color: textColor, fontSize: 36, fontWeight: 'bold' }}>
+            {title}
+          </span>
+          {subtitle && (
+            <span style={{ color: textColor, fontSize: 22, opacity: 0.7 }}>
+              {subtitle}
+            </span>
+          )}
+        </div>
+        {buttonText && (
+          <div
+            style={{
+              flexShrink: 0,
+              padding: '14px 28px',
+              borderRadius: 999,
+              backgroundColor: buttonColor,
+              color: '#ffffff',
+              fontSize: 26,
+              fontWeight: 'bold',
+              transform: `scale(${buttonScale})`,
+            }}
+          >
+            {buttonText}
+          </div>
+        )}
+      </div>
+    </AbsoluteFill>
+  )
+}
+
+export default CallToAction
@@ -0,0 +1,89 @@
+/**
+ * Countdown Component
+ *
+ * Counts down to zero over the overlay's duration, with a small pulse on
+ * each new second.
+ */
+
+import {
+  AbsoluteFill,
+  interpolate,
+  useCurrentFrame,
+  useVideoConfig,
+} from 'remotion'
+import type { CountdownProps } from '../../types'
+
+export const Countdown: React.FC<CountdownProps> = ({
+  from,
+  fontSize = 160,
+  fontFamily = 'Arial Black, sans-serif',
+  color = '#ffffff',
+  format = 'seconds',
+  position = 'center',
+  label,
+}) => {
+  const frame = useCurrentFrame()
+  const { fps, durationInFrames } = useVideoConfig()
+
+  const start = from ?? durationInFrames / fps
+  const remaining = Math.max(0, Math.ceil(start - frame / fps))
+
+  // Pulse at the start of every second
+  const frameInSecond = frame % fps
+  const scale = interpolate(frameInSecond, [0, 6], [1.15, 1], {
+    extrapolateRight: 'clamp',
+  })
+
+  const text =
+    format === 'mm:ss'
+      ? `${Math.floor(remaining / 60)}:${String(remaining % 60).padStart(2, '0')}`
+      : String(remaining)
+
+  const justifyContent =
+    position === 'top'
+      ? 'flex-start'
+      : position === 'bottom'
+        ? 'flex-end'
+        : 'center'
+
+  return (
+    <AbsoluteFill
+      style={{
+        justifyContent,
+        alignItems: 'center',
+        padding: '15% 0',
+      }}
+    >
+      {label && (
+        <div
+          style={{
+            fontFamily,
+            color,
+            fontSize: fontSize * 0.25,
+            fontWeight: 'bold',
+            textTransform: 'uppercase',
+            letterSpacing: 2,
+            textShadow: '2px 2px 4px rgba(0, 0, 0, 0.5)',
+          }}
+        >
+          {label}
+        </div>
+      )}
+      <div
+        style={{
+          fontFamily,
+          color,
+          fontSize,
+          lineHeight: 1,
+          transform: `scale(${scale})`,
+          fontVariantNumeric: 'tabular-nums',
+          textShadow: '4px 4px 8px rgba(0, 0, 0, 0.5)',
+        }}
+      >
+        {text}
+      </div>
+    </AbsoluteFill>
+  )
+}
+
+export default Countdown
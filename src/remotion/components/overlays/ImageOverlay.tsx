@@ -13,6 +13,7 @@ export const ImageOverlay: React.FC<ImageOverlayProps> = ({
   height,
   x = 50,
   y = 50,
+  rotation = 0,
   opacity = 1,
 }) => {
   const frame = useCurrentFrame()
@@ -29,7 +30,7 @@ export const ImageOverlay: React.FC<ImageOverlayProps> = ({
           position: 'absolute',
           left: `${x}%`,
           top: `${y}%`,
-          transform: 'translate(-50%, -50%)',
+          transform: `translate(-50%, -50%) rotate(${rotation}deg)`,
           opacity: fadeIn,
         }}
       >
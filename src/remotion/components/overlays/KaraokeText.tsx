@@ -2,9 +2,21 @@
  * Karaoke Text Component
  *
  * Displays text with word-by-word highlighting synchronized to audio timestamps.
+ *
+ * Variants:
+ * - highlight: spoken words change colour and glow
+ * - pop: words appear one at a time with a scale pop
+ * - bounce: the active word bounces up
+ * - boxed: the active word sits in a solid box
  */
 
-import { AbsoluteFill, useCurrentFrame, useVideoConfig } from 'remotion'
+import {
+  AbsoluteFill,
+  interpolate,
+  spring,
+  useCurrentFrame,
+  useVideoConfig,
+} from 'remotion'
 import type { KaraokeTextProps } from '../../types'
 
 export const KaraokeText: React.FC<KaraokeTextProps> = ({
@@ -15,6 +27,7 @@ export const KaraokeText: React.FC<KaraokeTextProps> = ({
   highlightColor = '#ffff00',
   backgroundColor = 'rgba(0, 0, 0, 0.5)',
   position = 'bottom',
+  variant = 'highlight',
 }) => {
   const frame = useCurrentFrame()
   const { fps } = useVideoConfig()
@@ -45,7 +58,9 @@ export const KaraokeText: React.FC<KaraokeTextProps> = ({
     >
       <div
         style={{
-          backgroundColor,
+          // Boxed captions highlight each word instead of the whole line
+          backgroundColor:
+            variant === 'boxed' ? 'transparent' : backgroundColor,
           padding: '16px 32px',
           borderRadius: 8,
           maxWidth: '80%',
@@ -68,14 +83,15 @@ export const KaraokeText: React.FC<KaraokeTextProps> = ({
             return (
               <span
                 key={index}
-                style={{
-                  color: isActive || isPast ? highlightColor : color,
-                  fontWeight: isActive ? 'bold' : 'normal',
-                  transition: 'color 0.1s ease',
-                  textShadow: isActive
-                    ? `0 0 10px ${highlightColor}, 0 0 20px ${highlightColor}`
-                    : 'none',
-                }}
+                style={getWordStyle(variant, {
+                  isActive,
+                  isPast,
+                  // Frames since the word started, for pop/bounce springs
+                  wordFrame: frame - Math.round(wordData.start * fps),
+                  fps,
+                  color,
+                  highlightColor,
+                })}
               >
                 {wordData.word}
                 {index < wordTimestamps.length - 1 ? ' ' : ''}
@@ -88,4 +104,74 @@ export const KaraokeText: React.FC<KaraokeTextProps> = ({
   )
 }
 
+// =============================================================================
+// Word Styles
+// =============================================================================
+
+interface WordState {
+  isActive: boolean
+  isPast: boolean
+  wordFrame: number
+  fps: number
+  color: string
+  highlightColor: string
+}
+
+function getWordStyle(
+  variant: NonNullable<KaraokeTextProps['variant']>,
+  { isActive, isPast, wordFrame, fps, color, highlightColor }: WordState,
+): React.CSSProperties {
+  switch (variant) {
+    case 'pop': {
+      if (wordFrame < 0) return { opacity: 0 }
+      const scale = spring({
+        frame: wordFrame,
+        fps,
+        config: { damping: 12, stiffness: 200 },
+      })
+      return {
+        display: 'inline-block',
+        color: isActive ? highlightColor : color,
+        fontWeight: 'bold',
+        transform: `scale(${interpolate(scale, [0, 1], [0.5, 1])})`,
+        whiteSpace: 'pre',
+      }
+    }
+
+    case 'bounce': {
+      const lift = isActive
+        ? Math.sin(Math.min(wordFrame / (fps * 0.25), 1) * Math.PI) * 12
+        : 0
+      return {
+        display: 'inline-block',
+        color: isActive ? highlightColor : color,
+        fontWeight: isActive ? 'bold' : 'normal',
+        transform: `translateY(${-lift}px)`,
+        whiteSpace: 'pre',
+      }
+    }
+
+    case 'boxed':
+      return {
+        color,
+        fontWeight: 'bold',
+        backgroundColor: isActive ? highlightColor : 'transparent',
+        borderRadius: 6,
+        padding: '0 6px',
+        boxDecorationBreak: 'clone',
+      }
+
+    case 'highlight':
+    default:
+      return {
+        color: isActive || isPast ? highlightColor : color,
+        fontWeight: isActive ? 'bold' : 'normal',
+        transition: 'color 0.1s ease',
+        textShadow: isActive
+          ? `0 0 10px ${highlightColor}, 0 0 20px ${highlightColor}`
+          : 'none',
+      }
+  }
+}
+
 export default KaraokeText
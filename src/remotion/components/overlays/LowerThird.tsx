@@ -18,6 +18,7 @@ export const LowerThird: React.FC<LowerThirdProps> = ({
   subtitle,
   backgroundColor = 'rgba(0, 0, 0, 0.8)',
   textColor = '#ffffff',
+  fontFamily = 'Arial, sans-serif',
   position = 'left',
 }) => {
   const frame = useCurrentFrame()
@@ -79,7 +80,7 @@ export const LowerThird: React.FC<LowerThirdProps> = ({
               fontSize: 28,
               fontWeight: 'bold',
               margin: 0,
-              fontFamily: 'Arial, sans-serif',
+              fontFamily,
             }}
           >
             {title}
@@ -103,7 +104,7 @@ export const LowerThird: React.FC<LowerThirdProps> = ({
                 color: textColor,
                 fontSize: 18,
                 margin: 0,
-                fontFamily: 'Arial, sans-serif',
+                fontFamily,
               }}
             >
               {subtitle}
@@ -0,0 +1,47 @@
+/**
+ * Progress Bar Component
+ *
+ * A bar that fills across the overlay's duration. Stretch the overlay over
+ * the whole timeline to show the video's progress.
+ */
+
+import { AbsoluteFill, useCurrentFrame, useVideoConfig } from 'remotion'
+import type { ProgressBarProps } from '../../types'
+
+export const ProgressBar: React.FC<ProgressBarProps> = ({
+  color = '#ffffff',
+  trackColor = 'rgba(255, 255, 255, 0.25)',
+  height = 8,
+  position = 'bottom',
+}) => {
+  const frame = useCurrentFrame()
+  // Inside a Sequence this is the overlay's duration
+  const { durationInFrames } = useVideoConfig()
+
+  const progress = Math.min(1, (frame + 1) / durationInFrames)
+
+  return (
+    <AbsoluteFill>
+      <div
+        style={{
+          position: 'absolute',
+          left: 0,
+          right: 0,
+          [position]: 0,
+          height,
+          backgroundColor: trackColor,
+        }}
+      >
+        <div
+          style={{
+            width: `${progress * 100}%`,
+            height: '100%',
+            backgroundColor: color,
+          }}
+        />
+      </div>
+    </AbsoluteFill>
+  )
+}
+
+export default ProgressBar
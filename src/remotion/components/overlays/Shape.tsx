@@ -0,0 +1,77 @@
+/**
+ * Shape Component
+ *
+ * Basic rectangle, circle and arrow shapes for highlighting parts of the
+ * frame. Sizes and positions are percentages of the composition.
+ */
+
+import { AbsoluteFill, interpolate, useCurrentFrame } from 'remotion'
+import type { ShapeProps } from '../../types'
+
+export const Shape: React.FC<ShapeProps> = ({
+  shape,
+  color = '#facc15',
+  strokeColor,
+  strokeWidth = 0,
+  width = 30,
+  height = 15,
+  x = 50,
+  y = 50,
+  rotation = 0,
+  opacity = 1,
+  cornerRadius = 12,
+}) => {
+  const frame = useCurrentFrame()
+
+  // Fade in animation
+  const fadeIn = interpolate(frame, [0, 10], [0, opacity], {
+    extrapolateRight: 'clamp',
+  })
+
+  return (
+    <AbsoluteFill>
+      <div
+        style={{
+          position: 'absolute',
+          left: `${x}%`,
+          top: `${y}%`,
+          width: `${width}%`,
+          height: `${height}%`,
+          transform: `translate(-50%, -50%) rotate(${rotation}deg)`,
+          opacity: fadeIn,
+        }}
+      >
+        {shape === 'arrow' ? (
+          <svg
+            viewBox="0 0 100 50"
+            preserveAspectRatio="none"
+            style={{ width: '100%', height: '100%', overflow: 'visible' }}
+          >
+            <polygon
+              points="0,18 65,18 65,0 100,25 65,50 65,32 0,32"
+              fill={color}
+              stroke={strokeColor}
+              strokeWidth={strokeWidth}
+              vectorEffect="non-scaling-stroke"
+            />
+          </svg>
+        ) : (
+          <div
+            style={{
+              width: '100%',
+              height: '100%',
+              backgroundColor: color,
+              border: strokeWidth
+                ? `${strokeWidth}px solid ${strokeColor ?? color}`
+                : undefined,
+              borderRadius: shape === 'circle' ? '50%' : cornerRadius,
+              boxSizing: 'border-box',
+            }}
+          />
+        )}
+      </div>
+    </AbsoluteFill>
+  )
+}
+
+export default Shape
@@ -0,0 +1,74 @@
+/**
+ * Sticker Component
+ *
+ * An emoji or image sticker placed anywhere on screen, with a looping
+ * idle animation.
+ */
+
+import {
+  AbsoluteFill,
+  Img,
+  interpolate,
+  spring,
+  useCurrentFrame,
+  useVideoConfig,
+} from 'remotion'
+import type { StickerProps } from '../../types'
+
+export const Sticker: React.FC<StickerProps> = ({
+  emoji = '🔥',
+  src,
+  size = 160,
+  x = 50,
+  y = 50,
+  rotation = 0,
+  animation = 'pop',
+}) => {
+  const frame = useCurrentFrame()
+  const { fps } = useVideoConfig()
+
+  const getAnimationTransform = (): string => {
+    switch (animation) {
+      case 'pop': {
+        const progress = spring({
+          frame,
+          fps,
+          config: { damping: 8, stiffness: 150 },
+        })
+        return `scale(${interpolate(progress, [0, 1], [0, 1])})`
+      }
+      case 'wiggle':
+        return `rotate(${Math.sin(frame / 4) * 10}deg)`
+      case 'float':
+        return `translateY(${Math.sin(frame / 10) * 12}px)`
+      case 'none':
+      default:
+        return ''
+    }
+  }
+
+  return (
+    <AbsoluteFill>
+      <div
+        style={{
+          position: 'absolute',
+          left: `${x}%`,
+          top: `${y}%`,
+          transform: `translate(-50%, -50%) rotate(${rotation}deg) ${getAnimationTransform()}`,
+          lineHeight: 1,
+        }}
+      >
+        {src ? (
+          <Img
+            src={src}
+            style={{ width: size, height: size, objectFit: 'contain' }}
+          />
+        ) : (
+          <span style={{ fontSize: size }}>{emoji}</span>
+        )}
+      </div>
+    </AbsoluteFill>
+  )
+}
+
+export default Sticker
@@ -2,3 +2,8 @@ export { KaraokeText } from './KaraokeText'
 export { BigTitle } from './BigTitle'
 export { ImageOverlay } from './ImageOverlay'
 export { LowerThird } from './LowerThird'
+export { ProgressBar } from './ProgressBar'
+export { Countdown } from './Countdown'
+export { CallToAction } from './CallToAction'
+export { Sticker } from './Sticker'
+export { Shape } from './Shape'
@@ -0,0 +1,11 @@
+/**
+ * Remotion Entry Point
+ *
+ * Registers the root for headless bundling (server-side renders).
+ * The player in the studio imports the composition directly instead.
+ */
+
+import { registerRoot } from 'remotion'
+import { RemotionRoot } from './Root'
+
+registerRoot(RemotionRoot)
@@ -0,0 +1,115 @@
+/**
+ * Custom Fonts
+ *
+ * Uploaded font files (TTF/OTF/WOFF2) are registered with the document
+ * before any frame renders, so the preview player and the final export
+ * draw text with the same font.
+ */
+
+import { useEffect, useState } from 'react'
+import { continueRender, delayRender } from 'remotion'
+import type { BrandFont } from './brand'
+
+// =============================================================================
+// Formats
+// =============================================================================
+
+/**
+ * Supported font files by content type
+ */
+export const FONT_FORMATS = {
+  'font/ttf': { extension: 'ttf', label: 'TrueType' },
+  'font/otf': { extension: 'otf', label: 'OpenType' },
+  'font/woff2': { extension: 'woff2', label: 'WOFF2' },
+} as const
+
+export type FontContentType = keyof typeof FONT_FORMATS
+
+/**
+ * Font content type from a file name (browsers often leave File.type empty)
+ */
+export function getFontContentType(filename: string): FontContentType | null {
+  const extension = filename.split('.').pop()?.toLowerCase()
+  const entry = Object.entries(FONT_FORMATS).find(
+    ([, format]) => format.extension === extension,
+  )
+  return entry ? (entry[0] as FontContentType) : null
+}
+
+/**
+ * Font family name from a file name, e.g. "Inter-Bold.woff2" -> "Inter Bold"
+ */
+export function getFontFamilyFromFilename(filename: string): string {
+  return (
+    filename
+      .replace(/\.[^/.]+$/, '')
+      .replace(/[-_]+/g, ' ')
+      .trim() || 'Custom Font'
+  )
+}
+
+// Fonts available without an upload
+export const SYSTEM_FONTS = [
+  'Arial, sans-serif',
+  'Arial Black, sans-serif',
+  'Helvetica, sans-serif',
+  'Georgia, serif',
+  'Times New Roman, serif',
+  'Courier New, monospace',
+]
+
+/**
+ * CSS font-family of an uploaded font
+ */
+export function toFontFamily(font: BrandFont): string {
+  return `"${font.family}", sans-serif`
+}
+
+// =============================================================================
+// Loading
+// =============================================================================
+
+// Font URLs already registered in this document
+const loadedFonts = new Set<string>()
+
+/**
+ * Register fonts with the document. Fonts that fail to load are skipped
+ * so a broken upload falls back to the default font instead of failing.
+ */
+export async function loadFonts(fonts: Array<BrandFont>): Promise<void> {
+  await Promise.all(
+    fonts
+      .filter((font) => !loadedFonts.has(font.url))
+      .map(async (font) => {
+        try {
+          // Quoted, so the URL can't end the url() and add CSS of its own
+          const face = new FontFace(
+            font.family,
+            `url("${font.url.replace(/["\\]/g, '\\$&')}")`,
+          )
+          await face.load()
+          document.fonts.add(face)
+          loadedFonts.add(font.url)
+        } catch (error) {
+          console.warn(`Failed to load font "${font.family}":`, error)
+        }
+      }),
+  )
+}
+
+/**
+ * Load fonts in a composition, holding the render until they are ready
+ */
+export function useFonts(fonts: Array<BrandFont> | undefined) {
+  const [handle] = useState(() =>
+    fonts?.length ? delayRender('Loading fonts') : null,
+  )
+
+  useEffect(() => {
+    if (!fonts?.length) return
+
+    loadFonts(fonts).finally(() => {
+      if (handle !== null) continueRender(handle)
+    })
+  }, [handle, fonts])
+}
@@ -23,6 +23,11 @@ export type {
   BigTitleProps,
   ImageOverlayProps,
   LowerThirdProps,
+  ProgressBarProps,
+  CountdownProps,
+  CallToActionProps,
+  StickerProps,
+  ShapeProps,
   PlayerState,
   TimelineTrack,
   TimelineClip,
@@ -37,3 +42,8 @@ export { KaraokeText } from './components/overlays/KaraokeText'
 export { BigTitle } from './components/overlays/BigTitle'
 export { ImageOverlay } from './components/overlays/ImageOverlay'
 export { LowerThird } from './components/overlays/LowerThird'
+export { ProgressBar } from './components/overlays/ProgressBar'
+export { Countdown } from './components/overlays/Countdown'
+export { CallToAction } from './components/overlays/CallToAction'
+export { Sticker } from './components/overlays/Sticker'
+export { Shape } from './components/overlays/Shape'
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest'
+import {
+  getKeyframedStyle,
+  interpolateKeyframes,
+  splitKeyframes,
+} from './keyframes'
+
+// =============================================================================
+// interpolateKeyframes
+// =============================================================================
+
+describe('interpolateKeyframes', () => {
+  it('falls back when there are no keyframes', () => {
+    expect(interpolateKeyframes(undefined, 10, 1)).toBe(1)
+    expect(interpolateKeyframes([], 10, 1)).toBe(1)
+  })
+
+  it('holds the first and last value outside the keyframed range', () => {
+    const keyframes = [
+      { frame: 10, value: 0 },
+      { frame: 20, value: 1 },
+    ]
+
+    expect(interpolateKeyframes(keyframes, 0, 5)).toBe(0)
+    expect(interpolateKeyframes(keyframes, 30, 5)).toBe(1)
+  })
+
+  it('interpolates linearly between unsorted keyframes', () => {
+    const keyframes = [
+      { frame: 20, value: 100 },
+      { frame: 0, value: 0 },
+    ]
+
+    expect(interpolateKeyframes(keyframes, 5, 0)).toBe(25)
+  })
+
+  it("eases with the segment's starting keyframe", () => {
+    const easeIn = [
+      { frame: 0, value: 0, easing: 'ease-in' as const },
+      { frame: 10, value: 1 },
+    ]
+    const easeOut = [
+      { frame: 0, value: 0, easing: 'ease-out' as const },
+      { frame: 10, value: 1 },
+    ]
+
+    expect(interpolateKeyframes(easeIn, 5, 0)).toBeLessThan(0.5)
+    expect(interpolateKeyframes(easeOut, 5, 0)).toBeGreaterThan(0.5)
+  })
+})
+
+// =============================================================================
+// splitKeyframes
+// =============================================================================
+
+describe('splitKeyframes', () => {
+  it('keeps the easing of a segment cut in two', () => {
+    const [first, second] = splitKeyframes(
+      [
+        { frame: 0, value: 0, easing: 'ease-in-out' },
+        { frame: 100, value: 1 },
+      ],
+      50,
+    )
+
+    expect(first).toEqual([
+      { frame: 0, value: 0, easing: 'ease-in-out' },
+      { frame: 50, value: 0.5 },
+    ])
+    expect(second).toEqual([
+      { frame: 0, value: 0.5, easing: 'ease-in-out' },
+      { frame: 50, value: 1 },
+    ])
+  })
+})
+
+// =============================================================================
+// getKeyframedStyle
+// =============================================================================
+
+describe('getKeyframedStyle', () => {
+  it('uses defaults for properties without keyframes', () => {
+    const style = getKeyframedStyle(
+      {
+        scale: [
+          { frame: 0, value: 1 },
+          { frame: 10, value: 2 },
+        ],
+      },
+      5,
+    )
+
+    expect(style).toEqual({
+      transform: 'translate(0%, 0%) scale(1.5) rotate(0deg)',
+      opacity: 1,
+    })
+  })
+
+  it('returns no style when nothing is keyframed', () => {
+    expect(getKeyframedStyle(undefined, 0)).toEqual({})
+  })
+})
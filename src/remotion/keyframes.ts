@@ -0,0 +1,123 @@
+/**
+ * Keyframe Animation
+ *
+ * Evaluates keyframed properties from the manifest at a given frame.
+ * Used by the composition to animate clip/overlay transforms and
+ * effect values (Ken Burns moves, fades, animated filters).
+ */
+
+import { Easing, interpolate } from 'remotion'
+import type { Keyframe, KeyframeEasing, TransformKeyframes } from './manifest'
+
+const EASINGS: Record<KeyframeEasing, (t: number) => number> = {
+  linear: Easing.linear,
+  'ease-in': Easing.in(Easing.cubic),
+  'ease-out': Easing.out(Easing.cubic),
+  'ease-in-out': Easing.inOut(Easing.cubic),
+}
+
+// Values used for transform properties without keyframes
+const TRANSFORM_DEFAULTS: Required<{
+  [K in keyof TransformKeyframes]: number
+}> = {
+  x: 0,
+  y: 0,
+  scale: 1,
+  rotation: 0,
+  opacity: 1,
+}
+
+/**
+ * Value of a keyframe track at a frame (relative to the clip start).
+ * Holds the first/last value outside the keyframed range and falls back
+ * to `fallback` when the track is empty.
+ */
+export function interpolateKeyframes(
+  keyframes: Array<Keyframe> | undefined,
+  frame: number,
+  fallback: number,
+): number {
+  if (!keyframes || keyframes.length === 0) return fallback
+
+  const sorted = [...keyframes].sort((a, b) => a.frame - b.frame)
+  const first = sorted[0]
+  const last = sorted[sorted.length - 1]
+
+  if (frame <= first.frame) return first.value
+  if (frame >= last.frame) return last.value
+
+  const index = sorted.findIndex((k) => k.frame > frame)
+  const from = sorted[index - 1]
+  const to = sorted[index]
+
+  return interpolate(frame, [from.frame, to.frame], [from.value, to.value], {
+    easing: EASINGS[from.easing ?? 'linear'],
+  })
+}
+
+/**
+ * Cut a keyframe track in two at a frame, for the halves of a split clip.
+ * Both halves get a keyframe at the cut holding the value there, and the
+ * second half's frames are re-based to start at 0. A segment cut in two
+ * keeps its easing on both sides.
+ */
+export function splitKeyframes(
+  keyframes: Array<Keyframe>,
+  frame: number,
+): [Array<Keyframe>, Array<Keyframe>] {
+  if (keyframes.length === 0) return [[], []]
+
+  const sorted = [...keyframes].sort((a, b) => a.frame - b.frame)
+  const value = interpolateKeyframes(sorted, frame, 0)
+  const easing = sorted.filter((k) => k.frame <= frame).pop()?.easing
+
+  return [
+    [...sorted.filter((k) => k.frame < frame), { frame, value }],
+    [
+      { frame: 0, value, ...(easing && { easing }) },
+      ...sorted
+        .filter((k) => k.frame > frame)
+        .map((k) => ({ ...k, frame: k.frame - frame })),
+    ],
+  ]
+}
+
+/**
+ * Value of a transform property at a frame (relative to the clip start),
+ * or its default when the property isn't keyframed
+ */
+export function getTransformValue(
+  keyframes: TransformKeyframes | undefined,
+  property: keyof TransformKeyframes,
+  frame: number,
+): number {
+  return interpolateKeyframes(
+    keyframes?.[property],
+    frame,
+    TRANSFORM_DEFAULTS[property],
+  )
+}
+
+/**
+ * CSS for an animated transform at a frame, or an empty object
+ * when nothing is keyframed
+ */
+export function getKeyframedStyle(
+  keyframes: TransformKeyframes | undefined,
+  frame: number,
+): React.CSSProperties {
+  if (!keyframes) return {}
+
+  const value = (property: keyof TransformKeyframes) =>
+    getTransformValue(keyframes, property, frame)
+
+  const x = value('x')
+  const y = value('y')
+  const scale = value('scale')
+  const rotation = value('rotation')
+
+  return {
+    transform: `translate(${x}%, ${y}%) scale(${scale}) rotate(${rotation}deg)`,
+    opacity: value('opacity'),
+  }
+}
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest'
+import {
+  CURRENT_MANIFEST_VERSION,
+  createEmptyManifest,
+  getManifestDuration,
+  migrateManifest,
+  parseManifest,
+} from './manifest'
+import { videoClip, withTracks } from './test-fixtures'
+
+// =============================================================================
+// migrateManifest
+// =============================================================================
+
+describe('migrateManifest', () => {
+  it('upgrades the empty column default to an empty manifest', () => {
+    expect(migrateManifest({})).toEqual(createEmptyManifest())
+  })
+
+  it('fills in the fields v1 manifests were saved without', () => {
+    const migrated = migrateManifest({
+      version: 1,
+      tracks: {
+        video: [{ id: 'v1', url: 'a.mp4' }],
+        audio: [{ id: 'a1', url: 'b.mp3' }],
+        components: [{ id: 'c1', component: 'BigTitle' }],
+      },
+      globalSettings: { backgroundColor: '#111111' },
+    })
+
+    expect(migrated).toMatchObject({
+      version: CURRENT_MANIFEST_VERSION,
+      tracks: {
+        video: [{ id: 'v1', layer: 0 }],
+        audio: [{ id: 'a1', volume: 1 }],
+        components: [{ id: 'c1', layer: 1, props: {} }],
+      },
+    })
+  })
+
+  it('keeps values that are already set', () => {
+    const migrated = migrateManifest({
+      version: 1,
+      tracks: { video: [{ id: 'v1', layer: 3 }], audio: [], components: [] },
+    }) as { tracks: { video: Array<{ layer: number }> } }
+
+    expect(migrated.tracks.video[0].layer).toBe(3)
+  })
+
+  it('leaves malformed input for validation to report', () => {
+    expect(migrateManifest(null)).toBeNull()
+    expect(migrateManifest([1, 2])).toEqual([1, 2])
+    expect(
+      migrateManifest({ version: 1, tracks: { video: 'oops' } }),
+    ).toMatchObject({ tracks: { video: 'oops' } })
+  })
+
+  it('stops at versions it has no migration for', () => {
+    expect(migrateManifest({ version: 99 })).toEqual({ version: 99 })
+  })
+})
+
+// =============================================================================
+// parseManifest
+// =============================================================================
+
+describe('parseManifest', () => {
+  it('migrates and validates a JSON string', () => {
+    expect(parseManifest('{}')).toEqual(createEmptyManifest())
+  })
+
+  it('rejects invalid JSON', () => {
+    expect(() => parseManifest('{')).toThrow('Invalid manifest JSON')
+  })
+
+  it('names the first invalid field', () => {
+    const manifest = withTracks({ video: [videoClip({ url: '' })] })
+
+    expect(() => parseManifest(manifest)).toThrow(
+      'Invalid manifest: tracks.video[0].url: URL is required',
+    )
+  })
+
+  it('rejects manifests from a newer version', () => {
+    expect(() =>
+      parseManifest({ ...createEmptyManifest(), version: 3 }),
+    ).toThrow(/^Invalid manifest: version/)
+  })
+})
+
+// =============================================================================
+// getManifestDuration
+// =============================================================================
+
+describe('getManifestDuration', () => {
+  it('ends with the last clip on any track', () => {
+    const manifest = parseManifest({
+      version: 1,
+      tracks: {
+        video: [
+          {
+            id: 'v1',
+            assetId: 'a',
+            url: 'a.mp4',
+            startFrame: 0,
+            durationFrames: 90,
+          },
+        ],
+        audio: [
+          {
+            id: 'a1',
+            assetId: 'b',
+            url: 'b.mp3',
+            startFrame: 30,
+            durationFrames: 120,
+          },
+        ],
+        components: [],
+      },
+      globalSettings: { backgroundColor: '#000000' },
+    })
+
+    expect(getManifestDuration(manifest)).toBe(150)
+    expect(getManifestDuration(createEmptyManifest())).toBe(0)
+  })
+})
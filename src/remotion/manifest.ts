@@ -0,0 +1,427 @@
+/**
+ * Project Manifest Schema
+ *
+ * The single source of truth for the ProjectManifest (the DNA of a video).
+ * Used by the composition, the studio UI and the server, so every manifest
+ * that gets saved or rendered has been validated against the same rules.
+ *
+ * Stored manifests carry a `version`. Older versions are migrated forward
+ * on load by parseManifest() before validation.
+ */
+
+import { z } from 'zod'
+
+export const CURRENT_MANIFEST_VERSION = 2
+
+// =============================================================================
+// Schemas
+// =============================================================================
+
+const frameSchema = z
+  .number()
+  .int('must be a whole number of frames')
+  .min(0, 'must not be negative')
+
+const durationSchema = z
+  .number()
+  .int('must be a whole number of frames')
+  .min(1, 'must be at least 1 frame')
+
+const urlSchema = z.string().min(1, 'URL is required')
+
+export const transitionTypeSchema = z.enum([
+  'cut',
+  'fade',
+  'slide-left',
+  'slide-right',
+  'glitch',
+  'zoom',
+])
+
+// How media fills the frame when its aspect ratio differs.
+// blur-fill letterboxes with a blurred, zoomed copy behind the media.
+export const fitModeSchema = z.enum(['cover', 'contain', 'blur-fill'])
+
+// Point of the media kept in frame when cover-fit crops it, as fractions
+// of its width/height (0.5/0.5 = centre)
+export const focusPointSchema = z.object({
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+})
+
+// Pan/zoom presets for still images (Ken Burns)
+export const motionPresetSchema = z.enum([
+  'none',
+  'zoom-in',
+  'zoom-out',
+  'pan-left',
+  'pan-right',
+  'pan-up',
+  'pan-down',
+])
+
+// Project-wide look of KaraokeText captions (see CAPTION_STYLE_PRESETS)
+export const captionStyleSchema = z.enum([
+  'classic',
+  'word-pop',
+  'bounce',
+  'boxed',
+  'minimal',
+])
+
+export const componentTypeSchema = z.enum([
+  'KaraokeText',
+  'BigTitle',
+  'ImageOverlay',
+  'LowerThird',
+  'ProgressBar',
+  'Countdown',
+  'CallToAction',
+  'Sticker',
+  'Shape',
+])
+
+export const wordTimestampSchema = z.object({
+  word: z.string(),
+  start: z.number().min(0, 'must not be negative'), // seconds
+  end: z.number().min(0, 'must not be negative'), // seconds
+})
+
+export const easingSchema = z.enum([
+  'linear',
+  'ease-in',
+  'ease-out',
+  'ease-in-out',
+])
+
+export const keyframeSchema = z.object({
+  frame: frameSchema, // relative to the clip's startFrame
+  value: z.number(),
+  // Easing for the segment from this keyframe to the next
+  easing: easingSchema.optional(),
+})
+
+const keyframeTrackSchema = z.array(keyframeSchema)
+
+// Animated transform of a clip or overlay. x/y are offsets in percent of
+// the frame, scale is a multiplier, rotation is in degrees.
+export const transformKeyframesSchema = z
+  .object({
+    x: keyframeTrackSchema,
+    y: keyframeTrackSchema,
+    scale: keyframeTrackSchema,
+    rotation: keyframeTrackSchema,
+    opacity: keyframeTrackSchema,
+  })
+  .partial()
+
+// Subject position over time from focus detection, as fractions of the
+// media. Frames are relative to the start of the source media (not the
+// clip), so the track stays aligned when the clip is trimmed or split.
+export const focusTrackSchema = z.object({
+  x: keyframeTrackSchema,
+  y: keyframeTrackSchema,
+})
+
+export const clipEffectSchema = z.object({
+  type: z.enum(['brightness', 'contrast', 'saturation', 'blur', 'grayscale']),
+  value: z.number(),
+  // Animates the value; `value` is used when there are no keyframes
+  keyframes: keyframeTrackSchema.optional(),
+})
+
+export const videoClipSchema = z.object({
+  id: z.string().min(1, 'clip ID is required'),
+  assetId: z.string(),
+  url: urlSchema,
+  startFrame: frameSchema,
+  durationFrames: durationSchema,
+  // In-point: frames skipped at the start of the source media
+  trimStart: frameSchema.optional(),
+  // Still images are held on screen for durationFrames
+  mediaType: z.enum(['video', 'image']).optional(),
+  fit: fitModeSchema.optional(),
+  focus: focusPointSchema.optional(),
+  // Animated focus for smart crop; takes precedence over focus
+  focusTrack: focusTrackSchema.optional(),
+  motion: motionPresetSchema.optional(),
+  layer: z.number().int(),
+  // Transition into the next adjacent clip on the same layer. The two clips
+  // overlap by transitionDuration frames (DEFAULT_TRANSITION_FRAMES if unset)
+  transition: transitionTypeSchema.optional(),
+  transitionDuration: durationSchema.optional(),
+  effects: z.array(clipEffectSchema).optional(),
+  keyframes: transformKeyframesSchema.optional(),
+})
+
+// What an audio clip is, for mixing. Music ducks under voiceover.
+export const audioRoleSchema = z.enum(['voiceover', 'music', 'sfx'])
+
+export const audioClipSchema = z.object({
+  id: z.string().min(1, 'clip ID is required'),
+  assetId: z.string(),
+  url: urlSchema,
+  startFrame: frameSchema,
+  durationFrames: durationSchema,
+  // In-point: frames skipped at the start of the source media
+  trimStart: frameSchema.optional(),
+  volume: z.number().min(0, 'must not be negative'),
+  // Defaults to voiceover for clips with word timestamps, otherwise music
+  role: audioRoleSchema.optional(),
+  fadeInFrames: frameSchema.optional(),
+  fadeOutFrames: frameSchema.optional(),
+  // Word timestamps for karaoke sync
+  wordTimestamps: z.array(wordTimestampSchema).optional(),
+})
+
+export const componentOverlaySchema = z.object({
+  id: z.string().min(1, 'overlay ID is required'),
+  component: componentTypeSchema,
+  props: z.record(z.string(), z.any()),
+  startFrame: frameSchema,
+  durationFrames: durationSchema,
+  layer: z.number().int(),
+  keyframes: transformKeyframesSchema.optional(),
+})
+
+// Mixer state of one audio track ("video" is the sound of video clips)
+export const trackMixSchema = z.object({
+  muted: z.boolean().optional(),
+  solo: z.boolean().optional(),
+})
+
+export const audioTrackKeySchema = z.enum([
+  'video',
+  'voiceover',
+  'music',
+  'sfx',
+])
+
+export const audioMixSchema = z.object({
+  tracks: z
+    .object({
+      video: trackMixSchema,
+      voiceover: trackMixSchema,
+      music: trackMixSchema,
+      sfx: trackMixSchema,
+    })
+    .partial()
+    .optional(),
+  // Lower music while a voiceover is playing
+  ducking: z
+    .object({
+      enabled: z.boolean(),
+      level: z.number().min(0).max(1), // music volume multiplier while ducked
+      fadeFrames: frameSchema, // ramp in/out around each voiceover
+    })
+    .optional(),
+  // Integrated loudness renders are normalised to, in LUFS (e.g. -14)
+  loudnessTarget: z.number().min(-70).max(-5).optional(),
+})
+
+export const projectManifestSchema = z.object({
+  version: z.literal(CURRENT_MANIFEST_VERSION),
+  tracks: z.object({
+    video: z.array(videoClipSchema),
+    audio: z.array(audioClipSchema),
+    components: z.array(componentOverlaySchema),
+  }),
+  globalSettings: z.object({
+    backgroundColor: z.string(),
+    captionStyle: captionStyleSchema.optional(),
+  }),
+  audioMix: audioMixSchema.optional(),
+})
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type ProjectManifest = z.infer<typeof projectManifestSchema>
+export type VideoClip = z.infer<typeof videoClipSchema>
+export type AudioClip = z.infer<typeof audioClipSchema>
+export type ComponentOverlay = z.infer<typeof componentOverlaySchema>
+export type WordTimestamp = z.infer<typeof wordTimestampSchema>
+export type ClipEffect = z.infer<typeof clipEffectSchema>
+export type Keyframe = z.infer<typeof keyframeSchema>
+export type KeyframeEasing = z.infer<typeof easingSchema>
+export type TransformKeyframes = z.infer<typeof transformKeyframesSchema>
+export type AnimatableProperty = keyof TransformKeyframes
+export type TransitionType = z.infer<typeof transitionTypeSchema>
+export type ComponentType = z.infer<typeof componentTypeSchema>
+export type AudioRole = z.infer<typeof audioRoleSchema>
+export type AudioTrackKey = z.infer<typeof audioTrackKeySchema>
+export type TrackMix = z.infer<typeof trackMixSchema>
+export type AudioMix = z.infer<typeof audioMixSchema>
+export type CaptionStyle = z.infer<typeof captionStyleSchema>
+export type FitMode = z.infer<typeof fitModeSchema>
+export type FocusPoint = z.infer<typeof focusPointSchema>
+export type FocusTrack = z.infer<typeof focusTrackSchema>
+export type MotionPreset = z.infer<typeof motionPresetSchema>
+
+// =============================================================================
+// Migrations
+// =============================================================================
+
+type RawManifest = Record<string, unknown>
+
+/**
+ * Migrations keyed by the version they upgrade FROM.
+ * Each one returns a manifest of the next version. Stored manifests may
+ * be malformed, so migrations only fill in what is missing and leave
+ * anything unexpected for validation to report.
+ */
+const MIGRATIONS: Record<number, (manifest: RawManifest) => RawManifest> = {
+  // v0: unversioned manifests (e.g. the "{}" column default)
+  0: (manifest) => {
+    const tracks = asRecord(manifest.tracks)
+    return {
+      ...manifest,
+      version: 1,
+      tracks: {
+        video: tracks.video ?? [],
+        audio: tracks.audio ?? [],
+        components: tracks.components ?? [],
+      },
+      globalSettings: {
+        backgroundColor: '#000000',
+        ...asRecord(manifest.globalSettings),
+      },
+    }
+  },
+
+  // v1 -> v2: v1 manifests were saved without validation;
+  // fill in the fields the schema now requires
+  1: (manifest) => {
+    const tracks = asRecord(manifest.tracks)
+    return {
+      ...manifest,
+      version: 2,
+      tracks: {
+        ...tracks,
+        video: withDefaults(tracks.video, { layer: 0 }),
+        audio: withDefaults(tracks.audio, { volume: 1 }),
+        components: withDefaults(tracks.components, { layer: 1, props: {} }),
+      },
+    }
+  },
+}
+
+/**
+ * Upgrade a stored manifest to CURRENT_MANIFEST_VERSION
+ */
+export function migrateManifest(raw: unknown): unknown {
+  if (!isRecord(raw)) {
+    return raw
+  }
+
+  let manifest = raw
+  let version = getVersion(manifest)
+
+  while (version < CURRENT_MANIFEST_VERSION) {
+    const migrate = MIGRATIONS[version] as
+      | ((manifest: RawManifest) => RawManifest)
+      | undefined
+    if (!migrate) break
+    manifest = migrate(manifest)
+    version = getVersion(manifest)
+  }
+
+  return manifest
+}
+
+function getVersion(manifest: RawManifest): number {
+  return typeof manifest.version === 'number' ? manifest.version : 0
+}
+
+function isRecord(value: unknown): value is RawManifest {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function asRecord(value: unknown): RawManifest {
+  return isRecord(value) ? value : {}
+}
+
+// Apply defaults to each clip of a track; non-arrays are left as they are
+function withDefaults(clips: unknown, defaults: RawManifest): unknown {
+  if (!Array.isArray(clips)) return clips
+  return clips.map((clip: unknown) =>
+    isRecord(clip) ? { ...defaults, ...clip } : clip,
+  )
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Migrate and validate a manifest (object or JSON string).
+ * Throws an Error naming the first invalid field, e.g.
+ * "Invalid manifest: tracks.video[2].url: URL is required"
+ */
+export function parseManifest(input: unknown): ProjectManifest {
+  let raw = input
+  if (typeof input === 'string') {
+    try {
+      raw = JSON.parse(input)
+    } catch {
+      throw new Error('Invalid manifest JSON')
+    }
+  }
+
+  const result = projectManifestSchema.safeParse(migrateManifest(raw))
+  if (!result.success) {
+    throw new Error(`Invalid manifest: ${formatManifestIssue(result.error)}`)
+  }
+
+  return result.data
+}
+
+/**
+ * The first issue of a failed parse, e.g. "tracks.video[2].url: URL is required"
+ */
+export function formatManifestIssue(error: z.ZodError): string {
+  const issue = error.issues[0]
+  const path = issue.path.reduce<string>(
+    (acc, key) =>
+      typeof key === 'number'
+        ? `${acc}[${key}]`
+        : `${acc}${acc ? '.' : ''}${String(key)}`,
+    '',
+  )
+
+  return path ? `${path}: ${issue.message}` : issue.message
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+export function createEmptyManifest(): ProjectManifest {
+  return {
+    version: CURRENT_MANIFEST_VERSION,
+    tracks: {
+      video: [],
+      audio: [],
+      components: [],
+    },
+    globalSettings: {
+      backgroundColor: '#000000',
+    },
+  }
+}
+
+/**
+ * Get the total duration of a manifest in frames (end of the last clip)
+ */
+export function getManifestDuration(manifest: ProjectManifest): number {
+  let maxFrame = 0
+  for (const clip of [
+    ...manifest.tracks.video,
+    ...manifest.tracks.audio,
+    ...manifest.tracks.components,
+  ]) {
+    maxFrame = Math.max(maxFrame, clip.startFrame + clip.durationFrames)
+  }
+  return maxFrame
+}
@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest'
+import {
+  getOverlayBox,
+  getOverlayBoxProps,
+  getSafeArea,
+  getSnapGuides,
+  snapBox,
+  snapToGuides,
+} from './overlay-geometry'
+import { overlay } from './test-fixtures'
+
+const VERTICAL = { width: 1080, height: 1920 }
+const LANDSCAPE = { width: 1920, height: 1080 }
+
+// =============================================================================
+// Boxes
+// =============================================================================
+
+describe('getOverlayBox', () => {
+  it('uses the component defaults, centred', () => {
+    expect(getOverlayBox(overlay('Sticker'), VERTICAL)).toEqual({
+      x: 540,
+      y: 960,
+      width: 160,
+      height: 160,
+      rotation: 0,
+    })
+    expect(getOverlayBox(overlay('Shape'), VERTICAL)).toMatchObject({
+      width: 324,
+      height: 288,
+    })
+  })
+
+  it('sizes images without a height by their aspect ratio', () => {
+    const box = getOverlayBox(
+      overlay('ImageOverlay', { x: 25, y: 10, width: 300, rotation: 15 }),
+      VERTICAL,
+      1.5,
+    )
+
+    expect(box).toEqual({
+      x: 270,
+      y: 192,
+      width: 300,
+      height: 200,
+      rotation: 15,
+    })
+  })
+
+  it('returns null for overlays laid out by the component', () => {
+    expect(getOverlayBox(overlay('BigTitle'), VERTICAL)).toBeNull()
+  })
+})
+
+describe('getOverlayBoxProps', () => {
+  it('maps a box back to percent props for shapes', () => {
+    const props = getOverlayBoxProps(
+      overlay('Shape'),
+      { x: 270, y: 480, width: 540, height: 192, rotation: 12.34 },
+      VERTICAL,
+    )
+
+    expect(props).toEqual({
+      x: 25,
+      y: 25,
+      rotation: 12.3,
+      width: 50,
+      height: 10,
+    })
+  })
+
+  it('round-trips sticker and image boxes', () => {
+    for (const component of ['Sticker', 'ImageOverlay'] as const) {
+      const original = overlay(component, {
+        x: 30,
+        y: 70,
+        rotation: 0,
+        ...(component === 'Sticker'
+          ? { size: 120 }
+          : { width: 240, height: 160 }),
+      })
+      const box = getOverlayBox(original, VERTICAL)!
+
+      expect(getOverlayBoxProps(original, box, VERTICAL)).toEqual(
+        original.props,
+      )
+    }
+  })
+})
+
+// =============================================================================
+// Safe Areas
+// =============================================================================
+
+describe('safe areas and guides', () => {
+  it('only has a safe area on 9:16 frames', () => {
+    expect(getSafeArea(VERTICAL)).toEqual({
+      left: 64.8,
+      top: 192,
+      right: 928.8,
+      bottom: 1536,
+    })
+    expect(getSafeArea(LANDSCAPE)).toBeNull()
+  })
+
+  it('snaps to the centre, plus the safe-area edges on 9:16', () => {
+    expect(getSnapGuides(VERTICAL)).toEqual({
+      vertical: [540, 64.8, 928.8],
+      horizontal: [960, 192, 1536],
+    })
+    expect(getSnapGuides(LANDSCAPE)).toEqual({
+      vertical: [960],
+      horizontal: [540],
+    })
+  })
+})
+
+describe('snapToGuides', () => {
+  it('picks the closest guide within the threshold', () => {
+    expect(snapToGuides([95, 204], [100, 200], 10)).toEqual({
+      offset: -4,
+      guide: 200,
+    })
+  })
+
+  it('returns null when nothing is close enough', () => {
+    expect(snapToGuides([50], [100, 200], 10)).toBeNull()
+  })
+})
+
+describe('snapBox', () => {
+  const guides = getSnapGuides(VERTICAL)
+  const box = { x: 545, y: 700, width: 100, height: 100, rotation: 0 }
+
+  it('snaps the centre to a guide', () => {
+    const snapped = snapBox(box, guides, 10)
+
+    expect(snapped.box).toMatchObject({ x: 540, y: 700 })
+    expect(snapped.vertical).toBe(540)
+    expect(snapped.horizontal).toBeNull()
+  })
+
+  it('snaps the edges of unrotated boxes', () => {
+    const snapped = snapBox({ ...box, x: 120, y: 245 }, guides, 10)
+
+    // Left edge onto the safe-area edge, top edge onto the safe-area top
+    expect(snapped.box.x).toBeCloseTo(114.8)
+    expect(snapped.box.y).toBe(242)
+    expect(snapped.vertical).toBe(64.8)
+    expect(snapped.horizontal).toBe(192)
+  })
+
+  it('only snaps the centre of rotated boxes', () => {
+    const snapped = snapBox({ ...box, x: 120, rotation: 45 }, guides, 10)
+
+    expect(snapped.box.x).toBe(120)
+    expect(snapped.vertical).toBeNull()
+  })
+})
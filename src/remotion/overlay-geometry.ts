@@ -0,0 +1,256 @@
+/**
+ * Overlay Geometry
+ *
+ * Maps positioned overlays (ImageOverlay, Sticker, Shape) to a box in
+ * composition pixels and back to props, so the studio can drag, resize
+ * and rotate them on the preview. Also defines the safe-area guides
+ * overlays snap to.
+ */
+
+import type { ComponentOverlay, ComponentType } from './manifest'
+
+// =============================================================================
+// Boxes
+// =============================================================================
+
+/**
+ * An overlay's bounds in composition pixels. x/y is the centre;
+ * rotation is in degrees around the centre.
+ */
+export interface OverlayBox {
+  x: number
+  y: number
+  width: number
+  height: number
+  rotation: number
+}
+
+export interface FrameSize {
+  width: number
+  height: number
+}
+
+// Overlays whose position and size live in their props. Resizing keeps
+// the aspect ratio of images and stickers.
+const TRANSFORMABLE_OVERLAYS: Partial<
+  Record<ComponentType, { lockAspect: boolean }>
+> = {
+  ImageOverlay: { lockAspect: true },
+  Sticker: { lockAspect: true },
+  Shape: { lockAspect: false },
+}
+
+// Smallest box a resize can produce, in composition pixels
+export const MIN_OVERLAY_SIZE = 8
+
+export function isTransformableOverlay(overlay: ComponentOverlay): boolean {
+  return overlay.component in TRANSFORMABLE_OVERLAYS
+}
+
+export function isAspectLocked(overlay: ComponentOverlay): boolean {
+  return TRANSFORMABLE_OVERLAYS[overlay.component]?.lockAspect ?? false
+}
+
+/**
+ * Box of an overlay, using the same defaults as its component.
+ * imageAspect (width / height) sizes an ImageOverlay without a height.
+ * Returns null for overlays that can't be moved on the canvas.
+ */
+export function getOverlayBox(
+  overlay: ComponentOverlay,
+  frame: FrameSize,
+  imageAspect = 1,
+): OverlayBox | null {
+  const props = overlay.props
+  const x = percentToPx(props.x, 50, frame.width)
+  const y = percentToPx(props.y, 50, frame.height)
+  const rotation = numberOr(props.rotation, 0)
+
+  switch (overlay.component) {
+    case 'ImageOverlay': {
+      const width = numberOr(props.width, 200)
+      const height = numberOr(props.height, width / imageAspect)
+      return { x, y, width, height, rotation }
+    }
+    case 'Sticker': {
+      const size = numberOr(props.size, 160)
+      return { x, y, width: size, height: size, rotation }
+    }
+    case 'Shape':
+      return {
+        x,
+        y,
+        width: percentToPx(props.width, 30, frame.width),
+        height: percentToPx(props.height, 15, frame.height),
+        rotation,
+      }
+    default:
+      return null
+  }
+}
+
+/**
+ * Props that place an overlay at the given box
+ */
+export function getOverlayBoxProps(
+  overlay: ComponentOverlay,
+  box: OverlayBox,
+  frame: FrameSize,
+): ComponentOverlay['props'] {
+  const position = {
+    x: toPercent(box.x, frame.width),
+    y: toPercent(box.y, frame.height),
+    rotation: Math.round(box.rotation * 10) / 10,
+  }
+
+  switch (overlay.component) {
+    case 'ImageOverlay':
+      return {
+        ...position,
+        width: Math.round(box.width),
+        height: Math.round(box.height),
+      }
+    case 'Sticker':
+      return { ...position, size: Math.round(box.width) }
+    case 'Shape':
+      return {
+        ...position,
+        width: toPercent(box.width, frame.width),
+        height: toPercent(box.height, frame.height),
+      }
+    default:
+      return {}
+  }
+}
+
+// =============================================================================
+// Safe Areas
+// =============================================================================
+
+/**
+ * Margins covered by app UI (captions, buttons, profile) on 9:16 feeds
+ * like TikTok, Reels and Shorts, as fractions of the frame.
+ */
+export const VERTICAL_SAFE_AREA = {
+  top: 0.1,
+  bottom: 0.2,
+  left: 0.06,
+  right: 0.14,
+}
+
+export interface SnapGuides {
+  vertical: Array<number> // x positions in composition pixels
+  horizontal: Array<number> // y positions in composition pixels
+}
+
+export function isVerticalSocialFormat(frame: FrameSize): boolean {
+  return Math.abs(frame.width / frame.height - 9 / 16) < 0.01
+}
+
+/**
+ * Safe area of a frame in composition pixels, or null when the format
+ * has none
+ */
+export function getSafeArea(
+  frame: FrameSize,
+): { left: number; top: number; right: number; bottom: number } | null {
+  if (!isVerticalSocialFormat(frame)) return null
+
+  return {
+    left: frame.width * VERTICAL_SAFE_AREA.left,
+    top: frame.height * VERTICAL_SAFE_AREA.top,
+    right: frame.width * (1 - VERTICAL_SAFE_AREA.right),
+    bottom: frame.height * (1 - VERTICAL_SAFE_AREA.bottom),
+  }
+}
+
+/**
+ * Lines overlays snap to: the frame centre, plus the safe-area edges on
+ * 9:16 formats
+ */
+export function getSnapGuides(frame: FrameSize): SnapGuides {
+  const safeArea = getSafeArea(frame)
+  const vertical = [frame.width / 2]
+  const horizontal = [frame.height / 2]
+
+  if (safeArea) {
+    vertical.push(safeArea.left, safeArea.right)
+    horizontal.push(safeArea.top, safeArea.bottom)
+  }
+
+  return { vertical, horizontal }
+}
+
+/**
+ * Closest guide within threshold of any of the values, as the offset to
+ * apply and the guide it lands on
+ */
+export function snapToGuides(
+  values: Array<number>,
+  guides: Array<number>,
+  threshold: number,
+): { offset: number; guide: number } | null {
+  let best: { offset: number; guide: number } | null = null
+
+  for (const value of values) {
+    for (const guide of guides) {
+      const offset = guide - value
+      if (
+        Math.abs(offset) <= threshold &&
+        (!best || Math.abs(offset) < Math.abs(best.offset))
+      ) {
+        best = { offset, guide }
+      }
+    }
+  }
+
+  return best
+}
+
+/**
+ * Snap a moved box so its centre, or its edges when unrotated, line up
+ * with a guide. Returns the box and the guides it snapped to.
+ */
+export function snapBox(
+  box: OverlayBox,
+  guides: SnapGuides,
+  threshold: number,
+): { box: OverlayBox; vertical: number | null; horizontal: number | null } {
+  const withEdges = box.rotation % 360 === 0
+  const xs = withEdges
+    ? [box.x, box.x - box.width / 2, box.x + box.width / 2]
+    : [box.x]
+  const ys = withEdges
+    ? [box.y, box.y - box.height / 2, box.y + box.height / 2]
+    : [box.y]
+
+  const snapX = snapToGuides(xs, guides.vertical, threshold)
+  const snapY = snapToGuides(ys, guides.horizontal, threshold)
+
+  return {
+    box: {
+      ...box,
+      x: box.x + (snapX?.offset ?? 0),
+      y: box.y + (snapY?.offset ?? 0),
+    },
+    vertical: snapX?.guide ?? null,
+    horizontal: snapY?.guide ?? null,
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function numberOr(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback
+}
+
+function percentToPx(value: unknown, fallback: number, size: number): number {
+  return (numberOr(value, fallback) / 100) * size
+}
+
+// Percent of size, rounded to 0.1%
+function toPercent(px: number, size: number): number {
+  return Math.round((px / size) * 1000) / 10
+}
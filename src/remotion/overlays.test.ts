@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest'
+import {
+  createOverlay,
+  isRequiredOverlayProp,
+  validateOverlayProps,
+} from './overlays'
+import { overlay, withTracks } from './test-fixtures'
+import { updateOverlayProps } from './timeline-edits'
+
+// =============================================================================
+// validateOverlayProps
+// =============================================================================
+
+describe('validateOverlayProps', () => {
+  it('accepts the props of every preset', () => {
+    for (const component of [
+      'BigTitle',
+      'LowerThird',
+      'ProgressBar',
+      'Countdown',
+      'CallToAction',
+      'Sticker',
+      'Shape',
+    ] as const) {
+      const preset = createOverlay(component, { startFrame: 0, fps: 30 })
+      expect(validateOverlayProps(component, preset.props)).toBeNull()
+    }
+  })
+
+  it('rejects unknown props and wrong types', () => {
+    expect(
+      validateOverlayProps('BigTitle', { text: 'Hi', colour: 'red' }),
+    ).toMatch(/^Invalid BigTitle props: .*colour/)
+    expect(
+      validateOverlayProps('BigTitle', { text: 'Hi', fontSize: 'big' }),
+    ).toMatch(/^Invalid BigTitle props: fontSize:/)
+    expect(validateOverlayProps('Shape', { shape: 'star' })).toMatch(
+      /^Invalid Shape props: shape:/,
+    )
+  })
+
+  it('requires the props a component needs', () => {
+    expect(validateOverlayProps('KaraokeText', { text: 'Hi' })).toMatch(
+      /wordTimestamps/,
+    )
+  })
+
+  it('checks only the given props of an update', () => {
+    expect(
+      validateOverlayProps('BigTitle', { color: '#fff' }, { partial: true }),
+    ).toBeNull()
+    expect(
+      validateOverlayProps('BigTitle', { text: undefined }, { partial: true }),
+    ).toBe('Invalid BigTitle props: text is required')
+    expect(
+      validateOverlayProps('BigTitle', { color: undefined }, { partial: true }),
+    ).toBeNull()
+  })
+})
+
+describe('isRequiredOverlayProp', () => {
+  it('tells required props from optional ones', () => {
+    expect(isRequiredOverlayProp('Shape', 'shape')).toBe(true)
+    expect(isRequiredOverlayProp('Shape', 'color')).toBe(false)
+  })
+})
+
+// =============================================================================
+// updateOverlayProps
+// =============================================================================
+
+describe('updateOverlayProps', () => {
+  const manifest = withTracks({
+    components: [overlay('Sticker', { emoji: '🔥', x: 10 }, { layer: 5 })],
+  })
+
+  it('merges props and removes unset ones', () => {
+    const [sticker] = updateOverlayProps(manifest, 'Sticker-1', {
+      x: 50,
+      emoji: undefined,
+    }).tracks.components
+
+    expect(sticker.props).toEqual({ x: 50 })
+  })
+
+  it('rejects props the component does not accept', () => {
+    expect(() =>
+      updateOverlayProps(manifest, 'Sticker-1', { animation: 'spin' }),
+    ).toThrow('Invalid Sticker props: animation:')
+  })
+})
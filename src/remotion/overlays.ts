@@ -0,0 +1,244 @@
+/**
+ * Overlay Presets
+ *
+ * Starting props for overlays added from the Timeline or by the AI
+ * Director, and the props each overlay component accepts. Colours and
+ * fonts are left to the brand kit where one applies.
+ */
+
+import { z } from 'zod'
+import { formatManifestIssue, wordTimestampSchema } from './manifest'
+import type { ComponentOverlay, ComponentType } from './manifest'
+import type { OverlayPropsByComponent } from './types'
+
+// Overlays sit above clips; captions use a higher layer
+export const DEFAULT_OVERLAY_LAYER = 5
+
+interface OverlayPreset {
+  label: string
+  durationSeconds: number
+  props: ComponentOverlay['props']
+}
+
+/**
+ * Overlays that can be added without an asset or word timestamps
+ */
+export const OVERLAY_PRESETS = {
+  BigTitle: {
+    label: 'Title',
+    durationSeconds: 3,
+    props: { text: 'Your Title', animation: 'scale' },
+  },
+  LowerThird: {
+    label: 'Lower Third',
+    durationSeconds: 4,
+    props: { title: 'Name Here', subtitle: 'Title or role' },
+  },
+  ProgressBar: {
+    label: 'Progress Bar',
+    durationSeconds: 10,
+    props: { position: 'bottom' },
+  },
+  Countdown: {
+    label: 'Countdown',
+    durationSeconds: 5,
+    props: { format: 'seconds' },
+  },
+  CallToAction: {
+    label: 'Subscribe Card',
+    durationSeconds: 4,
+    props: {
+      title: 'Enjoying this?',
+      subtitle: 'Follow for more',
+      buttonText: 'Subscribe',
+    },
+  },
+  Sticker: {
+    label: 'Emoji Sticker',
+    durationSeconds: 3,
+    props: { emoji: '🔥', animation: 'pop', x: 75, y: 25 },
+  },
+  Shape: {
+    label: 'Shape',
+    durationSeconds: 3,
+    props: { shape: 'rectangle' },
+  },
+} satisfies Partial<Record<ComponentType, OverlayPreset>>
+
+export type PresetOverlayType = keyof typeof OVERLAY_PRESETS
+
+export const PRESET_OVERLAY_TYPES = Object.keys(
+  OVERLAY_PRESETS,
+) as Array<PresetOverlayType>
+
+/**
+ * A new overlay from its preset, with the given props on top
+ */
+export function createOverlay(
+  component: PresetOverlayType,
+  options: {
+    startFrame: number
+    fps: number
+    durationFrames?: number
+    layer?: number
+    props?: ComponentOverlay['props']
+  },
+): ComponentOverlay {
+  const preset: OverlayPreset = OVERLAY_PRESETS[component]
+
+  return {
+    id: `overlay-${Date.now()}`,
+    component,
+    startFrame: options.startFrame,
+    durationFrames:
+      options.durationFrames ??
+      Math.round(preset.durationSeconds * options.fps),
+    layer: options.layer ?? DEFAULT_OVERLAY_LAYER,
+    props: { ...preset.props, ...options.props },
+  }
+}
+
+// =============================================================================
+// Prop Schemas
+// =============================================================================
+
+const verticalPositionSchema = z.enum(['top', 'center', 'bottom'])
+
+/**
+ * Props accepted by each overlay component. Unknown props are rejected,
+ * so a misspelt prop isn't silently ignored by the component.
+ */
+const OVERLAY_PROPS_SCHEMAS = {
+  KaraokeText: z.strictObject({
+    text: z.string(),
+    wordTimestamps: z.array(wordTimestampSchema),
+    fontSize: z.number().optional(),
+    fontFamily: z.string().optional(),
+    color: z.string().optional(),
+    highlightColor: z.string().optional(),
+    backgroundColor: z.string().optional(),
+    position: verticalPositionSchema.optional(),
+    variant: z.enum(['highlight', 'pop', 'bounce', 'boxed']).optional(),
+    // Clip the caption was transcribed from (see captions.ts)
+    captionSourceId: z.string().optional(),
+  }),
+  BigTitle: z.strictObject({
+    text: z.string(),
+    fontSize: z.number().optional(),
+    fontFamily: z.string().optional(),
+    color: z.string().optional(),
+    animation: z.enum(['fade', 'slide-up', 'scale', 'typewriter']).optional(),
+    position: verticalPositionSchema.optional(),
+  }),
+  ImageOverlay: z.strictObject({
+    src: z.string(),
+    width: z.number().optional(),
+    height: z.number().optional(),
+    x: z.number().optional(),
+    y: z.number().optional(),
+    rotation: z.number().optional(),
+    opacity: z.number().optional(),
+  }),
+  LowerThird: z.strictObject({
+    title: z.string(),
+    subtitle: z.string().optional(),
+    backgroundColor: z.string().optional(),
+    textColor: z.string().optional(),
+    fontFamily: z.string().optional(),
+    position: z.enum(['left', 'center', 'right']).optional(),
+  }),
+  ProgressBar: z.strictObject({
+    color: z.string().optional(),
+    trackColor: z.string().optional(),
+    height: z.number().optional(),
+    position: z.enum(['top', 'bottom']).optional(),
+  }),
+  Countdown: z.strictObject({
+    from: z.number().optional(),
+    fontSize: z.number().optional(),
+    fontFamily: z.string().optional(),
+    color: z.string().optional(),
+    format: z.enum(['seconds', 'mm:ss']).optional(),
+    position: verticalPositionSchema.optional(),
+    label: z.string().optional(),
+  }),
+  CallToAction: z.strictObject({
+    title: z.string(),
+    subtitle: z.string().optional(),
+    buttonText: z.string().optional(),
+    backgroundColor: z.string().optional(),
+    textColor: z.string().optional(),
+    buttonColor: z.string().optional(),
+    fontFamily: z.string().optional(),
+    animation: z.enum(['slide-up', 'pop', 'fade']).optional(),
+    position: z.enum(['center', 'bottom']).optional(),
+  }),
+  Sticker: z.strictObject({
+    emoji: z.string().optional(),
+    src: z.string().optional(),
+    size: z.number().optional(),
+    x: z.number().optional(),
+    y: z.number().optional(),
+    rotation: z.number().optional(),
+    animation: z.enum(['pop', 'wiggle', 'float', 'none']).optional(),
+  }),
+  Shape: z.strictObject({
+    shape: z.enum(['rectangle', 'circle', 'arrow']),
+    color: z.string().optional(),
+    strokeColor: z.string().optional(),
+    strokeWidth: z.number().optional(),
+    width: z.number().optional(),
+    height: z.number().optional(),
+    x: z.number().optional(),
+    y: z.number().optional(),
+    rotation: z.number().optional(),
+    opacity: z.number().optional(),
+    cornerRadius: z.number().optional(),
+  }),
+} satisfies {
+  [K in ComponentType]: z.ZodType<OverlayPropsByComponent[K]>
+}
+
+/**
+ * Whether a component needs a prop (e.g. BigTitle's text), so it can't be
+ * unset
+ */
+export function isRequiredOverlayProp(
+  component: ComponentType,
+  prop: string,
+): boolean {
+  const schema: z.ZodObject = OVERLAY_PROPS_SCHEMAS[component]
+  return (
+    prop in schema.shape && !schema.shape[prop].safeParse(undefined).success
+  )
+}
+
+/**
+ * Check an overlay's props against its component, e.g.
+ * "Invalid Shape props: shape: Invalid option: expected one of ..."
+ * With `partial`, only the given props are checked, as for an update;
+ * a prop set to undefined is being removed, which only optional props
+ * allow. Returns null when the props are valid.
+ */
+export function validateOverlayProps(
+  component: ComponentType,
+  props: ComponentOverlay['props'],
+  { partial = false }: { partial?: boolean } = {},
+): string | null {
+  const schema: z.ZodObject = OVERLAY_PROPS_SCHEMAS[component]
+
+  if (partial) {
+    const removed = Object.entries(props).find(
+      ([key, value]) =>
+        value === undefined && isRequiredOverlayProp(component, key),
+    )
+    if (removed) {
+      return `Invalid ${component} props: ${removed[0]} is required`
+    }
+  }
+
+  const result = (partial ? schema.partial() : schema).safeParse(props)
+  return result.success
+    ? null
+    : `Invalid ${component} props: ${formatManifestIssue(result.error)}`
+}
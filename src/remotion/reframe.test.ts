@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_FOCUS_POINT,
+  getFocusPoint,
+  getReframeFormat,
+  reframeManifest,
+} from './reframe'
+import { overlay, videoClip, withTracks } from './test-fixtures'
+
+// =============================================================================
+// Formats and Focus
+// =============================================================================
+
+describe('getReframeFormat', () => {
+  it('matches formats by aspect ratio', () => {
+    expect(getReframeFormat({ width: 1080, height: 1920 })).toBe('9:16')
+    expect(getReframeFormat({ width: 720, height: 1280 })).toBe('9:16')
+    expect(getReframeFormat({ width: 2160, height: 2160 })).toBe('1:1')
+    expect(getReframeFormat({ width: 1000, height: 700 })).toBeNull()
+  })
+})
+
+describe('getFocusPoint', () => {
+  it('uses the fixed focus point without a focus track', () => {
+    expect(getFocusPoint(videoClip(), 10)).toBeUndefined()
+    expect(getFocusPoint(videoClip({ focus: { x: 0.2, y: 0.8 } }), 10)).toEqual(
+      { x: 0.2, y: 0.8 },
+    )
+  })
+
+  it('follows the focus track, timed against the source media', () => {
+    const clip = videoClip({
+      trimStart: 50,
+      focusTrack: {
+        x: [
+          { frame: 0, value: 0 },
+          { frame: 100, value: 1 },
+        ],
+        y: [],
+      },
+    })
+
+    expect(getFocusPoint(clip, 0)).toEqual({ x: 0.5, y: 0.5 })
+    expect(getFocusPoint(clip, 25)).toEqual({ x: 0.75, y: 0.5 })
+  })
+})
+
+// =============================================================================
+// reframeManifest
+// =============================================================================
+
+describe('reframeManifest', () => {
+  const from = { width: 720, height: 1280 }
+  const to = { width: 1920, height: 1080 }
+
+  it('gives cover-fit clips a focus point and leaves others alone', () => {
+    const contained = videoClip({ id: 'contained', fit: 'contain' })
+    const manifest = withTracks({
+      video: [
+        videoClip({ id: 'cover' }),
+        videoClip({ id: 'focused', focus: { x: 0.3, y: 0.4 } }),
+        contained,
+      ],
+    })
+
+    const [cover, focused, contain] = reframeManifest(manifest, from, to).tracks
+      .video
+
+    expect(cover.focus).toEqual(DEFAULT_FOCUS_POINT)
+    expect(focused.focus).toEqual({ x: 0.3, y: 0.4 })
+    expect(contain).toBe(contained)
+  })
+
+  it('uses the focus picked for each clip', () => {
+    const manifest = withTracks({ video: [videoClip()] })
+
+    const [clip] = reframeManifest(manifest, from, to, () => ({
+      x: 0.9,
+      y: 0.1,
+    })).tracks.video
+
+    expect(clip.focus).toEqual({ x: 0.9, y: 0.1 })
+  })
+
+  it('scales pixel sizes with the shorter side and keeps positions', () => {
+    const manifest = withTracks({
+      components: [
+        overlay('KaraokeText', { text: 'Hi', fontSize: 48, x: 20 }),
+        overlay('Sticker', { emoji: '🔥', size: 100, x: 10, y: 90 }),
+      ],
+    })
+
+    const [text, sticker] = reframeManifest(manifest, from, to).tracks
+      .components
+
+    expect(text.props).toEqual({ text: 'Hi', fontSize: 72, x: 20 })
+    expect(sticker.props).toEqual({ emoji: '🔥', size: 150, x: 10, y: 90 })
+  })
+
+  it('keeps the proportions of shapes', () => {
+    const manifest = withTracks({
+      components: [overlay('Shape', { strokeWidth: 4 })],
+    })
+
+    const [shape] = reframeManifest(manifest, from, to).tracks.components
+
+    // 30% x 15% of 720x1280 is 216x192 px, x1.5 is 324x288 px of 1920x1080
+    expect(shape.props).toEqual({ strokeWidth: 6, width: 16.9, height: 26.7 })
+  })
+})
@@ -0,0 +1,141 @@
+/**
+ * Reframing
+ *
+ * Adapts a manifest made at one aspect ratio to another, so one edit can
+ * be published to several platforms. Overlay positions are percentages
+ * and carry over as-is; pixel sizes scale with the shorter side of the
+ * frame, and shapes keep their proportions. Cover-fit clips get a focus
+ * point that decides which part of the media stays in frame, or a focus
+ * track that follows the subject (see services/focus.server.ts).
+ */
+
+import { interpolateKeyframes } from './keyframes'
+import type {
+  ComponentOverlay,
+  FocusPoint,
+  ProjectManifest,
+  VideoClip,
+} from './manifest'
+import type { FrameSize } from './overlay-geometry'
+
+/**
+ * Formats a project can be reframed to
+ */
+export const REFRAME_FORMATS = {
+  '9:16': { label: 'Vertical (9:16)', width: 1080, height: 1920 },
+  '16:9': { label: 'Horizontal (16:9)', width: 1920, height: 1080 },
+  '1:1': { label: 'Square (1:1)', width: 1080, height: 1080 },
+  '4:5': { label: 'Portrait (4:5)', width: 1080, height: 1350 },
+} as const
+
+export type ReframeFormat = keyof typeof REFRAME_FORMATS
+
+export const REFRAME_FORMAT_IDS = Object.keys(REFRAME_FORMATS) as [
+  ReframeFormat,
+  ...Array<ReframeFormat>,
+]
+
+export const DEFAULT_FOCUS_POINT: FocusPoint = { x: 0.5, y: 0.5 }
+
+// Overlay props measured in pixels, which scale with the frame
+const PIXEL_PROPS: Partial<
+  Record<ComponentOverlay['component'], Array<string>>
+> = {
+  KaraokeText: ['fontSize'],
+  BigTitle: ['fontSize'],
+  ImageOverlay: ['width', 'height'],
+  ProgressBar: ['height'],
+  Countdown: ['fontSize'],
+  Sticker: ['size'],
+  Shape: ['strokeWidth', 'cornerRadius'],
+}
+
+/**
+ * Focus point of a clip at a frame (relative to the clip start), from its
+ * focus track when it has one. Undefined when the clip has no focus.
+ */
+export function getFocusPoint(
+  clip: VideoClip,
+  frame: number,
+): FocusPoint | undefined {
+  if (!clip.focusTrack) return clip.focus
+
+  // Focus tracks are timed against the source media
+  const sourceFrame = frame + (clip.trimStart ?? 0)
+  const fallback = clip.focus ?? DEFAULT_FOCUS_POINT
+  return {
+    x: interpolateKeyframes(clip.focusTrack.x, sourceFrame, fallback.x),
+    y: interpolateKeyframes(clip.focusTrack.y, sourceFrame, fallback.y),
+  }
+}
+
+/**
+ * The format matching a frame size, if any
+ */
+export function getReframeFormat(frame: FrameSize): ReframeFormat | null {
+  const entry = Object.entries(REFRAME_FORMATS).find(
+    ([, format]) => format.width / format.height === frame.width / frame.height,
+  )
+  return entry ? (entry[0] as ReframeFormat) : null
+}
+
+/**
+ * A copy of the manifest adapted from one frame size to another.
+ * getFocus picks the focus point of each cover-fit clip; by default a
+ * clip keeps its focus point, or is centred.
+ */
+export function reframeManifest(
+  manifest: ProjectManifest,
+  from: FrameSize,
+  to: FrameSize,
+  getFocus: (clip: VideoClip) => FocusPoint | undefined = (clip) => clip.focus,
+): ProjectManifest {
+  const scale =
+    Math.min(to.width, to.height) / Math.min(from.width, from.height)
+
+  return {
+    ...manifest,
+    tracks: {
+      ...manifest.tracks,
+      video: manifest.tracks.video.map((clip) =>
+        (clip.fit ?? 'cover') === 'cover'
+          ? { ...clip, focus: getFocus(clip) ?? DEFAULT_FOCUS_POINT }
+          : clip,
+      ),
+      components: manifest.tracks.components.map((overlay) =>
+        reframeOverlay(overlay, from, to, scale),
+      ),
+    },
+  }
+}
+
+function reframeOverlay(
+  overlay: ComponentOverlay,
+  from: FrameSize,
+  to: FrameSize,
+  scale: number,
+): ComponentOverlay {
+  const props = { ...overlay.props }
+
+  for (const key of PIXEL_PROPS[overlay.component] ?? []) {
+    if (typeof props[key] === 'number') {
+      props[key] = Math.round(props[key] * scale)
+    }
+  }
+
+  // Shape sizes are percentages of the frame; keep their pixel proportions
+  if (overlay.component === 'Shape') {
+    props.width = roundPercent(
+      (((props.width ?? 30) * from.width) / to.width) * scale,
+    )
+    props.height = roundPercent(
+      (((props.height ?? 15) * from.height) / to.height) * scale,
+    )
+  }
+
+  return { ...overlay, props }
+}
+
+function roundPercent(value: number): number {
+  return Math.min(100, Math.round(value * 10) / 10)
+}
@@ -0,0 +1,187 @@
+import { describe, expect, it } from 'vitest'
+import { createEmptyManifest } from './manifest'
+import {
+  createTemplateFromManifest,
+  fillTemplateSlot,
+  getSlotClipId,
+  getSlotValue,
+} from './templates'
+import { audioClip, overlay, videoClip, withTracks } from './test-fixtures'
+import type { ProjectManifest } from './manifest'
+import type { MediaSlot, TextSlot } from './templates'
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const videoSlot: MediaSlot = {
+  id: 'hook-video',
+  label: 'Hook video',
+  kind: 'video',
+  startFrame: 0,
+  durationFrames: 90,
+  layer: 0,
+}
+
+const voiceoverSlot: MediaSlot = {
+  id: 'voiceover',
+  label: 'Voiceover',
+  kind: 'audio',
+  startFrame: 0,
+  durationFrames: 300,
+  layer: 0,
+  role: 'voiceover',
+}
+
+const titleSlot: TextSlot = {
+  id: 'title',
+  label: 'Title',
+  kind: 'text',
+  overlayId: 'title-1',
+  prop: 'text',
+}
+
+function withTitle(): ProjectManifest {
+  return withTracks({
+    components: [
+      overlay('BigTitle', { text: 'Your title' }, { id: 'title-1' }),
+    ],
+  })
+}
+
+// =============================================================================
+// fillTemplateSlot
+// =============================================================================
+
+describe('fillTemplateSlot', () => {
+  it('writes text to the slot overlay prop', () => {
+    const manifest = fillTemplateSlot(withTitle(), titleSlot, 'Big news')
+
+    expect(getSlotValue(manifest, titleSlot)).toBe('Big news')
+  })
+
+  it('shortens a media slot to the asset length', () => {
+    const manifest = fillTemplateSlot(createEmptyManifest(), videoSlot, {
+      id: 'asset-1',
+      url: 'https://cdn.example.com/hook.mp4',
+      type: 'video',
+      durationFrames: 60,
+    })
+
+    const [clip] = manifest.tracks.video
+    expect(clip).toMatchObject({
+      id: getSlotClipId(videoSlot),
+      assetId: 'asset-1',
+      durationFrames: 60,
+    })
+  })
+
+  it('holds an image for the whole slot', () => {
+    const manifest = fillTemplateSlot(createEmptyManifest(), videoSlot, {
+      id: 'asset-1',
+      url: 'https://cdn.example.com/still.png',
+      type: 'image',
+    })
+
+    expect(manifest.tracks.video[0]).toMatchObject({
+      mediaType: 'image',
+      durationFrames: 90,
+      fit: 'blur-fill',
+    })
+  })
+
+  it('replaces the asset that filled the slot before', () => {
+    const asset = {
+      url: 'https://cdn.example.com/voice.mp3',
+      type: 'audio' as const,
+    }
+    let manifest = fillTemplateSlot(createEmptyManifest(), voiceoverSlot, {
+      ...asset,
+      id: 'asset-1',
+    })
+    manifest = fillTemplateSlot(manifest, voiceoverSlot, {
+      ...asset,
+      id: 'asset-2',
+    })
+
+    expect(manifest.tracks.audio).toHaveLength(1)
+    expect(getSlotValue(manifest, voiceoverSlot)).toBe('asset-2')
+  })
+
+  it('rejects values of the wrong kind', () => {
+    expect(() =>
+      fillTemplateSlot(createEmptyManifest(), videoSlot, 'text'),
+    ).toThrow('takes a video asset')
+    expect(() =>
+      fillTemplateSlot(createEmptyManifest(), videoSlot, {
+        id: 'asset-1',
+        url: 'https://cdn.example.com/voice.mp3',
+        type: 'audio',
+      }),
+    ).toThrow('takes a video or image asset')
+  })
+})
+
+// =============================================================================
+// createTemplateFromManifest
+// =============================================================================
+
+describe('createTemplateFromManifest', () => {
+  const video = videoClip({ durationFrames: 90 })
+  const music = audioClip({
+    url: 'https://cdn.example.com/music.mp3',
+    durationFrames: 300,
+    volume: 0.5,
+  })
+  const voiceover = audioClip({
+    id: 'audio-2',
+    url: 'https://cdn.example.com/music.mp3',
+    durationFrames: 300,
+    wordTimestamps: [{ word: 'Hi', start: 0, end: 0.5 }],
+  })
+
+  it('turns media clips into slots and empties the tracks', () => {
+    const source = withTitle()
+    const { manifest, slots } = createTemplateFromManifest(
+      {
+        ...source,
+        tracks: { ...source.tracks, video: [video], audio: [music, voiceover] },
+      },
+      30,
+    )
+
+    expect(manifest.tracks.video).toEqual([])
+    expect(manifest.tracks.audio).toEqual([])
+    expect(slots.map((s) => s.label)).toEqual([
+      'Hook video',
+      'Music',
+      'Voiceover',
+      'Title',
+    ])
+    expect(slots[0]).toMatchObject({
+      kind: 'video',
+      description: expect.stringContaining('0s-3s'),
+    })
+  })
+
+  it('uses the audio role fallback for clips without a role', () => {
+    const { slots } = createTemplateFromManifest(
+      withTracks({ audio: [music, voiceover] }),
+      30,
+    )
+
+    expect(slots.map((s) => (s.kind === 'audio' ? s.role : null))).toEqual([
+      'music',
+      'voiceover',
+    ])
+  })
+
+  it('gives repeated labels unique slot IDs', () => {
+    const { slots } = createTemplateFromManifest(
+      withTracks({ audio: [music, { ...music, id: 'audio-3' }] }),
+      30,
+    )
+
+    expect(slots.map((s) => s.id)).toEqual(['music', 'music-2'])
+  })
+})
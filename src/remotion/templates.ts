@@ -0,0 +1,302 @@
+/**
+ * Project Templates
+ *
+ * A template is a manifest with placeholder slots, e.g. "Hook video",
+ * "Voiceover" or "CTA text". Media slots are spots on the timeline that
+ * stay empty until an asset fills them; text slots point at a prop of an
+ * overlay already in the manifest. Filling a slot is a pure manifest edit,
+ * shared by project creation and the AI Director.
+ */
+
+import { z } from 'zod'
+import { getAudioRole } from './audio-mix'
+import { audioRoleSchema, fitModeSchema, motionPresetSchema } from './manifest'
+import { updateOverlayProps } from './timeline-edits'
+import type {
+  AudioClip,
+  ComponentType,
+  ProjectManifest,
+  VideoClip,
+  WordTimestamp,
+} from './manifest'
+
+// =============================================================================
+// Schemas
+// =============================================================================
+
+const slotBaseSchema = z.object({
+  id: z
+    .string()
+    .regex(/^[a-z0-9-]+$/, 'must be lowercase letters, digits and dashes'),
+  label: z.string().min(1, 'Label is required'),
+  // Guidance for whoever fills the slot, e.g. "3s close-up of the product"
+  description: z.string().optional(),
+})
+
+export const mediaSlotSchema = slotBaseSchema.extend({
+  // Video slots also accept images, held as still clips
+  kind: z.enum(['video', 'audio']),
+  startFrame: z.number().int().min(0),
+  durationFrames: z.number().int().min(1),
+  layer: z.number().int(),
+  fit: fitModeSchema.optional(),
+  motion: motionPresetSchema.optional(),
+  role: audioRoleSchema.optional(),
+  volume: z.number().min(0).optional(),
+})
+
+export const textSlotSchema = slotBaseSchema.extend({
+  kind: z.literal('text'),
+  overlayId: z.string(),
+  prop: z.string(),
+})
+
+export const templateSlotSchema = z.union([mediaSlotSchema, textSlotSchema])
+
+export const templateSlotsSchema = z.array(templateSlotSchema)
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type MediaSlot = z.infer<typeof mediaSlotSchema>
+export type TextSlot = z.infer<typeof textSlotSchema>
+export type TemplateSlot = z.infer<typeof templateSlotSchema>
+
+/**
+ * An asset resolved for a media slot
+ */
+export interface SlotAsset {
+  id: string
+  url: string
+  type: 'video' | 'image' | 'audio'
+  /** Length of the media; the slot is shortened to fit */
+  durationFrames?: number
+  wordTimestamps?: Array<WordTimestamp>
+}
+
+export type SlotValue = string | SlotAsset
+
+// Overlay props that hold copy a template can leave to be written
+const TEXT_PROPS: Partial<Record<ComponentType, Record<string, string>>> = {
+  BigTitle: { text: 'Title' },
+  LowerThird: { title: 'Lower third title', subtitle: 'Lower third subtitle' },
+  CallToAction: {
+    title: 'CTA text',
+    subtitle: 'CTA subtitle',
+    buttonText: 'CTA button',
+  },
+  Countdown: { label: 'Countdown label' },
+}
+
+// =============================================================================
+// Filling Slots
+// =============================================================================
+
+/**
+ * ID of the clip that fills a media slot
+ */
+export function getSlotClipId(slot: MediaSlot): string {
+  return `slot-${slot.id}`
+}
+
+/**
+ * Fill a slot: text is written to the slot's overlay prop, an asset is
+ * placed at the slot's position (replacing what filled it before).
+ */
+export function fillTemplateSlot(
+  manifest: ProjectManifest,
+  slot: TemplateSlot,
+  value: SlotValue,
+): ProjectManifest {
+  if (slot.kind === 'text') {
+    if (typeof value !== 'string') {
+      throw new Error(`Slot "${slot.label}" takes text`)
+    }
+    return updateOverlayProps(manifest, slot.overlayId, { [slot.prop]: value })
+  }
+
+  if (typeof value === 'string') {
+    throw new Error(`Slot "${slot.label}" takes a ${slot.kind} asset`)
+  }
+
+  const isAudio = value.type === 'audio'
+  if (isAudio !== (slot.kind === 'audio')) {
+    throw new Error(
+      `Slot "${slot.label}" takes ${slot.kind === 'audio' ? 'an audio' : 'a video or image'} asset`,
+    )
+  }
+
+  const clipId = getSlotClipId(slot)
+  const durationFrames = Math.max(
+    1,
+    Math.min(slot.durationFrames, value.durationFrames ?? slot.durationFrames),
+  )
+
+  if (isAudio) {
+    const clip: AudioClip = {
+      id: clipId,
+      assetId: value.id,
+      url: value.url,
+      startFrame: slot.startFrame,
+      durationFrames,
+      volume: slot.volume ?? 1,
+      ...(slot.role && { role: slot.role }),
+      ...(value.wordTimestamps && { wordTimestamps: value.wordTimestamps }),
+    }
+    return {
+      ...manifest,
+      tracks: {
+        ...manifest.tracks,
+        audio: [...manifest.tracks.audio.filter((c) => c.id !== clipId), clip],
+      },
+    }
+  }
+
+  const isImage = value.type === 'image'
+  const clip: VideoClip = {
+    id: clipId,
+    assetId: value.id,
+    url: value.url,
+    startFrame: slot.startFrame,
+    // Stills are held for the whole slot
+    durationFrames: isImage ? slot.durationFrames : durationFrames,
+    layer: slot.layer,
+    ...(isImage && {
+      mediaType: 'image' as const,
+      fit: slot.fit ?? 'blur-fill',
+      motion: slot.motion ?? 'zoom-in',
+    }),
+    ...(!isImage && slot.fit && { fit: slot.fit }),
+  }
+  return {
+    ...manifest,
+    tracks: {
+      ...manifest.tracks,
+      video: [...manifest.tracks.video.filter((c) => c.id !== clipId), clip],
+    },
+  }
+}
+
+/**
+ * What currently fills a slot: the text, the asset ID, or null if empty
+ */
+export function getSlotValue(
+  manifest: ProjectManifest,
+  slot: TemplateSlot,
+): string | null {
+  if (slot.kind === 'text') {
+    const overlay = manifest.tracks.components.find(
+      (o) => o.id === slot.overlayId,
+    )
+    const text = overlay?.props[slot.prop]
+    return typeof text === 'string' ? text : null
+  }
+
+  const clipId = getSlotClipId(slot)
+  const clips =
+    slot.kind === 'audio' ? manifest.tracks.audio : manifest.tracks.video
+  return clips.find((c) => c.id === clipId)?.assetId ?? null
+}
+
+// =============================================================================
+// Creating Templates
+// =============================================================================
+
+/**
+ * Turn a project's manifest into a template. Every media clip becomes an
+ * empty media slot at the same position, and the copy of titles, lower
+ * thirds, CTAs and countdowns becomes text slots (keeping the current
+ * text as the default).
+ */
+export function createTemplateFromManifest(
+  manifest: ProjectManifest,
+  fps: number,
+): { manifest: ProjectManifest; slots: Array<TemplateSlot> } {
+  const slots: Array<TemplateSlot> = []
+  const usedIds = new Set<string>()
+
+  const uniqueId = (base: string) => {
+    const slug = base.toLowerCase().replace(/[^a-z0-9]+/g, '-')
+    let id = slug
+    for (let n = 2; usedIds.has(id); n++) id = `${slug}-${n}`
+    usedIds.add(id)
+    return id
+  }
+
+  const timeRange = (startFrame: number, durationFrames: number) =>
+    `${formatSeconds(startFrame / fps)}-${formatSeconds((startFrame + durationFrames) / fps)}`
+
+  const videoClips = [...manifest.tracks.video].sort(
+    (a, b) => a.startFrame - b.startFrame || a.layer - b.layer,
+  )
+  videoClips.forEach((clip, index) => {
+    const label = index === 0 ? 'Hook video' : `Scene ${index + 1}`
+    slots.push({
+      id: uniqueId(label),
+      label,
+      description: `Video or image, ${timeRange(clip.startFrame, clip.durationFrames)}`,
+      kind: 'video',
+      startFrame: clip.startFrame,
+      durationFrames: clip.durationFrames,
+      layer: clip.layer,
+      ...(clip.fit && { fit: clip.fit }),
+      ...(clip.motion && { motion: clip.motion }),
+    })
+  })
+
+  for (const clip of manifest.tracks.audio) {
+    const role = getAudioRole(clip)
+    const label = {
+      voiceover: 'Voiceover',
+      music: 'Music',
+      sfx: 'Sound effect',
+    }[role]
+    slots.push({
+      id: uniqueId(label),
+      label,
+      description: `Audio, ${timeRange(clip.startFrame, clip.durationFrames)}`,
+      kind: 'audio',
+      startFrame: clip.startFrame,
+      durationFrames: clip.durationFrames,
+      layer: 0,
+      role,
+      volume: clip.volume,
+    })
+  }
+
+  for (const overlay of manifest.tracks.components) {
+    const props = TEXT_PROPS[overlay.component] ?? {}
+    for (const [prop, label] of Object.entries(props)) {
+      if (typeof overlay.props[prop] !== 'string') continue
+      slots.push({
+        id: uniqueId(label),
+        label,
+        description: `Currently "${overlay.props[prop]}"`,
+        kind: 'text',
+        overlayId: overlay.id,
+        prop,
+      })
+    }
+  }
+
+  return {
+    manifest: {
+      ...manifest,
+      tracks: {
+        ...manifest.tracks,
+        video: [],
+        // Captions follow the voiceover, which is now a slot
+        audio: [],
+        components: manifest.tracks.components.filter(
+          (o) => o.component !== 'KaraokeText',
+        ),
+      },
+    },
+    slots,
+  }
+}
+
+function formatSeconds(seconds: number): string {
+  return `${Math.round(seconds * 10) / 10}s`
+}
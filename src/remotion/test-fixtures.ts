@@ -0,0 +1,69 @@
+/**
+ * Test Fixtures
+ *
+ * Clip, overlay and manifest factories shared by the unit tests. Each
+ * builds a minimal valid item; tests override only what they check.
+ */
+
+import { createEmptyManifest } from './manifest'
+import type {
+  AudioClip,
+  ComponentOverlay,
+  ProjectManifest,
+  VideoClip,
+} from './manifest'
+
+export function videoClip(overrides: Partial<VideoClip> = {}): VideoClip {
+  return {
+    id: 'video-1',
+    assetId: 'asset-1',
+    url: 'https://cdn.example.com/clip.mp4',
+    startFrame: 0,
+    durationFrames: 100,
+    layer: 0,
+    ...overrides,
+  }
+}
+
+export function audioClip(overrides: Partial<AudioClip> = {}): AudioClip {
+  return {
+    id: 'audio-1',
+    assetId: 'asset-2',
+    url: 'https://cdn.example.com/voice.mp3',
+    startFrame: 0,
+    durationFrames: 100,
+    volume: 1,
+    ...overrides,
+  }
+}
+
+export function overlay(
+  component: ComponentOverlay['component'],
+  props: ComponentOverlay['props'] = {},
+  overrides: Partial<ComponentOverlay> = {},
+): ComponentOverlay {
+  return {
+    id: `${component}-1`,
+    component,
+    props,
+    startFrame: 0,
+    durationFrames: 60,
+    layer: 1,
+    ...overrides,
+  }
+}
+
+/**
+ * An empty manifest with the given tracks (and other fields) set
+ */
+export function withTracks(
+  tracks: Partial<ProjectManifest['tracks']>,
+  overrides: Partial<ProjectManifest> = {},
+): ProjectManifest {
+  const manifest = createEmptyManifest()
+  return {
+    ...manifest,
+    ...overrides,
+    tracks: { ...manifest.tracks, ...tracks },
+  }
+}
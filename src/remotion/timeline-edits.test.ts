@@ -0,0 +1,346 @@
+import { describe, expect, it } from 'vitest'
+import {
+  deleteClip,
+  removeKeyframe,
+  setKeyframe,
+  setKeyframes,
+  splitClip,
+  trimClip,
+} from './timeline-edits'
+import { audioClip, overlay, videoClip, withTracks } from './test-fixtures'
+
+// =============================================================================
+// trimClip
+// =============================================================================
+
+describe('trimClip', () => {
+  it('moves the end, keeping at least one frame', () => {
+    const manifest = withTracks({ video: [videoClip()] })
+
+    expect(
+      trimClip(manifest, 'video-1', 'end', 20).tracks.video[0].durationFrames,
+    ).toBe(120)
+    expect(
+      trimClip(manifest, 'video-1', 'end', -200).tracks.video[0].durationFrames,
+    ).toBe(1)
+  })
+
+  it('moves the start and the in-point together', () => {
+    const manifest = withTracks({
+      video: [videoClip({ startFrame: 30, trimStart: 10 })],
+    })
+
+    const [clip] = trimClip(manifest, 'video-1', 'start', 20).tracks.video
+
+    expect(clip).toMatchObject({
+      startFrame: 50,
+      durationFrames: 80,
+      trimStart: 30,
+    })
+  })
+
+  it('stops extending the start at the beginning of the source', () => {
+    const manifest = withTracks({
+      video: [videoClip({ startFrame: 30, trimStart: 10 })],
+    })
+
+    const [clip] = trimClip(manifest, 'video-1', 'start', -50).tracks.video
+
+    expect(clip).toMatchObject({
+      startFrame: 20,
+      durationFrames: 110,
+      trimStart: 0,
+    })
+  })
+
+  it('extends overlays back to the start of the timeline', () => {
+    const manifest = withTracks({
+      components: [
+        overlay(
+          'BigTitle',
+          { text: 'Hello' },
+          { id: 'text-1', startFrame: 30 },
+        ),
+      ],
+    })
+
+    const [title] = trimClip(manifest, 'text-1', 'start', -50).tracks.components
+
+    expect(title).toMatchObject({ startFrame: 0, durationFrames: 90 })
+    expect(title).not.toHaveProperty('trimStart')
+  })
+
+  it('keeps at least one frame when trimming the start', () => {
+    const manifest = withTracks({ video: [videoClip()] })
+
+    const [clip] = trimClip(manifest, 'video-1', 'start', 500).tracks.video
+
+    expect(clip).toMatchObject({
+      startFrame: 99,
+      durationFrames: 1,
+      trimStart: 99,
+    })
+  })
+})
+
+// =============================================================================
+// splitClip
+// =============================================================================
+
+describe('splitClip', () => {
+  it('splits a clip into two back-to-back halves', () => {
+    const manifest = withTracks({
+      video: [videoClip({ startFrame: 30, trimStart: 10 })],
+    })
+
+    const [first, second] = splitClip(manifest, 'video-1', 70).tracks.video
+
+    expect(first).toMatchObject({ id: 'video-1', startFrame: 30 })
+    expect(first.durationFrames).toBe(40)
+    expect(second.startFrame).toBe(70)
+    expect(second.durationFrames).toBe(60)
+    // The second half continues from the same point in the source
+    expect(second.trimStart).toBe(50)
+  })
+
+  it('keeps the transition on the second half only', () => {
+    const manifest = withTracks({
+      video: [videoClip({ transition: 'fade', transitionDuration: 20 })],
+    })
+
+    const [first, second] = splitClip(manifest, 'video-1', 50).tracks.video
+
+    expect(first.transition).toBeUndefined()
+    expect(first.transitionDuration).toBeUndefined()
+    expect(second.transition).toBe('fade')
+    expect(second.transitionDuration).toBe(20)
+  })
+
+  it('keeps fades at the outer edges', () => {
+    const manifest = withTracks({
+      audio: [audioClip({ fadeInFrames: 10, fadeOutFrames: 15 })],
+    })
+
+    const [first, second] = splitClip(manifest, 'audio-1', 50).tracks.audio
+
+    expect(first.fadeInFrames).toBe(10)
+    expect(first.fadeOutFrames).toBeUndefined()
+    expect(second.fadeInFrames).toBeUndefined()
+    expect(second.fadeOutFrames).toBe(15)
+  })
+
+  it('re-bases keyframes onto each half', () => {
+    const manifest = withTracks({
+      video: [
+        videoClip({
+          keyframes: {
+            opacity: [
+              { frame: 0, value: 0 },
+              { frame: 100, value: 1 },
+            ],
+          },
+          effects: [
+            {
+              type: 'blur',
+              value: 0,
+              keyframes: [
+                { frame: 20, value: 10 },
+                { frame: 80, value: 0 },
+              ],
+            },
+          ],
+        }),
+      ],
+    })
+
+    const [first, second] = splitClip(manifest, 'video-1', 40).tracks.video
+
+    expect(first.keyframes?.opacity).toEqual([
+      { frame: 0, value: 0 },
+      { frame: 40, value: 0.4 },
+    ])
+    expect(second.keyframes?.opacity).toEqual([
+      { frame: 0, value: 0.4 },
+      { frame: 60, value: 1 },
+    ])
+    expect(second.effects?.[0].keyframes).toEqual([
+      { frame: 0, value: expect.closeTo(20 / 3) },
+      { frame: 40, value: 0 },
+    ])
+  })
+
+  it('leaves focus tracks timed against the source media', () => {
+    const focusTrack = {
+      x: [
+        { frame: 0, value: 0.2 },
+        { frame: 100, value: 0.8 },
+      ],
+      y: [{ frame: 0, value: 0.5 }],
+    }
+    const manifest = withTracks({ video: [videoClip({ focusTrack })] })
+
+    const [, second] = splitClip(manifest, 'video-1', 50).tracks.video
+
+    expect(second.focusTrack).toEqual(focusTrack)
+    expect(second.trimStart).toBe(50)
+  })
+
+  it('gives each split a unique ID', () => {
+    let manifest = withTracks({ video: [videoClip({ durationFrames: 300 })] })
+    manifest = splitClip(manifest, 'video-1', 100)
+    manifest = splitClip(manifest, 'video-1', 50)
+
+    const ids = manifest.tracks.video.map((clip) => clip.id)
+    expect(new Set(ids).size).toBe(3)
+  })
+
+  it('rejects a split point outside the clip', () => {
+    const manifest = withTracks({ video: [videoClip({ startFrame: 10 })] })
+
+    expect(() => splitClip(manifest, 'video-1', 10)).toThrow(
+      'Split point must be inside the clip',
+    )
+    expect(() => splitClip(manifest, 'video-1', 110)).toThrow(
+      'Split point must be inside the clip',
+    )
+  })
+})
+
+// =============================================================================
+// deleteClip
+// =============================================================================
+
+describe('deleteClip', () => {
+  const manifest = withTracks({
+    video: [
+      videoClip({ id: 'a', startFrame: 0, durationFrames: 50 }),
+      videoClip({ id: 'b', startFrame: 50, durationFrames: 50 }),
+      videoClip({ id: 'c', startFrame: 120, durationFrames: 30 }),
+    ],
+    audio: [audioClip({ startFrame: 100 })],
+  })
+
+  it('leaves a gap without ripple', () => {
+    const { video } = deleteClip(manifest, 'b').tracks
+
+    expect(video.map((clip) => [clip.id, clip.startFrame])).toEqual([
+      ['a', 0],
+      ['c', 120],
+    ])
+  })
+
+  it('closes the gap on the same track with ripple', () => {
+    const { tracks } = deleteClip(manifest, 'b', { ripple: true })
+
+    expect(tracks.video.map((clip) => [clip.id, clip.startFrame])).toEqual([
+      ['a', 0],
+      ['c', 70],
+    ])
+    expect(tracks.audio[0].startFrame).toBe(100)
+  })
+
+  it('rejects unknown clips', () => {
+    expect(() => deleteClip(manifest, 'missing')).toThrow(
+      'Clip not found: missing',
+    )
+  })
+})
+
+// =============================================================================
+// Keyframes
+// =============================================================================
+
+describe('setKeyframes', () => {
+  it('sorts, rounds and clamps keyframes to the clip and range', () => {
+    const manifest = withTracks({ video: [videoClip()] })
+
+    const [clip] = setKeyframes(manifest, 'video-1', 'opacity', [
+      { frame: 150, value: 2 },
+      { frame: 10.4, value: -1 },
+    ]).tracks.video
+
+    expect(clip.keyframes?.opacity).toEqual([
+      { frame: 10, value: 0 },
+      { frame: 100, value: 1 },
+    ])
+  })
+
+  it('removes the animation when given no keyframes', () => {
+    const manifest = withTracks({
+      video: [videoClip({ keyframes: { x: [{ frame: 0, value: 10 }] } })],
+    })
+
+    const [clip] = setKeyframes(manifest, 'video-1', 'x', []).tracks.video
+
+    expect(clip.keyframes).toBeUndefined()
+  })
+
+  it('animates an effect, adding it at its neutral value', () => {
+    const manifest = withTracks({ video: [videoClip()] })
+
+    const [clip] = setKeyframes(manifest, 'video-1', 'blur', [
+      { frame: 0, value: 10 },
+      { frame: 30, value: 0 },
+    ]).tracks.video
+
+    expect(clip.effects).toEqual([
+      {
+        type: 'blur',
+        value: 0,
+        keyframes: [
+          { frame: 0, value: 10 },
+          { frame: 30, value: 0 },
+        ],
+      },
+    ])
+    expect(
+      setKeyframes(withTracks({ video: [clip] }), 'video-1', 'blur', []).tracks
+        .video[0].effects,
+    ).toBeUndefined()
+  })
+
+  it('rejects audio clips and effects on overlays', () => {
+    const manifest = withTracks({
+      audio: [audioClip()],
+      components: [overlay('BigTitle', { text: 'Hello' }, { id: 'text-1' })],
+    })
+
+    expect(() => setKeyframes(manifest, 'audio-1', 'opacity', [])).toThrow(
+      'Video clip or overlay not found',
+    )
+    expect(() => setKeyframes(manifest, 'text-1', 'blur', [])).toThrow(
+      'Effects can only be animated on video clips',
+    )
+  })
+})
+
+describe('setKeyframe / removeKeyframe', () => {
+  it('updates a keyframe on the same frame, keeping its easing', () => {
+    const manifest = withTracks({
+      video: [
+        videoClip({
+          keyframes: { scale: [{ frame: 0, value: 1, easing: 'ease-in' }] },
+        }),
+      ],
+    })
+
+    const [clip] = setKeyframe(manifest, 'video-1', 'scale', {
+      frame: 0,
+      value: 1.5,
+    }).tracks.video
+
+    expect(clip.keyframes?.scale).toEqual([
+      { frame: 0, value: 1.5, easing: 'ease-in' },
+    ])
+  })
+
+  it('removes the keyframe on a frame', () => {
+    let manifest = withTracks({ video: [videoClip()] })
+    manifest = setKeyframe(manifest, 'video-1', 'x', { frame: 0, value: 0 })
+    manifest = setKeyframe(manifest, 'video-1', 'x', { frame: 50, value: 20 })
+
+    const [clip] = removeKeyframe(manifest, 'video-1', 'x', 0).tracks.video
+
+    expect(clip.keyframes?.x).toEqual([{ frame: 50, value: 20 }])
+  })
+})
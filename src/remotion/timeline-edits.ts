@@ -0,0 +1,740 @@
+/**
+ * Timeline Edits
+ *
+ * Pure editing operations on a ProjectManifest (trim, split, delete,
+ * ripple delete, reorder, transitions, mixer settings, clip settings,
+ * effects, keyframes and overlay props). Each returns a new manifest and leaves the input
+ * untouched, so the studio and the AI Director can share them.
+ */
+
+import { splitKeyframes } from './keyframes'
+import { validateOverlayProps } from './overlays'
+import type {
+  AudioClip,
+  AudioMix,
+  AudioTrackKey,
+  ClipEffect,
+  ComponentOverlay,
+  Keyframe,
+  ProjectManifest,
+  TrackMix,
+  TransformKeyframes,
+  TransitionType,
+  VideoClip,
+} from './manifest'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type TrackKey = keyof ProjectManifest['tracks']
+
+export type TimelineItem = VideoClip | AudioClip | ComponentOverlay
+
+export const TRACK_KEYS: ReadonlyArray<TrackKey> = [
+  'video',
+  'audio',
+  'components',
+]
+
+export interface ClipTransition {
+  type: TransitionType
+  durationFrames: number
+}
+
+// Overlap used when a clip has a transition but no transitionDuration
+export const DEFAULT_TRANSITION_FRAMES = 15
+
+/**
+ * Clip settings editable on any track. Fields that don't apply to the
+ * clip's track (e.g. volume on a video clip) are ignored.
+ */
+export interface ClipSettings {
+  startFrame?: number
+  durationFrames?: number
+  layer?: number
+  // Video clips
+  fit?: VideoClip['fit']
+  focus?: VideoClip['focus']
+  motion?: VideoClip['motion']
+  // Audio clips
+  volume?: number
+  role?: AudioClip['role']
+  fadeInFrames?: number
+  fadeOutFrames?: number
+}
+
+export type EffectType = ClipEffect['type']
+
+/**
+ * Slider range of each effect. An effect at its neutral value is removed.
+ */
+export const EFFECT_RANGES: Record<
+  EffectType,
+  { min: number; max: number; step: number; neutral: number }
+> = {
+  brightness: { min: 0, max: 2, step: 0.05, neutral: 1 },
+  contrast: { min: 0, max: 2, step: 0.05, neutral: 1 },
+  saturation: { min: 0, max: 2, step: 0.05, neutral: 1 },
+  blur: { min: 0, max: 20, step: 0.5, neutral: 0 },
+  grayscale: { min: 0, max: 1, step: 0.05, neutral: 0 },
+}
+
+export type TransformProperty = keyof TransformKeyframes
+
+/**
+ * A property that can be keyframed: a transform property of a video clip
+ * or overlay, or an effect of a video clip
+ */
+export type KeyframeProperty = TransformProperty | EffectType
+
+/**
+ * Input range of each transform property. x/y are offsets in percent of
+ * the frame, rotation is in degrees.
+ */
+export const TRANSFORM_RANGES: Record<
+  TransformProperty,
+  { min: number; max: number; step: number }
+> = {
+  x: { min: -100, max: 100, step: 1 },
+  y: { min: -100, max: 100, step: 1 },
+  scale: { min: 0, max: 5, step: 0.05 },
+  rotation: { min: -360, max: 360, step: 1 },
+  opacity: { min: 0, max: 1, step: 0.05 },
+}
+
+// Largest volume a clip can be set to (2 = +6 dB)
+export const MAX_CLIP_VOLUME = 2
+
+const VIDEO_SETTINGS = ['fit', 'focus', 'motion', 'layer'] as const
+const AUDIO_SETTINGS = [
+  'volume',
+  'role',
+  'fadeInFrames',
+  'fadeOutFrames',
+] as const
+const OVERLAY_SETTINGS = ['layer'] as const
+
+// Prefixes used for new clip IDs on each track
+const ID_PREFIXES: Record<TrackKey, string> = {
+  video: 'video',
+  audio: 'audio',
+  components: 'text',
+}
+
+// =============================================================================
+// Lookup
+// =============================================================================
+
+/**
+ * Find a clip on any track
+ */
+export function findClip(
+  manifest: ProjectManifest,
+  clipId: string,
+): { track: TrackKey; clip: TimelineItem } | null {
+  for (const track of TRACK_KEYS) {
+    const clip = manifest.tracks[track].find((c) => c.id === clipId)
+    if (clip) return { track, clip }
+  }
+  return null
+}
+
+/**
+ * Whether a clip plays media from a source file (and so has an in-point)
+ */
+export function isMediaClip(clip: TimelineItem): clip is VideoClip | AudioClip {
+  return 'url' in clip
+}
+
+/**
+ * The clip that starts exactly where this one ends, on the same layer.
+ * Transitions only play between such adjacent pairs.
+ */
+export function findNextVideoClip(
+  manifest: ProjectManifest,
+  clip: VideoClip,
+): VideoClip | null {
+  const clipEnd = clip.startFrame + clip.durationFrames
+  return (
+    manifest.tracks.video.find(
+      (c) =>
+        c.id !== clip.id && c.layer === clip.layer && c.startFrame === clipEnd,
+    ) ?? null
+  )
+}
+
+/**
+ * Resolve the transition from a clip into the next one.
+ * Returns null for cuts. The overlap can't outlast either clip.
+ */
+export function getClipTransition(
+  clip: VideoClip,
+  next: VideoClip | null,
+): ClipTransition | null {
+  if (!clip.transition || clip.transition === 'cut') return null
+
+  const durationFrames = Math.min(
+    clip.transitionDuration ?? DEFAULT_TRANSITION_FRAMES,
+    clip.durationFrames,
+    next ? next.durationFrames : Infinity,
+  )
+
+  return { type: clip.transition, durationFrames }
+}
+
+// =============================================================================
+// Edits
+// =============================================================================
+
+/**
+ * Move one edge of a clip by deltaFrames.
+ *
+ * Trimming the start moves the in-point into the source media (trimStart)
+ * along with startFrame, so the frames that stay on screen don't shift.
+ * The delta is clamped so the clip keeps at least one frame, doesn't start
+ * before frame 0 and doesn't reach before the start of its source.
+ */
+export function trimClip(
+  manifest: ProjectManifest,
+  clipId: string,
+  edge: 'start' | 'end',
+  deltaFrames: number,
+): ProjectManifest {
+  const found = findClip(manifest, clipId)
+  if (!found) {
+    throw new Error(`Clip not found: ${clipId}`)
+  }
+
+  const { track, clip } = found
+  const delta = Math.round(deltaFrames)
+
+  if (edge === 'end') {
+    const durationFrames = Math.max(1, clip.durationFrames + delta)
+    return updateClip(manifest, track, clipId, { durationFrames })
+  }
+
+  const trimStart = isMediaClip(clip) ? (clip.trimStart ?? 0) : 0
+  const clamped = Math.min(
+    clip.durationFrames - 1,
+    Math.max(
+      delta,
+      -clip.startFrame,
+      isMediaClip(clip) ? -trimStart : -Infinity,
+    ),
+  )
+
+  return updateClip(manifest, track, clipId, {
+    startFrame: clip.startFrame + clamped,
+    durationFrames: clip.durationFrames - clamped,
+    ...(isMediaClip(clip) && { trimStart: trimStart + clamped }),
+  })
+}
+
+/**
+ * Split a clip in two at a timeline frame.
+ * The second half continues from the same point in the source media.
+ * Fades and the transition out stay at the outer edges of the pair, and
+ * keyframes are re-based onto each half. Focus tracks are timed against
+ * the source media, so they follow trimStart unchanged.
+ */
+export function splitClip(
+  manifest: ProjectManifest,
+  clipId: string,
+  frame: number,
+): ProjectManifest {
+  const found = findClip(manifest, clipId)
+  if (!found) {
+    throw new Error(`Clip not found: ${clipId}`)
+  }
+
+  const { track, clip } = found
+  const splitAt = Math.round(frame)
+  const offset = splitAt - clip.startFrame
+
+  if (offset <= 0 || offset >= clip.durationFrames) {
+    throw new Error('Split point must be inside the clip')
+  }
+
+  const keyframes = 'keyframes' in clip ? clip.keyframes : undefined
+  const effects = 'effects' in clip ? clip.effects : undefined
+  const [firstKeyframes, secondKeyframes] = splitTransform(keyframes, offset)
+  const splitEffects = (half: 0 | 1) =>
+    effects?.map((effect) =>
+      effect.keyframes
+        ? {
+            ...effect,
+            keyframes: splitKeyframes(effect.keyframes, offset)[half],
+          }
+        : effect,
+    )
+
+  const first: TimelineItem = {
+    ...clip,
+    durationFrames: offset,
+    transition: undefined,
+    transitionDuration: undefined,
+    fadeOutFrames: undefined,
+    ...(keyframes && { keyframes: firstKeyframes }),
+    ...(effects && { effects: splitEffects(0) }),
+  }
+
+  const second: TimelineItem = {
+    ...clip,
+    id: createClipId(track),
+    startFrame: splitAt,
+    durationFrames: clip.durationFrames - offset,
+    fadeInFrames: undefined,
+    ...(isMediaClip(clip) && { trimStart: (clip.trimStart ?? 0) + offset }),
+    ...(keyframes && { keyframes: secondKeyframes }),
+    ...(effects && { effects: splitEffects(1) }),
+  }
+
+  const clips = manifest.tracks[track] as Array<TimelineItem>
+  const index = clips.findIndex((c) => c.id === clipId)
+  const next = [...clips]
+  next.splice(index, 1, first, second)
+
+  return withTrack(manifest, track, next)
+}
+
+/**
+ * Remove a clip. With ripple, later clips on the same track
+ * move left to close the gap it leaves.
+ */
+export function deleteClip(
+  manifest: ProjectManifest,
+  clipId: string,
+  options: { ripple?: boolean } = {},
+): ProjectManifest {
+  const found = findClip(manifest, clipId)
+  if (!found) {
+    throw new Error(`Clip not found: ${clipId}`)
+  }
+
+  const { track, clip } = found
+  const clipEnd = clip.startFrame + clip.durationFrames
+  const clips = manifest.tracks[track] as Array<TimelineItem>
+
+  const next = clips
+    .filter((c) => c.id !== clipId)
+    .map((c) =>
+      options.ripple && c.startFrame >= clipEnd
+        ? { ...c, startFrame: c.startFrame - clip.durationFrames }
+        : c,
+    )
+
+  return withTrack(manifest, track, next)
+}
+
+/**
+ * Play clips of one track back to back in the given order, starting where
+ * the earliest of them starts. Each clip keeps its length; clips not
+ * listed stay where they are.
+ */
+export function reorderClips(
+  manifest: ProjectManifest,
+  clipIds: Array<string>,
+): ProjectManifest {
+  const found = clipIds.map((clipId) => {
+    const result = findClip(manifest, clipId)
+    if (!result) {
+      throw new Error(`Clip not found: ${clipId}`)
+    }
+    return result
+  })
+
+  if (found.length === 0) return manifest
+
+  const track = found[0].track
+  if (found.some((f) => f.track !== track)) {
+    throw new Error('Clips to reorder must be on the same track')
+  }
+
+  let frame = Math.min(...found.map((f) => f.clip.startFrame))
+  const startFrames = new Map<string, number>()
+  for (const { clip } of found) {
+    startFrames.set(clip.id, frame)
+    frame += clip.durationFrames
+  }
+
+  const clips = manifest.tracks[track] as Array<TimelineItem>
+  return withTrack(
+    manifest,
+    track,
+    clips.map((c) =>
+      startFrames.has(c.id) ? { ...c, startFrame: startFrames.get(c.id)! } : c,
+    ),
+  )
+}
+
+/**
+ * Set the transition from a video clip into the next one.
+ * A 'cut' clears the transition and its duration.
+ */
+export function setTransition(
+  manifest: ProjectManifest,
+  clipId: string,
+  type: TransitionType,
+  durationFrames?: number,
+): ProjectManifest {
+  const found = findClip(manifest, clipId)
+  if (found?.track !== 'video') {
+    throw new Error(`Video clip not found: ${clipId}`)
+  }
+
+  if (type === 'cut') {
+    return updateClip(manifest, 'video', clipId, {
+      transition: undefined,
+      transitionDuration: undefined,
+    })
+  }
+
+  return updateClip(manifest, 'video', clipId, {
+    transition: type,
+    transitionDuration:
+      durationFrames === undefined
+        ? (found.clip as VideoClip).transitionDuration
+        : Math.max(1, Math.round(durationFrames)),
+  })
+}
+
+/**
+ * Change a clip's timing, layer and track-specific settings.
+ * Frames are rounded, the clip can't start before frame 0 or be shorter
+ * than one frame, volume is clamped to 0..MAX_CLIP_VOLUME and the focus
+ * point to the media. Setting a focus point clears the clip's focus track.
+ */
+export function updateClipSettings(
+  manifest: ProjectManifest,
+  clipId: string,
+  settings: ClipSettings,
+): ProjectManifest {
+  const found = findClip(manifest, clipId)
+  if (!found) {
+    throw new Error(`Clip not found: ${clipId}`)
+  }
+
+  const { track } = found
+  const allowed: ReadonlyArray<keyof ClipSettings> =
+    track === 'video'
+      ? VIDEO_SETTINGS
+      : track === 'audio'
+        ? AUDIO_SETTINGS
+        : OVERLAY_SETTINGS
+
+  const changes: Partial<VideoClip & AudioClip & ComponentOverlay> = {}
+
+  if (settings.startFrame !== undefined) {
+    changes.startFrame = Math.max(0, Math.round(settings.startFrame))
+  }
+  if (settings.durationFrames !== undefined) {
+    changes.durationFrames = Math.max(1, Math.round(settings.durationFrames))
+  }
+  for (const key of allowed) {
+    if (settings[key] !== undefined) {
+      Object.assign(changes, { [key]: settings[key] })
+    }
+  }
+  if (changes.layer !== undefined) {
+    changes.layer = Math.round(changes.layer)
+  }
+  if (changes.focus !== undefined) {
+    changes.focus = {
+      x: Math.min(1, Math.max(0, changes.focus.x)),
+      y: Math.min(1, Math.max(0, changes.focus.y)),
+    }
+    // A focus set by hand replaces subject tracking
+    changes.focusTrack = undefined
+  }
+  if (changes.volume !== undefined) {
+    changes.volume = Math.min(MAX_CLIP_VOLUME, Math.max(0, changes.volume))
+  }
+  for (const key of ['fadeInFrames', 'fadeOutFrames'] as const) {
+    if (changes[key] !== undefined) {
+      changes[key] = Math.max(0, Math.round(changes[key]))
+    }
+  }
+
+  return updateClip(manifest, track, clipId, changes)
+}
+
+/**
+ * Set one effect on a video clip. A value at the effect's neutral point
+ * removes it. Keyframes on the effect are kept.
+ */
+export function setClipEffect(
+  manifest: ProjectManifest,
+  clipId: string,
+  type: EffectType,
+  value: number,
+): ProjectManifest {
+  const found = findClip(manifest, clipId)
+  if (found?.track !== 'video') {
+    throw new Error(`Video clip not found: ${clipId}`)
+  }
+
+  const { min, max, neutral } = EFFECT_RANGES[type]
+  const clamped = Math.min(max, Math.max(min, value))
+  const effects = (found.clip as VideoClip).effects ?? []
+  const existing = effects.find((e) => e.type === type)
+
+  const next =
+    clamped === neutral && !existing?.keyframes
+      ? effects.filter((e) => e.type !== type)
+      : existing
+        ? effects.map((e) => (e.type === type ? { ...e, value: clamped } : e))
+        : [...effects, { type, value: clamped }]
+
+  return updateClip(manifest, 'video', clipId, {
+    effects: next.length > 0 ? next : undefined,
+  })
+}
+
+/**
+ * Replace the keyframes of one property of a video clip or overlay.
+ * Frames are relative to the clip start, rounded and kept inside the
+ * clip, and values are clamped to the property's range. Of two keyframes
+ * on the same frame the later wins. An empty list removes the animation.
+ */
+export function setKeyframes(
+  manifest: ProjectManifest,
+  clipId: string,
+  property: KeyframeProperty,
+  keyframes: Array<Keyframe>,
+): ProjectManifest {
+  const found = findClip(manifest, clipId)
+  if (!found || found.track === 'audio') {
+    throw new Error(`Video clip or overlay not found: ${clipId}`)
+  }
+
+  const clip = found.clip as VideoClip | ComponentOverlay
+  const { min, max } = isEffectType(property)
+    ? EFFECT_RANGES[property]
+    : TRANSFORM_RANGES[property]
+
+  const byFrame = new Map<number, Keyframe>()
+  for (const keyframe of keyframes) {
+    const frame = Math.min(
+      clip.durationFrames,
+      Math.max(0, Math.round(keyframe.frame)),
+    )
+    byFrame.set(frame, {
+      ...keyframe,
+      frame,
+      value: Math.min(max, Math.max(min, keyframe.value)),
+    })
+  }
+  const next = [...byFrame.values()].sort((a, b) => a.frame - b.frame)
+
+  if (isEffectType(property)) {
+    if (found.track !== 'video') {
+      throw new Error('Effects can only be animated on video clips')
+    }
+    return setEffectKeyframes(manifest, clip as VideoClip, property, next)
+  }
+
+  const transform = Object.fromEntries(
+    Object.entries({ ...clip.keyframes, [property]: next }).filter(
+      ([, track]) => track.length > 0,
+    ),
+  )
+  return updateClip(manifest, found.track, clipId, {
+    keyframes: Object.keys(transform).length > 0 ? transform : undefined,
+  })
+}
+
+/**
+ * Add a keyframe to a property. A keyframe already on the frame is
+ * updated, keeping its easing unless a new one is given.
+ */
+export function setKeyframe(
+  manifest: ProjectManifest,
+  clipId: string,
+  property: KeyframeProperty,
+  keyframe: Keyframe,
+): ProjectManifest {
+  const keyframes = getKeyframes(manifest, clipId, property)
+  const existing = keyframes.find((k) => k.frame === Math.round(keyframe.frame))
+  return setKeyframes(manifest, clipId, property, [
+    ...keyframes,
+    { ...existing, ...keyframe },
+  ])
+}
+
+/**
+ * Remove the keyframe on a frame (relative to the clip start)
+ */
+export function removeKeyframe(
+  manifest: ProjectManifest,
+  clipId: string,
+  property: KeyframeProperty,
+  frame: number,
+): ProjectManifest {
+  return setKeyframes(
+    manifest,
+    clipId,
+    property,
+    getKeyframes(manifest, clipId, property).filter((k) => k.frame !== frame),
+  )
+}
+
+/**
+ * Keyframes of a property of a clip, empty when it isn't animated
+ */
+export function getKeyframes(
+  manifest: ProjectManifest,
+  clipId: string,
+  property: KeyframeProperty,
+): Array<Keyframe> {
+  const found = findClip(manifest, clipId)
+  if (!found || found.track === 'audio') return []
+
+  const clip = found.clip as VideoClip | ComponentOverlay
+  if (isEffectType(property)) {
+    const effects = 'effects' in clip ? (clip.effects ?? []) : []
+    return effects.find((e) => e.type === property)?.keyframes ?? []
+  }
+  return clip.keyframes?.[property] ?? []
+}
+
+/**
+ * Merge props into an overlay. A prop set to undefined is removed so the
+ * component (or brand kit) default applies again. Props the component
+ * doesn't accept, or of the wrong type, are rejected.
+ */
+export function updateOverlayProps(
+  manifest: ProjectManifest,
+  clipId: string,
+  props: ComponentOverlay['props'],
+): ProjectManifest {
+  const found = findClip(manifest, clipId)
+  if (found?.track !== 'components') {
+    throw new Error(`Overlay not found: ${clipId}`)
+  }
+
+  const overlay = found.clip as ComponentOverlay
+  const invalid = validateOverlayProps(overlay.component, props, {
+    partial: true,
+  })
+  if (invalid) {
+    throw new Error(invalid)
+  }
+
+  const merged = { ...overlay.props, ...props }
+  return updateClip(manifest, 'components', clipId, {
+    props: Object.fromEntries(
+      Object.entries(merged).filter(([, value]) => value !== undefined),
+    ),
+  })
+}
+
+/**
+ * Update the mute/solo state of an audio track
+ */
+export function setTrackMix(
+  manifest: ProjectManifest,
+  track: AudioTrackKey,
+  changes: TrackMix,
+): ProjectManifest {
+  const tracks = manifest.audioMix?.tracks ?? {}
+  return setAudioMix(manifest, {
+    tracks: { ...tracks, [track]: { ...tracks[track], ...changes } },
+  })
+}
+
+/**
+ * Update project-wide mix settings (ducking, loudness target)
+ */
+export function setAudioMix(
+  manifest: ProjectManifest,
+  changes: Partial<AudioMix>,
+): ProjectManifest {
+  return {
+    ...manifest,
+    audioMix: { ...manifest.audioMix, ...changes },
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * A new, unique clip ID for a track, e.g. "video-1718000000000-k3j9x2a"
+ */
+export function createClipId(track: TrackKey): string {
+  return `${ID_PREFIXES[track]}-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`
+}
+
+function isEffectType(property: KeyframeProperty): property is EffectType {
+  return property in EFFECT_RANGES
+}
+
+function setEffectKeyframes(
+  manifest: ProjectManifest,
+  clip: VideoClip,
+  type: EffectType,
+  keyframes: Array<Keyframe>,
+): ProjectManifest {
+  const effects = clip.effects ?? []
+  const { neutral } = EFFECT_RANGES[type]
+  const existing = effects.find((e) => e.type === type)
+  const effect: ClipEffect = {
+    type,
+    value: existing?.value ?? neutral,
+    ...(keyframes.length > 0 && { keyframes }),
+  }
+
+  // An effect left at its neutral value without animation is removed
+  const keep = effect.keyframes || effect.value !== neutral
+  const next = existing
+    ? effects.flatMap((e) => (e.type !== type ? [e] : keep ? [effect] : []))
+    : keep
+      ? [...effects, effect]
+      : effects
+
+  return updateClip(manifest, 'video', clip.id, {
+    effects: next.length > 0 ? next : undefined,
+  })
+}
+
+function splitTransform(
+  keyframes: TransformKeyframes | undefined,
+  offset: number,
+): [TransformKeyframes, TransformKeyframes] {
+  const first: TransformKeyframes = {}
+  const second: TransformKeyframes = {}
+  for (const [property, track] of Object.entries(keyframes ?? {})) {
+    const key = property as keyof TransformKeyframes
+    const [before, after] = splitKeyframes(track, offset)
+    first[key] = before
+    second[key] = after
+  }
+  return [first, second]
+}
+
+function updateClip(
+  manifest: ProjectManifest,
+  track: TrackKey,
+  clipId: string,
+  changes: Partial<VideoClip & AudioClip & ComponentOverlay>,
+): ProjectManifest {
+  const clips = manifest.tracks[track] as Array<TimelineItem>
+  return withTrack(
+    manifest,
+    track,
+    clips.map((c) => (c.id === clipId ? { ...c, ...changes } : c)),
+  )
+}
+
+function withTrack(
+  manifest: ProjectManifest,
+  track: TrackKey,
+  clips: Array<TimelineItem>,
+): ProjectManifest {
+  return {
+    ...manifest,
+    tracks: { ...manifest.tracks, [track]: clips },
+  }
+}
@@ -2,87 +2,61 @@
  * Remotion Types
  *
  * Shared types for the video composition system.
+ * Manifest types are inferred from the zod schema in ./manifest.
  */
 
+import type {
+  AudioClip,
+  ClipEffect,
+  ComponentOverlay,
+  ProjectManifest,
+  VideoClip,
+  WordTimestamp,
+} from './manifest'
+import type { BrandStyle } from './brand'
+
 // =============================================================================
-// Composition Props
+// Manifest Types (schema in ./manifest)
 // =============================================================================
 
-export interface CompositionProps {
-  manifest?: ProjectManifest
-}
-
-export interface ProjectManifest {
-  version: number
-  tracks: {
-    video: Array<VideoClipProps>
-    audio: Array<AudioClipProps>
-    components: Array<ComponentOverlayProps>
-  }
-  globalSettings: {
-    backgroundColor: string
-  }
-}
-
-export interface VideoClipProps {
-  id: string
-  assetId: string
-  url: string
-  startFrame: number
-  durationFrames: number
-  layer: number
-  transition?: TransitionType
-  effects?: Array<ClipEffectProps>
-}
-
-export interface AudioClipProps {
-  id: string
-  assetId: string
-  url: string
-  startFrame: number
-  durationFrames: number
-  volume: number
-  wordTimestamps?: Array<WordTimestampProps>
-}
-
-export interface ComponentOverlayProps {
-  id: string
-  component: ComponentType
-
-  props: Record<string, any>
-  startFrame: number
-  durationFrames: number
-  layer: number
-}
-
-export interface WordTimestampProps {
-  word: string
-  start: number
-  end: number
-}
-
-export interface ClipEffectProps {
-  type: 'brightness' | 'contrast' | 'saturation' | 'blur' | 'grayscale'
-  value: number
-}
+export type {
+  AudioMix,
+  AudioRole,
+  AudioTrackKey,
+  CaptionStyle,
+  ComponentType,
+  FitMode,
+  FocusPoint,
+  FocusTrack,
+  Keyframe,
+  KeyframeEasing,
+  MotionPreset,
+  ProjectManifest,
+  TrackMix,
+  TransformKeyframes,
+  TransitionType,
+} from './manifest'
+export type {
+  BrandColors,
+  BrandFont,
+  BrandStyle,
+  WatermarkPosition,
+} from './brand'
+export type VideoClipProps = VideoClip
+export type AudioClipProps = AudioClip
+export type ComponentOverlayProps = ComponentOverlay
+export type WordTimestampProps = WordTimestamp
+export type ClipEffectProps = ClipEffect
 
 // =============================================================================
-// Component Types
+// Composition Props
 // =============================================================================
 
-export type ComponentType =
-  | 'KaraokeText'
-  | 'BigTitle'
-  | 'ImageOverlay'
-  | 'LowerThird'
-
-export type TransitionType =
-  | 'cut'
-  | 'fade'
-  | 'slide-left'
-  | 'slide-right'
-  | 'glitch'
-  | 'zoom'
+export interface CompositionProps {
+  manifest?: ProjectManifest
+  /** Brand kit of the project, applied under overlay props */
+  brand?: BrandStyle
+}
 
 // =============================================================================
 // Overlay Component Props
@@ -97,6 +71,7 @@ export interface KaraokeTextProps {
   highlightColor?: string
   backgroundColor?: string
   position?: 'top' | 'center' | 'bottom'
+  variant?: 'highlight' | 'pop' | 'bounce' | 'boxed'
 }
 
 export interface BigTitleProps {
@@ -110,10 +85,11 @@ export interface BigTitleProps {
 
 export interface ImageOverlayProps {
   src: string
-  width?: number
-  height?: number
-  x?: number
-  y?: number
+  width?: number // px
+  height?: number // px
+  x?: number // % of width (centre)
+  y?: number // % of height (centre)
+  rotation?: number // degrees
   opacity?: number
 }
 
@@ -122,9 +98,81 @@ export interface LowerThirdProps {
   subtitle?: string
   backgroundColor?: string
   textColor?: string
+  fontFamily?: string
   position?: 'left' | 'center' | 'right'
 }
 
+export interface ProgressBarProps {
+  color?: string
+  trackColor?: string
+  height?: number // px
+  position?: 'top' | 'bottom'
+}
+
+export interface CountdownProps {
+  /** Seconds shown at the first frame; defaults to the overlay's duration */
+  from?: number
+  fontSize?: number
+  fontFamily?: string
+  color?: string
+  format?: 'seconds' | 'mm:ss'
+  position?: 'top' | 'center' | 'bottom'
+  label?: string
+}
+
+export interface CallToActionProps {
+  title: string
+  subtitle?: string
+  buttonText?: string
+  backgroundColor?: string
+  textColor?: string
+  buttonColor?: string
+  fontFamily?: string
+  animation?: 'slide-up' | 'pop' | 'fade'
+  position?: 'center' | 'bottom'
+}
+
+export interface StickerProps {
+  /** Emoji or short text; ignored when src is set */
+  emoji?: string
+  /** Image sticker URL */
+  src?: string
+  size?: number // px
+  x?: number // % of width
+  y?: number // % of height
+  rotation?: number // degrees
+  animation?: 'pop' | 'wiggle' | 'float' | 'none'
+}
+
+export interface ShapeProps {
+  shape: 'rectangle' | 'circle' | 'arrow'
+  color?: string
+  strokeColor?: string
+  strokeWidth?: number
+  width?: number // % of composition width
+  height?: number // % of composition height
+  x?: number // % of width (centre)
+  y?: number // % of height (centre)
+  rotation?: number // degrees
+  opacity?: number
+  cornerRadius?: number // px, rectangles only
+}
+
+/**
+ * Props of each overlay component, keyed by ComponentOverlay.component
+ */
+export interface OverlayPropsByComponent {
+  KaraokeText: KaraokeTextProps
+  BigTitle: BigTitleProps
+  ImageOverlay: ImageOverlayProps
+  LowerThird: LowerThirdProps
+  ProgressBar: ProgressBarProps
+  Countdown: CountdownProps
+  CallToAction: CallToActionProps
+  Sticker: StickerProps
+  Shape: ShapeProps
+}
+
 // =============================================================================
 // Player State
 // =============================================================================
@@ -164,19 +212,7 @@ export interface TimelineSelection {
 }
 
 // =============================================================================
-// Helper to create empty manifest
+// Manifest Helpers
 // =============================================================================
 
-export function createEmptyManifest(): ProjectManifest {
-  return {
-    version: 1,
-    tracks: {
-      video: [],
-      audio: [],
-      components: [],
-    },
-    globalSettings: {
-      backgroundColor: '#000000',
-    },
-  }
-}
+export { createEmptyManifest, getManifestDuration } from './manifest'
@@ -90,6 +90,13 @@ export const Route = createFileRoute('/_app/projects/')({
   }),
 })
 
+// Poll interval while projects are rendering
+const RENDER_POLL_INTERVAL = 3000
+
+// Create-dialog values for "no template" and "the template's dimensions"
+const BLANK_TEMPLATE = 'blank'
+const TEMPLATE_RATIO = 'template'
+
 // Aspect ratio presets
 const ASPECT_RATIOS = [
   { id: 'vertical', name: 'Vertical (9:16)', width: 1080, height: 1920 },
@@ -106,6 +113,9 @@ function ProjectsPage() {
   const [isCreateOpen, setIsCreateOpen] = useState(false)
   const [newProjectName, setNewProjectName] = useState('')
   const [aspectRatio, setAspectRatio] = useState('vertical')
+  const [templateId, setTemplateId] = useState(BLANK_TEMPLATE)
+  const [slotTexts, setSlotTexts] = useState<Record<string, string>>({})
+  const [deleteTemplateOpen, setDeleteTemplateOpen] = useState(false)
   const [deleteDialog, setDeleteDialog] = useState<{
     open: boolean
     projectId: string | null
@@ -161,12 +171,36 @@ function ProjectsPage() {
         },
       } as never)
     },
+    // Keep render progress live while any project is rendering
+    refetchInterval: (query) =>
+      query.state.data?.projects.some((p) => p.status === 'rendering')
+        ? RENDER_POLL_INTERVAL
+        : false,
   })
 
+  // Templates for the create dialog
+  const { data: templates = [] } = useQuery({
+    queryKey: ['templates'],
+    queryFn: async () => {
+      const { listTemplatesFn } =
+        await import('../../../server/template.server')
+      return listTemplatesFn()
+    },
+    enabled: isCreateOpen,
+  })
+
+  const selectedTemplate = templates.find((t) => t.id === templateId)
+
   // Create project mutation
   const createMutation = useMutation({
     mutationFn: async (input: {
-      data: { name: string; width: number; height: number }
+      data: {
+        name: string
+        width?: number
+        height?: number
+        templateId?: string
+        slotValues?: Record<string, { text: string }>
+      }
     }) => {
       const { createProjectFn } = await import('../../../server/project.server')
       return createProjectFn(input as never)
@@ -176,6 +210,7 @@ function ProjectsPage() {
       queryClient.invalidateQueries({ queryKey: ['folders'] })
       setIsCreateOpen(false)
       setNewProjectName('')
+      setSlotTexts({})
       navigate({
         to: '/projects/$projectId',
         params: { projectId: project.id },
@@ -197,17 +232,49 @@ function ProjectsPage() {
 
   const handleCreateProject = () => {
     if (!newProjectName.trim()) return
+    // Templates keep their own dimensions unless another ratio is picked
     const ratio =
-      ASPECT_RATIOS.find((r) => r.id === aspectRatio) || ASPECT_RATIOS[0]
+      selectedTemplate && aspectRatio === TEMPLATE_RATIO
+        ? undefined
+        : ASPECT_RATIOS.find((r) => r.id === aspectRatio) || ASPECT_RATIOS[0]
+    const slotValues = Object.fromEntries(
+      Object.entries(slotTexts)
+        .filter(([, text]) => text.trim())
+        .map(([slotId, text]) => [slotId, { text: text.trim() }]),
+    )
     createMutation.mutate({
       data: {
         name: newProjectName,
-        width: ratio.width,
-        height: ratio.height,
+        width: ratio?.width,
+        height: ratio?.height,
+        ...(selectedTemplate && {
+          templateId: selectedTemplate.id,
+          slotValues,
+        }),
       },
     })
   }
 
+  const handleSelectTemplate = (id: string) => {
+    setTemplateId(id)
+    setSlotTexts({})
+    setAspectRatio(id === BLANK_TEMPLATE ? 'vertical' : TEMPLATE_RATIO)
+  }
+
+  // Delete template mutation
+  const deleteTemplateMutation = useMutation({
+    mutationFn: async (input: { data: { templateId: string } }) => {
+      const { deleteTemplateFn } =
+        await import('../../../server/template.server')
+      return deleteTemplateFn(input as never)
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['templates'] })
+      handleSelectTemplate(BLANK_TEMPLATE)
+      setDeleteTemplateOpen(false)
+    },
+  })
+
   const handleDeleteProject = (projectId: string, e: React.MouseEvent) => {
     e.preventDefault()
     e.stopPropagation()
@@ -407,6 +474,89 @@ function ProjectsPage() {
                         }}
                       />
                     </div>
+                    {templates.length > 0 && (
+                      <div className="space-y-2">
+                        <Label>Template</Label>
+                        <div className="flex gap-2">
+                          <Select
+                            value={templateId}
+                            onValueChange={handleSelectTemplate}
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={BLANK_TEMPLATE}>
+                                Blank project
+                              </SelectItem>
+                              {templates.map((template) => (
+                                <SelectItem
+                                  key={template.id}
+                                  value={template.id}
+                                >
+                                  {template.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          {selectedTemplate && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="shrink-0"
+                              title="Delete template"
+                              onClick={() => setDeleteTemplateOpen(true)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                        {selectedTemplate?.description && (
+                          <p className="text-xs text-muted-foreground">
+                            {selectedTemplate.description}
+                          </p>
+                        )}
+                      </div>
+                    )}
+                    {selectedTemplate && (
+                      <div className="space-y-2">
+                        {selectedTemplate.slots.map((slot) =>
+                          slot.kind === 'text' ? (
+                            <div key={slot.id} className="space-y-1">
+                              <Label
+                                htmlFor={`slot-${slot.id}`}
+                                className="text-xs"
+                              >
+                                {slot.label}
+                              </Label>
+                              <Input
+                                id={`slot-${slot.id}`}
+                                placeholder={slot.description}
+                                value={slotTexts[slot.id] ?? ''}
+                                onChange={(e) =>
+                                  setSlotTexts((prev) => ({
+                                    ...prev,
+                                    [slot.id]: e.target.value,
+                                  }))
+                                }
+                              />
+                            </div>
+                          ) : null,
+                        )}
+                        {selectedTemplate.slots.some(
+                          (slot) => slot.kind !== 'text',
+                        ) && (
+                          <p className="text-xs text-muted-foreground">
+                            Media slots (
+                            {selectedTemplate.slots
+                              .filter((slot) => slot.kind !== 'text')
+                              .map((slot) => slot.label)
+                              .join(', ')}
+                            ) can be filled by the AI Director from a brief.
+                          </p>
+                        )}
+                      </div>
+                    )}
                     <div className="space-y-2">
                       <Label>Aspect Ratio</Label>
                       <Select
@@ -417,6 +567,12 @@ function ProjectsPage() {
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
+                          {selectedTemplate && (
+                            <SelectItem value={TEMPLATE_RATIO}>
+                              Template ({selectedTemplate.width}x
+                              {selectedTemplate.height})
+                            </SelectItem>
+                          )}
                           {ASPECT_RATIOS.map((ratio) => (
                             <SelectItem key={ratio.id} value={ratio.id}>
                               {ratio.name}
@@ -541,9 +697,21 @@ function ProjectsPage() {
                             )}
                           >
                             {project.status}
+                            {project.renderProgress !== null &&
+                              ` ${project.renderProgress}%`}
                           </span>
                         </div>
 
+                        {/* Render progress */}
+                        {project.renderProgress !== null && (
+                          <div className="absolute inset-x-0 bottom-0 h-1 bg-black/30">
+                            <div
+                              className="h-full bg-yellow-500 transition-all"
+                              style={{ width: `${project.renderProgress}%` }}
+                            />
+                          </div>
+                        )}
+
                         {/* Selection checkbox / Hover overlay */}
                         {isBulkMode ? (
                           <button
@@ -621,6 +789,20 @@ function ProjectsPage() {
         onConfirm={handleConfirmDelete}
         isLoading={deleteMutation.isPending}
       />
+
+      {/* Delete Template Confirmation Dialog */}
+      <ConfirmDialog
+        open={deleteTemplateOpen}
+        onOpenChange={setDeleteTemplateOpen}
+        title="Delete Template?"
+        description="Projects created from this template keep their timeline."
+        confirmText="Delete"
+        variant="destructive"
+        onConfirm={() =>
+          deleteTemplateMutation.mutate({ data: { templateId } })
+        }
+        isLoading={deleteTemplateMutation.isPending}
+      />
     </div>
   )
 }
@@ -10,6 +10,8 @@ import { auth } from '../../lib/auth.server'
 import {
   clearChatHistory,
   getChatHistory,
+  getConfirmAgentSpend,
+  respondToApproval,
   runAgent,
 } from '../../server/agent/index.server'
 
@@ -18,9 +20,15 @@ import {
 // =============================================================================
 
 interface ChatRequest {
-  message: string
+  message?: string
   projectId: string
   model?: string
+  // Answer to tool calls waiting for approval, instead of a message
+  approval?: {
+    messageId: string
+    decision: 'approve' | 'reject'
+    arguments?: Record<string, unknown>
+  }
 }
 
 // =============================================================================
@@ -85,7 +93,8 @@ export const Route = createFileRoute('/api/chat')({
   server: {
     handlers: {
       /**
-       * POST /api/chat - Send a message and get streaming response
+       * POST /api/chat - Send a message (or answer an approval) and get
+       * streaming response
        */
       POST: async ({ request }) => {
         // Validate auth
@@ -109,9 +118,11 @@ export const Route = createFileRoute('/api/chat')({
         }
 
         // Validate required fields
-        if (!body.message || !body.projectId) {
+        if ((!body.message && !body.approval) || !body.projectId) {
           return new Response(
-            JSON.stringify({ error: 'message and projectId are required' }),
+            JSON.stringify({
+              error: 'message (or approval) and projectId are required',
+            }),
             {
               status: 400,
               headers: { 'Content-Type': 'application/json' },
@@ -120,12 +131,23 @@ export const Route = createFileRoute('/api/chat')({
         }
 
         // Create the agent generator
-        const agentGenerator = runAgent({
-          projectId: body.projectId,
-          userId: session.user.id,
-          userMessage: body.message,
-          model: body.model,
-        })
+        const agentGenerator = body.approval
+          ? respondToApproval({
+              projectId: body.projectId,
+              userId: session.user.id,
+              messageId: body.approval.messageId,
+              decision: body.approval.decision,
+              arguments: body.approval.arguments,
+              model: body.model,
+              signal: request.signal,
+            })
+          : runAgent({
+              projectId: body.projectId,
+              userId: session.user.id,
+              userMessage: body.message!,
+              model: body.model,
+              signal: request.signal,
+            })
 
         // Create SSE stream
         const stream = createSSEStream(agentGenerator)
@@ -169,10 +191,14 @@ export const Route = createFileRoute('/api/chat')({
 
         // Get chat history
         const history = await getChatHistory(projectId)
+        const confirmAgentSpend = await getConfirmAgentSpend(session.user.id)
 
-        return new Response(JSON.stringify({ messages: history }), {
-          headers: { 'Content-Type': 'application/json' },
-        })
+        return new Response(
+          JSON.stringify({ messages: history, confirmAgentSpend }),
+          {
+            headers: { 'Content-Type': 'application/json' },
+          },
+        )
       },
 
       /**
@@ -5,28 +5,149 @@
  * Each tool function handles validation, execution, and error handling.
  */
 
+import { setTimeout as delay } from 'node:timers/promises'
 import { prisma } from '../../db.server'
 import {
   generateImage,
   generateSpeech,
   generateVideo,
+  getManifestDuration,
+  parseManifest,
 } from '../services/index.server'
 import { getUserStorageConfig } from '../storage-config.server'
-import { TOOL_NAMES } from './tools.server'
+import { recordRevision } from '../revision.server'
+import { createOverlay, validateOverlayProps } from '../../remotion/overlays'
+import { toBrandStyle } from '../brand-kit.server'
+import { fillTemplateSlots, parseTemplateSlots } from '../template.server'
+import { getSlotValue } from '../../remotion/templates'
+import { formatManifestIssue } from '../../remotion/manifest'
+import {
+  createClipId,
+  findClip,
+  reorderClips,
+  setAudioMix,
+  setClipEffect,
+  setKeyframes,
+  setTrackMix,
+  setTransition,
+  splitClip,
+  trimClip,
+  updateClipSettings,
+  updateOverlayProps,
+} from '../../remotion/timeline-edits'
+import { DEFAULT_DUCKING } from '../../remotion/audio-mix'
+import { startEditJob, startUpscaleJob } from '../edit.server'
+import { startVideoUpscaleJob } from '../video-upscale.server'
+import { startMotionControlJob } from '../motion-control.server'
+import { start3DModelJob } from '../model3d.server'
+import { pollGenerationJob } from '../generation.server'
+import {
+  TOOL_NAMES,
+  editImageSchema,
+  fillTemplateSlotSchema,
+  generate3DModelSchema,
+  generateImageSchema,
+  generateMotionControlSchema,
+  generateVideoSchema,
+  generateVoiceoverSchema,
+  listAssetsSchema,
+  reorderClipsSchema,
+  setEffectsSchema,
+  setKeyframesSchema,
+  setTransitionSchema,
+  setVolumeSchema,
+  splitClipSchema,
+  trimClipSchema,
+  updateOverlayPropsSchema,
+  updateTimelineSchema,
+  upscaleImageSchema,
+  upscaleVideoSchema,
+  waitForJobsSchema,
+} from './tools.server'
 import type {
   AudioClip,
   ComponentOverlay,
   ProjectManifest,
   VideoClip,
 } from '../services/index.server'
+import type { z } from 'zod'
+import type { BrandStyle } from '../../remotion/brand'
+import type { TimelineItem, TrackKey } from '../../remotion/timeline-edits'
 import type {
+  EditImageArgs,
+  FillTemplateSlotArgs,
+  Generate3DModelArgs,
   GenerateImageArgs,
+  GenerateMotionControlArgs,
   GenerateVideoArgs,
   GenerateVoiceoverArgs,
   ListAssetsArgs,
+  ReorderClipsArgs,
+  SetEffectsArgs,
+  SetKeyframesArgs,
+  SetTransitionArgs,
+  SetVolumeArgs,
+  SplitClipArgs,
+  TrimClipArgs,
+  UpdateOverlayPropsArgs,
   UpdateTimelineArgs,
+  UpscaleImageArgs,
+  UpscaleVideoArgs,
 } from './tools.server'
 
+// Attempts at writing the manifest before giving up on concurrent edits
+const MAX_MANIFEST_WRITE_ATTEMPTS = 3
+
+// Default length of a clip whose asset has no duration (e.g. images)
+const DEFAULT_IMAGE_CLIP_SECONDS = 5
+
+// How long waitForJobs waits by default, and how often it polls
+const DEFAULT_JOB_WAIT_SECONDS = 180
+const JOB_POLL_INTERVAL_MS = 5000
+
+// How addTextOverlay's text, colour and size arguments map onto each
+// overlay's props
+const OVERLAY_FIELDS: Record<
+  NonNullable<UpdateTimelineArgs['textOverlayType']>,
+  {
+    text?: string
+    textRequired?: boolean
+    color?: string
+    fontSize?: boolean
+    hasPosition?: boolean
+  }
+> = {
+  BigTitle: {
+    text: 'text',
+    textRequired: true,
+    color: 'color',
+    fontSize: true,
+    hasPosition: true,
+  },
+  KaraokeText: {
+    text: 'text',
+    textRequired: true,
+    color: 'color',
+    fontSize: true,
+    hasPosition: true,
+  },
+  LowerThird: { text: 'title', textRequired: true, color: 'textColor' },
+  CallToAction: { text: 'title', textRequired: true, color: 'textColor' },
+  Countdown: {
+    text: 'label',
+    color: 'color',
+    fontSize: true,
+    hasPosition: true,
+  },
+  Sticker: { text: 'emoji' },
+  ProgressBar: { color: 'color' },
+  Shape: { color: 'color' },
+}
+
+// Models the agent uses for 3D generation, by input
+const TEXT_TO_3D_MODEL = 'hunyuan3d-v3-text'
+const IMAGE_TO_3D_MODEL = 'hunyuan3d-v3-image'
+
 // Voice name mappings (Fal.ai uses voice names directly)
 const VOICE_NAMES = {
   MALE_NARRATOR: 'Adam',
@@ -40,6 +161,12 @@ const VOICE_NAMES = {
 export interface ToolContext {
   userId: string
   projectId: string
+  /** ID of the tool call being executed (recorded on manifest revisions) */
+  toolCallId?: string
+  /** Aborted when the chat request ends; long waits stop early */
+  signal?: AbortSignal
+  /** Reports how a long-running tool is getting on, e.g. "2 of 4 jobs finished" */
+  onProgress?: (message: string) => void
 }
 
 export interface ToolResult {
@@ -63,6 +190,8 @@ export async function executeGetProjectState(
           orderBy: { createdAt: 'desc' },
           take: 50,
         },
+        brandKit: true,
+        template: { select: { name: true, slots: true } },
       },
     })
 
@@ -74,7 +203,8 @@ export async function executeGetProjectState(
       return { success: false, error: 'Unauthorized' }
     }
 
-    const manifest = JSON.parse(project.manifest) as ProjectManifest
+    const manifest = parseManifest(project.manifest)
+    const brand = project.brandKit ? toBrandStyle(project.brandKit) : null
 
     return {
       success: true,
@@ -93,6 +223,28 @@ export async function executeGetProjectState(
           audioClipCount: manifest.tracks.audio.length,
           componentCount: manifest.tracks.components.length,
           backgroundColor: manifest.globalSettings.backgroundColor,
+          audioMix: manifest.audioMix,
+          // Clip IDs and timings for the clip editing tools
+          clips: {
+            video: manifest.tracks.video.map((c) => describeClip('video', c)),
+            audio: manifest.tracks.audio.map((c) => describeClip('audio', c)),
+            components: manifest.tracks.components.map((c) =>
+              describeClip('components', c),
+            ),
+          },
+        },
+        // Text overlays use the brand kit's styling unless told otherwise
+        brandKit: brand && {
+          name: project.brandKit?.name,
+          colors: brand.colors,
+          headingFont: brand.headingFont,
+          bodyFont: brand.bodyFont,
+          hasWatermark: !!(brand.logoUrl && brand.watermarkPosition),
+        },
+        // Slots to fill with getTemplateSlots / fillTemplateSlot
+        template: project.template && {
+          name: project.template.name,
+          slotCount: parseTemplateSlots(project.template.slots).length,
         },
         assets: project.assets.map((asset) => ({
           id: asset.id,
@@ -191,7 +343,13 @@ export async function executeGenerateImage(
     // Update job with external ID
     await prisma.generationJob.update({
       where: { id: job.id },
-      data: { externalId: falJob.requestId, status: 'processing' },
+      data: {
+        externalId: falJob.requestId,
+        statusUrl: falJob.statusUrl,
+        responseUrl: falJob.responseUrl,
+        cancelUrl: falJob.cancelUrl,
+        status: 'processing',
+      },
     })
 
     return {
@@ -276,7 +434,13 @@ export async function executeGenerateVideo(
     // Update job with external ID
     await prisma.generationJob.update({
       where: { id: job.id },
-      data: { externalId: falJob.requestId, status: 'processing' },
+      data: {
+        externalId: falJob.requestId,
+        statusUrl: falJob.statusUrl,
+        responseUrl: falJob.responseUrl,
+        cancelUrl: falJob.cancelUrl,
+        status: 'processing',
+      },
     })
 
     return {
@@ -406,259 +570,368 @@ export async function executeGenerateVoiceover(
 }
 
 // =============================================================================
-// Tool: updateTimeline
+// Tool: editImage
 // =============================================================================
 
-export async function executeUpdateTimeline(
-  args: UpdateTimelineArgs,
+export async function executeEditImage(
+  args: EditImageArgs,
   context: ToolContext,
 ): Promise<ToolResult> {
   try {
-    // Get current project and manifest
-    const project = await prisma.project.findUnique({
-      where: { id: context.projectId },
-      select: { manifest: true, fps: true, userId: true },
+    const image = await getOwnedAsset(context, args.imageAssetId, 'image')
+    if (typeof image === 'string') {
+      return { success: false, error: image }
+    }
+
+    const job = await startEditJob(context.userId, {
+      imageUrls: [image.storageUrl],
+      prompt: args.prompt,
+      sourceAssetIds: [image.id],
+      projectId: context.projectId,
     })
 
-    if (!project) {
-      return { success: false, error: 'Project not found' }
+    return {
+      success: true,
+      data: {
+        jobId: job.jobId,
+        status: job.status,
+        message:
+          'Started editing the image. This usually takes 10-30 seconds and creates a new image asset.',
+      },
     }
-
-    if (project.userId !== context.userId) {
-      return { success: false, error: 'Unauthorized' }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to edit image',
     }
+  }
+}
 
-    const manifest = JSON.parse(project.manifest) as ProjectManifest
-    const fps = project.fps
+// =============================================================================
+// Tool: upscaleImage
+// =============================================================================
 
-    switch (args.action) {
-      case 'addVideoClip': {
-        if (!args.videoAssetId) {
-          return {
-            success: false,
-            error: 'videoAssetId is required for addVideoClip',
-          }
-        }
+export async function executeUpscaleImage(
+  args: UpscaleImageArgs,
+  context: ToolContext,
+): Promise<ToolResult> {
+  try {
+    const image = await getOwnedAsset(context, args.imageAssetId, 'image')
+    if (typeof image === 'string') {
+      return { success: false, error: image }
+    }
 
-        const asset = await prisma.asset.findUnique({
-          where: { id: args.videoAssetId },
-        })
+    const job = await startUpscaleJob(context.userId, {
+      imageUrl: image.storageUrl,
+      scale: args.scale ?? 2,
+      sourceAssetId: image.id,
+      projectId: context.projectId,
+    })
 
-        if (!asset || asset.type !== 'video') {
-          return { success: false, error: 'Video asset not found' }
-        }
+    return {
+      success: true,
+      data: {
+        jobId: job.jobId,
+        status: job.status,
+        message:
+          'Started upscaling the image. This usually takes 10-60 seconds and creates a new image asset.',
+      },
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to upscale image',
+    }
+  }
+}
 
-        // Calculate end of current timeline
-        const lastEndFrame = manifest.tracks.video.reduce(
-          (max, clip) => Math.max(max, clip.startFrame + clip.durationFrames),
-          0,
-        )
+// =============================================================================
+// Tool: upscaleVideo
+// =============================================================================
 
-        const durationFrames =
-          args.durationFrames ||
-          (asset.durationSeconds
-            ? Math.round(asset.durationSeconds * fps)
-            : 150)
+export async function executeUpscaleVideo(
+  args: UpscaleVideoArgs,
+  context: ToolContext,
+): Promise<ToolResult> {
+  try {
+    const video = await getOwnedAsset(context, args.videoAssetId, 'video')
+    if (typeof video === 'string') {
+      return { success: false, error: video }
+    }
 
-        const newClip: VideoClip = {
-          id: `video-${Date.now()}`,
-          assetId: asset.id,
-          url: asset.storageUrl,
-          startFrame: args.startFrame ?? lastEndFrame,
-          durationFrames,
-          layer: args.layer ?? 0,
-        }
+    const job = await startVideoUpscaleJob(context.userId, {
+      videoUrl: video.storageUrl,
+      upscaleFactor: args.upscaleFactor ?? 2,
+      sourceAssetId: video.id,
+      projectId: context.projectId,
+    })
 
-        manifest.tracks.video.push(newClip)
-        break
-      }
+    return {
+      success: true,
+      data: {
+        jobId: job.jobId,
+        status: job.status,
+        message:
+          'Started upscaling the video. This can take several minutes and creates a new video asset.',
+      },
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to upscale video',
+    }
+  }
+}
 
-      case 'addAudioClip': {
-        if (!args.audioAssetId) {
-          return {
-            success: false,
-            error: 'audioAssetId is required for addAudioClip',
-          }
-        }
+// =============================================================================
+// Tool: generateMotionControl
+// =============================================================================
 
-        const asset = await prisma.asset.findUnique({
-          where: { id: args.audioAssetId },
-        })
+export async function executeGenerateMotionControl(
+  args: GenerateMotionControlArgs,
+  context: ToolContext,
+): Promise<ToolResult> {
+  try {
+    const image = await getOwnedAsset(context, args.imageAssetId, 'image')
+    if (typeof image === 'string') {
+      return { success: false, error: image }
+    }
 
-        if (!asset || asset.type !== 'audio') {
-          return { success: false, error: 'Audio asset not found' }
-        }
+    const video = await getOwnedAsset(context, args.videoAssetId, 'video')
+    if (typeof video === 'string') {
+      return { success: false, error: video }
+    }
 
-        const metadata = asset.metadata ? JSON.parse(asset.metadata) : {}
+    const job = await startMotionControlJob(context.userId, {
+      imageUrl: image.storageUrl,
+      videoUrl: video.storageUrl,
+      imageAssetId: image.id,
+      videoAssetId: video.id,
+      prompt: args.prompt,
+      characterOrientation: args.characterOrientation,
+      projectId: context.projectId,
+    })
 
-        const durationFrames =
-          args.durationFrames ||
-          (asset.durationSeconds
-            ? Math.round(asset.durationSeconds * fps)
-            : 150)
+    return {
+      success: true,
+      data: {
+        jobId: job.jobId,
+        status: job.status,
+        message:
+          'Started animating the character. This takes a few minutes and creates a new video asset.',
+      },
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : 'Failed to generate motion control video',
+    }
+  }
+}
 
-        const newClip: AudioClip = {
-          id: `audio-${Date.now()}`,
-          assetId: asset.id,
-          url: asset.storageUrl,
-          startFrame: args.startFrame ?? 0,
-          durationFrames,
-          volume: 1,
-          wordTimestamps: metadata.wordTimestamps,
-        }
+// =============================================================================
+// Tool: generate3DModel
+// =============================================================================
 
-        manifest.tracks.audio.push(newClip)
-        break
+export async function executeGenerate3DModel(
+  args: Generate3DModelArgs,
+  context: ToolContext,
+): Promise<ToolResult> {
+  try {
+    if (!args.imageAssetId && !args.prompt) {
+      return {
+        success: false,
+        error: 'A prompt or imageAssetId is required to generate a 3D model',
       }
+    }
 
-      case 'addTextOverlay': {
-        if (!args.textOverlayType || !args.textOverlayText) {
-          return {
-            success: false,
-            error:
-              'textOverlayType and textOverlayText are required for addTextOverlay',
-          }
-        }
-
-        const newOverlay: ComponentOverlay = {
-          id: `text-${Date.now()}`,
-          component: args.textOverlayType,
-          props: {
-            text: args.textOverlayText,
-            position: args.textOverlayPosition || 'center',
-            fontSize: args.textOverlayFontSize || 48,
-            color: args.textOverlayColor || '#FFFFFF',
-          },
-          startFrame: args.startFrame ?? 0,
-          durationFrames: args.durationFrames ?? 90, // Default 3 seconds
-          layer: args.layer ?? 10,
-        }
-
-        manifest.tracks.components.push(newOverlay)
-        break
+    let imageUrl: string | undefined
+    if (args.imageAssetId) {
+      const image = await getOwnedAsset(context, args.imageAssetId, 'image')
+      if (typeof image === 'string') {
+        return { success: false, error: image }
       }
+      imageUrl = image.storageUrl
+    }
 
-      case 'removeClip': {
-        if (!args.clipId) {
-          return { success: false, error: 'clipId is required for removeClip' }
-        }
+    const result = await start3DModelJob(context.userId, {
+      modelId: imageUrl ? IMAGE_TO_3D_MODEL : TEXT_TO_3D_MODEL,
+      mode: imageUrl ? 'image-to-3d' : 'text-to-3d',
+      prompt: args.prompt,
+      imageUrl,
+    })
 
-        // Try to find and remove from each track type
-        let removed = false
+    return {
+      success: true,
+      data: {
+        modelAssetId: result.assetId,
+        status: result.status,
+        message:
+          'Started generating the 3D model. This takes a few minutes; it will appear in the 3D Models library.',
+      },
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : 'Failed to generate 3D model',
+    }
+  }
+}
 
-        const videoIndex = manifest.tracks.video.findIndex(
-          (c) => c.id === args.clipId,
-        )
-        if (videoIndex !== -1) {
-          manifest.tracks.video.splice(videoIndex, 1)
-          removed = true
-        }
+/**
+ * Wait for generation jobs to finish, polling them like the studio does,
+ * and report the asset each one produced
+ */
+export async function executeWaitForJobs(
+  input: unknown,
+  context: ToolContext,
+): Promise<ToolResult> {
+  // The LLM's arguments are only JSON, so enforce the job and timeout limits
+  const parsed = waitForJobsSchema.safeParse(input)
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: `Invalid arguments: ${formatManifestIssue(parsed.error)}`,
+    }
+  }
+  const args = parsed.data
 
-        const audioIndex = manifest.tracks.audio.findIndex(
-          (c) => c.id === args.clipId,
-        )
-        if (audioIndex !== -1) {
-          manifest.tracks.audio.splice(audioIndex, 1)
-          removed = true
-        }
+  try {
+    const jobIds = [...new Set(args.jobIds)]
 
-        const compIndex = manifest.tracks.components.findIndex(
-          (c) => c.id === args.clipId,
-        )
-        if (compIndex !== -1) {
-          manifest.tracks.components.splice(compIndex, 1)
-          removed = true
-        }
+    const owned = await prisma.generationJob.findMany({
+      where: { id: { in: jobIds }, userId: context.userId },
+      select: { id: true },
+    })
+    const missing = jobIds.filter((id) => !owned.some((job) => job.id === id))
+    if (missing.length > 0) {
+      return { success: false, error: `Jobs not found: ${missing.join(', ')}` }
+    }
 
-        if (!removed) {
-          return { success: false, error: `Clip not found: ${args.clipId}` }
-        }
+    const deadline =
+      Date.now() + (args.timeoutSeconds ?? DEFAULT_JOB_WAIT_SECONDS) * 1000
+    let pending = jobIds
+
+    for (;;) {
+      // A failed poll leaves the job pending; the next round retries it
+      const statuses = await Promise.all(
+        pending.map((id) =>
+          pollGenerationJob(id, context.userId).catch(() => null),
+        ),
+      )
+      pending = pending.filter(
+        (_, i) =>
+          statuses[i]?.status !== 'completed' &&
+          statuses[i]?.status !== 'failed',
+      )
+      context.onProgress?.(
+        `${jobIds.length - pending.length} of ${jobIds.length} jobs finished`,
+      )
+
+      if (
+        pending.length === 0 ||
+        Date.now() >= deadline ||
+        context.signal?.aborted
+      ) {
         break
       }
+      // Wakes early when the request is aborted
+      await delay(JOB_POLL_INTERVAL_MS, undefined, {
+        signal: context.signal,
+      }).catch(() => undefined)
+    }
 
-      case 'moveClip': {
-        if (!args.clipId || args.newStartFrame === undefined) {
-          return {
-            success: false,
-            error: 'clipId and newStartFrame are required for moveClip',
-          }
-        }
+    // Report from the saved jobs, which hold the asset created on completion
+    const jobs = await prisma.generationJob.findMany({
+      where: { id: { in: jobIds } },
+    })
 
-        let moved = false
+    const results = jobIds.map((id) => {
+      const job = jobs.find((j) => j.id === id)!
+      const output = job.output ? JSON.parse(job.output) : {}
+      return {
+        jobId: job.id,
+        type: job.type,
+        status: job.status,
+        ...(output.assetId && { assetId: output.assetId, url: output.url }),
+        ...(job.error && { error: job.error }),
+      }
+    })
 
-        const videoClip = manifest.tracks.video.find(
-          (c) => c.id === args.clipId,
-        )
-        if (videoClip) {
-          videoClip.startFrame = args.newStartFrame
-          moved = true
-        }
+    return {
+      success: true,
+      data: {
+        jobs: results,
+        timedOut: pending.length > 0,
+        message:
+          pending.length > 0
+            ? `${pending.length} job(s) still running. Call waitForJobs again with their IDs, or let the user know they will appear in the asset library.`
+            : 'All jobs finished.',
+      },
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to wait for jobs',
+    }
+  }
+}
 
-        const audioClip = manifest.tracks.audio.find(
-          (c) => c.id === args.clipId,
-        )
-        if (audioClip) {
-          audioClip.startFrame = args.newStartFrame
-          moved = true
-        }
+/**
+ * A user's asset of the given type, or an error message
+ */
+async function getOwnedAsset(
+  context: ToolContext,
+  assetId: string,
+  type: 'image' | 'video',
+) {
+  const asset = await prisma.asset.findUnique({ where: { id: assetId } })
 
-        const compClip = manifest.tracks.components.find(
-          (c) => c.id === args.clipId,
-        )
-        if (compClip) {
-          compClip.startFrame = args.newStartFrame
-          moved = true
-        }
+  if (!asset || asset.userId !== context.userId) {
+    return `Asset not found: ${assetId}`
+  }
 
-        if (!moved) {
-          return { success: false, error: `Clip not found: ${args.clipId}` }
-        }
-        break
-      }
+  if (asset.type !== type) {
+    return `Asset ${assetId} is not ${type === 'image' ? 'an image' : 'a video'}`
+  }
 
-      case 'setBackground': {
-        if (!args.backgroundColor) {
-          return {
-            success: false,
-            error: 'backgroundColor is required for setBackground',
-          }
-        }
+  return asset
+}
 
-        manifest.globalSettings.backgroundColor = args.backgroundColor
-        break
-      }
+// =============================================================================
+// Tool: updateTimeline
+// =============================================================================
 
-      default:
-        return { success: false, error: `Unknown action: ${args.action}` }
-    }
+export async function executeUpdateTimeline(
+  args: UpdateTimelineArgs,
+  context: ToolContext,
+): Promise<ToolResult> {
+  try {
+    const result = await editManifest(context, async (manifest, project) => {
+      const actionError = await applyTimelineAction(
+        manifest,
+        args,
+        project.fps,
+        project.brand,
+      )
+      return actionError ?? manifest
+    })
 
-    // Calculate new duration
-    let maxFrame = 0
-    for (const clip of manifest.tracks.video) {
-      maxFrame = Math.max(maxFrame, clip.startFrame + clip.durationFrames)
+    if ('error' in result) {
+      return { success: false, error: result.error }
     }
-    for (const clip of manifest.tracks.audio) {
-      maxFrame = Math.max(maxFrame, clip.startFrame + clip.durationFrames)
-    }
-    for (const comp of manifest.tracks.components) {
-      maxFrame = Math.max(maxFrame, comp.startFrame + comp.durationFrames)
-    }
-
-    // Save updated manifest
-    await prisma.project.update({
-      where: { id: context.projectId },
-      data: {
-        manifest: JSON.stringify(manifest),
-        duration: maxFrame,
-      },
-    })
 
+    const { manifest, duration, fps } = result
     return {
       success: true,
       data: {
         action: args.action,
-        totalDuration: maxFrame,
-        totalDurationSeconds: maxFrame / fps,
+        totalDuration: duration,
+        totalDurationSeconds: duration / fps,
         clipCounts: {
           video: manifest.tracks.video.length,
           audio: manifest.tracks.audio.length,
@@ -675,6 +948,334 @@ export async function executeUpdateTimeline(
   }
 }
 
+/**
+ * Read-modify-write the project manifest with optimistic concurrency: if
+ * the user saves a timeline edit between our read and write, the edit is
+ * re-applied on the fresh manifest. The edit may change the manifest in
+ * place or return a new one, or return an error message.
+ */
+async function editManifest(
+  context: ToolContext,
+  edit: (
+    manifest: ProjectManifest,
+    project: { fps: number; brand?: BrandStyle },
+  ) => ProjectManifest | string | Promise<ProjectManifest | string>,
+): Promise<
+  | { manifest: ProjectManifest; duration: number; fps: number }
+  | { error: string }
+> {
+  for (let attempt = 0; attempt < MAX_MANIFEST_WRITE_ATTEMPTS; attempt++) {
+    const project = await prisma.project.findUnique({
+      where: { id: context.projectId },
+      select: {
+        manifest: true,
+        fps: true,
+        userId: true,
+        manifestVersion: true,
+        brandKit: true,
+      },
+    })
+
+    if (!project) {
+      return { error: 'Project not found' }
+    }
+
+    if (project.userId !== context.userId) {
+      return { error: 'Unauthorized' }
+    }
+
+    const fps = project.fps
+    const brand = project.brandKit ? toBrandStyle(project.brandKit) : undefined
+
+    const edited = await edit(parseManifest(project.manifest), { fps, brand })
+    if (typeof edited === 'string') {
+      return { error: edited }
+    }
+
+    // Reject edits that would produce an invalid manifest
+    // (e.g. a clip without a URL or at a negative frame)
+    let validated: ProjectManifest
+    try {
+      validated = parseManifest(edited)
+    } catch (error) {
+      return {
+        error: error instanceof Error ? error.message : 'Invalid manifest',
+      }
+    }
+
+    const maxFrame = getManifestDuration(validated)
+
+    const manifestJson = JSON.stringify(validated)
+
+    // Save updated manifest only if nobody else saved in the meantime
+    const count = await prisma.$transaction(async (tx) => {
+      const result = await tx.project.updateMany({
+        where: {
+          id: context.projectId,
+          manifestVersion: project.manifestVersion,
+        },
+        data: {
+          manifest: manifestJson,
+          duration: maxFrame,
+        },
+      })
+
+      if (result.count > 0) {
+        await recordRevision(tx, {
+          projectId: context.projectId,
+          previousManifest: project.manifest,
+          manifest: manifestJson,
+          author: 'agent',
+          toolCallId: context.toolCallId,
+        })
+      }
+
+      return result.count
+    })
+
+    if (count === 0) continue
+
+    return { manifest: validated, duration: maxFrame, fps }
+  }
+
+  return { error: 'The timeline is being edited. Please try again.' }
+}
+
+/**
+ * Apply a single timeline action to a manifest in place.
+ * Returns an error message if the action could not be applied.
+ * With a brand kit, text overlays leave colour and size unset unless the
+ * agent chose them, so the composition applies the brand's styling.
+ */
+async function applyTimelineAction(
+  manifest: ProjectManifest,
+  args: UpdateTimelineArgs,
+  fps: number,
+  brand?: BrandStyle,
+): Promise<string | null> {
+  switch (args.action) {
+    case 'addVideoClip': {
+      if (!args.videoAssetId) {
+        return 'videoAssetId is required for addVideoClip'
+      }
+
+      const asset = await prisma.asset.findUnique({
+        where: { id: args.videoAssetId },
+      })
+
+      // Images become still clips, held for durationFrames
+      if (!asset || (asset.type !== 'video' && asset.type !== 'image')) {
+        return 'Video or image asset not found'
+      }
+
+      const isImage = asset.type === 'image'
+
+      // Calculate end of current timeline
+      const lastEndFrame = manifest.tracks.video.reduce(
+        (max, clip) => Math.max(max, clip.startFrame + clip.durationFrames),
+        0,
+      )
+
+      const durationFrames =
+        args.durationFrames ||
+        (asset.durationSeconds
+          ? Math.round(asset.durationSeconds * fps)
+          : fps * DEFAULT_IMAGE_CLIP_SECONDS)
+
+      const newClip: VideoClip = {
+        id: createClipId('video'),
+        assetId: asset.id,
+        url: asset.storageUrl,
+        startFrame: args.startFrame ?? lastEndFrame,
+        durationFrames,
+        layer: args.layer ?? 0,
+        ...(isImage && {
+          mediaType: 'image' as const,
+          fit: args.fit ?? 'blur-fill',
+          motion: args.motion ?? 'zoom-in',
+        }),
+        ...(!isImage && args.fit && { fit: args.fit }),
+      }
+
+      manifest.tracks.video.push(newClip)
+      break
+    }
+
+    case 'addAudioClip': {
+      if (!args.audioAssetId) {
+        return 'audioAssetId is required for addAudioClip'
+      }
+
+      const asset = await prisma.asset.findUnique({
+        where: { id: args.audioAssetId },
+      })
+
+      if (!asset || asset.type !== 'audio') {
+        return 'Audio asset not found'
+      }
+
+      const metadata = asset.metadata ? JSON.parse(asset.metadata) : {}
+
+      const durationFrames =
+        args.durationFrames ||
+        (asset.durationSeconds ? Math.round(asset.durationSeconds * fps) : 150)
+
+      const newClip: AudioClip = {
+        id: createClipId('audio'),
+        assetId: asset.id,
+        url: asset.storageUrl,
+        startFrame: args.startFrame ?? 0,
+        durationFrames,
+        volume: 1,
+        wordTimestamps: metadata.wordTimestamps,
+      }
+
+      manifest.tracks.audio.push(newClip)
+      break
+    }
+
+    case 'addTextOverlay': {
+      const type = args.textOverlayType
+      if (!type) {
+        return 'textOverlayType is required for addTextOverlay'
+      }
+
+      const fields = OVERLAY_FIELDS[type]
+      if (fields.textRequired && !args.textOverlayText) {
+        return `textOverlayText is required for a ${type} overlay`
+      }
+
+      const props: ComponentOverlay['props'] = {
+        ...(fields.text &&
+          args.textOverlayText && { [fields.text]: args.textOverlayText }),
+        ...(fields.hasPosition && {
+          position: args.textOverlayPosition || 'center',
+        }),
+        ...(fields.fontSize &&
+          (args.textOverlayFontSize || !brand) && {
+            fontSize: args.textOverlayFontSize || 48,
+          }),
+        ...(fields.color &&
+          (args.textOverlayColor || !brand) && {
+            [fields.color]: args.textOverlayColor || '#FFFFFF',
+          }),
+        ...args.overlayProps,
+      }
+
+      const newOverlay: ComponentOverlay =
+        type === 'KaraokeText'
+          ? {
+              id: createClipId('components'),
+              component: type,
+              props,
+              startFrame: args.startFrame ?? 0,
+              durationFrames: args.durationFrames ?? 90, // Default 3 seconds
+              layer: args.layer ?? 10,
+            }
+          : createOverlay(type, {
+              startFrame: args.startFrame ?? 0,
+              fps,
+              durationFrames: args.durationFrames,
+              layer: args.layer ?? 10,
+              props,
+            })
+
+      const invalid = validateOverlayProps(type, newOverlay.props)
+      if (invalid) {
+        return invalid
+      }
+
+      manifest.tracks.components.push(newOverlay)
+      break
+    }
+
+    case 'removeClip': {
+      if (!args.clipId) {
+        return 'clipId is required for removeClip'
+      }
+
+      // Try to find and remove from each track type
+      let removed = false
+
+      const videoIndex = manifest.tracks.video.findIndex(
+        (c) => c.id === args.clipId,
+      )
+      if (videoIndex !== -1) {
+        manifest.tracks.video.splice(videoIndex, 1)
+        removed = true
+      }
+
+      const audioIndex = manifest.tracks.audio.findIndex(
+        (c) => c.id === args.clipId,
+      )
+      if (audioIndex !== -1) {
+        manifest.tracks.audio.splice(audioIndex, 1)
+        removed = true
+      }
+
+      const compIndex = manifest.tracks.components.findIndex(
+        (c) => c.id === args.clipId,
+      )
+      if (compIndex !== -1) {
+        manifest.tracks.components.splice(compIndex, 1)
+        removed = true
+      }
+
+      if (!removed) {
+        return `Clip not found: ${args.clipId}`
+      }
+      break
+    }
+
+    case 'moveClip': {
+      if (!args.clipId || args.newStartFrame === undefined) {
+        return 'clipId and newStartFrame are required for moveClip'
+      }
+
+      let moved = false
+
+      const videoClip = manifest.tracks.video.find((c) => c.id === args.clipId)
+      if (videoClip) {
+        videoClip.startFrame = args.newStartFrame
+        moved = true
+      }
+
+      const audioClip = manifest.tracks.audio.find((c) => c.id === args.clipId)
+      if (audioClip) {
+        audioClip.startFrame = args.newStartFrame
+        moved = true
+      }
+
+      const compClip = manifest.tracks.components.find(
+        (c) => c.id === args.clipId,
+      )
+      if (compClip) {
+        compClip.startFrame = args.newStartFrame
+        moved = true
+      }
+
+      if (!moved) {
+        return `Clip not found: ${args.clipId}`
+      }
+      break
+    }
+
+    case 'setBackground': {
+      if (!args.backgroundColor) {
+        return 'backgroundColor is required for setBackground'
+      }
+
+      manifest.globalSettings.backgroundColor = args.backgroundColor
+      break
+    }
+
+    default:
+      return `Unknown action: ${args.action}`
+  }
+
+  return null
+}
+
 // =============================================================================
 // Tool: listAssets
 // =============================================================================
@@ -717,10 +1318,455 @@ export async function executeListAssets(
   }
 }
 
+// =============================================================================
+// Tool: getTemplateSlots
+// =============================================================================
+
+export async function executeGetTemplateSlots(
+  context: ToolContext,
+): Promise<ToolResult> {
+  try {
+    const project = await getTemplateProject(context)
+    if (typeof project === 'string') {
+      return { success: false, error: project }
+    }
+
+    const manifest = parseManifest(project.manifest)
+
+    return {
+      success: true,
+      data: {
+        template: project.template.name,
+        slots: project.slots.map((slot) => ({
+          id: slot.id,
+          label: slot.label,
+          kind: slot.kind,
+          description: slot.description,
+          ...(slot.kind !== 'text' && {
+            startFrame: slot.startFrame,
+            durationFrames: slot.durationFrames,
+            durationSeconds: slot.durationFrames / project.fps,
+          }),
+          // Text, or the asset ID of a media slot; null when empty
+          filledWith: getSlotValue(manifest, slot),
+        })),
+      },
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : 'Failed to get template slots',
+    }
+  }
+}
+
+// =============================================================================
+// Tool: fillTemplateSlot
+// =============================================================================
+
+export async function executeFillTemplateSlot(
+  args: FillTemplateSlotArgs,
+  context: ToolContext,
+): Promise<ToolResult> {
+  try {
+    const project = await getTemplateProject(context)
+    if (typeof project === 'string') {
+      return { success: false, error: project }
+    }
+
+    const slot = project.slots.find((s) => s.id === args.slotId)
+    if (!slot) {
+      return {
+        success: false,
+        error: `Template slot not found: ${args.slotId}`,
+      }
+    }
+
+    if (slot.kind === 'text' ? !args.text : !args.assetId) {
+      return {
+        success: false,
+        error: `${slot.kind === 'text' ? 'text' : 'assetId'} is required to fill "${slot.label}"`,
+      }
+    }
+
+    const result = await editManifest(context, (manifest, { fps }) =>
+      fillTemplateSlots(
+        manifest,
+        project.slots,
+        { [slot.id]: { text: args.text, assetId: args.assetId } },
+        context.userId,
+        fps,
+      ),
+    )
+
+    if ('error' in result) {
+      return { success: false, error: result.error }
+    }
+
+    return {
+      success: true,
+      data: {
+        slotId: slot.id,
+        label: slot.label,
+        filledWith: getSlotValue(result.manifest, slot),
+        totalDuration: result.duration,
+      },
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : 'Failed to fill template slot',
+    }
+  }
+}
+
+/**
+ * The project with its template's slots, or an error message if it
+ * wasn't created from a template
+ */
+async function getTemplateProject(context: ToolContext) {
+  const project = await prisma.project.findUnique({
+    where: { id: context.projectId },
+    select: {
+      userId: true,
+      manifest: true,
+      fps: true,
+      template: { select: { name: true, slots: true } },
+    },
+  })
+
+  if (!project) return 'Project not found'
+  if (project.userId !== context.userId) return 'Unauthorized'
+  if (!project.template) {
+    return 'This project was not created from a template'
+  }
+
+  return {
+    ...project,
+    template: project.template,
+    slots: parseTemplateSlots(project.template.slots),
+  }
+}
+
+// =============================================================================
+// Tools: clip edits
+// =============================================================================
+
+export function executeTrimClip(
+  args: TrimClipArgs,
+  context: ToolContext,
+): Promise<ToolResult> {
+  return executeClipEdit(
+    context,
+    'Failed to trim clip',
+    (manifest) =>
+      trimClip(manifest, args.clipId, args.edge, Math.round(args.deltaFrames)),
+    () => [args.clipId],
+  )
+}
+
+export function executeSplitClip(
+  args: SplitClipArgs,
+  context: ToolContext,
+): Promise<ToolResult> {
+  return executeClipEdit(
+    context,
+    'Failed to split clip',
+    (manifest) => splitClip(manifest, args.clipId, Math.round(args.frame)),
+    // The second half is the clip that wasn't there before
+    (before, after) => {
+      const existing = new Set(
+        Object.values(before.tracks).flatMap((clips) => clips.map((c) => c.id)),
+      )
+      const added = Object.values(after.tracks)
+        .flatMap((clips) => clips.map((c) => c.id))
+        .filter((id) => !existing.has(id))
+      return [args.clipId, ...added]
+    },
+  )
+}
+
+export function executeSetTransition(
+  args: SetTransitionArgs,
+  context: ToolContext,
+): Promise<ToolResult> {
+  return executeClipEdit(
+    context,
+    'Failed to set transition',
+    (manifest) =>
+      setTransition(
+        manifest,
+        args.clipId,
+        args.transition,
+        args.durationFrames !== undefined
+          ? Math.round(args.durationFrames)
+          : undefined,
+      ),
+    () => [args.clipId],
+  )
+}
+
+export function executeSetEffects(
+  args: SetEffectsArgs,
+  context: ToolContext,
+): Promise<ToolResult> {
+  return executeClipEdit(
+    context,
+    'Failed to set effects',
+    (manifest) =>
+      args.effects.reduce(
+        (next, effect) =>
+          setClipEffect(next, args.clipId, effect.type, effect.value),
+        manifest,
+      ),
+    () => [args.clipId],
+  )
+}
+
+export function executeSetKeyframes(
+  args: SetKeyframesArgs,
+  context: ToolContext,
+): Promise<ToolResult> {
+  return executeClipEdit(
+    context,
+    'Failed to set keyframes',
+    (manifest) =>
+      setKeyframes(manifest, args.clipId, args.property, args.keyframes),
+    () => [args.clipId],
+  )
+}
+
+export function executeSetVolume(
+  args: SetVolumeArgs,
+  context: ToolContext,
+): Promise<ToolResult> {
+  const { clipId, volume, fadeInFrames, fadeOutFrames, track, muted, solo } =
+    args
+  const changesClip =
+    volume !== undefined ||
+    fadeInFrames !== undefined ||
+    fadeOutFrames !== undefined
+  const changesTrack = muted !== undefined || solo !== undefined
+  const changesDucking =
+    args.ducking !== undefined || args.duckingLevel !== undefined
+
+  if (!changesClip && !changesTrack && !changesDucking) {
+    return Promise.resolve({
+      success: false,
+      error: 'Nothing to change: set a clip volume, track mute/solo or ducking',
+    })
+  }
+  if (changesClip && !clipId) {
+    return Promise.resolve({
+      success: false,
+      error: 'clipId is required to change volume or fades',
+    })
+  }
+  if (changesTrack && !track) {
+    return Promise.resolve({
+      success: false,
+      error: 'track is required to mute or solo',
+    })
+  }
+
+  return executeClipEdit(
+    context,
+    'Failed to set volume',
+    (manifest) => {
+      let next = manifest
+
+      if (clipId && changesClip) {
+        if (findClip(next, clipId)?.track !== 'audio') {
+          return `Audio clip not found: ${clipId}`
+        }
+        next = updateClipSettings(next, clipId, {
+          volume,
+          fadeInFrames,
+          fadeOutFrames,
+        })
+      }
+
+      if (track && changesTrack) {
+        next = setTrackMix(next, track, {
+          ...(muted !== undefined && { muted }),
+          ...(solo !== undefined && { solo }),
+        })
+      }
+
+      if (changesDucking) {
+        const ducking = next.audioMix?.ducking ?? DEFAULT_DUCKING
+        next = setAudioMix(next, {
+          ducking: {
+            ...ducking,
+            enabled: args.ducking ?? true,
+            ...(args.duckingLevel !== undefined && {
+              level: Math.min(1, Math.max(0, args.duckingLevel)),
+            }),
+          },
+        })
+      }
+
+      return next
+    },
+    () => (clipId && changesClip ? [clipId] : []),
+  )
+}
+
+export function executeUpdateOverlayProps(
+  args: UpdateOverlayPropsArgs,
+  context: ToolContext,
+): Promise<ToolResult> {
+  // null clears a prop, as JSON has no undefined
+  const props = Object.fromEntries(
+    Object.entries(args.props).map(([key, value]) => [
+      key,
+      value === null ? undefined : value,
+    ]),
+  )
+
+  return executeClipEdit(
+    context,
+    'Failed to update overlay',
+    (manifest) => updateOverlayProps(manifest, args.clipId, props),
+    () => [args.clipId],
+  )
+}
+
+export function executeReorderClips(
+  args: ReorderClipsArgs,
+  context: ToolContext,
+): Promise<ToolResult> {
+  return executeClipEdit(
+    context,
+    'Failed to reorder clips',
+    (manifest) => reorderClips(manifest, args.clipIds),
+    () => args.clipIds,
+  )
+}
+
+/**
+ * Apply a timeline edit and report the clips it changed, as they are
+ * after the edit, with the new project length
+ */
+async function executeClipEdit(
+  context: ToolContext,
+  fallbackError: string,
+  edit: (manifest: ProjectManifest) => ProjectManifest | string,
+  changedClipIds: (
+    before: ProjectManifest,
+    after: ProjectManifest,
+  ) => Array<string>,
+): Promise<ToolResult> {
+  try {
+    let before: ProjectManifest | undefined
+    const result = await editManifest(context, (manifest) => {
+      // Timeline edits are pure, so the read manifest is left as it was
+      before = manifest
+      return edit(manifest)
+    })
+
+    if ('error' in result) {
+      return { success: false, error: result.error }
+    }
+
+    const { manifest, duration, fps } = result
+    const clips = (before ? changedClipIds(before, manifest) : []).flatMap(
+      (clipId) => {
+        const found = findClip(manifest, clipId)
+        return found ? [describeClip(found.track, found.clip)] : []
+      },
+    )
+
+    return {
+      success: true,
+      data: {
+        clips,
+        ...(manifest.audioMix && { audioMix: manifest.audioMix }),
+        totalDuration: duration,
+        totalDurationSeconds: duration / fps,
+      },
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : fallbackError,
+    }
+  }
+}
+
+/**
+ * The parts of a clip the agent needs to edit it
+ */
+function describeClip(track: TrackKey, clip: TimelineItem) {
+  const timing = {
+    id: clip.id,
+    track,
+    startFrame: clip.startFrame,
+    durationFrames: clip.durationFrames,
+  }
+
+  if (track === 'components') {
+    const overlay = clip as ComponentOverlay
+    return {
+      ...timing,
+      layer: overlay.layer,
+      component: overlay.component,
+      props: overlay.props,
+      keyframes: overlay.keyframes,
+    }
+  }
+
+  if (track === 'audio') {
+    const audio = clip as AudioClip
+    return {
+      ...timing,
+      assetId: audio.assetId,
+      role: audio.role,
+      volume: audio.volume,
+      fadeInFrames: audio.fadeInFrames,
+      fadeOutFrames: audio.fadeOutFrames,
+    }
+  }
+
+  const video = clip as VideoClip
+  return {
+    ...timing,
+    layer: video.layer,
+    assetId: video.assetId,
+    mediaType: video.mediaType,
+    transition: video.transition,
+    transitionDuration: video.transitionDuration,
+    effects: video.effects,
+    keyframes: video.keyframes,
+  }
+}
+
 // =============================================================================
 // Main Executor
 // =============================================================================
 
+/**
+ * Run a tool with its arguments parsed by the tool's schema. The LLM, or a
+ * user editing a call before approving it, can send any JSON, so arguments
+ * are never trusted to match the tool's types.
+ */
+function withParsedArgs<T>(
+  schema: z.ZodType<T>,
+  input: unknown,
+  run: (args: T) => Promise<ToolResult>,
+): Promise<ToolResult> {
+  const parsed = schema.safeParse(input)
+  if (!parsed.success) {
+    return Promise.resolve({
+      success: false,
+      error: `Invalid arguments: ${formatManifestIssue(parsed.error)}`,
+    })
+  }
+  return run(parsed.data)
+}
+
 /**
  * Execute a tool by name with given arguments
  */
@@ -734,19 +1780,105 @@ export async function executeTool(
       return executeGetProjectState(context)
 
     case TOOL_NAMES.GENERATE_IMAGE:
-      return executeGenerateImage(args as GenerateImageArgs, context)
+      return withParsedArgs(generateImageSchema, args, (input) =>
+        executeGenerateImage(input, context),
+      )
 
     case TOOL_NAMES.GENERATE_VIDEO:
-      return executeGenerateVideo(args as GenerateVideoArgs, context)
+      return withParsedArgs(generateVideoSchema, args, (input) =>
+        executeGenerateVideo(input, context),
+      )
 
     case TOOL_NAMES.GENERATE_VOICEOVER:
-      return executeGenerateVoiceover(args as GenerateVoiceoverArgs, context)
+      return withParsedArgs(generateVoiceoverSchema, args, (input) =>
+        executeGenerateVoiceover(input, context),
+      )
+
+    case TOOL_NAMES.EDIT_IMAGE:
+      return withParsedArgs(editImageSchema, args, (input) =>
+        executeEditImage(input, context),
+      )
+
+    case TOOL_NAMES.UPSCALE_IMAGE:
+      return withParsedArgs(upscaleImageSchema, args, (input) =>
+        executeUpscaleImage(input, context),
+      )
+
+    case TOOL_NAMES.UPSCALE_VIDEO:
+      return withParsedArgs(upscaleVideoSchema, args, (input) =>
+        executeUpscaleVideo(input, context),
+      )
+
+    case TOOL_NAMES.GENERATE_MOTION_CONTROL:
+      return withParsedArgs(generateMotionControlSchema, args, (input) =>
+        executeGenerateMotionControl(input, context),
+      )
+
+    case TOOL_NAMES.GENERATE_3D_MODEL:
+      return withParsedArgs(generate3DModelSchema, args, (input) =>
+        executeGenerate3DModel(input, context),
+      )
+
+    case TOOL_NAMES.WAIT_FOR_JOBS:
+      return executeWaitForJobs(args, context)
 
     case TOOL_NAMES.UPDATE_TIMELINE:
-      return executeUpdateTimeline(args as UpdateTimelineArgs, context)
+      return withParsedArgs(updateTimelineSchema, args, (input) =>
+        executeUpdateTimeline(input, context),
+      )
 
     case TOOL_NAMES.LIST_ASSETS:
-      return executeListAssets(args as ListAssetsArgs, context)
+      return withParsedArgs(listAssetsSchema, args, (input) =>
+        executeListAssets(input, context),
+      )
+
+    case TOOL_NAMES.TRIM_CLIP:
+      return withParsedArgs(trimClipSchema, args, (input) =>
+        executeTrimClip(input, context),
+      )
+
+    case TOOL_NAMES.SPLIT_CLIP:
+      return withParsedArgs(splitClipSchema, args, (input) =>
+        executeSplitClip(input, context),
+      )
+
+    case TOOL_NAMES.SET_TRANSITION:
+      return withParsedArgs(setTransitionSchema, args, (input) =>
+        executeSetTransition(input, context),
+      )
+
+    case TOOL_NAMES.SET_EFFECTS:
+      return withParsedArgs(setEffectsSchema, args, (input) =>
+        executeSetEffects(input, context),
+      )
+
+    case TOOL_NAMES.SET_KEYFRAMES:
+      return withParsedArgs(setKeyframesSchema, args, (input) =>
+        executeSetKeyframes(input, context),
+      )
+
+    case TOOL_NAMES.SET_VOLUME:
+      return withParsedArgs(setVolumeSchema, args, (input) =>
+        executeSetVolume(input, context),
+      )
+
+    case TOOL_NAMES.UPDATE_OVERLAY_PROPS:
+      return withParsedArgs(updateOverlayPropsSchema, args, (input) =>
+        executeUpdateOverlayProps(input, context),
+      )
+
+    case TOOL_NAMES.REORDER_CLIPS:
+      return withParsedArgs(reorderClipsSchema, args, (input) =>
+        executeReorderClips(input, context),
+      )
+
+    case TOOL_NAMES.GET_TEMPLATE_SLOTS:
+      return executeGetTemplateSlots(context)
+
+    case TOOL_NAMES.FILL_TEMPLATE_SLOT:
+      return withParsedArgs(fillTemplateSlotSchema, args, (input) =>
+        executeFillTemplateSlot(input, context),
+      )
 
     default:
       return { success: false, error: `Unknown tool: ${toolName}` }
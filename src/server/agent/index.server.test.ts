@@ -0,0 +1,296 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { prisma } from '../../db.server'
+import { chatCompletionStream } from '../services/index.server'
+import {
+  getSpendApproval,
+  loadChatHistory,
+  streamAssistantMessage,
+} from './index.server'
+import type { AgentEvent } from './index.server'
+import type { StreamChunk, ToolCall } from '../services/index.server'
+
+vi.mock('../../db.server', () => ({
+  prisma: { chatMessage: { findMany: vi.fn() } },
+}))
+vi.mock('../services/index.server', () => ({
+  chatCompletionStream: vi.fn(),
+}))
+vi.mock('./executor.server', () => ({ executeTool: vi.fn() }))
+
+interface StoredMessage {
+  id: string
+  role: string
+  content: string
+  toolCalls: string | null
+  toolCallId: string | null
+  toolName: string | null
+  createdAt: Date
+}
+
+/**
+ * Serve the stored messages the way the database would for findMany
+ */
+function storeMessages(messages: Array<StoredMessage>) {
+  vi.mocked(prisma.chatMessage.findMany).mockImplementation(((args: {
+    orderBy: { createdAt: 'asc' | 'desc' }
+    take: number
+  }) => {
+    const sorted = [...messages].sort(
+      (a, b) => a.createdAt.getTime() - b.createdAt.getTime(),
+    )
+    if (args.orderBy.createdAt === 'desc') sorted.reverse()
+    return Promise.resolve(sorted.slice(0, args.take))
+  }) as never)
+}
+
+/**
+ * A chat of turns that each call one tool: user, assistant, tool result
+ */
+function chatOfTurns(turns: number): Array<StoredMessage> {
+  const messages: Array<Omit<StoredMessage, 'id' | 'createdAt'>> = []
+  for (let turn = 0; turn < turns; turn++) {
+    const callId = `call-${turn}`
+    const base = { toolCalls: null, toolCallId: null, toolName: null }
+    messages.push(
+      {
+        ...base,
+        role: 'user',
+        content: `Turn ${turn}`,
+      },
+      {
+        ...base,
+        role: 'assistant',
+        content: '',
+        toolCalls: JSON.stringify([
+          {
+            id: callId,
+            type: 'function',
+            function: { name: 'listAssets', arguments: '{}' },
+          },
+        ]),
+      },
+      {
+        ...base,
+        role: 'tool',
+        content: '{"success":true}',
+        toolCallId: callId,
+        toolName: 'listAssets',
+      },
+    )
+  }
+  return messages.map((message, index) => ({
+    ...message,
+    id: `message-${index}`,
+    createdAt: new Date(index * 1000),
+  }))
+}
+
+/**
+ * Stream the given deltas as the model's response
+ */
+function streamDeltas(deltas: Array<StreamChunk['choices'][number]['delta']>) {
+  vi.mocked(chatCompletionStream).mockImplementation(async function* () {
+    for await (const delta of deltas) {
+      yield {
+        id: 'response-1',
+        model: 'test-model',
+        choices: [{ index: 0, delta, finish_reason: null }],
+      }
+    }
+  })
+}
+
+/**
+ * Run a generator to completion, collecting what it yields and returns
+ */
+async function drain<T>(
+  generator: AsyncGenerator<AgentEvent, T>,
+): Promise<{ events: Array<AgentEvent>; result: T }> {
+  const events: Array<AgentEvent> = []
+  for (;;) {
+    const next = await generator.next()
+    if (next.done) return { events, result: next.value }
+    events.push(next.value)
+  }
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+})
+
+// =============================================================================
+// Chat History
+// =============================================================================
+
+describe('loadChatHistory', () => {
+  it('loads the whole chat when it fits the window', async () => {
+    storeMessages(chatOfTurns(2))
+
+    const history = await loadChatHistory('project-1')
+
+    expect(history.map((message) => message.role)).toEqual([
+      'user',
+      'assistant',
+      'tool',
+      'user',
+      'assistant',
+      'tool',
+    ])
+    expect(history[1].tool_calls?.[0].id).toBe('call-0')
+    expect(history[2]).toMatchObject({
+      tool_call_id: 'call-0',
+      name: 'listAssets',
+    })
+  })
+
+  it('keeps the newest messages of a long chat, starting at a user message', async () => {
+    // 60 messages; the newest 50 open with turn 3's assistant and tool result
+    storeMessages(chatOfTurns(20))
+
+    const history = await loadChatHistory('project-1')
+
+    expect(history).toHaveLength(48)
+    expect(history[0]).toEqual({ role: 'user', content: 'Turn 4' })
+    expect(history.at(-1)).toMatchObject({
+      role: 'tool',
+      tool_call_id: 'call-19',
+    })
+  })
+
+  it('starts at an assistant message when one turn fills the window', async () => {
+    // One user message, then 30 tool calls and their results
+    const [user, ...rest] = chatOfTurns(30)
+    storeMessages([user, ...rest.filter((message) => message.role !== 'user')])
+
+    const history = await loadChatHistory('project-1')
+
+    expect(history).toHaveLength(50)
+    expect(history[0]).toMatchObject({ role: 'assistant' })
+    expect(history[1].tool_call_id).toBe(history[0].tool_calls?.[0].id)
+  })
+})
+
+// =============================================================================
+// Streaming
+// =============================================================================
+
+describe('streamAssistantMessage', () => {
+  it('forwards text deltas and joins them into the message', async () => {
+    streamDeltas([{ role: 'assistant' }, { content: 'Hel' }, { content: 'lo' }])
+
+    const { events, result } = await drain(
+      streamAssistantMessage({ messages: [] }),
+    )
+
+    expect(events).toEqual([
+      { type: 'text', data: { content: 'Hel' } },
+      { type: 'text', data: { content: 'lo' } },
+    ])
+    expect(result).toEqual({ role: 'assistant', content: 'Hello' })
+  })
+
+  it('assembles tool calls from argument fragments by index', async () => {
+    streamDeltas([
+      {
+        tool_calls: [
+          {
+            index: 0,
+            id: 'call-a',
+            type: 'function',
+            function: { name: 'listAssets', arguments: '' },
+          },
+        ],
+      },
+      { tool_calls: [{ index: 0, function: { arguments: '{"type":' } }] },
+      {
+        tool_calls: [
+          { index: 0, function: { arguments: '"video"}' } },
+          {
+            index: 2,
+            id: 'call-b',
+            type: 'function',
+            function: { name: 'getProjectState', arguments: '{}' },
+          },
+        ],
+      },
+    ])
+
+    const { events, result } = await drain(
+      streamAssistantMessage({ messages: [] }),
+    )
+
+    expect(
+      events.map(
+        (event) => (event.data as { argumentsDelta: string }).argumentsDelta,
+      ),
+    ).toEqual(['', '{"type":', '"video"}', '{}'])
+    expect(result.tool_calls).toEqual([
+      {
+        id: 'call-a',
+        type: 'function',
+        function: { name: 'listAssets', arguments: '{"type":"video"}' },
+      },
+      {
+        id: 'call-b',
+        type: 'function',
+        function: { name: 'getProjectState', arguments: '{}' },
+      },
+    ])
+  })
+})
+
+// =============================================================================
+// Spend Approval
+// =============================================================================
+
+describe('getSpendApproval', () => {
+  function toolCall(id: string, name: string, args: unknown): ToolCall {
+    return {
+      id,
+      type: 'function',
+      function: { name, arguments: JSON.stringify(args) },
+    }
+  }
+
+  it('skips approval when no call spends credits', () => {
+    expect(
+      getSpendApproval([
+        toolCall('call-1', 'listAssets', {}),
+        toolCall('call-2', 'getProjectState', {}),
+      ]),
+    ).toBeNull()
+  })
+
+  it('asks to approve the whole turn with its estimated total', () => {
+    const approval = getSpendApproval([
+      toolCall('call-1', 'generateVideo', { prompt: 'Waves', duration: 10 }),
+      toolCall('call-2', 'updateTimeline', { action: 'add' }),
+      toolCall('call-3', 'generateImage', { prompt: 'Sunset' }),
+    ])
+
+    expect(approval).toEqual({
+      status: 'pending',
+      calls: [
+        {
+          id: 'call-1',
+          name: 'generateVideo',
+          arguments: { prompt: 'Waves', duration: 10 },
+          estimatedCost: 1,
+        },
+        {
+          id: 'call-2',
+          name: 'updateTimeline',
+          arguments: { action: 'add' },
+          estimatedCost: null,
+        },
+        {
+          id: 'call-3',
+          name: 'generateImage',
+          arguments: { prompt: 'Sunset' },
+          estimatedCost: 0.04,
+        },
+      ],
+      totalCost: 1.04,
+    })
+  })
+})
@@ -2,15 +2,27 @@
  * Agent Orchestration
  *
  * Main agent loop that processes user messages, calls tools,
- * and streams responses back to the client.
+ * and streams responses back to the client. Every LLM turn is streamed:
+ * text deltas are forwarded as they arrive, and tool calls are announced
+ * while their arguments are still being written.
+ *
+ * With confirm-before-spend on, tool calls that spend credits are not run
+ * straight away: the turn ends with a plan of the calls and their
+ * estimated cost, saved on the assistant message, and the loop resumes
+ * once the user approves (optionally with edited arguments) or rejects it.
  */
 
 import { prisma } from '../../db.server'
-import { chatCompletion, chatCompletionStream } from '../services/index.server'
+import { chatCompletionStream } from '../services/index.server'
 import { AGENT_TOOLS } from './tools.server'
+import { estimateToolCost, sumToolCosts } from './tool-costs'
 import { getSystemPrompt } from './system-prompt.server'
 import { executeTool } from './executor.server'
-import type { ChatMessage, ToolCall } from '../services/index.server'
+import type {
+  ChatCompletionInput,
+  ChatMessage,
+  ToolCall,
+} from '../services/index.server'
 import type { ToolContext, ToolResult } from './executor.server'
 
 // =============================================================================
@@ -22,12 +34,48 @@ export interface AgentInput {
   userId: string
   userMessage: string
   model?: string
+  /** Aborted when the client disconnects */
+  signal?: AbortSignal
+}
+
+/**
+ * The user's answer to tool calls waiting for approval
+ */
+export interface ApprovalInput {
+  projectId: string
+  userId: string
+  /** ID of the assistant message holding the tool calls */
+  messageId: string
+  decision: 'approve' | 'reject'
+  /** Edited arguments by tool call ID, replacing the proposed ones */
+  arguments?: Record<string, unknown>
+  model?: string
+  /** Aborted when the client disconnects */
+  signal?: AbortSignal
+}
+
+/**
+ * Tool calls proposed by the agent, saved on its message until answered
+ */
+export interface ToolCallApproval {
+  status: 'pending' | 'approved' | 'rejected'
+  calls: Array<{
+    id: string
+    name: string
+    arguments: unknown
+    /** Estimated cost in USD, null for tools that don't spend credits */
+    estimatedCost: number | null
+  }>
+  totalCost: number
 }
 
 export type AgentEventType =
   | 'text' // Streaming text content
+  | 'tool_call_delta' // A tool call is being written (streamed arguments)
   | 'tool_call' // Agent is calling a tool
+  | 'tool_progress' // A long-running tool is still working
   | 'tool_result' // Tool execution result
+  | 'approval_required' // Tool calls wait for the user to approve them
   | 'error' // Error occurred
   | 'done' // Stream complete
 
@@ -41,16 +89,31 @@ export interface TextEvent {
   data: { content: string }
 }
 
+export interface ToolCallDeltaEvent {
+  type: 'tool_call_delta'
+  data: { id: string; name: string; argumentsDelta: string }
+}
+
 export interface ToolCallEvent {
   type: 'tool_call'
   data: { id: string; name: string; arguments: unknown }
 }
 
+export interface ToolProgressEvent {
+  type: 'tool_progress'
+  data: { id: string; name: string; message?: string }
+}
+
 export interface ToolResultEvent {
   type: 'tool_result'
   data: { id: string; name: string; result: ToolResult }
 }
 
+export interface ApprovalRequiredEvent {
+  type: 'approval_required'
+  data: { messageId: string; approval: ToolCallApproval }
+}
+
 export interface ErrorEvent {
   type: 'error'
   data: { message: string }
@@ -62,24 +125,43 @@ export interface DoneEvent {
 }
 
 // Constants
-const MAX_TOOL_CALLS = 10
-const MAX_ITERATIONS = 5
+// Sized for a whole brief in one turn: generate, wait, animate, wait, then
+// assemble the timeline
+const MAX_TOOL_CALLS = 30
+const MAX_ITERATIONS = 12
+// Messages of earlier turns sent with each request
+const HISTORY_LIMIT = 50
+// How often a running tool reports progress, keeping the stream alive
+const TOOL_PROGRESS_INTERVAL_MS = 10_000
 
 // =============================================================================
 // Chat History Management
 // =============================================================================
 
 /**
- * Load chat history from database
+ * Load the newest messages of the chat, oldest first. The window starts at
+ * a user message, so it never opens with tool results whose calls were cut
+ * off.
  */
-async function loadChatHistory(projectId: string): Promise<Array<ChatMessage>> {
-  const messages = await prisma.chatMessage.findMany({
-    where: { projectId },
-    orderBy: { createdAt: 'asc' },
-    take: 50, // Limit context window
-  })
+export async function loadChatHistory(
+  projectId: string,
+): Promise<Array<ChatMessage>> {
+  const messages = (
+    await prisma.chatMessage.findMany({
+      where: { projectId },
+      orderBy: { createdAt: 'desc' },
+      take: HISTORY_LIMIT, // Limit context window
+    })
+  ).reverse()
+
+  // A single long turn can fill the whole window; then start at its first
+  // assistant message instead, which holds the calls of the results after it
+  let start = messages.findIndex((msg) => msg.role === 'user')
+  if (start === -1) {
+    start = messages.findIndex((msg) => msg.role === 'assistant')
+  }
 
-  return messages.map((msg) => {
+  return messages.slice(start === -1 ? messages.length : start).map((msg) => {
     const base: ChatMessage = {
       role: msg.role as ChatMessage['role'],
       content: msg.content,
@@ -107,6 +189,7 @@ async function saveMessage(
   projectId: string,
   message: ChatMessage,
   toolCalls?: Array<ToolCall>,
+  approval?: ToolCallApproval,
 ): Promise<string> {
   const saved = await prisma.chatMessage.create({
     data: {
@@ -116,12 +199,51 @@ async function saveMessage(
       toolCalls: toolCalls ? JSON.stringify(toolCalls) : null,
       toolCallId: message.tool_call_id,
       toolName: message.name,
+      approval: approval ? JSON.stringify(approval) : null,
     },
   })
 
   return saved.id
 }
 
+/**
+ * Reject tool calls still waiting for approval, e.g. when the user sends
+ * a new message instead of answering. Every tool call needs a result
+ * before the conversation can continue.
+ */
+async function rejectPendingApprovals(projectId: string): Promise<void> {
+  const pending = await prisma.chatMessage.findMany({
+    where: { projectId, approval: { contains: '"status":"pending"' } },
+  })
+
+  for (const message of pending) {
+    const approval = JSON.parse(message.approval!) as ToolCallApproval
+    // Skip approvals answered since they were read
+    const claimed = await prisma.chatMessage.updateMany({
+      where: { id: message.id, approval: message.approval },
+      data: { approval: JSON.stringify({ ...approval, status: 'rejected' }) },
+    })
+    if (claimed.count !== 1) continue
+
+    for (const call of approval.calls) {
+      await saveMessage(projectId, rejectedToolResult(call.id, call.name))
+    }
+  }
+}
+
+function rejectedToolResult(id: string, name: string): ChatMessage {
+  const result: ToolResult = {
+    success: false,
+    error: 'The user rejected this tool call',
+  }
+  return {
+    role: 'tool',
+    content: JSON.stringify(result),
+    tool_call_id: id,
+    name,
+  }
+}
+
 // =============================================================================
 // Agent Loop
 // =============================================================================
@@ -130,37 +252,17 @@ async function saveMessage(
  * Run the agent loop - processes user message and yields events
  */
 export async function* runAgent(input: AgentInput): AsyncGenerator<AgentEvent> {
-  const { projectId, userId, userMessage, model } = input
-
-  const context: ToolContext = { userId, projectId }
+  const { projectId, userId, userMessage, model, signal } = input
 
   try {
-    // Load project info for system prompt context
-    const project = await prisma.project.findUnique({
-      where: { id: projectId },
-      select: { name: true, width: true, height: true, fps: true },
-    })
-
-    if (!project) {
-      yield { type: 'error', data: { message: 'Project not found' } }
+    const session = await startSession(projectId, userId, model, signal)
+    if (typeof session === 'string') {
+      yield { type: 'error', data: { message: session } }
       return
     }
 
-    // Get user's preferred model
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: { preferredLlmModel: true },
-    })
-
-    const llmModel =
-      model || user?.preferredLlmModel || 'anthropic/claude-3.5-sonnet'
-
-    // Build system prompt with context
-    const systemPrompt = getSystemPrompt({
-      projectName: project.name,
-      projectDimensions: { width: project.width, height: project.height },
-      fps: project.fps,
-    })
+    // A new message answers any open approval with "no"
+    await rejectPendingApprovals(projectId)
 
     // Load existing chat history
     const history = await loadChatHistory(projectId)
@@ -171,162 +273,479 @@ export async function* runAgent(input: AgentInput): AsyncGenerator<AgentEvent> {
 
     // Build messages array
     const messages: Array<ChatMessage> = [
-      { role: 'system', content: systemPrompt },
+      { role: 'system', content: session.systemPrompt },
       ...history,
       userMsg,
     ]
 
-    // Agent loop - may run multiple iterations if tool calls are needed
-    let iteration = 0
-    let totalToolCalls = 0
+    yield* runAgentLoop(messages, session)
+  } catch (error) {
+    yield {
+      type: 'error',
+      data: {
+        message: error instanceof Error ? error.message : 'Agent error',
+      },
+    }
+  }
+}
+
+/**
+ * Resume the agent after the user approved or rejected its tool calls.
+ * Approved calls run (with any edited arguments), rejected ones get a
+ * "rejected" result, then the agent continues from there.
+ */
+export async function* respondToApproval(
+  input: ApprovalInput,
+): AsyncGenerator<AgentEvent> {
+  const { projectId, userId, messageId, decision, model, signal } = input
 
-    while (iteration < MAX_ITERATIONS) {
-      iteration++
+  try {
+    const session = await startSession(projectId, userId, model, signal)
+    if (typeof session === 'string') {
+      yield { type: 'error', data: { message: session } }
+      return
+    }
 
-      // First, make a non-streaming call to check if tools need to be called
-      const response = await chatCompletion({
-        messages,
-        model: llmModel,
-        tools: AGENT_TOOLS,
-        toolChoice: 'auto',
-        temperature: 0.7,
-      })
+    const message = await prisma.chatMessage.findUnique({
+      where: { id: messageId },
+    })
 
-      const assistantMessage = response.choices[0]?.message
-      if (!assistantMessage) {
-        yield { type: 'error', data: { message: 'No response from LLM' } }
-        return
+    if (!message || message.projectId !== projectId || !message.approval) {
+      yield { type: 'error', data: { message: 'Approval not found' } }
+      return
+    }
+
+    const approval = JSON.parse(message.approval) as ToolCallApproval
+    if (approval.status !== 'pending') {
+      yield {
+        type: 'error',
+        data: { message: `These tool calls were already ${approval.status}` },
       }
+      return
+    }
 
-      // Check if there are tool calls
-      if (
-        assistantMessage.tool_calls &&
-        assistantMessage.tool_calls.length > 0
-      ) {
-        // Save assistant message with tool calls
-        await saveMessage(
-          projectId,
-          assistantMessage,
-          assistantMessage.tool_calls,
-        )
-
-        // Add to messages for next iteration
-        messages.push(assistantMessage)
-
-        // Execute each tool call
-        for (const toolCall of assistantMessage.tool_calls) {
-          if (totalToolCalls >= MAX_TOOL_CALLS) {
-            yield {
-              type: 'error',
-              data: { message: 'Maximum tool calls reached' },
-            }
-            break
+    // Apply edited arguments to the calls that will run
+    const edited = decision === 'approve' ? (input.arguments ?? {}) : {}
+    const toolCalls = (
+      JSON.parse(message.toolCalls ?? '[]') as Array<ToolCall>
+    ).map((call) =>
+      call.id in edited
+        ? {
+            ...call,
+            function: {
+              ...call.function,
+              arguments: JSON.stringify(edited[call.id]),
+            },
+          }
+        : call,
+    )
+
+    // Edited calls are estimated again, so the saved cost is what ran
+    const calls = approval.calls.map((call) =>
+      call.id in edited
+        ? {
+            ...call,
+            arguments: edited[call.id],
+            estimatedCost: estimateToolCost(call.name, edited[call.id]),
           }
+        : call,
+    )
+
+    // Claim the approval by swapping in the answer only if it is still the
+    // pending one we read, so a double click or retried request can't run
+    // the calls twice
+    const claimed = await prisma.chatMessage.updateMany({
+      where: { id: messageId, approval: message.approval },
+      data: {
+        toolCalls: JSON.stringify(toolCalls),
+        approval: JSON.stringify({
+          status: decision === 'approve' ? 'approved' : 'rejected',
+          calls,
+          totalCost: sumToolCosts(calls),
+        } satisfies ToolCallApproval),
+      },
+    })
 
-          totalToolCalls++
+    if (claimed.count !== 1) {
+      yield {
+        type: 'error',
+        data: { message: 'These tool calls were already answered' },
+      }
+      return
+    }
 
-          // Parse arguments
-          let args: unknown
-          try {
-            args = JSON.parse(toolCall.function.arguments)
-          } catch {
-            args = {}
-          }
+    // History now ends with the assistant message holding the calls
+    const history = await loadChatHistory(projectId)
+    const messages: Array<ChatMessage> = [
+      { role: 'system', content: session.systemPrompt },
+      ...history,
+    ]
 
-          // Emit tool call event
-          yield {
-            type: 'tool_call',
-            data: {
-              id: toolCall.id,
-              name: toolCall.function.name,
-              arguments: args,
-            },
-          }
+    if (decision === 'approve') {
+      yield* executeToolCalls(toolCalls, messages, session)
+    } else {
+      for (const call of toolCalls) {
+        const result = rejectedToolResult(call.id, call.function.name)
+        await saveMessage(projectId, result)
+        messages.push(result)
+      }
+    }
 
-          // Execute the tool
-          const result = await executeTool(
-            toolCall.function.name,
-            args,
-            context,
-          )
-
-          // Emit tool result event
-          yield {
-            type: 'tool_result',
-            data: {
-              id: toolCall.id,
-              name: toolCall.function.name,
-              result,
-            },
-          }
+    yield* runAgentLoop(messages, session)
+  } catch (error) {
+    yield {
+      type: 'error',
+      data: {
+        message: error instanceof Error ? error.message : 'Agent error',
+      },
+    }
+  }
+}
 
-          // Create tool result message
-          const toolResultMessage: ChatMessage = {
-            role: 'tool',
-            content: JSON.stringify(result),
-            tool_call_id: toolCall.id,
-            name: toolCall.function.name,
-          }
+/**
+ * Whether the user confirms tool calls that spend credits before they run
+ */
+export async function getConfirmAgentSpend(userId: string): Promise<boolean> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { confirmAgentSpend: true },
+  })
+  return user?.confirmAgentSpend ?? false
+}
 
-          // Save tool result
-          await saveMessage(projectId, toolResultMessage)
+// Everything a run of the agent needs besides the messages
+interface AgentSession {
+  context: ToolContext
+  llmModel: string
+  systemPrompt: string
+  confirmSpend: boolean
+  /** Tool calls run so far, up to MAX_TOOL_CALLS */
+  toolCallCount: number
+}
 
-          // Add to messages for next iteration
-          messages.push(toolResultMessage)
-        }
+/**
+ * Load the project and user settings for a run, or an error message
+ */
+async function startSession(
+  projectId: string,
+  userId: string,
+  model?: string,
+  signal?: AbortSignal,
+): Promise<AgentSession | string> {
+  // Load project info for system prompt context
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { name: true, width: true, height: true, fps: true, userId: true },
+  })
 
-        // Continue loop to get next response (may have more tool calls or final response)
-        continue
-      }
+  if (!project) {
+    return 'Project not found'
+  }
 
-      // No tool calls - stream the final response
-      if (assistantMessage.content) {
-        // For the final response, use streaming
-        const streamMessages = [...messages]
-
-        // Remove the last non-streaming response and re-request with streaming
-        // This ensures we get a proper streamed response
-        for await (const chunk of chatCompletionStream({
-          messages: streamMessages,
-          model: llmModel,
-          tools: AGENT_TOOLS,
-          toolChoice: 'none', // No more tool calls for final response
-          temperature: 0.7,
-        })) {
-          const delta = chunk.choices[0]?.delta
-          if (delta?.content) {
-            yield { type: 'text', data: { content: delta.content } }
-          }
-        }
+  if (project.userId !== userId) {
+    return 'Unauthorized'
+  }
 
-        // Save the final assistant message
-        const finalMessage: ChatMessage = {
-          role: 'assistant',
-          content: assistantMessage.content,
-        }
-        const messageId = await saveMessage(projectId, finalMessage)
+  // Get user's preferred model and approval setting
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { preferredLlmModel: true, confirmAgentSpend: true },
+  })
+
+  // Build system prompt with context
+  const systemPrompt = getSystemPrompt({
+    projectName: project.name,
+    projectDimensions: { width: project.width, height: project.height },
+    fps: project.fps,
+  })
+
+  return {
+    context: { userId, projectId, signal },
+    llmModel: model || user?.preferredLlmModel || 'anthropic/claude-3.5-sonnet',
+    systemPrompt,
+    confirmSpend: user?.confirmAgentSpend ?? false,
+    toolCallCount: 0,
+  }
+}
+
+/**
+ * Let the agent respond until it stops calling tools, or pauses for
+ * approval
+ */
+async function* runAgentLoop(
+  messages: Array<ChatMessage>,
+  session: AgentSession,
+): AsyncGenerator<AgentEvent> {
+  const { projectId } = session.context
+
+  // Agent loop - may run multiple iterations if tool calls are needed
+  let iteration = 0
+
+  while (iteration < MAX_ITERATIONS) {
+    iteration++
+
+    const assistantMessage = yield* streamAssistantMessage({
+      messages,
+      model: session.llmModel,
+      tools: AGENT_TOOLS,
+      toolChoice: 'auto',
+      temperature: 0.7,
+    })
 
+    // Check if there are tool calls
+    if (assistantMessage.tool_calls && assistantMessage.tool_calls.length > 0) {
+      const approval = session.confirmSpend
+        ? getSpendApproval(assistantMessage.tool_calls)
+        : null
+
+      // Save assistant message with tool calls
+      const messageId = await saveMessage(
+        projectId,
+        assistantMessage,
+        assistantMessage.tool_calls,
+        approval ?? undefined,
+      )
+
+      if (approval) {
+        // Pause until the user answers (see respondToApproval)
+        yield { type: 'approval_required', data: { messageId, approval } }
         yield { type: 'done', data: { messageId } }
         return
       }
 
-      // No content and no tool calls - end
-      yield { type: 'done', data: {} }
+      // Add to messages for next iteration
+      messages.push(assistantMessage)
+
+      yield* executeToolCalls(assistantMessage.tool_calls, messages, session)
+
+      // Continue loop to get next response (may have more tool calls or final response)
+      continue
+    }
+
+    // No tool calls - the streamed text was the final response
+    if (assistantMessage.content) {
+      const messageId = await saveMessage(projectId, assistantMessage)
+
+      yield { type: 'done', data: { messageId } }
       return
     }
 
-    // Max iterations reached
-    yield {
-      type: 'error',
-      data: { message: 'Maximum iterations reached without completion' },
+    // No content and no tool calls - end
+    yield { type: 'done', data: {} }
+    return
+  }
+
+  // Max iterations reached
+  yield {
+    type: 'error',
+    data: { message: 'Maximum iterations reached without completion' },
+  }
+}
+
+/**
+ * The approval to ask for before running tool calls, or null when none of
+ * them spend credits. The whole turn waits, so calls run in order.
+ */
+export function getSpendApproval(
+  toolCalls: Array<ToolCall>,
+): ToolCallApproval | null {
+  const calls = toolCalls.map((call) => {
+    const args = parseToolArguments(call)
+    return {
+      id: call.id,
+      name: call.function.name,
+      arguments: args,
+      estimatedCost: estimateToolCost(call.function.name, args),
     }
-  } catch (error) {
+  })
+
+  if (calls.every((call) => call.estimatedCost === null)) return null
+
+  return { status: 'pending', calls, totalCost: sumToolCosts(calls) }
+}
+
+/**
+ * Run tool calls in order, saving and appending each result
+ */
+async function* executeToolCalls(
+  toolCalls: Array<ToolCall>,
+  messages: Array<ChatMessage>,
+  session: AgentSession,
+): AsyncGenerator<AgentEvent> {
+  for (const toolCall of toolCalls) {
+    const args = parseToolArguments(toolCall)
+
+    // Emit tool call event
     yield {
-      type: 'error',
+      type: 'tool_call',
       data: {
-        message: error instanceof Error ? error.message : 'Agent error',
+        id: toolCall.id,
+        name: toolCall.function.name,
+        arguments: args,
       },
     }
+
+    // Calls over the limit are skipped, but still need a result
+    if (session.toolCallCount >= MAX_TOOL_CALLS) {
+      yield* saveToolResult(toolCall, messages, session, {
+        success: false,
+        error: 'Maximum tool calls reached',
+      })
+      continue
+    }
+
+    session.toolCallCount++
+
+    // Execute the tool, reporting its progress while it runs. A tool that
+    // throws still gets a result, as every call needs one.
+    let progress: string | undefined
+    const execution = executeTool(toolCall.function.name, args, {
+      ...session.context,
+      toolCallId: toolCall.id,
+      onProgress: (message) => {
+        progress = message
+      },
+    }).catch(
+      (error: unknown): ToolResult => ({
+        success: false,
+        error: error instanceof Error ? error.message : 'Tool failed',
+      }),
+    )
+
+    // Also keeps the stream alive through long waits
+    let result = await waitAtMost(execution, TOOL_PROGRESS_INTERVAL_MS)
+    while (!result) {
+      yield {
+        type: 'tool_progress',
+        data: {
+          id: toolCall.id,
+          name: toolCall.function.name,
+          message: progress,
+        },
+      }
+      result = await waitAtMost(execution, TOOL_PROGRESS_INTERVAL_MS)
+    }
+
+    yield* saveToolResult(toolCall, messages, session, result)
+  }
+}
+
+/**
+ * Emit, save and append the result of a tool call
+ */
+async function* saveToolResult(
+  toolCall: ToolCall,
+  messages: Array<ChatMessage>,
+  session: AgentSession,
+  result: ToolResult,
+): AsyncGenerator<AgentEvent> {
+  // Emit tool result event
+  yield {
+    type: 'tool_result',
+    data: {
+      id: toolCall.id,
+      name: toolCall.function.name,
+      result,
+    },
+  }
+
+  // Create tool result message
+  const toolResultMessage: ChatMessage = {
+    role: 'tool',
+    content: JSON.stringify(result),
+    tool_call_id: toolCall.id,
+    name: toolCall.function.name,
+  }
+
+  // Save tool result
+  await saveMessage(session.context.projectId, toolResultMessage)
+
+  // Add to messages for next iteration
+  messages.push(toolResultMessage)
+}
+
+/**
+ * The promise's value, or undefined if it takes longer than the timeout
+ */
+async function waitAtMost<T>(
+  promise: Promise<T>,
+  ms: number,
+): Promise<T | undefined> {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  try {
+    return await Promise.race([
+      promise,
+      new Promise<undefined>((resolve) => {
+        timer = setTimeout(() => resolve(undefined), ms)
+      }),
+    ])
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+function parseToolArguments(toolCall: ToolCall): unknown {
+  try {
+    return JSON.parse(toolCall.function.arguments)
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Stream one LLM turn, yielding text and tool call deltas as they arrive.
+ * Returns the assembled assistant message.
+ */
+export async function* streamAssistantMessage(
+  input: ChatCompletionInput,
+): AsyncGenerator<AgentEvent, ChatMessage> {
+  let content = ''
+  // Tool calls by their index in the response
+  const toolCalls: Array<ToolCall> = []
+
+  for await (const chunk of chatCompletionStream(input)) {
+    const delta = chunk.choices[0]?.delta
+    if (!delta) continue
+
+    if (delta.content) {
+      content += delta.content
+      yield { type: 'text', data: { content: delta.content } }
+    }
+
+    for (const part of delta.tool_calls ?? []) {
+      let toolCall = toolCalls[part.index] as ToolCall | undefined
+      if (!toolCall) {
+        toolCall = {
+          id: part.id || `call-${Date.now()}-${part.index}`,
+          type: 'function',
+          function: { name: '', arguments: '' },
+        }
+        toolCalls[part.index] = toolCall
+      }
+
+      toolCall.function.name += part.function?.name ?? ''
+      toolCall.function.arguments += part.function?.arguments ?? ''
+
+      if (toolCall.function.name) {
+        yield {
+          type: 'tool_call_delta',
+          data: {
+            id: toolCall.id,
+            name: toolCall.function.name,
+            argumentsDelta: part.function?.arguments ?? '',
+          },
+        }
+      }
+    }
+  }
+
+  // Indexes may skip numbers; drop the gaps
+  const calls = toolCalls.filter(Boolean)
+
+  return {
+    role: 'assistant',
+    content,
+    ...(calls.length > 0 && { tool_calls: calls }),
   }
 }
 
@@ -352,6 +771,7 @@ export async function getChatHistory(projectId: string): Promise<
     role: string
     content: string
     toolCalls?: Array<ToolCall>
+    approval?: ToolCallApproval
     createdAt: Date
   }>
 > {
@@ -368,6 +788,7 @@ export async function getChatHistory(projectId: string): Promise<
     role: msg.role,
     content: msg.content,
     toolCalls: msg.toolCalls ? JSON.parse(msg.toolCalls) : undefined,
+    approval: msg.approval ? JSON.parse(msg.approval) : undefined,
     createdAt: msg.createdAt,
   }))
 }
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest'
+import { estimateToolCost, sumToolCosts } from './tool-costs'
+
+describe('estimateToolCost', () => {
+  it('prices videos by duration and voiceovers by length', () => {
+    expect(estimateToolCost('generateVideo', { duration: 8 })).toBe(0.8)
+    expect(estimateToolCost('generateVideo', {})).toBe(0.5)
+    expect(
+      estimateToolCost('generateVoiceover', { text: 'a'.repeat(2500) }),
+    ).toBe(0.25)
+    expect(estimateToolCost('generateVoiceover', { text: 'Hi' })).toBe(0.01)
+  })
+
+  it('returns null for tools that do not spend credits', () => {
+    expect(estimateToolCost('updateTimeline', { action: 'add' })).toBeNull()
+    expect(estimateToolCost('notATool', undefined)).toBeNull()
+  })
+})
+
+describe('sumToolCosts', () => {
+  it('adds the estimates, counting free calls as zero', () => {
+    expect(
+      sumToolCosts([
+        { estimatedCost: 0.1 },
+        { estimatedCost: null },
+        { estimatedCost: 0.2 },
+      ]),
+    ).toBe(0.3)
+  })
+})
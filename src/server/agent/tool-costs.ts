@@ -0,0 +1,61 @@
+/**
+ * Agent Tool Costs
+ *
+ * Rough estimates of what the agent's tool calls spend, shown to users who
+ * confirm tool calls before they run. Shared with the approval card, which
+ * re-estimates calls as their arguments are edited, so this module must not
+ * import server code.
+ */
+
+import type { ToolName } from './tools.server'
+
+/**
+ * Rough fal.ai cost of a tool call in USD, or null for tools that don't
+ * spend credits
+ */
+export function estimateToolCost(name: string, args: unknown): number | null {
+  const input = (args ?? {}) as Record<string, unknown>
+  let cost: number
+
+  switch (name as ToolName) {
+    case 'generateImage':
+    case 'editImage':
+      cost = 0.04
+      break
+    case 'generateVideo':
+      // Charged per second of video
+      cost = 0.1 * (typeof input.duration === 'number' ? input.duration : 5)
+      break
+    case 'generateVoiceover':
+      // Charged per 1,000 characters
+      cost = Math.max(0.01, (String(input.text ?? '').length / 1000) * 0.1)
+      break
+    case 'upscaleImage':
+      cost = 0.05
+      break
+    case 'upscaleVideo':
+      // Depends on the video's length; this assumes a 5-10s clip
+      cost = 0.5
+      break
+    case 'generateMotionControl':
+      cost = 0.7
+      break
+    case 'generate3DModel':
+      cost = 0.4
+      break
+    default:
+      return null
+  }
+
+  return Math.round(cost * 100) / 100
+}
+
+/**
+ * Total estimated cost of tool calls in USD
+ */
+export function sumToolCosts(
+  calls: Array<{ estimatedCost: number | null }>,
+): number {
+  const total = calls.reduce((sum, call) => sum + (call.estimatedCost ?? 0), 0)
+  return Math.round(total * 100) / 100
+}
@@ -7,6 +7,14 @@
 
 import { z } from 'zod'
 import { zodToJsonSchema } from 'zod-to-json-schema'
+import {
+  audioTrackKeySchema,
+  clipEffectSchema,
+  easingSchema,
+  fitModeSchema,
+  motionPresetSchema,
+  transitionTypeSchema,
+} from '../../remotion/manifest'
 import type { ToolDefinition } from '../services/openrouter.server'
 
 // =============================================================================
@@ -66,6 +74,87 @@ export const generateVoiceoverSchema = z.object({
     .describe('Voice style to use. Defaults to male-narrator.'),
 })
 
+export const editImageSchema = z.object({
+  imageAssetId: z.string().describe('ID of the image asset to edit'),
+  prompt: z
+    .string()
+    .min(3)
+    .max(2000)
+    .describe(
+      'What to change, e.g. "make it brighter", "replace the background with a beach at sunset". The rest of the image is kept.',
+    ),
+})
+
+export const upscaleImageSchema = z.object({
+  imageAssetId: z.string().describe('ID of the image asset to upscale'),
+  scale: z
+    .number()
+    .min(1)
+    .max(4)
+    .optional()
+    .describe('How many times larger to make the image (1-4). Defaults to 2.'),
+})
+
+export const upscaleVideoSchema = z.object({
+  videoAssetId: z.string().describe('ID of the video asset to upscale'),
+  upscaleFactor: z
+    .number()
+    .min(1)
+    .max(4)
+    .optional()
+    .describe('How many times larger to make the video (1-4). Defaults to 2.'),
+})
+
+export const generateMotionControlSchema = z.object({
+  imageAssetId: z
+    .string()
+    .describe('ID of the image asset with the character to animate'),
+  videoAssetId: z
+    .string()
+    .describe('ID of the reference video asset whose motion is copied'),
+  prompt: z
+    .string()
+    .max(500)
+    .optional()
+    .describe('Optional description of the scene or style'),
+  characterOrientation: z
+    .enum(['video', 'image'])
+    .optional()
+    .describe(
+      'Face the character as in the reference video or as in the image. Defaults to video.',
+    ),
+})
+
+export const generate3DModelSchema = z.object({
+  prompt: z
+    .string()
+    .max(1000)
+    .optional()
+    .describe('Description of the object (required without an image)'),
+  imageAssetId: z
+    .string()
+    .optional()
+    .describe('ID of an image asset of the object to turn into a 3D model'),
+})
+
+export const waitForJobsSchema = z.object({
+  jobIds: z
+    .array(z.string())
+    .min(1)
+    .max(10)
+    .describe(
+      'IDs of generation jobs to wait for (the jobId returned by generateImage, generateVideo, editImage, upscaleImage, upscaleVideo or generateMotionControl)',
+    ),
+  timeoutSeconds: z
+    .number()
+    .min(10)
+    .max(300)
+    .optional()
+    .describe(
+      'How long to wait at most (default 180). Jobs still running then are reported as processing.',
+    ),
+})
+
 export const updateTimelineSchema = z.object({
   action: z
     .enum([
@@ -82,7 +171,19 @@ export const updateTimelineSchema = z.object({
   videoAssetId: z
     .string()
     .optional()
-    .describe('Asset ID of the video to add (for addVideoClip)'),
+    .describe(
+      'Asset ID of the video or image to add (for addVideoClip). Images become still clips held for durationFrames (default 5 seconds).',
+    ),
+  fit: fitModeSchema
+    .optional()
+    .describe(
+      'How the media fills the frame: cover (crop), contain (letterbox) or blur-fill (letterbox over a blurred copy). Images default to blur-fill.',
+    ),
+  motion: motionPresetSchema
+    .optional()
+    .describe(
+      'Pan/zoom motion for image clips. Defaults to zoom-in; use "none" for a static image.',
+    ),
 
   // For addAudioClip
   audioAssetId: z
@@ -92,13 +193,26 @@ export const updateTimelineSchema = z.object({
 
   // For addTextOverlay - flattened structure for better LLM compatibility
   textOverlayType: z
-    .enum(['BigTitle', 'LowerThird', 'KaraokeText'])
+    .enum([
+      'BigTitle',
+      'LowerThird',
+      'KaraokeText',
+      'ProgressBar',
+      'Countdown',
+      'CallToAction',
+      'Sticker',
+      'Shape',
+    ])
     .optional()
-    .describe('Type of text overlay (for addTextOverlay)'),
+    .describe(
+      'Type of overlay (for addTextOverlay): BigTitle, LowerThird (name/title bar), KaraokeText, ProgressBar (fills over its duration), Countdown (counts down over its duration), CallToAction (subscribe/follow card), Sticker (emoji), Shape (rectangle/circle/arrow)',
+    ),
   textOverlayText: z
     .string()
     .optional()
-    .describe('Text content for the overlay (for addTextOverlay)'),
+    .describe(
+      'Main text of the overlay (for addTextOverlay): the title for BigTitle, LowerThird and CallToAction, the label for Countdown, the emoji for Sticker. Required for BigTitle, LowerThird, KaraokeText and CallToAction.',
+    ),
   textOverlayPosition: z
     .enum(['top', 'center', 'bottom'])
     .optional()
@@ -107,7 +221,15 @@ export const updateTimelineSchema = z.object({
   textOverlayColor: z
     .string()
     .optional()
-    .describe('Text color (hex, e.g., "#FFFFFF")'),
+    .describe(
+      'Text color (hex, e.g., "#FFFFFF"). Omit to use the project\'s brand kit',
+    ),
+  overlayProps: z
+    .record(z.string(), z.unknown())
+    .optional()
+    .describe(
+      'Extra props for the overlay (for addTextOverlay), e.g. { "subtitle": "..." } for LowerThird, { "buttonText": "Follow" } for CallToAction, { "shape": "arrow", "x": 50, "y": 60, "rotation": 45 } for Shape, { "x": 80, "y": 20, "animation": "wiggle" } for Sticker, { "format": "mm:ss" } for Countdown',
+    ),
 
   // For removeClip/moveClip
   clipId: z.string().optional().describe('ID of the clip to remove or move'),
@@ -146,6 +268,158 @@ export const listAssetsSchema = z.object({
     .describe('Filter assets by type. Defaults to all.'),
 })
 
+export const trimClipSchema = z.object({
+  clipId: z.string().describe('ID of the clip to trim'),
+  edge: z
+    .enum(['start', 'end'])
+    .describe(
+      'Which edge to move. Trimming the start skips into the source media, so the remaining footage stays in place.',
+    ),
+  deltaFrames: z
+    .number()
+    .describe(
+      'Frames to move the edge by; positive moves it later. Shorten the end with a negative value, cut the beginning with a positive value.',
+    ),
+})
+
+export const splitClipSchema = z.object({
+  clipId: z.string().describe('ID of the clip to split'),
+  frame: z
+    .number()
+    .describe(
+      'Timeline frame to split at; must be inside the clip. The second half gets a new clip ID.',
+    ),
+})
+
+export const setTransitionSchema = z.object({
+  clipId: z
+    .string()
+    .describe(
+      'ID of the video clip to transition out of, into the next clip that starts where it ends on the same layer',
+    ),
+  transition: transitionTypeSchema.describe(
+    'Transition type; "cut" removes the transition',
+  ),
+  durationFrames: z
+    .number()
+    .optional()
+    .describe('Length of the transition in frames (default 15)'),
+})
+
+export const setEffectsSchema = z.object({
+  clipId: z.string().describe('ID of the video clip'),
+  effects: z
+    .array(
+      z.object({
+        type: clipEffectSchema.shape.type,
+        value: z
+          .number()
+          .describe(
+            'brightness, contrast and saturation: 0-2 (1 = unchanged); blur: 0-20 px; grayscale: 0-1',
+          ),
+      }),
+    )
+    .describe(
+      'Effects to set. Other effects on the clip are kept; an unchanged value (e.g. brightness 1, blur 0) removes the effect.',
+    ),
+})
+
+export const setKeyframesSchema = z.object({
+  clipId: z.string().describe('ID of the video clip or overlay'),
+  property: z
+    .enum([
+      'x',
+      'y',
+      'scale',
+      'rotation',
+      'opacity',
+      ...clipEffectSchema.shape.type.options,
+    ])
+    .describe(
+      'Property to animate. x/y: offset in percent of the frame (-100 to 100); scale: multiplier (1 = original); rotation: degrees; opacity: 0-1. Effects (brightness, contrast, saturation, blur, grayscale) only on video clips, with the ranges of setEffects.',
+    ),
+  keyframes: z
+    .array(
+      z.object({
+        frame: z
+          .number()
+          .describe('Frame relative to the clip start (0 = its first frame)'),
+        value: z.number().describe('Value of the property at this frame'),
+        easing: easingSchema
+          .optional()
+          .describe('Easing from this keyframe to the next (default linear)'),
+      }),
+    )
+    .describe(
+      'The whole animation of the property, replacing its keyframes. Before the first and after the last keyframe the value holds. An empty list removes the animation.',
+    ),
+})
+
+export const setVolumeSchema = z.object({
+  clipId: z
+    .string()
+    .optional()
+    .describe('ID of an audio clip to change the volume or fades of'),
+  volume: z
+    .number()
+    .optional()
+    .describe('Clip volume, 0-2 (1 = original, 0 = silent)'),
+  fadeInFrames: z.number().optional().describe('Clip fade-in length in frames'),
+  fadeOutFrames: z
+    .number()
+    .optional()
+    .describe('Clip fade-out length in frames'),
+  track: audioTrackKeySchema
+    .optional()
+    .describe(
+      'Audio track to mute or solo ("video" is the sound of video clips)',
+    ),
+  muted: z.boolean().optional().describe('Mute the track'),
+  solo: z.boolean().optional().describe('Solo the track'),
+  ducking: z
+    .boolean()
+    .optional()
+    .describe('Lower music while a voiceover is playing'),
+  duckingLevel: z
+    .number()
+    .optional()
+    .describe('Music volume while ducked, 0-1 (default 0.25)'),
+})
+
+export const updateOverlayPropsSchema = z.object({
+  clipId: z.string().describe('ID of the overlay'),
+  props: z
+    .record(z.string(), z.unknown())
+    .describe(
+      'Props to change, e.g. { "text": "New title" } for BigTitle, { "buttonText": "Shop now" } for CallToAction, { "x": 50, "y": 30 } to move a Sticker or Shape. A prop set to null is removed, restoring its default.',
+    ),
+})
+
+export const reorderClipsSchema = z.object({
+  clipIds: z
+    .array(z.string())
+    .min(1)
+    .describe(
+      'Clip IDs of one track in the order they should play. They are placed back to back from where the earliest of them starts; each keeps its length.',
+    ),
+})
+
+export const getTemplateSlotsSchema = z.object({})
+
+export const fillTemplateSlotSchema = z.object({
+  slotId: z.string().describe('ID of the slot to fill (from getTemplateSlots)'),
+  text: z
+    .string()
+    .optional()
+    .describe('Text for a text slot, e.g. the hook title or CTA copy'),
+  assetId: z
+    .string()
+    .optional()
+    .describe(
+      'Asset ID for a media slot: a video or image for video slots, audio for audio slots. Replaces what filled the slot before.',
+    ),
+})
+
 // =============================================================================
 // Tool Names (for type safety)
 // =============================================================================
@@ -155,8 +429,24 @@ export const TOOL_NAMES = {
   GENERATE_IMAGE: 'generateImage',
   GENERATE_VIDEO: 'generateVideo',
   GENERATE_VOICEOVER: 'generateVoiceover',
+  EDIT_IMAGE: 'editImage',
+  UPSCALE_IMAGE: 'upscaleImage',
+  UPSCALE_VIDEO: 'upscaleVideo',
+  GENERATE_MOTION_CONTROL: 'generateMotionControl',
+  GENERATE_3D_MODEL: 'generate3DModel',
+  WAIT_FOR_JOBS: 'waitForJobs',
   UPDATE_TIMELINE: 'updateTimeline',
   LIST_ASSETS: 'listAssets',
+  TRIM_CLIP: 'trimClip',
+  SPLIT_CLIP: 'splitClip',
+  SET_TRANSITION: 'setTransition',
+  SET_EFFECTS: 'setEffects',
+  SET_KEYFRAMES: 'setKeyframes',
+  SET_VOLUME: 'setVolume',
+  UPDATE_OVERLAY_PROPS: 'updateOverlayProps',
+  REORDER_CLIPS: 'reorderClips',
+  GET_TEMPLATE_SLOTS: 'getTemplateSlots',
+  FILL_TEMPLATE_SLOT: 'fillTemplateSlot',
 } as const
 
 export type ToolName = (typeof TOOL_NAMES)[keyof typeof TOOL_NAMES]
@@ -230,6 +520,60 @@ export const AGENT_TOOLS: Array<ToolDefinition> = [
       parameters: schemaToParameters(generateVoiceoverSchema),
     },
   },
+  {
+    type: 'function',
+    function: {
+      name: TOOL_NAMES.EDIT_IMAGE,
+      description:
+        'Edit an image by describing the change (lighting, colours, background, objects). Creates a new image asset; the original is kept. Returns a job ID - the edit takes ~10-30 seconds.',
+      parameters: schemaToParameters(editImageSchema),
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: TOOL_NAMES.UPSCALE_IMAGE,
+      description:
+        'Increase the resolution of an image, e.g. before animating it or using it full screen. Creates a new image asset. Returns a job ID.',
+      parameters: schemaToParameters(upscaleImageSchema),
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: TOOL_NAMES.UPSCALE_VIDEO,
+      description:
+        'Increase the resolution of a video clip. Creates a new video asset. Returns a job ID - this can take several minutes.',
+      parameters: schemaToParameters(upscaleVideoSchema),
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: TOOL_NAMES.GENERATE_MOTION_CONTROL,
+      description:
+        'Animate a character image with the motion of a reference video (dance, gesture, walk). Creates a new video asset. Returns a job ID - this takes a few minutes.',
+      parameters: schemaToParameters(generateMotionControlSchema),
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: TOOL_NAMES.GENERATE_3D_MODEL,
+      description:
+        'Generate a 3D model from a description or an image. The model appears in the 3D Models library (it cannot be placed on the timeline). Returns a model ID.',
+      parameters: schemaToParameters(generate3DModelSchema),
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: TOOL_NAMES.WAIT_FOR_JOBS,
+      description:
+        'Wait for generation jobs to finish. Returns the asset ID and URL of each completed job, or its error, so the results can be placed on the timeline or used in the next generation in the same turn.',
+      parameters: schemaToParameters(waitForJobsSchema),
+    },
+  },
   {
     type: 'function',
     function: {
@@ -248,6 +592,96 @@ export const AGENT_TOOLS: Array<ToolDefinition> = [
       parameters: schemaToParameters(listAssetsSchema),
     },
   },
+  {
+    type: 'function',
+    function: {
+      name: TOOL_NAMES.TRIM_CLIP,
+      description:
+        'Shorten or lengthen a clip or overlay by moving its start or end edge. Use getProjectState to find clip IDs and timings.',
+      parameters: schemaToParameters(trimClipSchema),
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: TOOL_NAMES.SPLIT_CLIP,
+      description:
+        'Split a clip or overlay in two at a frame, e.g. to remove a middle section or insert something between. Returns the IDs of both halves.',
+      parameters: schemaToParameters(splitClipSchema),
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: TOOL_NAMES.SET_TRANSITION,
+      description:
+        'Set the transition (fade, slide, zoom, glitch...) from a video clip into the next adjacent clip on the same layer, or remove it with "cut".',
+      parameters: schemaToParameters(setTransitionSchema),
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: TOOL_NAMES.SET_EFFECTS,
+      description:
+        'Apply visual effects to a video clip: brightness, contrast, saturation, blur or grayscale.',
+      parameters: schemaToParameters(setEffectsSchema),
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: TOOL_NAMES.SET_KEYFRAMES,
+      description:
+        'Animate a property of a video clip or overlay over time with keyframes: Ken Burns moves (scale and x/y), fading overlays in or out (opacity), spins (rotation) or animated effects.',
+      parameters: schemaToParameters(setKeyframesSchema),
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: TOOL_NAMES.SET_VOLUME,
+      description:
+        'Change audio levels: the volume and fades of an audio clip, mute or solo a track, or duck music under the voiceover.',
+      parameters: schemaToParameters(setVolumeSchema),
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: TOOL_NAMES.UPDATE_OVERLAY_PROPS,
+      description:
+        'Change the props of an existing overlay (text, colours, position, animation...) without recreating it.',
+      parameters: schemaToParameters(updateOverlayPropsSchema),
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: TOOL_NAMES.REORDER_CLIPS,
+      description:
+        'Change the order clips play in, e.g. swap two scenes. The clips are laid out back to back in the given order.',
+      parameters: schemaToParameters(reorderClipsSchema),
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: TOOL_NAMES.GET_TEMPLATE_SLOTS,
+      description:
+        'List the placeholder slots of the template the project was created from (e.g. "Hook video", "Voiceover", "CTA text"), with their timing, guidance and what currently fills them.',
+      parameters: schemaToParameters(getTemplateSlotsSchema),
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: TOOL_NAMES.FILL_TEMPLATE_SLOT,
+      description:
+        "Fill a template slot: write the text of a text slot, or place a generated asset in a media slot at the slot's position and length.",
+      parameters: schemaToParameters(fillTemplateSlotSchema),
+    },
+  },
 ]
 
 // =============================================================================
@@ -259,12 +693,52 @@ export type GenerateImageArgs = z.infer<typeof generateImageSchema>
 export type GenerateVideoArgs = z.infer<typeof generateVideoSchema>
 export type GenerateVoiceoverArgs = z.infer<typeof generateVoiceoverSchema>
 export type UpdateTimelineArgs = z.infer<typeof updateTimelineSchema>
+export type EditImageArgs = z.infer<typeof editImageSchema>
+export type UpscaleImageArgs = z.infer<typeof upscaleImageSchema>
+export type UpscaleVideoArgs = z.infer<typeof upscaleVideoSchema>
+export type GenerateMotionControlArgs = z.infer<
+  typeof generateMotionControlSchema
+>
+export type Generate3DModelArgs = z.infer<typeof generate3DModelSchema>
+export type WaitForJobsArgs = z.infer<typeof waitForJobsSchema>
 export type ListAssetsArgs = z.infer<typeof listAssetsSchema>
+export type TrimClipArgs = z.infer<typeof trimClipSchema>
+export type SplitClipArgs = z.infer<typeof splitClipSchema>
+export type SetTransitionArgs = z.infer<typeof setTransitionSchema>
+export type SetEffectsArgs = z.infer<typeof setEffectsSchema>
+export type SetKeyframesArgs = z.infer<typeof setKeyframesSchema>
+export type SetVolumeArgs = z.infer<typeof setVolumeSchema>
+export type UpdateOverlayPropsArgs = z.infer<typeof updateOverlayPropsSchema>
+export type ReorderClipsArgs = z.infer<typeof reorderClipsSchema>
+export type GetTemplateSlotsArgs = z.infer<typeof getTemplateSlotsSchema>
+export type FillTemplateSlotArgs = z.infer<typeof fillTemplateSlotSchema>
 
 export type ToolArgs =
   | { name: typeof TOOL_NAMES.GET_PROJECT_STATE; args: GetProjectStateArgs }
   | { name: typeof TOOL_NAMES.GENERATE_IMAGE; args: GenerateImageArgs }
   | { name: typeof TOOL_NAMES.GENERATE_VIDEO; args: GenerateVideoArgs }
   | { name: typeof TOOL_NAMES.GENERATE_VOICEOVER; args: GenerateVoiceoverArgs }
+  | { name: typeof TOOL_NAMES.EDIT_IMAGE; args: EditImageArgs }
+  | { name: typeof TOOL_NAMES.UPSCALE_IMAGE; args: UpscaleImageArgs }
+  | { name: typeof TOOL_NAMES.UPSCALE_VIDEO; args: UpscaleVideoArgs }
+  | {
+      name: typeof TOOL_NAMES.GENERATE_MOTION_CONTROL
+      args: GenerateMotionControlArgs
+    }
+  | { name: typeof TOOL_NAMES.GENERATE_3D_MODEL; args: Generate3DModelArgs }
+  | { name: typeof TOOL_NAMES.WAIT_FOR_JOBS; args: WaitForJobsArgs }
   | { name: typeof TOOL_NAMES.UPDATE_TIMELINE; args: UpdateTimelineArgs }
   | { name: typeof TOOL_NAMES.LIST_ASSETS; args: ListAssetsArgs }
+  | { name: typeof TOOL_NAMES.TRIM_CLIP; args: TrimClipArgs }
+  | { name: typeof TOOL_NAMES.SPLIT_CLIP; args: SplitClipArgs }
+  | { name: typeof TOOL_NAMES.SET_TRANSITION; args: SetTransitionArgs }
+  | { name: typeof TOOL_NAMES.SET_EFFECTS; args: SetEffectsArgs }
+  | { name: typeof TOOL_NAMES.SET_KEYFRAMES; args: SetKeyframesArgs }
+  | { name: typeof TOOL_NAMES.SET_VOLUME; args: SetVolumeArgs }
+  | {
+      name: typeof TOOL_NAMES.UPDATE_OVERLAY_PROPS
+      args: UpdateOverlayPropsArgs
+    }
+  | { name: typeof TOOL_NAMES.REORDER_CLIPS; args: ReorderClipsArgs }
+  | { name: typeof TOOL_NAMES.GET_TEMPLATE_SLOTS; args: GetTemplateSlotsArgs }
+  | { name: typeof TOOL_NAMES.FILL_TEMPLATE_SLOT; args: FillTemplateSlotArgs }
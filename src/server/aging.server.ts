@@ -15,6 +15,11 @@ import { generateAging, getJobStatus } from './services/fal.server'
 import { AGE_GROUPS, AGING_MODELS, getAgingModelByType } from './services/types'
 import { uploadFromUrl } from './services/bunny.server'
 import { getUserStorageConfig } from './storage-config.server'
+import {
+  isSavingJobResult,
+  saveJobResult,
+  updateRunningJob,
+} from './jobs.server'
 
 // =============================================================================
 // Schemas
@@ -199,6 +204,11 @@ export const getAgingJobStatusFn = createServerFn({ method: 'GET' })
       throw new Error('Unauthorized')
     }
 
+    // Another poll claimed the job and is still saving its result
+    if (isSavingJobResult(job)) {
+      return { jobId: job.id, status: 'processing' as const, progress: 100 }
+    }
+
     // If already completed or failed, return cached result
     if (job.status === 'completed' || job.status === 'failed') {
       console.log('[AGING_FN] Returning cached result, status:', job.status)
@@ -276,108 +286,107 @@ export const getAgingJobStatusFn = createServerFn({ method: 'GET' })
       const images = result.images || (result.image ? [result.image] : [])
 
       if (images.length > 0) {
-        const uploadedAssets: Array<{
-          url: string
-          assetId: string
-          width: number
-          height: number
-        }> = []
-
-        // Get user's storage config once before the loop
-        const storageConfig = await getUserStorageConfig(context.user.id)
-
-        // Upload each generated image to Bunny CDN and create assets
-        for (let i = 0; i < images.length; i++) {
-          const img = images[i]
-          const filename = `aging-${inputData.subMode}-${inputData.ageGroup}-${Date.now()}-${i}.${inputData.outputFormat || 'jpeg'}`
-
-          let permanentUrl = img.url
-
-          console.log(
-            `[AGING_FN] Uploading image ${i + 1}/${images.length} to Bunny CDN...`,
-          )
-          try {
-            const uploadResult = await uploadFromUrl(
-              img.url,
-              {
-                folder: `images/${context.user.id}`,
+        const output = await saveJobResult(job.id, async () => {
+          const uploadedAssets: Array<{
+            url: string
+            assetId: string
+            width: number
+            height: number
+          }> = []
+
+          // Get user's storage config once before the loop
+          const storageConfig = await getUserStorageConfig(context.user.id)
+
+          // Upload each generated image to Bunny CDN and create assets
+          for (let i = 0; i < images.length; i++) {
+            const img = images[i]
+            const filename = `aging-${inputData.subMode}-${inputData.ageGroup}-${Date.now()}-${i}.${inputData.outputFormat || 'jpeg'}`
+
+            let permanentUrl = img.url
+
+            console.log(
+              `[AGING_FN] Uploading image ${i + 1}/${images.length} to Bunny CDN...`,
+            )
+            try {
+              const uploadResult = await uploadFromUrl(
+                img.url,
+                {
+                  folder: `images/${context.user.id}`,
+                  filename,
+                },
+                storageConfig ?? undefined,
+              )
+              permanentUrl = uploadResult.url
+              console.log('[AGING_FN] Bunny upload success:', permanentUrl)
+            } catch (uploadError) {
+              console.error(
+                '[AGING_FN] Failed to upload to Bunny CDN:',
+                uploadError,
+              )
+              console.log('[AGING_FN] Falling back to FAL temp URL')
+            }
+
+            // Create asset for the generated image
+            const asset = await prisma.asset.create({
+              data: {
+                userId: context.user.id,
+                projectId: job.projectId,
+                type: 'image',
+                storageUrl: permanentUrl,
                 filename,
+                prompt:
+                  inputData.prompt ||
+                  `${inputData.ageGroup} ${inputData.gender}`,
+                provider: 'fal',
+                model: job.model,
+                metadata: JSON.stringify({
+                  width: img.width,
+                  height: img.height,
+                  seed: result.seed,
+                  subMode: inputData.subMode,
+                  ageGroup: inputData.ageGroup,
+                  gender: inputData.gender,
+                  sourceAssetId: inputData.sourceAssetId,
+                  motherAssetId: inputData.motherAssetId,
+                  fatherAssetId: inputData.fatherAssetId,
+                  fatherWeight: inputData.fatherWeight,
+                }),
               },
-              storageConfig ?? undefined,
-            )
-            permanentUrl = uploadResult.url
-            console.log('[AGING_FN] Bunny upload success:', permanentUrl)
-          } catch (uploadError) {
-            console.error(
-              '[AGING_FN] Failed to upload to Bunny CDN:',
-              uploadError,
-            )
-            console.log('[AGING_FN] Falling back to FAL temp URL')
+            })
+
+            uploadedAssets.push({
+              url: permanentUrl,
+              assetId: asset.id,
+              width: img.width,
+              height: img.height,
+            })
+
+            console.log('[AGING_FN] Asset created:', asset.id)
           }
 
-          // Create asset for the generated image
-          const asset = await prisma.asset.create({
-            data: {
-              userId: context.user.id,
-              projectId: job.projectId,
-              type: 'image',
-              storageUrl: permanentUrl,
-              filename,
-              prompt:
-                inputData.prompt || `${inputData.ageGroup} ${inputData.gender}`,
-              provider: 'fal',
-              model: job.model,
-              metadata: JSON.stringify({
-                width: img.width,
-                height: img.height,
-                seed: result.seed,
-                subMode: inputData.subMode,
-                ageGroup: inputData.ageGroup,
-                gender: inputData.gender,
-                sourceAssetId: inputData.sourceAssetId,
-                motherAssetId: inputData.motherAssetId,
-                fatherAssetId: inputData.fatherAssetId,
-                fatherWeight: inputData.fatherWeight,
-              }),
-            },
-          })
-
-          uploadedAssets.push({
-            url: permanentUrl,
-            assetId: asset.id,
-            width: img.width,
-            height: img.height,
-          })
-
-          console.log('[AGING_FN] Asset created:', asset.id)
-        }
+          return {
+            images: uploadedAssets,
+            subMode: inputData.subMode,
+            ageGroup: inputData.ageGroup,
+            gender: inputData.gender,
+          }
+        })
 
-        // Update job as completed
-        await prisma.generationJob.update({
-          where: { id: job.id },
-          data: {
-            status: 'completed',
+        // Another poll claimed the job first and is saving the result
+        if (!output) {
+          return {
+            jobId: job.id,
+            status: 'processing' as const,
             progress: 100,
-            output: JSON.stringify({
-              images: uploadedAssets,
-              subMode: inputData.subMode,
-              ageGroup: inputData.ageGroup,
-              gender: inputData.gender,
-            }),
-          },
-        })
+          }
+        }
         console.log('[AGING_FN] Job marked as completed')
 
         return {
           jobId: job.id,
           status: 'completed' as const,
           progress: 100,
-          output: {
-            images: uploadedAssets,
-            subMode: inputData.subMode,
-            ageGroup: inputData.ageGroup,
-            gender: inputData.gender,
-          },
+          output,
         }
       }
     }
@@ -409,12 +418,9 @@ export const getAgingJobStatusFn = createServerFn({ method: 'GET' })
       progress,
     })
 
-    await prisma.generationJob.update({
-      where: { id: job.id },
-      data: {
-        status: falStatus.status === 'processing' ? 'processing' : 'pending',
-        progress,
-      },
+    await updateRunningJob(job.id, {
+      status: falStatus.status === 'processing' ? 'processing' : 'pending',
+      progress,
     })
 
     return {
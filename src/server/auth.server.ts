@@ -63,6 +63,27 @@ export const updateProfileFn = createServerFn({ method: 'POST' })
     return { success: true, user }
   })
 
+/**
+ * Update AI Director preferences
+ */
+const updateAgentPreferencesSchema = z.object({
+  // Ask before tool calls that spend fal.ai credits
+  confirmAgentSpend: z.boolean(),
+})
+
+export const updateAgentPreferencesFn = createServerFn({ method: 'POST' })
+  .middleware([authMiddleware])
+  .inputValidator(updateAgentPreferencesSchema)
+  .handler(async ({ data, context }) => {
+    const prisma = await getPrisma()
+    await prisma.user.update({
+      where: { id: context.user.id },
+      data: { confirmAgentSpend: data.confirmAgentSpend },
+    })
+
+    return { success: true, confirmAgentSpend: data.confirmAgentSpend }
+  })
+
 /**
  * Get user by ID (admin only)
  */
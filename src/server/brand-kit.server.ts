@@ -0,0 +1,292 @@
+/**
+ * Brand Kit Server Functions
+ *
+ * CRUD for a user's brand kits (colours, fonts, logo watermark and default
+ * LowerThird/BigTitle styling) and assigning a kit to a project.
+ */
+
+import { createServerFn } from '@tanstack/react-start'
+import { z } from 'zod'
+import { prisma } from '../db.server'
+import {
+  bigTitleDefaultsSchema,
+  brandColorsSchema,
+  brandFontSchema,
+  brandStyleSchema,
+  lowerThirdDefaultsSchema,
+  watermarkPositionSchema,
+} from '../remotion/brand'
+import { authMiddleware } from './middleware.server'
+import type { BrandKit } from '../generated/prisma/client'
+import type { BrandStyle } from '../remotion/brand'
+
+// =============================================================================
+// Schemas
+// =============================================================================
+
+const brandKitFieldsSchema = z.object({
+  name: z.string().min(1).max(100),
+  colors: brandColorsSchema.optional(),
+  fonts: z.array(brandFontSchema).optional(),
+  headingFont: z.string().nullable().optional(),
+  bodyFont: z.string().nullable().optional(),
+  // Image asset used as the logo watermark
+  logoAssetId: z.string().nullable().optional(),
+  watermarkPosition: watermarkPositionSchema.nullable().optional(),
+  watermarkOpacity: z.number().min(0).max(1).nullable().optional(),
+  lowerThird: lowerThirdDefaultsSchema.nullable().optional(),
+  bigTitle: bigTitleDefaultsSchema.nullable().optional(),
+})
+
+const createBrandKitSchema = brandKitFieldsSchema
+
+const updateBrandKitSchema = brandKitFieldsSchema.partial().extend({
+  brandKitId: z.string(),
+})
+
+const brandKitIdSchema = z.object({
+  brandKitId: z.string(),
+})
+
+const setProjectBrandKitSchema = z.object({
+  projectId: z.string(),
+  // null removes the project's brand kit
+  brandKitId: z.string().nullable(),
+})
+
+type BrandKitFields = Partial<z.infer<typeof brandKitFieldsSchema>>
+
+// =============================================================================
+// Brand Kit CRUD
+// =============================================================================
+
+/**
+ * List the user's brand kits
+ */
+export const listBrandKitsFn = createServerFn({ method: 'GET' })
+  .middleware([authMiddleware])
+  .handler(async ({ context }) => {
+    const kits = await prisma.brandKit.findMany({
+      where: { userId: context.user.id },
+      orderBy: { createdAt: 'asc' },
+    })
+
+    return kits.map(formatBrandKit)
+  })
+
+/**
+ * Create a brand kit
+ */
+export const createBrandKitFn = createServerFn({ method: 'POST' })
+  .middleware([authMiddleware])
+  .inputValidator(createBrandKitSchema)
+  .handler(async ({ data, context }) => {
+    const kit = await prisma.brandKit.create({
+      data: {
+        userId: context.user.id,
+        name: data.name,
+        ...(await toBrandKitData(data, context.user.id)),
+      },
+    })
+
+    return formatBrandKit(kit)
+  })
+
+/**
+ * Update a brand kit. Projects using it pick up the change on their next
+ * preview or render.
+ */
+export const updateBrandKitFn = createServerFn({ method: 'POST' })
+  .middleware([authMiddleware])
+  .inputValidator(updateBrandKitSchema)
+  .handler(async ({ data, context }) => {
+    await getOwnedBrandKit(data.brandKitId, context.user.id)
+
+    const { brandKitId, ...fields } = data
+    const kit = await prisma.brandKit.update({
+      where: { id: brandKitId },
+      data: {
+        ...(fields.name !== undefined && { name: fields.name }),
+        ...(await toBrandKitData(fields, context.user.id)),
+      },
+    })
+
+    return formatBrandKit(kit)
+  })
+
+/**
+ * Delete a brand kit. Projects using it fall back to no brand.
+ */
+export const deleteBrandKitFn = createServerFn({ method: 'POST' })
+  .middleware([authMiddleware])
+  .inputValidator(brandKitIdSchema)
+  .handler(async ({ data, context }) => {
+    await getOwnedBrandKit(data.brandKitId, context.user.id)
+
+    await prisma.brandKit.delete({
+      where: { id: data.brandKitId },
+    })
+
+    return { success: true }
+  })
+
+/**
+ * Assign a brand kit to a project (or remove it)
+ */
+export const setProjectBrandKitFn = createServerFn({ method: 'POST' })
+  .middleware([authMiddleware])
+  .inputValidator(setProjectBrandKitSchema)
+  .handler(async ({ data, context }) => {
+    const project = await prisma.project.findUnique({
+      where: { id: data.projectId },
+      select: { userId: true },
+    })
+
+    if (!project) {
+      throw new Error('Project not found')
+    }
+
+    if (project.userId !== context.user.id) {
+      throw new Error('Unauthorized')
+    }
+
+    const kit = data.brandKitId
+      ? await getOwnedBrandKit(data.brandKitId, context.user.id)
+      : null
+
+    await prisma.project.update({
+      where: { id: data.projectId },
+      data: { brandKitId: kit?.id ?? null },
+    })
+
+    return {
+      brandKitId: kit?.id ?? null,
+      brand: kit ? toBrandStyle(kit) : null,
+    }
+  })
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * The brand style of a project's brand kit, or null if it has none
+ */
+export async function getProjectBrand(
+  projectId: string,
+): Promise<BrandStyle | null> {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { brandKit: true },
+  })
+
+  return project?.brandKit ? toBrandStyle(project.brandKit) : null
+}
+
+/**
+ * Resolve a stored brand kit into the style the composition applies.
+ * Invalid stored fields are dropped rather than failing the render.
+ */
+export function toBrandStyle(kit: BrandKit): BrandStyle {
+  const parsed = brandStyleSchema.safeParse({
+    colors: parseJson(kit.colors) ?? {},
+    fonts: parseJson(kit.fonts) ?? [],
+    headingFont: kit.headingFont ?? undefined,
+    bodyFont: kit.bodyFont ?? undefined,
+    logoUrl: kit.logoUrl ?? undefined,
+    watermarkPosition: kit.watermarkPosition ?? undefined,
+    watermarkOpacity: kit.watermarkOpacity ?? undefined,
+    lowerThird: parseJson(kit.lowerThird) ?? undefined,
+    bigTitle: parseJson(kit.bigTitle) ?? undefined,
+  })
+
+  if (!parsed.success) {
+    console.warn(`Invalid brand kit ${kit.id}:`, parsed.error.message)
+    return { colors: {}, fonts: [] }
+  }
+
+  return parsed.data
+}
+
+function formatBrandKit(kit: BrandKit) {
+  return {
+    id: kit.id,
+    name: kit.name,
+    logoAssetId: kit.logoAssetId,
+    ...toBrandStyle(kit),
+    createdAt: kit.createdAt,
+    updatedAt: kit.updatedAt,
+  }
+}
+
+async function getOwnedBrandKit(brandKitId: string, userId: string) {
+  const kit = await prisma.brandKit.findUnique({ where: { id: brandKitId } })
+
+  if (!kit) {
+    throw new Error('Brand kit not found')
+  }
+
+  if (kit.userId !== userId) {
+    throw new Error('Unauthorized')
+  }
+
+  return kit
+}
+
+/**
+ * Database columns for the brand kit fields that were provided
+ */
+async function toBrandKitData(fields: BrandKitFields, userId: string) {
+  const data: Partial<Omit<BrandKit, 'id' | 'userId' | 'name'>> = {}
+
+  if (fields.colors !== undefined) data.colors = JSON.stringify(fields.colors)
+  if (fields.fonts !== undefined) data.fonts = JSON.stringify(fields.fonts)
+  if (fields.headingFont !== undefined) data.headingFont = fields.headingFont
+  if (fields.bodyFont !== undefined) data.bodyFont = fields.bodyFont
+  if (fields.watermarkPosition !== undefined) {
+    data.watermarkPosition = fields.watermarkPosition
+  }
+  if (fields.watermarkOpacity !== undefined) {
+    data.watermarkOpacity = fields.watermarkOpacity
+  }
+  if (fields.lowerThird !== undefined) {
+    data.lowerThird = fields.lowerThird && JSON.stringify(fields.lowerThird)
+  }
+  if (fields.bigTitle !== undefined) {
+    data.bigTitle = fields.bigTitle && JSON.stringify(fields.bigTitle)
+  }
+
+  if (fields.logoAssetId !== undefined) {
+    if (fields.logoAssetId === null) {
+      data.logoAssetId = null
+      data.logoUrl = null
+    } else {
+      const asset = await prisma.asset.findUnique({
+        where: { id: fields.logoAssetId },
+        select: { userId: true, type: true, storageUrl: true },
+      })
+
+      if (!asset || asset.userId !== userId) {
+        throw new Error('Logo asset not found')
+      }
+
+      if (asset.type !== 'image') {
+        throw new Error('Logo must be an image asset')
+      }
+
+      data.logoAssetId = fields.logoAssetId
+      data.logoUrl = asset.storageUrl
+    }
+  }
+
+  return data
+}
+
+function parseJson(value: string | null): unknown {
+  if (!value) return null
+  try {
+    return JSON.parse(value)
+  } catch {
+    return null
+  }
+}
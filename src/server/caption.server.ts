@@ -0,0 +1,240 @@
+/**
+ * Caption Server Functions
+ *
+ * Transcribes the speech in audio and video assets (word timestamps are
+ * stored in Asset.metadata, next to the ones TTS produces) and turns them
+ * into KaraokeText caption overlays on a project's timeline.
+ */
+
+import { createServerFn } from '@tanstack/react-start'
+import { z } from 'zod'
+import { prisma } from '../db.server'
+import { getAudioRole } from '../remotion/audio-mix'
+import { createCaptionOverlays, isCaptionFor } from '../remotion/captions'
+import { authMiddleware } from './middleware.server'
+import { getUserFalApiKey } from './byok.server'
+import { getHistoryState, recordRevision } from './revision.server'
+import {
+  getManifestDuration,
+  parseManifest,
+  transcribeMedia,
+} from './services/index.server'
+import type { ComponentOverlay, WordTimestamp } from './services/index.server'
+
+// =============================================================================
+// Schemas
+// =============================================================================
+
+const transcribeAssetSchema = z.object({
+  assetId: z.string(),
+  language: z.string().optional(),
+  // Transcribe again even if the asset already has word timestamps
+  force: z.boolean().optional(),
+})
+
+const generateCaptionsSchema = z.object({
+  projectId: z.string(),
+  // Clips to caption; defaults to voiceover and video clips without captions
+  clipIds: z.array(z.string()).optional(),
+  language: z.string().optional(),
+})
+
+// =============================================================================
+// Transcription
+// =============================================================================
+
+/**
+ * Transcribe an audio or video asset and store its word timestamps
+ */
+export const transcribeAssetFn = createServerFn({ method: 'POST' })
+  .middleware([authMiddleware])
+  .inputValidator(transcribeAssetSchema)
+  .handler(async ({ data, context }) => {
+    const wordTimestamps = await getAssetWordTimestamps(
+      data.assetId,
+      context.user.id,
+      { language: data.language, force: data.force },
+    )
+
+    return { assetId: data.assetId, wordTimestamps }
+  })
+
+// =============================================================================
+// Auto Captions
+// =============================================================================
+
+/**
+ * Caption clips on a project's timeline. Assets without word timestamps
+ * are transcribed first. Captions previously generated for a chosen clip
+ * are replaced, and the edit is recorded as a revision so it can be
+ * undone. Clips that fail are reported without losing the others.
+ */
+export const generateCaptionsFn = createServerFn({ method: 'POST' })
+  .middleware([authMiddleware])
+  .inputValidator(generateCaptionsSchema)
+  .handler(async ({ data, context }) => {
+    const project = await prisma.project.findUnique({
+      where: { id: data.projectId },
+      select: { userId: true, manifest: true, fps: true },
+    })
+
+    if (!project) {
+      throw new Error('Project not found')
+    }
+
+    if (project.userId !== context.user.id) {
+      throw new Error('Unauthorized')
+    }
+
+    const manifest = parseManifest(project.manifest)
+
+    // Voiceovers and video clips carry speech; music, sfx and images don't.
+    // Unless clips are chosen, ones captioned before are left alone.
+    const clips = [
+      ...manifest.tracks.audio.filter((c) => getAudioRole(c) === 'voiceover'),
+      ...manifest.tracks.video.filter((c) => c.mediaType !== 'image'),
+    ].filter((c) =>
+      data.clipIds
+        ? data.clipIds.includes(c.id)
+        : !manifest.tracks.components.some((o) => isCaptionFor(o, c.id)),
+    )
+
+    if (clips.length === 0) {
+      throw new Error(
+        data.clipIds
+          ? 'No voiceover or video clips to caption'
+          : 'Every voiceover and video clip already has captions',
+      )
+    }
+
+    // Transcribe outside the transaction - it can take a while
+    const captions: Array<{
+      clipId: string
+      overlays: Array<ComponentOverlay>
+    }> = []
+    const failures: Array<{ clipId: string; error: string }> = []
+    for (const clip of clips) {
+      try {
+        const words = await getAssetWordTimestamps(
+          clip.assetId,
+          context.user.id,
+          { language: data.language },
+        )
+        captions.push({
+          clipId: clip.id,
+          overlays: createCaptionOverlays(clip, words, project.fps),
+        })
+      } catch (error) {
+        console.error(`[Captions] Failed to caption clip ${clip.id}:`, error)
+        failures.push({
+          clipId: clip.id,
+          error: error instanceof Error ? error.message : 'Captioning failed',
+        })
+      }
+    }
+
+    if (captions.length === 0) {
+      throw new Error(failures[0].error)
+    }
+
+    return prisma.$transaction(async (tx) => {
+      // Apply to the latest manifest in case it changed meanwhile
+      const current = await tx.project.findUniqueOrThrow({
+        where: { id: data.projectId },
+        select: { manifest: true },
+      })
+      const latest = parseManifest(current.manifest)
+
+      const components = latest.tracks.components.filter(
+        (overlay) => !captions.some((c) => isCaptionFor(overlay, c.clipId)),
+      )
+      for (const caption of captions) {
+        components.push(...caption.overlays)
+      }
+
+      const updated = { ...latest, tracks: { ...latest.tracks, components } }
+      const manifestJson = JSON.stringify(updated)
+
+      await tx.project.update({
+        where: { id: data.projectId },
+        data: {
+          manifest: manifestJson,
+          duration: getManifestDuration(updated),
+        },
+      })
+
+      const lineCount = captions.reduce((n, c) => n + c.overlays.length, 0)
+      await recordRevision(tx, {
+        projectId: data.projectId,
+        previousManifest: current.manifest,
+        manifest: manifestJson,
+        author: 'user',
+        diffSummary: `Generated ${lineCount} caption line${lineCount === 1 ? '' : 's'}`,
+      })
+
+      const saved = await tx.project.findUniqueOrThrow({
+        where: { id: data.projectId },
+        select: { manifestVersion: true, headRevisionId: true },
+      })
+
+      return {
+        status: 'saved' as const,
+        manifestVersion: saved.manifestVersion,
+        manifest: updated,
+        failures,
+        ...(await getHistoryState(tx, saved.headRevisionId)),
+      }
+    })
+  })
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Word timestamps for an asset, transcribing and storing them if missing
+ */
+async function getAssetWordTimestamps(
+  assetId: string,
+  userId: string,
+  options: { language?: string; force?: boolean },
+): Promise<Array<WordTimestamp>> {
+  const asset = await prisma.asset.findUnique({ where: { id: assetId } })
+
+  if (!asset || asset.userId !== userId) {
+    throw new Error('Asset not found')
+  }
+
+  if (asset.type !== 'audio' && asset.type !== 'video') {
+    throw new Error('Only audio and video assets can be transcribed')
+  }
+
+  const metadata = asset.metadata ? JSON.parse(asset.metadata) : {}
+  if (!options.force && Array.isArray(metadata.wordTimestamps)) {
+    return metadata.wordTimestamps
+  }
+
+  const userApiKey = await getUserFalApiKey(userId)
+  const result = await transcribeMedia(
+    {
+      mediaUrl: asset.storageUrl,
+      language: options.language,
+      durationSeconds: asset.durationSeconds ?? undefined,
+    },
+    userApiKey,
+  )
+
+  await prisma.asset.update({
+    where: { id: asset.id },
+    data: {
+      metadata: JSON.stringify({
+        ...metadata,
+        transcript: result.text,
+        language: result.language,
+        wordTimestamps: result.wordTimestamps,
+      }),
+    },
+  })
+
+  return result.wordTimestamps
+}
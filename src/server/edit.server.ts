@@ -25,6 +25,11 @@ import {
 } from './services/types'
 import { uploadFromUrl } from './services/bunny.server'
 import { getUserStorageConfig } from './storage-config.server'
+import {
+  isSavingJobResult,
+  saveJobResult,
+  updateRunningJob,
+} from './jobs.server'
 
 // =============================================================================
 // Schemas
@@ -39,6 +44,8 @@ const editSchema = z.object({
   projectId: z.string().optional(),
 })
 
+export type EditImageInput = z.infer<typeof editSchema>
+
 const upscaleSchema = z.object({
   imageUrl: z.string().url(),
   model: z.string().optional(),
@@ -64,6 +71,8 @@ const upscaleSchema = z.object({
   faceEnhancementCreativity: z.number().min(0).max(1).optional(),
 })
 
+export type UpscaleImageInput = z.infer<typeof upscaleSchema>
+
 const jobIdSchema = z.object({
   jobId: z.string(),
 })
@@ -79,84 +88,89 @@ const jobIdSchema = z.object({
 export const editImageFn = createServerFn({ method: 'POST' })
   .middleware([authMiddleware])
   .inputValidator(editSchema)
-  .handler(async ({ data, context }) => {
-    console.log('[EDIT_FN] editImageFn called:', {
-      userId: context.user.id,
-      model: data.model,
-      imageCount: data.imageUrls.length,
-      promptPreview: data.prompt.slice(0, 50) + '...',
-    })
+  .handler(({ data, context }) => startEditJob(context.user.id, data))
 
-    const modelId = data.model || 'fal-ai/flux-pro/kontext'
-    const modelConfig = getEditModelById(modelId)
+/**
+ * Start an edit job for a user (also used by the AI Director)
+ */
+export async function startEditJob(userId: string, data: EditImageInput) {
+  console.log('[EDIT_FN] startEditJob called:', {
+    userId,
+    model: data.model,
+    imageCount: data.imageUrls.length,
+    promptPreview: data.prompt.slice(0, 50) + '...',
+  })
 
-    if (!modelConfig) {
-      console.error('[EDIT_FN] Unknown model:', modelId)
-      throw new Error(`Unknown edit model: ${modelId}`)
-    }
+  const modelId = data.model || 'fal-ai/flux-pro/kontext'
+  const modelConfig = getEditModelById(modelId)
 
-    // Validate image count against model's maxImages
-    if (data.imageUrls.length > modelConfig.maxImages) {
-      throw new Error(
-        `Model ${modelConfig.name} supports max ${modelConfig.maxImages} image(s), got ${data.imageUrls.length}`,
-      )
-    }
-
-    // Get user's fal.ai API key (BYOK)
-    const userApiKey = await getUserFalApiKey(context.user.id)
+  if (!modelConfig) {
+    console.error('[EDIT_FN] Unknown model:', modelId)
+    throw new Error(`Unknown edit model: ${modelId}`)
+  }
 
-    // Start edit job
-    console.log('[EDIT_FN] Starting edit job with editImage()...')
-    const job = await editImage(
-      {
-        imageUrls: data.imageUrls,
-        prompt: data.prompt,
-        model: modelId,
-      },
-      userApiKey,
+  // Validate image count against model's maxImages
+  if (data.imageUrls.length > modelConfig.maxImages) {
+    throw new Error(
+      `Model ${modelConfig.name} supports max ${modelConfig.maxImages} image(s), got ${data.imageUrls.length}`,
     )
-    console.log('[EDIT_FN] Edit job started:', {
-      requestId: job.requestId,
-      status: job.status,
-      statusUrl: job.statusUrl,
-      responseUrl: job.responseUrl,
-    })
+  }
 
-    // Create job record - save statusUrl and responseUrl in input for later polling
-    const dbJob = await prisma.generationJob.create({
-      data: {
-        userId: context.user.id,
-        projectId: data.projectId || null,
-        type: 'edit',
-        status: 'pending',
-        provider: 'fal',
-        model: modelId,
-        input: JSON.stringify({
-          imageUrls: data.imageUrls,
-          prompt: data.prompt,
-          editType: 'edit',
-          sourceAssetIds: data.sourceAssetIds,
-          // Save fal.ai queue URLs for status polling - DO NOT construct these from modelId!
-          statusUrl: job.statusUrl,
-          responseUrl: job.responseUrl,
-        }),
-        externalId: job.requestId,
-      },
-    })
-    console.log('[EDIT_FN] DB job created:', {
-      dbJobId: dbJob.id,
-      externalId: job.requestId,
-    })
+  // Get user's fal.ai API key (BYOK)
+  const userApiKey = await getUserFalApiKey(userId)
 
-    return {
-      jobId: dbJob.id,
-      externalId: job.requestId,
+  // Start edit job
+  console.log('[EDIT_FN] Starting edit job with editImage()...')
+  const job = await editImage(
+    {
+      imageUrls: data.imageUrls,
+      prompt: data.prompt,
       model: modelId,
-      editType: 'edit',
+    },
+    userApiKey,
+  )
+  console.log('[EDIT_FN] Edit job started:', {
+    requestId: job.requestId,
+    status: job.status,
+    statusUrl: job.statusUrl,
+    responseUrl: job.responseUrl,
+  })
+
+  // Create job record - save statusUrl and responseUrl in input for later polling
+  const dbJob = await prisma.generationJob.create({
+    data: {
+      userId,
+      projectId: data.projectId || null,
+      type: 'edit',
       status: 'pending',
-    }
+      provider: 'fal',
+      model: modelId,
+      input: JSON.stringify({
+        imageUrls: data.imageUrls,
+        prompt: data.prompt,
+        editType: 'edit',
+        sourceAssetIds: data.sourceAssetIds,
+        // Save fal.ai queue URLs for status polling - DO NOT construct these from modelId!
+        statusUrl: job.statusUrl,
+        responseUrl: job.responseUrl,
+      }),
+      externalId: job.requestId,
+    },
+  })
+  console.log('[EDIT_FN] DB job created:', {
+    dbJobId: dbJob.id,
+    externalId: job.requestId,
   })
 
+  return {
+    jobId: dbJob.id,
+    externalId: job.requestId,
+    model: modelId,
+    editType: 'edit',
+    status: 'pending',
+  }
+}
+
 // =============================================================================
 // Upscaling
 // =============================================================================
@@ -167,85 +181,90 @@ export const editImageFn = createServerFn({ method: 'POST' })
 export const upscaleImageFn = createServerFn({ method: 'POST' })
   .middleware([authMiddleware])
   .inputValidator(upscaleSchema)
-  .handler(async ({ data, context }) => {
-    const modelId = data.model || 'fal-ai/seedvr/upscale/image'
-    const modelConfig = getModelById(modelId, UPSCALE_MODELS)
+  .handler(({ data, context }) => startUpscaleJob(context.user.id, data))
 
-    if (!modelConfig) {
-      throw new Error(`Unknown upscale model: ${modelId}`)
-    }
+/**
+ * Start an upscale job for a user (also used by the AI Director)
+ */
+export async function startUpscaleJob(userId: string, data: UpscaleImageInput) {
+  const modelId = data.model || 'fal-ai/seedvr/upscale/image'
+  const modelConfig = getModelById(modelId, UPSCALE_MODELS)
 
-    // Get user's fal.ai API key (BYOK)
-    const userApiKey = await getUserFalApiKey(context.user.id)
+  if (!modelConfig) {
+    throw new Error(`Unknown upscale model: ${modelId}`)
+  }
+
+  // Get user's fal.ai API key (BYOK)
+  const userApiKey = await getUserFalApiKey(userId)
+
+  // Start upscale job with all new parameters
+  const job = await upscaleImage(
+    {
+      imageUrl: data.imageUrl,
+      model: modelId,
+      scale: data.scale,
+      outputFormat: data.outputFormat,
+      // Legacy
+      creativity: data.creativity,
+      prompt: data.prompt,
+      // SeedVR specific
+      upscaleMode: data.upscaleMode,
+      targetResolution: data.targetResolution,
+      noiseScale: data.noiseScale,
+      // Topaz specific
+      topazModel: data.topazModel,
+      subjectDetection: data.subjectDetection,
+      faceEnhancement: data.faceEnhancement,
+      faceEnhancementStrength: data.faceEnhancementStrength,
+      faceEnhancementCreativity: data.faceEnhancementCreativity,
+    },
+    userApiKey,
+  )
+  console.log('[EDIT_FN] Upscale job started:', {
+    requestId: job.requestId,
+    statusUrl: job.statusUrl,
+    responseUrl: job.responseUrl,
+    model: modelId,
+  })
 
-    // Start upscale job with all new parameters
-    const job = await upscaleImage(
-      {
+  // Create job record - save all parameters for reference
+  const dbJob = await prisma.generationJob.create({
+    data: {
+      userId,
+      projectId: data.projectId || null,
+      type: 'upscale',
+      status: 'pending',
+      provider: 'fal',
+      model: modelId,
+      input: JSON.stringify({
         imageUrl: data.imageUrl,
-        model: modelId,
-        scale: data.scale,
-        outputFormat: data.outputFormat,
-        // Legacy
-        creativity: data.creativity,
-        prompt: data.prompt,
-        // SeedVR specific
+        scale: data.scale || 2,
+        editType: 'upscale',
+        sourceAssetId: data.sourceAssetId,
+        // Model-specific params
         upscaleMode: data.upscaleMode,
         targetResolution: data.targetResolution,
         noiseScale: data.noiseScale,
-        // Topaz specific
         topazModel: data.topazModel,
         subjectDetection: data.subjectDetection,
         faceEnhancement: data.faceEnhancement,
-        faceEnhancementStrength: data.faceEnhancementStrength,
-        faceEnhancementCreativity: data.faceEnhancementCreativity,
-      },
-      userApiKey,
-    )
-    console.log('[EDIT_FN] Upscale job started:', {
-      requestId: job.requestId,
-      statusUrl: job.statusUrl,
-      responseUrl: job.responseUrl,
-      model: modelId,
-    })
-
-    // Create job record - save all parameters for reference
-    const dbJob = await prisma.generationJob.create({
-      data: {
-        userId: context.user.id,
-        projectId: data.projectId || null,
-        type: 'upscale',
-        status: 'pending',
-        provider: 'fal',
-        model: modelId,
-        input: JSON.stringify({
-          imageUrl: data.imageUrl,
-          scale: data.scale || 2,
-          editType: 'upscale',
-          sourceAssetId: data.sourceAssetId,
-          // Model-specific params
-          upscaleMode: data.upscaleMode,
-          targetResolution: data.targetResolution,
-          noiseScale: data.noiseScale,
-          topazModel: data.topazModel,
-          subjectDetection: data.subjectDetection,
-          faceEnhancement: data.faceEnhancement,
-          // Save fal.ai queue URLs for status polling
-          statusUrl: job.statusUrl,
-          responseUrl: job.responseUrl,
-        }),
-        externalId: job.requestId,
-      },
-    })
-
-    return {
-      jobId: dbJob.id,
+        // Save fal.ai queue URLs for status polling
+        statusUrl: job.statusUrl,
+        responseUrl: job.responseUrl,
+      }),
       externalId: job.requestId,
-      model: modelId,
-      editType: 'upscale',
-      status: 'pending',
-    }
+    },
   })
 
+  return {
+    jobId: dbJob.id,
+    externalId: job.requestId,
+    model: modelId,
+    editType: 'upscale',
+    status: 'pending',
+  }
+}
+
 // =============================================================================
 // Job Status
 // =============================================================================
@@ -256,111 +275,119 @@ export const upscaleImageFn = createServerFn({ method: 'POST' })
 export const getEditJobStatusFn = createServerFn({ method: 'GET' })
   .middleware([authMiddleware])
   .inputValidator(jobIdSchema)
-  .handler(async ({ data, context }) => {
-    console.log('[EDIT_FN] getEditJobStatusFn called:', { jobId: data.jobId })
+  .handler(({ data, context }) => pollEditJob(data.jobId, context.user.id))
 
-    const job = await prisma.generationJob.findUnique({
-      where: { id: data.jobId },
-    })
+/**
+ * Poll an edit or upscale job, saving the result as an asset on completion
+ */
+export async function pollEditJob(jobId: string, userId: string) {
+  console.log('[EDIT_FN] pollEditJob called:', { jobId })
 
-    if (!job) {
-      console.error('[EDIT_FN] Job not found:', data.jobId)
-      throw new Error('Job not found')
-    }
+  const job = await prisma.generationJob.findUnique({
+    where: { id: jobId },
+  })
 
-    console.log('[EDIT_FN] Found job:', {
-      id: job.id,
-      status: job.status,
-      externalId: job.externalId,
-      model: job.model,
-    })
+  if (!job) {
+    console.error('[EDIT_FN] Job not found:', jobId)
+    throw new Error('Job not found')
+  }
 
-    if (job.userId !== context.user.id) {
-      throw new Error('Unauthorized')
-    }
+  console.log('[EDIT_FN] Found job:', {
+    id: job.id,
+    status: job.status,
+    externalId: job.externalId,
+    model: job.model,
+  })
 
-    // If already completed or failed, return cached result
-    if (job.status === 'completed' || job.status === 'failed') {
-      console.log('[EDIT_FN] Returning cached result, status:', job.status)
-      return {
-        jobId: job.id,
-        status: job.status,
-        progress: job.status === 'completed' ? 100 : 0,
-        output: job.output ? JSON.parse(job.output) : null,
-        error: job.error,
-      }
-    }
+  if (job.userId !== userId) {
+    throw new Error('Unauthorized')
+  }
 
-    // Poll Fal.ai for status using the saved URLs
-    if (!job.externalId) {
-      console.error('[EDIT_FN] Job has no external ID!')
-      throw new Error('Job has no external ID')
-    }
+  // Another poll claimed the job and is still saving its result
+  if (isSavingJobResult(job)) {
+    return { jobId: job.id, status: 'processing' as const, progress: 100 }
+  }
 
-    // Get statusUrl and responseUrl from saved input
-    const inputData = JSON.parse(job.input)
-    const { statusUrl, responseUrl } = inputData
-
-    if (!statusUrl || !responseUrl) {
-      console.error(
-        '[EDIT_FN] Job missing statusUrl or responseUrl in input!',
-        {
-          statusUrl,
-          responseUrl,
-        },
-      )
-      throw new Error(
-        'Job is missing fal.ai queue URLs. This job may have been created before the fix was applied.',
-      )
+  // If already completed or failed, return cached result
+  if (job.status === 'completed' || job.status === 'failed') {
+    console.log('[EDIT_FN] Returning cached result, status:', job.status)
+    return {
+      jobId: job.id,
+      status: job.status,
+      progress: job.status === 'completed' ? 100 : 0,
+      output: job.output ? JSON.parse(job.output) : null,
+      error: job.error,
     }
+  }
 
-    console.log('[EDIT_FN] Polling fal.ai for status using saved URLs...')
-    let falStatus: Awaited<ReturnType<typeof getEditJobStatus>>
-    try {
-      falStatus = await getEditJobStatus(statusUrl, responseUrl)
-      console.log('[EDIT_FN] fal.ai status result:', {
-        status: falStatus.status,
-        hasResult: !!falStatus.result,
-      })
-    } catch (pollError) {
-      // Handle unexpected errors during status polling
-      const errorMessage =
-        pollError instanceof Error ? pollError.message : 'Status check failed'
-      console.error('[EDIT_FN] Status polling error:', errorMessage)
-
-      // Update job as failed in database
-      await prisma.generationJob.update({
-        where: { id: job.id },
-        data: {
-          status: 'failed',
-          error: errorMessage,
-        },
-      })
+  // Poll Fal.ai for status using the saved URLs
+  if (!job.externalId) {
+    console.error('[EDIT_FN] Job has no external ID!')
+    throw new Error('Job has no external ID')
+  }
 
-      return {
-        jobId: job.id,
-        status: 'failed' as const,
-        progress: 0,
+  // Get statusUrl and responseUrl from saved input
+  const inputData = JSON.parse(job.input)
+  const { statusUrl, responseUrl } = inputData
+
+  if (!statusUrl || !responseUrl) {
+    console.error('[EDIT_FN] Job missing statusUrl or responseUrl in input!', {
+      statusUrl,
+      responseUrl,
+    })
+    throw new Error(
+      'Job is missing fal.ai queue URLs. This job may have been created before the fix was applied.',
+    )
+  }
+
+  console.log('[EDIT_FN] Polling fal.ai for status using saved URLs...')
+  let falStatus: Awaited<ReturnType<typeof getEditJobStatus>>
+  try {
+    falStatus = await getEditJobStatus(statusUrl, responseUrl)
+    console.log('[EDIT_FN] fal.ai status result:', {
+      status: falStatus.status,
+      hasResult: !!falStatus.result,
+    })
+  } catch (pollError) {
+    // Handle unexpected errors during status polling
+    const errorMessage =
+      pollError instanceof Error ? pollError.message : 'Status check failed'
+    console.error('[EDIT_FN] Status polling error:', errorMessage)
+
+    // Update job as failed in database
+    await prisma.generationJob.update({
+      where: { id: job.id },
+      data: {
+        status: 'failed',
         error: errorMessage,
-      }
+      },
+    })
+
+    return {
+      jobId: job.id,
+      status: 'failed' as const,
+      progress: 0,
+      error: errorMessage,
     }
+  }
 
-    // Update job status in database
-    if (falStatus.status === 'completed' && falStatus.result) {
-      console.log('[EDIT_FN] Job completed! Processing result...')
-      const result = falStatus.result
-      // Handle both 'images' array and single 'image' response formats
-      const falTempUrl = result.images?.[0]?.url || result.image?.url
-      const imageWidth = result.images?.[0]?.width || result.image?.width
-      const imageHeight = result.images?.[0]?.height || result.image?.height
-
-      console.log('[EDIT_FN] Extracted from result:', {
-        falTempUrl: falTempUrl?.slice(0, 80) + '...',
-        imageWidth,
-        imageHeight,
-      })
+  // Update job status in database
+  if (falStatus.status === 'completed' && falStatus.result) {
+    console.log('[EDIT_FN] Job completed! Processing result...')
+    const result = falStatus.result
+    // Handle both 'images' array and single 'image' response formats
+    const falTempUrl = result.images?.[0]?.url || result.image?.url
+    const imageWidth = result.images?.[0]?.width || result.image?.width
+    const imageHeight = result.images?.[0]?.height || result.image?.height
+
+    console.log('[EDIT_FN] Extracted from result:', {
+      falTempUrl: falTempUrl?.slice(0, 80) + '...',
+      imageWidth,
+      imageHeight,
+    })
 
-      if (falTempUrl) {
+    if (falTempUrl) {
+      const output = await saveJobResult(job.id, async () => {
         // inputData already parsed above
         const filename = `${inputData.editType}-${Date.now()}.png`
 
@@ -368,12 +395,12 @@ export const getEditJobStatusFn = createServerFn({ method: 'GET' })
         let permanentUrl = falTempUrl
 
         console.log('[EDIT_FN] Uploading to Bunny CDN...')
-        const storageConfig = await getUserStorageConfig(context.user.id)
+        const storageConfig = await getUserStorageConfig(userId)
         try {
           const uploadResult = await uploadFromUrl(
             falTempUrl,
             {
-              folder: `images/${context.user.id}`,
+              folder: `images/${userId}`,
               filename,
             },
             storageConfig ?? undefined,
@@ -390,7 +417,7 @@ export const getEditJobStatusFn = createServerFn({ method: 'GET' })
         console.log('[EDIT_FN] Creating asset in DB...')
         const asset = await prisma.asset.create({
           data: {
-            userId: context.user.id,
+            userId,
             projectId: job.projectId,
             type: 'image',
             storageUrl: permanentUrl,
@@ -410,80 +437,69 @@ export const getEditJobStatusFn = createServerFn({ method: 'GET' })
         })
         console.log('[EDIT_FN] Asset created:', asset.id)
 
-        // Update job as completed
-        await prisma.generationJob.update({
-          where: { id: job.id },
-          data: {
-            status: 'completed',
-            progress: 100,
-            output: JSON.stringify({
-              url: permanentUrl,
-              assetId: asset.id,
-              width: imageWidth,
-              height: imageHeight,
-              editType: inputData.editType,
-            }),
-          },
-        })
-        console.log('[EDIT_FN] Job marked as completed')
-
         return {
-          jobId: job.id,
-          status: 'completed' as const,
-          progress: 100,
-          output: {
-            url: permanentUrl,
-            assetId: asset.id,
-            width: imageWidth,
-            height: imageHeight,
-            editType: inputData.editType,
-          },
+          url: permanentUrl,
+          assetId: asset.id,
+          width: imageWidth,
+          height: imageHeight,
+          editType: inputData.editType,
         }
-      }
-    }
-
-    if (falStatus.status === 'failed') {
-      console.error('[EDIT_FN] Job failed!', falStatus.error)
-      await prisma.generationJob.update({
-        where: { id: job.id },
-        data: {
-          status: 'failed',
-          error: falStatus.error || 'Edit operation failed',
-        },
       })
 
+      // Another poll claimed the job first and is saving the result
+      if (!output) {
+        return { jobId: job.id, status: 'processing' as const, progress: 100 }
+      }
+      console.log('[EDIT_FN] Job marked as completed')
+
       return {
         jobId: job.id,
-        status: 'failed' as const,
-        progress: 0,
-        error: falStatus.error || 'Edit operation failed',
+        status: 'completed' as const,
+        progress: 100,
+        output,
       }
     }
+  }
 
-    // Still processing
-    const progress =
-      falStatus.progress || (falStatus.status === 'processing' ? 50 : 10)
-
-    console.log('[EDIT_FN] Job still in progress:', {
-      falStatus: falStatus.status,
-      progress,
-    })
-
+  if (falStatus.status === 'failed') {
+    console.error('[EDIT_FN] Job failed!', falStatus.error)
     await prisma.generationJob.update({
       where: { id: job.id },
       data: {
-        status: falStatus.status === 'processing' ? 'processing' : 'pending',
-        progress,
+        status: 'failed',
+        error: falStatus.error || 'Edit operation failed',
       },
     })
 
     return {
       jobId: job.id,
-      status: falStatus.status === 'processing' ? 'processing' : 'pending',
-      progress,
+      status: 'failed' as const,
+      progress: 0,
+      error: falStatus.error || 'Edit operation failed',
     }
+  }
+
+  // Still processing
+  const progress =
+    falStatus.progress || (falStatus.status === 'processing' ? 50 : 10)
+
+  console.log('[EDIT_FN] Job still in progress:', {
+    falStatus: falStatus.status,
+    progress,
+  })
+
+  await updateRunningJob(job.id, {
+    status: falStatus.status === 'processing' ? 'processing' : 'pending',
+    progress,
   })
 
+  return {
+    jobId: job.id,
+    status: falStatus.status === 'processing' ? 'processing' : 'pending',
+    progress,
+  }
+}
+
 // =============================================================================
 // Model Info
 // =============================================================================
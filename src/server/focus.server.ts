@@ -0,0 +1,250 @@
+/**
+ * Smart Crop Server Functions
+ *
+ * Detects the subject of cover-fit video clips (see detectFocus) and
+ * stores it as a focus track on each clip, so the composition keeps the
+ * subject in frame when the media's aspect ratio differs from the
+ * project's. Detected positions are cached in Asset.metadata.
+ */
+
+import { createServerFn } from '@tanstack/react-start'
+import { z } from 'zod'
+import { prisma } from '../db.server'
+import { authMiddleware } from './middleware.server'
+import { getUserFalApiKey } from './byok.server'
+import { getHistoryState, recordRevision } from './revision.server'
+import {
+  detectFocus,
+  getManifestDuration,
+  parseManifest,
+} from './services/index.server'
+import type { FocusTrack } from '../remotion/manifest'
+import type {
+  FocusSample,
+  ProjectManifest,
+  VideoClip,
+} from './services/index.server'
+
+// =============================================================================
+// Schemas
+// =============================================================================
+
+const detectClipFocusSchema = z.object({
+  projectId: z.string(),
+  // Clips to track; defaults to every cover-fit clip
+  clipIds: z.array(z.string()).optional(),
+  // Detect again even if the asset already has focus samples
+  force: z.boolean().optional(),
+})
+
+// =============================================================================
+// Smart Crop
+// =============================================================================
+
+/**
+ * Track the subject of clips on a project's timeline. The edit is
+ * recorded as a revision so it can be undone.
+ */
+export const detectClipFocusFn = createServerFn({ method: 'POST' })
+  .middleware([authMiddleware])
+  .inputValidator(detectClipFocusSchema)
+  .handler(async ({ data, context }) => {
+    const project = await prisma.project.findUnique({
+      where: { id: data.projectId },
+      select: { userId: true, manifest: true, fps: true },
+    })
+
+    if (!project) {
+      throw new Error('Project not found')
+    }
+
+    if (project.userId !== context.user.id) {
+      throw new Error('Unauthorized')
+    }
+
+    const clips = getCoverClips(parseManifest(project.manifest)).filter(
+      (clip) => !data.clipIds || data.clipIds.includes(clip.id),
+    )
+
+    if (clips.length === 0) {
+      throw new Error('No cover-fit clips to track')
+    }
+
+    // Detect outside the transaction - it can take a while
+    const { tracks, failures } = await getFocusTracks(
+      clips,
+      context.user.id,
+      project.fps,
+      { force: data.force },
+    )
+
+    if (tracks.size === 0) {
+      throw new Error(
+        failures[0]?.error ??
+          'Only clips of assets in your library can be tracked',
+      )
+    }
+
+    return prisma.$transaction(async (tx) => {
+      // Apply to the latest manifest in case it changed meanwhile
+      const current = await tx.project.findUniqueOrThrow({
+        where: { id: data.projectId },
+        select: { manifest: true },
+      })
+      const updated = applyFocusTracks(parseManifest(current.manifest), tracks)
+      const manifestJson = JSON.stringify(updated)
+
+      await tx.project.update({
+        where: { id: data.projectId },
+        data: {
+          manifest: manifestJson,
+          duration: getManifestDuration(updated),
+        },
+      })
+
+      await recordRevision(tx, {
+        projectId: data.projectId,
+        previousManifest: current.manifest,
+        manifest: manifestJson,
+        author: 'user',
+        diffSummary: `Smart cropped ${tracks.size} clip${tracks.size === 1 ? '' : 's'}`,
+      })
+
+      const saved = await tx.project.findUniqueOrThrow({
+        where: { id: data.projectId },
+        select: { manifestVersion: true, headRevisionId: true },
+      })
+
+      return {
+        status: 'saved' as const,
+        manifestVersion: saved.manifestVersion,
+        manifest: updated,
+        failures,
+        ...(await getHistoryState(tx, saved.headRevisionId)),
+      }
+    })
+  })
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Clips cropped to fill the frame, the only ones a focus point affects
+ */
+export function getCoverClips(manifest: ProjectManifest): Array<VideoClip> {
+  return manifest.tracks.video.filter(
+    (clip) => (clip.fit ?? 'cover') === 'cover',
+  )
+}
+
+/**
+ * Focus tracks for clips, keyed by clip ID. Clips that aren't of one of
+ * the user's assets are left out; clips whose detection failed are listed
+ * in failures, so one bad video doesn't cost the others their tracks.
+ */
+export async function getFocusTracks(
+  clips: Array<VideoClip>,
+  userId: string,
+  fps: number,
+  options: { force?: boolean } = {},
+): Promise<{
+  tracks: Map<string, FocusTrack>
+  failures: Array<{ clipId: string; error: string }>
+}> {
+  // Without a fal.ai key detection falls back to the local heuristic
+  const userApiKey = await getUserFalApiKey(userId).catch(() => undefined)
+  const tracks = new Map<string, FocusTrack>()
+  const failures: Array<{ clipId: string; error: string }> = []
+
+  for (const clip of clips) {
+    try {
+      const samples = await getClipFocusSamples(clip, userId, {
+        ...options,
+        userApiKey,
+      })
+      if (samples) {
+        tracks.set(clip.id, toFocusTrack(samples, fps))
+      }
+    } catch (error) {
+      console.error(`[Focus] Failed to track clip ${clip.id}:`, error)
+      failures.push({
+        clipId: clip.id,
+        error: error instanceof Error ? error.message : 'Detection failed',
+      })
+    }
+  }
+
+  return { tracks, failures }
+}
+
+/**
+ * The manifest with focus tracks set on the given clips
+ */
+export function applyFocusTracks(
+  manifest: ProjectManifest,
+  tracks: Map<string, FocusTrack>,
+): ProjectManifest {
+  return {
+    ...manifest,
+    tracks: {
+      ...manifest.tracks,
+      video: manifest.tracks.video.map((clip) => {
+        const focusTrack = tracks.get(clip.id)
+        return focusTrack ? { ...clip, focusTrack } : clip
+      }),
+    },
+  }
+}
+
+/**
+ * Focus samples of a clip's asset, detecting and storing them if missing.
+ * Only the user's own assets are analysed: a clip's URL comes from the
+ * client, so it is never fetched. Null for clips without such an asset.
+ */
+async function getClipFocusSamples(
+  clip: VideoClip,
+  userId: string,
+  options: { force?: boolean; userApiKey?: string },
+): Promise<Array<FocusSample> | null> {
+  const mediaType = clip.mediaType ?? 'video'
+  const asset = clip.assetId
+    ? await prisma.asset.findUnique({ where: { id: clip.assetId } })
+    : null
+
+  if (!asset || asset.userId !== userId) return null
+
+  const metadata = asset.metadata ? JSON.parse(asset.metadata) : {}
+  if (!options.force && Array.isArray(metadata.focusSamples)) {
+    return metadata.focusSamples
+  }
+
+  const samples = await detectFocus(
+    {
+      mediaUrl: asset.storageUrl,
+      mediaType,
+      durationSeconds: asset.durationSeconds ?? undefined,
+    },
+    options.userApiKey,
+  )
+
+  await prisma.asset.update({
+    where: { id: asset.id },
+    data: {
+      metadata: JSON.stringify({ ...metadata, focusSamples: samples }),
+    },
+  })
+
+  return samples
+}
+
+function toFocusTrack(samples: Array<FocusSample>, fps: number): FocusTrack {
+  const keyframes = (value: (sample: FocusSample) => number) =>
+    samples.map((sample) => ({
+      frame: Math.round(sample.time * fps),
+      value: value(sample),
+      easing: 'ease-in-out' as const,
+    }))
+
+  return { x: keyframes((s) => s.x), y: keyframes((s) => s.y) }
+}
@@ -0,0 +1,84 @@
+/**
+ * Font Server Functions
+ *
+ * Uploads custom font files (TTF/OTF/WOFF2) to Bunny CDN. The returned
+ * family and URL are added to a brand kit, which registers the font in
+ * the composition for preview and render.
+ */
+
+import { createServerFn } from '@tanstack/react-start'
+import { z } from 'zod'
+import { FONT_FORMATS } from '../remotion/fonts'
+import { authMiddleware } from './middleware.server'
+import { uploadBuffer } from './services/bunny.server'
+import { getUserStorageConfig } from './storage-config.server'
+import type { FontContentType } from '../remotion/fonts'
+
+// Font files are small; anything bigger is almost certainly not a font
+const MAX_FONT_SIZE = 5 * 1024 * 1024 // 5MB
+
+// Leading bytes of each supported format
+const FONT_SIGNATURES: Record<FontContentType, Array<string>> = {
+  'font/ttf': ['00010000', '74727565'], // version 1.0, "true"
+  'font/otf': ['4f54544f'], // "OTTO"
+  'font/woff2': ['774f4632'], // "wOF2"
+}
+
+// =============================================================================
+// Schemas
+// =============================================================================
+
+const uploadFontSchema = z.object({
+  fontData: z.string(), // Base64 encoded font file (without data URL prefix)
+  filename: z.string().optional(),
+  contentType: z.enum(
+    Object.keys(FONT_FORMATS) as [FontContentType, ...Array<FontContentType>],
+  ),
+  family: z.string().min(1).max(100),
+})
+
+// =============================================================================
+// Font Upload
+// =============================================================================
+
+/**
+ * Upload a font file and return it as a brand kit font
+ */
+export const uploadFontFn = createServerFn({ method: 'POST' })
+  .middleware([authMiddleware])
+  .inputValidator(uploadFontSchema)
+  .handler(async ({ data, context }) => {
+    const buffer = Buffer.from(data.fontData, 'base64')
+
+    if (buffer.length > MAX_FONT_SIZE) {
+      throw new Error('Font too large. Maximum size is 5MB.')
+    }
+
+    const signature = buffer.subarray(0, 4).toString('hex')
+    if (!FONT_SIGNATURES[data.contentType].includes(signature)) {
+      throw new Error(
+        `Not a valid ${FONT_FORMATS[data.contentType].label} font file`,
+      )
+    }
+
+    const { extension } = FONT_FORMATS[data.contentType]
+    const rawName =
+      data.filename?.replace(/\.[^/.]+$/, '').replace(/[^\w-]+/g, '-') || 'font'
+    const filename = `${rawName}-${Date.now()}.${extension}`
+
+    const storageConfig = await getUserStorageConfig(context.user.id)
+    const uploadResult = await uploadBuffer(
+      buffer,
+      data.contentType,
+      {
+        folder: `fonts/${context.user.id}`,
+        filename,
+      },
+      storageConfig ?? undefined,
+    )
+
+    return {
+      family: data.family.trim(),
+      url: uploadResult.url,
+    }
+  })
@@ -20,6 +20,15 @@ import {
   uploadFromUrl,
 } from './services/index.server'
 import { getUserStorageConfig } from './storage-config.server'
+import { pollEditJob } from './edit.server'
+import { pollVideoUpscaleJob } from './video-upscale.server'
+import { pollMotionControlJob } from './motion-control.server'
+import {
+  isSavingJobResult,
+  saveJobResult,
+  updateRunningJob,
+} from './jobs.server'
+import type { GenerationJob } from '../generated/prisma/client'
 
 // =============================================================================
 // Schemas
@@ -55,6 +64,8 @@ const jobIdSchema = z.object({
 const listJobsSchema = z.object({
   projectId: z.string().optional(),
   status: z.enum(['pending', 'processing', 'completed', 'failed']).optional(),
+  // Only jobs that haven't finished (pending or processing)
+  active: z.boolean().optional(),
   type: z.enum(['image', 'video', 'audio', 'render']).optional(),
   limit: z.number().min(1).max(100).optional(),
 })
@@ -103,6 +114,9 @@ export const createImageJobFn = createServerFn({ method: 'POST' })
         where: { id: job.id },
         data: {
           externalId: falJob.requestId,
+          statusUrl: falJob.statusUrl,
+          responseUrl: falJob.responseUrl,
+          cancelUrl: falJob.cancelUrl,
           status: 'processing',
         },
       })
@@ -166,6 +180,9 @@ export const createVideoJobFn = createServerFn({ method: 'POST' })
         where: { id: job.id },
         data: {
           externalId: falJob.requestId,
+          statusUrl: falJob.statusUrl,
+          responseUrl: falJob.responseUrl,
+          cancelUrl: falJob.cancelUrl,
           status: 'processing',
         },
       })
@@ -293,106 +310,138 @@ export const createAudioJobFn = createServerFn({ method: 'POST' })
 export const getJobStatusFn = createServerFn({ method: 'GET' })
   .middleware([authMiddleware])
   .inputValidator(jobIdSchema)
-  .handler(async ({ data, context }) => {
-    const job = await prisma.generationJob.findUnique({
-      where: { id: data.jobId },
-    })
+  .handler(({ data, context }) =>
+    pollGenerationJob(data.jobId, context.user.id),
+  )
 
-    if (!job) {
-      throw new Error('Job not found')
-    }
+/**
+ * Poll a generation job of any type, saving the result as an asset on
+ * completion
+ */
+export async function pollGenerationJob(jobId: string, userId: string) {
+  const job = await prisma.generationJob.findUnique({
+    where: { id: jobId },
+  })
+
+  if (!job) {
+    throw new Error('Job not found')
+  }
+
+  // Verify ownership
+  if (job.userId !== userId) {
+    throw new Error('Unauthorized')
+  }
+
+  // Edits, upscales and motion control poll their own queue URLs
+  const pollJob = getJobPoller(job)
+  if (pollJob) {
+    const status = await pollJob(job.id, userId)
+    return { ...status, type: job.type }
+  }
 
-    // Verify ownership
-    if (job.userId !== context.user.id) {
-      throw new Error('Unauthorized')
+  // Another poll claimed the job and is still saving its result
+  if (isSavingJobResult(job)) {
+    return {
+      jobId: job.id,
+      status: 'processing',
+      type: job.type,
+      progress: 100,
     }
+  }
 
-    // If job is already completed or failed, return cached result
-    if (job.status === 'completed' || job.status === 'failed') {
-      return {
-        jobId: job.id,
-        status: job.status,
-        type: job.type,
-        output: job.output ? JSON.parse(job.output) : null,
-        error: job.error,
-        progress: 100,
-      }
+  // If job is already completed or failed, return cached result
+  if (job.status === 'completed' || job.status === 'failed') {
+    return {
+      jobId: job.id,
+      status: job.status,
+      type: job.type,
+      output: job.output ? JSON.parse(job.output) : null,
+      error: job.error,
+      progress: 100,
     }
+  }
 
-    // Poll the provider for status update
-    if (job.provider === 'fal' && job.externalId) {
-      try {
-        const falStatus = await getFalJobStatus(job.externalId, job.model)
+  // Poll the provider for status update
+  if (job.provider === 'fal' && job.externalId) {
+    try {
+      // Jobs started before queue URLs were saved only have the request ID
+      const falStatus =
+        job.statusUrl && job.responseUrl
+          ? await getFalJobStatus(job.statusUrl, job.responseUrl)
+          : await getFalJobStatus(job.externalId, job.model)
 
-        // Update job progress
-        await prisma.generationJob.update({
-          where: { id: job.id },
-          data: { progress: falStatus.progress || 50 },
-        })
+      // Update job progress
+      await updateRunningJob(job.id, { progress: falStatus.progress || 50 })
 
-        // If completed, process the result
-        if (falStatus.status === 'completed' && falStatus.result) {
-          await processCompletedFalJob(
-            job.id,
-            context.user.id,
-            job.type,
-            falStatus.result,
-          )
+      // If completed, process the result
+      if (falStatus.status === 'completed' && falStatus.result) {
+        await processCompletedFalJob(job.id, userId, job.type, falStatus.result)
 
-          // Re-fetch the updated job
-          const updatedJob = await prisma.generationJob.findUnique({
-            where: { id: job.id },
-          })
+        // Re-fetch the updated job
+        const updatedJob = await prisma.generationJob.findUnique({
+          where: { id: job.id },
+        })
 
+        // Another poll claimed the job first and is saving the result
+        if (!updatedJob || isSavingJobResult(updatedJob)) {
           return {
             jobId: job.id,
-            status: 'completed',
+            status: 'processing',
             type: job.type,
-            output: updatedJob?.output ? JSON.parse(updatedJob.output) : null,
             progress: 100,
           }
         }
 
-        if (falStatus.status === 'failed') {
-          await prisma.generationJob.update({
-            where: { id: job.id },
-            data: { status: 'failed', error: 'Generation failed' },
-          })
-
-          return {
-            jobId: job.id,
-            status: 'failed',
-            type: job.type,
-            error: 'Generation failed',
-            progress: 0,
-          }
-        }
-
-        // Still processing
         return {
           jobId: job.id,
-          status: falStatus.status,
+          status: updatedJob.status,
           type: job.type,
-          progress: falStatus.progress || 50,
+          output: updatedJob.output ? JSON.parse(updatedJob.output) : null,
+          error: updatedJob.error,
+          progress: 100,
         }
-      } catch (error) {
-        // Don't fail the whole request if polling fails
+      }
+
+      if (falStatus.status === 'failed') {
+        await prisma.generationJob.update({
+          where: { id: job.id },
+          data: { status: 'failed', error: 'Generation failed' },
+        })
+
         return {
           jobId: job.id,
-          status: job.status,
+          status: 'failed',
           type: job.type,
-          progress: job.progress,
+          error: 'Generation failed',
+          progress: 0,
         }
       }
-    }
 
-    return {
-      jobId: job.id,
-      status: job.status,
-      type: job.type,
-      progress: job.progress,
+      // Still processing
+      return {
+        jobId: job.id,
+        status: falStatus.status,
+        type: job.type,
+        progress: falStatus.progress || 50,
+      }
+    } catch (error) {
+      // Don't fail the whole request if polling fails
+      return {
+        jobId: job.id,
+        status: job.status,
+        type: job.type,
+        progress: job.progress,
+      }
     }
-  })
+  }
+
+  return {
+    jobId: job.id,
+    status: job.status,
+    type: job.type,
+    progress: job.progress,
+  }
+}
 
 /**
  * List generation jobs
@@ -406,6 +455,7 @@ export const listJobsFn = createServerFn({ method: 'GET' })
         userId: context.user.id,
         ...(data.projectId && { projectId: data.projectId }),
         ...(data.status && { status: data.status }),
+        ...(data.active && { status: { in: ['pending', 'processing'] } }),
         ...(data.type && { type: data.type }),
       },
       orderBy: { createdAt: 'desc' },
@@ -428,6 +478,18 @@ export const listJobsFn = createServerFn({ method: 'GET' })
 // Helper Functions
 // =============================================================================
 
+/**
+ * The status poller of job types that aren't polled by model ID
+ */
+function getJobPoller(job: GenerationJob) {
+  if (job.type === 'edit' || job.type === 'upscale') return pollEditJob
+  if (job.type === 'video-upscale') return pollVideoUpscaleJob
+  if (JSON.parse(job.input).generationType === 'motion-control') {
+    return pollMotionControlJob
+  }
+  return null
+}
+
 /**
  * Process a completed Fal.ai job - download result and create asset
  */
@@ -444,69 +506,8 @@ async function processCompletedFalJob(
   if (!job) return
 
   try {
-    let assetUrl: string
-    let metadata: Record<string, unknown> = {}
-
-    if (type === 'image') {
-      // Handle image result
-      const imageResult = result as {
-        images: Array<{ url: string; width: number; height: number }>
-      }
-      const image = imageResult.images[0]
-
-      // Upload to Bunny
-      const upload = await uploadFromUrl(image.url, {
-        folder: `images/${userId}`,
-      })
-
-      assetUrl = upload.url
-      metadata = { width: image.width, height: image.height }
-    } else if (type === 'video') {
-      // Handle video result
-      const videoResult = result as {
-        video: { url: string; file_size: number }
-      }
-
-      // Upload to Bunny
-      const upload = await uploadFromUrl(videoResult.video.url, {
-        folder: `videos/${userId}`,
-      })
-
-      assetUrl = upload.url
-      metadata = { fileSize: videoResult.video.file_size }
-    } else {
-      throw new Error(`Unknown job type: ${type}`)
-    }
-
-    // Create asset record
-    const input = JSON.parse(job.input)
-    const asset = await prisma.asset.create({
-      data: {
-        userId,
-        projectId: job.projectId,
-        type,
-        storageUrl: assetUrl,
-        filename: assetUrl.split('/').pop() || 'unknown',
-        prompt: input.prompt,
-        provider: job.provider,
-        model: job.model,
-        metadata: JSON.stringify(metadata),
-      },
-    })
-
-    // Update job as completed
-    await prisma.generationJob.update({
-      where: { id: jobId },
-      data: {
-        status: 'completed',
-        progress: 100,
-        output: JSON.stringify({
-          url: assetUrl,
-          assetId: asset.id,
-          metadata,
-        }),
-      },
-    })
+    // Skipped when another poll already saved the result
+    await saveJobResult(jobId, () => saveFalResult(job, userId, type, result))
   } catch (error) {
     await prisma.generationJob.update({
       where: { id: jobId },
@@ -519,6 +520,68 @@ async function processCompletedFalJob(
   }
 }
 
+/**
+ * Upload a Fal.ai result and save it as an asset, returning the job output
+ */
+async function saveFalResult(
+  job: GenerationJob,
+  userId: string,
+  type: string,
+  result: unknown,
+) {
+  let assetUrl: string
+  let metadata: Record<string, unknown> = {}
+
+  if (type === 'image') {
+    // Handle image result
+    const imageResult = result as {
+      images: Array<{ url: string; width: number; height: number }>
+    }
+    const image = imageResult.images[0]
+
+    // Upload to Bunny
+    const upload = await uploadFromUrl(image.url, {
+      folder: `images/${userId}`,
+    })
+
+    assetUrl = upload.url
+    metadata = { width: image.width, height: image.height }
+  } else if (type === 'video') {
+    // Handle video result
+    const videoResult = result as {
+      video: { url: string; file_size: number }
+    }
+
+    // Upload to Bunny
+    const upload = await uploadFromUrl(videoResult.video.url, {
+      folder: `videos/${userId}`,
+    })
+
+    assetUrl = upload.url
+    metadata = { fileSize: videoResult.video.file_size }
+  } else {
+    throw new Error(`Unknown job type: ${type}`)
+  }
+
+  // Create asset record
+  const input = JSON.parse(job.input)
+  const asset = await prisma.asset.create({
+    data: {
+      userId,
+      projectId: job.projectId,
+      type,
+      storageUrl: assetUrl,
+      filename: assetUrl.split('/').pop() || 'unknown',
+      prompt: input.prompt,
+      provider: job.provider,
+      model: job.model,
+      metadata: JSON.stringify(metadata),
+    },
+  })
+
+  return { url: assetUrl, assetId: asset.id, metadata }
+}
+
 // =============================================================================
 // Model Information
 // =============================================================================
@@ -19,6 +19,11 @@ import sharp from 'sharp'
 import { uploadBuffer, uploadFromUrl } from './services/bunny.server'
 import { getUserStorageConfig } from './storage-config.server'
 import { IMAGE_MODELS, getModelById } from './services/types'
+import {
+  isSavingJobResult,
+  saveJobResult,
+  updateRunningJob,
+} from './jobs.server'
 import type { FalImageResult } from './services/fal.server'
 
 // =============================================================================
@@ -181,6 +186,11 @@ export const getImageJobStatusFn = createServerFn({ method: 'GET' })
       throw new Error('Unauthorized')
     }
 
+    // Another poll claimed the job and is still saving its result
+    if (isSavingJobResult(job)) {
+      return { jobId: job.id, status: 'processing' as const, progress: 100 }
+    }
+
     // If already completed or failed, return cached result
     if (job.status === 'completed' || job.status === 'failed') {
       console.log(
@@ -254,99 +264,105 @@ export const getImageJobStatusFn = createServerFn({ method: 'GET' })
       })
 
       if (allImages.length > 0) {
-        const createdAssets: Array<{
-          id: string
-          url: string
-          width: number
-          height: number
-        }> = []
-
-        // Get user's storage config (if configured, uploads go to their Bunny zone)
-        const storageConfig = await getUserStorageConfig(context.user.id)
-
-        // Process each image in the result
-        for (let i = 0; i < allImages.length; i++) {
-          const imageData = allImages[i]
-          const falTempUrl = imageData.url
-
-          console.log(
-            `[IMAGE] Processing image ${i + 1}/${allImages.length}:`,
-            falTempUrl.slice(0, 80) + '...',
-          )
-
-          // Upload to Bunny CDN (user's storage or platform default)
-          const filename = `generated-${Date.now()}-${i}`
-          let permanentUrl = falTempUrl
-
-          try {
-            const uploadResult = await uploadFromUrl(
-              falTempUrl,
-              {
-                folder: `images/${context.user.id}`,
+        const output = await saveJobResult(job.id, async () => {
+          const createdAssets: Array<{
+            id: string
+            url: string
+            width: number
+            height: number
+          }> = []
+
+          // Get user's storage config (if configured, uploads go to their Bunny zone)
+          const storageConfig = await getUserStorageConfig(context.user.id)
+
+          // Process each image in the result
+          for (let i = 0; i < allImages.length; i++) {
+            const imageData = allImages[i]
+            const falTempUrl = imageData.url
+
+            console.log(
+              `[IMAGE] Processing image ${i + 1}/${allImages.length}:`,
+              falTempUrl.slice(0, 80) + '...',
+            )
+
+            // Upload to Bunny CDN (user's storage or platform default)
+            const filename = `generated-${Date.now()}-${i}`
+            let permanentUrl = falTempUrl
+
+            try {
+              const uploadResult = await uploadFromUrl(
+                falTempUrl,
+                {
+                  folder: `images/${context.user.id}`,
+                  filename,
+                },
+                storageConfig ?? undefined,
+              )
+              permanentUrl = uploadResult.url
+              console.log(
+                `[IMAGE] Bunny upload ${i + 1} success:`,
+                permanentUrl,
+              )
+            } catch (uploadError) {
+              console.error(
+                `[IMAGE] Failed to upload image ${i + 1} to Bunny CDN:`,
+                uploadError,
+              )
+            }
+
+            // Create asset record
+            const asset = await prisma.asset.create({
+              data: {
+                userId: context.user.id,
+                projectId: job.projectId,
+                type: 'image',
+                storageUrl: permanentUrl,
                 filename,
+                prompt: inputData.prompt,
+                provider: 'fal',
+                model: job.model,
+                metadata: JSON.stringify({
+                  width: imageData.width,
+                  height: imageData.height,
+                  seed: result.seed,
+                  batchIndex: i,
+                  batchSize: allImages.length,
+                }),
               },
-              storageConfig ?? undefined,
-            )
-            permanentUrl = uploadResult.url
-            console.log(`[IMAGE] Bunny upload ${i + 1} success:`, permanentUrl)
-          } catch (uploadError) {
-            console.error(
-              `[IMAGE] Failed to upload image ${i + 1} to Bunny CDN:`,
-              uploadError,
-            )
+            })
+            console.log(`[IMAGE] Asset ${i + 1} created:`, asset.id)
+
+            createdAssets.push({
+              id: asset.id,
+              url: permanentUrl,
+              width: imageData.width,
+              height: imageData.height,
+            })
           }
 
-          // Create asset record
-          const asset = await prisma.asset.create({
-            data: {
-              userId: context.user.id,
-              projectId: job.projectId,
-              type: 'image',
-              storageUrl: permanentUrl,
-              filename,
-              prompt: inputData.prompt,
-              provider: 'fal',
-              model: job.model,
-              metadata: JSON.stringify({
-                width: imageData.width,
-                height: imageData.height,
-                seed: result.seed,
-                batchIndex: i,
-                batchSize: allImages.length,
-              }),
-            },
-          })
-          console.log(`[IMAGE] Asset ${i + 1} created:`, asset.id)
-
-          createdAssets.push({
-            id: asset.id,
-            url: permanentUrl,
-            width: imageData.width,
-            height: imageData.height,
-          })
-        }
+          const primaryAsset = createdAssets[0]
+          return {
+            url: primaryAsset.url,
+            assetId: primaryAsset.id,
+            width: primaryAsset.width,
+            height: primaryAsset.height,
+            // Include all assets for batch generation
+            assets: createdAssets,
+            totalImages: createdAssets.length,
+          }
+        })
 
-        // Update job as completed with all asset info
-        const primaryAsset = createdAssets[0]
-        await prisma.generationJob.update({
-          where: { id: job.id },
-          data: {
-            status: 'completed',
+        // Another poll claimed the job first and is saving the result
+        if (!output) {
+          return {
+            jobId: job.id,
+            status: 'processing' as const,
             progress: 100,
-            output: JSON.stringify({
-              url: primaryAsset.url,
-              assetId: primaryAsset.id,
-              width: primaryAsset.width,
-              height: primaryAsset.height,
-              // Include all assets for batch generation
-              assets: createdAssets,
-              totalImages: createdAssets.length,
-            }),
-          },
-        })
+          }
+        }
         console.log(
           '[IMAGE] Job updated to completed with',
-          createdAssets.length,
+          output.totalImages,
           'images',
         )
 
@@ -354,14 +370,7 @@ export const getImageJobStatusFn = createServerFn({ method: 'GET' })
           jobId: job.id,
           status: 'completed' as const,
           progress: 100,
-          output: {
-            url: primaryAsset.url,
-            assetId: primaryAsset.id,
-            width: primaryAsset.width,
-            height: primaryAsset.height,
-            assets: createdAssets,
-            totalImages: createdAssets.length,
-          },
+          output,
         }
       } else {
         console.error(
@@ -401,12 +410,9 @@ export const getImageJobStatusFn = createServerFn({ method: 'GET' })
       progress,
     )
 
-    await prisma.generationJob.update({
-      where: { id: job.id },
-      data: {
-        status: falStatus.status === 'processing' ? 'processing' : 'pending',
-        progress,
-      },
+    await updateRunningJob(job.id, {
+      status: falStatus.status === 'processing' ? 'processing' : 'pending',
+      progress,
     })
 
     return {
@@ -0,0 +1,65 @@
+/**
+ * Generation Job Completion
+ *
+ * The studio and the agent can poll the same job at the same time, so a
+ * finished job is claimed before its result is uploaded and saved as an
+ * asset. Only the poller that wins the claim saves it; the others report the
+ * job as still processing until the saved output is there.
+ */
+
+import { prisma } from '../db.server'
+import type { GenerationJob } from '../generated/prisma/client'
+
+const FINISHED_STATUSES = ['completed', 'failed']
+
+/**
+ * Claim a finished job and save its result, returning the job output, or
+ * null if another poller already claimed the job. If saving fails the claim
+ * is released so the next poll retries it.
+ */
+export async function saveJobResult<T extends object>(
+  jobId: string,
+  save: () => Promise<T>,
+): Promise<T | null> {
+  const claim = await prisma.generationJob.updateMany({
+    where: { id: jobId, status: { notIn: FINISHED_STATUSES } },
+    data: { status: 'completed', progress: 100 },
+  })
+  if (claim.count === 0) return null
+
+  try {
+    const output = await save()
+    await prisma.generationJob.update({
+      where: { id: jobId },
+      data: { output: JSON.stringify(output) },
+    })
+    return output
+  } catch (error) {
+    await prisma.generationJob.update({
+      where: { id: jobId },
+      data: { status: 'processing' },
+    })
+    throw error
+  }
+}
+
+/**
+ * Save the status and progress of a job that is still running, unless
+ * another poll finished it in the meantime
+ */
+export async function updateRunningJob(
+  jobId: string,
+  data: { status?: string; progress: number },
+) {
+  await prisma.generationJob.updateMany({
+    where: { id: jobId, status: { notIn: FINISHED_STATUSES } },
+    data,
+  })
+}
+
+/**
+ * Whether a job has been claimed but its result isn't saved yet
+ */
+export function isSavingJobResult(job: GenerationJob) {
+  return job.status === 'completed' && !job.output
+}
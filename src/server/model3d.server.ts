@@ -97,6 +97,8 @@ const generate3DModelSchema = z.object({
   exportDrc: z.boolean().optional(),
 })
 
+export type Generate3DModelInput = z.infer<typeof generate3DModelSchema>
+
 const list3DModelsSchema = z.object({
   limit: z.number().min(1).max(100).optional(),
   offset: z.number().min(0).optional(),
@@ -118,107 +120,115 @@ const assetIdSchema = z.object({
 export const generate3DModelFn = createServerFn({ method: 'POST' })
   .middleware([authMiddleware])
   .inputValidator(generate3DModelSchema)
-  .handler(async ({ data, context }) => {
-    console.log('[3D] generate3DModelFn called:', {
-      modelId: data.modelId,
-      mode: data.mode,
-      prompt: data.prompt?.slice(0, 50),
-      userId: context.user.id,
-    })
+  .handler(({ data, context }) => start3DModelJob(context.user.id, data))
+
+/**
+ * Start a 3D model job for a user (also used by the AI Director)
+ */
+export async function start3DModelJob(
+  userId: string,
+  data: Generate3DModelInput,
+) {
+  console.log('[3D] start3DModelJob called:', {
+    modelId: data.modelId,
+    mode: data.mode,
+    prompt: data.prompt?.slice(0, 50),
+    userId,
+  })
 
-    const modelConfig = get3DModelById(data.modelId)
+  const modelConfig = get3DModelById(data.modelId)
 
-    if (!modelConfig) {
-      console.error('[3D] Unknown model:', data.modelId)
-      throw new Error(`Unknown 3D model: ${data.modelId}`)
-    }
+  if (!modelConfig) {
+    console.error('[3D] Unknown model:', data.modelId)
+    throw new Error(`Unknown 3D model: ${data.modelId}`)
+  }
 
-    // Get user's fal.ai API key (BYOK)
-    const userApiKey = await getUserFalApiKey(context.user.id)
-
-    // Start generation job via Fal.ai
-    console.log('[3D] Starting FAL 3D generation job...')
-    const job = await generate3DModel(
-      {
-        modelId: data.modelId,
-        prompt: data.prompt,
-        seed: data.seed,
-        imageUrl: data.imageUrl,
-        imageUrls: data.imageUrls,
-        backImageUrl: data.backImageUrl,
-        leftImageUrl: data.leftImageUrl,
-        rightImageUrl: data.rightImageUrl,
+  // Get user's fal.ai API key (BYOK)
+  const userApiKey = await getUserFalApiKey(userId)
+
+  // Start generation job via Fal.ai
+  console.log('[3D] Starting FAL 3D generation job...')
+  const job = await generate3DModel(
+    {
+      modelId: data.modelId,
+      prompt: data.prompt,
+      seed: data.seed,
+      imageUrl: data.imageUrl,
+      imageUrls: data.imageUrls,
+      backImageUrl: data.backImageUrl,
+      leftImageUrl: data.leftImageUrl,
+      rightImageUrl: data.rightImageUrl,
+      enablePbr: data.enablePbr,
+      faceCount: data.faceCount,
+      generateType: data.generateType,
+      polygonType: data.polygonType,
+      topology: data.topology,
+      targetPolycount: data.targetPolycount,
+      shouldRemesh: data.shouldRemesh,
+      symmetryMode: data.symmetryMode,
+      mode: data.meshyMode,
+      artStyle: data.artStyle,
+      shouldTexture: data.shouldTexture,
+      enablePromptExpansion: data.enablePromptExpansion,
+      texturePrompt: data.texturePrompt,
+      textureImageUrl: data.textureImageUrl,
+      isATpose: data.isATpose,
+      geometryFileFormat: data.geometryFileFormat,
+      material: data.material,
+      qualityMeshOption: data.qualityMeshOption,
+      useOriginalAlpha: data.useOriginalAlpha,
+      addons: data.addons,
+      previewRender: data.previewRender,
+      maskUrls: data.maskUrls,
+      samPrompt: data.samPrompt,
+      pointPrompts: data.pointPrompts,
+      boxPrompts: data.boxPrompts,
+      exportMeshes: data.exportMeshes,
+      include3dKeypoints: data.include3dKeypoints,
+      exportTexturedGlb: data.exportTexturedGlb,
+      labelsFg1: data.labelsFg1,
+      labelsFg2: data.labelsFg2,
+      classes: data.classes,
+      exportDrc: data.exportDrc,
+    },
+    userApiKey,
+  )
+  console.log('[3D] FAL job created:', job)
+
+  // Create asset record in database with Fal.ai URLs for status polling
+  const asset = await prisma.model3DAsset.create({
+    data: {
+      userId,
+      modelId: data.modelId,
+      endpoint: modelConfig.endpoint,
+      mode: data.mode,
+      prompt: data.prompt,
+      sourceImageUrls: data.imageUrls
+        ? JSON.stringify(data.imageUrls)
+        : data.imageUrl
+          ? JSON.stringify([data.imageUrl])
+          : null,
+      settings: JSON.stringify({
         enablePbr: data.enablePbr,
         faceCount: data.faceCount,
         generateType: data.generateType,
-        polygonType: data.polygonType,
         topology: data.topology,
         targetPolycount: data.targetPolycount,
-        shouldRemesh: data.shouldRemesh,
-        symmetryMode: data.symmetryMode,
-        mode: data.meshyMode,
-        artStyle: data.artStyle,
-        shouldTexture: data.shouldTexture,
-        enablePromptExpansion: data.enablePromptExpansion,
-        texturePrompt: data.texturePrompt,
-        textureImageUrl: data.textureImageUrl,
-        isATpose: data.isATpose,
-        geometryFileFormat: data.geometryFileFormat,
-        material: data.material,
-        qualityMeshOption: data.qualityMeshOption,
-        useOriginalAlpha: data.useOriginalAlpha,
-        addons: data.addons,
-        previewRender: data.previewRender,
-        maskUrls: data.maskUrls,
-        samPrompt: data.samPrompt,
-        pointPrompts: data.pointPrompts,
-        boxPrompts: data.boxPrompts,
-        exportMeshes: data.exportMeshes,
-        include3dKeypoints: data.include3dKeypoints,
-        exportTexturedGlb: data.exportTexturedGlb,
-        labelsFg1: data.labelsFg1,
-        labelsFg2: data.labelsFg2,
-        classes: data.classes,
-        exportDrc: data.exportDrc,
-      },
-      userApiKey,
-    )
-    console.log('[3D] FAL job created:', job)
-
-    // Create asset record in database with Fal.ai URLs for status polling
-    const asset = await prisma.model3DAsset.create({
-      data: {
-        userId: context.user.id,
-        modelId: data.modelId,
-        endpoint: modelConfig.endpoint,
-        mode: data.mode,
-        prompt: data.prompt,
-        sourceImageUrls: data.imageUrls
-          ? JSON.stringify(data.imageUrls)
-          : data.imageUrl
-            ? JSON.stringify([data.imageUrl])
-            : null,
-        settings: JSON.stringify({
-          enablePbr: data.enablePbr,
-          faceCount: data.faceCount,
-          generateType: data.generateType,
-          topology: data.topology,
-          targetPolycount: data.targetPolycount,
-        }),
-        status: 'pending',
-        requestId: job.requestId,
-        statusUrl: job.statusUrl,
-        responseUrl: job.responseUrl,
-        cancelUrl: job.cancelUrl,
-      },
-    })
-    console.log('[3D] Asset record created:', asset.id)
-
-    return {
-      assetId: asset.id,
+      }),
       status: 'pending',
-    }
+      requestId: job.requestId,
+      statusUrl: job.statusUrl,
+      responseUrl: job.responseUrl,
+      cancelUrl: job.cancelUrl,
+    },
   })
+  console.log('[3D] Asset record created:', asset.id)
+
+  return {
+    assetId: asset.id,
+    status: 'pending',
+  }
+}
 
 /**
  * Check the status of a 3D generation job and update on completion
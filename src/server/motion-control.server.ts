@@ -15,6 +15,11 @@ import {
   MOTION_CONTROL_MODELS,
   getMotionControlModelById,
 } from './services/types'
+import {
+  isSavingJobResult,
+  saveJobResult,
+  updateRunningJob,
+} from './jobs.server'
 import type { FalVideoResult } from './services/fal.server'
 
 // =============================================================================
@@ -48,6 +53,8 @@ const generateMotionControlSchema = z.object({
   projectId: z.string().optional(),
 })
 
+export type MotionControlInput = z.infer<typeof generateMotionControlSchema>
+
 const listMotionControlVideosSchema = z.object({
   limit: z.number().min(1).max(100).optional(),
   offset: z.number().min(0).optional(),
@@ -70,124 +77,145 @@ const jobIdSchema = z.object({
 export const generateMotionControlFn = createServerFn({ method: 'POST' })
   .middleware([authMiddleware])
   .inputValidator(generateMotionControlSchema)
-  .handler(async ({ data, context }) => {
-    const modelId = data.model || 'fal-ai/kling-video/v2.6/pro/motion-control'
-    const modelConfig = getMotionControlModelById(modelId)
+  .handler(({ data, context }) => startMotionControlJob(context.user.id, data))
 
-    if (!modelConfig) {
-      throw new Error(`Unknown motion control model: ${modelId}`)
-    }
+/**
+ * Start a motion control job for a user (also used by the AI Director)
+ */
+export async function startMotionControlJob(
+  userId: string,
+  data: MotionControlInput,
+) {
+  const modelId = data.model || 'fal-ai/kling-video/v2.6/pro/motion-control'
+  const modelConfig = getMotionControlModelById(modelId)
+
+  if (!modelConfig) {
+    throw new Error(`Unknown motion control model: ${modelId}`)
+  }
 
-    // Get user's fal.ai API key (BYOK)
-    const userApiKey = await getUserFalApiKey(context.user.id)
+  // Get user's fal.ai API key (BYOK)
+  const userApiKey = await getUserFalApiKey(userId)
 
-    // Start generation job via Fal.ai
-    const job = await generateMotionControl(
-      {
+  // Start generation job via Fal.ai
+  const job = await generateMotionControl(
+    {
+      imageUrl: data.imageUrl,
+      videoUrl: data.videoUrl,
+      prompt: data.prompt,
+      model: modelId,
+      characterOrientation: data.characterOrientation,
+      duration: data.duration,
+      audioUrl: data.audioUrl,
+      soundStartTime: data.soundStartTime,
+      soundEndTime: data.soundEndTime,
+      soundInsertTime: data.soundInsertTime,
+    },
+    userApiKey,
+  )
+
+  // Create job record in database with Fal.ai URLs for status polling
+  const dbJob = await prisma.generationJob.create({
+    data: {
+      userId,
+      projectId: data.projectId || null,
+      type: 'video',
+      status: 'pending',
+      provider: 'fal',
+      model: modelId,
+      input: JSON.stringify({
+        generationType: 'motion-control',
         imageUrl: data.imageUrl,
+        imageAssetId: data.imageAssetId,
         videoUrl: data.videoUrl,
+        videoAssetId: data.videoAssetId,
         prompt: data.prompt,
-        model: modelId,
         characterOrientation: data.characterOrientation,
         duration: data.duration,
         audioUrl: data.audioUrl,
-        soundStartTime: data.soundStartTime,
-        soundEndTime: data.soundEndTime,
-        soundInsertTime: data.soundInsertTime,
-      },
-      userApiKey,
-    )
-
-    // Create job record in database with Fal.ai URLs for status polling
-    const dbJob = await prisma.generationJob.create({
-      data: {
-        userId: context.user.id,
-        projectId: data.projectId || null,
-        type: 'video',
-        status: 'pending',
-        provider: 'fal',
-        model: modelId,
-        input: JSON.stringify({
-          generationType: 'motion-control',
-          imageUrl: data.imageUrl,
-          imageAssetId: data.imageAssetId,
-          videoUrl: data.videoUrl,
-          videoAssetId: data.videoAssetId,
-          prompt: data.prompt,
-          characterOrientation: data.characterOrientation,
-          duration: data.duration,
-          audioUrl: data.audioUrl,
-        }),
-        externalId: job.requestId,
-        statusUrl: job.statusUrl,
-        responseUrl: job.responseUrl,
-        cancelUrl: job.cancelUrl,
-      },
-    })
-
-    return {
-      jobId: dbJob.id,
+      }),
       externalId: job.requestId,
-      model: modelId,
-      status: 'pending',
-    }
+      statusUrl: job.statusUrl,
+      responseUrl: job.responseUrl,
+      cancelUrl: job.cancelUrl,
+    },
   })
 
+  return {
+    jobId: dbJob.id,
+    externalId: job.requestId,
+    model: modelId,
+    status: 'pending',
+  }
+}
+
 /**
  * Check the status of a motion control generation job
  */
 export const getMotionControlJobStatusFn = createServerFn({ method: 'GET' })
   .middleware([authMiddleware])
   .inputValidator(jobIdSchema)
-  .handler(async ({ data, context }) => {
-    const job = await prisma.generationJob.findUnique({
-      where: { id: data.jobId },
-    })
+  .handler(({ data, context }) =>
+    pollMotionControlJob(data.jobId, context.user.id),
+  )
 
-    if (!job) {
-      throw new Error('Job not found')
-    }
+/**
+ * Poll a motion control job, saving the video as an asset on completion
+ */
+export async function pollMotionControlJob(jobId: string, userId: string) {
+  const job = await prisma.generationJob.findUnique({
+    where: { id: jobId },
+  })
 
-    if (job.userId !== context.user.id) {
-      throw new Error('Unauthorized')
-    }
+  if (!job) {
+    throw new Error('Job not found')
+  }
 
-    // If already completed or failed, return cached result
-    if (job.status === 'completed' || job.status === 'failed') {
-      return {
-        jobId: job.id,
-        status: job.status,
-        progress: job.status === 'completed' ? 100 : 0,
-        output: job.output ? JSON.parse(job.output) : null,
-        error: job.error,
-      }
-    }
+  if (job.userId !== userId) {
+    throw new Error('Unauthorized')
+  }
 
-    // Poll Fal.ai for status using stored URLs
-    if (!job.statusUrl || !job.responseUrl) {
-      throw new Error('Job is missing Fal.ai URLs for status polling')
-    }
+  // Another poll claimed the job and is still saving its result
+  if (isSavingJobResult(job)) {
+    return { jobId: job.id, status: 'processing' as const, progress: 100 }
+  }
 
-    // Get user's API key for polling
-    const userApiKey = await getUserFalApiKey(job.userId)
-    const falStatus = await getJobStatus(
-      job.statusUrl,
-      job.responseUrl,
-      userApiKey,
-    )
+  // If already completed or failed, return cached result
+  if (job.status === 'completed' || job.status === 'failed') {
+    return {
+      jobId: job.id,
+      status: job.status,
+      progress: job.status === 'completed' ? 100 : 0,
+      output: job.output ? JSON.parse(job.output) : null,
+      error: job.error,
+    }
+  }
 
-    // Update job status in database
-    if (falStatus.status === 'completed' && falStatus.result) {
-      const result = falStatus.result as FalVideoResult
-      const videoUrl = result.video.url
+  // Poll Fal.ai for status using stored URLs
+  if (!job.statusUrl || !job.responseUrl) {
+    throw new Error('Job is missing Fal.ai URLs for status polling')
+  }
 
-      if (videoUrl) {
+  // Get user's API key for polling
+  const userApiKey = await getUserFalApiKey(job.userId)
+  const falStatus = await getJobStatus(
+    job.statusUrl,
+    job.responseUrl,
+    userApiKey,
+  )
+
+  // Update job status in database
+  if (falStatus.status === 'completed' && falStatus.result) {
+    const result = falStatus.result as FalVideoResult
+    const videoUrl = result.video.url
+
+    if (videoUrl) {
+      const output = await saveJobResult(job.id, async () => {
         const inputData = JSON.parse(job.input)
 
         // Create asset for the generated video
         const asset = await prisma.asset.create({
           data: {
-            userId: context.user.id,
+            userId,
             projectId: job.projectId,
             type: 'video',
             storageUrl: videoUrl,
@@ -206,69 +234,58 @@ export const getMotionControlJobStatusFn = createServerFn({ method: 'GET' })
           },
         })
 
-        // Update job as completed
-        await prisma.generationJob.update({
-          where: { id: job.id },
-          data: {
-            status: 'completed',
-            progress: 100,
-            output: JSON.stringify({
-              url: videoUrl,
-              assetId: asset.id,
-            }),
-          },
-        })
+        return { url: videoUrl, assetId: asset.id }
+      })
 
-        return {
-          jobId: job.id,
-          status: 'completed' as const,
-          progress: 100,
-          output: {
-            url: videoUrl,
-            assetId: asset.id,
-          },
-        }
+      // Another poll claimed the job first and is saving the result
+      if (!output) {
+        return { jobId: job.id, status: 'processing' as const, progress: 100 }
       }
-    }
-
-    if (falStatus.status === 'failed') {
-      const errorMessage = falStatus.error || 'Motion control generation failed'
-      await prisma.generationJob.update({
-        where: { id: job.id },
-        data: {
-          status: 'failed',
-          error: errorMessage,
-        },
-      })
 
       return {
         jobId: job.id,
-        status: 'failed' as const,
-        progress: 0,
-        error: errorMessage,
+        status: 'completed' as const,
+        progress: 100,
+        output,
       }
     }
+  }
 
-    // Still processing
-    const progress =
-      falStatus.progress || (falStatus.status === 'processing' ? 50 : 10)
-
+  if (falStatus.status === 'failed') {
+    const errorMessage = falStatus.error || 'Motion control generation failed'
     await prisma.generationJob.update({
       where: { id: job.id },
       data: {
-        status: falStatus.status === 'processing' ? 'processing' : 'pending',
-        progress,
+        status: 'failed',
+        error: errorMessage,
       },
     })
 
     return {
       jobId: job.id,
-      status: falStatus.status === 'processing' ? 'processing' : 'pending',
-      progress,
-      queuePosition: falStatus.queuePosition,
+      status: 'failed' as const,
+      progress: 0,
+      error: errorMessage,
     }
+  }
+
+  // Still processing
+  const progress =
+    falStatus.progress || (falStatus.status === 'processing' ? 50 : 10)
+
+  await updateRunningJob(job.id, {
+    status: falStatus.status === 'processing' ? 'processing' : 'pending',
+    progress,
   })
 
+  return {
+    jobId: job.id,
+    status: falStatus.status === 'processing' ? 'processing' : 'pending',
+    progress,
+    queuePosition: falStatus.queuePosition,
+  }
+}
+
 // =============================================================================
 // Motion Control Video Library
 // =============================================================================
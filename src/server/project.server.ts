@@ -7,8 +7,26 @@
 import { createServerFn } from '@tanstack/react-start'
 import { z } from 'zod'
 import { prisma } from '../db.server'
+import {
+  REFRAME_FORMATS,
+  REFRAME_FORMAT_IDS,
+  reframeManifest,
+} from '../remotion/reframe'
 import { authMiddleware } from './middleware.server'
-import { createEmptyManifest } from './services/index.server'
+import { toBrandStyle } from './brand-kit.server'
+import { applyFocusTracks, getCoverClips, getFocusTracks } from './focus.server'
+import { getHistoryState, recordRevision } from './revision.server'
+import {
+  fillTemplateSlots,
+  getOwnedTemplate,
+  parseTemplateSlots,
+  slotInputSchema,
+} from './template.server'
+import {
+  createEmptyManifest,
+  getManifestDuration,
+  parseManifest,
+} from './services/index.server'
 import type { ProjectManifest } from './services/index.server'
 
 // =============================================================================
@@ -20,6 +38,10 @@ const createProjectSchema = z.object({
   width: z.number().min(480).max(4096).optional(),
   height: z.number().min(480).max(4096).optional(),
   fps: z.number().min(24).max(60).optional(),
+  // Start from a template; its dimensions and fps are the defaults
+  templateId: z.string().optional(),
+  // Values for the template's slots, keyed by slot ID
+  slotValues: z.record(z.string(), slotInputSchema).optional(),
 })
 
 const updateProjectSchema = z.object({
@@ -34,9 +56,19 @@ const projectIdSchema = z.object({
   projectId: z.string(),
 })
 
+const reframeProjectSchema = z.object({
+  projectId: z.string(),
+  format: z.enum(REFRAME_FORMAT_IDS),
+  // Track the subject of cover-fit clips so they stay in frame
+  smartCrop: z.boolean().optional(),
+})
+
 const updateManifestSchema = z.object({
   projectId: z.string(),
   manifest: z.string(), // JSON string of ProjectManifest
+  // Optimistic concurrency: the manifestVersion the edit was based on.
+  // If the manifest changed since, the save is rejected as a conflict.
+  expectedVersion: z.number().int().optional(),
 })
 
 const listProjectsSchema = z.object({
@@ -56,16 +88,43 @@ export const createProjectFn = createServerFn({ method: 'POST' })
   .middleware([authMiddleware])
   .inputValidator(createProjectSchema)
   .handler(async ({ data, context }) => {
-    const emptyManifest = createEmptyManifest()
+    const template = data.templateId
+      ? await getOwnedTemplate(data.templateId, context.user.id)
+      : null
+
+    const width = data.width || template?.width || 1080
+    const height = data.height || template?.height || 1920
+    const fps = data.fps || template?.fps || 30
+
+    let manifest = createEmptyManifest()
+    if (template) {
+      manifest = parseManifest(template.manifest)
+      if (width !== template.width || height !== template.height) {
+        manifest = reframeManifest(
+          manifest,
+          { width: template.width, height: template.height },
+          { width, height },
+        )
+      }
+      manifest = await fillTemplateSlots(
+        manifest,
+        parseTemplateSlots(template.slots),
+        data.slotValues ?? {},
+        context.user.id,
+        fps,
+      )
+    }
 
     const project = await prisma.project.create({
       data: {
         name: data.name,
         userId: context.user.id,
-        width: data.width || 1080,
-        height: data.height || 1920,
-        fps: data.fps || 30,
-        manifest: JSON.stringify(emptyManifest),
+        width,
+        height,
+        fps,
+        manifest: JSON.stringify(manifest),
+        duration: getManifestDuration(manifest),
+        templateId: template?.id,
         status: 'draft',
       },
     })
@@ -77,7 +136,7 @@ export const createProjectFn = createServerFn({ method: 'POST' })
       height: project.height,
       fps: project.fps,
       status: project.status,
-      manifest: emptyManifest,
+      manifest,
       createdAt: project.createdAt,
       updatedAt: project.updatedAt,
     }
@@ -96,6 +155,7 @@ export const getProjectFn = createServerFn({ method: 'GET' })
         assets: {
           orderBy: { createdAt: 'desc' },
         },
+        brandKit: true,
       },
     })
 
@@ -108,6 +168,11 @@ export const getProjectFn = createServerFn({ method: 'GET' })
       throw new Error('Unauthorized')
     }
 
+    const { manifest, manifestError } = await loadProjectManifest(
+      project.id,
+      project.manifest,
+    )
+
     return {
       id: project.id,
       name: project.name,
@@ -118,7 +183,10 @@ export const getProjectFn = createServerFn({ method: 'GET' })
       status: project.status,
       outputUrl: project.outputUrl,
       thumbnailUrl: project.thumbnailUrl,
-      manifest: JSON.parse(project.manifest) as ProjectManifest,
+      manifest,
+      manifestError,
+      brandKitId: project.brandKitId,
+      brand: project.brandKit ? toBrandStyle(project.brandKit) : null,
       assets: project.assets.map((asset) => ({
         id: asset.id,
         type: asset.type,
@@ -129,6 +197,7 @@ export const getProjectFn = createServerFn({ method: 'GET' })
         durationSeconds: asset.durationSeconds,
         createdAt: asset.createdAt,
       })),
+      manifestVersion: project.manifestVersion,
       createdAt: project.createdAt,
       updatedAt: project.updatedAt,
     }
@@ -164,6 +233,12 @@ export const listProjectsFn = createServerFn({ method: 'GET' })
         _count: {
           select: { assets: true },
         },
+        generationJobs: {
+          where: { type: 'render' },
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+          select: { progress: true },
+        },
       },
     })
 
@@ -186,6 +261,10 @@ export const listProjectsFn = createServerFn({ method: 'GET' })
         thumbnailUrl: p.thumbnailUrl,
         outputUrl: p.outputUrl,
         assetCount: p._count.assets,
+        renderProgress:
+          p.status === 'rendering'
+            ? (p.generationJobs[0]?.progress ?? 0)
+            : null,
         createdAt: p.createdAt,
         updatedAt: p.updatedAt,
       })),
@@ -293,6 +372,7 @@ export const duplicateProjectFn = createServerFn({ method: 'POST' })
         height: original.height,
         fps: original.fps,
         manifest: original.manifest,
+        templateId: original.templateId,
         status: 'draft',
       },
     })
@@ -304,12 +384,76 @@ export const duplicateProjectFn = createServerFn({ method: 'POST' })
     }
   })
 
+/**
+ * Duplicate a project at another aspect ratio (see reframeManifest)
+ */
+export const reframeProjectFn = createServerFn({ method: 'POST' })
+  .middleware([authMiddleware])
+  .inputValidator(reframeProjectSchema)
+  .handler(async ({ data, context }) => {
+    const original = await prisma.project.findUnique({
+      where: { id: data.projectId },
+    })
+
+    if (!original) {
+      throw new Error('Project not found')
+    }
+
+    if (original.userId !== context.user.id) {
+      throw new Error('Unauthorized')
+    }
+
+    const format = REFRAME_FORMATS[data.format]
+    let source = parseManifest(original.manifest)
+    if (data.smartCrop) {
+      // Clips whose detection failed keep the default focus point
+      const { tracks } = await getFocusTracks(
+        getCoverClips(source),
+        context.user.id,
+        original.fps,
+      )
+      source = applyFocusTracks(source, tracks)
+    }
+
+    const manifest = reframeManifest(
+      source,
+      { width: original.width, height: original.height },
+      { width: format.width, height: format.height },
+    )
+
+    const reframed = await prisma.project.create({
+      data: {
+        name: `${original.name} (${data.format})`,
+        userId: context.user.id,
+        width: format.width,
+        height: format.height,
+        fps: original.fps,
+        manifest: JSON.stringify(manifest),
+        duration: original.duration,
+        brandKitId: original.brandKitId,
+        folderId: original.folderId,
+        templateId: original.templateId,
+        status: 'draft',
+      },
+    })
+
+    return {
+      id: reframed.id,
+      name: reframed.name,
+      createdAt: reframed.createdAt,
+    }
+  })
+
 // =============================================================================
 // Manifest Operations
 // =============================================================================
 
 /**
  * Update project manifest (the timeline/composition data)
+ *
+ * When expectedVersion is given, the write only succeeds if nobody
+ * (another tab, the AI Director) saved the manifest in the meantime.
+ * Otherwise the current server manifest is returned as a conflict.
  */
 export const updateManifestFn = createServerFn({ method: 'POST' })
   .middleware([authMiddleware])
@@ -329,41 +473,78 @@ export const updateManifestFn = createServerFn({ method: 'POST' })
       throw new Error('Unauthorized')
     }
 
-    // Validate manifest JSON
-    let manifest: ProjectManifest
-    try {
-      manifest = JSON.parse(data.manifest)
-    } catch {
-      throw new Error('Invalid manifest JSON')
-    }
-
-    // Calculate total duration from manifest
-    let maxFrame = 0
-    for (const clip of manifest.tracks.video) {
-      const endFrame = clip.startFrame + clip.durationFrames
-      if (endFrame > maxFrame) maxFrame = endFrame
-    }
-    for (const clip of manifest.tracks.audio) {
-      const endFrame = clip.startFrame + clip.durationFrames
-      if (endFrame > maxFrame) maxFrame = endFrame
-    }
-    for (const comp of manifest.tracks.components) {
-      const endFrame = comp.startFrame + comp.durationFrames
-      if (endFrame > maxFrame) maxFrame = endFrame
-    }
-
-    const project = await prisma.project.update({
-      where: { id: data.projectId },
-      data: {
-        manifest: data.manifest,
-        duration: maxFrame,
+    // Validate (and migrate) before anything is written
+    const manifest = parseManifest(data.manifest)
+    const manifestJson = JSON.stringify(manifest)
+    const duration = getManifestDuration(manifest)
+
+    const { count, project, history } = await prisma.$transaction(
+      async (tx) => {
+        const previous = await tx.project.findUniqueOrThrow({
+          where: { id: data.projectId },
+          select: { manifest: true },
+        })
+
+        // Conditional write - matches nothing if the project changed since
+        const result = await tx.project.updateMany({
+          where: {
+            id: data.projectId,
+            ...(data.expectedVersion !== undefined && {
+              manifestVersion: data.expectedVersion,
+            }),
+          },
+          data: {
+            manifest: manifestJson,
+            duration,
+          },
+        })
+
+        if (result.count > 0) {
+          await recordRevision(tx, {
+            projectId: data.projectId,
+            previousManifest: previous.manifest,
+            manifest: manifestJson,
+            author: 'user',
+          })
+        }
+
+        const current = await tx.project.findUniqueOrThrow({
+          where: { id: data.projectId },
+          select: {
+            id: true,
+            manifest: true,
+            duration: true,
+            manifestVersion: true,
+            headRevisionId: true,
+          },
+        })
+
+        return {
+          count: result.count,
+          project: current,
+          history: await getHistoryState(tx, current.headRevisionId),
+        }
       },
-    })
+    )
+
+    if (count === 0) {
+      return {
+        status: 'conflict' as const,
+        id: project.id,
+        duration: project.duration,
+        manifestVersion: project.manifestVersion,
+        manifest: (await loadProjectManifest(project.id, project.manifest))
+          .manifest,
+        ...history,
+      }
+    }
 
     return {
+      status: 'saved' as const,
       id: project.id,
       duration: project.duration,
-      updatedAt: project.updatedAt,
+      manifestVersion: project.manifestVersion,
+      ...history,
     }
   })
 
@@ -380,7 +561,8 @@ export const getManifestFn = createServerFn({ method: 'GET' })
         userId: true,
         manifest: true,
         duration: true,
-        updatedAt: true,
+        manifestVersion: true,
+        headRevisionId: true,
       },
     })
 
@@ -392,10 +574,17 @@ export const getManifestFn = createServerFn({ method: 'GET' })
       throw new Error('Unauthorized')
     }
 
+    const { manifest, manifestError } = await loadProjectManifest(
+      data.projectId,
+      project.manifest,
+    )
+
     return {
-      manifest: JSON.parse(project.manifest) as ProjectManifest,
+      manifest,
+      manifestError,
       duration: project.duration,
-      updatedAt: project.updatedAt,
+      manifestVersion: project.manifestVersion,
+      ...(await getHistoryState(prisma, project.headRevisionId)),
     }
   })
 
@@ -625,6 +814,12 @@ export const searchProjectsFn = createServerFn({ method: 'GET' })
         _count: {
           select: { assets: true },
         },
+        generationJobs: {
+          where: { type: 'render' },
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+          select: { progress: true },
+        },
       },
     })
 
@@ -643,6 +838,10 @@ export const searchProjectsFn = createServerFn({ method: 'GET' })
         outputUrl: p.outputUrl,
         folderId: p.folderId,
         assetCount: p._count.assets,
+        renderProgress:
+          p.status === 'rendering'
+            ? (p.generationJobs[0]?.progress ?? 0)
+            : null,
         createdAt: p.createdAt,
         updatedAt: p.updatedAt,
       })),
@@ -782,3 +981,54 @@ export const bulkMoveProjectsFn = createServerFn({ method: 'POST' })
       movedCount: ownedProjectIds.length,
     }
   })
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+// Revisions searched for a valid manifest when the stored one is broken
+const MANIFEST_RECOVERY_REVISIONS = 20
+
+/**
+ * Parse a project's stored manifest. If it no longer validates, fall back
+ * to the newest revision that does (or an empty timeline) so the project
+ * can still be opened; manifestError says what happened, and the next
+ * save replaces the broken manifest.
+ */
+async function loadProjectManifest(
+  projectId: string,
+  json: string,
+): Promise<{ manifest: ProjectManifest; manifestError: string | null }> {
+  try {
+    return { manifest: parseManifest(json), manifestError: null }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid manifest'
+    console.error(
+      `[PROJECT] Stored manifest of ${projectId} is invalid:`,
+      error,
+    )
+
+    const revisions = await prisma.projectRevision.findMany({
+      where: { projectId },
+      orderBy: { createdAt: 'desc' },
+      take: MANIFEST_RECOVERY_REVISIONS,
+      select: { manifest: true },
+    })
+
+    for (const revision of revisions) {
+      try {
+        return {
+          manifest: parseManifest(revision.manifest),
+          manifestError: `${message}. Showing the last valid version.`,
+        }
+      } catch {
+        // Try the next older revision
+      }
+    }
+
+    return {
+      manifest: createEmptyManifest(),
+      manifestError: `${message}. No valid version was found, so the timeline is empty.`,
+    }
+  }
+}
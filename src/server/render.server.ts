@@ -0,0 +1,327 @@
+/**
+ * Render Server Functions
+ *
+ * Turns a project's manifest into a final MP4.
+ * A render runs in the background as a GenerationJob (type "render"),
+ * with progress written to the job and the outcome written to the project.
+ */
+
+import { createServerFn } from '@tanstack/react-start'
+import { z } from 'zod'
+import { prisma } from '../db.server'
+import { authMiddleware } from './middleware.server'
+import { getProjectBrand } from './brand-kit.server'
+import {
+  getManifestDuration,
+  parseManifest,
+  renderManifest,
+  uploadBuffer,
+} from './services/index.server'
+import { getUserStorageConfig } from './storage-config.server'
+import type { BrandStyle } from '../remotion/brand'
+
+// =============================================================================
+// Schemas
+// =============================================================================
+
+const projectIdSchema = z.object({
+  projectId: z.string(),
+})
+
+// Only write progress to the database in steps of this size
+const PROGRESS_STEP = 5
+
+// A processing render whose job hasn't been touched for this long was cut
+// short (e.g. by a server restart) and no longer blocks new renders
+const STALE_RENDER_MS = 15 * 60 * 1000
+
+// How often a running render touches its job, so slow steps (bundling,
+// uploading) never look stale
+const RENDER_HEARTBEAT_MS = 60 * 1000
+
+// =============================================================================
+// Render Jobs
+// =============================================================================
+
+/**
+ * Start rendering a project to MP4
+ */
+export const startRenderFn = createServerFn({ method: 'POST' })
+  .middleware([authMiddleware])
+  .inputValidator(projectIdSchema)
+  .handler(async ({ data, context }) => {
+    const project = await prisma.project.findUnique({
+      where: { id: data.projectId },
+      select: {
+        userId: true,
+        status: true,
+        manifest: true,
+        width: true,
+        height: true,
+        fps: true,
+      },
+    })
+
+    if (!project) {
+      throw new Error('Project not found')
+    }
+
+    if (project.userId !== context.user.id) {
+      throw new Error('Unauthorized')
+    }
+
+    if (
+      project.status === 'rendering' &&
+      !(await settleStaleRender(data.projectId))
+    ) {
+      throw new Error('Project is already rendering')
+    }
+
+    const manifest = parseManifest(project.manifest)
+    const durationInFrames = getManifestDuration(manifest)
+
+    if (durationInFrames === 0) {
+      throw new Error('Nothing to render: the timeline is empty')
+    }
+
+    // Snapshot the manifest and brand so later edits don't change this render
+    const brand = await getProjectBrand(data.projectId)
+    const job = await prisma.generationJob.create({
+      data: {
+        userId: context.user.id,
+        projectId: data.projectId,
+        type: 'render',
+        status: 'processing',
+        provider: 'remotion',
+        model: 'VideoComposition',
+        input: JSON.stringify({
+          projectId: data.projectId,
+          manifest: project.manifest,
+          brand,
+          width: project.width,
+          height: project.height,
+          fps: project.fps,
+          durationInFrames,
+        }),
+      },
+    })
+
+    await prisma.project.update({
+      where: { id: data.projectId },
+      data: { status: 'rendering' },
+    })
+
+    // Run in the background - the client polls getRenderStatusFn
+    runRenderJob(job.id).catch((error) =>
+      console.error('[RENDER] Failed to record render outcome:', error),
+    )
+
+    return { jobId: job.id, status: 'processing' }
+  })
+
+/**
+ * Get the latest render job for a project
+ */
+export const getRenderStatusFn = createServerFn({ method: 'GET' })
+  .middleware([authMiddleware])
+  .inputValidator(projectIdSchema)
+  .handler(async ({ data, context }) => {
+    const project = await prisma.project.findUnique({
+      where: { id: data.projectId },
+      select: { userId: true, status: true, outputUrl: true },
+    })
+
+    if (!project) {
+      throw new Error('Project not found')
+    }
+
+    if (project.userId !== context.user.id) {
+      throw new Error('Unauthorized')
+    }
+
+    const settled =
+      project.status === 'rendering'
+        ? await settleStaleRender(data.projectId)
+        : null
+    if (settled) {
+      Object.assign(project, settled)
+    }
+
+    const job = await prisma.generationJob.findFirst({
+      where: { projectId: data.projectId, type: 'render' },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    return {
+      projectStatus: project.status,
+      outputUrl: project.outputUrl,
+      job: job
+        ? {
+            id: job.id,
+            status: job.status,
+            progress: job.progress,
+            error: job.error,
+            createdAt: job.createdAt,
+            updatedAt: job.updatedAt,
+          }
+        : null,
+    }
+  })
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Bring a rendering project in line with its latest render job, failing
+ * the job if it stopped making progress. Returns the project's new status,
+ * or null while the render is still running.
+ */
+async function settleStaleRender(
+  projectId: string,
+): Promise<{ status: string; outputUrl?: string } | null> {
+  const job = await prisma.generationJob.findFirst({
+    where: { projectId, type: 'render' },
+    orderBy: { createdAt: 'desc' },
+  })
+
+  if (job?.status === 'processing') {
+    if (Date.now() - job.updatedAt.getTime() < STALE_RENDER_MS) return null
+
+    // Leave the job alone if it finished or touched its heartbeat since
+    const failed = await prisma.generationJob.updateMany({
+      where: { id: job.id, status: 'processing', updatedAt: job.updatedAt },
+      data: { status: 'failed', error: 'Render was interrupted' },
+    })
+    if (failed.count === 0) return settleStaleRender(projectId)
+  }
+
+  // A render can finish without the project hearing about it, e.g. when
+  // the server stopped in between
+  const output =
+    job?.status === 'completed' && job.output
+      ? (JSON.parse(job.output) as { url?: string })
+      : null
+  const settled = output?.url
+    ? { status: 'completed', outputUrl: output.url }
+    : { status: 'failed' }
+
+  await prisma.project.update({
+    where: { id: projectId },
+    data: settled,
+  })
+
+  return settled
+}
+
+/**
+ * Render a job's manifest snapshot, upload the MP4, and update the project
+ */
+async function runRenderJob(jobId: string): Promise<void> {
+  const job = await prisma.generationJob.findUnique({
+    where: { id: jobId },
+  })
+
+  if (!job || !job.projectId) return
+
+  const projectId = job.projectId
+  let heartbeat: ReturnType<typeof setInterval> | undefined
+
+  try {
+    const input = JSON.parse(job.input) as {
+      manifest: string
+      brand?: BrandStyle | null
+      width: number
+      height: number
+      fps: number
+      durationInFrames: number
+    }
+
+    let lastProgress = 0
+    heartbeat = setInterval(() => {
+      prisma.generationJob
+        .updateMany({
+          where: { id: jobId, status: 'processing' },
+          data: { updatedAt: new Date() },
+        })
+        .catch((error) =>
+          console.error('[RENDER] Failed to update heartbeat:', error),
+        )
+    }, RENDER_HEARTBEAT_MS)
+
+    const result = await renderManifest(
+      {
+        manifest: parseManifest(input.manifest),
+        brand: input.brand ?? undefined,
+        width: input.width,
+        height: input.height,
+        fps: input.fps,
+        durationInFrames: input.durationInFrames,
+      },
+      (progress) => {
+        // Leave headroom for the upload step
+        const scaled = Math.min(95, progress)
+        if (scaled - lastProgress < PROGRESS_STEP) return
+        lastProgress = scaled
+        prisma.generationJob
+          .update({ where: { id: jobId }, data: { progress: scaled } })
+          .catch((error) =>
+            console.error('[RENDER] Failed to update progress:', error),
+          )
+      },
+    )
+
+    // Upload to the user's storage (or platform default); mock renders
+    // are already hosted
+    let outputUrl = result.url
+    if (result.buffer) {
+      const storageConfig = await getUserStorageConfig(job.userId)
+      const upload = await uploadBuffer(
+        result.buffer,
+        result.contentType,
+        {
+          folder: `renders/${job.userId}`,
+          filename: `${projectId}-${Date.now()}.mp4`,
+        },
+        storageConfig ?? undefined,
+      )
+      outputUrl = upload.url
+    }
+
+    if (!outputUrl) {
+      throw new Error('Render produced no output')
+    }
+
+    await prisma.generationJob.update({
+      where: { id: jobId },
+      data: {
+        status: 'completed',
+        progress: 100,
+        output: JSON.stringify({
+          url: outputUrl,
+          metadata: { durationInFrames: result.durationInFrames },
+        }),
+      },
+    })
+
+    await prisma.project.update({
+      where: { id: projectId },
+      data: { status: 'completed', outputUrl },
+    })
+  } catch (error) {
+    console.error('[RENDER] Render failed:', error)
+    const message = error instanceof Error ? error.message : 'Render failed'
+
+    await prisma.generationJob.update({
+      where: { id: jobId },
+      data: { status: 'failed', error: message },
+    })
+
+    await prisma.project.update({
+      where: { id: projectId },
+      data: { status: 'failed' },
+    })
+  } finally {
+    clearInterval(heartbeat)
+  }
+}
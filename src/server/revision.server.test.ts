@@ -0,0 +1,73 @@
+import { describe, expect, it, vi } from 'vitest'
+import {
+  audioClip,
+  overlay,
+  videoClip,
+  withTracks,
+} from '../remotion/test-fixtures'
+import { summarizeManifestDiff } from './revision.server'
+
+vi.mock('../db.server', () => ({ prisma: {} }))
+
+const before = JSON.stringify(
+  withTracks({
+    video: [videoClip(), videoClip({ id: 'video-2', startFrame: 100 })],
+    components: [overlay('BigTitle', { text: 'Hi' })],
+  }),
+)
+
+// =============================================================================
+// summarizeManifestDiff
+// =============================================================================
+
+describe('summarizeManifestDiff', () => {
+  it('counts added, removed and changed clips per track', () => {
+    const after = JSON.stringify(
+      withTracks({
+        video: [videoClip({ durationFrames: 50 })],
+        audio: [audioClip()],
+        components: [
+          overlay('BigTitle', { text: 'Hi' }),
+          overlay('Sticker', { emoji: '🔥' }),
+        ],
+      }),
+    )
+
+    expect(summarizeManifestDiff(before, after)).toBe(
+      'Added 1 audio clip, 1 overlay; removed 1 video clip; changed 1 video clip',
+    )
+  })
+
+  it('uses plurals for more than one clip', () => {
+    const after = JSON.stringify(withTracks({}))
+
+    expect(summarizeManifestDiff(before, after)).toBe(
+      'Removed 2 video clips, 1 overlay',
+    )
+  })
+
+  it('tells settings changes apart from no changes', () => {
+    const manifest = withTracks({})
+    const recoloured = {
+      ...manifest,
+      globalSettings: {
+        ...manifest.globalSettings,
+        backgroundColor: '#ffffff',
+      },
+    }
+
+    expect(
+      summarizeManifestDiff(JSON.stringify(manifest), JSON.stringify(manifest)),
+    ).toBe('No changes')
+    expect(
+      summarizeManifestDiff(
+        JSON.stringify(manifest),
+        JSON.stringify(recoloured),
+      ),
+    ).toBe('Changed project settings')
+  })
+
+  it('falls back to a generic summary for unreadable manifests', () => {
+    expect(summarizeManifestDiff('not json', before)).toBe('Updated timeline')
+  })
+})
@@ -0,0 +1,610 @@
+/**
+ * Revision Server Functions
+ *
+ * Every saved manifest (user edit or AI Director tool call) is recorded
+ * as a ProjectRevision. Revisions form a tree through parentId, and
+ * Project.headRevisionId marks where the current manifest sits in it:
+ * undo moves the head to its parent, redo to its most recent child.
+ *
+ * Revisions can be named as snapshots, listed, previewed and restored.
+ * Restoring records a new revision, so a restore can itself be undone.
+ */
+
+import { createServerFn } from '@tanstack/react-start'
+import { z } from 'zod'
+import { prisma } from '../db.server'
+import { authMiddleware } from './middleware.server'
+import { getManifestDuration, parseManifest } from './services/index.server'
+import type { Prisma } from '../generated/prisma/client'
+import type { ProjectManifest } from './services/index.server'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type RevisionAuthor = 'user' | 'agent'
+
+export interface HistoryState {
+  canUndo: boolean
+  canRedo: boolean
+}
+
+type Db = Prisma.TransactionClient | typeof prisma
+
+// =============================================================================
+// Schemas
+// =============================================================================
+
+const historyStepSchema = z.object({
+  projectId: z.string(),
+  // Only step if the manifest hasn't been saved since (see updateManifestFn)
+  expectedVersion: z.number().int().optional(),
+})
+
+const listRevisionsSchema = z.object({
+  projectId: z.string(),
+  snapshotsOnly: z.boolean().optional(),
+  limit: z.number().min(1).max(200).optional(),
+  cursor: z.string().optional(), // Revision ID to continue after
+})
+
+const revisionSchema = z.object({
+  projectId: z.string(),
+  revisionId: z.string(),
+})
+
+const restoreRevisionSchema = revisionSchema.extend({
+  // Only restore if the manifest hasn't been saved since
+  expectedVersion: z.number().int().optional(),
+})
+
+const createSnapshotSchema = z.object({
+  projectId: z.string(),
+  name: z.string().min(1).max(100),
+})
+
+// Unnamed revisions kept per project; older ones are pruned (snapshots are
+// always kept), which also limits how far back undo goes
+const MAX_UNNAMED_REVISIONS = 200
+
+const TRACK_LABELS = {
+  video: ['video clip', 'video clips'],
+  audio: ['audio clip', 'audio clips'],
+  components: ['overlay', 'overlays'],
+} as const
+
+// =============================================================================
+// Undo / Redo
+// =============================================================================
+
+/**
+ * Restore the manifest from before the last edit
+ */
+export const undoManifestFn = createServerFn({ method: 'POST' })
+  .middleware([authMiddleware])
+  .inputValidator(historyStepSchema)
+  .handler(async ({ data, context }) => {
+    return stepHistory(data, context.user.id, 'undo')
+  })
+
+/**
+ * Re-apply the most recently undone edit
+ */
+export const redoManifestFn = createServerFn({ method: 'POST' })
+  .middleware([authMiddleware])
+  .inputValidator(historyStepSchema)
+  .handler(async ({ data, context }) => {
+    return stepHistory(data, context.user.id, 'redo')
+  })
+
+// =============================================================================
+// Revision History
+// =============================================================================
+
+/**
+ * List a project's revisions, newest first (without manifests)
+ */
+export const listRevisionsFn = createServerFn({ method: 'GET' })
+  .middleware([authMiddleware])
+  .inputValidator(listRevisionsSchema)
+  .handler(async ({ data, context }) => {
+    const project = await verifyProjectOwnership(
+      data.projectId,
+      context.user.id,
+    )
+    const limit = data.limit ?? 50
+
+    const revisions = await prisma.projectRevision.findMany({
+      where: {
+        projectId: data.projectId,
+        ...(data.snapshotsOnly && { name: { not: null } }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit + 1,
+      ...(data.cursor && { cursor: { id: data.cursor }, skip: 1 }),
+      select: {
+        id: true,
+        parentId: true,
+        author: true,
+        toolCallId: true,
+        name: true,
+        diffSummary: true,
+        createdAt: true,
+      },
+    })
+
+    const hasMore = revisions.length > limit
+    const page = hasMore ? revisions.slice(0, limit) : revisions
+
+    return {
+      revisions: page.map((revision) => ({
+        ...revision,
+        isHead: revision.id === project.headRevisionId,
+      })),
+      nextCursor: hasMore ? page[page.length - 1].id : null,
+    }
+  })
+
+/**
+ * Get a single revision including its manifest (for previewing)
+ */
+export const getRevisionFn = createServerFn({ method: 'GET' })
+  .middleware([authMiddleware])
+  .inputValidator(revisionSchema)
+  .handler(async ({ data, context }) => {
+    const project = await verifyProjectOwnership(
+      data.projectId,
+      context.user.id,
+    )
+
+    const revision = await prisma.projectRevision.findFirst({
+      where: { id: data.revisionId, projectId: data.projectId },
+    })
+
+    if (!revision) {
+      throw new Error('Revision not found')
+    }
+
+    const manifest = parseManifest(revision.manifest)
+
+    return {
+      id: revision.id,
+      parentId: revision.parentId,
+      author: revision.author,
+      toolCallId: revision.toolCallId,
+      name: revision.name,
+      diffSummary: revision.diffSummary,
+      createdAt: revision.createdAt,
+      isHead: revision.id === project.headRevisionId,
+      manifest,
+      duration: getManifestDuration(manifest),
+    }
+  })
+
+/**
+ * Make a revision the current manifest again.
+ * Recorded as a new revision so the restore shows up in history.
+ */
+export const restoreRevisionFn = createServerFn({ method: 'POST' })
+  .middleware([authMiddleware])
+  .inputValidator(restoreRevisionSchema)
+  .handler(async ({ data, context }) => {
+    await verifyProjectOwnership(data.projectId, context.user.id)
+
+    return prisma.$transaction(async (tx) => {
+      const revision = await tx.projectRevision.findFirst({
+        where: { id: data.revisionId, projectId: data.projectId },
+        select: { manifest: true, name: true, createdAt: true },
+      })
+
+      if (!revision) {
+        throw new Error('Revision not found')
+      }
+
+      const project = await tx.project.findUniqueOrThrow({
+        where: { id: data.projectId },
+        select: { manifest: true, headRevisionId: true, manifestVersion: true },
+      })
+
+      const manifest = parseManifest(revision.manifest)
+
+      // Conditional write - matches nothing if the project changed since
+      const result = await tx.project.updateMany({
+        where: {
+          id: data.projectId,
+          ...(data.expectedVersion !== undefined && {
+            manifestVersion: data.expectedVersion,
+          }),
+        },
+        data: {
+          manifest: revision.manifest,
+          duration: getManifestDuration(manifest),
+        },
+      })
+
+      if (result.count === 0) {
+        return {
+          status: 'conflict' as const,
+          manifestVersion: project.manifestVersion,
+          manifest: parseManifest(project.manifest),
+          ...(await getHistoryState(tx, project.headRevisionId)),
+        }
+      }
+
+      await recordRevision(tx, {
+        projectId: data.projectId,
+        previousManifest: project.manifest,
+        manifest: revision.manifest,
+        author: 'user',
+        diffSummary: revision.name
+          ? `Restored "${revision.name}"`
+          : `Restored version from ${revision.createdAt.toISOString()}`,
+      })
+
+      const updated = await tx.project.findUniqueOrThrow({
+        where: { id: data.projectId },
+        select: { manifestVersion: true, headRevisionId: true },
+      })
+
+      return {
+        status: 'saved' as const,
+        manifestVersion: updated.manifestVersion,
+        manifest,
+        ...(await getHistoryState(tx, updated.headRevisionId)),
+      }
+    })
+  })
+
+/**
+ * Name the current manifest as a snapshot. An unnamed head revision is
+ * named; a head that is already a snapshot keeps its name and the new
+ * snapshot is recorded as a separate revision.
+ */
+export const createSnapshotFn = createServerFn({ method: 'POST' })
+  .middleware([authMiddleware])
+  .inputValidator(createSnapshotSchema)
+  .handler(async ({ data, context }) => {
+    await verifyProjectOwnership(data.projectId, context.user.id)
+
+    return prisma.$transaction(async (tx) => {
+      const project = await tx.project.findUniqueOrThrow({
+        where: { id: data.projectId },
+        select: { manifest: true, headRevisionId: true },
+      })
+
+      const head = project.headRevisionId
+        ? await tx.projectRevision.findUnique({
+            where: { id: project.headRevisionId },
+            select: { id: true, name: true, parentId: true, diffSummary: true },
+          })
+        : null
+
+      // An unnamed head revision already holds the current manifest
+      if (head && !head.name) {
+        return tx.projectRevision.update({
+          where: { id: head.id },
+          data: { name: data.name },
+          select: { id: true, name: true, createdAt: true },
+        })
+      }
+
+      // The head is another snapshot: record this one beside it, so undo
+      // doesn't gain a step that changes nothing
+      if (head) {
+        return tx.projectRevision.create({
+          data: {
+            projectId: data.projectId,
+            manifest: project.manifest,
+            parentId: head.parentId,
+            author: 'user',
+            name: data.name,
+            diffSummary: head.diffSummary,
+          },
+          select: { id: true, name: true, createdAt: true },
+        })
+      }
+
+      // No edits recorded yet - snapshot the manifest as the first revision
+      const revision = await tx.projectRevision.create({
+        data: {
+          projectId: data.projectId,
+          manifest: project.manifest,
+          author: 'user',
+          name: data.name,
+        },
+        select: { id: true, name: true, createdAt: true },
+      })
+
+      await tx.project.update({
+        where: { id: data.projectId },
+        data: { headRevisionId: revision.id },
+      })
+
+      return revision
+    })
+  })
+
+// =============================================================================
+// Helpers (for use by other server functions)
+// =============================================================================
+
+/**
+ * Record a manifest that was just written to a project, move the history
+ * head to it and bump the project's manifestVersion. Call inside the
+ * transaction that wrote the manifest.
+ *
+ * The first recorded edit also stores the manifest it replaced,
+ * so that edit can be undone.
+ */
+export async function recordRevision(
+  tx: Prisma.TransactionClient,
+  input: {
+    projectId: string
+    previousManifest: string
+    manifest: string
+    author: RevisionAuthor
+    toolCallId?: string
+    /** Defaults to a summary of the changes from previousManifest */
+    diffSummary?: string
+  },
+): Promise<void> {
+  const project = await tx.project.findUniqueOrThrow({
+    where: { id: input.projectId },
+    select: { headRevisionId: true },
+  })
+
+  let parentId = project.headRevisionId
+  if (!parentId) {
+    const baseline = await tx.projectRevision.create({
+      data: {
+        projectId: input.projectId,
+        manifest: input.previousManifest,
+        author: 'user',
+      },
+    })
+    parentId = baseline.id
+  }
+
+  const revision = await tx.projectRevision.create({
+    data: {
+      projectId: input.projectId,
+      manifest: input.manifest,
+      parentId,
+      author: input.author,
+      toolCallId: input.toolCallId,
+      diffSummary:
+        input.diffSummary ??
+        summarizeManifestDiff(input.previousManifest, input.manifest),
+    },
+  })
+
+  await tx.project.update({
+    where: { id: input.projectId },
+    data: {
+      headRevisionId: revision.id,
+      manifestVersion: { increment: 1 },
+    },
+  })
+
+  await pruneRevisions(tx, input.projectId, revision.id)
+}
+
+/**
+ * Describe what changed between two manifest JSON strings,
+ * e.g. "Added 1 video clip, changed 2 overlays"
+ */
+export function summarizeManifestDiff(before: string, after: string): string {
+  let previous: ProjectManifest
+  let next: ProjectManifest
+  try {
+    previous = parseManifest(before)
+    next = parseManifest(after)
+  } catch {
+    return 'Updated timeline'
+  }
+
+  const added: Array<string> = []
+  const removed: Array<string> = []
+  const changed: Array<string> = []
+
+  for (const track of ['video', 'audio', 'components'] as const) {
+    const [singular, plural] = TRACK_LABELS[track]
+    const label = (count: number) =>
+      `${count} ${count === 1 ? singular : plural}`
+
+    const beforeClips = new Map(
+      previous.tracks[track].map((clip) => [clip.id, clip]),
+    )
+    const afterClips = new Map(
+      next.tracks[track].map((clip) => [clip.id, clip]),
+    )
+
+    let addedCount = 0
+    let changedCount = 0
+    for (const [id, clip] of afterClips) {
+      const old = beforeClips.get(id)
+      if (!old) {
+        addedCount++
+      } else if (JSON.stringify(old) !== JSON.stringify(clip)) {
+        changedCount++
+      }
+    }
+    const removedCount = [...beforeClips.keys()].filter(
+      (id) => !afterClips.has(id),
+    ).length
+
+    if (addedCount) added.push(label(addedCount))
+    if (removedCount) removed.push(label(removedCount))
+    if (changedCount) changed.push(label(changedCount))
+  }
+
+  const parts = [
+    added.length ? `added ${added.join(', ')}` : null,
+    removed.length ? `removed ${removed.join(', ')}` : null,
+    changed.length ? `changed ${changed.join(', ')}` : null,
+  ].filter(Boolean)
+
+  if (parts.length === 0) {
+    return JSON.stringify(previous.globalSettings) ===
+      JSON.stringify(next.globalSettings)
+      ? 'No changes'
+      : 'Changed project settings'
+  }
+
+  const summary = parts.join('; ')
+  return summary.charAt(0).toUpperCase() + summary.slice(1)
+}
+
+/**
+ * Whether the project can currently undo or redo
+ */
+export async function getHistoryState(
+  db: Db,
+  headRevisionId: string | null,
+): Promise<HistoryState> {
+  if (!headRevisionId) {
+    return { canUndo: false, canRedo: false }
+  }
+
+  const [head, child] = await Promise.all([
+    db.projectRevision.findUnique({
+      where: { id: headRevisionId },
+      select: { parentId: true },
+    }),
+    db.projectRevision.findFirst({
+      where: { parentId: headRevisionId },
+      select: { id: true },
+    }),
+  ])
+
+  return { canUndo: !!head?.parentId, canRedo: !!child }
+}
+
+/**
+ * Move the history head one step and write that revision's manifest
+ */
+async function stepHistory(
+  data: z.infer<typeof historyStepSchema>,
+  userId: string,
+  direction: 'undo' | 'redo',
+) {
+  await verifyProjectOwnership(data.projectId, userId)
+
+  return prisma.$transaction(async (tx) => {
+    const project = await tx.project.findUniqueOrThrow({
+      where: { id: data.projectId },
+      select: { manifest: true, headRevisionId: true, manifestVersion: true },
+    })
+
+    if (
+      data.expectedVersion !== undefined &&
+      project.manifestVersion !== data.expectedVersion
+    ) {
+      return {
+        status: 'conflict' as const,
+        manifestVersion: project.manifestVersion,
+        manifest: parseManifest(project.manifest),
+        ...(await getHistoryState(tx, project.headRevisionId)),
+      }
+    }
+
+    const target = project.headRevisionId
+      ? await findStepTarget(tx, project.headRevisionId, direction)
+      : null
+
+    if (!target) {
+      throw new Error(
+        direction === 'undo' ? 'Nothing to undo' : 'Nothing to redo',
+      )
+    }
+
+    const manifest = parseManifest(target.manifest)
+
+    const updated = await tx.project.update({
+      where: { id: data.projectId },
+      data: {
+        manifest: target.manifest,
+        duration: getManifestDuration(manifest),
+        headRevisionId: target.id,
+        manifestVersion: { increment: 1 },
+      },
+      select: { manifestVersion: true },
+    })
+
+    return {
+      status: 'saved' as const,
+      manifestVersion: updated.manifestVersion,
+      manifest,
+      ...(await getHistoryState(tx, target.id)),
+    }
+  })
+}
+
+async function findStepTarget(
+  tx: Prisma.TransactionClient,
+  headRevisionId: string,
+  direction: 'undo' | 'redo',
+) {
+  if (direction === 'redo') {
+    return tx.projectRevision.findFirst({
+      where: { parentId: headRevisionId },
+      orderBy: { createdAt: 'desc' },
+      select: { id: true, manifest: true },
+    })
+  }
+
+  const head = await tx.projectRevision.findUnique({
+    where: { id: headRevisionId },
+    select: { parentId: true },
+  })
+
+  if (!head?.parentId) return null
+
+  return tx.projectRevision.findUnique({
+    where: { id: head.parentId },
+    select: { id: true, manifest: true },
+  })
+}
+
+/**
+ * Delete a project's oldest unnamed revisions beyond MAX_UNNAMED_REVISIONS.
+ * Revisions edited from a deleted one become the start of the history.
+ */
+async function pruneRevisions(
+  tx: Prisma.TransactionClient,
+  projectId: string,
+  headRevisionId: string,
+): Promise<void> {
+  const stale = await tx.projectRevision.findMany({
+    where: { projectId, name: null, id: { not: headRevisionId } },
+    orderBy: { createdAt: 'desc' },
+    skip: MAX_UNNAMED_REVISIONS,
+    select: { id: true },
+  })
+
+  if (stale.length === 0) return
+
+  const ids = stale.map((revision) => revision.id)
+  await tx.projectRevision.updateMany({
+    where: { parentId: { in: ids } },
+    data: { parentId: null },
+  })
+  await tx.projectRevision.deleteMany({ where: { id: { in: ids } } })
+}
+
+async function verifyProjectOwnership(projectId: string, userId: string) {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { userId: true, headRevisionId: true },
+  })
+
+  if (!project) {
+    throw new Error('Project not found')
+  }
+
+  if (project.userId !== userId) {
+    throw new Error('Unauthorized')
+  }
+
+  return project
+}
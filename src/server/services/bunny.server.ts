@@ -288,6 +288,9 @@ function getExtensionFromContentType(contentType: string): string {
     'audio/wav': 'wav',
     'audio/ogg': 'ogg',
     'application/json': 'json',
+    'font/ttf': 'ttf',
+    'font/otf': 'otf',
+    'font/woff2': 'woff2',
   }
   return map[contentType] || 'bin'
 }
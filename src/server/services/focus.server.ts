@@ -0,0 +1,421 @@
+/**
+ * Focus Detection Service
+ *
+ * Finds where the subject of a video or image is, so cover-fit clips can
+ * be cropped around it when the media's aspect ratio differs from the
+ * project's (e.g. a horizontal generated video in a vertical project).
+ *
+ * Frames are sampled locally (ffmpeg for video, sharp for images) and
+ * each is passed to a FocusProvider.
+ * The default provider runs Florence-2 object detection on Fal.ai and
+ * looks for people; frames it can't place, or every frame when no API
+ * key is available, use a local saliency heuristic. Mock mode returns a centred
+ * subject without fetching the media.
+ *
+ * BYOK (Bring Your Own Key) Support:
+ * - Functions accept an optional `apiKey` parameter for user-provided keys
+ * - Without a key, only the local heuristic is used
+ */
+
+import { execFile } from 'node:child_process'
+import { createWriteStream } from 'node:fs'
+import { mkdtemp, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { Readable, Transform } from 'node:stream'
+import { pipeline } from 'node:stream/promises'
+import { promisify } from 'node:util'
+import sharp from 'sharp'
+import type { ReadableStream } from 'node:stream/web'
+
+const MOCK_FOCUS = process.env.MOCK_GENERATION === 'true'
+const FAL_RUN_URL = 'https://fal.run'
+const DETECTION_MODEL_ID = 'fal-ai/florence-2-large/object-detection'
+
+// Width frames are sampled at; enough for detection, cheap to analyse
+const SAMPLE_WIDTH = 320
+// One sample per this many seconds of video, up to MAX_SAMPLES
+const SAMPLE_INTERVAL_SECONDS = 1
+const MAX_SAMPLES = 12
+// Time allowed for extracting all of a video's frames
+const EXTRACT_TIMEOUT_MS = 60_000
+// Largest video downloaded for sampling
+const MAX_VIDEO_BYTES = 500 * 1024 * 1024
+// ffmpeg binary used to sample video frames
+const FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg'
+// Containers ffmpeg may open when sampling video (demuxer names)
+const VIDEO_FORMATS = 'mov,mp4,matroska,webm'
+
+// How far the heuristic's result is pulled towards the centre (0..1)
+const CENTRE_PULL = 0.2
+
+// Detection labels treated as the subject, in order of preference
+const SUBJECT_LABELS = ['face', 'person', 'man', 'woman', 'boy', 'girl']
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface FocusDetectionInput {
+  mediaUrl: string
+  mediaType: 'video' | 'image'
+  durationSeconds?: number // Known video duration; sampled from 0 when omitted
+}
+
+/**
+ * The subject's position at a point in the media, as fractions of its
+ * width/height
+ */
+export interface FocusSample {
+  time: number // seconds from the start of the media
+  x: number
+  y: number
+}
+
+/**
+ * A sampled frame: RGB pixels for local analysis, JPEG for detectors
+ */
+export interface FocusFrame {
+  time: number
+  width: number
+  height: number
+  pixels: Buffer
+  jpeg: Buffer
+}
+
+export interface FocusProvider {
+  name: string
+  /** Subject position in a frame, or null when none was found */
+  locate: (
+    frame: FocusFrame,
+    apiKey?: string,
+  ) => Promise<{ x: number; y: number } | null>
+}
+
+// Fal.ai Florence-2 response
+interface FalDetectionResponse {
+  results?: {
+    bboxes?: Array<{
+      x: number
+      y: number
+      w: number
+      h: number
+      label: string
+    }>
+  }
+}
+
+// =============================================================================
+// Main Service Function
+// =============================================================================
+
+/**
+ * Subject positions over the media, smoothed to avoid jitter
+ *
+ * @param input - Media URL, type and duration
+ * @param userApiKey - Optional user's fal.ai API key (for BYOK)
+ */
+export async function detectFocus(
+  input: FocusDetectionInput,
+  userApiKey?: string,
+): Promise<Array<FocusSample>> {
+  if (MOCK_FOCUS) {
+    await new Promise((resolve) => setTimeout(resolve, 300))
+    return [{ time: 0, x: 0.5, y: 0.4 }]
+  }
+
+  if (new URL(input.mediaUrl).protocol !== 'https:') {
+    throw new Error('Focus detection only reads media over https')
+  }
+
+  const frames = await sampleFrames(input)
+  const provider = getFocusProvider(userApiKey)
+
+  const samples: Array<FocusSample> = []
+  for (const frame of frames) {
+    let point: { x: number; y: number } | null = null
+    try {
+      point = await provider.locate(frame, userApiKey)
+    } catch (error) {
+      console.warn(`[Focus] ${provider.name} failed, using heuristic:`, error)
+    }
+    samples.push({ time: frame.time, ...(point ?? locateSalientRegion(frame)) })
+  }
+
+  return smoothSamples(samples)
+}
+
+/**
+ * The provider used by detectFocus
+ */
+export function getFocusProvider(userApiKey?: string): FocusProvider {
+  return userApiKey || process.env.FAL_KEY
+    ? falDetectionProvider
+    : heuristicProvider
+}
+
+// =============================================================================
+// Fal.ai Florence-2 Provider
+// =============================================================================
+
+const falDetectionProvider: FocusProvider = {
+  name: 'fal-florence-2',
+
+  async locate(frame, userApiKey) {
+    const apiKey = userApiKey || process.env.FAL_KEY
+    if (!apiKey) return null
+
+    const response = await fetch(`${FAL_RUN_URL}/${DETECTION_MODEL_ID}`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Key ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        image_url: `data:image/jpeg;base64,${frame.jpeg.toString('base64')}`,
+      }),
+    })
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(`Fal.ai detection error: ${response.status} - ${error}`)
+    }
+
+    const result: FalDetectionResponse = await response.json()
+    const boxes = result.results?.bboxes ?? []
+
+    // Largest box of the most preferred subject label
+    for (const label of SUBJECT_LABELS) {
+      const matches = boxes.filter((b) => b.label.toLowerCase() === label)
+      if (matches.length === 0) continue
+
+      const box = matches.reduce((a, b) => (a.w * a.h >= b.w * b.h ? a : b))
+      return {
+        x: clamp((box.x + box.w / 2) / frame.width),
+        // Keep a person's head in frame rather than their middle
+        y: clamp(
+          (box.y + box.h * (label === 'face' ? 0.5 : 0.3)) / frame.height,
+        ),
+      }
+    }
+
+    return null
+  },
+}
+
+// =============================================================================
+// Local Heuristic Provider
+// =============================================================================
+
+const heuristicProvider: FocusProvider = {
+  name: 'heuristic',
+
+  locate: (frame) => Promise.resolve(locateSalientRegion(frame)),
+}
+
+/**
+ * Centre of the most salient part of a frame: detailed (high-contrast)
+ * areas, with extra weight for skin tones, pulled slightly to the centre
+ */
+function locateSalientRegion(frame: FocusFrame): { x: number; y: number } {
+  const { width, height, pixels } = frame
+  const scores = new Float32Array(width * height)
+
+  const luma = (i: number) =>
+    0.299 * pixels[i * 3] +
+    0.587 * pixels[i * 3 + 1] +
+    0.114 * pixels[i * 3 + 2]
+
+  for (let y = 0; y < height - 1; y++) {
+    for (let x = 0; x < width - 1; x++) {
+      const i = y * width + x
+      const gradient =
+        Math.abs(luma(i) - luma(i + 1)) + Math.abs(luma(i) - luma(i + width))
+      scores[i] = gradient + (isSkinTone(pixels, i) ? 60 : 0)
+    }
+  }
+
+  // Only the top 10% of pixels count
+  const threshold = [...scores].sort((a, b) => a - b)[
+    Math.floor(scores.length * 0.9)
+  ]
+
+  let total = 0
+  let sumX = 0
+  let sumY = 0
+  for (let i = 0; i < scores.length; i++) {
+    if (scores[i] < threshold || scores[i] === 0) continue
+    total += scores[i]
+    sumX += (i % width) * scores[i]
+    sumY += Math.floor(i / width) * scores[i]
+  }
+
+  if (total === 0) return { x: 0.5, y: 0.5 }
+
+  return {
+    x: clamp((sumX / total / width) * (1 - CENTRE_PULL) + 0.5 * CENTRE_PULL),
+    y: clamp((sumY / total / height) * (1 - CENTRE_PULL) + 0.5 * CENTRE_PULL),
+  }
+}
+
+// Common RGB skin-tone rule (Kovac et al.)
+function isSkinTone(pixels: Buffer, i: number): boolean {
+  const r = pixels[i * 3]
+  const g = pixels[i * 3 + 1]
+  const b = pixels[i * 3 + 2]
+  return (
+    r > 95 &&
+    g > 40 &&
+    b > 20 &&
+    r > g &&
+    r > b &&
+    r - Math.min(g, b) > 15 &&
+    Math.abs(r - g) > 15
+  )
+}
+
+// =============================================================================
+// Frame Sampling
+// =============================================================================
+
+/**
+ * Frames to analyse: the image itself, or evenly spaced video frames
+ */
+async function sampleFrames(
+  input: FocusDetectionInput,
+): Promise<Array<FocusFrame>> {
+  if (input.mediaType === 'image') {
+    const response = await fetch(input.mediaUrl)
+    if (!response.ok) {
+      throw new Error(`Failed to fetch image: ${response.status}`)
+    }
+    const buffer = Buffer.from(await response.arrayBuffer())
+    return [await toFocusFrame(buffer, 0)]
+  }
+
+  const duration = input.durationSeconds ?? SAMPLE_INTERVAL_SECONDS
+  const count = Math.min(
+    MAX_SAMPLES,
+    Math.max(1, Math.floor(duration / SAMPLE_INTERVAL_SECONDS)),
+  )
+
+  // Sample the middle of each interval, away from fades at the edges
+  const times = Array.from(
+    { length: count },
+    (_, i) => ((i + 0.5) * duration) / count,
+  )
+  const pngs = await extractVideoFrames(input.mediaUrl, times)
+  return Promise.all(pngs.map((png, i) => toFocusFrame(png, times[i])))
+}
+
+/**
+ * Video frames as PNGs, in one run of ffmpeg. The video is downloaded
+ * first and ffmpeg may only read that file as a video container, so media
+ * can't point it at local files, playlists or other protocols.
+ */
+async function extractVideoFrames(
+  url: string,
+  times: Array<number>,
+): Promise<Array<Buffer>> {
+  const dir = await mkdtemp(path.join(tmpdir(), 'focus-'))
+
+  try {
+    const videoPath = path.join(dir, 'video')
+    await downloadVideo(url, videoPath)
+
+    const inputs = times.flatMap((time) => [
+      '-protocol_whitelist',
+      'file',
+      '-format_whitelist',
+      VIDEO_FORMATS,
+      '-ss',
+      time.toFixed(2),
+      '-i',
+      videoPath,
+    ])
+    const outputs = times.flatMap((_, i) => [
+      '-map',
+      `${i}:v:0`,
+      '-frames:v',
+      '1',
+      '-vf',
+      `scale=${SAMPLE_WIDTH}:-2`,
+      path.join(dir, `frame-${i}.png`),
+    ])
+
+    await promisify(execFile)(
+      FFMPEG_PATH,
+      ['-v', 'error', ...inputs, ...outputs],
+      { timeout: EXTRACT_TIMEOUT_MS },
+    )
+
+    return await Promise.all(
+      times.map((_, i) => readFile(path.join(dir, `frame-${i}.png`))),
+    )
+  } finally {
+    await rm(dir, { recursive: true, force: true })
+  }
+}
+
+/**
+ * Stream a video to a file, giving up once it is larger than
+ * MAX_VIDEO_BYTES
+ */
+async function downloadVideo(url: string, filePath: string): Promise<void> {
+  const response = await fetch(url)
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to fetch video: ${response.status}`)
+  }
+
+  const tooLarge = () =>
+    new Error(
+      `Video is larger than ${MAX_VIDEO_BYTES / 1024 / 1024} MB, too large to sample`,
+    )
+  if (Number(response.headers.get('content-length')) > MAX_VIDEO_BYTES) {
+    throw tooLarge()
+  }
+
+  // Content-Length can be missing or wrong, so count what arrives
+  let received = 0
+  await pipeline(
+    Readable.fromWeb(response.body as ReadableStream<Uint8Array>),
+    new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        received += chunk.length
+        callback(received > MAX_VIDEO_BYTES ? tooLarge() : null, chunk)
+      },
+    }),
+    createWriteStream(filePath),
+  )
+}
+
+async function toFocusFrame(image: Buffer, time: number): Promise<FocusFrame> {
+  const resized = sharp(image).resize({ width: SAMPLE_WIDTH }).removeAlpha()
+  const { data, info } = await resized
+    .clone()
+    .raw()
+    .toBuffer({ resolveWithObject: true })
+  const jpeg = await resized.jpeg({ quality: 80 }).toBuffer()
+
+  return { time, width: info.width, height: info.height, pixels: data, jpeg }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+// Moving average over neighbouring samples
+function smoothSamples(samples: Array<FocusSample>): Array<FocusSample> {
+  return samples.map((sample, i) => {
+    const window = samples.slice(Math.max(0, i - 1), i + 2)
+    return {
+      time: sample.time,
+      x: window.reduce((sum, s) => sum + s.x, 0) / window.length,
+      y: window.reduce((sum, s) => sum + s.y, 0) / window.length,
+    }
+  })
+}
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value))
+}
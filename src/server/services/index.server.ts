@@ -43,6 +43,8 @@ export {
   getDefaultEditModel,
   getDefaultUpscaleModel,
   createEmptyManifest,
+  getManifestDuration,
+  parseManifest,
 } from './types'
 
 // =============================================================================
@@ -112,6 +114,32 @@ export {
   type WordTimestamp as TtsWordTimestamp,
 } from './tts.server'
 
+// =============================================================================
+// Transcription Service (word timestamps for captions)
+// =============================================================================
+
+export {
+  transcribeMedia,
+  getTranscriptionProvider,
+  isTranscriptionConfigured,
+  type TranscriptionInput,
+  type TranscriptionResult,
+  type TranscriptionProvider,
+} from './transcription.server'
+
+// =============================================================================
+// Focus Detection Service (smart crop)
+// =============================================================================
+
+export {
+  detectFocus,
+  getFocusProvider,
+  type FocusDetectionInput,
+  type FocusSample,
+  type FocusFrame,
+  type FocusProvider,
+} from './focus.server'
+
 // =============================================================================
 // OpenRouter LLM Service
 // =============================================================================
@@ -129,8 +157,20 @@ export {
   type ChatCompletionInput,
   type ChatCompletionResponse,
   type StreamChunk,
+  type ToolCallDelta,
 } from './openrouter.server'
 
+// =============================================================================
+// Render Service (Remotion)
+// =============================================================================
+
+export {
+  renderManifest,
+  type RenderInput,
+  type RenderResult,
+  type RenderProgressCallback,
+} from './render.server'
+
 // =============================================================================
 // Service Health Check
 // =============================================================================
@@ -0,0 +1,68 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { chatCompletionStream } from './openrouter.server'
+import type { StreamChunk } from './openrouter.server'
+
+/**
+ * Answer the next fetch with an SSE body sent in the given pieces
+ */
+function respondWith(pieces: Array<string>) {
+  const encoder = new TextEncoder()
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const piece of pieces) controller.enqueue(encoder.encode(piece))
+      controller.close()
+    },
+  })
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(() => Promise.resolve(new Response(body, { status: 200 }))),
+  )
+}
+
+function chunk(content: string): string {
+  return JSON.stringify({
+    id: 'response-1',
+    model: 'test-model',
+    choices: [{ index: 0, delta: { content }, finish_reason: null }],
+  })
+}
+
+async function collect(): Promise<Array<string>> {
+  const contents: Array<string> = []
+  const stream = chatCompletionStream({ messages: [] })
+  for await (const data of stream as AsyncIterable<StreamChunk>) {
+    contents.push(data.choices[0].delta.content ?? '')
+  }
+  return contents
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+  vi.unstubAllEnvs()
+})
+
+// =============================================================================
+// chatCompletionStream
+// =============================================================================
+
+describe('chatCompletionStream', () => {
+  it('parses SSE data lines split across network reads', async () => {
+    vi.stubEnv('OPENROUTER_API_KEY', 'test-key')
+    const first = `data: ${chunk('Hel')}\n\n`
+    const second = `data: ${chunk('lo')}\n\n`
+    respondWith([
+      first + second.slice(0, 20),
+      second.slice(20),
+      ': keep-alive comment\n\ndata: [DONE]\n\n',
+    ])
+
+    expect(await collect()).toEqual(['Hel', 'lo'])
+  })
+
+  it('skips malformed data lines', async () => {
+    vi.stubEnv('OPENROUTER_API_KEY', 'test-key')
+    respondWith([`data: {"broken\n\ndata: ${chunk('ok')}\n\n`])
+
+    expect(await collect()).toEqual(['ok'])
+  })
+})
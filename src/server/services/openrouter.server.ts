@@ -76,12 +76,30 @@ export interface ChatCompletionResponse {
   }
 }
 
+/**
+ * A fragment of a tool call in a streamed response. The first fragment of
+ * a call carries its id and name; the arguments JSON arrives in pieces.
+ */
+export interface ToolCallDelta {
+  index: number
+  id?: string
+  type?: 'function'
+  function?: {
+    name?: string
+    arguments?: string
+  }
+}
+
 export interface StreamChunk {
   id: string
   model: string
   choices: Array<{
     index: number
-    delta: Partial<ChatMessage>
+    delta: {
+      role?: ChatMessage['role']
+      content?: string | null
+      tool_calls?: Array<ToolCallDelta>
+    }
     finish_reason: 'stop' | 'tool_calls' | 'length' | null
   }>
 }
@@ -320,9 +338,50 @@ function mockChatCompletion(
 }
 
 async function* mockChatCompletionStream(
-  _input: ChatCompletionInput,
+  input: ChatCompletionInput,
   modelId: string,
 ): AsyncGenerator<StreamChunk, void, unknown> {
+  const lastMessage = input.messages[input.messages.length - 1]
+  const hasTools =
+    input.tools && input.tools.length > 0 && input.toolChoice !== 'none'
+
+  // Simulate a tool call streamed in pieces, as in mockChatCompletion
+  if (hasTools && lastMessage.role === 'user') {
+    const tool = input.tools![0]
+    const argumentParts = ['{"mo', 'ck": ', 'true}']
+
+    for (const [i, part] of argumentParts.entries()) {
+      await new Promise((resolve) => setTimeout(resolve, 50))
+
+      yield {
+        id: `mock-${Date.now()}`,
+        model: modelId,
+        choices: [
+          {
+            index: 0,
+            delta: {
+              tool_calls: [
+                {
+                  index: 0,
+                  ...(i === 0 && {
+                    id: `call-${Date.now()}`,
+                    type: 'function' as const,
+                  }),
+                  function: {
+                    ...(i === 0 && { name: tool.function.name }),
+                    arguments: part,
+                  },
+                },
+              ],
+            },
+            finish_reason: i === argumentParts.length - 1 ? 'tool_calls' : null,
+          },
+        ],
+      }
+    }
+    return
+  }
+
   const mockResponse = `This is a mock streaming response from ${modelId}. The AI would generate content here based on your prompt.`
 
   const words = mockResponse.split(' ')
@@ -0,0 +1,202 @@
+/**
+ * Render Service
+ *
+ * Renders a ProjectManifest to an MP4 by running the Remotion
+ * VideoComposition headlessly. The composition is bundled once per
+ * server process and the bundle is reused for every render.
+ * When the manifest sets audioMix.loudnessTarget, the final audio is
+ * normalised to it with ffmpeg's loudnorm filter. The project's brand kit
+ * is passed to the composition next to the manifest.
+ *
+ * Environment variables (optional):
+ * - REMOTION_SERVE_URL: Pre-built Remotion bundle (skips bundling at runtime)
+ * - REMOTION_CONCURRENCY: Number of frames rendered in parallel (default: 1)
+ */
+
+import { readFile, rm } from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import type { BrandStyle } from '../../remotion/brand'
+import type { ProjectManifest } from './types'
+
+const MOCK_RENDER = process.env.MOCK_GENERATION === 'true'
+
+const COMPOSITION_ID = 'VideoComposition'
+const ENTRY_POINT = 'src/remotion/entry.ts'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface RenderInput {
+  manifest: ProjectManifest
+  brand?: BrandStyle
+  width: number
+  height: number
+  fps: number
+  durationInFrames: number
+}
+
+export interface RenderResult {
+  /** The encoded video; mock renders have none */
+  buffer?: Buffer
+  /** Hosted placeholder returned by mock renders instead of a buffer */
+  url?: string
+  contentType: string
+  durationInFrames: number
+}
+
+/** Called with a 0-100 percentage as frames are rendered and encoded */
+export type RenderProgressCallback = (progress: number) => void
+
+// =============================================================================
+// Bundle Cache
+// =============================================================================
+
+let serveUrlPromise: Promise<string> | null = null
+
+/**
+ * Get the serve URL for the Remotion bundle, bundling on first use
+ */
+function getServeUrl(): Promise<string> {
+  if (process.env.REMOTION_SERVE_URL) {
+    return Promise.resolve(process.env.REMOTION_SERVE_URL)
+  }
+
+  if (!serveUrlPromise) {
+    serveUrlPromise = (async () => {
+      const { bundle } = await import('@remotion/bundler')
+      console.log('[RENDER] Bundling Remotion composition...')
+      return bundle({
+        entryPoint: path.resolve(process.cwd(), ENTRY_POINT),
+      })
+    })()
+
+    // Allow a retry on the next render if bundling failed
+    serveUrlPromise.catch(() => {
+      serveUrlPromise = null
+    })
+  }
+
+  return serveUrlPromise
+}
+
+// =============================================================================
+// Main Service Function
+// =============================================================================
+
+/**
+ * Render a manifest to an MP4 buffer
+ */
+export async function renderManifest(
+  input: RenderInput,
+  onProgress?: RenderProgressCallback,
+): Promise<RenderResult> {
+  if (MOCK_RENDER) {
+    return mockRender(input, onProgress)
+  }
+
+  if (input.durationInFrames < 1) {
+    throw new Error('Nothing to render: the timeline is empty')
+  }
+
+  const { renderMedia, selectComposition } = await import('@remotion/renderer')
+
+  const serveUrl = await getServeUrl()
+  const inputProps = { manifest: input.manifest, brand: input.brand }
+
+  const composition = await selectComposition({
+    serveUrl,
+    id: COMPOSITION_ID,
+    inputProps,
+  })
+
+  const outputLocation = path.join(
+    os.tmpdir(),
+    `cinevido-render-${Date.now()}-${Math.random().toString(36).slice(2, 9)}.mp4`,
+  )
+
+  try {
+    await renderMedia({
+      serveUrl,
+      // Project settings override the registered composition defaults
+      composition: {
+        ...composition,
+        width: input.width,
+        height: input.height,
+        fps: input.fps,
+        durationInFrames: input.durationInFrames,
+      },
+      inputProps,
+      codec: 'h264',
+      outputLocation,
+      concurrency: Number(process.env.REMOTION_CONCURRENCY) || 1,
+      ffmpegOverride: input.manifest.audioMix?.loudnessTarget
+        ? loudnessOverride(input.manifest.audioMix.loudnessTarget)
+        : undefined,
+      onProgress: ({ progress }) => {
+        onProgress?.(Math.round(progress * 100))
+      },
+    })
+
+    const buffer = await readFile(outputLocation)
+
+    return {
+      buffer,
+      contentType: 'video/mp4',
+      durationInFrames: input.durationInFrames,
+    }
+  } finally {
+    await rm(outputLocation, { force: true })
+  }
+}
+
+// =============================================================================
+// Loudness Normalisation
+// =============================================================================
+
+/**
+ * Add a loudnorm filter to the final stitching pass. The audio is
+ * re-encoded there, since a filter can't run on a copied stream.
+ */
+function loudnessOverride(targetLufs: number) {
+  return ({ type, args }: { type: string; args: Array<string> }) => {
+    if (type !== 'stitcher') return args
+
+    const next = [...args]
+    const codecIndex = next.indexOf('-c:a')
+    if (codecIndex !== -1 && next[codecIndex + 1] === 'copy') {
+      next[codecIndex + 1] = 'aac'
+    }
+
+    // The output path is always the last argument
+    next.splice(
+      next.length - 1,
+      0,
+      '-af',
+      `loudnorm=I=${targetLufs}:TP=-1.5:LRA=11`,
+    )
+    return next
+  }
+}
+
+// =============================================================================
+// Mock Implementation
+// =============================================================================
+
+async function mockRender(
+  input: RenderInput,
+  onProgress?: RenderProgressCallback,
+): Promise<RenderResult> {
+  // Simulate rendering progress
+  for (const progress of [10, 35, 60, 85, 100]) {
+    await new Promise((resolve) => setTimeout(resolve, 400))
+    onProgress?.(progress)
+  }
+
+  return {
+    url: 'https://placehold.co/1080x1920.mp4',
+    contentType: 'video/mp4',
+    durationInFrames: input.durationInFrames,
+  }
+}
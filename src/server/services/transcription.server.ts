@@ -0,0 +1,253 @@
+/**
+ * Transcription Service
+ *
+ * Produces word-level timestamps for speech in audio and video files,
+ * used to caption uploaded voiceovers and talking-head clips.
+ *
+ * Providers implement TranscriptionProvider. The default uses Fal.ai's
+ * Whisper endpoint; mock mode returns generated timestamps.
+ *
+ * BYOK (Bring Your Own Key) Support:
+ * - Functions accept an optional `apiKey` parameter for user-provided keys
+ * - Falls back to FAL_KEY environment variable for admin/testing
+ */
+
+import type { WordTimestamp } from './types'
+
+const MOCK_TRANSCRIPTION = process.env.MOCK_GENERATION === 'true'
+const FAL_API_URL = 'https://queue.fal.run'
+const WHISPER_MODEL_ID = 'fal-ai/whisper'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface TranscriptionInput {
+  mediaUrl: string // Audio or video file; video is transcribed from its audio
+  language?: string // ISO 639-1 code; detected when omitted
+  durationSeconds?: number // Known media duration (used by the mock)
+}
+
+export interface TranscriptionResult {
+  text: string
+  wordTimestamps: Array<WordTimestamp>
+  duration: number // seconds, end of the last word
+  language?: string
+}
+
+export interface TranscriptionProvider {
+  name: string
+  transcribe: (
+    input: TranscriptionInput,
+    apiKey?: string,
+  ) => Promise<TranscriptionResult>
+}
+
+// Fal.ai response types
+interface FalWhisperResponse {
+  text: string
+  chunks?: Array<{
+    timestamp: [number, number | null]
+    text: string
+  }>
+  inferred_languages?: Array<string>
+}
+
+interface FalQueueResponse {
+  request_id: string
+}
+
+interface FalStatusResponse {
+  status: 'IN_QUEUE' | 'IN_PROGRESS' | 'COMPLETED' | 'FAILED'
+}
+
+// =============================================================================
+// Main Service Function
+// =============================================================================
+
+/**
+ * Transcribe speech in an audio or video file with word timestamps
+ *
+ * @param input - Media URL and optional language
+ * @param userApiKey - Optional user's fal.ai API key (for BYOK)
+ */
+export async function transcribeMedia(
+  input: TranscriptionInput,
+  userApiKey?: string,
+): Promise<TranscriptionResult> {
+  return getTranscriptionProvider().transcribe(input, userApiKey)
+}
+
+/**
+ * The provider used by transcribeMedia
+ */
+export function getTranscriptionProvider(): TranscriptionProvider {
+  return MOCK_TRANSCRIPTION ? mockProvider : falWhisperProvider
+}
+
+// =============================================================================
+// Fal.ai Whisper Provider
+// =============================================================================
+
+const falWhisperProvider: TranscriptionProvider = {
+  name: 'fal-whisper',
+
+  async transcribe(input, userApiKey) {
+    const apiKey = getApiKey(userApiKey)
+
+    const submitResponse = await fetch(`${FAL_API_URL}/${WHISPER_MODEL_ID}`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Key ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        audio_url: input.mediaUrl,
+        task: 'transcribe',
+        chunk_level: 'word',
+        ...(input.language && { language: input.language }),
+      }),
+    })
+
+    if (!submitResponse.ok) {
+      const error = await submitResponse.text()
+      throw new Error(
+        `Fal.ai transcription error: ${submitResponse.status} - ${error}`,
+      )
+    }
+
+    const queueData: FalQueueResponse = await submitResponse.json()
+    const result = await pollForCompletion(queueData.request_id, apiKey)
+
+    const wordTimestamps: Array<WordTimestamp> = (result.chunks || [])
+      .map((chunk) => ({
+        word: chunk.text.trim(),
+        start: chunk.timestamp[0],
+        // The last chunk can come back without an end time
+        end: chunk.timestamp[1] ?? chunk.timestamp[0] + 0.3,
+      }))
+      .filter((w) => w.word.length > 0)
+
+    return {
+      text: result.text.trim(),
+      wordTimestamps,
+      duration:
+        wordTimestamps.length > 0
+          ? wordTimestamps[wordTimestamps.length - 1].end
+          : 0,
+      language: result.inferred_languages?.[0] ?? input.language,
+    }
+  },
+}
+
+/**
+ * Check if transcription is configured (platform-level)
+ */
+export function isTranscriptionConfigured(): boolean {
+  if (MOCK_TRANSCRIPTION) return true
+  return !!process.env.FAL_KEY
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Get the fal.ai API key to use for requests
+ */
+function getApiKey(userApiKey?: string): string {
+  if (userApiKey) return userApiKey
+  const envKey = process.env.FAL_KEY
+  if (envKey) return envKey
+  throw new Error(
+    'No fal.ai API key available. Please add your API key in settings.',
+  )
+}
+
+/**
+ * Poll Fal.ai for job completion
+ */
+async function pollForCompletion(
+  requestId: string,
+  apiKey: string,
+  maxAttempts = 240, // 240 attempts * 1s = 4 minutes max
+  intervalMs = 1000,
+): Promise<FalWhisperResponse> {
+  const baseUrl = `${FAL_API_URL}/${WHISPER_MODEL_ID}/requests/${requestId}`
+
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    const statusResponse = await fetch(`${baseUrl}/status`, {
+      headers: { Authorization: `Key ${apiKey}` },
+    })
+
+    if (!statusResponse.ok) {
+      throw new Error(
+        `Failed to get transcription status: ${statusResponse.status}`,
+      )
+    }
+
+    const statusData: FalStatusResponse = await statusResponse.json()
+
+    if (statusData.status === 'COMPLETED') {
+      const resultResponse = await fetch(baseUrl, {
+        headers: { Authorization: `Key ${apiKey}` },
+      })
+
+      if (!resultResponse.ok) {
+        throw new Error(
+          `Failed to get transcription result: ${resultResponse.status}`,
+        )
+      }
+
+      return resultResponse.json()
+    }
+
+    if (statusData.status === 'FAILED') {
+      throw new Error('Transcription failed')
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, intervalMs))
+  }
+
+  throw new Error('Transcription timed out')
+}
+
+// =============================================================================
+// Mock Implementation
+// =============================================================================
+
+const MOCK_TRANSCRIPT =
+  'Welcome back to the channel. Today we are looking at how to get more done in less time, with three simple habits you can start using right away.'
+
+const mockProvider: TranscriptionProvider = {
+  name: 'mock',
+
+  async transcribe(input) {
+    // Simulate processing time
+    await new Promise((resolve) => setTimeout(resolve, 500))
+
+    // Spread the mock transcript over the media, repeating as needed
+    const duration = input.durationSeconds ?? 10
+    const words = MOCK_TRANSCRIPT.split(/\s+/)
+    const wordDuration = 0.35
+    const gap = 0.05
+
+    const wordTimestamps: Array<WordTimestamp> = []
+    let currentTime = 0.2
+    for (let i = 0; currentTime + wordDuration <= duration; i++) {
+      wordTimestamps.push({
+        word: words[i % words.length],
+        start: currentTime,
+        end: currentTime + wordDuration,
+      })
+      currentTime += wordDuration + gap
+    }
+
+    return {
+      text: wordTimestamps.map((w) => w.word).join(' '),
+      wordTimestamps,
+      duration: currentTime,
+      language: input.language ?? 'en',
+    }
+  },
+}
@@ -859,68 +859,21 @@ export interface GenerationJobOutput {
 // Project Manifest Types (The DNA of a video)
 // =============================================================================
 
-export interface ProjectManifest {
-  version: number
-  tracks: {
-    video: Array<VideoClip>
-    audio: Array<AudioClip>
-    components: Array<ComponentOverlay>
-  }
-  globalSettings: {
-    backgroundColor: string
-  }
-}
-
-export interface VideoClip {
-  id: string
-  assetId: string
-  url: string
-  startFrame: number
-  durationFrames: number
-  layer: number
-  transition?: TransitionType
-  effects?: Array<ClipEffect>
-}
-
-export interface AudioClip {
-  id: string
-  assetId: string
-  url: string
-  startFrame: number
-  durationFrames: number
-  volume: number
-  // Word timestamps for karaoke sync
-  wordTimestamps?: Array<WordTimestamp>
-}
-
-export interface ComponentOverlay {
-  id: string
-  component: 'KaraokeText' | 'BigTitle' | 'ImageOverlay' | 'LowerThird'
-
-  props: Record<string, any>
-  startFrame: number
-  durationFrames: number
-  layer: number
-}
-
-export interface WordTimestamp {
-  word: string
-  start: number // seconds
-  end: number // seconds
-}
-
-export type TransitionType =
-  | 'cut'
-  | 'fade'
-  | 'slide-left'
-  | 'slide-right'
-  | 'glitch'
-  | 'zoom'
-
-export interface ClipEffect {
-  type: 'brightness' | 'contrast' | 'saturation' | 'blur' | 'grayscale'
-  value: number
-}
+// Schema, migrations and helpers live in the shared remotion module
+export type {
+  AudioClip,
+  ClipEffect,
+  ComponentOverlay,
+  ProjectManifest,
+  TransitionType,
+  VideoClip,
+  WordTimestamp,
+} from '../../remotion/manifest'
+export {
+  createEmptyManifest,
+  getManifestDuration,
+  parseManifest,
+} from '../../remotion/manifest'
 
 // =============================================================================
 // Helper Functions
@@ -1063,20 +1016,6 @@ export interface VideoUpscaleInput {
   bytedanceTargetFps?: BytedanceVideoTargetFps
 }
 
-export function createEmptyManifest(): ProjectManifest {
-  return {
-    version: 1,
-    tracks: {
-      video: [],
-      audio: [],
-      components: [],
-    },
-    globalSettings: {
-      backgroundColor: '#000000',
-    },
-  }
-}
-
 // =============================================================================
 // 3D Model Configuration
 // =============================================================================
@@ -0,0 +1,246 @@
+/**
+ * Project Template Server Functions
+ *
+ * Save a project as a reusable template, list and delete templates, and
+ * fill a template's slots with assets or text (see remotion/templates).
+ * Projects are created from a template by createProjectFn.
+ */
+
+import { createServerFn } from '@tanstack/react-start'
+import { z } from 'zod'
+import { prisma } from '../db.server'
+import {
+  createTemplateFromManifest,
+  fillTemplateSlot,
+  templateSlotsSchema,
+} from '../remotion/templates'
+import { authMiddleware } from './middleware.server'
+import { parseManifest } from './services/index.server'
+import type { ProjectTemplate } from '../generated/prisma/client'
+import type { SlotAsset, SlotValue, TemplateSlot } from '../remotion/templates'
+import type { ProjectManifest } from './services/index.server'
+
+// =============================================================================
+// Schemas
+// =============================================================================
+
+/**
+ * What to fill a slot with: text for text slots, an asset for media slots
+ */
+export const slotInputSchema = z.object({
+  text: z.string().optional(),
+  assetId: z.string().optional(),
+})
+
+export type SlotInput = z.infer<typeof slotInputSchema>
+
+const saveTemplateSchema = z.object({
+  projectId: z.string(),
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).optional(),
+})
+
+const templateIdSchema = z.object({
+  templateId: z.string(),
+})
+
+// =============================================================================
+// Template CRUD
+// =============================================================================
+
+/**
+ * List the user's templates
+ */
+export const listTemplatesFn = createServerFn({ method: 'GET' })
+  .middleware([authMiddleware])
+  .handler(async ({ context }) => {
+    const templates = await prisma.projectTemplate.findMany({
+      where: { userId: context.user.id },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    return templates.map(formatTemplate)
+  })
+
+/**
+ * Save a project as a template. Its media clips become empty slots and
+ * the copy of its titles and CTAs becomes text slots.
+ */
+export const saveProjectAsTemplateFn = createServerFn({ method: 'POST' })
+  .middleware([authMiddleware])
+  .inputValidator(saveTemplateSchema)
+  .handler(async ({ data, context }) => {
+    const project = await prisma.project.findUnique({
+      where: { id: data.projectId },
+      select: {
+        userId: true,
+        manifest: true,
+        width: true,
+        height: true,
+        fps: true,
+      },
+    })
+
+    if (!project) {
+      throw new Error('Project not found')
+    }
+
+    if (project.userId !== context.user.id) {
+      throw new Error('Unauthorized')
+    }
+
+    const { manifest, slots } = createTemplateFromManifest(
+      parseManifest(project.manifest),
+      project.fps,
+    )
+
+    if (slots.length === 0) {
+      throw new Error('Add some clips or titles before saving a template')
+    }
+
+    const template = await prisma.projectTemplate.create({
+      data: {
+        userId: context.user.id,
+        name: data.name,
+        description: data.description,
+        width: project.width,
+        height: project.height,
+        fps: project.fps,
+        manifest: JSON.stringify(manifest),
+        slots: JSON.stringify(slots),
+      },
+    })
+
+    return formatTemplate(template)
+  })
+
+/**
+ * Delete a template. Projects created from it keep their manifest.
+ */
+export const deleteTemplateFn = createServerFn({ method: 'POST' })
+  .middleware([authMiddleware])
+  .inputValidator(templateIdSchema)
+  .handler(async ({ data, context }) => {
+    await getOwnedTemplate(data.templateId, context.user.id)
+
+    await prisma.projectTemplate.delete({
+      where: { id: data.templateId },
+    })
+
+    return { success: true }
+  })
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+export async function getOwnedTemplate(
+  templateId: string,
+  userId: string,
+): Promise<ProjectTemplate> {
+  const template = await prisma.projectTemplate.findUnique({
+    where: { id: templateId },
+  })
+
+  if (!template) {
+    throw new Error('Template not found')
+  }
+
+  if (template.userId !== userId) {
+    throw new Error('Unauthorized')
+  }
+
+  return template
+}
+
+/**
+ * A template's slots. Invalid stored slots are dropped rather than
+ * breaking the projects that use the template.
+ */
+export function parseTemplateSlots(json: string): Array<TemplateSlot> {
+  const parsed = templateSlotsSchema.safeParse(JSON.parse(json))
+  if (!parsed.success) {
+    console.warn('Invalid template slots:', parsed.error.message)
+    return []
+  }
+  return parsed.data
+}
+
+/**
+ * Fill slots of a manifest, resolving asset IDs to the user's assets.
+ * Slots without a value are left as they are.
+ */
+export async function fillTemplateSlots(
+  manifest: ProjectManifest,
+  slots: Array<TemplateSlot>,
+  values: Record<string, SlotInput>,
+  userId: string,
+  fps: number,
+): Promise<ProjectManifest> {
+  let filled = manifest
+
+  for (const [slotId, input] of Object.entries(values)) {
+    const slot = slots.find((s) => s.id === slotId)
+    if (!slot) {
+      throw new Error(`Template slot not found: ${slotId}`)
+    }
+
+    const value = await resolveSlotValue(slot, input, userId, fps)
+    if (value !== null) {
+      filled = fillTemplateSlot(filled, slot, value)
+    }
+  }
+
+  return filled
+}
+
+async function resolveSlotValue(
+  slot: TemplateSlot,
+  input: SlotInput,
+  userId: string,
+  fps: number,
+): Promise<SlotValue | null> {
+  if (slot.kind === 'text') {
+    return input.text ?? null
+  }
+
+  if (!input.assetId) return null
+
+  const asset = await prisma.asset.findUnique({
+    where: { id: input.assetId },
+  })
+
+  if (!asset || asset.userId !== userId) {
+    throw new Error(`Asset not found: ${input.assetId}`)
+  }
+
+  if (!['video', 'image', 'audio'].includes(asset.type)) {
+    throw new Error(`Asset ${asset.id} can't fill a timeline slot`)
+  }
+
+  const metadata = asset.metadata ? JSON.parse(asset.metadata) : {}
+
+  return {
+    id: asset.id,
+    url: asset.storageUrl,
+    type: asset.type as SlotAsset['type'],
+    ...(asset.durationSeconds && {
+      durationFrames: Math.round(asset.durationSeconds * fps),
+    }),
+    ...(metadata.wordTimestamps && { wordTimestamps: metadata.wordTimestamps }),
+  }
+}
+
+function formatTemplate(template: ProjectTemplate) {
+  return {
+    id: template.id,
+    name: template.name,
+    description: template.description,
+    width: template.width,
+    height: template.height,
+    fps: template.fps,
+    slots: parseTemplateSlots(template.slots),
+    createdAt: template.createdAt,
+    updatedAt: template.updatedAt,
+  }
+}
@@ -20,6 +20,11 @@ import {
 import { getVideoUpscaleModelById } from './services/types'
 import { uploadFromUrl } from './services/bunny.server'
 import { getUserStorageConfig } from './storage-config.server'
+import {
+  isSavingJobResult,
+  saveJobResult,
+  updateRunningJob,
+} from './jobs.server'
 
 // =============================================================================
 // Schemas
@@ -55,6 +60,8 @@ const upscaleVideoSchema = z.object({
   bytedanceTargetFps: z.enum(['30fps', '60fps']).optional(),
 })
 
+export type UpscaleVideoInput = z.infer<typeof upscaleVideoSchema>
+
 const jobIdSchema = z.object({
   jobId: z.string(),
 })
@@ -69,99 +76,107 @@ const jobIdSchema = z.object({
 export const upscaleVideoFn = createServerFn({ method: 'POST' })
   .middleware([authMiddleware])
   .inputValidator(upscaleVideoSchema)
-  .handler(async ({ data, context }) => {
-    console.log('[VIDEO_UPSCALE_FN] upscaleVideoFn called:', {
-      userId: context.user.id,
-      model: data.model,
-      videoUrl: data.videoUrl.slice(0, 50) + '...',
-    })
+  .handler(({ data, context }) => startVideoUpscaleJob(context.user.id, data))
 
-    const modelId = data.model || 'fal-ai/seedvr/upscale/video'
-    const modelConfig = getVideoUpscaleModelById(modelId)
+/**
+ * Start a video upscale job for a user (also used by the AI Director)
+ */
+export async function startVideoUpscaleJob(
+  userId: string,
+  data: UpscaleVideoInput,
+) {
+  console.log('[VIDEO_UPSCALE_FN] startVideoUpscaleJob called:', {
+    userId,
+    model: data.model,
+    videoUrl: data.videoUrl.slice(0, 50) + '...',
+  })
 
-    if (!modelConfig) {
-      console.error('[VIDEO_UPSCALE_FN] Unknown model:', modelId)
-      throw new Error(`Unknown video upscale model: ${modelId}`)
-    }
+  const modelId = data.model || 'fal-ai/seedvr/upscale/video'
+  const modelConfig = getVideoUpscaleModelById(modelId)
 
-    // Get user's fal.ai API key (BYOK)
-    const userApiKey = await getUserFalApiKey(context.user.id)
+  if (!modelConfig) {
+    console.error('[VIDEO_UPSCALE_FN] Unknown model:', modelId)
+    throw new Error(`Unknown video upscale model: ${modelId}`)
+  }
+
+  // Get user's fal.ai API key (BYOK)
+  const userApiKey = await getUserFalApiKey(userId)
+
+  // Start upscale job
+  console.log('[VIDEO_UPSCALE_FN] Starting video upscale job...')
+  const job = await upscaleVideo(
+    {
+      videoUrl: data.videoUrl,
+      model: modelId,
+      upscaleFactor: data.upscaleFactor,
+      // Topaz
+      targetFps: data.targetFps,
+      h264Output: data.h264Output,
+      // SeedVR
+      upscaleMode: data.upscaleMode,
+      seedvrTargetResolution: data.seedvrTargetResolution,
+      noiseScale: data.noiseScale,
+      outputFormat: data.outputFormat,
+      outputQuality: data.outputQuality,
+      seed: data.seed,
+      // Bytedance
+      bytedanceTargetResolution: data.bytedanceTargetResolution,
+      bytedanceTargetFps: data.bytedanceTargetFps,
+    },
+    userApiKey,
+  )
+
+  console.log('[VIDEO_UPSCALE_FN] Video upscale job started:', {
+    requestId: job.requestId,
+    statusUrl: job.statusUrl,
+    responseUrl: job.responseUrl,
+    model: modelId,
+  })
 
-    // Start upscale job
-    console.log('[VIDEO_UPSCALE_FN] Starting video upscale job...')
-    const job = await upscaleVideo(
-      {
+  // Create job record in database
+  const dbJob = await prisma.generationJob.create({
+    data: {
+      userId,
+      projectId: data.projectId || null,
+      type: 'video-upscale',
+      status: 'pending',
+      provider: 'fal',
+      model: modelId,
+      input: JSON.stringify({
         videoUrl: data.videoUrl,
-        model: modelId,
+        sourceAssetId: data.sourceAssetId,
         upscaleFactor: data.upscaleFactor,
-        // Topaz
-        targetFps: data.targetFps,
-        h264Output: data.h264Output,
-        // SeedVR
+        // Model-specific params
         upscaleMode: data.upscaleMode,
         seedvrTargetResolution: data.seedvrTargetResolution,
         noiseScale: data.noiseScale,
         outputFormat: data.outputFormat,
         outputQuality: data.outputQuality,
-        seed: data.seed,
-        // Bytedance
+        targetFps: data.targetFps,
+        h264Output: data.h264Output,
         bytedanceTargetResolution: data.bytedanceTargetResolution,
         bytedanceTargetFps: data.bytedanceTargetFps,
-      },
-      userApiKey,
-    )
-
-    console.log('[VIDEO_UPSCALE_FN] Video upscale job started:', {
-      requestId: job.requestId,
-      statusUrl: job.statusUrl,
-      responseUrl: job.responseUrl,
-      model: modelId,
-    })
-
-    // Create job record in database
-    const dbJob = await prisma.generationJob.create({
-      data: {
-        userId: context.user.id,
-        projectId: data.projectId || null,
-        type: 'video-upscale',
-        status: 'pending',
-        provider: 'fal',
-        model: modelId,
-        input: JSON.stringify({
-          videoUrl: data.videoUrl,
-          sourceAssetId: data.sourceAssetId,
-          upscaleFactor: data.upscaleFactor,
-          // Model-specific params
-          upscaleMode: data.upscaleMode,
-          seedvrTargetResolution: data.seedvrTargetResolution,
-          noiseScale: data.noiseScale,
-          outputFormat: data.outputFormat,
-          outputQuality: data.outputQuality,
-          targetFps: data.targetFps,
-          h264Output: data.h264Output,
-          bytedanceTargetResolution: data.bytedanceTargetResolution,
-          bytedanceTargetFps: data.bytedanceTargetFps,
-          // Save fal.ai queue URLs for status polling
-          statusUrl: job.statusUrl,
-          responseUrl: job.responseUrl,
-        }),
-        externalId: job.requestId,
-      },
-    })
-
-    console.log('[VIDEO_UPSCALE_FN] DB job created:', {
-      dbJobId: dbJob.id,
+        // Save fal.ai queue URLs for status polling
+        statusUrl: job.statusUrl,
+        responseUrl: job.responseUrl,
+      }),
       externalId: job.requestId,
-    })
+    },
+  })
 
-    return {
-      jobId: dbJob.id,
-      externalId: job.requestId,
-      model: modelId,
-      status: 'pending',
-    }
+  console.log('[VIDEO_UPSCALE_FN] DB job created:', {
+    dbJobId: dbJob.id,
+    externalId: job.requestId,
   })
 
+  return {
+    jobId: dbJob.id,
+    externalId: job.requestId,
+    model: modelId,
+    status: 'pending',
+  }
+}
+
 // =============================================================================
 // Job Status
 // =============================================================================
@@ -172,95 +187,108 @@ export const upscaleVideoFn = createServerFn({ method: 'POST' })
 export const getVideoUpscaleJobStatusFn = createServerFn({ method: 'GET' })
   .middleware([authMiddleware])
   .inputValidator(jobIdSchema)
-  .handler(async ({ data, context }) => {
-    console.log('[VIDEO_UPSCALE_FN] getVideoUpscaleJobStatusFn called:', {
-      jobId: data.jobId,
-    })
+  .handler(({ data, context }) =>
+    pollVideoUpscaleJob(data.jobId, context.user.id),
+  )
 
-    const job = await prisma.generationJob.findUnique({
-      where: { id: data.jobId },
-    })
+/**
+ * Poll a video upscale job, saving the result as an asset on completion
+ */
+export async function pollVideoUpscaleJob(jobId: string, userId: string) {
+  console.log('[VIDEO_UPSCALE_FN] pollVideoUpscaleJob called:', {
+    jobId,
+  })
 
-    if (!job) {
-      console.error('[VIDEO_UPSCALE_FN] Job not found:', data.jobId)
-      throw new Error('Job not found')
-    }
+  const job = await prisma.generationJob.findUnique({
+    where: { id: jobId },
+  })
 
-    console.log('[VIDEO_UPSCALE_FN] Found job:', {
-      id: job.id,
-      status: job.status,
-      externalId: job.externalId,
-      model: job.model,
-    })
+  if (!job) {
+    console.error('[VIDEO_UPSCALE_FN] Job not found:', jobId)
+    throw new Error('Job not found')
+  }
 
-    if (job.userId !== context.user.id) {
-      throw new Error('Unauthorized')
-    }
+  console.log('[VIDEO_UPSCALE_FN] Found job:', {
+    id: job.id,
+    status: job.status,
+    externalId: job.externalId,
+    model: job.model,
+  })
 
-    // If already completed or failed, return cached result
-    if (job.status === 'completed' || job.status === 'failed') {
-      console.log(
-        '[VIDEO_UPSCALE_FN] Returning cached result, status:',
-        job.status,
-      )
-      return {
-        jobId: job.id,
-        status: job.status,
-        progress: job.status === 'completed' ? 100 : 0,
-        output: job.output ? JSON.parse(job.output) : null,
-        error: job.error,
-      }
-    }
+  if (job.userId !== userId) {
+    throw new Error('Unauthorized')
+  }
 
-    // Poll Fal.ai for status
-    if (!job.externalId) {
-      console.error('[VIDEO_UPSCALE_FN] Job has no external ID!')
-      throw new Error('Job has no external ID')
+  // Another poll claimed the job and is still saving its result
+  if (isSavingJobResult(job)) {
+    return { jobId: job.id, status: 'processing' as const, progress: 100 }
+  }
+
+  // If already completed or failed, return cached result
+  if (job.status === 'completed' || job.status === 'failed') {
+    console.log(
+      '[VIDEO_UPSCALE_FN] Returning cached result, status:',
+      job.status,
+    )
+    return {
+      jobId: job.id,
+      status: job.status,
+      progress: job.status === 'completed' ? 100 : 0,
+      output: job.output ? JSON.parse(job.output) : null,
+      error: job.error,
     }
+  }
 
-    // Get statusUrl and responseUrl from saved input
-    const inputData = JSON.parse(job.input)
-    const { statusUrl, responseUrl } = inputData
+  // Poll Fal.ai for status
+  if (!job.externalId) {
+    console.error('[VIDEO_UPSCALE_FN] Job has no external ID!')
+    throw new Error('Job has no external ID')
+  }
 
-    if (!statusUrl || !responseUrl) {
-      console.error(
-        '[VIDEO_UPSCALE_FN] Job missing statusUrl or responseUrl in input!',
-      )
-      throw new Error('Job is missing fal.ai queue URLs.')
-    }
+  // Get statusUrl and responseUrl from saved input
+  const inputData = JSON.parse(job.input)
+  const { statusUrl, responseUrl } = inputData
 
-    console.log(
-      '[VIDEO_UPSCALE_FN] Polling fal.ai for status using saved URLs...',
+  if (!statusUrl || !responseUrl) {
+    console.error(
+      '[VIDEO_UPSCALE_FN] Job missing statusUrl or responseUrl in input!',
     )
-    const falStatus = await getVideoUpscaleJobStatus(statusUrl, responseUrl)
-    console.log('[VIDEO_UPSCALE_FN] fal.ai status result:', {
-      status: falStatus.status,
-      hasResult: !!falStatus.result,
-    })
+    throw new Error('Job is missing fal.ai queue URLs.')
+  }
 
-    // Update job status in database
-    if (falStatus.status === 'completed' && falStatus.result) {
-      console.log('[VIDEO_UPSCALE_FN] Job completed! Processing result...')
-      const result = falStatus.result
-      const falTempUrl = result.video?.url
+  console.log(
+    '[VIDEO_UPSCALE_FN] Polling fal.ai for status using saved URLs...',
+  )
+  const falStatus = await getVideoUpscaleJobStatus(statusUrl, responseUrl)
+  console.log('[VIDEO_UPSCALE_FN] fal.ai status result:', {
+    status: falStatus.status,
+    hasResult: !!falStatus.result,
+  })
 
-      console.log('[VIDEO_UPSCALE_FN] Extracted from result:', {
-        falTempUrl: falTempUrl?.slice(0, 80) + '...',
-      })
+  // Update job status in database
+  if (falStatus.status === 'completed' && falStatus.result) {
+    console.log('[VIDEO_UPSCALE_FN] Job completed! Processing result...')
+    const result = falStatus.result
+    const falTempUrl = result.video?.url
 
-      if (falTempUrl) {
+    console.log('[VIDEO_UPSCALE_FN] Extracted from result:', {
+      falTempUrl: falTempUrl?.slice(0, 80) + '...',
+    })
+
+    if (falTempUrl) {
+      const output = await saveJobResult(job.id, async () => {
         const filename = `video-upscale-${Date.now()}.mp4`
 
         // Upload the upscaled video from FAL's temporary URL to Bunny CDN (user's storage or platform default)
         let permanentUrl = falTempUrl
 
         console.log('[VIDEO_UPSCALE_FN] Uploading to Bunny CDN...')
-        const storageConfig = await getUserStorageConfig(context.user.id)
+        const storageConfig = await getUserStorageConfig(userId)
         try {
           const uploadResult = await uploadFromUrl(
             falTempUrl,
             {
-              folder: `videos/${context.user.id}`,
+              folder: `videos/${userId}`,
               filename,
             },
             storageConfig ?? undefined,
@@ -280,7 +308,7 @@ export const getVideoUpscaleJobStatusFn = createServerFn({ method: 'GET' })
         console.log('[VIDEO_UPSCALE_FN] Creating asset in DB...')
         const asset = await prisma.asset.create({
           data: {
-            userId: context.user.id,
+            userId,
             projectId: job.projectId,
             type: 'video',
             storageUrl: permanentUrl,
@@ -299,74 +327,63 @@ export const getVideoUpscaleJobStatusFn = createServerFn({ method: 'GET' })
         })
         console.log('[VIDEO_UPSCALE_FN] Asset created:', asset.id)
 
-        // Update job as completed
-        await prisma.generationJob.update({
-          where: { id: job.id },
-          data: {
-            status: 'completed',
-            progress: 100,
-            output: JSON.stringify({
-              url: permanentUrl,
-              assetId: asset.id,
-            }),
-          },
-        })
-        console.log('[VIDEO_UPSCALE_FN] Job marked as completed')
-
-        return {
-          jobId: job.id,
-          status: 'completed' as const,
-          progress: 100,
-          output: {
-            url: permanentUrl,
-            assetId: asset.id,
-          },
-        }
-      }
-    }
-
-    if (falStatus.status === 'failed') {
-      console.error('[VIDEO_UPSCALE_FN] Job failed!', falStatus.error)
-      await prisma.generationJob.update({
-        where: { id: job.id },
-        data: {
-          status: 'failed',
-          error: falStatus.error || 'Video upscale failed',
-        },
+        return { url: permanentUrl, assetId: asset.id }
       })
 
+      // Another poll claimed the job first and is saving the result
+      if (!output) {
+        return { jobId: job.id, status: 'processing' as const, progress: 100 }
+      }
+      console.log('[VIDEO_UPSCALE_FN] Job marked as completed')
+
       return {
         jobId: job.id,
-        status: 'failed' as const,
-        progress: 0,
-        error: falStatus.error || 'Video upscale failed',
+        status: 'completed' as const,
+        progress: 100,
+        output,
       }
     }
+  }
 
-    // Still processing
-    const progress =
-      falStatus.progress || (falStatus.status === 'processing' ? 50 : 10)
-
-    console.log('[VIDEO_UPSCALE_FN] Job still in progress:', {
-      falStatus: falStatus.status,
-      progress,
-    })
-
+  if (falStatus.status === 'failed') {
+    console.error('[VIDEO_UPSCALE_FN] Job failed!', falStatus.error)
     await prisma.generationJob.update({
       where: { id: job.id },
       data: {
-        status: falStatus.status === 'processing' ? 'processing' : 'pending',
-        progress,
+        status: 'failed',
+        error: falStatus.error || 'Video upscale failed',
       },
     })
 
     return {
       jobId: job.id,
-      status: falStatus.status === 'processing' ? 'processing' : 'pending',
-      progress,
+      status: 'failed' as const,
+      progress: 0,
+      error: falStatus.error || 'Video upscale failed',
     }
+  }
+
+  // Still processing
+  const progress =
+    falStatus.progress || (falStatus.status === 'processing' ? 50 : 10)
+
+  console.log('[VIDEO_UPSCALE_FN] Job still in progress:', {
+    falStatus: falStatus.status,
+    progress,
+  })
+
+  await updateRunningJob(job.id, {
+    status: falStatus.status === 'processing' ? 'processing' : 'pending',
+    progress,
   })
 
+  return {
+    jobId: job.id,
+    status: falStatus.status === 'processing' ? 'processing' : 'pending',
+    progress,
+  }
+}
+
 // =============================================================================
 // Model Info
 // =============================================================================
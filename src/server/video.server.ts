@@ -18,6 +18,11 @@ import {
 import { uploadBuffer, uploadFromUrl } from './services/bunny.server'
 import { getUserStorageConfig } from './storage-config.server'
 import { getVideoModelById } from './services/types'
+import {
+  isSavingJobResult,
+  saveJobResult,
+  updateRunningJob,
+} from './jobs.server'
 import type { FalVideoResult } from './services/fal.server'
 
 // =============================================================================
@@ -223,6 +228,11 @@ export const getVideoJobStatusFn = createServerFn({ method: 'GET' })
       throw new Error('Unauthorized')
     }
 
+    // Another poll claimed the job and is still saving its result
+    if (isSavingJobResult(job)) {
+      return { jobId: job.id, status: 'processing' as const, progress: 100 }
+    }
+
     // If already completed or failed, return cached result
     if (job.status === 'completed' || job.status === 'failed') {
       return {
@@ -253,64 +263,63 @@ export const getVideoJobStatusFn = createServerFn({ method: 'GET' })
       const videoUrl = result.video.url
 
       if (videoUrl) {
-        const inputData = JSON.parse(job.input)
-        const storageConfig = await getUserStorageConfig(context.user.id)
-        const uploadResult = await uploadFromUrl(
-          videoUrl,
-          {
-            folder: `videos/${context.user.id}`,
-            filename: `generated-${Date.now()}`,
-          },
-          storageConfig ?? undefined,
-        )
-
-        // Create asset for the generated video
-        const asset = await prisma.asset.create({
-          data: {
-            userId: context.user.id,
-            projectId: job.projectId,
-            type: 'video',
-            storageUrl: uploadResult.url,
-            filename: uploadResult.filename,
-            prompt: inputData.prompt,
-            provider: 'fal',
-            model: job.model,
-            durationSeconds: inputData.duration || 5,
-            metadata: JSON.stringify({
-              generationType: inputData.generationType,
-              sourceImageUrl: inputData.imageUrl,
-              sourceImageId: inputData.sourceImageId,
-              firstFrameUrl: inputData.firstFrameUrl,
-              lastFrameUrl: inputData.lastFrameUrl,
-              aspectRatio: inputData.aspectRatio,
-              duration: inputData.duration || 5,
-            }),
-          },
+        const output = await saveJobResult(job.id, async () => {
+          const inputData = JSON.parse(job.input)
+          const storageConfig = await getUserStorageConfig(context.user.id)
+          const uploadResult = await uploadFromUrl(
+            videoUrl,
+            {
+              folder: `videos/${context.user.id}`,
+              filename: `generated-${Date.now()}`,
+            },
+            storageConfig ?? undefined,
+          )
+
+          // Create asset for the generated video
+          const asset = await prisma.asset.create({
+            data: {
+              userId: context.user.id,
+              projectId: job.projectId,
+              type: 'video',
+              storageUrl: uploadResult.url,
+              filename: uploadResult.filename,
+              prompt: inputData.prompt,
+              provider: 'fal',
+              model: job.model,
+              durationSeconds: inputData.duration || 5,
+              metadata: JSON.stringify({
+                generationType: inputData.generationType,
+                sourceImageUrl: inputData.imageUrl,
+                sourceImageId: inputData.sourceImageId,
+                firstFrameUrl: inputData.firstFrameUrl,
+                lastFrameUrl: inputData.lastFrameUrl,
+                aspectRatio: inputData.aspectRatio,
+                duration: inputData.duration || 5,
+              }),
+            },
+          })
+
+          return {
+            url: uploadResult.url,
+            assetId: asset.id,
+            duration: inputData.duration || 5,
+          }
         })
 
-        // Update job as completed
-        await prisma.generationJob.update({
-          where: { id: job.id },
-          data: {
-            status: 'completed',
+        // Another poll claimed the job first and is saving the result
+        if (!output) {
+          return {
+            jobId: job.id,
+            status: 'processing' as const,
             progress: 100,
-            output: JSON.stringify({
-              url: uploadResult.url,
-              assetId: asset.id,
-              duration: inputData.duration || 5,
-            }),
-          },
-        })
+          }
+        }
 
         return {
           jobId: job.id,
           status: 'completed' as const,
           progress: 100,
-          output: {
-            url: uploadResult.url,
-            assetId: asset.id,
-            duration: inputData.duration || 5,
-          },
+          output,
         }
       }
     }
@@ -336,12 +345,9 @@ export const getVideoJobStatusFn = createServerFn({ method: 'GET' })
     const progress =
       falStatus.progress || (falStatus.status === 'processing' ? 50 : 10)
 
-    await prisma.generationJob.update({
-      where: { id: job.id },
-      data: {
-        status: falStatus.status === 'processing' ? 'processing' : 'pending',
-        progress,
-      },
+    await updateRunningJob(job.id, {
+      status: falStatus.status === 'processing' ? 'processing' : 'pending',
+      progress,
     })
 
     return {
@@ -38,6 +38,8 @@ const config = defineConfig({
       '@prisma/client',
       '@prisma/adapter-better-sqlite3',
       'better-sqlite3',
+      '@remotion/bundler',
+      '@remotion/renderer',
     ],
   },
   optimizeDeps: {